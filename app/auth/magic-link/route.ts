@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthProvider } from '@/lib/auth'
+import { safeRedirectUrl } from '@/lib/auth/redirect'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// POST /api/auth/magic-link - Email a sign-in link
+export async function POST(req: NextRequest) {
+  try {
+    const provider = getAuthProvider()
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    const { email, redirectTo } = await req.json()
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      )
+    }
+
+    await provider.sendMagicLink(email.trim(), safeRedirectUrl(req, redirectTo))
+
+    return NextResponse.json({ sent: true })
+  } catch (error) {
+    console.error('Error in POST /api/auth/magic-link:', error)
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthProvider, OAuthProviderId } from '@/lib/auth'
+import { safeRedirectUrl } from '@/lib/auth/redirect'
+
+const OAUTH_PROVIDERS: OAuthProviderId[] = ['github', 'google', 'discord', 'gitlab', 'azure']
+
+// GET /api/auth/oauth?provider=github - Start an OAuth sign-in
+export async function GET(req: NextRequest) {
+  try {
+    const authProvider = getAuthProvider()
+    const provider = req.nextUrl.searchParams.get('provider') as OAuthProviderId | null
+
+    if (!authProvider) {
+      return NextResponse.json(
+        { error: 'Authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!provider || !OAUTH_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: `provider must be one of ${OAUTH_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const redirectTo = safeRedirectUrl(req, req.nextUrl.searchParams.get('redirect_to'))
+    return NextResponse.redirect(await authProvider.getOAuthUrl(provider, redirectTo))
+  } catch (error) {
+    console.error('Error in GET /api/auth/oauth:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to start sign-in',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  clearSessionCookies,
+  getAuthProvider,
+  isAuthEnabled,
+  resolveSession,
+  setSessionCookies
+} from '@/lib/auth'
+
+// GET /api/auth/session - Whether sign-in is required and who is signed in
+export async function GET(req: NextRequest) {
+  try {
+    const provider = getAuthProvider()
+    const { user, refreshed } = await resolveSession(req)
+
+    const response = NextResponse.json({
+      enabled: isAuthEnabled(),
+      provider: provider?.id || null,
+      user
+    })
+    if (refreshed) setSessionCookies(response, refreshed)
+    return response
+  } catch (error) {
+    console.error('Error in GET /api/auth/session:', error)
+    return NextResponse.json(
+      { error: 'Failed to get session' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/auth/session - Store a session the browser received in a redirect
+// (the URL fragment after a magic link or OAuth sign-in)
+export async function POST(req: NextRequest) {
+  try {
+    const provider = getAuthProvider()
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    const { accessToken, refreshToken, expiresAt } = await req.json()
+    if (typeof accessToken !== 'string' || typeof refreshToken !== 'string') {
+      return NextResponse.json(
+        { error: 'accessToken and refreshToken are required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await provider.verifyAccessToken(accessToken)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid or expired session' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ user })
+    setSessionCookies(response, {
+      user,
+      accessToken,
+      refreshToken,
+      expiresAt: Number(expiresAt) || Math.floor(Date.now() / 1000) + 3600
+    })
+    return response
+  } catch (error) {
+    console.error('Error in POST /api/auth/session:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/auth/session - Sign out
+export async function DELETE(req: NextRequest) {
+  const response = NextResponse.json({ success: true })
+  clearSessionCookies(response)
+
+  try {
+    const provider = getAuthProvider()
+    const { accessToken } = await resolveSession(req)
+    if (provider && accessToken) {
+      await provider.signOut(accessToken)
+    }
+  } catch (error) {
+    // The cookies are cleared either way; the token just stays valid until it expires
+    console.error('Error in DELETE /api/auth/session:', error)
+  }
+
+  return response
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthProvider, setSessionCookies } from '@/lib/auth'
+import { safeRedirectUrl } from '@/lib/auth/redirect'
+
+// GET /api/auth/verify?token=...&redirect_to=... - Follow a sign-in link
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams
+  const redirectTo = new URL(safeRedirectUrl(req, searchParams.get('redirect_to')))
+
+  try {
+    const provider = getAuthProvider()
+    // Supabase email templates name the parameter token_hash
+    const token = searchParams.get('token') || searchParams.get('token_hash')
+    const session = provider && token ? await provider.verifyMagicLink(token) : null
+
+    if (!session) {
+      redirectTo.searchParams.set('auth_error', 'invalid_link')
+      return NextResponse.redirect(redirectTo)
+    }
+
+    const response = NextResponse.redirect(redirectTo)
+    setSessionCookies(response, session)
+    return response
+  } catch (error) {
+    console.error('Error in GET /api/auth/verify:', error)
+    redirectTo.searchParams.set('auth_error', 'verification_failed')
+    return NextResponse.redirect(redirectTo)
+  }
+}
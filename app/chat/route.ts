@@ -1,16 +1,107 @@
-import { GoogleGenerativeAI } from "@google/generative-ai"
 import { ImageGenerationHandler } from "@/lib/image-generation-handler"
 import { VideoGenerationHandler } from "@/lib/video-generation-handler"
 import { SearchIntentDetector } from "@/lib/search-intent-detector"
-import { PerplexityClient } from "@/lib/perplexity-client"
+import { resolveSearchProviders, searchWeb, SearchProviderError, type SearchRecency, type SearchResponse } from "@/lib/search"
+import { getChatSearchProviders } from "@/lib/services/chat-persistence"
 import {
   containsTTSCommand,
   containsMultiSpeakerTTSCommand,
   extractTTSContent
 } from "@/lib/wavespeed-tts-handler"
+import { MCPToolsContext } from "@/lib/mcp/mcp-tools-context"
+import { MCPModelToolset } from "@/lib/mcp/mcp-model-tools"
+import { MCPChatContext, type MCPContextAttachment } from "@/lib/mcp/mcp-chat-context"
+import { ModelRouter, ModelNotFoundError, ModelUnavailableError } from "@/lib/models/model-router"
+import type { ChatContentPart, ChatMessage, ToolCall } from "@/lib/models/types"
+import { encodeChatStreamEvent } from "@/lib/chat-stream-events"
+import { getCurrentUser, withAuth } from "@/lib/auth"
+import { ChatWorkflowIntegration, detectWorkflowTrigger } from "@/lib/langgraph/integration/chat-integration"
+import { WorkflowTemplateError } from "@/lib/langgraph/templates/workflow-templates"
+
+// Upper bound on model -> tool -> model round trips per request
+const MAX_TOOL_ROUNDS = 5
+
+// Model used when the client doesn't send one
+const DEFAULT_CHAT_MODEL = "gemini-2.0-flash"
+
+// [IMAGE_GENERATION_COMPLETED]...[/IMAGE_GENERATION_COMPLETED] and similar UI data
+// blocks, still present in the content of messages saved before stream events
+const DATA_MARKER_PATTERN = /\[([A-Z_]+)\][\s\S]*?\[\/\1\]/g
+
+function toUserContent(content: any): ChatContentPart[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }]
+  }
+  if (!Array.isArray(content)) {
+    return []
+  }
+
+  return content.flatMap((part: any): ChatContentPart[] => {
+    if (part.type === 'text') {
+      return [{ type: 'text', text: part.text }]
+    }
+    if (part.type === 'image') {
+      return [{ type: 'inline', mimeType: part.image.mimeType || 'image/jpeg', data: part.image.data }]
+    }
+    return []
+  })
+}
+
+/**
+ * Convert the client's conversation into provider-neutral messages.
+ * This turn's attachments are placed ahead of the last user message's text.
+ */
+function toChatMessages(messages: any[], attachments: ChatContentPart[]): ChatMessage[] {
+  const chatMessages: ChatMessage[] = []
+
+  for (const message of messages) {
+    if (message.id === 'welcome-message') continue
+
+    if (message.role === 'user') {
+      chatMessages.push({ role: 'user', content: toUserContent(message.content) })
+    } else if (message.role === 'assistant' && typeof message.content === 'string') {
+      // UI data blocks are for rendering, not for the model
+      const content = message.content.replace(DATA_MARKER_PATTERN, '').trim()
+      if (content) {
+        chatMessages.push({ role: 'assistant', content })
+      }
+    }
+  }
+
+  const lastUserMessage = [...chatMessages].reverse().find(m => m.role === 'user')
+  if (lastUserMessage && attachments.length > 0) {
+    lastUserMessage.content = [...attachments, ...(lastUserMessage.content as ChatContentPart[])]
+  }
 
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "")
+  return chatMessages
+}
+
+// Maximum results listed to the model when no provider wrote an answer
+const MAX_SEARCH_CONTEXT_RESULTS = 8
+
+function searchContextParts(searchResults: SearchResponse | null, citations: string[]): ChatContentPart[] {
+  if (!searchResults || (!searchResults.answer && searchResults.results.length === 0)) {
+    return []
+  }
+
+  // Providers without a written answer (Brave, SearXNG) contribute their ranked pages instead
+  const searchContent = searchResults.answer || searchResults.results
+    .slice(0, MAX_SEARCH_CONTEXT_RESULTS)
+    .map((result, i) => `[${i + 1}] ${result.title} (${result.url})${result.snippet ? `\n${result.snippet}` : ''}`)
+    .join('\n\n')
+
+  console.log('[Chat API] Adding search results to context')
+  return [
+    {
+      type: 'text',
+      text: `System: Today's date is ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}. You have access to web search results to provide current information.`
+    },
+    {
+      type: 'text',
+      text: `Web Search Results:\n${searchContent}\n\nCitations: ${citations.join(', ')}\n\nPlease use this information to answer the user's question accurately with current data.`
+    }
+  ]
+}
 
 /**
  * Helper function to check if a message is a reverse engineering analysis request
@@ -44,16 +135,73 @@ function isReverseEngineeringRequest(message: string): boolean {
   return reverseEngineeringPatterns.some(pattern => pattern.test(message))
 }
 
-export async function POST(req: Request) {
+/**
+ * Start the workflow a "workflow: <template> <inputs>" message names and
+ * answer with a short reply; the client follows the run through the
+ * workflow_started event instead of a model response.
+ */
+async function workflowReply(message: string, chatId: string | undefined): Promise<Response> {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+
+  if (!chatId) {
+    parts.push(`0:${JSON.stringify('Workflows run in saved chats. Send the message again once this chat has been saved.')}\n`)
+  } else {
+    try {
+      const integration = ChatWorkflowIntegration.getInstance()
+      // Runs belong to the signed-in user, as with POST /api/workflows
+      const userId = getCurrentUser()?.id ?? 'anonymous'
+      let objective = message
+      const workflowId = await integration.startWorkflowFromChat(message, chatId, userId, (event) => {
+        if (event.type === 'workflow_started') objective = event.objective
+      })
+
+      if (workflowId) {
+        console.log(`[Chat API] Started workflow ${workflowId} from chat ${chatId}`)
+        parts.push(`0:${JSON.stringify(`Started workflow: ${objective}`)}\n`)
+        parts.push(encodeChatStreamEvent('workflow_started', { workflowId, objective }))
+      }
+    } catch (error) {
+      // Unknown templates and missing inputs are the user's to fix
+      if (!(error instanceof WorkflowTemplateError)) throw error
+      parts.push(`0:${JSON.stringify(`Could not start the workflow: ${error.message}`)}\n`)
+    }
+  }
+
+  parts.push(`d:${JSON.stringify({ finishReason: 'stop', usage: { promptTokens: 0, completionTokens: 0 } })}\n`)
+  return new Response(encoder.encode(parts.join('')), {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// Runs as the signed-in user, so the chat settings it reads (e.g. search providers) are theirs
+export const POST = withAuth(async (req: Request) => {
   try {
     // Parse request
     const {
       messages,
-      model = "gemini-2.0-flash",
+      model = DEFAULT_CHAT_MODEL,
       fileUri,
       fileMimeType,
       multipleFiles,
-      imageSettings
+      imageSettings,
+      mcpContext,
+      chatId,
+      searchProviders
+    }: {
+      messages: any[]
+      model?: string
+      fileUri?: string
+      fileMimeType?: string
+      multipleFiles?: any[]
+      imageSettings?: any
+      mcpContext?: MCPContextAttachment[]
+      chatId?: string
+      // Overrides the chat's saved search providers
+      searchProviders?: string[]
     } = await req.json()
 
     console.log(`[Chat API] Request received with model: ${model}`)
@@ -65,49 +213,61 @@ export async function POST(req: Request) {
       return new Response("Invalid messages format", { status: 400 })
     }
 
+    // Resolve the model up front so unknown or unconfigured models fail before any work
+    const router = ModelRouter.getInstance()
+    let chatModel
+    try {
+      chatModel = router.requireModel(model)
+    } catch (error) {
+      if (error instanceof ModelNotFoundError || error instanceof ModelUnavailableError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          }
+        )
+      }
+      throw error
+    }
+
     // Get the last user message
     const lastUserMessage = messages.filter(m => m.role === 'user').pop()
     const messageContent = lastUserMessage?.content || ''
 
+    // Only the explicit "workflow:" trigger starts a workflow here; the other
+    // triggers ("create ...", "research ...") match ordinary requests for the model
+    if (typeof messageContent === 'string' && detectWorkflowTrigger(messageContent).template) {
+      return workflowReply(messageContent, chatId)
+    }
+
     // Check for web search intent
-    let searchResults: any = null
+    let searchResults: SearchResponse | null = null
     let searchCitations: string[] = []
     let searchError: string | null = null
     let needsWebSearch = false
     let webSearchQuery = ''
-
-    // Skip search for Claude models as they have their own MCP-based search
-    if (model !== "Claude Sonnet 4") {
-      const detector = new SearchIntentDetector()
-      const searchIntent = detector.detectSearchIntent(messageContent)
-
-      // Check if the message contains [FORCE_WEB_SEARCH] marker (from follow-up questions)
-      const forceSearch = messageContent.includes('[FORCE_WEB_SEARCH]')
-      const cleanedMessage = messageContent.replace('[FORCE_WEB_SEARCH]', '').trim()
-
-      if (searchIntent.needsSearch || forceSearch) {
-        needsWebSearch = true
-        webSearchQuery = forceSearch ? cleanedMessage : (searchIntent.searchQuery || messageContent)
-        // Check if API key is available
-        if (!process.env.PERPLEXITY_API_KEY) {
-          console.log('[Chat API] Web search needed but PERPLEXITY_API_KEY not configured')
-          searchError = 'Web search requires a Perplexity API key. Add PERPLEXITY_API_KEY to your .env.local file. Get one at https://www.perplexity.ai/settings/api'
-        } else {
-          console.log('[Chat API] Web search needed:', { searchIntent, forceSearch })
-          // Search will be performed in the streaming response to show indicator first
-        }
-      }
-    }
-
-    // Check if it's a Claude model
-    if (model === "Claude Sonnet 4") {
-      console.log('[Chat API] Routing to Claude Sonnet 4 handler')
-      try {
-        const { handleClaudeRequest } = await import('./claude-handler')
-        return handleClaudeRequest(messages)
-      } catch (error) {
-        console.error('[Chat API] Claude handler error:', error)
-        return new Response("Claude handler not available", { status: 500 })
+    let searchProviderIds: ReturnType<typeof resolveSearchProviders> = []
+
+    const detector = new SearchIntentDetector()
+    const searchIntent = detector.detectSearchIntent(messageContent)
+
+    // Check if the message contains [FORCE_WEB_SEARCH] marker (from follow-up questions)
+    const forceSearch = messageContent.includes('[FORCE_WEB_SEARCH]')
+    const cleanedMessage = messageContent.replace('[FORCE_WEB_SEARCH]', '').trim()
+
+    if (searchIntent.needsSearch || forceSearch) {
+      needsWebSearch = true
+      webSearchQuery = forceSearch ? cleanedMessage : (searchIntent.searchQuery || messageContent)
+      searchProviderIds = resolveSearchProviders(searchProviders ?? (chatId ? await getChatSearchProviders(chatId) : null))
+      if (searchProviderIds.length === 0) {
+        console.log('[Chat API] Web search needed but no search provider is configured')
+        searchError = 'Web search needs a search provider. Add PERPLEXITY_API_KEY, TAVILY_API_KEY, BRAVE_SEARCH_API_KEY or SEARXNG_URL to your .env.local file.'
+      } else {
+        console.log('[Chat API] Web search needed:', { searchIntent, forceSearch, providers: searchProviderIds })
+        // Search will be performed in the streaming response to show indicator first
       }
     }
 
@@ -378,267 +538,263 @@ export async function POST(req: Request) {
       }
     }
 
-    // Handle Gemini models
-    if (model === "gemini-2.0-flash" || model === "gemini-2.5-flash-preview-05-20" || model === "gemini-2.5-pro-preview-06-05") {
-      const chat = genAI.getGenerativeModel({ model: model })
-
-      // Convert messages to Gemini format
-      const contentParts = []
-
-      // Add multiple files if provided
-      if (multipleFiles && multipleFiles.length > 0) {
-        console.log(`[Chat API] Processing ${multipleFiles.length} files`)
-        for (const file of multipleFiles) {
-          if (file.uri && file.mimeType) {
-            console.log(`[Chat API] Adding file: ${file.name}, ${file.mimeType}`)
-            contentParts.push({
-              fileData: {
-                mimeType: file.mimeType,
-                fileUri: file.uri
-              }
-            })
-          }
+    // Register connected MCP tools as native tools for the selected model;
+    // image and video generation turns are answered without tools
+    let mcpToolset: MCPModelToolset | null = null
+    if (!imageGenerationData && !videoGenerationData) {
+      try {
+        const toolsContext = await MCPToolsContext.getAvailableTools()
+        if (toolsContext.tools.length > 0) {
+          mcpToolset = new MCPModelToolset(toolsContext.tools)
+          console.log(`[Chat API] Registered ${mcpToolset.size} MCP tools for ${chatModel.label}`)
         }
+      } catch (error) {
+        console.error('[Chat API] Failed to load MCP tools:', error)
       }
-      // Add single file if provided (fallback for backward compatibility)
-      else if (fileUri && fileMimeType) {
-        console.log(`[Chat API] Processing single file: ${fileMimeType}, URI: ${fileUri}`)
-        contentParts.push({
-          fileData: {
-            mimeType: fileMimeType,
-            fileUri: fileUri
-          }
-        })
-      }
-
-      // If we have search results, add them to the context first
-      if (searchResults && searchResults.choices?.[0]?.message?.content) {
-        console.log('[Chat API] Adding search results to context')
-
-        // Add system message with date context
-        contentParts.push({
-          text: `System: Today's date is ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}. You have access to web search results to provide current information.`
-        })
+    }
 
-        // Add search results
-        const searchContent = searchResults.choices[0].message.content
-        contentParts.push({
-          text: `Web Search Results:\n${searchContent}\n\nCitations: ${searchCitations.join(', ')}\n\nPlease use this information to answer the user's question accurately with current data.`
-        })
-      }
+    // Attachments for this turn, sent ahead of the user's text
+    const attachmentParts: ChatContentPart[] = []
 
-      // Then add message content
-      for (const message of messages) {
-        if (message.role === 'user') {
-          if (typeof message.content === 'string') {
-            contentParts.push({ text: message.content })
-          } else if (Array.isArray(message.content)) {
-            for (const part of message.content) {
-              if (part.type === 'text') {
-                contentParts.push({ text: part.text })
-              } else if (part.type === 'image') {
-                contentParts.push({
-                  inlineData: {
-                    mimeType: part.image.mimeType || 'image/jpeg',
-                    data: part.image.data
-                  }
-                })
-              }
-            }
-          }
+    // Add multiple files if provided
+    if (multipleFiles && multipleFiles.length > 0) {
+      console.log(`[Chat API] Processing ${multipleFiles.length} files`)
+      for (const file of multipleFiles) {
+        if (file.uri && file.mimeType) {
+          console.log(`[Chat API] Adding file: ${file.name}, ${file.mimeType}`)
+          attachmentParts.push({ type: 'file', mimeType: file.mimeType, uri: file.uri })
         }
       }
+    }
+    // Add single file if provided (fallback for backward compatibility)
+    else if (fileUri && fileMimeType) {
+      console.log(`[Chat API] Processing single file: ${fileMimeType}, URI: ${fileUri}`)
+      attachmentParts.push({ type: 'file', mimeType: fileMimeType, uri: fileUri })
+    }
 
-      // Create streaming response
-      const encoder = new TextEncoder()
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            // Send web search indicator if search is needed
-            if (needsWebSearch) {
-              const searchIndicator = `[WEB_SEARCH_STARTED]${JSON.stringify({
-                query: webSearchQuery,
-                hasResults: false,
-                hasError: !!searchError
-              })}[/WEB_SEARCH_STARTED]`
-              controller.enqueue(encoder.encode(`0:${JSON.stringify(searchIndicator)}\n`))
-
-              // Now perform the actual search if no error
-              if (!searchError) {
-                try {
-                  const perplexityClient = new PerplexityClient()
-                  const detector = new SearchIntentDetector()
-                  const searchIntent = detector.detectSearchIntent(messageContent)
-                  const forceSearch = messageContent.includes('[FORCE_WEB_SEARCH]')
-                  const cleanedMessage = messageContent.replace('[FORCE_WEB_SEARCH]', '').trim()
-
-                  // Prepare search options
-                  const searchOptions: any = {
-                    search_mode: searchIntent.searchType === 'academic' ? 'academic' : 'web',
-                    return_images: true,
-                    return_related_questions: true
-                  }
-
-                  if (searchIntent.timeFilter) {
-                    searchOptions.search_recency_filter = searchIntent.timeFilter
-                  }
-
-                  if (searchIntent.domainFilter) {
-                    searchOptions.search_domain_filter = searchIntent.domainFilter
-                  }
-
-                  // Create system message with current date context
-                  const systemMessage = {
-                    role: 'system' as const,
-                    content: `You are a helpful AI assistant with access to real-time web search.
-Today's date is ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.
-Always provide the most current and up-to-date information based on search results.
-Always cite your sources when using searched information.
-Format citations as [Source Name](URL) when referencing search results.`
-                  }
+    // Add @-mentioned MCP resources and prompt templates
+    if (mcpContext && mcpContext.length > 0) {
+      console.log(`[Chat API] Resolving ${mcpContext.length} MCP context attachments`)
+      attachmentParts.push(...await MCPChatContext.resolveAttachments(mcpContext))
+    }
 
-                  // Perform the search with cleaned message
-                  const searchResponse = await perplexityClient.search(
-                    [
-                      systemMessage,
-                      { role: 'user' as const, content: forceSearch ? cleanedMessage : messageContent }
-                    ],
-                    searchOptions
-                  )
-
-                  console.log('[Chat API] Search completed:', {
-                    hasResults: !!searchResponse,
-                    citationsCount: searchResponse.citations?.length || 0,
-                    searchResultsCount: searchResponse.search_results?.length || 0
-                  })
+    // Create streaming response
+    const encoder = new TextEncoder()
+    // Token usage summed over every model call, reported with the finish event
+    const usage = { promptTokens: 0, completionTokens: 0 }
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          // Send web search indicator if search is needed
+          if (needsWebSearch) {
+            controller.enqueue(encoder.encode(encodeChatStreamEvent('search_results', {
+              status: searchError ? 'failed' : 'searching',
+              query: webSearchQuery,
+              error: searchError || undefined,
+              citations: [],
+              searchResults: [],
+              images: [],
+              relatedQuestions: []
+            })))
+
+            // Now perform the actual search if no error
+            if (!searchError) {
+              try {
+                const searchResponse = await searchWeb({
+                  query: forceSearch ? cleanedMessage : messageContent,
+                  recency: searchIntent.timeFilter as SearchRecency | undefined,
+                  domains: searchIntent.domainFilter,
+                  includeImages: true,
+                  signal: req.signal
+                }, searchProviderIds)
+
+                console.log('[Chat API] Search completed:', {
+                  providers: searchResponse.providers,
+                  failedProviders: searchResponse.errors?.map(error => error.provider),
+                  searchResultsCount: searchResponse.results.length
+                })
 
-                  searchResults = searchResponse
-                  searchCitations = searchResponse.citations || []
+                searchResults = searchResponse
+                searchCitations = searchResponse.results.map(result => result.url)
 
-                  // Update the last user message to use cleaned content if force search
-                  if (forceSearch && lastUserMessage) {
-                    lastUserMessage.content = cleanedMessage
-                  }
-                } catch (error: any) {
-                  console.error('[Chat API] Perplexity search error:', error)
-
-                  // Capture error details for user feedback
-                  if (error.response?.status === 401) {
-                    searchError = 'Invalid or missing Perplexity API key. Please check your PERPLEXITY_API_KEY in .env.local'
-                  } else if (error.response?.status === 429) {
-                    searchError = 'Perplexity API rate limit exceeded. Please try again later.'
-                  } else {
-                    searchError = 'Web search temporarily unavailable. Using cached knowledge instead.'
-                  }
+                // Update the last user message to use cleaned content if force search
+                if (forceSearch && lastUserMessage) {
+                  lastUserMessage.content = cleanedMessage
+                }
+              } catch (error: any) {
+                console.error('[Chat API] Web search error:', error)
+
+                // Capture error details for user feedback
+                if (error instanceof SearchProviderError && (error.status === 401 || error.status === 403)) {
+                  searchError = `Invalid or missing ${error.provider} API key. Please check your .env.local`
+                } else if (error instanceof SearchProviderError && error.status === 429) {
+                  searchError = `${error.provider} search rate limit exceeded. Please try again later.`
+                } else {
+                  searchError = 'Web search temporarily unavailable. Using cached knowledge instead.'
                 }
               }
             }
-            // Check if this is an image-only generation request (no other actions)
-            if (imageGenerationData && !videoGenerationData) {
-              console.log('[Chat API] Image generation only - using direct response without Gemini')
+          }
+          // Check if this is an image-only generation request (no other actions)
+          if (imageGenerationData && !videoGenerationData) {
+            console.log('[Chat API] Image generation only - using direct response without a model call')
+
+            // Send the predetermined response for image generation
+            const responseText = ImageGenerationHandler.generateResponse(imageRequest!)
+            controller.enqueue(encoder.encode(`0:${JSON.stringify(responseText)}\n`))
+
+            controller.enqueue(encoder.encode(encodeChatStreamEvent('image_generated', imageGenerationData)))
 
-              // Send the predetermined response for image generation
-              const responseText = ImageGenerationHandler.generateResponse(imageRequest!)
+            console.log('[Chat API] Sent image generation response without a model call')
+          }
+          // For video generation or mixed requests, we still call the model
+          else {
+            // If we detected a video request (and not reverse engineering), send the appropriate response first
+            if (videoRequest && !isReverseEngineering) {
+              const responseText = VideoGenerationHandler.generateResponse(videoRequest)
               controller.enqueue(encoder.encode(`0:${JSON.stringify(responseText)}\n`))
 
-              // Inject the image generation data marker
-              const imageDataMarker = `\n\n[IMAGE_GENERATION_COMPLETED]\n${JSON.stringify(imageGenerationData)}\n[/IMAGE_GENERATION_COMPLETED]`
-              controller.enqueue(encoder.encode(`0:${JSON.stringify(imageDataMarker)}\n`))
+              if (videoGenerationData) {
+                controller.enqueue(encoder.encode(encodeChatStreamEvent('video_started', videoGenerationData)))
+              }
+            } else {
+              // Stream the model's answer, executing any MCP tool calls
+              // and feeding their results back until the model stops calling tools
+              const chatMessages = toChatMessages(messages, [
+                ...attachmentParts,
+                ...searchContextParts(searchResults, searchCitations)
+              ])
+
+              for (let round = 0; ; round++) {
+                let text = ''
+                const toolCalls: ToolCall[] = []
+
+                for await (const event of router.stream({
+                  model: chatModel.id,
+                  messages: chatMessages,
+                  tools: mcpToolset?.tools,
+                  signal: req.signal
+                })) {
+                  if (event.type === 'text') {
+                    text += event.text
+                    controller.enqueue(encoder.encode(`0:${JSON.stringify(event.text)}\n`))
+                  } else if (event.type === 'tool_call') {
+                    toolCalls.push(event.call)
+                  } else if (event.usage) {
+                    usage.promptTokens += event.usage.inputTokens
+                    usage.completionTokens += event.usage.outputTokens
+                  }
+                }
 
-              console.log('[Chat API] Sent image generation response without Gemini')
-            }
-            // For video generation or mixed requests, we still use Gemini
-            else {
-              // Get streaming response from Gemini
-              const result = await chat.generateContentStream(contentParts)
-
-              // If we detected a video request (and not reverse engineering), send the appropriate response first
-              if (videoRequest && !isReverseEngineering) {
-                const responseText = VideoGenerationHandler.generateResponse(videoRequest)
-                controller.enqueue(encoder.encode(`0:${JSON.stringify(responseText)}\n`))
-
-                // Inject video generation data marker
-                if (videoGenerationData) {
-                  const videoDataMarker = `\n\n[VIDEO_GENERATION_STARTED]\n${JSON.stringify(videoGenerationData)}\n[/VIDEO_GENERATION_STARTED]`
-                  controller.enqueue(encoder.encode(`0:${JSON.stringify(videoDataMarker)}\n`))
+                if (!mcpToolset || toolCalls.length === 0) {
+                  break
                 }
-              } else {
-                // Process normal Gemini response
-                for await (const chunk of result.stream) {
-                  const text = chunk.text()
-                  if (text) {
-                    const escapedText = JSON.stringify(text)
-                    controller.enqueue(encoder.encode(`0:${escapedText}\n`))
-                  }
+                if (round >= MAX_TOOL_ROUNDS) {
+                  console.warn(`[Chat API] Stopping after ${MAX_TOOL_ROUNDS} tool rounds`)
+                  break
                 }
 
-                // If we have search results OR search error, inject metadata for UI
-                if ((searchResults && searchResults.choices?.[0]?.message?.content) || searchError) {
-                  const searchMetadata = {
-                    hasSearch: !!searchResults,
-                    hasError: !!searchError,
-                    error: searchError,
-                    citations: searchCitations,
-                    searchResults: searchResults?.search_results || [],
-                    images: searchResults?.images || [],
-                    relatedQuestions: searchResults?.related_questions || []
-                  }
-                  console.log('[Chat API] Injecting search metadata:', {
-                    hasSearch: searchMetadata.hasSearch,
-                    searchResultsCount: searchMetadata.searchResults.length,
-                    citationsCount: searchMetadata.citations.length,
-                    imagesCount: searchMetadata.images.length
+                chatMessages.push({ role: 'assistant', content: text, toolCalls })
+
+                for (const call of toolCalls) {
+                  const toolCallId = call.id
+
+                  // Tool call start / finish in AI SDK data stream format
+                  controller.enqueue(encoder.encode(`9:${JSON.stringify({ toolCallId, toolName: call.name, args: call.args })}\n`))
+                  controller.enqueue(encoder.encode(encodeChatStreamEvent('tool_call', {
+                    toolCallId,
+                    toolName: call.name,
+                    args: call.args,
+                    status: 'started'
+                  })))
+                  const toolResult = await mcpToolset.execute(call, {
+                    // Let the client show an approve/deny prompt for "ask" policies
+                    onApprovalRequired: (approval) => {
+                      controller.enqueue(encoder.encode(`2:${JSON.stringify([{ type: 'mcp_approval_required', toolCallId, approval }])}\n`))
+                    },
+                    // Nobody is left to answer once the client disconnects
+                    signal: req.signal,
+                    userId: getCurrentUser()?.id
+                  })
+                  controller.enqueue(encoder.encode(`a:${JSON.stringify({ toolCallId, result: toolResult })}\n`))
+                  controller.enqueue(encoder.encode(encodeChatStreamEvent('tool_call', {
+                    toolCallId,
+                    toolName: call.name,
+                    args: call.args,
+                    status: 'completed',
+                    result: toolResult.content,
+                    isError: toolResult.isError
+                  })))
+
+                  chatMessages.push({
+                    role: 'tool',
+                    toolCallId,
+                    name: call.name,
+                    content: toolResult.content,
+                    isError: toolResult.isError
                   })
-                  const searchDataMarker = `\n\n[WEB_SEARCH_COMPLETED]\n${JSON.stringify(searchMetadata)}\n[/WEB_SEARCH_COMPLETED]`
-                  controller.enqueue(encoder.encode(`0:${JSON.stringify(searchDataMarker)}\n`))
                 }
+              }
 
-                // If we have TTS generation data, inject it
-                if (ttsGenerationData) {
-                  console.log('[Chat API] Injecting TTS metadata:', {
-                    success: ttsGenerationData.success,
-                    isMultiSpeaker: ttsGenerationData.metadata?.isMultiSpeaker,
-                    speakers: ttsGenerationData.metadata?.speakers,
-                    provider: ttsGenerationData.metadata?.provider
-                  })
-                  const ttsDataMarker = `\n\n[TTS_GENERATION_COMPLETED]\n${JSON.stringify(ttsGenerationData)}\n[/TTS_GENERATION_COMPLETED]`
-                  controller.enqueue(encoder.encode(`0:${JSON.stringify(ttsDataMarker)}\n`))
+              // If we have search results OR search error, send them for the UI
+              if ((searchResults && (searchResults.answer || searchResults.results.length > 0)) || searchError) {
+                const searchMetadata = {
+                  status: searchError ? 'failed' as const : 'completed' as const,
+                  query: webSearchQuery,
+                  error: searchError || undefined,
+                  citations: searchCitations,
+                  searchResults: (searchResults?.results || []).map(result => ({
+                    title: result.title,
+                    url: result.url,
+                    date: result.date,
+                    thumbnail: result.thumbnail,
+                    description: result.snippet
+                  })),
+                  images: searchResults?.images || [],
+                  relatedQuestions: searchResults?.relatedQuestions || []
                 }
+                console.log('[Chat API] Sending search results:', {
+                  status: searchMetadata.status,
+                  searchResultsCount: searchMetadata.searchResults.length,
+                  citationsCount: searchMetadata.citations.length,
+                  imagesCount: searchMetadata.images.length
+                })
+                controller.enqueue(encoder.encode(encodeChatStreamEvent('search_results', searchMetadata)))
               }
-            }
 
-            controller.enqueue(encoder.encode(`d:{"finishReason":"stop"}\n`))
-          } catch (error) {
-            console.error("Streaming error:", error)
-            const errorMessage = error instanceof Error ? error.message : "Unknown error"
-            const escapedError = JSON.stringify(errorMessage)
-            controller.enqueue(encoder.encode(`3:${escapedError}\n`))
-          } finally {
-            controller.close()
+              // If we have TTS generation data, send it for the UI
+              if (ttsGenerationData) {
+                console.log('[Chat API] Sending TTS result:', {
+                  success: ttsGenerationData.success,
+                  isMultiSpeaker: ttsGenerationData.metadata?.isMultiSpeaker,
+                  speakers: ttsGenerationData.metadata?.speakers,
+                  provider: ttsGenerationData.metadata?.provider
+                })
+                controller.enqueue(encoder.encode(encodeChatStreamEvent('tts_ready', ttsGenerationData)))
+              }
+            }
           }
-        },
-      })
-
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      })
-    }
-
-    // For non-supported models
-    return new Response(
-      JSON.stringify({ error: "Unsupported model: " + model }),
-      {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      }
-    )
 
+          controller.enqueue(encoder.encode(`d:${JSON.stringify({ finishReason: 'stop', usage })}\n`))
+        } catch (error) {
+          console.error("Streaming error:", error)
+          const errorMessage = error instanceof Error ? error.message : "Unknown error"
+          const escapedError = JSON.stringify(errorMessage)
+          controller.enqueue(encoder.encode(encodeChatStreamEvent('error', { message: errorMessage })))
+          controller.enqueue(encoder.encode(`3:${escapedError}\n`))
+        } finally {
+          controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
   } catch (error) {
     console.error("Chat API Error:", error)
 
@@ -655,4 +811,4 @@ Format citations as [Source Name](URL) when referencing search results.`
       }
     )
   }
-}
+})
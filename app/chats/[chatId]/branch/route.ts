@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChat, switchBranch } from '@/lib/services/chat-persistence'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { withAuth } from '@/lib/auth'
+
+// POST /api/chats/[chatId]/branch - Show another branch of the conversation
+export const POST = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) => {
+  try {
+    const { chatId } = await params
+    const { messageId } = await req.json()
+
+    if (!messageId) {
+      return NextResponse.json(
+        { error: 'messageId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isPersistenceConfigured()) {
+      return NextResponse.json(
+        { error: 'Branches are only stored when Supabase persistence is configured' },
+        { status: 400 }
+      )
+    }
+
+    const switched = await switchBranch(chatId, messageId)
+    if (!switched) {
+      return NextResponse.json(
+        { error: 'Message not found in this chat' },
+        { status: 404 }
+      )
+    }
+
+    // Same shape as GET /api/chats/[chatId], for the newly active branch
+    const chatData = await getChat(chatId)
+    if (!chatData) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(chatData)
+  } catch (error) {
+    console.error('Error in POST /api/chats/[chatId]/branch:', error)
+    return NextResponse.json(
+      { error: 'Failed to switch branch' },
+      { status: 500 }
+    )
+  }
+})
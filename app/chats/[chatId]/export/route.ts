@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  CHAT_EXPORT_FORMATS,
+  exportChats,
+  exportFileName,
+  renderChatExport,
+  type ChatExportFormat
+} from '@/lib/services/chat-export'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ chatId: string }> }
+
+// GET /api/chats/[chatId]/export?format=json|markdown|zip - Download one chat
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  const format = (req.nextUrl.searchParams.get('format') || 'markdown') as ChatExportFormat
+  if (!CHAT_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of: ${CHAT_EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { chatId } = await params
+    const bundle = await exportChats([chatId])
+    if (bundle.chats.length === 0) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    const { body, contentType, extension } = await renderChatExport(bundle, format)
+    const fileName = `${exportFileName(bundle.chats[0].chat)}.${extension}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error in GET /api/chats/[chatId]/export:', error)
+    return NextResponse.json({ error: 'Failed to export chat' }, { status: 500 })
+  }
+})
@@ -2,16 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { addMessage } from '@/lib/services/chat-persistence'
 import { isPersistenceConfigured } from '@/lib/database/supabase'
 import { saveLocalStorageMessages, getLocalStorageMessages } from '@/lib/localStorage-persistence'
+import { withAuth } from '@/lib/auth'
 
 // POST /api/chats/[chatId]/messages - Add a message to a chat
-export async function POST(
+export const POST = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
-) {
+) => {
   let chatId: string
   let role: string
   let content: string
   let attachments: any
+  let metadata: any
+  let parentId: string | null | undefined
 
   try {
     const paramsData = await params
@@ -20,6 +23,8 @@ export async function POST(
     role = requestData.role
     content = requestData.content
     attachments = requestData.attachments
+    metadata = requestData.metadata
+    parentId = requestData.parentId
 
     if (!role || !content) {
       return NextResponse.json(
@@ -28,7 +33,7 @@ export async function POST(
       )
     }
 
-    let message = await addMessage(chatId, role, content, attachments)
+    let message = await addMessage(chatId, role, content, attachments, metadata, parentId)
 
     if (!message) {
       // Use localStorage when persistence is not configured
@@ -38,7 +43,9 @@ export async function POST(
         role,
         content,
         created_at: new Date().toISOString(),
-        attachments: attachments || []
+        attachments: attachments || [],
+        metadata: metadata || {},
+        parent_id: parentId ?? null
       }
 
       // Save to localStorage
@@ -65,8 +72,9 @@ export async function POST(
       role,
       content,
       created_at: new Date().toISOString(),
-      attachments: attachments || []
+      attachments: attachments || [],
+      metadata: metadata || {}
     }
     return NextResponse.json({ message: mockMessage })
   }
-}
+})
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getChat, updateChatTitle, deleteChat, updateCanvasState } from '@/lib/services/chat-persistence'
+import { getChat, updateChatTitle, deleteChat, updateCanvasState, updateChatSearchProviders } from '@/lib/services/chat-persistence'
+import { isSearchProviderId } from '@/lib/search'
 import { isPersistenceConfigured } from '@/lib/database/supabase'
 import { getLocalStorageChats, getLocalStorageMessages, updateLocalStorageChatTitle, deleteLocalStorageChat } from '@/lib/localStorage-persistence'
+import { withAuth } from '@/lib/auth'
 
 // GET /api/chats/[chatId] - Get a specific chat with messages
-export async function GET(
+export const GET = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
-) {
+) => {
   try {
     const { chatId } = await params
     let chatData = await getChat(chatId)
@@ -23,6 +25,7 @@ export async function GET(
         chatData = {
           chat,
           messages,
+          branches: {},
           images: [],
           videos: [],
           canvasState: null
@@ -45,17 +48,17 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-// PATCH /api/chats/[chatId] - Update chat (e.g., title, canvas state)
-export async function PATCH(
+// PATCH /api/chats/[chatId] - Update chat (e.g., title, canvas state, search providers)
+export const PATCH = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
-) {
+) => {
   try {
     const { chatId } = await params
     const body = await req.json()
-    const { title, canvasState } = body
+    const { title, canvasState, searchProviders } = body
 
     let success = true
 
@@ -71,6 +74,22 @@ export async function PATCH(
       }
     }
 
+    // Search providers for this chat; null resets to the defaults
+    if (searchProviders !== undefined) {
+      if (searchProviders !== null && (!Array.isArray(searchProviders) || !searchProviders.every(isSearchProviderId))) {
+        return NextResponse.json(
+          { error: 'searchProviders must be a list of search provider ids or null' },
+          { status: 400 }
+        )
+      }
+      if (!isPersistenceConfigured()) {
+        return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+      }
+      if (!await updateChatSearchProviders(chatId, searchProviders?.length ? searchProviders : null)) {
+        success = false
+      }
+    }
+
     // Update canvas state if provided
     if (canvasState !== undefined && isPersistenceConfigured()) {
       const canvasSuccess = await updateCanvasState(chatId, canvasState)
@@ -94,13 +113,13 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/chats/[chatId] - Delete a chat
-export async function DELETE(
+export const DELETE = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ chatId: string }> }
-) {
+) => {
   try {
     const { chatId } = await params
     let success = await deleteChat(chatId)
@@ -126,4 +145,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured, type ChatShare } from '@/lib/database/supabase'
+import { getChatShares, publishChat, revokeChatShares } from '@/lib/services/chat-sharing'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ chatId: string }> }
+
+const MAX_EXPIRY_DAYS = 365
+
+function withUrl(req: NextRequest, share: ChatShare) {
+  return { ...share, url: `${req.nextUrl.origin}/share/${share.token}` }
+}
+
+// GET /api/chats/[chatId]/share - Links of the chat that still work
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { chatId } = await params
+    const shares = await getChatShares(chatId)
+    return NextResponse.json({ shares: shares.map(share => withUrl(req, share)) })
+  } catch (error) {
+    console.error('Error in GET /api/chats/[chatId]/share:', error)
+    return NextResponse.json({ error: 'Failed to load share links' }, { status: 500 })
+  }
+})
+
+// POST /api/chats/[chatId]/share - Publish a read-only snapshot
+// ({ expiresInDays?: number, redactToolResults?: boolean })
+export const POST = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { chatId } = await params
+    const body = await req.json().catch(() => ({}))
+    const { expiresInDays, redactToolResults } = body || {}
+
+    if (expiresInDays != null && (typeof expiresInDays !== 'number' || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a number of days up to ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const share = await publishChat(chatId, {
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      redactToolResults: redactToolResults === true,
+    })
+    if (!share) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ share: withUrl(req, share) }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/chats/[chatId]/share:', error)
+    return NextResponse.json({ error: 'Failed to publish chat' }, { status: 500 })
+  }
+})
+
+// DELETE /api/chats/[chatId]/share?token=... - Revoke one link, or every link of the chat without a token
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { chatId } = await params
+    const token = req.nextUrl.searchParams.get('token') || undefined
+    const revoked = await revokeChatShares(chatId, token)
+
+    if (token && revoked === 0) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+    return NextResponse.json({ revoked })
+  } catch (error) {
+    console.error('Error in DELETE /api/chats/[chatId]/share:', error)
+    return NextResponse.json({ error: 'Failed to revoke share links' }, { status: 500 })
+  }
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  CHAT_EXPORT_FORMATS,
+  exportChats,
+  renderChatExport,
+  type ChatExportFormat
+} from '@/lib/services/chat-export'
+import { withAuth } from '@/lib/auth'
+
+// GET /api/chats/export?format=json|markdown|zip&ids=a,b - Download chats, all of them without ids
+export const GET = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  const format = (req.nextUrl.searchParams.get('format') || 'zip') as ChatExportFormat
+  if (!CHAT_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of: ${CHAT_EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const ids = req.nextUrl.searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean)
+    const bundle = await exportChats(ids?.length ? ids : undefined)
+    const { body, contentType, extension } = await renderChatExport(bundle, format)
+    const fileName = `chats-${bundle.exported_at.slice(0, 10)}.${extension}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error in GET /api/chats/export:', error)
+    return NextResponse.json({ error: 'Failed to export chats' }, { status: 500 })
+  }
+})
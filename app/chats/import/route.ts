@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { ChatImportError, importChats } from '@/lib/services/chat-import'
+import { withAuth } from '@/lib/auth'
+
+// Room for ZIP exports with media
+const MAX_IMPORT_SIZE = 200 * 1024 * 1024
+
+// POST /api/chats/import - Import chats from an export of this app, ChatGPT or Claude
+// (multipart "file" field, or the file as the raw body)
+export const POST = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    let data: Buffer
+    if (req.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await req.formData()
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+      if (file.size > MAX_IMPORT_SIZE) {
+        return NextResponse.json({ error: 'File is too large to import' }, { status: 413 })
+      }
+      data = Buffer.from(await file.arrayBuffer())
+    } else {
+      data = Buffer.from(await req.arrayBuffer())
+    }
+
+    if (data.length === 0) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+    if (data.length > MAX_IMPORT_SIZE) {
+      return NextResponse.json({ error: 'File is too large to import' }, { status: 413 })
+    }
+
+    const result = await importChats(data)
+    return NextResponse.json(result, { status: result.chats.length > 0 ? 201 : 200 })
+  } catch (error) {
+    console.error('Error in POST /api/chats/import:', error)
+    return NextResponse.json(
+      { error: error instanceof ChatImportError ? error.message : 'Failed to import chats' },
+      { status: error instanceof ChatImportError ? 400 : 500 }
+    )
+  }
+})
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getChats, createChat, searchChats } from '@/lib/services/chat-persistence'
 import { isPersistenceConfigured } from '@/lib/database/supabase'
 import { getLocalStorageChats, createLocalStorageChat } from '@/lib/localStorage-persistence'
+import { withAuth } from '@/lib/auth'
 
 // GET /api/chats - Get all chats or search
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
     const searchParams = req.nextUrl.searchParams
     const search = searchParams.get('search')
@@ -47,10 +48,10 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/chats - Create a new chat
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const { title, model } = await req.json()
     
@@ -82,4 +83,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
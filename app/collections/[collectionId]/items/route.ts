@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  addCollectionItems,
+  getCollection,
+  parseItemRefs,
+  removeCollectionItems
+} from '@/lib/services/collections'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ collectionId: string }> }
+
+async function readItems(req: NextRequest) {
+  const body = await req.json().catch(() => null)
+  return parseItemRefs(body?.items)
+}
+
+// POST /api/collections/[collectionId]/items - Add items ({ items: [{ type, id }] }) to the end
+export const POST = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    const items = await readItems(req)
+    if (!items || items.length === 0) {
+      return NextResponse.json(
+        { error: 'items must be a non-empty array of { type: image|video|audio|chat, id }' },
+        { status: 400 }
+      )
+    }
+    if (!(await getCollection(collectionId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const result = await addCollectionItems(collectionId, items)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error in POST /api/collections/[collectionId]/items:', error)
+    return NextResponse.json({ error: 'Failed to add items' }, { status: 500 })
+  }
+})
+
+// DELETE /api/collections/[collectionId]/items - Remove items ({ items: [{ type, id }] })
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    const items = await readItems(req)
+    if (!items) {
+      return NextResponse.json(
+        { error: 'items must be an array of { type: image|video|audio|chat, id }' },
+        { status: 400 }
+      )
+    }
+    if (!(await getCollection(collectionId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const removed = await removeCollectionItems(collectionId, items)
+    return NextResponse.json({ removed })
+  } catch (error) {
+    console.error('Error in DELETE /api/collections/[collectionId]/items:', error)
+    return NextResponse.json({ error: 'Failed to remove items' }, { status: 500 })
+  }
+})
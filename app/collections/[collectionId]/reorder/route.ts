@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { getCollection, reorderCollectionItems } from '@/lib/services/collections'
+import { withAuth } from '@/lib/auth'
+
+// POST /api/collections/[collectionId]/reorder - Set item order ({ itemIds: collection item ids, first to last })
+export const POST = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ collectionId: string }> }
+) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    const { itemIds } = await req.json()
+
+    if (!Array.isArray(itemIds) || itemIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'itemIds must be an array of collection item ids' }, { status: 400 })
+    }
+    if (!(await getCollection(collectionId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!(await reorderCollectionItems(collectionId, itemIds))) {
+      return NextResponse.json({ error: 'itemIds contains items that are not in this collection' }, { status: 400 })
+    }
+
+    return NextResponse.json({ collection: await getCollection(collectionId) })
+  } catch (error) {
+    console.error('Error in POST /api/collections/[collectionId]/reorder:', error)
+    return NextResponse.json({ error: 'Failed to reorder collection' }, { status: 500 })
+  }
+})
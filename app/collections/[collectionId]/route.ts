@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { deleteCollection, getCollection, updateCollection } from '@/lib/services/collections'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ collectionId: string }> }
+
+// GET /api/collections/[collectionId] - Get a collection with its items in order
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    const collection = await getCollection(collectionId)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    return NextResponse.json({ collection })
+  } catch (error) {
+    console.error('Error in GET /api/collections/[collectionId]:', error)
+    return NextResponse.json({ error: 'Failed to fetch collection' }, { status: 500 })
+  }
+})
+
+// PATCH /api/collections/[collectionId] - Rename, describe or set the cover image (coverUrl: null restores the default)
+export const PATCH = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    const { name, description, coverUrl } = await req.json()
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'Collection name cannot be empty' }, { status: 400 })
+    }
+    if (coverUrl !== undefined && coverUrl !== null && typeof coverUrl !== 'string') {
+      return NextResponse.json({ error: 'coverUrl must be a string or null' }, { status: 400 })
+    }
+
+    const updated = await updateCollection(collectionId, {
+      name: name?.trim(),
+      description,
+      coverUrl,
+    })
+    if (!updated) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    return NextResponse.json({ collection: await getCollection(collectionId) })
+  } catch (error) {
+    console.error('Error in PATCH /api/collections/[collectionId]:', error)
+    return NextResponse.json({ error: 'Failed to update collection' }, { status: 500 })
+  }
+})
+
+// DELETE /api/collections/[collectionId] - Delete a collection (its items are not deleted)
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { collectionId } = await params
+    if (!(await deleteCollection(collectionId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/collections/[collectionId]:', error)
+    return NextResponse.json({ error: 'Failed to delete collection' }, { status: 500 })
+  }
+})
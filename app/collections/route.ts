@@ -1,153 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_API_KEY!
-)
-
-export async function POST(request: NextRequest) {
-  try {
-    console.log('[Collections API] Creating new collection (using images metadata)')
-
-    const { name, imageIds, description } = await request.json()
-
-    if (!name || !imageIds || !Array.isArray(imageIds)) {
-      console.log('[Collections API] Invalid request data')
-      return NextResponse.json(
-        { error: 'Name and imageIds array are required' },
-        { status: 400 }
-      )
-    }
-
-    console.log('[Collections API] Creating collection:', {
-      name,
-      imageCount: imageIds.length,
-      description: description || 'No description'
-    })
-
-    // For now, store collection info in localStorage/client-side
-    // This is a temporary solution until database tables are set up
-    const collectionId = `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    const collection = {
-      id: collectionId,
-      name,
-      description: description || null,
-      imageCount: imageIds.length,
-      imageIds,
-      createdAt: new Date().toISOString(),
-      metadata: {
-        createdBy: 'user',
-        tags: [],
-        isPublic: false
-      }
-    }
-
-    console.log('[Collections API] Collection created (client-side):', collection.id)
-
-    return NextResponse.json({
-      success: true,
-      collection,
-      note: 'Collection stored client-side. Database tables need to be created for persistent storage.'
-    })
-
-  } catch (error) {
-    console.error('[Collections API] Unexpected error:', error)
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    )
-  }
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  createCollection,
+  deleteCollection,
+  getCollections,
+  parseItemRefs,
+  type CollectionItemRef
+} from '@/lib/services/collections'
+import { withAuth } from '@/lib/auth'
+
+function persistenceUnavailable() {
+  return NextResponse.json(
+    { error: 'Collections need a database; configure Supabase to use them' },
+    { status: 503 }
+  )
 }
 
-export async function GET(request: NextRequest) {
+// GET /api/collections - List collections with item counts and cover images
+export const GET = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) return persistenceUnavailable()
+
   try {
-    const { searchParams } = new URL(request.url)
-    const limit = parseInt(searchParams.get('limit') || '50')
+    const searchParams = req.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
     const offset = parseInt(searchParams.get('offset') || '0')
 
-    console.log('[Collections API] Fetching collections (client-side storage):', { limit, offset })
-
-    // For now, return empty collections since we're using client-side storage
-    // In a real implementation, this would fetch from the database
-    const collections: any[] = []
-
-    console.log('[Collections API] Found collections:', collections.length)
-
-    return NextResponse.json({
-      success: true,
-      collections,
-      total: collections.length,
-      note: 'Collections are stored client-side. Database tables need to be created for server-side storage.'
-    })
-
+    const collections = await getCollections(limit, offset)
+    return NextResponse.json({ collections })
   } catch (error) {
-    console.error('[Collections API] Error fetching collections:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    console.error('Error in GET /api/collections:', error)
+    return NextResponse.json({ error: 'Failed to fetch collections' }, { status: 500 })
   }
-}
+})
+
+// POST /api/collections - Create a collection, optionally with initial items
+export const POST = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) return persistenceUnavailable()
 
-export async function DELETE(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const collectionId = searchParams.get('id')
+    const { name, description, coverUrl, items, imageIds } = await req.json()
 
-    if (!collectionId) {
-      return NextResponse.json(
-        { error: 'Collection ID is required' },
-        { status: 400 }
-      )
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Collection name is required' }, { status: 400 })
     }
 
-    console.log('[Collections API] Deleting collection:', collectionId)
-
-    // Delete collection images first (foreign key constraint)
-    const { error: imagesError } = await supabase
-      .from('collection_images')
-      .delete()
-      .eq('collection_id', collectionId)
-
-    if (imagesError) {
-      console.error('[Collections API] Error deleting collection images:', imagesError)
-      return NextResponse.json(
-        { error: 'Failed to delete collection images' },
-        { status: 500 }
-      )
+    // imageIds is the older request shape (images only)
+    let refs: CollectionItemRef[] | null = []
+    if (items !== undefined) {
+      refs = parseItemRefs(items)
+    } else if (Array.isArray(imageIds)) {
+      refs = parseItemRefs(imageIds.map((id: unknown) => ({ type: 'image', id })))
     }
-
-    // Delete collection
-    const { error: collectionError } = await supabase
-      .from('collections')
-      .delete()
-      .eq('id', collectionId)
-
-    if (collectionError) {
-      console.error('[Collections API] Error deleting collection:', collectionError)
+    if (!refs) {
       return NextResponse.json(
-        { error: 'Failed to delete collection' },
-        { status: 500 }
+        { error: 'items must be an array of { type: image|video|audio|chat, id }' },
+        { status: 400 }
       )
     }
 
-    console.log('[Collections API] Collection deleted successfully')
+    const result = await createCollection({ name: name.trim(), description, coverUrl, items: refs })
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/collections:', error)
+    return NextResponse.json({ error: 'Failed to create collection' }, { status: 500 })
+  }
+})
+
+// DELETE /api/collections?id= - Delete a collection (same as DELETE /api/collections/[collectionId])
+export const DELETE = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) return persistenceUnavailable()
 
-    return NextResponse.json({
-      success: true,
-      message: 'Collection deleted successfully'
-    })
+  const collectionId = req.nextUrl.searchParams.get('id')
+  if (!collectionId) {
+    return NextResponse.json({ error: 'Collection ID is required' }, { status: 400 })
+  }
 
+  try {
+    if (!(await deleteCollection(collectionId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
   } catch (error) {
-    console.error('[Collections API] Error deleting collection:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    console.error('Error in DELETE /api/collections:', error)
+    return NextResponse.json({ error: 'Failed to delete collection' }, { status: 500 })
   }
-}
+})
@@ -3,8 +3,9 @@ import { smartEditWithGPTImage1, checkGPTImage1Available } from "@/lib/openai-im
 import { ReplicateImageClient } from "@/lib/replicate-client"
 import { ensureImageUrlAccessible, isReplicateDeliveryUrl } from "@/lib/image-url-validator"
 import { getImageByLocalId } from "@/lib/services/chat-persistence"
+import { withAuth } from "@/lib/auth"
 
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   console.log("Image editing API called")
 
   try {
@@ -412,7 +413,7 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 export async function GET() {
   try {
@@ -2,7 +2,6 @@ import { NextRequest, NextResponse } from "next/server";
 import { ReplicateVideoClient } from "@/lib/replicate-client";
 import { HuggingFaceVideoClient } from "@/lib/huggingface-client";
 import { generateVideoThumbnail } from "@/lib/video-utils";
-import { auth } from "@/lib/auth"; // Assuming auth helper exists
 
 export const maxDuration = 600; // 10 minutes timeout
 
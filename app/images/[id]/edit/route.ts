@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { deleteImage } from '@/lib/services/chat-persistence'
+import { withAuth } from '@/lib/auth'
 
 // DELETE /api/images/[imageId] - Delete an image
-export async function DELETE(
+export const DELETE = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ imageId: string }> }
-) {
+) => {
   try {
     const { imageId } = await params
 
@@ -41,4 +42,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
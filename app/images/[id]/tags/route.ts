@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
+import { getSupabase, ownerFilter } from '@/lib/database/supabase'
+import { withAuth } from '@/lib/auth'
 
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_API_KEY!
-)
-
-export async function POST(
+export const POST = withAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: imageId } = await params
     const { tags } = await request.json()
 
+    const supabase = getSupabase()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Persistence not configured' },
+        { status: 503 }
+      )
+    }
+
     console.log('[Image Tags API] Adding tags to image:', { imageId, tags })
 
     if (!tags || !Array.isArray(tags)) {
@@ -40,6 +44,7 @@ export async function POST(
     const { data: image, error: fetchError } = await supabase
       .from('images')
       .select('metadata')
+      .match(ownerFilter())
       .eq('id', imageId)
       .single()
 
@@ -66,6 +71,7 @@ export async function POST(
     const { error: updateError } = await supabase
       .from('images')
       .update({ metadata: updatedMetadata })
+      .match(ownerFilter())
       .eq('id', imageId)
 
     if (updateError) {
@@ -94,21 +100,30 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: imageId } = await params
 
     console.log('[Image Tags API] Getting tags for image:', imageId)
 
+    const supabase = getSupabase()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Persistence not configured' },
+        { status: 503 }
+      )
+    }
+
     // Get image metadata
     const { data: image, error } = await supabase
       .from('images')
       .select('metadata')
+      .match(ownerFilter())
       .eq('id', imageId)
       .single()
 
@@ -135,17 +150,25 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
+export const DELETE = withAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: imageId } = await params
     const { searchParams } = new URL(request.url)
     const tagToRemove = searchParams.get('tag')
 
+    const supabase = getSupabase()
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Persistence not configured' },
+        { status: 503 }
+      )
+    }
+
     console.log('[Image Tags API] Removing tag from image:', { imageId, tagToRemove })
 
     if (!tagToRemove) {
@@ -159,6 +182,7 @@ export async function DELETE(
     const { data: image, error: fetchError } = await supabase
       .from('images')
       .select('metadata')
+      .match(ownerFilter())
       .eq('id', imageId)
       .single()
 
@@ -185,6 +209,7 @@ export async function DELETE(
     const { error: updateError } = await supabase
       .from('images')
       .update({ metadata: updatedMetadata })
+      .match(ownerFilter())
       .eq('id', imageId)
 
     if (updateError) {
@@ -210,4 +235,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAllImages, saveImage } from '@/lib/services/chat-persistence'
 import { GeneratedImage } from '@/lib/image-utils'
+import { withAuth } from '@/lib/auth'
 
 // GET /api/images - Get all images
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
     const searchParams = req.nextUrl.searchParams
     const limit = parseInt(searchParams.get('limit') || '100')
@@ -18,10 +19,10 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/images - Save an image
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const { image, chatId, messageId } = await req.json()
 
@@ -69,4 +70,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Toaster } from "@/components/ui/toaster"
 import { Toaster as Sonner } from "@/components/ui/sonner"
 import { DebugSettingsPanel } from "@/components/debug-settings-panel"
 import { SettingsProvider } from "@/lib/contexts/settings-context"
+import { AuthGate } from "@/components/auth-gate"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -57,7 +58,7 @@ export default function RootLayout({
       <body className={inter.className} suppressHydrationWarning>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
           <SettingsProvider>
-            {children}
+            <AuthGate>{children}</AuthGate>
             <Toaster />
             <Sonner />
             <DebugSettingsPanel />
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
 import { MCPServerIntelligence } from '@/lib/mcp/mcp-server-intelligence'
 import { MCPServerManager } from '@/lib/mcp/mcp-server-manager'
 import { MCPConfigManager } from '@/lib/mcp/mcp-config-manager'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { input, type = 'json' } = body
@@ -110,4 +111,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
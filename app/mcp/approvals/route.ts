@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { MCPApprovalGate } from '@/lib/mcp/mcp-approval-gate';
+
+// GET /api/mcp/approvals - List tool calls waiting for approval
+export const GET = withAuth(async () => {
+  try {
+    const approvals = MCPApprovalGate.getInstance().listPending();
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error('Error listing approvals:', error);
+    return NextResponse.json(
+      { error: 'Failed to list approvals' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/mcp/approvals - Approve or deny a pending tool call
+export const POST = withAuth(async (req: NextRequest) => {
+  try {
+    const { approvalId, approved } = await req.json();
+    
+    if (!approvalId || typeof approved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'approvalId and approved (boolean) are required' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = MCPApprovalGate.getInstance().respond(approvalId, approved);
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Approval not found or already resolved' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ 
+      success: true,
+      approved
+    });
+  } catch (error) {
+    console.error('Error resolving approval:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve approval' },
+      { status: 500 }
+    );
+  }
+});
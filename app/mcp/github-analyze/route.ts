@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
 import { MCPServerIntelligence } from '@/lib/mcp/mcp-server-intelligence'
 import { MCPServerManager } from '@/lib/mcp/mcp-server-manager'
 import { MCPConfigManager } from '@/lib/mcp/mcp-config-manager'
 import { MCPGitHubPrompts } from '@/lib/mcp/mcp-github-prompts'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { githubUrl, searchResults } = body
@@ -80,7 +81,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * Analyze search results to extract MCP configuration
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
 
 // Initialize server manager and load saved servers
-export async function GET() {
+export const GET = withAuth(async () => {
   try {
     const serverManager = MCPServerManager.getInstance();
     
@@ -31,4 +32,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
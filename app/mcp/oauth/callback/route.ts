@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
+import { parseOAuthState } from '@/lib/mcp/mcp-oauth-provider';
+
+// Renders a page that reports the result to the window that opened the sign-in popup
+function completionPage(result: { serverId: string | null; success: boolean; error?: string }, status: number) {
+  const message = JSON.stringify({ type: 'mcp-oauth-complete', ...result }).replace(/</g, '\\u003c');
+  const text = result.success ? 'Signed in. You can close this window.' : `Sign-in failed: ${result.error}`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><title>MCP sign-in</title></head>
+<body style="font-family: sans-serif; padding: 2rem;">
+<p id="status"></p>
+<script>
+  const message = ${message};
+  document.getElementById('status').textContent = ${JSON.stringify(text).replace(/</g, '\\u003c')};
+  if (window.opener) {
+    window.opener.postMessage(message, window.location.origin);
+    window.close();
+  }
+</script>
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+// GET /api/mcp/oauth/callback - Redirect target for remote MCP server sign-in
+export const GET = withAuth(async (req: NextRequest) => {
+  const { searchParams } = new URL(req.url);
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const serverId = state ? parseOAuthState(state) : null;
+
+  const oauthError = searchParams.get('error');
+  if (oauthError) {
+    return completionPage({
+      serverId,
+      success: false,
+      error: searchParams.get('error_description') || oauthError,
+    }, 400);
+  }
+
+  if (!code || !state || !serverId) {
+    return completionPage({ serverId, success: false, error: 'Missing code or state' }, 400);
+  }
+
+  try {
+    const serverManager = MCPServerManager.getInstance();
+    await serverManager.loadFromConfig();
+
+    const server = serverManager.getServer(serverId);
+    const provider = server?.client.getOAuthProvider();
+    if (!server || !provider) {
+      return completionPage({ serverId, success: false, error: 'Unknown server' }, 404);
+    }
+
+    if (!(await provider.consumeState(state))) {
+      return completionPage({ serverId, success: false, error: 'State mismatch' }, 400);
+    }
+
+    await serverManager.finishOAuth(serverId, code);
+    return completionPage({ serverId, success: true }, 200);
+  } catch (error) {
+    console.error('Error completing MCP OAuth sign-in:', error);
+    return completionPage({
+      serverId,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete sign-in',
+    }, 500);
+  }
+});
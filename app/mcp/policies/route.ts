@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { MCPConfigManager } from '@/lib/mcp/mcp-config-manager';
+
+// GET /api/mcp/policies - Get tool approval policies
+export const GET = withAuth(async () => {
+  try {
+    const policies = await MCPConfigManager.loadPolicies();
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('Error loading policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to load policies' },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT /api/mcp/policies - Replace tool approval policies
+export const PUT = withAuth(async (req: NextRequest) => {
+  try {
+    const { policies } = await req.json();
+    
+    if (!policies || typeof policies !== 'object') {
+      return NextResponse.json(
+        { error: 'policies object is required' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await MCPConfigManager.savePolicies(policies);
+    
+    return NextResponse.json({ 
+      success: true,
+      policies: saved
+    });
+  } catch (error) {
+    console.error('Error saving policies:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save policies' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
+import { MCPAuthorizationRequiredError } from '@/lib/mcp/mcp-client';
 
 // POST /api/mcp/servers/[serverId]/connect - Connect to a server
-export async function POST(
+export const POST = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ serverId: string }> }
-) {
+) => {
   try {
     const { serverId } = await params;
     
@@ -26,22 +28,32 @@ export async function POST(
         status: server.status,
         tools: server.tools,
         resources: server.resources,
+        prompts: server.prompts,
+        activeTransport: server.client.getTransportType(),
       } : null
     });
   } catch (error) {
+    // OAuth servers need the user to sign in before they can connect
+    if (error instanceof MCPAuthorizationRequiredError) {
+      return NextResponse.json(
+        { error: error.message, requiresAuth: true, authorizationUrl: error.authorizationUrl },
+        { status: 401 }
+      );
+    }
+    
     console.error('Error connecting to server:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to connect to server' },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/mcp/servers/[serverId]/connect - Disconnect from a server
-export async function DELETE(
+export const DELETE = withAuth(async (
   req: NextRequest,
   { params }: { params: Promise<{ serverId: string }> }
-) {
+) => {
   try {
     const { serverId } = await params;
     
@@ -62,4 +74,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
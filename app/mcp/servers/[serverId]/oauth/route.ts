@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
+
+// DELETE /api/mcp/servers/[serverId]/oauth - Sign out of an OAuth server
+export const DELETE = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ serverId: string }> }
+) => {
+  try {
+    const { serverId } = await params;
+    
+    const serverManager = MCPServerManager.getInstance();
+    await serverManager.loadFromConfig();
+    
+    await serverManager.signOut(serverId);
+    
+    return NextResponse.json({ 
+      success: true,
+      message: 'Signed out of server'
+    });
+  } catch (error) {
+    console.error('Error signing out of server:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to sign out of server' },
+      { status: 500 }
+    );
+  }
+});
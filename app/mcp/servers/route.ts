@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
 import { MCPServerConfig } from '@/lib/mcp/mcp-client';
 
 // GET /api/mcp/servers - List all servers
-export async function GET() {
+export const GET = withAuth(async () => {
   try {
     const serverManager = MCPServerManager.getInstance();
     await serverManager.loadFromConfig();
@@ -15,7 +16,11 @@ export async function GET() {
         status: server.status,
         tools: server.tools,
         resources: server.resources,
+        prompts: server.prompts,
         lastError: server.lastError,
+        authorizationUrl: server.authorizationUrl,
+        activeTransport: server.client.getTransportType(),
+        health: serverManager.getHealth(server.config.id),
       }))
     });
   } catch (error) {
@@ -25,10 +30,10 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/mcp/servers - Add a new server
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const config: MCPServerConfig = await req.json();
     
@@ -41,7 +46,7 @@ export async function POST(req: NextRequest) {
     }
     
     // Validate transport-specific fields
-    const isHttp = config.transportType === 'http' || !!config.url;
+    const isHttp = config.transportType === 'http' || config.transportType === 'sse' || !!config.url;
     if (!isHttp && !config.command) {
       return NextResponse.json(
         { error: 'Server configuration must include either a command (for stdio) or url (for HTTP)' },
@@ -72,10 +77,10 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/mcp/servers - Remove a server
-export async function DELETE(req: NextRequest) {
+export const DELETE = withAuth(async (req: NextRequest) => {
   try {
     const { searchParams } = new URL(req.url);
     const serverId = searchParams.get('serverId');
@@ -104,4 +109,4 @@ export async function DELETE(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
+import { withAuth } from '@/lib/auth';
+import { MCPServerManager, MCPToolDeniedError } from '@/lib/mcp/mcp-server-manager';
 
 // GET /api/mcp/tools - List tools for a server
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
     const { searchParams } = new URL(req.url);
     const serverId = searchParams.get('serverId');
@@ -27,10 +28,10 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/mcp/tools - Execute a tool
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const { serverId, toolName, arguments: toolArgs } = await req.json();
     
@@ -51,10 +52,14 @@ export async function POST(req: NextRequest) {
       result 
     });
   } catch (error) {
+    // "ask" tools can't be approved from a plain API call
+    if (error instanceof MCPToolDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error('Error executing tool:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to execute tool' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { isStorageConfigured } from '@/lib/storage'
+import {
+  countMediaArchiveJobs,
+  getMediaArchiveJobs,
+  processMediaArchiveJobs,
+  queueUnarchivedMedia,
+  retryDeadMediaArchiveJobs,
+  type ArchiveJobStatus
+} from '@/lib/services/media-archival'
+import { checkSchedulerSecret } from '@/lib/auth'
+
+const STATUSES: ArchiveJobStatus[] = ['pending', 'processing', 'done', 'dead']
+
+// Jobs span every user's media, so this is an operator endpoint guarded like
+// the backup scheduler rather than a signed-in user's route
+const SCHEDULER_SECRET_ENV = 'BACKUP_SCHEDULER_SECRET'
+
+// GET /api/media-archive - Job counts and jobs by status (?status=dead for the dead-letter list)
+export async function GET(req: NextRequest) {
+  const denied = checkSchedulerSecret(req, SCHEDULER_SECRET_ENV)
+  if (denied) return denied
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  const status = req.nextUrl.searchParams.get('status') as ArchiveJobStatus | null
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+  const limit = Math.min(parseInt(req.nextUrl.searchParams.get('limit') || '50'), 200)
+
+  try {
+    const [counts, jobs] = await Promise.all([
+      countMediaArchiveJobs(),
+      getMediaArchiveJobs(status || undefined, limit),
+    ])
+    return NextResponse.json({ storageConfigured: isStorageConfigured(), counts, jobs })
+  } catch (error: any) {
+    console.error('Error in GET /api/media-archive:', error)
+    return NextResponse.json({ error: error.message || 'Failed to fetch archive jobs' }, { status: 500 })
+  }
+}
+
+// POST /api/media-archive - Run due jobs ("process"), queue unarchived media ("scan")
+// or requeue dead-lettered jobs ("retry", optionally limited to jobIds)
+export async function POST(req: NextRequest) {
+  const denied = checkSchedulerSecret(req, SCHEDULER_SECRET_ENV)
+  if (denied) return denied
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+  if (!isStorageConfigured()) {
+    return NextResponse.json({ error: 'No storage backend configured' }, { status: 503 })
+  }
+
+  const { action = 'process', jobIds, limit } = await req.json().catch(() => ({}))
+
+  try {
+    switch (action) {
+      case 'process':
+        return NextResponse.json({ results: await processMediaArchiveJobs(limit || 10) })
+
+      case 'scan': {
+        const queued = await queueUnarchivedMedia(limit || 100)
+        return NextResponse.json({ queued, results: await processMediaArchiveJobs() })
+      }
+
+      case 'retry': {
+        const requeued = await retryDeadMediaArchiveJobs(Array.isArray(jobIds) ? jobIds : undefined)
+        return NextResponse.json({ requeued, results: await processMediaArchiveJobs() })
+      }
+
+      default:
+        return NextResponse.json({ error: 'action must be process, scan or retry' }, { status: 400 })
+    }
+  } catch (error: any) {
+    console.error('Error in POST /api/media-archive:', error)
+    return NextResponse.json({ error: error.message || 'Archival failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { ModelRouter } from '@/lib/models/model-router';
+
+// GET /api/models - List chat models and whether their provider is configured
+export async function GET() {
+  try {
+    const models = ModelRouter.getInstance().listModels();
+    return NextResponse.json({ models });
+  } catch (error) {
+    console.error('Error listing models:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list models' },
+      { status: 500 }
+    );
+  }
+}
@@ -29,6 +29,49 @@ import { loadAudios, saveAudio } from "@/lib/audio-persistence"
 import { updateCanvasState } from "@/lib/services/chat-persistence"
 import { useSettings } from "@/lib/contexts/settings-context"
 
+// Convert database messages to chat interface format
+function toInterfaceMessages(messages: any[]) {
+  return messages.map((msg: any) => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    createdAt: new Date(msg.created_at),
+    // Ensure attachments are properly formatted
+    experimental_attachments: msg.attachments || [],
+    // Preserve any metadata in the message
+    metadata: msg.metadata || {},
+    // Stream events (generated media, search results) saved with the message
+    annotations: msg.metadata?.events || []
+  }))
+}
+
+// Extract attachments from messages to reconstruct messageAttachments state
+function extractMessageAttachments(messages: any[]): Record<string, any[]> {
+  const extractedAttachments: Record<string, any[]> = {}
+  messages.forEach((msg: any) => {
+    if (msg.attachments && msg.attachments.length > 0) {
+      // Process attachments to handle invalid blob URLs
+      const processedAttachments = msg.attachments.map((attachment: any) => {
+        // Check if the URL is a blob URL
+        if (attachment.url && attachment.url.startsWith('blob:')) {
+          console.log('[PAGE] Found blob URL in attachment, skipping:', attachment.name)
+          // Return attachment without URL to prevent errors
+          return {
+            ...attachment,
+            url: undefined,
+            error: 'Blob URL expired - file needs to be re-uploaded'
+          }
+        }
+        return attachment
+      })
+
+      extractedAttachments[msg.id] = processedAttachments
+      console.log('[PAGE] Found attachments for message:', msg.id, 'count:', processedAttachments.length)
+    }
+  })
+  return extractedAttachments
+}
+
 export default function Home() {
   // Get settings from context
   const { imageSettings, updateImageSettings } = useSettings()
@@ -62,8 +105,11 @@ export default function Home() {
     saveMessages,
     saveImage: saveImageToDB,
     saveVideo: saveVideoToDB,
+    saveAudio: saveAudioToDB,
     deleteVideo: deleteVideoFromDB,
     loadChat,
+    switchBranch,
+    getMessageBranch,
     loadAllImages,
     loadAllVideos,
     refreshChats,
@@ -286,40 +332,8 @@ export default function Home() {
         })
 
         // Convert database messages to chat interface format and extract attachments
-        const formattedMessages = chatData.messages.map((msg: any) => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          createdAt: new Date(msg.created_at),
-          // Ensure attachments are properly formatted
-          experimental_attachments: msg.attachments || [],
-          // Preserve any metadata in the message
-          metadata: msg.metadata || {}
-        }))
-
-        // Extract attachments from messages to reconstruct messageAttachments state
-        const extractedAttachments: Record<string, any[]> = {}
-        chatData.messages.forEach((msg: any) => {
-          if (msg.attachments && msg.attachments.length > 0) {
-            // Process attachments to handle invalid blob URLs
-            const processedAttachments = msg.attachments.map((attachment: any) => {
-              // Check if the URL is a blob URL
-              if (attachment.url && attachment.url.startsWith('blob:')) {
-                console.log('[PAGE] Found blob URL in attachment, skipping:', attachment.name)
-                // Return attachment without URL to prevent errors
-                return {
-                  ...attachment,
-                  url: undefined,
-                  error: 'Blob URL expired - file needs to be re-uploaded'
-                }
-              }
-              return attachment
-            })
-            
-            extractedAttachments[msg.id] = processedAttachments
-            console.log('[PAGE] Found attachments for message:', msg.id, 'count:', processedAttachments.length)
-          }
-        })
+        const formattedMessages = toInterfaceMessages(chatData.messages)
+        const extractedAttachments = extractMessageAttachments(chatData.messages)
 
         console.log('[PAGE] Extracted attachments from', Object.keys(extractedAttachments).length, 'messages')
 
@@ -383,6 +397,25 @@ export default function Home() {
     }
   }, [loadChat, selectedModel, setCurrentChatId, updateChatTitle, refreshChats])
 
+  // Show a sibling branch of the current chat (edited or regenerated turn)
+  const handleSwitchBranch = useCallback(async (messageId: string) => {
+    if (!currentChatId) return
+
+    const chatData = await switchBranch(currentChatId, messageId)
+    if (!chatData) {
+      toast({
+        title: "Couldn't switch branch",
+        description: "Please try again",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setLoadedMessages(toInterfaceMessages(chatData.messages))
+    setLoadedMessageAttachments(extractMessageAttachments(chatData.messages))
+    setChatKey(prev => prev + 1)
+  }, [currentChatId, switchBranch, toast])
+
   // Handle new chat creation
   const handleNewChat = useCallback(() => {
     console.log('[PAGE] Creating new chat...')
@@ -427,7 +460,6 @@ export default function Home() {
     const lastMessage = messages[messages.length - 1]
     const hasOnlyDataInjection = lastMessage?.content && (
       lastMessage.content.includes('[TTS_GENERATION_STARTED]') ||
-      lastMessage.content.includes('[VIDEO_GENERATION_STARTED]') ||
       lastMessage.content.includes('[IMAGE_EDITING_COMPLETED]') ||
       lastMessage.content.includes('**Sources:**') ||
       lastMessage.content.includes('[Source Name](') ||
@@ -1206,13 +1238,18 @@ export default function Home() {
       }
     })
 
+    // Save to the database and durable storage
+    saveAudioToDB(audio).catch(error => {
+      console.error('[PAGE] Failed to queue audio for saving:', error)
+    })
+
     // Show success notification
     toast({
       title: "Audio generated!",
       description: "Your text-to-speech audio is ready to play.",
       duration: 3000
     })
-  }, [toast])
+  }, [toast, saveAudioToDB])
 
   // Handle audio progress updates
   const handleAudioProgressUpdate = useCallback((audioId: string, progress: number) => {
@@ -1274,6 +1311,8 @@ export default function Home() {
               selectedModel={selectedModel}
               initialMessages={loadedMessages}
               initialMessageAttachments={loadedMessageAttachments}
+              getMessageBranch={getMessageBranch}
+              onSwitchBranch={handleSwitchBranch}
               chatId={currentChatId}
               onResetChat={() => {
                 setLoadedMessages(undefined)
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { getStorageProvider } from '@/lib/storage'
 
 export async function GET() {
   const hasSupabaseEnv = !!process.env.SUPABASE_URL && !!process.env.SUPABASE_API_KEY
@@ -10,6 +11,7 @@ export async function GET() {
     hasSupabase: hasSupabaseEnv,
     hasValidSupabaseUrl: hasSupabaseEnv && isValidUrl,
     hasBlob: !!process.env.BLOB_READ_WRITE_TOKEN,
+    storageProvider: getStorageProvider()?.id ?? null,
     hasRedis: !!process.env.REDIS_URL
   })
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { diffResearchSessions, ResearchSessionError } from '@/lib/services/research-sessions'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ sessionId: string }> }
+
+// GET /api/research/[sessionId]/diff?against= - Compare the report and sources with another run
+// (default: the newest later completed run of the same query)
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { sessionId } = await params
+    const against = req.nextUrl.searchParams.get('against') || undefined
+    const diff = await diffResearchSessions(sessionId, against)
+    if (!diff) {
+      return NextResponse.json({ error: 'Research session not found' }, { status: 404 })
+    }
+    return NextResponse.json({ diff })
+  } catch (error) {
+    if (error instanceof ResearchSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in GET /api/research/[sessionId]/diff:', error)
+    return NextResponse.json({ error: 'Failed to compare research sessions' }, { status: 500 })
+  }
+})
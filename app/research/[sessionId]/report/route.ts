@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { getResearchReport, ResearchSessionError } from '@/lib/services/research-sessions'
+import { REPORT_EXPORT_FORMATS, renderReport, type ReportExportFormat } from '@/lib/research-report'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ sessionId: string }> }
+
+// GET /api/research/[sessionId]/report?format=json|markdown|bibtex|csl|html - Cited report and its
+// citation check as JSON, or a download with footnotes, a bibliography or a standalone page
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  const format = (req.nextUrl.searchParams.get('format') || 'json') as ReportExportFormat
+  if (!REPORT_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { sessionId } = await params
+    const report = await getResearchReport(sessionId)
+    if (!report) {
+      return NextResponse.json({ error: 'Research session not found' }, { status: 404 })
+    }
+    if (format === 'json') {
+      return NextResponse.json({ report })
+    }
+
+    const { body, contentType, extension } = renderReport(report, format)
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="research-${sessionId.slice(0, 8)}.${extension}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ResearchSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in GET /api/research/[sessionId]/report:', error)
+    return NextResponse.json({ error: 'Failed to build research report' }, { status: 500 })
+  }
+})
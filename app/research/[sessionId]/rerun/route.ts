@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  rerunResearchSession,
+  ResearchSessionError,
+  ResearchUnavailableError
+} from '@/lib/services/research-sessions'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ sessionId: string }> }
+
+// POST /api/research/[sessionId]/rerun - Start a new session with the same query, options and chat
+export const POST = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { sessionId } = await params
+    const session = await rerunResearchSession(sessionId)
+    if (!session) {
+      return NextResponse.json({ error: 'Research session not found' }, { status: 404 })
+    }
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ResearchUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+    if (error instanceof ResearchSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/research/[sessionId]/rerun:', error)
+    return NextResponse.json({ error: 'Failed to re-run research' }, { status: 500 })
+  }
+})
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { deleteResearchSession, getResearchSession } from '@/lib/services/research-sessions'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ sessionId: string }> }
+
+// GET /api/research/[sessionId] - Get a session with its progress, report, findings and sources
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { sessionId } = await params
+    const session = await getResearchSession(sessionId)
+    if (!session) {
+      return NextResponse.json({ error: 'Research session not found' }, { status: 404 })
+    }
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error('Error in GET /api/research/[sessionId]:', error)
+    return NextResponse.json({ error: 'Failed to fetch research session' }, { status: 500 })
+  }
+})
+
+// DELETE /api/research/[sessionId] - Delete a session, cancelling it if it's still running
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { sessionId } = await params
+    if (!(await deleteResearchSession(sessionId))) {
+      return NextResponse.json({ error: 'Research session not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/research/[sessionId]:', error)
+    return NextResponse.json({ error: 'Failed to delete research session' }, { status: 500 })
+  }
+})
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteCorpusDocument } from '@/lib/research-corpus'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ documentId: string }> }
+
+// DELETE /api/research/corpus/[documentId] - Remove a document and its chunks from the corpus
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  try {
+    const { documentId } = await params
+    const deleted = await deleteCorpusDocument(documentId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/research/corpus/[documentId]:', error)
+    return NextResponse.json({ error: 'Failed to delete research document' }, { status: 500 })
+  }
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  addCorpusDocument,
+  addMcpResourceToCorpus,
+  CorpusDocumentError,
+  getCorpusIndex,
+  isCorpusConfigured,
+  listCorpusDocuments
+} from '@/lib/research-corpus'
+import { withAuth } from '@/lib/auth'
+
+// GET /api/research/corpus - The user's research documents, newest first, and where the index is kept
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const [documents, index] = await Promise.all([listCorpusDocuments(), getCorpusIndex()])
+    return NextResponse.json({ documents, backend: index.backend, available: isCorpusConfigured() })
+  } catch (error) {
+    console.error('Error in GET /api/research/corpus:', error)
+    return NextResponse.json({ error: 'Failed to fetch research documents' }, { status: 500 })
+  }
+})
+
+// POST /api/research/corpus - Add pasted text ({ name, text }) or an MCP resource ({ mcp: { serverId, uri, name? } });
+// files are added through POST /api/upload with target=research-corpus
+export const POST = withAuth(async (req: NextRequest) => {
+  if (!isCorpusConfigured()) {
+    return NextResponse.json({ error: 'Researching documents needs GEMINI_API_KEY' }, { status: 503 })
+  }
+
+  try {
+    const { name, text, mcp } = await req.json()
+
+    let result
+    if (mcp) {
+      if (typeof mcp.serverId !== 'string' || typeof mcp.uri !== 'string') {
+        return NextResponse.json({ error: 'mcp.serverId and mcp.uri are required' }, { status: 400 })
+      }
+      result = await addMcpResourceToCorpus({
+        serverId: mcp.serverId,
+        uri: mcp.uri,
+        name: typeof mcp.name === 'string' ? mcp.name : undefined,
+      })
+    } else {
+      if (typeof text !== 'string' || !text.trim()) {
+        return NextResponse.json({ error: 'text or mcp is required' }, { status: 400 })
+      }
+      result = await addCorpusDocument({
+        name: typeof name === 'string' && name.trim() ? name.trim() : 'Pasted text',
+        mimeType: 'text/markdown',
+        data: Buffer.from(text, 'utf-8'),
+        origin: 'text',
+      })
+    }
+
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 })
+  } catch (error) {
+    if (error instanceof CorpusDocumentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/research/corpus:', error)
+    return NextResponse.json({ error: 'Failed to add research document' }, { status: 500 })
+  }
+})
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  deleteResearchMonitor,
+  getResearchMonitor,
+  getResearchMonitorRuns,
+  updateResearchMonitor,
+  ResearchMonitorError
+} from '@/lib/services/research-monitors'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ monitorId: string }> }
+
+// GET /api/research/monitors/[monitorId] - Get a monitor with its recent runs
+export const GET = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { monitorId } = await params
+    const monitor = await getResearchMonitor(monitorId)
+    if (!monitor) {
+      return NextResponse.json({ error: 'Research monitor not found' }, { status: 404 })
+    }
+    const runs = await getResearchMonitorRuns(monitorId)
+    return NextResponse.json({ monitor, runs })
+  } catch (error) {
+    console.error('Error in GET /api/research/monitors/[monitorId]:', error)
+    return NextResponse.json({ error: 'Failed to fetch research monitor' }, { status: 500 })
+  }
+})
+
+// PATCH /api/research/monitors/[monitorId] - Change any of the fields a monitor is created with
+export const PATCH = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { monitorId } = await params
+    const monitor = await updateResearchMonitor(monitorId, await req.json())
+    if (!monitor) {
+      return NextResponse.json({ error: 'Research monitor not found' }, { status: 404 })
+    }
+    return NextResponse.json({ monitor })
+  } catch (error) {
+    if (error instanceof ResearchMonitorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in PATCH /api/research/monitors/[monitorId]:', error)
+    return NextResponse.json({ error: 'Failed to update research monitor' }, { status: 500 })
+  }
+})
+
+// DELETE /api/research/monitors/[monitorId] - Delete a monitor; its runs stay in the research history
+export const DELETE = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { monitorId } = await params
+    const deleted = await deleteResearchMonitor(monitorId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Research monitor not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/research/monitors/[monitorId]:', error)
+    return NextResponse.json({ error: 'Failed to delete research monitor' }, { status: 500 })
+  }
+})
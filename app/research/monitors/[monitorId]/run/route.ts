@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { runResearchMonitor, ResearchMonitorError } from '@/lib/services/research-monitors'
+import { ResearchSessionError, ResearchUnavailableError } from '@/lib/services/research-sessions'
+import { withAuth } from '@/lib/auth'
+
+type RouteContext = { params: Promise<{ monitorId: string }> }
+
+// POST /api/research/monitors/[monitorId]/run - Run a monitor now, outside its schedule
+export const POST = withAuth(async (req: NextRequest, { params }: RouteContext) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { monitorId } = await params
+    const session = await runResearchMonitor(monitorId)
+    if (!session) {
+      return NextResponse.json({ error: 'Research monitor not found' }, { status: 404 })
+    }
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ResearchUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+    if (error instanceof ResearchMonitorError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof ResearchSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/research/monitors/[monitorId]/run:', error)
+    return NextResponse.json({ error: 'Failed to run research monitor' }, { status: 500 })
+  }
+})
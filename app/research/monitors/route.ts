@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  createResearchMonitor,
+  getResearchMonitors,
+  ResearchMonitorError
+} from '@/lib/services/research-monitors'
+import { withAuth } from '@/lib/auth'
+
+// GET /api/research/monitors - List research monitors, newest first
+export const GET = withAuth(async () => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const monitors = await getResearchMonitors()
+    return NextResponse.json({ monitors })
+  } catch (error) {
+    console.error('Error in GET /api/research/monitors:', error)
+    return NextResponse.json({ error: 'Failed to fetch research monitors' }, { status: 500 })
+  }
+})
+
+// POST /api/research/monitors - Create a monitor ({ query, schedule, name?, timezone?, options?, chatId?, webhookUrl?, enabled? })
+export const POST = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const monitor = await createResearchMonitor(await req.json())
+    return NextResponse.json({ monitor }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ResearchMonitorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/research/monitors:', error)
+    return NextResponse.json({ error: 'Failed to create research monitor' }, { status: 500 })
+  }
+})
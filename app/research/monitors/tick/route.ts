@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { checkSchedulerSecret } from '@/lib/auth'
+import { runDueResearchMonitors } from '@/lib/services/research-monitors'
+
+// POST /api/research/monitors/tick - Scheduled entry point for research
+// monitors: reports finished runs and starts the monitors that are due. Call
+// it every few minutes; with RESEARCH_MONITOR_SECRET set it needs
+// "Authorization: Bearer <secret>".
+export async function POST(request: NextRequest) {
+  // Ticks run every user's monitors, so signed-in installs must protect them
+  const denied = checkSchedulerSecret(request, 'RESEARCH_MONITOR_SECRET')
+  if (denied) return denied
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const result = await runDueResearchMonitors()
+    console.log('[RESEARCH MONITOR] Tick completed:', result)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error in POST /api/research/monitors/tick:', error)
+    return NextResponse.json({ error: 'Failed to run research monitors' }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import {
+  getResearchSessions,
+  parseResearchOptions,
+  startResearchSession,
+  ResearchSessionError,
+  ResearchUnavailableError
+} from '@/lib/services/research-sessions'
+import { withAuth } from '@/lib/auth'
+
+// GET /api/research?chatId= - List research sessions, newest first, optionally of one chat
+export const GET = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const searchParams = req.nextUrl.searchParams
+    const sessions = await getResearchSessions({
+      chatId: searchParams.get('chatId') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    })
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error('Error in GET /api/research:', error)
+    return NextResponse.json({ error: 'Failed to fetch research sessions' }, { status: 500 })
+  }
+})
+
+// POST /api/research - Start a deep research session ({ query, chatId?, options? }); it runs in the background
+export const POST = withAuth(async (req: NextRequest) => {
+  if (!isPersistenceConfigured()) {
+    return NextResponse.json({ error: 'Persistence not configured' }, { status: 503 })
+  }
+
+  try {
+    const { query, chatId, options } = await req.json()
+
+    if (typeof query !== 'string' || !query.trim()) {
+      return NextResponse.json({ error: 'Research query is required' }, { status: 400 })
+    }
+    if (chatId !== undefined && chatId !== null && typeof chatId !== 'string') {
+      return NextResponse.json({ error: 'chatId must be a string' }, { status: 400 })
+    }
+
+    const session = await startResearchSession({
+      query: query.trim(),
+      options: parseResearchOptions(options),
+      chatId,
+    })
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ResearchUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+    if (error instanceof ResearchSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/research:', error)
+    return NextResponse.json({ error: 'Failed to start research' }, { status: 500 })
+  }
+})
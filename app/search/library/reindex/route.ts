@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPersistenceConfigured } from '@/lib/database/supabase';
+import { backfillLibraryEmbeddings } from '@/lib/services/library-search';
+import { isEmbeddingConfigured } from '@/lib/services/embeddings';
+import { withAuth } from '@/lib/auth'
+
+// POST /api/search/library/reindex - Embed items saved before semantic search was enabled
+// Call repeatedly until `indexed` is 0
+export const POST = withAuth(async (req: NextRequest) => {
+  try {
+    if (!isPersistenceConfigured() || !isEmbeddingConfigured()) {
+      return NextResponse.json(
+        { error: 'Semantic search requires database persistence and GEMINI_API_KEY' },
+        { status: 503 }
+      );
+    }
+
+    const { limit } = await req.json().catch(() => ({}));
+    const indexed = await backfillLibraryEmbeddings(Math.min(Number(limit) || 100, 500));
+
+    return NextResponse.json({ indexed });
+  } catch (error: any) {
+    console.error('Error in POST /api/search/library/reindex:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to index library' },
+      { status: 500 }
+    );
+  }
+})
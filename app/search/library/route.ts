@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPersistenceConfigured } from '@/lib/database/supabase';
+import { searchLibrary, LIBRARY_ITEM_TYPES, type LibraryItemType } from '@/lib/services/library-search';
+import { withAuth } from '@/lib/auth'
+
+const MAX_LIMIT = 50;
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/search/library - Search messages, images and videos
+// ?q=...&types=message,image,video&chatId=...&model=...&from=...&to=...&limit=20&offset=0&semantic=true
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const query = searchParams.get('q')?.trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query parameter "q" is required' },
+        { status: 400 }
+      );
+    }
+
+    const types = searchParams.get('types')?.split(',').map(type => type.trim()).filter(Boolean);
+    const invalidType = types?.find(type => !LIBRARY_ITEM_TYPES.includes(type as LibraryItemType));
+    if (invalidType) {
+      return NextResponse.json(
+        { error: `Invalid type "${invalidType}", expected one of: ${LIBRARY_ITEM_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'Invalid date in "from" or "to"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPersistenceConfigured()) {
+      return NextResponse.json(
+        { error: 'Library search requires database persistence' },
+        { status: 503 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), MAX_LIMIT);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const { results, semantic } = await searchLibrary({
+      query,
+      types: types as LibraryItemType[] | undefined,
+      chatId: searchParams.get('chatId') || undefined,
+      model: searchParams.get('model') || undefined,
+      from,
+      to,
+      limit,
+      offset,
+      semantic: searchParams.get('semantic') === 'true',
+    });
+
+    return NextResponse.json({
+      query,
+      results,
+      semantic,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/search/library:', error);
+    return NextResponse.json(
+      { error: 'Failed to search library' },
+      { status: 500 }
+    );
+  }
+})
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TavilyClient, WebSearchContextDetector } from '@/lib/tavily-client';
+import {
+  getDefaultSearchProviders,
+  isSearchProviderId,
+  listSearchProviders,
+  resolveSearchProviders,
+  searchWeb,
+  SearchProviderError,
+} from '@/lib/search';
 
+const RECENCY = ['day', 'week', 'month', 'year'];
+
+// POST /api/search - Web search with the given providers, or the defaults
+// ({ query, providers?, limit?, mode?, recency?, domains? })
 export async function POST(req: NextRequest) {
   try {
-    const { query, options = {} } = await req.json();
+    const { query, providers, limit, mode, recency, domains } = await req.json();
 
     if (!query || typeof query !== 'string') {
       return NextResponse.json(
@@ -11,41 +22,39 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
+    if (providers !== undefined && (!Array.isArray(providers) || !providers.every(isSearchProviderId))) {
+      return NextResponse.json(
+        { error: 'providers must be a list of search provider ids' },
+        { status: 400 }
+      );
+    }
+    if (recency !== undefined && !RECENCY.includes(recency)) {
+      return NextResponse.json(
+        { error: `recency must be one of: ${RECENCY.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Initialize Tavily client
-    const tavilyClient = TavilyClient.getInstance();
-
-    // Detect search context and get appropriate parameters
-    const contextParams = WebSearchContextDetector.getSearchParams(query);
-    const domainParams = WebSearchContextDetector.extractDomains(query);
-
-    // Merge parameters: options > context detection > defaults
-    const searchParams = {
+    const providerIds = resolveSearchProviders(providers);
+    const response = await searchWeb({
       query,
-      ...contextParams,
-      ...domainParams,
-      ...options,
-    };
+      mode: mode === 'academic' ? 'academic' : 'web',
+      recency,
+      domains: Array.isArray(domains) ? domains.filter((domain) => typeof domain === 'string') : undefined,
+      maxResults: typeof limit === 'number' && limit > 0 ? limit : undefined,
+      signal: req.signal,
+    }, providerIds);
 
-    console.log('[Search API] Processing search request:', {
+    console.log('[Search API] Search completed:', {
       query,
-      params: searchParams,
-      requiresSearch: WebSearchContextDetector.requiresWebSearch(query),
+      providers: response.providers,
+      results: response.results.length,
     });
 
-    // Execute search
-    const searchResults = await tavilyClient.search(searchParams);
-
-    // Format results for AI consumption
-    const formattedResults = tavilyClient.formatForAI(searchResults);
-
-    // Return both raw and formatted results
     return NextResponse.json({
       success: true,
-      query,
-      results: searchResults,
-      formatted: formattedResults,
-      searchParams,
+      ...response,
+      results: typeof limit === 'number' && limit > 0 ? response.results.slice(0, limit) : response.results,
       timestamp: new Date().toISOString(),
     });
 
@@ -53,8 +62,9 @@ export async function POST(req: NextRequest) {
     console.error('[Search API] Error:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    const statusCode = errorMessage.includes('rate limit') ? 429 : 
-                      errorMessage.includes('Invalid') ? 401 : 500;
+    const statusCode = error instanceof SearchProviderError
+      ? error.provider === null ? 503 : error.status === 429 ? 429 : 502
+      : 500;
 
     return NextResponse.json(
       {
@@ -67,27 +77,12 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// GET endpoint for health check
+// GET /api/search - Search providers, whether each is configured, and the defaults
 export async function GET() {
-  try {
-    // Check if API key is configured
-    const hasApiKey = !!process.env.TAVILY_API_KEY;
-    
-    return NextResponse.json({
-      status: 'ok',
-      service: 'Tavily Web Search',
-      configured: hasApiKey,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    return NextResponse.json(
-      {
-        status: 'error',
-        service: 'Tavily Web Search',
-        error: 'Service check failed',
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json({
+    status: 'ok',
+    providers: listSearchProviders(),
+    defaults: getDefaultSearchProviders(),
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
           id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
           name TEXT NOT NULL,
           description TEXT,
-          image_count INTEGER DEFAULT 0,
+          cover_url TEXT,
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           metadata JSONB DEFAULT '{}'::jsonb
@@ -29,21 +29,23 @@ export async function POST(request: NextRequest) {
       console.log('[Database Setup] Collections table may already exist or using direct SQL...')
     }
 
-    // Create collection_images table
-    const { error: collectionImagesError } = await supabase.rpc('exec_sql', {
+    // Create collection_items table (full definition with triggers: lib/database/add-collections.sql)
+    const { error: collectionItemsError } = await supabase.rpc('exec_sql', {
       sql: `
-        CREATE TABLE IF NOT EXISTS collection_images (
+        CREATE TABLE IF NOT EXISTS collection_items (
           id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-          collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
-          image_id TEXT NOT NULL,
+          collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+          item_type TEXT NOT NULL CHECK (item_type IN ('image', 'video', 'audio', 'chat')),
+          item_id UUID NOT NULL,
+          position INTEGER NOT NULL DEFAULT 0,
           added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          UNIQUE(collection_id, image_id)
+          UNIQUE(collection_id, item_type, item_id)
         );
       `
     })
 
-    if (collectionImagesError) {
-      console.log('[Database Setup] Collection images table may already exist...')
+    if (collectionItemsError) {
+      console.log('[Database Setup] Collection items table may already exist...')
     }
 
     // Try to create tables using direct SQL execution
@@ -125,8 +127,7 @@ export async function POST(request: NextRequest) {
         .from('collections')
         .insert({
           name: 'Test Collection Setup',
-          description: 'Database setup test collection',
-          image_count: 0
+          description: 'Database setup test collection'
         })
         .select()
         .single()
@@ -176,7 +177,7 @@ export async function GET(request: NextRequest) {
 
     const status = {
       collections: false,
-      collectionImages: false,
+      collectionItems: false,
       userPreferences: false,
       imagesMetadata: false
     }
@@ -193,16 +194,16 @@ export async function GET(request: NextRequest) {
       status.collections = false
     }
 
-    // Check collection_images table
+    // Check collection_items table
     try {
       const { data, error } = await supabase
-        .from('collection_images')
+        .from('collection_items')
         .select('id')
         .limit(1)
       
-      status.collectionImages = !error
+      status.collectionItems = !error
     } catch (error) {
-      status.collectionImages = false
+      status.collectionItems = false
     }
 
     // Check user_preferences table
@@ -0,0 +1,29 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { SharedChatView } from "@/components/shared-chat-view"
+import { isPersistenceConfigured } from "@/lib/database/supabase"
+import { getSharedChat } from "@/lib/services/chat-sharing"
+
+// Links can be revoked or expire at any time
+export const dynamic = "force-dynamic"
+
+type PageProps = { params: Promise<{ token: string }> }
+
+export const metadata: Metadata = {
+  title: "Shared chat",
+  robots: { index: false, follow: false },
+}
+
+// /share/[token] - Read-only view of a published chat
+export default async function SharedChatPage({ params }: PageProps) {
+  const { token } = await params
+  if (!isPersistenceConfigured()) notFound()
+
+  const sharedChat = await getSharedChat(token).catch((error) => {
+    console.error("Error loading shared chat:", error)
+    return null
+  })
+  if (!sharedChat) notFound()
+
+  return <SharedChatView sharedChat={sharedChat} />
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorageProvider } from '@/lib/storage'
+import { isSafeStorageKey } from '@/lib/storage/proxy'
+import { getStorageAccess, type StorageAccess } from '@/lib/services/storage-access'
+import { withAuth } from '@/lib/auth'
+
+// Never cached by shared caches: access depends on who asks, and share copies
+// must stop loading soon after their link is revoked
+const CACHE_CONTROL: Record<Exclude<StorageAccess, 'denied'>, string> = {
+  owner: 'private, max-age=3600',
+  share: 'private, max-age=300',
+}
+
+// GET /api/storage/[...key] - Serve an object from a private bucket or the local filesystem
+// to its owner, or to anyone while the share link it was copied for is live
+export const GET = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) => {
+  const storage = getStorageProvider()
+  if (!storage) {
+    return NextResponse.json({ error: 'Storage not configured' }, { status: 503 })
+  }
+
+  const { key: segments } = await params
+  const key = segments.join('/')
+  // Segments arrive decoded, so an encoded "/" can smuggle in ".." segments
+  if (!isSafeStorageKey(key)) {
+    return NextResponse.json({ error: 'Invalid storage key' }, { status: 400 })
+  }
+
+  try {
+    // Objects the requester may not read look the same as missing ones
+    const access = await getStorageAccess(key)
+    const object = access === 'denied' ? null : await storage.get(key)
+    if (access === 'denied' || !object) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(object.data), {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': String(object.data.length),
+        'Cache-Control': CACHE_CONTROL[access],
+      },
+    })
+  } catch (error: any) {
+    console.error('[STORAGE] Error serving', key, error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read from storage' },
+      { status: error.message?.startsWith('Invalid storage key') ? 400 : 500 }
+    )
+  }
+}, { optional: true })
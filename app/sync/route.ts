@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { applySyncMutations } from '@/lib/services/sync-service'
+import type { SyncMutation } from '@/lib/sync/types'
+import { withAuth } from '@/lib/auth'
+
+const MAX_BATCH_SIZE = 50
+
+// POST /api/sync - Apply queued offline mutations in order
+export const POST = withAuth(async (req: NextRequest) => {
+  try {
+    if (!isPersistenceConfigured()) {
+      return NextResponse.json(
+        { error: 'Persistence not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { mutations } = await req.json()
+
+    if (!Array.isArray(mutations) || mutations.some(m => !m?.id || !m?.type)) {
+      return NextResponse.json(
+        { error: 'mutations must be an array of sync mutations' },
+        { status: 400 }
+      )
+    }
+
+    if (mutations.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} mutations per request` },
+        { status: 400 }
+      )
+    }
+
+    const results = await applySyncMutations(mutations as SyncMutation[])
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error in POST /api/sync:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync' },
+      { status: 500 }
+    )
+  }
+})
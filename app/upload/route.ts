@@ -4,6 +4,10 @@ import { NextResponse } from "next/server"
 import path from "node:path"
 import fs from "node:fs/promises"
 import os from "node:os"
+import { uploadFileToStorage } from "@/lib/storage/media-storage"
+import { canUserUploadFile, trackFileUsage } from "@/lib/services/file-manager"
+import { getCurrentUser, withAuth } from "@/lib/auth"
+import { addCorpusDocument, CorpusDocumentError, resolveCorpusMimeType } from "@/lib/research-corpus"
 
 // Initialize the File Manager with better error handling
 const apiKey = process.env.GEMINI_API_KEY
@@ -12,7 +16,47 @@ if (!apiKey) {
 }
 const fileManager = new GoogleAIFileManager(apiKey || "")
 
-export async function POST(req: NextRequest) {
+// Documents for deep research are chunked and embedded into the research corpus
+// instead of going to the Gemini File API (see lib/research-corpus)
+async function addResearchDocument(file: File, userId?: string) {
+  if (!resolveCorpusMimeType(file.name, file.type)) {
+    return NextResponse.json(
+      { error: "Unsupported document type. Please upload a PDF, Markdown, text, CSV, JSON, YAML or HTML file." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { document, duplicate } = await addCorpusDocument({
+      name: file.name,
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      origin: "upload"
+    })
+    console.log(`[Upload API] Added ${file.name} to the research corpus (${document.chunkCount} chunks${duplicate ? ", already present" : ""})`)
+    if (userId && !duplicate) {
+      await trackFileUsage(`corpus://${document.id}`, "document", {
+        userId,
+        fileSize: file.size,
+        contentType: document.mimeType,
+        originalName: file.name,
+        storageLocation: "external"
+      })
+    }
+    return NextResponse.json({ success: true, document, duplicate }, { status: duplicate ? 200 : 201 })
+  } catch (error: any) {
+    if (error instanceof CorpusDocumentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("[Upload API] Failed to add research document:", error)
+    return NextResponse.json(
+      { error: "Failed to add document to the research corpus", details: error.message || "Unknown error occurred" },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     // Check if API key is configured
     if (!apiKey) {
@@ -39,6 +83,21 @@ export async function POST(req: NextRequest) {
 
     console.log(`[Upload API] Processing file: ${file.name}, Type: ${file.type}, Size: ${file.size} bytes`)
 
+    // Signed-in users have a storage quota (user_storage_quotas)
+    const user = getCurrentUser()
+    const quotaCheck = await canUserUploadFile(user?.id, file.size)
+    if (!quotaCheck.allowed) {
+      return NextResponse.json(
+        { error: "Storage quota exceeded", details: quotaCheck.reason },
+        { status: 413 }
+      )
+    }
+
+    if (formData.get("target") === "research-corpus") {
+      return await addResearchDocument(file, user?.id)
+    }
+
+
     // Validate file type
     const supportedTypes = [
       // Images
@@ -76,6 +135,7 @@ export async function POST(req: NextRequest) {
       )
     }
 
+
     // Convert File to Buffer
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
@@ -115,6 +175,22 @@ export async function POST(req: NextRequest) {
 
       console.log(`File upload successful - URI: ${fileInfo.uri}, State: ${fileInfo.state}`)
 
+      // Gemini files expire after 48 hours; keep a durable copy for the chat history
+      const safeName = file.name.replace(/[^\w.-]+/g, "_")
+      const storedUrl = await uploadFileToStorage(buffer, file.type, `${Date.now()}-${safeName}`)
+
+      // Count the stored copy against the user's quota
+      if (user && storedUrl) {
+        const fileType = file.type.startsWith("image/") ? "image" : file.type.startsWith("audio/") ? "audio" : "video"
+        await trackFileUsage(storedUrl, fileType, {
+          userId: user.id,
+          fileSize: file.size,
+          contentType: file.type,
+          originalName: file.name,
+          storageLocation: "blob"
+        })
+      }
+
       // Return file info
       return NextResponse.json({
         success: true,
@@ -123,7 +199,8 @@ export async function POST(req: NextRequest) {
           mimeType: fileInfo.mimeType,
           displayName: fileInfo.displayName,
           name: fileInfo.name,
-          sizeBytes: fileInfo.sizeBytes
+          sizeBytes: fileInfo.sizeBytes,
+          url: storedUrl || undefined
         }
       })
     } catch (uploadError: any) {
@@ -190,4 +267,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
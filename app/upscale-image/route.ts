@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { ReplicateImageClient } from "@/lib/replicate-client"
 import { ensureImageUrlAccessible, isReplicateDeliveryUrl } from "@/lib/image-url-validator"
 import { getImageByLocalId } from "@/lib/services/chat-persistence"
+import { withAuth } from "@/lib/auth"
 
 // Cost calculation based on output megapixels
 const calculateCost = (width: number, height: number, factor: string): { mp: number; units: number; cost: number } => {
@@ -23,7 +24,7 @@ const calculateCost = (width: number, height: number, factor: string): { mp: num
   return { mp: outputMP, units, cost: units * 0.048 }
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   console.log("Image upscaling API called")
 
   try {
@@ -254,7 +255,7 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 export async function GET() {
   return NextResponse.json({
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAllVideos, saveVideo, deleteVideo } from '@/lib/services/chat-persistence'
 import { GeneratedVideo } from '@/lib/video-generation-types'
+import { withAuth } from '@/lib/auth'
 
 // GET /api/videos - Get all videos
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
     const searchParams = req.nextUrl.searchParams
     const limit = parseInt(searchParams.get('limit') || '100')
@@ -18,10 +19,10 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/videos - Save a video
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     const { video, chatId, messageId } = await req.json()
 
@@ -54,10 +55,10 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/videos - Delete a video
-export async function DELETE(req: NextRequest) {
+export const DELETE = withAuth(async (req: NextRequest) => {
   try {
     const searchParams = req.nextUrl.searchParams
     const videoId = searchParams.get('id')
@@ -85,4 +86,4 @@ export async function DELETE(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
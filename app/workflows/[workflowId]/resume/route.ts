@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { ChatWorkflowIntegration } from '@/lib/langgraph/integration/chat-integration';
+
+// Events that end the stream
+const TERMINAL_EVENTS = ['workflow_completed', 'workflow_failed', 'workflow_paused', 'workflow_cancelled'];
+
+// POST /api/workflows/[workflowId]/resume - Resume a workflow from its last completed step
+// Streams workflow events as server-sent events until the run finishes or pauses for review.
+export const POST = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) => {
+  const { workflowId } = await params;
+  const integration = ChatWorkflowIntegration.getInstance();
+  const encoder = new TextEncoder();
+
+  let send: (event: any) => void = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      send = (event: any) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (TERMINAL_EVENTS.includes(event.type)) {
+          closed = true;
+          controller.close();
+        }
+      };
+    },
+  });
+
+  try {
+    const resumed = await integration.resumeWorkflow(workflowId, (event) => send(event));
+    if (!resumed) {
+      return NextResponse.json({
+        resumed: false,
+        message: 'Workflow already completed'
+      });
+    }
+  } catch (error) {
+    console.error('Error resuming workflow:', error);
+    const message = error instanceof Error ? error.message : 'Failed to resume workflow';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('already running') ? 409 : 500 }
+    );
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { ChatWorkflowIntegration } from '@/lib/langgraph/integration/chat-integration';
+import type { WorkflowReviewDecision } from '@/lib/langgraph/workflow-engine';
+
+// Events that end the stream
+const TERMINAL_EVENTS = ['workflow_completed', 'workflow_failed', 'workflow_paused', 'workflow_cancelled'];
+const STEP_ACTIONS = ['approve', 'skip', 'rerun'];
+
+// POST /api/workflows/[workflowId]/review - Approve, edit or reject a paused workflow
+// Body: { action: 'approve' | 'reject', plan?, steps?: { [stepId]: 'approve' | 'skip' | 'rerun' } }
+// Streams workflow events as server-sent events until the run finishes or pauses again.
+export const POST = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) => {
+  const { workflowId } = await params;
+
+  let decision: WorkflowReviewDecision;
+  try {
+    decision = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (decision?.action !== 'approve' && decision?.action !== 'reject') {
+    return NextResponse.json(
+      { error: "action must be 'approve' or 'reject'" },
+      { status: 400 }
+    );
+  }
+  if (decision.steps && Object.values(decision.steps).some(action => !STEP_ACTIONS.includes(action))) {
+    return NextResponse.json(
+      { error: `Step actions must be one of: ${STEP_ACTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (decision.plan && !Array.isArray(decision.plan.steps)) {
+    return NextResponse.json({ error: 'plan.steps must be an array' }, { status: 400 });
+  }
+
+  const integration = ChatWorkflowIntegration.getInstance();
+  const encoder = new TextEncoder();
+
+  let send: (event: any) => void = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      send = (event: any) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (TERMINAL_EVENTS.includes(event.type)) {
+          closed = true;
+          controller.close();
+        }
+      };
+    },
+  });
+
+  try {
+    await integration.submitReview(workflowId, decision, (event) => send(event));
+  } catch (error) {
+    console.error('Error submitting workflow review:', error);
+    const message = error instanceof Error ? error.message : 'Failed to submit review';
+    return NextResponse.json(
+      { error: message },
+      {
+        status: message.includes('not found') ? 404
+          : message.includes('already running') || message.includes('not awaiting') ? 409
+          : 500
+      }
+    );
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
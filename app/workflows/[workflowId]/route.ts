@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { ChatWorkflowIntegration } from '@/lib/langgraph/integration/chat-integration';
+
+// GET /api/workflows/[workflowId] - Get a workflow's plan, results and pending review
+export const GET = withAuth(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) => {
+  try {
+    const { workflowId } = await params;
+    const workflow = await ChatWorkflowIntegration.getInstance().getWorkflow(workflowId);
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(workflow);
+  } catch (error) {
+    console.error('Error getting workflow:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get workflow' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, withAuth } from '@/lib/auth';
+import { ChatWorkflowIntegration } from '@/lib/langgraph/integration/chat-integration';
+import { WorkflowTemplateError } from '@/lib/langgraph/templates/workflow-templates';
+
+// GET /api/workflows?chatId=... - List past and running workflows for a chat
+export const GET = withAuth(async (req: NextRequest) => {
+  try {
+    const chatId = req.nextUrl.searchParams.get('chatId');
+    if (!chatId) {
+      return NextResponse.json(
+        { error: 'chatId is required' },
+        { status: 400 }
+      );
+    }
+
+    const runs = await ChatWorkflowIntegration.getInstance().listRuns(chatId);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Error listing workflows:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list workflows' },
+      { status: 500 }
+    );
+  }
+});
+
+// Events that end the stream
+const TERMINAL_EVENTS = ['workflow_completed', 'workflow_failed', 'workflow_paused', 'workflow_cancelled'];
+
+// POST /api/workflows - Start a workflow from a chat message (e.g. "workflow: release-notes owner/repo")
+// Streams workflow events as server-sent events until the run finishes or pauses for review.
+export const POST = withAuth(async (req: NextRequest) => {
+  let body: { message?: string; chatId?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { message, chatId } = body;
+  // Runs belong to the signed-in user (see ChatWorkflowIntegration)
+  const userId = getCurrentUser()?.id ?? 'anonymous';
+  if (!message || !chatId) {
+    return NextResponse.json(
+      { error: 'message and chatId are required' },
+      { status: 400 }
+    );
+  }
+
+  const integration = ChatWorkflowIntegration.getInstance();
+  const encoder = new TextEncoder();
+
+  let send: (event: any) => void = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      send = (event: any) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (TERMINAL_EVENTS.includes(event.type)) {
+          closed = true;
+          controller.close();
+        }
+      };
+    },
+  });
+
+  try {
+    const workflowId = await integration.startWorkflowFromChat(message, chatId, userId, (event) => send(event));
+    if (!workflowId) {
+      return NextResponse.json(
+        { error: 'Message does not start a workflow' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error starting workflow:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start workflow' },
+      { status: error instanceof WorkflowTemplateError ? 400 : 500 }
+    );
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listWorkflowTemplates } from '@/lib/langgraph/templates/workflow-templates';
+
+// GET /api/workflows/templates - List workflow templates, including ones that fail validation
+export async function GET() {
+  try {
+    const templates = await listWorkflowTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error listing workflow templates:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list workflow templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -20,13 +20,16 @@ import {
   Search,
   Trash2,
   Edit3,
+  Share2,
+  Download,
+  Upload,
   SortAsc,
   SortDesc,
   Calendar,
   Clock,
   Activity,
 } from "lucide-react"
-import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { useState, useEffect, useRef, useMemo, useCallback, memo } from "react"
@@ -43,6 +46,9 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Separator } from "@/components/ui/separator"
 import { useChatPersistence } from "@/hooks/use-chat-persistence"
+import { useAuth } from "@/hooks/use-auth"
+import { ShareChatDialog } from "@/components/share-chat-dialog"
+import { toast } from "sonner"
 import { format, isToday, isYesterday, isThisWeek, isThisMonth } from "date-fns"
 import { Input } from "@/components/ui/input"
 import { formatChatTitleWithTime } from "@/lib/chat-naming"
@@ -116,6 +122,12 @@ type CombinedSortOption =
   | 'alphabetical-relative'
   | 'alphabetical-absolute'
 
+const EXPORT_OPTIONS = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON (all branches)" },
+  { format: "zip", label: "ZIP with media" },
+]
+
 interface ChatListItemProps {
   chat: any
   currentChatId?: string | null
@@ -125,6 +137,7 @@ interface ChatListItemProps {
   onChatSelect: (chatId: string) => void
   onEditChat: (chatId: string, title: string) => void
   onDeleteChat: (chatId: string) => void
+  onShareChat: (chatId: string, title: string) => void
   onSaveEdit: () => void
   setEditingChatId: (id: string | null) => void
   setEditingTitle: (title: string) => void
@@ -141,6 +154,7 @@ const ChatListItem = memo(({
   onChatSelect,
   onEditChat,
   onDeleteChat,
+  onShareChat,
   onSaveEdit,
   setEditingChatId,
   setEditingTitle,
@@ -315,6 +329,39 @@ const ChatListItem = memo(({
                 >
                   <Edit3 className="h-3 w-3" />
                 </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onShareChat(chat.id, chat.title)
+                  }}
+                >
+                  <Share2 className="h-3 w-3" />
+                </Button>
+                <DropdownMenu modal={false}>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Download className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuLabel>Export chat</DropdownMenuLabel>
+                    {EXPORT_OPTIONS.map((option) => (
+                      <DropdownMenuItem key={option.format} asChild>
+                        <a href={`/api/chats/${chat.id}/export?format=${option.format}`} download>
+                          {option.label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   size="icon"
                   variant="ghost"
@@ -400,7 +447,12 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
   const [editingTitle, setEditingTitle] = useState("")
   const [sortAndDisplay, setSortAndDisplay] = useState<CombinedSortOption>('newest-relative')
   const [openDropdowns, setOpenDropdowns] = useState<Set<string>>(new Set())
+  const [sharingChat, setSharingChat] = useState<{ id: string; title: string } | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const pathname = usePathname()
+  const { user, signOut } = useAuth()
+  const userName = user?.name || user?.email?.split("@")[0] || "User"
   
   // Helper functions for dropdown state management
   const handleDropdownOpenChange = useCallback((dropdownId: string, isOpen: boolean) => {
@@ -552,6 +604,32 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
     }
   }
 
+  const handleShareChat = (chatId: string, title: string) => {
+    setSharingChat({ id: chatId, title })
+  }
+
+  const handleImportChats = async (file: File) => {
+    setIsImporting(true)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch("/api/chats/import", { method: "POST", body })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to import chats")
+
+      await refreshChats()
+      const count = data.chats.length
+      toast.success(`Imported ${count} ${count === 1 ? "chat" : "chats"}`, {
+        description: data.errors.length > 0 ? `${data.errors.length} problems: ${data.errors[0]}` : undefined,
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import chats")
+    } finally {
+      setIsImporting(false)
+      if (importInputRef.current) importInputRef.current.value = ""
+    }
+  }
+
   const handleSearch = async (query: string) => {
     setSearchQuery(query)
     if (query.trim()) {
@@ -756,8 +834,33 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
                                   </div>
                                 </DropdownMenuRadioItem>
                               </DropdownMenuRadioGroup>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem asChild className="flex items-center gap-2">
+                                <a href="/api/chats/export?format=zip" download>
+                                  <Download className="h-3 w-3" />
+                                  <span>Export all chats (ZIP)</span>
+                                </a>
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="flex items-center gap-2"
+                                disabled={isImporting}
+                                onSelect={() => importInputRef.current?.click()}
+                              >
+                                <Upload className="h-3 w-3" />
+                                <span>{isImporting ? "Importing…" : "Import chats…"}</span>
+                              </DropdownMenuItem>
                             </DropdownMenuContent>
                           </DropdownMenu>
+                          <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".json,.zip,application/json,application/zip"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              if (file) handleImportChats(file)
+                            }}
+                          />
                         </div>
                       </>
                     )}
@@ -806,6 +909,7 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
                             onChatSelect={onChatSelect || (() => {})}
                             onEditChat={handleEditChat}
                             onDeleteChat={handleDeleteChat}
+                            onShareChat={handleShareChat}
                             onSaveEdit={handleSaveEdit}
                             setEditingChatId={setEditingChatId}
                             setEditingTitle={setEditingTitle}
@@ -933,12 +1037,13 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
                         <DropdownMenuTrigger className="w-full">
                           <div className="flex h-8 w-full flex-row items-center gap-2 rounded-md px-2 py-1.5 transition hover:bg-muted hover:text-primary">
                             <Avatar className="size-4">
-                              <AvatarFallback>U</AvatarFallback>
+                              {user?.avatarUrl && <AvatarImage src={user.avatarUrl} alt={userName} />}
+                              <AvatarFallback>{userName[0].toUpperCase()}</AvatarFallback>
                             </Avatar>
                             <motion.li variants={variants} className="flex w-full items-center gap-2">
                               {!isCollapsed && (
                                 <>
-                                  <p className="text-sm font-medium">User</p>
+                                  <p className="line-clamp-1 text-sm font-medium">{userName}</p>
                                   <ChevronsUpDown className="ml-auto h-4 w-4 text-muted-foreground/50" />
                                 </>
                               )}
@@ -948,11 +1053,14 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
                         <DropdownMenuContent sideOffset={5}>
                           <div className="flex flex-row items-center gap-2 p-2">
                             <Avatar className="size-6">
-                              <AvatarFallback>U</AvatarFallback>
+                              {user?.avatarUrl && <AvatarImage src={user.avatarUrl} alt={userName} />}
+                              <AvatarFallback>{userName[0].toUpperCase()}</AvatarFallback>
                             </Avatar>
                             <div className="flex flex-col text-left">
-                              <span className="text-sm font-medium">User</span>
-                              <span className="line-clamp-1 text-xs text-muted-foreground">user@example.com</span>
+                              <span className="text-sm font-medium">{userName}</span>
+                              <span className="line-clamp-1 text-xs text-muted-foreground">
+                                {user?.email || "Not signed in"}
+                              </span>
                             </div>
                           </div>
                           <DropdownMenuSeparator />
@@ -961,9 +1069,11 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
                               <UserCircle className="h-4 w-4" /> Profile
                             </Link>
                           </DropdownMenuItem>
-                          <DropdownMenuItem className="flex items-center gap-2">
-                            <LogOut className="h-4 w-4" /> Sign out
-                          </DropdownMenuItem>
+                          {user && (
+                            <DropdownMenuItem className="flex items-center gap-2" onSelect={() => signOut()}>
+                              <LogOut className="h-4 w-4" /> Sign out
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -977,6 +1087,7 @@ export function AppSidebar({ currentChatId, onChatSelect, onNewChat, refreshKey
           </motion.ul>
         </motion.div>
       </motion.div>
+      <ShareChatDialog chat={sharingChat} onOpenChange={(open) => !open && setSharingChat(null)} />
     </TooltipProvider>
   )
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { usePathname } from "next/navigation"
+import { Loader2, Mail } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/hooks/use-auth"
+import type { OAuthProviderId } from "@/lib/auth/types"
+
+const OAUTH_BUTTONS: { id: OAuthProviderId; label: string }[] = [
+  { id: "github", label: "GitHub" },
+  { id: "google", label: "Google" },
+]
+
+const AUTH_ERRORS: Record<string, string> = {
+  invalid_link: "That sign-in link is invalid, expired or already used.",
+  verification_failed: "Sign-in failed. Please try again.",
+}
+
+// Shared chat links are public
+const PUBLIC_PATH_PREFIXES = ["/share/"]
+
+// Renders the app once signed in, or always when auth is disabled
+export function AuthGate({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname()
+  const { isEnabled, provider, user, isLoading, signInWithEmail, signInWithOAuth } = useAuth()
+  const [email, setEmail] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // /api/auth/verify redirects back with ?auth_error= when a link is invalid or used
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    const authError = url.searchParams.get("auth_error")
+    if (!authError) return
+
+    setError(AUTH_ERRORS[authError] || authError)
+    url.searchParams.delete("auth_error")
+    window.history.replaceState(null, "", url.toString())
+  }, [])
+
+  if (PUBLIC_PATH_PREFIXES.some((prefix) => pathname?.startsWith(prefix))) {
+    return <>{children}</>
+  }
+
+  // Hold the app back until the session is known so it doesn't load data it may not get
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!isEnabled || user) {
+    return <>{children}</>
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSending(true)
+    setError(null)
+    try {
+      await signInWithEmail(email.trim())
+      setSentTo(email.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send sign-in link")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Your chats, images and collections are kept in your account.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sentTo ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                {provider === "local"
+                  ? `The sign-in link for ${sentTo} is in the server log.`
+                  : `Check ${sentTo} for a sign-in link.`}
+              </p>
+              <Button variant="link" className="h-auto p-0" onClick={() => setSentTo(null)}>
+                Use a different email
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <Input
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoFocus
+              />
+              <Button type="submit" className="w-full" disabled={isSending || !email.trim()}>
+                {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                Email me a sign-in link
+              </Button>
+            </form>
+          )}
+
+          {/* OAuth needs Supabase Auth; the local provider only does email links */}
+          {provider === "supabase" && (
+            <div className="grid grid-cols-2 gap-2">
+              {OAUTH_BUTTONS.map(({ id, label }) => (
+                <Button key={id} variant="outline" onClick={() => signInWithOAuth(id)}>
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
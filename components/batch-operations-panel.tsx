@@ -25,6 +25,8 @@ import {
 } from 'lucide-react'
 import { GeneratedImage } from '@/lib/image-generation-types'
 import { useToast } from '@/hooks/use-toast'
+import { useCollections } from '@/hooks/use-collections'
+import type { CollectionItemRef } from '@/lib/services/collections'
 
 interface BatchOperationsPanelProps {
   images: GeneratedImage[]
@@ -97,6 +99,15 @@ const batchOperations: BatchOperation[] = [
     requiresInput: true,
     inputType: 'text',
     inputPlaceholder: 'Collection name'
+  },
+  {
+    id: 'add-to-collection',
+    name: 'Add to Collection',
+    description: 'Add selected images to an existing collection',
+    icon: <FolderPlus className="h-4 w-4" />,
+    requiresInput: true,
+    inputType: 'select',
+    inputPlaceholder: 'Collection'
   }
 ]
 
@@ -111,6 +122,13 @@ export function BatchOperationsPanel({
   const [operationInput, setOperationInput] = useState<string>('')
   const [isExecuting, setIsExecuting] = useState(false)
   const [progress, setProgress] = useState<OperationProgress | null>(null)
+  const { collections, isAvailable: collectionsAvailable, createCollection, addToCollection } = useCollections()
+
+  const availableOperations = batchOperations.filter(op => {
+    if (op.id === 'create-collection') return collectionsAvailable
+    if (op.id === 'add-to-collection') return collectionsAvailable && collections.length > 0
+    return true
+  })
 
   const selectedImages = images.filter(img => selectedImageIds.has(img.id))
 
@@ -197,6 +215,9 @@ export function BatchOperationsPanel({
         case 'create-collection':
           await handleCreateCollection()
           break
+        case 'add-to-collection':
+          await handleAddToCollection()
+          break
       }
 
       toast({
@@ -346,25 +367,43 @@ export function BatchOperationsPanel({
     setProgress({ total: 1, completed: 1, failed: 0, errors: [] })
   }
 
+  const selectedItemRefs = (): CollectionItemRef[] =>
+    Array.from(selectedImageIds).map(id => ({ type: 'image', id }))
+
+  // Images that haven't reached the database yet can't be collected
+  const reportUnresolved = (unresolved: CollectionItemRef[]) => {
+    const total = selectedImageIds.size
+    setProgress({
+      total,
+      completed: total - unresolved.length,
+      failed: unresolved.length,
+      errors: unresolved.map(ref => `Image ${ref.id} is not saved yet`)
+    })
+  }
+
   const handleCreateCollection = async () => {
     try {
-      const response = await fetch('/api/collections', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: operationInput,
-          imageIds: Array.from(selectedImageIds)
-        })
-      })
-      
-      if (!response.ok) throw new Error('Collection creation failed')
-      
-      setProgress({ total: 1, completed: 1, failed: 0, errors: [] })
+      const { unresolved } = await createCollection(operationInput.trim(), selectedItemRefs())
+      reportUnresolved(unresolved)
     } catch (error) {
       setProgress({ total: 1, completed: 0, failed: 1, errors: ['Failed to create collection'] })
     }
   }
 
+  const handleAddToCollection = async () => {
+    try {
+      const { unresolved } = await addToCollection(operationInput, selectedItemRefs())
+      reportUnresolved(unresolved)
+    } catch (error) {
+      setProgress({ total: 1, completed: 0, failed: 1, errors: ['Failed to add to collection'] })
+    }
+  }
+
+  const inputOptions = (operationId: string) =>
+    operationId === 'add-to-collection'
+      ? collections.map(collection => ({ value: collection.id, label: collection.name }))
+      : (batchOperations.find(op => op.id === operationId)?.inputOptions || []).map(option => ({ value: option, label: option }))
+
   if (selectedImageIds.size === 0) {
     return (
       <Card className="bg-gray-900/50 border-gray-700">
@@ -442,7 +481,7 @@ export function BatchOperationsPanel({
               <SelectValue placeholder="Choose an operation" />
             </SelectTrigger>
             <SelectContent className="bg-gray-800 border-gray-600">
-              {batchOperations.map(operation => (
+              {availableOperations.map(operation => (
                 <SelectItem key={operation.id} value={operation.id} className="text-white hover:bg-gray-700">
                   <div className="flex items-center gap-2">
                     {operation.icon}
@@ -467,9 +506,9 @@ export function BatchOperationsPanel({
                   <SelectValue placeholder="Select option" />
                 </SelectTrigger>
                 <SelectContent className="bg-gray-800 border-gray-600">
-                  {batchOperations.find(op => op.id === selectedOperation)?.inputOptions?.map(option => (
-                    <SelectItem key={option} value={option} className="text-white hover:bg-gray-700">
-                      {option}
+                  {inputOptions(selectedOperation).map(option => (
+                    <SelectItem key={option.value} value={option.value} className="text-white hover:bg-gray-700">
+                      {option.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
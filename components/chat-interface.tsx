@@ -28,6 +28,7 @@ import { InlineImageOptions } from "./inline-image-options"
 import { InlineVideoOptions } from "./inline-video-options"
 import { ImageActionDialog } from "./image-action-dialog"
 import { MultiImageEditModal } from "./multi-image-edit-modal"
+import type { MessageBranchInfo } from "@/lib/database/supabase"
 import { FilePreviewModal } from "./file-preview-modal"
 import { getImageAspectRatio } from "@/lib/image-utils"
 import { parseGeminiTranscription, hasTranscription, removeTranscriptionFromResponse } from "@/lib/gemini-transcription-parser"
@@ -35,10 +36,13 @@ import { useImageSettings, useVideoSettings } from "@/lib/contexts/settings-cont
 import { createAnalysisPrompt } from "@/lib/reverse-engineering-utils"
 import { useDeepResearch } from "@/hooks/use-deep-research"
 import { useResearchIntent } from "@/hooks/use-research-intent"
-import { useDeepResearchStore } from "@/lib/stores/deep-research-store"
+import { sessionFromRecord, useDeepResearchStore } from "@/lib/stores/deep-research-store"
 import { DeepResearchPanel } from "./deep-research-panel"
 import { VideoGenerationModal, type VideoGenerationOptions } from "./video-generation-modal"
 import { WebSearchIndicator } from "./web-search-indicator"
+import type { MCPContextAttachment } from "@/lib/mcp/mcp-chat-context"
+import { findLatestEvent, type ImageGeneratedData } from "@/lib/chat-stream-events"
+import { getMessageEvents } from "@/lib/message-metadata"
 
 interface FileUpload {
   file: File
@@ -48,6 +52,7 @@ interface FileUpload {
     mimeType: string
     name: string
   }
+  storedUrl?: string // Durable copy in the configured storage backend
   transcription?: {
     text: string
     language?: string
@@ -87,6 +92,9 @@ interface ChatInterfaceProps {
   selectedModel?: string
   initialMessages?: any[]
   initialMessageAttachments?: Record<string, any[]>
+  // Sibling branches of a message, for "< 2/3 >" navigation
+  getMessageBranch?: (messageId: string) => MessageBranchInfo | undefined
+  onSwitchBranch?: (messageId: string) => void
   chatId?: string | null
   onResetChat?: () => void
   onImageEditingModelChange?: (model: string) => void
@@ -110,6 +118,8 @@ export default function ChatInterface({
   selectedModel: initialSelectedModel,
   initialMessages,
   initialMessageAttachments,
+  getMessageBranch,
+  onSwitchBranch,
   chatId,
   onResetChat,
   onImageEditingModelChange,
@@ -718,7 +728,10 @@ export default function ChatInterface({
   // Deep Research mode state (moved above useChatWithTools to avoid declaration order issues)
   const [isDeepResearchMode, setIsDeepResearchMode] = useState(false)
 
-  const { messages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, error, stop, mcpToolExecuting, append } = useChatWithTools({
+  // MCP resources and prompts attached via @-mentions for the next message
+  const [mcpAttachments, setMcpAttachments] = useState<MCPContextAttachment[]>([])
+
+  const { messages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, error, stop, mcpToolExecuting, append, setMessages, reload } = useChatWithTools({
     api: "/api/chat",
     body: {
       model: selectedModel,
@@ -736,6 +749,7 @@ export default function ChatInterface({
       transcription: selectedFile?.transcription, // Include transcription data
       chatId: chatId, // Include chat ID for persistence
       isDeepResearchMode: isDeepResearchMode, // Include deep research mode
+      mcpContext: mcpAttachments.length > 0 ? mcpAttachments : undefined, // @-mentioned MCP resources and prompts
       // Include ALL files (both single and multiple) in multipleFiles array
       multipleFiles: (() => {
         const allFiles = []
@@ -764,12 +778,44 @@ export default function ChatInterface({
     },
   })
 
+  // @-mentioned context applies to a single message
+  useEffect(() => {
+    if (isLoading) {
+      setMcpAttachments([])
+    }
+  }, [isLoading])
+
   // Deep Research hooks
   const deepResearch = useDeepResearch()
   const { detectIntent, shouldAutoTrigger } = useResearchIntent()
-  const { createSession, getActiveSession } = useDeepResearchStore()
+  const { createSession, getActiveSession, loadSession, corpusScope } = useDeepResearchStore()
   const [showDeepResearchPanel, setShowDeepResearchPanel] = useState(false)
 
+  // Save a research session for the question; the panel follows it while the
+  // server runs it, and it stays in the research history afterwards
+  const startResearchSession = useCallback(async (query: string) => {
+    try {
+      const response = await fetch('/api/research', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, chatId, options: { depth: 'deep', corpus: corpusScope || undefined } }),
+      })
+      const data = await response.json()
+      // No database or no Perplexity key: the chat reply is the only result,
+      // unless the research is over documents only and there is no chat reply
+      if (response.status === 503 && corpusScope?.mode !== 'corpus') return
+      if (!response.ok) throw new Error(data.error || 'Failed to start research')
+
+      loadSession(sessionFromRecord({ ...data.session, findings: [], sources: [] }))
+      setShowDeepResearchPanel(true)
+    } catch (error) {
+      console.error('[DEEP RESEARCH] Failed to start research session:', error)
+      toast.error('Could not save this research', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    }
+  }, [chatId, loadSession, corpusScope])
+
   // Track processed messages to prevent infinite loops
   const processedDeepResearchMessagesRef = useRef<Set<string>>(new Set())
 
@@ -821,28 +867,12 @@ export default function ChatInterface({
   useEffect(() => {
     if (messages && messages.length > 0 && isLoading) {
       const lastMessage = messages[messages.length - 1]
-      if (lastMessage?.role === 'assistant' && lastMessage.content) {
-        // Check if the content includes the new search started indicator
-        const searchStartedMatch = lastMessage.content.match(/\[WEB_SEARCH_STARTED\](.*?)\[\/WEB_SEARCH_STARTED\]/)
-        if (searchStartedMatch) {
-          try {
-            const searchData = JSON.parse(searchStartedMatch[1])
-            setIsSearchingWeb(true)
-            setWebSearchQuery(searchData.query || '')
-          } catch (error) {
-            console.error('Failed to parse web search data:', error)
-            setIsSearchingWeb(true)
-            setWebSearchQuery('')
-          }
-        }
-
-        // Check for the old format for backward compatibility
-        if (lastMessage.content.includes('[SEARCHING_WEB]')) {
+      if (lastMessage?.role === 'assistant') {
+        const searchEvent = findLatestEvent(getMessageEvents(lastMessage), 'search_results')
+        if (searchEvent?.data.status === 'searching') {
           setIsSearchingWeb(true)
-        }
-
-        // Check if search is completed
-        if (lastMessage.content.includes('[WEB_SEARCH_COMPLETED]')) {
+          setWebSearchQuery(searchEvent.data.query || '')
+        } else if (searchEvent) {
           setIsSearchingWeb(false)
           setWebSearchQuery('')
         }
@@ -1061,10 +1091,11 @@ export default function ChatInterface({
 
     // Only check assistant messages for script detection
     if (lastMessage?.role === 'assistant' && lastMessage.content) {
-      // Skip if this message contains data injection markers
-      if (lastMessage.content.includes('[VIDEO_GENERATION_STARTED]') ||
-          lastMessage.content.includes('[IMAGE_EDITING_COMPLETED]') ||
-          lastMessage.content.includes('[IMAGE_GENERATION_COMPLETED]')) {
+      // Skip media generation responses
+      const hasMediaEvent = getMessageEvents(lastMessage).some(event =>
+        event.type === 'video_started' || event.type === 'image_generated'
+      )
+      if (hasMediaEvent || lastMessage.content.includes('[IMAGE_EDITING_COMPLETED]')) {
         return
       }
 
@@ -1218,13 +1249,13 @@ export default function ChatInterface({
     const lastMessage = messages[messages.length - 1]
 
     // Only check assistant messages
-    if (lastMessage?.role === 'assistant' && lastMessage.content) {
-      // Check if this message contains image generation data
-      const imageGenerationMatch = lastMessage.content.match(/\[IMAGE_GENERATION_COMPLETED\]([\s\S]*?)\[\/IMAGE_GENERATION_COMPLETED\]/)
+    if (lastMessage?.role === 'assistant') {
+      // Check if this message carries an image generation event
+      const imageEvent = findLatestEvent(getMessageEvents(lastMessage), 'image_generated')
 
-      if (imageGenerationMatch) {
+      if (imageEvent) {
         // Create a unique key for this image generation to prevent duplicates
-        const imageGenerationKey = `${lastMessage.id}-${imageGenerationMatch[0].substring(0, 100)}`
+        const imageGenerationKey = `${lastMessage.id}-${imageEvent.data.prompt}`
 
         // Check if we've already processed this specific image generation
         if (processedImageGenerationRef.current.has(imageGenerationKey)) {
@@ -1235,8 +1266,8 @@ export default function ChatInterface({
         console.log('[Image Generation Parser] Detected image generation data in assistant message')
 
         try {
-          const imageData = JSON.parse(imageGenerationMatch[1])
-          console.log('[Image Generation Parser] Parsed image data:', imageData)
+          const imageData = imageEvent.data
+          console.log('[Image Generation Parser] Image data:', imageData)
 
           if (imageData.success && imageData.images && imageData.images.length > 0) {
             // Mark this generation as processed before creating images
@@ -1246,13 +1277,13 @@ export default function ChatInterface({
             const newImages: GeneratedImage[] = imageData.images.map((img: any) => ({
               id: generateImageId(),
               url: img.url,
-              prompt: imageData.metadata.originalPrompt || imageData.prompt,
+              prompt: imageData.metadata?.originalPrompt || imageData.prompt,
               revisedPrompt: img.revisedPrompt,
               timestamp: new Date(),
-              quality: imageData.metadata.quality as 'standard' | 'hd',
-              style: imageData.metadata.style as 'vivid' | 'natural',
-              size: imageData.metadata.size,
-              model: imageData.metadata.model,
+              quality: imageData.metadata?.quality as 'standard' | 'hd',
+              style: imageData.metadata?.style as 'vivid' | 'natural',
+              size: imageData.metadata?.size,
+              model: imageData.metadata?.model,
               isGenerating: false,
             }))
 
@@ -1260,7 +1291,7 @@ export default function ChatInterface({
 
             // Find and replace any placeholders for this prompt
             let updatedImages = [...generatedImages]
-            const originalPrompt = imageData.metadata.originalPrompt || imageData.prompt
+            const originalPrompt = imageData.metadata?.originalPrompt || imageData.prompt
             const cleanedPrompt = imageData.prompt
 
             console.log('[Image Generation Parser] Looking for placeholder with prompts:', {
@@ -1315,7 +1346,7 @@ export default function ChatInterface({
             onGeneratedImagesChange?.(filteredImages)
           }
         } catch (error) {
-          console.error('[Image Generation Parser] Failed to parse image data:', error)
+          console.error('[Image Generation Parser] Failed to process image data:', error)
         }
       }
     }
@@ -1522,6 +1553,7 @@ export default function ChatInterface({
       // The API returns 'file' not 'geminiFile'
       if (result.file) {
         fileUpload.geminiFile = result.file
+        fileUpload.storedUrl = result.file.url
       }
 
       if (result.transcription) {
@@ -1836,7 +1868,7 @@ export default function ChatInterface({
             attachmentsFromFiles.push({
               name: selectedFile.file.name,
               contentType: selectedFile.file.type,
-              url: selectedFile.preview || '',
+              url: selectedFile.storedUrl || selectedFile.preview || '',
               transcription: selectedFile.transcription,
               videoThumbnail: selectedFile.videoThumbnail,
               videoDuration: selectedFile.videoDuration
@@ -1848,7 +1880,7 @@ export default function ChatInterface({
             attachmentsFromFiles.push({
               name: file.file.name,
               contentType: file.file.type,
-              url: file.preview || '',
+              url: file.storedUrl || file.preview || '',
               transcription: file.transcription,
               videoThumbnail: file.videoThumbnail,
               videoDuration: file.videoDuration
@@ -2185,6 +2217,7 @@ export default function ChatInterface({
         file,
         preview,
         geminiFile: data.file,
+        storedUrl: data.file?.url,
         transcription,
         videoThumbnail,
         videoDuration,
@@ -3330,14 +3363,14 @@ Please provide actionable insights that would help someone recreate a similar vi
       pendingAttachmentRef.current = {
         name: primaryFile.file.name,
         contentType: primaryFile.file.type,
-        url: primaryFile.preview || '',
+        url: primaryFile.storedUrl || primaryFile.preview || '',
         transcription: primaryFile.transcription,
         videoThumbnail: primaryFile.videoThumbnail,
         videoDuration: primaryFile.videoDuration,
         additionalFiles: allFiles.slice(1).map(file => ({
           name: file.file.name,
           contentType: file.file.type,
-          url: file.preview || '',
+          url: file.storedUrl || file.preview || '',
           transcription: file.transcription,
           videoThumbnail: file.videoThumbnail,
           videoDuration: file.videoDuration,
@@ -3364,7 +3397,7 @@ Please provide actionable insights that would help someone recreate a similar vi
           {
             name: primaryFile.file.name,
             contentType: primaryFile.file.type,
-            url: primaryFile.preview || '',
+            url: primaryFile.storedUrl || primaryFile.preview || '',
             transcription: primaryFile.transcription,
             videoThumbnail: primaryFile.videoThumbnail,
             videoDuration: primaryFile.videoDuration
@@ -3372,7 +3405,7 @@ Please provide actionable insights that would help someone recreate a similar vi
           ...allFiles.slice(1).map(file => ({
             name: file.file.name,
             contentType: file.file.type,
-            url: file.preview || '',
+            url: file.storedUrl || file.preview || '',
             transcription: file.transcription,
             videoThumbnail: file.videoThumbnail,
             videoDuration: file.videoDuration,
@@ -3415,6 +3448,16 @@ Please provide actionable insights that would help someone recreate a similar vi
     // Prepend "deep research on" if in deep research mode
     const trimmedInput = input.trim()
     if (isDeepResearchMode && trimmedInput) {
+      startResearchSession(trimmedInput)
+
+      // Research over documents only stays out of the chat, which would send
+      // the question to web search
+      if (corpusScope?.mode === 'corpus') {
+        handleInputChange({ target: { value: '' } } as React.ChangeEvent<HTMLInputElement>)
+        setIsDeepResearchMode(false)
+        return
+      }
+
       console.log('[SUBMIT] Deep research mode active, prepending trigger')
       handleInputChange({ target: { value: `deep research on ${trimmedInput}` } } as React.ChangeEvent<HTMLInputElement>)
 
@@ -3447,7 +3490,7 @@ Please provide actionable insights that would help someone recreate a similar vi
 
     // Don't clear files immediately - let the useEffect handle it after message is processed
     // The files will be cleared when pendingAttachmentRef.current is processed and cleared
-  }, [input, selectedFile, selectedFiles, originalHandleSubmit, handleInputChange, chatId, messages, messageAttachments, onMessagesChange, isDeepResearchMode, setIsDeepResearchMode])
+  }, [input, selectedFile, selectedFiles, originalHandleSubmit, handleInputChange, chatId, messages, messageAttachments, onMessagesChange, isDeepResearchMode, setIsDeepResearchMode, startResearchSession, corpusScope])
 
   // Store handleSubmit in ref to avoid temporal dead zone issues
   handleSubmitRef.current = handleSubmit
@@ -3517,6 +3560,45 @@ Please provide actionable insights that would help someone recreate a similar vi
     }
   }, [selectedFile, selectedFiles, showVideoOptions, isUploading, uploadStatus])
 
+  // Edit a past user message: the edited turn becomes a sibling branch of the original
+  const handleEditMessage = useCallback(async (messageId: string, content: string) => {
+    const index = messages.findIndex(m => m.id === messageId)
+    if (index === -1 || isLoading) return
+
+    setMessages(messages.slice(0, index))
+    await append({
+      role: 'user',
+      content
+    }, {
+      body: {
+        model: selectedModel,
+        imageGenerationModel: currentImageSettings.model,
+        imageEditingModel: imageEditingModel,
+        chatId: chatId,
+        // Attachments stay with the original turn
+        fileUri: undefined,
+        fileMimeType: undefined,
+        multipleFiles: undefined
+      }
+    })
+  }, [messages, isLoading, setMessages, append, selectedModel, currentImageSettings.model, imageEditingModel, chatId])
+
+  // Regenerate an assistant reply as a sibling branch of the original
+  const handleRegenerateMessage = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId)
+    if (index === -1 || isLoading) return
+
+    setMessages(messages.slice(0, index))
+    await reload({
+      body: {
+        model: selectedModel,
+        imageGenerationModel: currentImageSettings.model,
+        imageEditingModel: imageEditingModel,
+        chatId: chatId
+      }
+    })
+  }, [messages, isLoading, setMessages, reload, selectedModel, currentImageSettings.model, imageEditingModel, chatId])
+
   // Handle follow-up question clicks
   const handleFollowUpClick = useCallback(async (question: string) => {
     // Clear any files to ensure clean search
@@ -4083,27 +4165,15 @@ Please provide actionable insights that would help someone recreate a similar vi
   // Get video progress store functions
   const { addVideo, completeVideo, failVideo } = useVideoProgressStore()
 
-  // Check messages for video generation markers
+  // Check messages for video generation events
   useEffect(() => {
     const lastMessage = messages[messages.length - 1]
-    console.log('[VIDEO DEBUG] Checking last message:', {
-      hasMessage: !!lastMessage,
-      role: lastMessage?.role,
-      contentLength: lastMessage?.content?.length,
-      containsMarker: lastMessage?.content?.includes('[VIDEO_GENERATION_STARTED]')
-    })
-    if (lastMessage?.role === 'assistant' && lastMessage.content) {
-      // Debug: Log message content to check for video markers
-      if (lastMessage.content.includes('VIDEO_GENERATION')) {
-        console.log('[Chat Interface] Message contains VIDEO_GENERATION. Content preview:', lastMessage.content.substring(0, 500))
-      }
-
-      // Check for VIDEO_GENERATION_STARTED pattern
-      const videoMatch = lastMessage.content.match(/\[VIDEO_GENERATION_STARTED\]([\s\S]*?)\[\/VIDEO_GENERATION_STARTED\]/)
-      if (videoMatch) {
+    if (lastMessage?.role === 'assistant') {
+      const videoEvent = findLatestEvent(getMessageEvents(lastMessage), 'video_started')
+      if (videoEvent) {
         try {
-          const videoData = JSON.parse(videoMatch[1])
-          console.log('[Chat Interface] Successfully parsed video generation data:', videoData)
+          const videoData = videoEvent.data
+          console.log('[Chat Interface] Video generation event:', videoData)
 
           // Create a new video entry
           const newVideo: GeneratedVideo = {
@@ -4191,7 +4261,7 @@ Please provide actionable insights that would help someone recreate a similar vi
             setTimeout(pollStatus, 5000)
           }
         } catch (e) {
-          console.error('Failed to parse video generation data:', e)
+          console.error('Failed to process video generation event:', e)
         }
       }
     }
@@ -4244,59 +4314,16 @@ Please provide actionable insights that would help someone recreate a similar vi
     }
   }, [messages, onGeneratedImagesChange, onImageGenerationStart])
 
-  // Check messages for image generation markers (both IMAGE_GENERATION_COMPLETED and IMAGE_EDITING_COMPLETED)
+  // Check messages for image generation events and IMAGE_EDITING_COMPLETED markers
   useEffect(() => {
     const lastMessage = messages[messages.length - 1]
-    console.log('[Chat Interface] Checking last message for image markers:', {
-      hasLastMessage: !!lastMessage,
-      role: lastMessage?.role,
-      contentLength: lastMessage?.content?.length,
-      contentPreview: lastMessage?.content?.substring(0, 100),
-      hasImageMarker: lastMessage?.content?.includes('IMAGE_GENERATION_COMPLETED')
-    })
-    if (lastMessage?.role === 'assistant' && lastMessage.content) {
-      // Check for IMAGE_GENERATION_COMPLETED pattern (for standard image generation)
-      // Handle both single-block and chunked transmission
-      let imageGenMatch = lastMessage.content.match(/\[IMAGE_GENERATION_COMPLETED\]([\s\S]*?)\[\/IMAGE_GENERATION_COMPLETED\]/)
-
-      // If no complete match found, check if we have chunked data
-      if (!imageGenMatch && lastMessage.content.includes('[IMAGE_GENERATION_COMPLETED]')) {
-        console.log('[Chat Interface] Found incomplete IMAGE_GENERATION_COMPLETED marker, attempting to reconstruct from chunks')
-
-        // Try to reconstruct the JSON from chunked data
-        const startMarker = '[IMAGE_GENERATION_COMPLETED]'
-        const endMarker = '[/IMAGE_GENERATION_COMPLETED]'
-
-        const startIndex = lastMessage.content.indexOf(startMarker)
-        const endIndex = lastMessage.content.indexOf(endMarker)
-
-        if (startIndex !== -1) {
-          if (endIndex !== -1) {
-            // We have both markers, extract the content
-            const jsonContent = lastMessage.content.substring(startIndex + startMarker.length, endIndex)
-            imageGenMatch = [lastMessage.content, jsonContent]
-          } else {
-            // We only have the start marker, the data might be incomplete
-            console.log('[Chat Interface] Incomplete image data - missing end marker')
-            return // Wait for more data
-          }
-        }
-      }
+    if (lastMessage?.role === 'assistant') {
+      const imageEvent = findLatestEvent(getMessageEvents(lastMessage), 'image_generated')
 
-      if (imageGenMatch) {
-        console.log('[Chat Interface] Found IMAGE_GENERATION_COMPLETED marker, raw content length:', imageGenMatch[1]?.length)
+      if (imageEvent) {
         try {
-          // Clean up the JSON content before parsing - remove leading/trailing whitespace and newlines
-          let rawJsonContent = imageGenMatch[1]
-          if (rawJsonContent) {
-            rawJsonContent = rawJsonContent.trim()
-            // Remove any leading newlines or whitespace
-            rawJsonContent = rawJsonContent.replace(/^\s*\n+/, '')
-          }
-          console.log('[Chat Interface] Cleaned JSON content preview:', rawJsonContent.substring(0, 200) + '...')
-
-          const imageData = JSON.parse(rawJsonContent)
-          console.log('[Chat Interface] Successfully parsed IMAGE_GENERATION_COMPLETED data:', imageData)
+          const imageData: ImageGeneratedData & { imageCount?: number } = imageEvent.data
+          console.log('[Chat Interface] Image generation event:', imageData)
 
           if (imageData.success && imageData.images && imageData.images.length > 0) {
             // Image processing is now handled through the new notification system
@@ -4404,7 +4431,7 @@ Please provide actionable insights that would help someone recreate a similar vi
             } else {
               // Old format: process images directly (fallback)
               console.log('[Chat Interface] Processing images in old format')
-              const newImages = imageData.images.map((img: any) => ({
+              const newImages: GeneratedImage[] = imageData.images.map((img: any) => ({
                 id: generateImageId(),
                 prompt: imageData.prompt || img.revisedPrompt || 'Generated image',
                 url: img.originalUrl || img.url,
@@ -4466,8 +4493,7 @@ Please provide actionable insights that would help someone recreate a similar vi
             console.log('[Chat Interface] Image processing completed')
           }
         } catch (e) {
-          console.error('[Chat Interface] Failed to parse image generation data:', e)
-          console.error('[Chat Interface] Raw marker content that failed to parse:', imageGenMatch[1])
+          console.error('[Chat Interface] Failed to process image generation data:', e)
 
           // Show user-friendly error
           toast.error("Image generation completed but failed to display", {
@@ -4793,6 +4819,7 @@ Please provide actionable insights that would help someone recreate a similar vi
                 createdAt: message.createdAt,
                 experimental_attachments: attachments,
                 toolCalls: message.toolCalls,
+                annotations: message.annotations,
               }}
               mcpToolExecuting={mcpToolExecuting}
               onAnimateImage={onAnimateImage}
@@ -4803,9 +4830,14 @@ Please provide actionable insights that would help someone recreate a similar vi
               onFollowUpClick={handleFollowUpClick}
               onReverseEngineeringAction={handleReverseEngineeringAction}
               onGenerateVideo={handleReverseEngineeringVideoGeneration}
+              branch={getMessageBranch?.(message.id)}
+              onSwitchBranch={onSwitchBranch}
+              onEditMessage={chatId ? handleEditMessage : undefined}
+              onRegenerate={chatId ? handleRegenerateMessage : undefined}
+              isLoading={isLoading}
             />
           );
-        }), [messages, messageAttachments, firstMessageAttachments, mcpToolExecuting, onAnimateImage, handleEditImageFromModal, handleChatImageOptionSelect, handleChatVideoOptionSelect, handleMultiImageOptionSelect, handleFollowUpClick, handleReverseEngineeringAction, handleReverseEngineeringVideoGeneration])}
+        }), [messages, messageAttachments, firstMessageAttachments, mcpToolExecuting, onAnimateImage, handleEditImageFromModal, handleChatImageOptionSelect, handleChatVideoOptionSelect, handleMultiImageOptionSelect, handleFollowUpClick, handleReverseEngineeringAction, handleReverseEngineeringVideoGeneration, getMessageBranch, onSwitchBranch, handleEditMessage, handleRegenerateMessage, isLoading])}
           {/* Render local messages (for image generation feedback) - REMOVED */}
           {/* localMessages.map((message) => (
             <ChatMessage
@@ -4865,6 +4897,7 @@ Please provide actionable insights that would help someone recreate a similar vi
       {/* Deep Research Panel */}
       {showDeepResearchPanel && (
         <DeepResearchPanel
+          chatId={chatId || undefined}
           onClose={() => {
             setShowDeepResearchPanel(false)
             // Also deactivate deep research mode if it's still active
@@ -4942,6 +4975,8 @@ Please provide actionable insights that would help someone recreate a similar vi
             onEnhancePrompt={handleEnhancePrompt}
             onDeepResearch={handleDeepResearch}
             isDeepResearchMode={isDeepResearchMode}
+            mcpAttachments={mcpAttachments}
+            onMCPAttachmentsChange={setMcpAttachments}
             placeholder={isDeepResearchMode ? "Ask your research question... (Deep Research Mode Active)" : undefined}
           />
         </div>
@@ -4973,6 +5008,7 @@ Please provide actionable insights that would help someone recreate a similar vi
         onVideoTierChange={(tier) => updateVideoSettings({ tier })}
         autoDetectAspectRatio={autoDetectAspectRatio}
         onAutoDetectAspectRatioChange={(autoDetectAspectRatio) => updateVideoSettings({ autoDetectAspectRatio })}
+        chatId={chatId}
       />
 
       <SecureApiKeyInput
@@ -10,6 +10,7 @@ import { MCPToolAnimation } from "./mcp-tool-animation"
 import { MCPToolResult } from "./mcp-tool-result"
 import { AnimatePresence } from "framer-motion"
 import AgentPlan, { Task } from "@/components/ui/agent-plan"
+import { WorkflowPlanReview } from "@/components/workflow-plan-review"
 import { VideoGenerationProgress } from "./video-generation-progress"
 import { ImageOptionsCard } from "./image-options-card"
 import { VideoOptionsCard } from "./video-options-card"
@@ -20,6 +21,11 @@ import { extractReverseEngineeringPrompts, hasReverseEngineeringContent, extract
 import { CopyablePrompt } from "@/components/ui/copyable-prompt"
 import { DeepResearchProgress } from "./deep-research-progress"
 import { ImageUpscaleModal } from "./image-upscale-modal"
+import { findLatestEvent } from "@/lib/chat-stream-events"
+import { cleanMessageContent, getMessageEvents } from "@/lib/message-metadata"
+import type { Message } from "ai"
+import type { MessageBranchInfo } from "@/lib/database/supabase"
+import { MessageBranchControls, MessageEditForm } from "./message-branch-controls"
 
 interface MessageAttachment {
   name: string
@@ -69,6 +75,8 @@ interface ChatMessageProps {
     createdAt?: Date
     experimental_attachments?: MessageAttachment[]
     toolCalls?: MCPToolCall[]
+    // Typed stream events (see lib/chat-stream-events.ts)
+    annotations?: Message['annotations']
     agentPlan?: {
       tasks: Task[]
       onTaskUpdate?: (taskId: string, status: string) => void
@@ -89,6 +97,12 @@ interface ChatMessageProps {
   onFollowUpClick?: (question: string) => void
   onReverseEngineeringAction?: (action: 'generate-image' | 'animate-image' | 'edit-image' | 'generate-variations', prompt: string, imageUri?: string) => void
   onGenerateVideo?: (prompt: string) => void
+  // Conversation branching
+  branch?: MessageBranchInfo
+  onSwitchBranch?: (messageId: string) => void
+  onEditMessage?: (messageId: string, content: string) => void
+  onRegenerate?: (messageId: string) => void
+  isLoading?: boolean
 }
 
 // Function to detect and extract agent plan from content
@@ -352,9 +366,15 @@ function ChatMessage({
   onMultiImageOptionSelect,
   onFollowUpClick,
   onReverseEngineeringAction,
-  onGenerateVideo
+  onGenerateVideo,
+  branch,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+  isLoading
 }: ChatMessageProps) {
   const isUser = message.role === "user"
+  const [isEditing, setIsEditing] = useState(false)
   const attachments = message.experimental_attachments
   const [selectedFile, setSelectedFile] = useState<MessageAttachment | null>(null)
   const [focusedImage, setFocusedImage] = useState<MessageAttachment | null>(null)
@@ -392,20 +412,17 @@ function ChatMessage({
     return undefined
   }
 
-  // Extract video generation data from message
-  const videoData = useMemo(() => {
-    if (!isUser && message.content) {
-      const videoMatch = message.content.match(/\[VIDEO_GENERATION_STARTED\]([\s\S]*?)\[\/VIDEO_GENERATION_STARTED\]/)
-      if (videoMatch) {
-        try {
-          return JSON.parse(videoMatch[1])
-        } catch (e) {
-          console.error('Failed to parse video generation data:', e)
-        }
-      }
-    }
-    return null
-  }, [message, isUser])
+  // Typed stream events (generated media, search results) for this message
+  const streamEvents = useMemo(
+    () => (isUser ? [] : getMessageEvents(message)),
+    [message, isUser]
+  )
+
+  // Video generation started from this message
+  const videoData = useMemo(
+    () => findLatestEvent(streamEvents, 'video_started')?.data ?? null,
+    [streamEvents]
+  )
 
   // Extract image options from message
   const imageOptions = useMemo(() => {
@@ -445,61 +462,22 @@ function ChatMessage({
     return null
   }, [message, isUser])
 
-  // Extract search metadata from message
+  // Search results sent with this message
   const searchMetadata = useMemo(() => {
-    if (!isUser && message.content) {
-      // First try the new WEB_SEARCH_COMPLETED format
-      const webSearchMatch = message.content.match(/\[WEB_SEARCH_COMPLETED\]([\s\S]*?)\[\/WEB_SEARCH_COMPLETED\]/)
-      if (webSearchMatch) {
-        try {
-          let jsonContent = webSearchMatch[1]
-
-          // Handle potential double-escaping from SSE stream
-          // Check if the content contains escaped quotes (after trimming whitespace)
-          const trimmedContent = jsonContent.trim()
-          if (trimmedContent.includes('\\"')) {
-            console.log('[ChatMessage] Detected double-escaped JSON, unescaping...')
-            jsonContent = jsonContent
-              .replace(/\\"/g, '"')     // Unescape quotes
-              .replace(/\\n/g, '\n')    // Unescape newlines
-              .replace(/\\t/g, '\t')    // Unescape tabs
-              .replace(/\\\\/g, '\\')   // Unescape backslashes (do this last)
-              .trim()  // Trim after unescaping to remove leading/trailing whitespace
-          } else {
-            // Clean up any leading/trailing whitespace
-            jsonContent = jsonContent.trim()
-          }
-
-          const parsed = JSON.parse(jsonContent)
-          console.log('[ChatMessage] Parsed WEB_SEARCH_COMPLETED metadata:', parsed)
-          // Transform the data to match expected format
-          return {
-            hasSearchResults: parsed.hasSearch && parsed.searchResults?.length > 0,
-            searchResults: parsed.searchResults || [],
-            images: parsed.images || [],
-            followUpQuestions: parsed.relatedQuestions || [],
-            citations: parsed.citations || [],
-            hasError: parsed.hasError,
-            error: parsed.error
-          }
-        } catch (e) {
-          console.error('Failed to parse WEB_SEARCH_COMPLETED metadata:', e)
-          console.error('Raw content:', webSearchMatch[1].substring(0, 200) + '...')
-        }
-      }
-
-      // Fallback to legacy SEARCH_METADATA format
-      const metadataMatch = message.content.match(/\[SEARCH_METADATA\]([\s\S]*?)\[\/SEARCH_METADATA\]/)
-      if (metadataMatch) {
-        try {
-          return JSON.parse(metadataMatch[1])
-        } catch (e) {
-          console.error('Failed to parse search metadata:', e)
-        }
-      }
+    const searchEvent = findLatestEvent(streamEvents, 'search_results')
+    if (!searchEvent || searchEvent.data.status === 'searching') return null
+
+    const search = searchEvent.data
+    return {
+      hasSearchResults: search.status === 'completed' && search.searchResults.length > 0,
+      searchResults: search.searchResults,
+      images: search.images,
+      followUpQuestions: search.relatedQuestions,
+      citations: search.citations,
+      hasError: search.status === 'failed',
+      error: search.error
     }
-    return null
-  }, [message, isUser])
+  }, [streamEvents])
 
   // Extract deep research metadata from message
   const deepResearchMetadata = useMemo(() => {
@@ -524,6 +502,12 @@ function ChatMessage({
     return false
   }, [message, isUser])
 
+  // Workflow started from this message
+  const workflowId = useMemo(
+    () => findLatestEvent(streamEvents, 'workflow_started')?.data.workflowId ?? null,
+    [streamEvents]
+  )
+
   // Check if message contains an agent plan
   const planData = useMemo(() => {
     if (message.agentPlan) {
@@ -562,6 +546,23 @@ function ChatMessage({
     setExpandedTools(newExpanded)
   }
 
+  if (isEditing && onEditMessage) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-full sm:max-w-[85%] md:max-w-[80%] lg:max-w-[75%]">
+          <MessageEditForm
+            initialContent={cleanMessageContent(message.content)}
+            onSave={(content) => {
+              setIsEditing(false)
+              onEditMessage(message.id, content)
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      </div>
+    )
+  }
+
   return (
     <>
       <div className={cn("flex", isUser ? "justify-end" : "justify-start")}>
@@ -792,19 +793,10 @@ function ChatMessage({
               }
 
               if (contentToDisplay && contentToDisplay.trim()) {
-                // Filter out internal API key protocol messages, video generation markers, and image options
-                const content = contentToDisplay
+                // Filter out internal API key protocol messages and markers from older saved messages
+                const content = cleanMessageContent(contentToDisplay)
                   .replace(/REQUEST_API_KEY:\{[^}]+\}/g, '')
                   .replace(/API_KEY_PROVIDED:\{[^}]+\}/g, '')
-                  .replace(/\[VIDEO_GENERATION_STARTED\][\s\S]*?\[\/VIDEO_GENERATION_STARTED\]/g, '')
-                  .replace(/\[IMAGE_GENERATION_COMPLETED\][\s\S]*?\[\/IMAGE_GENERATION_COMPLETED\]/g, '')
-                  .replace(/\[IMAGE_EDITING_COMPLETED\][\s\S]*?\[\/IMAGE_EDITING_COMPLETED\]/g, '')
-                  .replace(/\[IMAGE_OPTIONS\][\s\S]*?\[\/IMAGE_OPTIONS\]/g, '')
-                  .replace(/\[VIDEO_OPTIONS\][\s\S]*?\[\/VIDEO_OPTIONS\]/g, '')
-                  .replace(/\[TTS_GENERATION_STARTED\][\s\S]*?\[\/TTS_GENERATION_STARTED\]/g, '')
-                  .replace(/\[SEARCH_METADATA\][\s\S]*?\[\/SEARCH_METADATA\]/g, '')
-                  .replace(/\[WEB_SEARCH_COMPLETED\][\s\S]*?\[\/WEB_SEARCH_COMPLETED\]/g, '')
-                  .replace(/\[SEARCHING_WEB\]/g, '')
                   .replace(/\[DEEP_RESEARCH_STARTED\]/g, '')
                   .replace(/\[DEEP_RESEARCH_METADATA\][\s\S]*?\[\/DEEP_RESEARCH_METADATA\]/g, '')
                   .trim()
@@ -913,6 +905,13 @@ function ChatMessage({
             </div>
           )}
 
+          {/* Workflow plan with human-in-the-loop review */}
+          {workflowId && !planData && (
+            <div className="mt-3 w-full overflow-x-auto">
+              <WorkflowPlanReview workflowId={workflowId} />
+            </div>
+          )}
+
           {/* Display Agent Plan if available */}
           {planData && (
             <div className="mt-3 w-full overflow-x-auto">
@@ -928,6 +927,15 @@ function ChatMessage({
         </div>
       </div>
 
+      <MessageBranchControls
+        isUser={isUser}
+        branch={branch}
+        disabled={isLoading}
+        onSwitchBranch={onSwitchBranch}
+        onEdit={onEditMessage ? () => setIsEditing(true) : undefined}
+        onRegenerate={onRegenerate ? () => onRegenerate(message.id) : undefined}
+      />
+
       {/* Render MCP tool calls below the message */}
       {message.toolCalls && message.toolCalls.length > 0 && (
         <div className={cn(
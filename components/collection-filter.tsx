@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FolderOpen } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCollections } from "@/hooks/use-collections"
+import type { CollectionItemType } from "@/lib/database/supabase"
+
+interface CollectionFilterProps {
+  itemType: CollectionItemType
+  // Ids of the chosen collection's items (database and local ids), or null for everything
+  onFilterChange: (itemIds: Set<string> | null) => void
+  className?: string
+}
+
+// Gallery filter by collection; hidden until there is at least one collection with items of this type
+export function CollectionFilter({ itemType, onFilterChange, className }: CollectionFilterProps) {
+  const { collections, isAvailable, getCollectionItemIds } = useCollections()
+  const [collectionId, setCollectionId] = useState("all")
+
+  const relevant = collections.filter(collection => collection.item_counts[itemType] > 0)
+
+  useEffect(() => {
+    if (collectionId === "all") {
+      onFilterChange(null)
+      return
+    }
+
+    let cancelled = false
+    getCollectionItemIds(collectionId, itemType)
+      .then(ids => {
+        if (!cancelled) onFilterChange(ids)
+      })
+      .catch(error => {
+        console.error("Failed to load collection:", error)
+        if (!cancelled) setCollectionId("all")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [collectionId, itemType, getCollectionItemIds, onFilterChange])
+
+  if (!isAvailable || (relevant.length === 0 && collectionId === "all")) {
+    return null
+  }
+
+  return (
+    <div className={className}>
+      <Select value={collectionId} onValueChange={setCollectionId}>
+        <SelectTrigger className="w-[170px] bg-[#2B2B2B] border-[#333333] text-white">
+          <FolderOpen className="w-4 h-4 mr-1.5" />
+          <SelectValue placeholder="Collection" />
+        </SelectTrigger>
+        <SelectContent className="bg-[#2B2B2B] border-[#333333]">
+          <SelectItem value="all">All Collections</SelectItem>
+          {relevant.map(collection => (
+            <SelectItem key={collection.id} value={collection.id}>
+              {collection.name} ({collection.item_counts[itemType]})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
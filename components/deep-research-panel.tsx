@@ -1,15 +1,28 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { ResearchWebView } from './research-web-view';
-import { useDeepResearchStore, ResearchSession } from '@/lib/stores/deep-research-store';
+import { ResearchHistory } from './research-history';
+import { ResearchCorpusDialog } from './research-corpus-dialog';
+import { ResearchMonitorsDialog } from './research-monitors-dialog';
+import { useDeepResearchStore, ResearchSession, sessionFromRecord } from '@/lib/stores/deep-research-store';
 import { WebAction } from '@/lib/services/browser-automation';
+import { sourceOrigin, type ReportVerification } from '@/lib/research-report';
 import {
   Search,
   FileText,
@@ -22,17 +35,33 @@ import {
   X,
   Loader2,
   ChevronRight,
-  ExternalLink
+  ExternalLink,
+  History,
+  Files,
+  CalendarClock
 } from 'lucide-react';
 
+// Sessions saved through /api/research have database ids; others only live in the store
+const PERSISTED_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const POLL_INTERVAL = 3000;
+
+const REPORT_EXPORTS = [
+  { format: 'markdown', label: 'Markdown with footnotes' },
+  { format: 'bibtex', label: 'BibTeX bibliography' },
+  { format: 'csl', label: 'CSL-JSON bibliography' },
+  { format: 'html', label: 'HTML page' }
+];
+
 interface DeepResearchPanelProps {
   sessionId?: string;
+  chatId?: string; // Scopes the research history to this chat
   onClose?: () => void;
   className?: string;
 }
 
 export function DeepResearchPanel({
   sessionId,
+  chatId,
   onClose,
   className = ''
 }: DeepResearchPanelProps) {
@@ -41,13 +70,104 @@ export function DeepResearchPanel({
     getActiveSession,
     updateSession,
     completePhase,
-    exportSession
+    exportSession,
+    loadSession,
+    corpusScope
   } = useDeepResearchStore();
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCorpus, setShowCorpus] = useState(false);
+  const [showMonitors, setShowMonitors] = useState(false);
+  const [citationCheck, setCitationCheck] = useState<ReportVerification | null>(null);
 
   const session = sessionId ? getSession(sessionId) : getActiveSession();
+  const isRunning = session?.status === 'planning' || session?.status === 'researching';
+  const persistedId = session && PERSISTED_ID.test(session.id) ? session.id : null;
+
+  // Research runs on the server; follow a saved session until it finishes
+  useEffect(() => {
+    if (!persistedId || !isRunning) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/${persistedId}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        loadSession(sessionFromRecord(data.session));
+      } catch (error) {
+        console.warn('Failed to refresh research session:', error);
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [persistedId, isRunning, loadSession]);
+
+  // The server resolves the report's citations against the saved sources
+  const hasReport = !!session?.report;
+  useEffect(() => {
+    setCitationCheck(null);
+    if (!persistedId || isRunning || !hasReport) return;
+
+    let cancelled = false;
+    fetch(`/api/research/${persistedId}/report`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data) setCitationCheck(data.report.verification);
+      })
+      .catch(error => console.warn('Failed to check report citations:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [persistedId, isRunning, hasReport]);
+
+  const history = showHistory && (
+    <ResearchHistory open={showHistory} onOpenChange={setShowHistory} chatId={chatId} />
+  );
+  const corpus = showCorpus && (
+    <ResearchCorpusDialog open={showCorpus} onOpenChange={setShowCorpus} />
+  );
+  const monitors = showMonitors && (
+    <ResearchMonitorsDialog
+      open={showMonitors}
+      onOpenChange={setShowMonitors}
+      chatId={chatId}
+      defaultQuery={session?.query}
+    />
+  );
 
   if (!session) {
-    return null;
+    return (
+      <div className={`flex items-center justify-between gap-3 px-4 py-3 ${className}`}>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <Brain className="h-5 w-5" />
+          {corpusScope?.mode === 'corpus'
+            ? `Your next message researches ${corpusScope.documentIds.length} selected document${corpusScope.documentIds.length === 1 ? '' : 's'}.`
+            : corpusScope?.mode === 'mixed'
+              ? 'Your next message researches the web and your selected documents.'
+              : 'Your next message starts a deep research session.'}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => setShowCorpus(true)}>
+            <Files className="h-4 w-4 mr-1" />
+            Documents
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowMonitors(true)}>
+            <CalendarClock className="h-4 w-4 mr-1" />
+            Monitors
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowHistory(true)}>
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+          {onClose && (
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {history}
+        {corpus}
+        {monitors}
+      </div>
+    );
   }
 
   const handleWebViewAction = (action: WebAction, params?: any) => {
@@ -105,12 +225,61 @@ export function DeepResearchPanel({
               <Button
                 size="sm"
                 variant="outline"
-                onClick={handleExport}
-                disabled={!session.report}
+                onClick={() => setShowCorpus(true)}
+              >
+                <Files className="h-4 w-4 mr-1" />
+                Documents
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowMonitors(true)}
+              >
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Monitors
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowHistory(true)}
               >
-                <Download className="h-4 w-4 mr-1" />
-                Export
+                <History className="h-4 w-4 mr-1" />
+                History
               </Button>
+              {persistedId && session.report ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="outline">
+                      <Download className="h-4 w-4 mr-1" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Cited report</DropdownMenuLabel>
+                    {REPORT_EXPORTS.map((option) => (
+                      <DropdownMenuItem key={option.format} asChild>
+                        <a href={`/api/research/${persistedId}/report?format=${option.format}`} download>
+                          {option.label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleExport}>
+                      Research notes
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleExport}
+                  disabled={!session.report}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              )}
               {onClose && (
                 <Button
                   size="sm"
@@ -127,6 +296,9 @@ export function DeepResearchPanel({
             <p className="text-sm text-muted-foreground">
               <strong>Query:</strong> {session.query}
             </p>
+            {session.error && (
+              <p className="text-sm text-red-500">{session.error}</p>
+            )}
             <div className="flex items-center gap-4 text-sm">
               <span>Depth: <Badge variant="outline">{session.depth}</Badge></span>
               <span>Started: {new Date(session.startedAt).toLocaleTimeString()}</span>
@@ -319,6 +491,11 @@ export function DeepResearchPanel({
                                   Credibility: {Math.round(source.credibilityScore * 100)}%
                                 </span>
                               )}
+                              {source.url && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {sourceOrigin(source.url) === 'corpus' ? 'Document' : 'Web'}
+                                </Badge>
+                              )}
                               {source.type && (
                                 <Badge variant="outline" className="text-xs">
                                   {source.type}
@@ -329,7 +506,7 @@ export function DeepResearchPanel({
                               )}
                             </div>
                           </div>
-                          {source.url && (
+                          {source.url && sourceOrigin(source.url) === 'web' && (
                             <Button
                               size="sm"
                               variant="ghost"
@@ -368,8 +545,29 @@ export function DeepResearchPanel({
               {session.report && (
                 <TabsContent value="report" className="h-full m-0">
                   <ScrollArea className="h-full px-6 py-4">
+                    {citationCheck && (
+                      <div className="mb-4 rounded-md border p-3 text-sm">
+                        <div className="flex items-center gap-2 font-medium">
+                          {citationCheck.issues.length === 0 ? (
+                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <AlertCircle className="h-4 w-4 text-yellow-500" />
+                          )}
+                          {citationCheck.citedParagraphs} of {citationCheck.paragraphs} paragraphs cite sources
+                        </div>
+                        {citationCheck.issues.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-muted-foreground">
+                            {citationCheck.issues.map((issue, index) => (
+                              <li key={index}>
+                                <span className="text-foreground">{issue.message}:</span> "{issue.excerpt}"
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                     <div className="prose prose-sm dark:prose-invert max-w-none">
-                      <div dangerouslySetInnerHTML={{ __html: session.report }} />
+                      <ReactMarkdown>{session.report}</ReactMarkdown>
                     </div>
                   </ScrollArea>
                 </TabsContent>
@@ -378,6 +576,9 @@ export function DeepResearchPanel({
           </Tabs>
         </CardContent>
       </Card>
+      {history}
+      {corpus}
+      {monitors}
     </div>
   );
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ import { ImageEditModal } from "@/components/image-edit-modal"
 import { ImageUpscaleModal } from "@/components/image-upscale-modal-enhanced"
 import { MultiImageEditModal } from "@/components/multi-image-edit-modal"
 import { ImageLoadingCard } from "@/components/image-loading-card"
+import { CollectionFilter } from "@/components/collection-filter"
 import { useImageProgressStore } from "@/lib/stores/image-progress-store"
 
 import { getSourceImagesForEdit } from "@/lib/database-operations"
@@ -76,6 +77,7 @@ export function ImageGallery({ images: propImages, onImagesChange, onAnimateImag
   const [upscalingImage, setUpscalingImage] = useState<GeneratedImage | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
   const [qualityFilter, setQualityFilter] = useState<string>("all")
+  const [collectionItemIds, setCollectionItemIds] = useState<Set<string> | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [comparisonMode, setComparisonMode] = useState<'split' | 'slider'>('split')
   const [sliderPosition, setSliderPosition] = useState(50)
@@ -262,7 +264,9 @@ export function ImageGallery({ images: propImages, onImagesChange, onAnimateImag
 
       const matchesQuality = qualityFilter === "all" || image.quality === qualityFilter
 
-      return matchesSearch && matchesQuality
+      const matchesCollection = !collectionItemIds || collectionItemIds.has(image.id)
+
+      return matchesSearch && matchesQuality && matchesCollection
     })
 
 
@@ -312,6 +316,7 @@ export function ImageGallery({ images: propImages, onImagesChange, onAnimateImag
               <SelectItem value="low">Low</SelectItem>
             </SelectContent>
           </Select>
+          <CollectionFilter itemType="image" onFilterChange={setCollectionItemIds} />
           <Button
             size="sm"
             variant={selectionMode ? "default" : "outline"}
@@ -13,8 +13,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { MCPServerConfig } from '@/lib/mcp/mcp-client'
-import { Plus, Server, Globe, Terminal } from 'lucide-react'
+import { MCPServerConfig, MCPTransportType } from '@/lib/mcp/mcp-client'
+import { Plus, Server, Globe, Terminal, Radio } from 'lucide-react'
 import {
   Select,
   SelectContent,
@@ -27,20 +27,29 @@ interface MCPAddServerFormProps {
   onAdd: (config: MCPServerConfig) => Promise<void>
 }
 
+type RemoteAuthType = 'none' | 'apiKey' | 'oauth'
+
+const INITIAL_FORM_DATA = {
+  name: '',
+  transportType: 'stdio' as MCPTransportType,
+  command: '',
+  args: '',
+  env: '',
+  url: '',
+  authType: 'none' as RemoteAuthType,
+  apiKey: '',
+  oauthClientId: '',
+  oauthClientSecret: '',
+  oauthScope: '',
+}
+
 export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   
-  const [formData, setFormData] = useState({
-    name: '',
-    transportType: 'stdio' as 'stdio' | 'http',
-    command: '',
-    args: '',
-    env: '',
-    url: '',
-    apiKey: '',
-  })
+  const [formData, setFormData] = useState(INITIAL_FORM_DATA)
+  const isRemote = formData.transportType !== 'stdio'
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -71,11 +80,17 @@ export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
         transportType: formData.transportType,
       }
       
-      if (formData.transportType === 'http') {
+      if (isRemote) {
         config.url = formData.url.trim()
-        if (formData.apiKey.trim()) {
+        if (formData.authType === 'apiKey' && formData.apiKey.trim()) {
           config.apiKey = formData.apiKey.trim()
         }
+        if (formData.authType === 'oauth') {
+          config.oauth = {}
+          if (formData.oauthClientId.trim()) config.oauth.clientId = formData.oauthClientId.trim()
+          if (formData.oauthClientSecret.trim()) config.oauth.clientSecret = formData.oauthClientSecret.trim()
+          if (formData.oauthScope.trim()) config.oauth.scope = formData.oauthScope.trim()
+        }
       } else {
         config.command = formData.command.trim()
         if (args.length > 0) config.args = args
@@ -85,15 +100,7 @@ export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
       await onAdd(config)
       
       // Reset form
-      setFormData({
-        name: '',
-        transportType: 'stdio',
-        command: '',
-        args: '',
-        env: '',
-        url: '',
-        apiKey: '',
-      })
+      setFormData(INITIAL_FORM_DATA)
       setOpen(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add server')
@@ -141,7 +148,7 @@ export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
               <Label htmlFor="transport">Transport Type</Label>
               <Select
                 value={formData.transportType}
-                onValueChange={(value: 'stdio' | 'http') => setFormData({ ...formData, transportType: value })}
+                onValueChange={(value: MCPTransportType) => setFormData({ ...formData, transportType: value })}
               >
                 <SelectTrigger id="transport">
                   <SelectValue />
@@ -159,16 +166,24 @@ export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
                       <span>HTTP (Remote)</span>
                     </div>
                   </SelectItem>
+                  <SelectItem value="sse">
+                    <div className="flex items-center gap-2">
+                      <Radio className="w-4 h-4" />
+                      <span>SSE (Legacy remote)</span>
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
                 {formData.transportType === 'stdio' 
                   ? 'For local MCP servers that communicate via standard I/O'
-                  : 'For remote MCP servers like Smithery CLI that use HTTP'}
+                  : formData.transportType === 'http'
+                    ? 'For remote MCP servers like Smithery CLI that use HTTP (falls back to SSE automatically)'
+                    : 'For older remote MCP servers that only support the HTTP+SSE transport'}
               </p>
             </div>
 
-            {formData.transportType === 'http' ? (
+            {isRemote ? (
               <>
                 <div className="space-y-2">
                   <Label htmlFor="url">Server URL</Label>
@@ -186,18 +201,75 @@ export function MCPAddServerForm({ onAdd }: MCPAddServerFormProps) {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="apiKey">API Key (optional)</Label>
-                  <Input
-                    id="apiKey"
-                    type="password"
-                    placeholder="sk-..."
-                    value={formData.apiKey}
-                    onChange={(e) => setFormData({ ...formData, apiKey: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    API key for authentication (if required)
-                  </p>
+                  <Label htmlFor="authType">Authentication</Label>
+                  <Select
+                    value={formData.authType}
+                    onValueChange={(value: RemoteAuthType) => setFormData({ ...formData, authType: value })}
+                  >
+                    <SelectTrigger id="authType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="apiKey">API Key</SelectItem>
+                      <SelectItem value="oauth">OAuth sign-in</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+
+                {formData.authType === 'apiKey' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="apiKey">API Key</Label>
+                    <Input
+                      id="apiKey"
+                      type="password"
+                      placeholder="sk-..."
+                      value={formData.apiKey}
+                      onChange={(e) => setFormData({ ...formData, apiKey: e.target.value })}
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Sent as a Bearer token and api_key query parameter
+                    </p>
+                  </div>
+                )}
+
+                {formData.authType === 'oauth' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="oauthClientId">Client ID (optional)</Label>
+                      <Input
+                        id="oauthClientId"
+                        placeholder="Registered automatically if empty"
+                        value={formData.oauthClientId}
+                        onChange={(e) => setFormData({ ...formData, oauthClientId: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="oauthClientSecret">Client Secret (optional)</Label>
+                      <Input
+                        id="oauthClientSecret"
+                        type="password"
+                        value={formData.oauthClientSecret}
+                        onChange={(e) => setFormData({ ...formData, oauthClientSecret: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="oauthScope">Scope (optional)</Label>
+                      <Input
+                        id="oauthScope"
+                        placeholder="read write"
+                        value={formData.oauthScope}
+                        onChange={(e) => setFormData({ ...formData, oauthScope: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        You will be asked to sign in when connecting to this server
+                      </p>
+                    </div>
+                  </>
+                )}
               </>
             ) : (
               <>
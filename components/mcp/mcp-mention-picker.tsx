@@ -0,0 +1,257 @@
+"use client"
+
+import React, { useMemo, useState, useEffect } from 'react'
+import { FileText, MessageSquareCode, X, AtSign } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useMCPServers } from '@/hooks/mcp/use-mcp-servers'
+import { Button } from '@/components/ui/button'
+import type { MCPPromptArgument } from '@/lib/mcp/mcp-client'
+import type { MCPContextAttachment } from '@/lib/mcp/mcp-chat-context'
+
+export interface MCPMentionItem {
+  key: string
+  type: 'resource' | 'prompt'
+  serverId: string
+  serverName: string
+  name: string
+  description?: string
+  uri?: string
+  mimeType?: string
+  arguments?: MCPPromptArgument[]
+}
+
+// Keep the picker short enough to fit above the input
+const MAX_MENTION_ITEMS = 8
+
+/**
+ * Resources and prompts from connected MCP servers matching an @-mention query
+ */
+export function useMCPMentionItems(query: string | null): MCPMentionItem[] {
+  const { servers } = useMCPServers()
+
+  return useMemo(() => {
+    if (query === null) return []
+
+    const items: MCPMentionItem[] = []
+    for (const server of servers) {
+      if (server.status !== 'connected') continue
+
+      for (const resource of server.resources || []) {
+        items.push({
+          key: `resource:${server.id}:${resource.uri}`,
+          type: 'resource',
+          serverId: server.id,
+          serverName: server.name,
+          name: resource.name || resource.uri,
+          description: resource.description,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+        })
+      }
+
+      for (const prompt of server.prompts || []) {
+        items.push({
+          key: `prompt:${server.id}:${prompt.name}`,
+          type: 'prompt',
+          serverId: server.id,
+          serverName: server.name,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        })
+      }
+    }
+
+    const normalized = query.toLowerCase()
+    return items
+      .filter(item =>
+        !normalized ||
+        item.name.toLowerCase().includes(normalized) ||
+        item.serverName.toLowerCase().includes(normalized) ||
+        item.uri?.toLowerCase().includes(normalized)
+      )
+      .slice(0, MAX_MENTION_ITEMS)
+  }, [servers, query])
+}
+
+export function mentionItemToAttachment(item: MCPMentionItem, args?: Record<string, string>): MCPContextAttachment {
+  if (item.type === 'resource') {
+    return {
+      type: 'resource',
+      serverId: item.serverId,
+      serverName: item.serverName,
+      uri: item.uri!,
+      name: item.name,
+      mimeType: item.mimeType,
+    }
+  }
+
+  return {
+    type: 'prompt',
+    serverId: item.serverId,
+    serverName: item.serverName,
+    name: item.name,
+    arguments: args,
+  }
+}
+
+interface MCPMentionPickerProps {
+  items: MCPMentionItem[]
+  activeIndex: number
+  pendingPrompt: MCPMentionItem | null
+  onSelect: (item: MCPMentionItem) => void
+  onPromptSubmit: (item: MCPMentionItem, args: Record<string, string>) => void
+  onCancelPrompt: () => void
+}
+
+export function MCPMentionPicker({
+  items,
+  activeIndex,
+  pendingPrompt,
+  onSelect,
+  onPromptSubmit,
+  onCancelPrompt,
+}: MCPMentionPickerProps) {
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    setPromptArgs({})
+  }, [pendingPrompt?.key])
+
+  const missingRequired = pendingPrompt?.arguments?.some(arg => arg.required && !promptArgs[arg.name]?.trim()) ?? false
+
+  return (
+    <div
+      className="absolute bottom-full left-0 mb-2 w-full max-w-md rounded-lg border border-[#4A4A4A] bg-[#2B2B2B] shadow-xl z-50 overflow-hidden"
+      role="listbox"
+      aria-label="Attach MCP context"
+    >
+      {pendingPrompt ? (
+        <form
+          className="p-3 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (!missingRequired) onPromptSubmit(pendingPrompt, promptArgs)
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <MessageSquareCode className="w-4 h-4 text-purple-400" />
+            <span className="text-sm font-medium text-white truncate">{pendingPrompt.name}</span>
+            <span className="text-xs text-[#808080] truncate">{pendingPrompt.serverName}</span>
+          </div>
+          {pendingPrompt.arguments?.map((arg, index) => (
+            <label key={arg.name} className="block">
+              <span className="text-xs text-[#B0B0B0]">
+                {arg.name}{arg.required && <span className="text-red-400"> *</span>}
+              </span>
+              <input
+                autoFocus={index === 0}
+                className="mt-1 w-full rounded-md bg-[#3C3C3C] border border-[#4A4A4A] px-2 py-1 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#5A5A5A]"
+                placeholder={arg.description}
+                value={promptArgs[arg.name] || ''}
+                onChange={(e) => setPromptArgs(prev => ({ ...prev, [arg.name]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') onCancelPrompt()
+                }}
+              />
+            </label>
+          ))}
+          <div className="flex justify-end gap-2 pt-1">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="text-[#B0B0B0] hover:text-white hover:bg-[#4A4A4A]"
+              onClick={onCancelPrompt}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={missingRequired}
+              className="bg-[#4A4A4A] hover:bg-[#5A5A5A] text-white"
+            >
+              Attach prompt
+            </Button>
+          </div>
+        </form>
+      ) : items.length === 0 ? (
+        <div className="p-3 text-sm text-[#808080]">
+          No resources or prompts from connected MCP servers
+        </div>
+      ) : (
+        <ul className="py-1">
+          {items.map((item, index) => (
+            <li key={item.key}>
+              <button
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onSelect(item)}
+                className={cn(
+                  "w-full flex items-start gap-2 px-3 py-2 text-left transition-colors",
+                  index === activeIndex ? "bg-[#3C3C3C]" : "hover:bg-[#3C3C3C]"
+                )}
+              >
+                {item.type === 'resource' ? (
+                  <FileText className="w-4 h-4 mt-0.5 text-blue-400 flex-shrink-0" />
+                ) : (
+                  <MessageSquareCode className="w-4 h-4 mt-0.5 text-purple-400 flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-white truncate">{item.name}</span>
+                    <span className="text-xs text-[#808080] truncate">{item.serverName}</span>
+                  </div>
+                  {(item.description || item.uri) && (
+                    <p className="text-xs text-[#9A9A9A] truncate">{item.description || item.uri}</p>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface MCPContextChipsProps {
+  attachments: MCPContextAttachment[]
+  onRemove: (index: number) => void
+}
+
+export function MCPContextChips({ attachments, onRemove }: MCPContextChipsProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="mx-4 mt-2 mb-1 flex flex-wrap gap-2">
+      {attachments.map((attachment, index) => (
+        <div
+          key={`${attachment.type}-${attachment.serverId}-${attachment.name}-${index}`}
+          className="flex items-center gap-1.5 rounded-md bg-[#333333] px-2 py-1 text-xs text-[#D0D0D0] max-w-[260px]"
+          title={attachment.type === 'resource' ? attachment.uri : `Prompt from ${attachment.serverName}`}
+        >
+          <AtSign className="w-3 h-3 flex-shrink-0 text-[#808080]" />
+          {attachment.type === 'resource' ? (
+            <FileText className="w-3 h-3 flex-shrink-0 text-blue-400" />
+          ) : (
+            <MessageSquareCode className="w-3 h-3 flex-shrink-0 text-purple-400" />
+          )}
+          <span className="truncate">{attachment.name}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="p-0.5 rounded hover:bg-[#4A4A4A] flex-shrink-0"
+            aria-label={`Remove ${attachment.name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
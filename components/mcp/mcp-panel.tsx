@@ -25,6 +25,7 @@ export function MCPPanel({ onToolResult }: MCPPanelProps) {
     removeServer,
     connectServer,
     disconnectServer,
+    signOutServer,
     refreshServers,
   } = useMCPServers()
 
@@ -90,6 +91,7 @@ export function MCPPanel({ onToolResult }: MCPPanelProps) {
                 onConnect={connectServer}
                 onDisconnect={disconnectServer}
                 onRemove={removeServer}
+                onSignOut={signOutServer}
                 onSelectServer={setSelectedServerId}
                 selectedServerId={activeServerId}
               />
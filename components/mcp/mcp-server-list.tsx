@@ -12,7 +12,11 @@ import {
   Trash2, 
   AlertCircle,
   CheckCircle,
-  Loader2
+  Loader2,
+  RotateCw,
+  XCircle,
+  LogIn,
+  LogOut
 } from 'lucide-react'
 import {
   AlertDialog,
@@ -30,6 +34,7 @@ interface MCPServerListProps {
   onConnect: (serverId: string) => Promise<void>
   onDisconnect: (serverId: string) => Promise<void>
   onRemove: (serverId: string) => Promise<void>
+  onSignOut?: (serverId: string) => Promise<void>
   onSelectServer: (serverId: string) => void
   selectedServerId?: string | null
 }
@@ -39,6 +44,7 @@ export function MCPServerList({
   onConnect,
   onDisconnect,
   onRemove,
+  onSignOut,
   onSelectServer,
   selectedServerId,
 }: MCPServerListProps) {
@@ -67,6 +73,17 @@ export function MCPServerList({
     }
   }
 
+  const handleSignOut = async (serverId: string) => {
+    try {
+      setLoadingServer(serverId)
+      await onSignOut?.(serverId)
+    } catch (error) {
+      console.error('Failed to sign out:', error)
+    } finally {
+      setLoadingServer(null)
+    }
+  }
+
   const handleRemove = async () => {
     if (!serverToRemove) return
     
@@ -80,6 +97,31 @@ export function MCPServerList({
   }
 
   const getStatusBadge = (server: MCPServerInfo) => {
+    // Supervisor state takes precedence while a crashed server is being recovered
+    switch (server.health?.state) {
+      case 'crashed':
+        return (
+          <Badge variant="destructive">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            Crashed
+          </Badge>
+        )
+      case 'restarting':
+        return (
+          <Badge variant="secondary">
+            <RotateCw className="w-3 h-3 mr-1 animate-spin" />
+            Restarting
+          </Badge>
+        )
+      case 'failed':
+        return (
+          <Badge variant="destructive">
+            <XCircle className="w-3 h-3 mr-1" />
+            Failed
+          </Badge>
+        )
+    }
+
     switch (server.status) {
       case 'connected':
         return (
@@ -111,6 +153,43 @@ export function MCPServerList({
     }
   }
 
+  const renderHealth = (server: MCPServerInfo) => {
+    const health = server.health
+    if (!health || (health.restartCount === 0 && health.state !== 'crashed' && health.state !== 'failed')) {
+      return null
+    }
+
+    return (
+      <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+        <p>
+          Restarts: {health.restartCount}
+          {health.lastCrashAt && ` · Last crash ${new Date(health.lastCrashAt).toLocaleTimeString()}`}
+          {health.nextRestartAt && ` · Next attempt ${new Date(health.nextRestartAt).toLocaleTimeString()}`}
+        </p>
+        <details onClick={(e) => e.stopPropagation()}>
+          <summary className="cursor-pointer select-none">Status history</summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {health.history.slice(-10).reverse().map((event, index) => (
+              <li key={`${event.timestamp}-${index}`}>
+                {new Date(event.timestamp).toLocaleTimeString()} {event.state}
+                {event.attempt ? ` (attempt ${event.attempt})` : ''}
+                {event.error ? ` - ${event.error}` : ''}
+              </li>
+            ))}
+          </ul>
+        </details>
+        {health.stderrTail.length > 0 && (
+          <details onClick={(e) => e.stopPropagation()}>
+            <summary className="cursor-pointer select-none">stderr ({health.stderrTail.length} lines)</summary>
+            <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all rounded bg-muted p-2">
+              {health.stderrTail.join('\n')}
+            </pre>
+          </details>
+        )}
+      </div>
+    )
+  }
+
   return (
     <>
       <div className="space-y-3">
@@ -132,8 +211,15 @@ export function MCPServerList({
                   {getStatusBadge(server)}
                 </div>
                 <p className="text-sm text-muted-foreground font-mono">
-                  {server.command}
+                  {server.url || server.command}
                 </p>
+                {server.url && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Transport: {server.activeTransport === 'sse' || server.transportType === 'sse' ? 'SSE' : 'Streamable HTTP'}
+                    {server.transportType !== 'sse' && server.activeTransport === 'sse' && ' (fallback)'}
+                    {server.oauth && ' · OAuth'}
+                  </p>
+                )}
                 {server.args && server.args.length > 0 && (
                   <p className="text-xs text-muted-foreground mt-1">
                     Args: {server.args.join(' ')}
@@ -144,15 +230,35 @@ export function MCPServerList({
                     {server.tools.length} tools available
                   </p>
                 )}
-                {server.lastError && (
+                {(server.lastError || server.health?.lastError) && (
                   <p className="text-xs text-destructive mt-1">
-                    {server.lastError}
+                    {server.lastError || server.health?.lastError}
                   </p>
                 )}
+                {renderHealth(server)}
               </div>
               
               <div className="flex items-center gap-2 ml-4">
-                {server.status === 'disconnected' && (
+                {server.authorizationUrl && server.status !== 'connected' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleConnect(server.id)
+                    }}
+                    disabled={loadingServer === server.id}
+                    title="Sign in to connect"
+                  >
+                    {loadingServer === server.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <LogIn className="w-4 h-4" />
+                    )}
+                  </Button>
+                )}
+                
+                {(server.status === 'disconnected' || server.health?.state === 'failed') && (
                   <Button
                     size="sm"
                     variant="outline"
@@ -188,6 +294,21 @@ export function MCPServerList({
                   </Button>
                 )}
                 
+                {server.oauth && onSignOut && server.status === 'connected' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleSignOut(server.id)
+                    }}
+                    disabled={loadingServer === server.id}
+                    title="Sign out"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </Button>
+                )}
+                
                 <Button
                   size="sm"
                   variant="ghost"
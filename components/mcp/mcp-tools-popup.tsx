@@ -1,8 +1,8 @@
 "use client"
 
-import React, { useState, useEffect, useMemo } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Settings2, Package, Plus, X, ChevronRight, ToggleLeft, ToggleRight } from 'lucide-react'
+import { Settings2, Package, Plus, X, ChevronRight, ToggleLeft, ToggleRight, ShieldCheck, ShieldAlert, ShieldOff, Check } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useMCPServers } from '@/hooks/mcp/use-mcp-servers'
 import { Button } from '@/components/ui/button'
@@ -11,6 +11,15 @@ import { Badge } from '@/components/ui/badge'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { SettingsDialog } from '@/components/settings-dialog'
 import { useMCPState } from '@/hooks/use-mcp-state'
+import { useMCPPolicies } from '@/hooks/mcp/use-mcp-policies'
+import { useMCPApprovals } from '@/hooks/mcp/use-mcp-approvals'
+import { MCPToolPolicy, MCP_TOOL_POLICIES } from '@/lib/mcp/mcp-tool-policy'
+
+const POLICY_DISPLAY: Record<MCPToolPolicy, { label: string, icon: typeof ShieldCheck, className: string }> = {
+  allow: { label: 'Always allow', icon: ShieldCheck, className: 'text-green-400' },
+  ask: { label: 'Ask every time', icon: ShieldAlert, className: 'text-amber-400' },
+  deny: { label: 'Deny', icon: ShieldOff, className: 'text-red-400' },
+}
 
 interface MCPToolsPopupProps {
   onToolToggle?: (serverId: string, toolName: string, enabled: boolean) => void
@@ -30,6 +39,24 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
   // Only fetch MCP data when popup is actually open to prevent unnecessary updates
   const { servers, loading, connectServer, disconnectServer, getServerTools } = useMCPServers()
   const mcpState = useMCPState()
+  const { getToolPolicy, setToolPolicy } = useMCPPolicies()
+  const { pending: pendingApprovals, respond: respondToApproval, refresh: refreshApprovals } = useMCPApprovals()
+
+  // Open the popup whenever a new tool call is waiting for approval
+  const previousPendingCount = useRef(0)
+  useEffect(() => {
+    if (pendingApprovals.length > previousPendingCount.current) {
+      setOpen(true)
+    }
+    previousPendingCount.current = pendingApprovals.length
+  }, [pendingApprovals.length])
+
+  // Drop approvals that timed out or were resolved elsewhere
+  useEffect(() => {
+    if (open) {
+      refreshApprovals()
+    }
+  }, [open, refreshApprovals])
 
   // Don't initialize state here - initialization happens at app root
   // This component should only read state to prevent circular updates
@@ -104,6 +131,24 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
     onToolToggle?.(serverId, toolName, newEnabled)
   }
 
+  const handlePolicyCycle = async (serverName: string, toolName: string) => {
+    const current = getToolPolicy(serverName, toolName)
+    const next = MCP_TOOL_POLICIES[(MCP_TOOL_POLICIES.indexOf(current) + 1) % MCP_TOOL_POLICIES.length]
+    try {
+      await setToolPolicy(serverName, toolName, next)
+    } catch (error) {
+      console.error('Failed to update tool policy:', error)
+    }
+  }
+
+  const handleApprovalResponse = async (approvalId: string, approved: boolean) => {
+    try {
+      await respondToApproval(approvalId, approved)
+    } catch (error) {
+      console.error('Failed to respond to approval:', error)
+    }
+  }
+
   const toggleServerExpanded = (serverId: string) => {
     setExpandedServers(prev => ({ ...prev, [serverId]: !prev[serverId] }))
   }
@@ -157,6 +202,12 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
               {totalEnabledTools + potentialTools}
             </Badge>
           )}
+          {pendingApprovals.length > 0 && (
+            <span
+              className="absolute -bottom-1 -right-1 w-3 h-3 rounded-full bg-amber-400 animate-pulse"
+              aria-label={`${pendingApprovals.length} tool calls awaiting approval`}
+            />
+          )}
         </Button>
       </PopoverTrigger>
       <PopoverContent 
@@ -181,6 +232,46 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
 
         <ScrollArea className="h-[450px]">
           <div className="p-4">
+            {pendingApprovals.length > 0 && (
+              <div className="mb-4 space-y-3">
+                {pendingApprovals.map(approval => (
+                  <div
+                    key={approval.id}
+                    className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3"
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <ShieldAlert className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                      <span className="text-sm font-medium text-white truncate">
+                        {approval.serverName}: {approval.toolName}
+                      </span>
+                    </div>
+                    <pre className="text-xs text-[#D0D0D0] bg-[#2A2A2A] rounded-md p-2 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                      {JSON.stringify(approval.args, null, 2)}
+                    </pre>
+                    <div className="flex gap-2 mt-3">
+                      <Button
+                        size="sm"
+                        className="flex-1 text-sm bg-green-600 hover:bg-green-700 text-white"
+                        onClick={() => handleApprovalResponse(approval.id, true)}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 text-sm bg-[#4A4A4A] hover:bg-[#5A5A5A] border-[#5A5A5A] text-white"
+                        onClick={() => handleApprovalResponse(approval.id, false)}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Deny
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {loading ? (
               <div className="flex items-center justify-center py-8">
                 <div className="text-sm text-[#E0E0E0]">Loading servers...</div>
@@ -291,6 +382,8 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
                             <div className="px-3 pb-3 space-y-2">
                               {serverTools.map(tool => {
                                 const isToolEnabled = serverState?.tools[tool.name] ?? true
+                                const policy = POLICY_DISPLAY[getToolPolicy(server.name, tool.name)]
+                                const PolicyIcon = policy.icon
                                 
                                 return (
                                   <div
@@ -314,6 +407,14 @@ export function MCPToolsPopup({ onToolToggle, onServerToggle }: MCPToolsPopupPro
                                         </p>
                                       )}
                                     </div>
+                                    <button
+                                      onClick={() => handlePolicyCycle(server.name, tool.name)}
+                                      title={`Approval: ${policy.label} (click to change)`}
+                                      aria-label={`Approval policy for ${tool.name}: ${policy.label}`}
+                                      className="p-1 rounded-md transition-colors flex-shrink-0 hover:bg-[#6A6A6A] mr-1"
+                                    >
+                                      <PolicyIcon className={cn("w-4 h-4", policy.className)} />
+                                    </button>
                                     <button
                                       onClick={() => handleToolToggle(server.id, tool.name)}
                                       disabled={!isEnabled}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import type { MessageBranchInfo } from "@/lib/database/supabase"
+
+interface MessageBranchControlsProps {
+  isUser: boolean
+  branch?: MessageBranchInfo
+  disabled?: boolean
+  onSwitchBranch?: (messageId: string) => void
+  onEdit?: () => void
+  onRegenerate?: () => void
+}
+
+/**
+ * "< 2/3 >" navigation between sibling branches of a message, plus the edit
+ * (user messages) or regenerate (assistant messages) action that creates them
+ */
+export function MessageBranchControls({
+  isUser,
+  branch,
+  disabled,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate
+}: MessageBranchControlsProps) {
+  const showNavigation = !!branch && branch.siblingIds.length > 1 && !!onSwitchBranch
+  const action = isUser ? onEdit : onRegenerate
+
+  if (!showNavigation && !action) {
+    return null
+  }
+
+  return (
+    <div className={cn(
+      "mt-1 flex items-center gap-1 text-xs text-[#B0B0B0]",
+      isUser ? "justify-end" : "justify-start"
+    )}>
+      {showNavigation && (
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-[#B0B0B0] hover:text-white hover:bg-[#3C3C3C]"
+            disabled={disabled || branch.index === 0}
+            onClick={() => onSwitchBranch(branch.siblingIds[branch.index - 1])}
+            aria-label="Previous branch"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span className="min-w-[2.5rem] text-center tabular-nums">
+            {branch.index + 1}/{branch.siblingIds.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-[#B0B0B0] hover:text-white hover:bg-[#3C3C3C]"
+            disabled={disabled || branch.index === branch.siblingIds.length - 1}
+            onClick={() => onSwitchBranch(branch.siblingIds[branch.index + 1])}
+            aria-label="Next branch"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+      {action && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-[#B0B0B0] hover:text-white hover:bg-[#3C3C3C]"
+          disabled={disabled}
+          onClick={action}
+          aria-label={isUser ? "Edit message" : "Regenerate response"}
+          title={isUser ? "Edit message" : "Regenerate response"}
+        >
+          {isUser ? <Pencil className="h-3.5 w-3.5" /> : <RefreshCw className="h-3.5 w-3.5" />}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+interface MessageEditFormProps {
+  initialContent: string
+  onSave: (content: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Inline editor for a past user message; saving sends the edit as a new branch
+ */
+export function MessageEditForm({ initialContent, onSave, onCancel }: MessageEditFormProps) {
+  const [value, setValue] = useState(initialContent)
+  const trimmed = value.trim()
+
+  return (
+    <div className="flex w-full flex-col gap-2">
+      <Textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey && trimmed) {
+            e.preventDefault()
+            onSave(trimmed)
+          } else if (e.key === 'Escape') {
+            onCancel()
+          }
+        }}
+        className="min-h-[80px] bg-[#2B2B2B] border-[#4A4A4A] text-white text-sm"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[#B0B0B0] hover:text-white hover:bg-[#3C3C3C]"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={!trimmed || trimmed === initialContent.trim()}
+          onClick={() => onSave(trimmed)}
+        >
+          Save & Submit
+        </Button>
+      </div>
+    </div>
+  )
+}
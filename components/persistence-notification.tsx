@@ -1,7 +1,66 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { Check, X, Database } from "lucide-react"
+import { Check, X, Database, RefreshCw, CloudOff, AlertCircle } from "lucide-react"
+import { SyncEngine } from "@/lib/sync/sync-engine"
+import type { SyncStatus } from "@/lib/sync/types"
+
+function syncStatusLabel(status: SyncStatus): string {
+  const changes = `${status.pending} ${status.pending === 1 ? 'change' : 'changes'}`
+  switch (status.state) {
+    case 'syncing':
+      return `Syncing ${changes}...`
+    case 'offline':
+      return `Offline - ${changes} saved locally`
+    case 'error':
+      return `Sync failed - ${changes} waiting`
+    case 'disabled':
+      return `${changes} saved locally until the database is configured`
+    default:
+      return `${changes} waiting to sync`
+  }
+}
+
+// Shown while local changes are waiting to reach the database
+function SyncStatusIndicator() {
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+
+  useEffect(() => {
+    const sync = SyncEngine.getInstance()
+    sync.start()
+    return sync.subscribe(setStatus)
+  }, [])
+
+  if (!status || (status.pending === 0 && status.state !== 'offline')) {
+    return null
+  }
+
+  const Icon = status.state === 'offline' ? CloudOff : status.state === 'error' ? AlertCircle : RefreshCw
+
+  return (
+    <div
+      className={`fixed bottom-4 left-4 z-50 flex items-center gap-2 px-3 py-1.5 rounded-lg shadow-lg text-xs ${
+        status.state === 'error'
+          ? 'bg-red-500/10 border border-red-500/20 text-red-400'
+          : 'bg-[#2B2B2B] border border-[#4A4A4A] text-[#B0B0B0]'
+      }`}
+      title={status.lastError}
+    >
+      <Icon className={`w-3.5 h-3.5 ${status.state === 'syncing' ? 'animate-spin' : ''}`} />
+      <span>
+        {status.pending === 0 ? 'Offline - changes will sync when you reconnect' : syncStatusLabel(status)}
+      </span>
+      {status.state === 'error' && (
+        <button
+          className="underline hover:text-white"
+          onClick={() => SyncEngine.getInstance().flush()}
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  )
+}
 
 export function PersistenceNotification() {
   const [persistenceStatus, setPersistenceStatus] = useState<'checking' | 'enabled' | 'disabled' | null>(null)
@@ -46,27 +105,30 @@ export function PersistenceNotification() {
     checkPersistence()
   }, [])
 
-  if (!showNotification || !persistenceStatus || persistenceStatus === 'checking') {
-    return null
-  }
+  const showPersistenceStatus = showNotification && (persistenceStatus === 'enabled' || persistenceStatus === 'disabled')
 
   return (
-    <div className={`fixed bottom-4 right-4 z-50 flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all duration-300 ${
-      persistenceStatus === 'enabled' 
-        ? 'bg-green-500/10 border border-green-500/20 text-green-400' 
-        : 'bg-yellow-500/10 border border-yellow-500/20 text-yellow-400'
-    }`}>
-      <Database className="w-4 h-4" />
-      <span className="text-sm font-medium">
-        {persistenceStatus === 'enabled' 
-          ? 'Database persistence enabled' 
-          : 'Database persistence disabled (using local storage)'}
-      </span>
-      {persistenceStatus === 'enabled' ? (
-        <Check className="w-4 h-4" />
-      ) : (
-        <X className="w-4 h-4" />
+    <>
+      <SyncStatusIndicator />
+      {showPersistenceStatus && (
+        <div className={`fixed bottom-4 right-4 z-50 flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all duration-300 ${
+          persistenceStatus === 'enabled' 
+            ? 'bg-green-500/10 border border-green-500/20 text-green-400' 
+            : 'bg-yellow-500/10 border border-yellow-500/20 text-yellow-400'
+        }`}>
+          <Database className="w-4 h-4" />
+          <span className="text-sm font-medium">
+            {persistenceStatus === 'enabled' 
+              ? 'Database persistence enabled' 
+              : 'Database persistence disabled (using local storage)'}
+          </span>
+          {persistenceStatus === 'enabled' ? (
+            <Check className="w-4 h-4" />
+          ) : (
+            <X className="w-4 h-4" />
+          )}
+        </div>
       )}
-    </div>
+    </>
   )
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { FileText, Loader2, Plus, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useResearchCorpus } from "@/hooks/use-research-corpus"
+import { useDeepResearchStore } from "@/lib/stores/deep-research-store"
+import type { ResearchSourceMode } from "@/lib/research-corpus"
+
+const ACCEPTED_FILES = ".pdf,.md,.markdown,.txt,.csv,.json,.yaml,.yml,.html"
+
+const SOURCE_MODES: { mode: ResearchSourceMode; label: string; description: string }[] = [
+  { mode: "web", label: "Web", description: "Search the public web" },
+  { mode: "corpus", label: "Documents", description: "Only the selected documents; nothing goes to the search API" },
+  { mode: "mixed", label: "Web + documents", description: "Both, with sources labeled by origin" },
+]
+
+const ORIGIN_LABELS = { upload: "File", mcp: "MCP", text: "Text" }
+
+interface ResearchCorpusDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Documents for deep research, and whether the next research uses them
+export function ResearchCorpusDialog({ open, onOpenChange }: ResearchCorpusDialogProps) {
+  const { documents, isLoading, isAvailable, backend, refresh, uploadDocument, addText, deleteDocument } =
+    useResearchCorpus()
+  const corpusScope = useDeepResearchStore(state => state.corpusScope)
+  const setCorpusScope = useDeepResearchStore(state => state.setCorpusScope)
+  const [mode, setMode] = useState<ResearchSourceMode>(corpusScope?.mode || "web")
+  const [selected, setSelected] = useState<string[]>(corpusScope?.documentIds || [])
+  const [busy, setBusy] = useState<string | null>(null)
+  const [pasting, setPasting] = useState(false)
+  const [pasteName, setPasteName] = useState("")
+  const [pasteText, setPasteText] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    refresh()
+    setMode(corpusScope?.mode || "web")
+    setSelected(corpusScope?.documentIds || [])
+    // Only when the dialog opens; edits below write back to the store
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const applyScope = (nextMode: ResearchSourceMode, nextSelected: string[]) => {
+    setMode(nextMode)
+    setSelected(nextSelected)
+    setCorpusScope(nextMode === "web" ? null : { mode: nextMode, documentIds: nextSelected })
+  }
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    const nextSelected = checked ? [...selected, documentId] : selected.filter(id => id !== documentId)
+    // Selecting a document is choosing to research it
+    applyScope(mode === "web" && checked ? "corpus" : nextSelected.length === 0 ? "web" : mode, nextSelected)
+  }
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setBusy("upload")
+    const added: string[] = []
+    for (const file of Array.from(files)) {
+      try {
+        const { document, duplicate } = await uploadDocument(file)
+        added.push(document.id)
+        if (duplicate) toast.info(`${file.name} is already in your documents`)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Failed to add ${file.name}`)
+      }
+    }
+    if (added.length > 0) {
+      applyScope(mode === "web" ? "corpus" : mode, Array.from(new Set([...selected, ...added])))
+    }
+    setBusy(null)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handlePaste = async () => {
+    setBusy("paste")
+    try {
+      const { document } = await addText(pasteName.trim() || "Pasted text", pasteText)
+      applyScope(mode === "web" ? "corpus" : mode, Array.from(new Set([...selected, document.id])))
+      setPasting(false)
+      setPasteName("")
+      setPasteText("")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add text")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDelete = async (documentId: string) => {
+    setBusy(documentId)
+    try {
+      await deleteDocument(documentId)
+      const nextSelected = selected.filter(id => id !== documentId)
+      applyScope(nextSelected.length === 0 ? "web" : mode, nextSelected)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete document")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl bg-[#2B2B2B] border-[#3A3A3A] text-white">
+        <DialogHeader>
+          <DialogTitle>Research documents</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Research your own specs and notes. Documents are split into passages and embedded with Gemini
+            {backend === "file" ? "; the index is kept on this server's disk" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isAvailable ? (
+          <p className="py-6 text-center text-sm text-gray-400">
+            Researching documents needs GEMINI_API_KEY on the server.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {SOURCE_MODES.map((option) => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  disabled={option.mode !== "web" && selected.length === 0}
+                  onClick={() => applyScope(option.mode, selected)}
+                  className={`rounded-md border p-2 text-left text-xs transition-colors disabled:opacity-50 ${
+                    mode === option.mode ? "border-blue-500 bg-blue-500/10" : "border-[#3A3A3A] hover:bg-[#333333]"
+                  }`}
+                >
+                  <div className="text-sm font-medium">{option.label}</div>
+                  <div className="text-gray-400">{option.description}</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILES}
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+              <Button size="sm" variant="outline" disabled={!!busy} onClick={() => fileInputRef.current?.click()}>
+                {busy === "upload" ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Upload className="mr-1 h-4 w-4" />}
+                Add files
+              </Button>
+              <Button size="sm" variant="ghost" disabled={!!busy} onClick={() => setPasting(!pasting)}>
+                <Plus className="mr-1 h-4 w-4" />
+                Paste text
+              </Button>
+            </div>
+
+            {pasting && (
+              <div className="space-y-2 rounded-md border border-[#3A3A3A] p-3">
+                <Input
+                  value={pasteName}
+                  onChange={(e) => setPasteName(e.target.value)}
+                  placeholder="Name"
+                  className="bg-[#3A3A3A] border-[#4A4A4A]"
+                />
+                <Textarea
+                  value={pasteText}
+                  onChange={(e) => setPasteText(e.target.value)}
+                  placeholder="Paste Markdown or plain text"
+                  rows={6}
+                  className="bg-[#3A3A3A] border-[#4A4A4A]"
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" disabled={!pasteText.trim() || !!busy} onClick={handlePaste}>
+                    {busy === "paste" && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                    Add
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <ScrollArea className="h-[40vh]">
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                </div>
+              ) : documents.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-400">
+                  No documents yet. Add PDFs, Markdown or text files to research them.
+                </p>
+              ) : (
+                <div className="space-y-2 pr-3">
+                  {documents.map((document) => (
+                    <div
+                      key={document.id}
+                      className="flex items-center gap-3 rounded-md border border-[#3A3A3A] p-3"
+                    >
+                      <Checkbox
+                        checked={selected.includes(document.id)}
+                        onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                      />
+                      <FileText className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm">{document.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {document.chunkCount} passages · {format(new Date(document.createdAt), "MMM d, yyyy")}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="text-xs">{ORIGIN_LABELS[document.origin]}</Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={busy === document.id}
+                        onClick={() => handleDelete(document.id)}
+                        title="Delete document"
+                      >
+                        {busy === document.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowLeft, GitCompare, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useResearchSessions } from "@/hooks/use-research-sessions"
+import type { ResearchSessionRecord } from "@/lib/database/supabase"
+import type { ResearchSessionDiff } from "@/lib/services/research-sessions"
+
+const NEWEST_RUN = "newest"
+
+const STATUS_STYLES: Record<ResearchSessionRecord["status"], string> = {
+  queued: "bg-gray-600",
+  processing: "bg-blue-600",
+  completed: "bg-green-700",
+  failed: "bg-red-700",
+  cancelled: "bg-gray-600",
+}
+
+interface ResearchHistoryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  chatId?: string
+  // Called after a session was loaded into the deep research panel
+  onOpenSession?: (sessionId: string) => void
+}
+
+// Past deep research sessions: reopen a report, re-run it, or diff it against another run
+export function ResearchHistory({ open, onOpenChange, chatId, onOpenSession }: ResearchHistoryProps) {
+  const [scope, setScope] = useState<"chat" | "all">(chatId ? "chat" : "all")
+  const { sessions, isLoading, isAvailable, refresh, openSession, rerunSession, deleteSession, diffSession } =
+    useResearchSessions(scope === "chat" ? chatId : undefined)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [comparing, setComparing] = useState<ResearchSessionRecord | null>(null)
+  const [against, setAgainst] = useState(NEWEST_RUN)
+  const [diff, setDiff] = useState<ResearchSessionDiff | null>(null)
+  const [diffError, setDiffError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) refresh()
+  }, [open, refresh])
+
+  const run = async (sessionId: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(sessionId)
+    try {
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleOpen = (sessionId: string) => run(sessionId, async () => {
+    await openSession(sessionId)
+    onOpenSession?.(sessionId)
+    onOpenChange(false)
+  }, "Failed to open research")
+
+  const handleRerun = (sessionId: string) => run(sessionId, async () => {
+    const session = await rerunSession(sessionId)
+    toast.success("Research started again with the same options")
+    onOpenSession?.(session.id)
+    onOpenChange(false)
+  }, "Failed to re-run research")
+
+  const handleDelete = (sessionId: string) => run(sessionId, () => deleteSession(sessionId), "Failed to delete research")
+
+  const loadDiff = async (session: ResearchSessionRecord, againstId: string) => {
+    setDiff(null)
+    setDiffError(null)
+    try {
+      setDiff(await diffSession(session.id, againstId === NEWEST_RUN ? undefined : againstId))
+    } catch (error) {
+      setDiffError(error instanceof Error ? error.message : "Failed to compare research sessions")
+    }
+  }
+
+  const handleCompare = (session: ResearchSessionRecord) => {
+    setComparing(session)
+    setAgainst(NEWEST_RUN)
+    loadDiff(session, NEWEST_RUN)
+  }
+
+  const closeCompare = () => {
+    setComparing(null)
+    setDiff(null)
+    setDiffError(null)
+  }
+
+  // Other finished runs of the same question
+  const candidates = comparing
+    ? sessions.filter((session) =>
+        session.id !== comparing.id && session.query === comparing.query && session.status === "completed")
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) closeCompare(); onOpenChange(next) }}>
+      <DialogContent className="max-w-3xl bg-[#2B2B2B] border-[#3A3A3A] text-white">
+        <DialogHeader>
+          <DialogTitle>{comparing ? "Compare research runs" : "Research history"}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {comparing
+              ? comparing.query
+              : "Reopen a past report, run the same research again, or see what changed between runs."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {comparing ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <Button size="sm" variant="ghost" onClick={closeCompare}>
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Back
+              </Button>
+              <Select
+                value={against}
+                onValueChange={(value) => {
+                  setAgainst(value)
+                  loadDiff(comparing, value)
+                }}
+              >
+                <SelectTrigger className="w-64 bg-[#3A3A3A] border-[#4A4A4A]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEWEST_RUN}>Newest later run</SelectItem>
+                  {candidates.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      Run of {format(new Date(session.created_at), "MMM d, h:mm a")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {diffError ? (
+              <p className="py-6 text-center text-sm text-gray-400">{diffError}</p>
+            ) : !diff ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-gray-400">
+                  {format(new Date(diff.base.created_at), "MMM d, h:mm a")} →{" "}
+                  {format(new Date(diff.compare.created_at), "MMM d, h:mm a")}
+                  {` · ${diff.stats.added} lines added, ${diff.stats.removed} removed`}
+                  {` · ${diff.sources.added.length} new sources, ${diff.sources.removed.length} dropped`}
+                </p>
+                <ScrollArea className="h-[50vh] rounded-md bg-[#1E1E1E]">
+                  <pre className="whitespace-pre-wrap p-3 font-mono text-xs">
+                    {diff.report.map((line, i) => (
+                      <div
+                        key={i}
+                        className={
+                          line.op === "added"
+                            ? "bg-green-900/40 text-green-300"
+                            : line.op === "removed"
+                              ? "bg-red-900/40 text-red-300 line-through"
+                              : "text-gray-300"
+                        }
+                      >
+                        {line.op === "added" ? "+ " : line.op === "removed" ? "- " : "  "}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                  {(diff.sources.added.length > 0 || diff.sources.removed.length > 0) && (
+                    <div className="space-y-1 border-t border-[#333333] p-3 text-xs">
+                      {diff.sources.added.map((url) => (
+                        <p key={`+${url}`} className="truncate text-green-300">+ {url}</p>
+                      ))}
+                      {diff.sources.removed.map((url) => (
+                        <p key={`-${url}`} className="truncate text-red-300">- {url}</p>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {chatId && (
+              <div className="flex gap-2">
+                <Button size="sm" variant={scope === "chat" ? "secondary" : "ghost"} onClick={() => setScope("chat")}>
+                  This chat
+                </Button>
+                <Button size="sm" variant={scope === "all" ? "secondary" : "ghost"} onClick={() => setScope("all")}>
+                  All research
+                </Button>
+              </div>
+            )}
+
+            {!isAvailable ? (
+              <p className="py-6 text-center text-sm text-gray-400">
+                Research history needs a database; configure Supabase to keep past sessions.
+              </p>
+            ) : isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-400">No research sessions yet.</p>
+            ) : (
+              <ScrollArea className="max-h-[60vh]">
+                <div className="space-y-2 pr-3">
+                  {sessions.map((session) => (
+                    <div key={session.id} className="flex items-center gap-2 rounded-md bg-[#3A3A3A] px-3 py-2">
+                      <button className="min-w-0 flex-1 text-left" onClick={() => handleOpen(session.id)}>
+                        <p className="truncate text-sm">{session.query}</p>
+                        <p className="flex items-center gap-2 text-xs text-gray-400">
+                          <Badge className={`${STATUS_STYLES[session.status]} px-1.5 py-0 text-[10px]`}>
+                            {session.status === "processing" ? `${session.progress}%` : session.status}
+                          </Badge>
+                          {format(new Date(session.created_at), "MMM d, h:mm a")}
+                          {session.options?.depth ? ` · ${session.options.depth}` : ""}
+                          {session.monitor_id ? " · monitor" : session.rerun_of ? " · re-run" : ""}
+                        </p>
+                      </button>
+                      {busyId === session.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            title="Compare with a newer run"
+                            disabled={session.status !== "completed"}
+                            onClick={() => handleCompare(session)}
+                          >
+                            <GitCompare className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            title="Run again with the same options"
+                            onClick={() => handleRerun(session.id)}
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 hover:text-red-500"
+                            title="Delete"
+                            onClick={() => handleDelete(session.id)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
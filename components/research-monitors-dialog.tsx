@@ -0,0 +1,268 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowLeft, Loader2, Play, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { useResearchMonitors } from "@/hooks/use-research-monitors"
+import { useDeepResearchStore } from "@/lib/stores/deep-research-store"
+import { describeSchedule } from "@/lib/research-schedule"
+
+const CUSTOM_SCHEDULE = "custom"
+
+const SCHEDULE_PRESETS = [
+  { value: "0 9 * * *", label: "Every day at 09:00" },
+  { value: "0 9 * * 1", label: "Every Monday at 09:00" },
+  { value: "0 9 1 * *", label: "First of the month at 09:00" },
+]
+
+interface ResearchMonitorsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  chatId?: string
+  // Prefills the query of a new monitor, e.g. with the research shown in the panel
+  defaultQuery?: string
+}
+
+// Research queries re-run on a schedule, with what changed posted to a chat or webhook
+export function ResearchMonitorsDialog({ open, onOpenChange, chatId, defaultQuery }: ResearchMonitorsDialogProps) {
+  const { monitors, isLoading, isAvailable, refresh, createMonitor, updateMonitor, runMonitor, deleteMonitor } =
+    useResearchMonitors()
+  const corpusScope = useDeepResearchStore(state => state.corpusScope)
+  const [creating, setCreating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [query, setQuery] = useState("")
+  const [preset, setPreset] = useState(SCHEDULE_PRESETS[1].value)
+  const [customSchedule, setCustomSchedule] = useState("")
+  const [postToChat, setPostToChat] = useState(!!chatId)
+  const [webhookUrl, setWebhookUrl] = useState("")
+
+  useEffect(() => {
+    if (open) refresh()
+  }, [open, refresh])
+
+  const startCreating = () => {
+    setName("")
+    setQuery(defaultQuery || "")
+    setPreset(SCHEDULE_PRESETS[1].value)
+    setCustomSchedule("")
+    setPostToChat(!!chatId)
+    setWebhookUrl("")
+    setCreating(true)
+  }
+
+  const run = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id)
+    try {
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCreate = () => run("new", async () => {
+    await createMonitor({
+      name: name.trim() || undefined,
+      query,
+      schedule: preset === CUSTOM_SCHEDULE ? customSchedule : preset,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      // Runs research the same documents as the next research would
+      options: { depth: "deep", ...(corpusScope ? { corpus: corpusScope } : {}) },
+      chatId: postToChat ? chatId : null,
+      webhookUrl: webhookUrl.trim() || null,
+    })
+    toast.success("Research monitor created")
+    setCreating(false)
+  }, "Failed to create research monitor")
+
+  const handleRun = (monitorId: string) => run(monitorId, async () => {
+    await runMonitor(monitorId)
+    toast.success("Research started; its summary is sent when it finishes")
+  }, "Failed to run research monitor")
+
+  const handleToggle = (monitorId: string, enabled: boolean) =>
+    run(monitorId, () => updateMonitor(monitorId, { enabled }), "Failed to update research monitor")
+
+  const handleDelete = (monitorId: string) =>
+    run(monitorId, () => deleteMonitor(monitorId), "Failed to delete research monitor")
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setCreating(false); onOpenChange(next) }}>
+      <DialogContent className="max-w-2xl bg-[#2B2B2B] border-[#3A3A3A] text-white">
+        <DialogHeader>
+          <DialogTitle>{creating ? "New research monitor" : "Research monitors"}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Re-run a research question on a schedule and get what changed since the previous run.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isAvailable ? (
+          <p className="py-6 text-center text-sm text-gray-400">
+            Research monitors need a database; configure Supabase to schedule research.
+          </p>
+        ) : creating ? (
+          <div className="space-y-3">
+            <Button size="sm" variant="ghost" onClick={() => setCreating(false)}>
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Back
+            </Button>
+            <div className="space-y-1">
+              <Label htmlFor="monitor-query">Research question</Label>
+              <Textarea
+                id="monitor-query"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="e.g. New releases and pricing changes from our competitors"
+                rows={3}
+                className="bg-[#3A3A3A] border-[#4A4A4A]"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="monitor-name">Name</Label>
+              <Input
+                id="monitor-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Defaults to the question"
+                className="bg-[#3A3A3A] border-[#4A4A4A]"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Schedule</Label>
+              <div className="flex gap-2">
+                <Select value={preset} onValueChange={setPreset}>
+                  <SelectTrigger className="w-64 bg-[#3A3A3A] border-[#4A4A4A]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_PRESETS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                    <SelectItem value={CUSTOM_SCHEDULE}>Custom (cron)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {preset === CUSTOM_SCHEDULE && (
+                  <Input
+                    value={customSchedule}
+                    onChange={(e) => setCustomSchedule(e.target.value)}
+                    placeholder="minute hour day month weekday, e.g. 30 8 * * 1-5"
+                    className="flex-1 bg-[#3A3A3A] border-[#4A4A4A] font-mono"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-gray-400">
+                In your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone})
+                {corpusScope ? "; runs also research the documents currently selected" : ""}.
+              </p>
+            </div>
+            {chatId && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={postToChat} onCheckedChange={(checked) => setPostToChat(checked === true)} />
+                Post summaries to this chat
+              </label>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="monitor-webhook">Webhook URL (optional)</Label>
+              <Input
+                id="monitor-webhook"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                placeholder="https://hooks.example.com/research"
+                className="bg-[#3A3A3A] border-[#4A4A4A]"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                disabled={!query.trim() || (preset === CUSTOM_SCHEDULE && !customSchedule.trim()) || busyId === "new"}
+                onClick={handleCreate}
+              >
+                {busyId === "new" && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Create monitor
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Button size="sm" variant="outline" onClick={startCreating}>
+              <Plus className="mr-1 h-4 w-4" />
+              New monitor
+            </Button>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              </div>
+            ) : monitors.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-400">No research monitors yet.</p>
+            ) : (
+              <ScrollArea className="max-h-[60vh]">
+                <div className="space-y-2 pr-3">
+                  {monitors.map((monitor) => (
+                    <div key={monitor.id} className="flex items-center gap-2 rounded-md bg-[#3A3A3A] px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm">{monitor.name}</p>
+                        <p className="truncate text-xs text-gray-400">
+                          {describeSchedule(monitor.schedule)} ({monitor.timezone})
+                          {monitor.enabled && monitor.next_run_at
+                            ? ` · next ${format(new Date(monitor.next_run_at), "MMM d, h:mm a")}`
+                            : " · paused"}
+                          {monitor.last_run_at ? ` · last ${format(new Date(monitor.last_run_at), "MMM d, h:mm a")}` : ""}
+                          {monitor.webhook_url ? " · webhook" : ""}
+                        </p>
+                        {monitor.last_error && (
+                          <p className="truncate text-xs text-red-400" title={monitor.last_error}>{monitor.last_error}</p>
+                        )}
+                      </div>
+                      {busyId === monitor.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <>
+                          <Switch
+                            checked={monitor.enabled}
+                            onCheckedChange={(checked) => handleToggle(monitor.id, checked)}
+                            title={monitor.enabled ? "Pause" : "Resume"}
+                          />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            title="Run now"
+                            onClick={() => handleRun(monitor.id)}
+                          >
+                            <Play className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 hover:text-red-500"
+                            title="Delete"
+                            onClick={() => handleDelete(monitor.id)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
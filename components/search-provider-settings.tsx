@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Button } from "@/components/ui/button"
+import type { SearchProviderId, SearchProviderInfo } from "@/lib/search/types"
+
+const PROVIDER_DESCRIPTIONS: Record<SearchProviderId, string> = {
+  perplexity: "Searches and writes a cited answer (PERPLEXITY_API_KEY)",
+  tavily: "Ranked results with page extracts and a short answer (TAVILY_API_KEY)",
+  brave: "Independent web index, results only (BRAVE_SEARCH_API_KEY)",
+  searxng: "Self-hosted metasearch, works without an API key (SEARXNG_URL)",
+  mock: "Canned fixture results for testing; no real search",
+}
+
+interface SearchProviderSettingsProps {
+  chatId?: string | null
+}
+
+// Pick the web search providers of the current chat; several are merged by rank
+export function SearchProviderSettings({ chatId }: SearchProviderSettingsProps) {
+  const [providers, setProviders] = useState<SearchProviderInfo[]>([])
+  const [defaults, setDefaults] = useState<SearchProviderId[]>([])
+  const [selected, setSelected] = useState<SearchProviderId[] | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    Promise.all([
+      fetch("/api/search").then((response) => response.json()),
+      chatId ? fetch(`/api/chats/${chatId}`).then((response) => response.ok ? response.json() : null) : null,
+    ])
+      .then(([search, chatData]) => {
+        if (cancelled) return
+        setProviders(search.providers || [])
+        setDefaults(search.defaults || [])
+        const saved = chatData?.chat?.metadata?.searchProviders
+        setSelected(Array.isArray(saved) && saved.length > 0 ? saved : null)
+      })
+      .catch((error) => console.error("Error loading search providers:", error))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [chatId])
+
+  const save = async (next: SearchProviderId[] | null) => {
+    if (!chatId) return
+    const previous = selected
+    setSelected(next)
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searchProviders: next }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save search providers")
+    } catch (error) {
+      setSelected(previous)
+      toast.error(error instanceof Error ? error.message : "Failed to save search providers")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggle = (id: SearchProviderId, checked: boolean) => {
+    const current = selected || defaults
+    const next = checked ? [...current, id] : current.filter((provider) => provider !== id)
+    // Keep the listed order, which is also the order answers are preferred in
+    const ordered = providers.map((provider) => provider.id).filter((provider) => next.includes(provider))
+    save(ordered.length > 0 ? ordered : null)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const active = selected || defaults
+  const mergeNote = active.length > 1 ? "Results from the selected providers are merged and de-duplicated." : ""
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium">Web search providers</h3>
+        <p className="mt-1 text-xs text-gray-400">
+          {chatId
+            ? `Used when this chat searches the web. ${mergeNote}`
+            : "Open a saved chat to choose its providers. New chats use the defaults below."}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <div
+            key={provider.id}
+            className="flex items-start gap-3 rounded-lg border border-[#3A3A3A] p-3"
+          >
+            <Checkbox
+              id={`search-provider-${provider.id}`}
+              checked={active.includes(provider.id)}
+              disabled={!chatId || !provider.configured || isSaving}
+              onCheckedChange={(checked) => toggle(provider.id, checked === true)}
+              className="mt-0.5"
+            />
+            <div className="flex-1">
+              <Label htmlFor={`search-provider-${provider.id}`} className="cursor-pointer">
+                {provider.name}
+                {defaults.includes(provider.id) && <span className="ml-2 text-xs text-gray-400">default</span>}
+              </Label>
+              <p className="text-xs text-gray-400">
+                {provider.configured ? PROVIDER_DESCRIPTIONS[provider.id] : `Not configured: ${PROVIDER_DESCRIPTIONS[provider.id]}`}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {chatId && selected && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isSaving}
+          onClick={() => save(null)}
+          className="border-[#3A3A3A] hover:bg-[#3A3A3A]"
+        >
+          Use defaults
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { Card } from "@/components/ui/card"
 import { ExternalLink, Calendar, Globe, ChevronRight } from "lucide-react"
-import { useState } from "react"
+import { useId, useState } from "react"
 import { SearchImageModal } from "./search-image-modal"
 import { Button } from "@/components/ui/button"
 import { EnhancedTable, parseTableFromMarkdown } from "./enhanced-table"
@@ -32,8 +32,46 @@ interface SearchResultsDisplayProps {
   onFollowUpClick?: (question: string) => void
 }
 
+// Numbered citations as the search APIs return them: [1] or [1, 2]
+const CITATION_PATTERN = /(\[\d+(?:,\s*\d+)*\])/g
+
+// Render a line's [n] markers as superscript links to the matching source card
+function renderCitations(line: string, key: string, sourceCount: number, sourceAnchor: (n: number) => string) {
+  if (sourceCount === 0) return line
+
+  return line.split(CITATION_PATTERN).map((part, index) => {
+    const numbers = part.match(/^\[([\d,\s]+)\]$/)?.[1].split(",").map(Number)
+    if (!numbers || numbers.some(n => n < 1 || n > sourceCount)) return part
+
+    return (
+      <sup key={`${key}-${index}`} className="text-[0.7em]">
+        {numbers.map((n, i) => (
+          <a
+            key={n}
+            href={`#${sourceAnchor(n)}`}
+            className="text-primary hover:underline"
+          >
+            {i === 0 ? "[" : ""}{n}{i === numbers.length - 1 ? "]" : ","}
+          </a>
+        ))}
+      </sup>
+    )
+  })
+}
+
+// How often the content cites each source, by source number
+function countCitations(text: string): Map<number, number> {
+  const counts = new Map<number, number>()
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    for (const n of match[1].slice(1, -1).split(",").map(Number)) {
+      counts.set(n, (counts.get(n) || 0) + 1)
+    }
+  }
+  return counts
+}
+
 // Simple markdown parser similar to chat-message.tsx
-function parseSimpleMarkdown(text: string) {
+function parseSimpleMarkdown(text: string, sourceCount = 0, sourceAnchor: (n: number) => string = String) {
   // Split by double asterisks to handle bold text
   const parts = text.split(/(\*\*[^*]+\*\*)/g)
   
@@ -48,7 +86,7 @@ function parseSimpleMarkdown(text: string) {
     const lines = part.split('\n')
     return lines.map((line, lineIndex) => (
       <span key={`${index}-${lineIndex}`}>
-        {line}
+        {renderCitations(line, `${index}-${lineIndex}`, sourceCount, sourceAnchor)}
         {lineIndex < lines.length - 1 && <br />}
       </span>
     ))
@@ -58,6 +96,8 @@ function parseSimpleMarkdown(text: string) {
 export function SearchResultsDisplay({ content, searchResults, images, followUpQuestions, onFollowUpClick }: SearchResultsDisplayProps) {
   const [selectedImage, setSelectedImage] = useState<SearchImage | null>(null)
   const [isImageModalOpen, setIsImageModalOpen] = useState(false)
+  const idPrefix = useId()
+  const sourceAnchor = (n: number) => `${idPrefix}-source-${n}`
   
   // Remove the sources section from content if it exists (we'll render it separately)
   const cleanContent = content.replace(/\n\n\*\*Sources:\*\*[\s\S]*$/, '').trim()
@@ -67,6 +107,8 @@ export function SearchResultsDisplay({ content, searchResults, images, followUpQ
   const contentWithoutTable = tableData 
     ? cleanContent.replace(/\|(.+)\|[\s\S]*?\n\|[-:\s|]+\|[\s\S]*?\n((?:\|.+\|\n?)+)/, '').replace(/#+\s*Summary Table[\s\S]*?\n\n((?:\|.+\|\n?)+)/i, '').trim()
     : cleanContent
+  const sourceCount = searchResults?.length || 0
+  const citationCounts = countCitations(contentWithoutTable)
   
   const handleImageClick = (image: SearchImage) => {
     setSelectedImage(image)
@@ -85,7 +127,7 @@ export function SearchResultsDisplay({ content, searchResults, images, followUpQ
       {/* Main content (without table) */}
       {contentWithoutTable && (
         <div className="text-xs sm:text-sm break-words">
-          {parseSimpleMarkdown(contentWithoutTable)}
+          {parseSimpleMarkdown(contentWithoutTable, sourceCount, sourceAnchor)}
         </div>
       )}
 
@@ -141,9 +183,14 @@ export function SearchResultsDisplay({ content, searchResults, images, followUpQ
               // Get source logo
               const sourceLogo = getSourceLogo(result.url)
               const displayImage = matchingImage?.url || matchingImage?.image_url || sourceLogo
+              const citations = citationCounts.get(index + 1) || 0
               
               return (
-                <Card key={index} className="p-4 hover:bg-accent/50 transition-colors">
+                <Card
+                  key={index}
+                  id={sourceAnchor(index + 1)}
+                  className="p-4 hover:bg-accent/50 target:ring-2 target:ring-primary scroll-mt-4 transition-colors"
+                >
                   <div className="flex items-start gap-3">
                     {displayImage ? (
                       <div className="flex-shrink-0 w-16 h-16 rounded overflow-hidden bg-muted">
@@ -185,6 +232,12 @@ export function SearchResultsDisplay({ content, searchResults, images, followUpQ
                             <span>{new Date(result.date).toLocaleDateString()}</span>
                           </>
                         )}
+                        {citations > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>[{index + 1}] cited {citations === 1 ? "once" : `${citations} times`}</span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
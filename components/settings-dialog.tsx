@@ -8,7 +8,7 @@ import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
-import { Settings, Image, Server, Upload, Plus, Trash2, Play, Square, FileJson, AlertCircle, CheckCircle2, Loader2, Wrench, Info, Video, Cookie } from 'lucide-react'
+import { Settings, Image, Server, Upload, Plus, Trash2, Play, Square, FileJson, AlertCircle, CheckCircle2, Loader2, Wrench, Info, Video, Cookie, Globe } from 'lucide-react'
 import { ConfirmDialog } from '@/components/confirm-dialog'
 import { useMCPServers } from '@/hooks/mcp/use-mcp-servers'
 import { MCPServerConfig } from '@/lib/mcp/mcp-client'
@@ -22,6 +22,7 @@ import { useMCPState } from '@/hooks/use-mcp-state'
 import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
+import { SearchProviderSettings } from '@/components/search-provider-settings'
 
 interface SettingsDialogProps {
   open: boolean
@@ -48,8 +49,10 @@ interface SettingsDialogProps {
   onVideoBackendChange?: (backend: 'replicate' | 'huggingface') => void
   videoTier?: 'fast' | 'quality'
   onVideoTierChange?: (tier: 'fast' | 'quality') => void
+  // Chat whose web search providers the Search tab edits
+  chatId?: string | null
   // Optional initial tab
-  initialTab?: 'image' | 'mcp' | 'video'
+  initialTab?: 'image' | 'mcp' | 'video' | 'search'
   autoDetectAspectRatio: boolean
   onAutoDetectAspectRatioChange?: (checked: boolean) => void
 }
@@ -77,6 +80,7 @@ export function SettingsDialog({
   onVideoBackendChange,
   videoTier = 'fast',
   onVideoTierChange,
+  chatId,
   initialTab,
   autoDetectAspectRatio,
   onAutoDetectAspectRatioChange,
@@ -431,12 +435,12 @@ export function SettingsDialog({
             )}
           </DialogTitle>
           <DialogDescription className="text-gray-400">
-            Configure image generation, video generation, and MCP servers
+            Configure image generation, video generation, web search, and MCP servers
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'image' | 'video' | 'cookies' | 'mcp')} className="flex-1">
-          <TabsList className="grid w-full grid-cols-4 bg-[#1E1E1E]">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'image' | 'video' | 'search' | 'cookies' | 'mcp')} className="flex-1">
+          <TabsList className="grid w-full grid-cols-5 bg-[#1E1E1E]">
             <TabsTrigger value="image" className="data-[state=active]:bg-[#3C3C3C]">
               <Image className="w-4 h-4 mr-2" />
               Image
@@ -445,6 +449,10 @@ export function SettingsDialog({
               <Video className="w-4 h-4 mr-2" />
               Video
             </TabsTrigger>
+            <TabsTrigger value="search" className="data-[state=active]:bg-[#3C3C3C]">
+              <Globe className="w-4 h-4 mr-2" />
+              Search
+            </TabsTrigger>
             <TabsTrigger value="cookies" className="data-[state=active]:bg-[#3C3C3C]">
               <Cookie className="w-4 h-4 mr-2" />
               Cookies
@@ -771,6 +779,10 @@ export function SettingsDialog({
               </Alert>
             </TabsContent>
 
+            <TabsContent value="search" className="space-y-4">
+              <SearchProviderSettings chatId={chatId} />
+            </TabsContent>
+
             <TabsContent value="cookies" className="space-y-4">
               <div className="text-center py-8">
                 <Cookie className="w-12 h-12 mx-auto mb-4 text-gray-400" />
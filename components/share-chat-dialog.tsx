@@ -0,0 +1,173 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Copy, Link2, Loader2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ChatShare } from "@/lib/database/supabase"
+
+type ShareLink = ChatShare & { url: string }
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+]
+
+interface ShareChatDialogProps {
+  chat: { id: string; title: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Publish a chat as a read-only link and manage its existing links
+export function ShareChatDialog({ chat, onOpenChange }: ShareChatDialogProps) {
+  const [shares, setShares] = useState<ShareLink[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [expiry, setExpiry] = useState("never")
+  const [redactToolResults, setRedactToolResults] = useState(false)
+
+  const loadShares = useCallback(async (chatId: string) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/chats/${chatId}/share`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load share links")
+      setShares(data.shares || [])
+    } catch (error) {
+      console.error("Error loading share links:", error)
+      setShares([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (chat) loadShares(chat.id)
+  }, [chat, loadShares])
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url)
+    toast.success("Link copied")
+  }
+
+  const handlePublish = async () => {
+    if (!chat) return
+    setIsPublishing(true)
+    try {
+      const response = await fetch(`/api/chats/${chat.id}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expiresInDays: expiry === "never" ? undefined : Number(expiry),
+          redactToolResults,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to publish chat")
+
+      setShares((prev) => [data.share, ...prev])
+      await copyLink(data.share.url).catch(() => toast.success("Link created"))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to publish chat")
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  const handleRevoke = async (token: string) => {
+    if (!chat) return
+    try {
+      const response = await fetch(`/api/chats/${chat.id}/share?token=${encodeURIComponent(token)}`, {
+        method: "DELETE",
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to revoke link")
+
+      setShares((prev) => prev.filter((share) => share.token !== token))
+      toast.success("Link revoked")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke link")
+    }
+  }
+
+  return (
+    <Dialog open={!!chat} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-[#2B2B2B] border-[#3A3A3A] text-white">
+        <DialogHeader>
+          <DialogTitle>Share "{chat?.title}"</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Anyone with the link can view a read-only copy of the chat as it is now, including its
+            generated media. Later messages are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="w-48 bg-[#3A3A3A] border-[#4A4A4A]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="redact-tool-results" checked={redactToolResults} onCheckedChange={setRedactToolResults} />
+              <Label htmlFor="redact-tool-results" className="text-sm">Hide tool results</Label>
+            </div>
+          </div>
+
+          <Button onClick={handlePublish} disabled={isPublishing} className="w-full bg-blue-600 hover:bg-blue-700">
+            {isPublishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Create link
+          </Button>
+
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : shares.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wider text-gray-400">Active links</p>
+              {shares.map((share) => (
+                <div key={share.id} className="flex items-center gap-2 rounded-md bg-[#3A3A3A] px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm">{share.url}</p>
+                    <p className="text-xs text-gray-400">
+                      Created {format(new Date(share.created_at), "MMM d, h:mm a")}
+                      {share.expires_at ? ` · expires ${format(new Date(share.expires_at), "MMM d")}` : ""}
+                      {` · ${share.view_count} ${share.view_count === 1 ? "view" : "views"}`}
+                      {share.redact_tool_results ? " · tool results hidden" : ""}
+                    </p>
+                  </div>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => copyLink(share.url)}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 hover:text-red-500"
+                    onClick={() => handleRevoke(share.token)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import type { Message } from "ai"
+import { format } from "date-fns"
+import { Eye } from "lucide-react"
+import ChatMessage from "@/components/chat-message"
+import type { SharedChat } from "@/lib/services/chat-sharing"
+
+interface SharedChatViewProps {
+  sharedChat: SharedChat
+}
+
+// Read-only rendering of a published chat snapshot (/share/[token])
+export function SharedChatView({ sharedChat }: SharedChatViewProps) {
+  const { share, snapshot } = sharedChat
+  const hasMedia = snapshot.images.length > 0 || snapshot.videos.length > 0 || snapshot.audios.length > 0
+
+  return (
+    <div className="min-h-screen bg-[#1E1E1E] text-white">
+      <header className="border-b border-[#333333] px-4 py-4">
+        <div className="mx-auto max-w-3xl">
+          <h1 className="text-lg font-semibold">{share.title}</h1>
+          <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-[#B0B0B0]">
+            <span className="flex items-center gap-1">
+              <Eye className="h-3 w-3" /> Read-only snapshot
+            </span>
+            <span>Shared {format(new Date(share.created_at), "MMM d, yyyy")}</span>
+            {share.expires_at && <span>Available until {format(new Date(share.expires_at), "MMM d, yyyy")}</span>}
+            {share.redact_tool_results && <span>Tool results hidden</span>}
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-4 px-4 py-6">
+        {snapshot.messages.map((message) => (
+          <ChatMessage
+            key={message.id}
+            message={{
+              id: message.id,
+              role: message.role,
+              content: message.content,
+              createdAt: new Date(message.created_at),
+              experimental_attachments: message.attachments,
+              annotations: (message.metadata?.events || []) as unknown as Message["annotations"],
+            }}
+          />
+        ))}
+
+        {hasMedia && (
+          <section className="space-y-3 border-t border-[#333333] pt-6">
+            <h2 className="text-sm font-medium text-[#B0B0B0]">Media from this chat</h2>
+
+            {snapshot.images.length > 0 && (
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {snapshot.images.map((image) => (
+                  <a key={image.id} href={image.url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={image.url}
+                      alt={image.prompt}
+                      title={image.prompt}
+                      className="aspect-square w-full rounded-lg object-cover"
+                      loading="lazy"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {snapshot.videos.map((video) => (
+              <figure key={video.id} className="space-y-1">
+                <video src={video.url} poster={video.thumbnail_url} controls className="w-full rounded-lg" />
+                <figcaption className="text-xs text-[#B0B0B0]">{video.prompt}</figcaption>
+              </figure>
+            ))}
+
+            {snapshot.audios.map((audio) => (
+              <figure key={audio.id} className="space-y-1">
+                <audio src={audio.url} controls className="w-full" />
+                <figcaption className="line-clamp-2 text-xs text-[#B0B0B0]">{audio.text}</figcaption>
+              </figure>
+            ))}
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -6,9 +6,14 @@ import {
   Circle,
   CircleAlert,
   CircleDotDashed,
+  CircleMinus,
   CircleX,
+  RotateCcw,
+  SkipForward,
+  Trash2,
 } from "lucide-react";
 import { motion, AnimatePresence, LayoutGroup } from "framer-motion";
+import { Button } from "@/components/ui/button";
 
 // Type definitions
 export interface Subtask {
@@ -31,12 +36,22 @@ export interface Task {
   subtasks: Subtask[];
 }
 
+export type TaskReviewAction = "approve" | "skip" | "rerun";
+
 interface AgentPlanProps {
   tasks?: Task[];
   onTaskUpdate?: (taskId: string, status: string) => void;
   onSubtaskUpdate?: (taskId: string, subtaskId: string, status: string) => void;
   compact?: boolean;
   className?: string;
+  // Human-in-the-loop review: "plan" makes tasks editable, "steps" asks about awaitingTaskIds
+  reviewMode?: "plan" | "steps";
+  awaitingTaskIds?: string[];
+  reviewDisabled?: boolean;
+  onApprovePlan?: (tasks: Task[]) => void;
+  onRejectPlan?: () => void;
+  // Approve/skip for awaiting tasks, re-run for finished ones
+  onTaskAction?: (taskId: string, action: TaskReviewAction) => void;
 }
 
 // Initial task data for demo purposes
@@ -83,7 +98,13 @@ export default function AgentPlan({
   onTaskUpdate, 
   onSubtaskUpdate,
   compact = false,
-  className = ""
+  className = "",
+  reviewMode,
+  awaitingTaskIds = [],
+  reviewDisabled = false,
+  onApprovePlan,
+  onRejectPlan,
+  onTaskAction,
 }: AgentPlanProps) {
   const [tasks, setTasks] = useState<Task[]>(propTasks || initialTasks);
   const [expandedTasks, setExpandedTasks] = useState<string[]>([]);
@@ -127,8 +148,30 @@ export default function AgentPlan({
     }));
   };
 
+  // Edit a task while the plan is under review
+  const editTask = (taskId: string, changes: Partial<Pick<Task, "title" | "description">>) => {
+    setTasks((prev) =>
+      prev.map((task) => (task.id === taskId ? { ...task, ...changes } : task)),
+    );
+  };
+
+  // Remove a task from the plan under review, along with dependencies on it
+  const removeTask = (taskId: string) => {
+    setTasks((prev) =>
+      prev
+        .filter((task) => task.id !== taskId)
+        .map((task) => ({
+          ...task,
+          dependencies: task.dependencies.filter((dep) => dep !== taskId),
+        })),
+    );
+  };
+
   // Toggle task status
   const toggleTaskStatus = (taskId: string) => {
+    // Statuses come from the workflow while it's being reviewed
+    if (reviewMode || onTaskAction) return;
+
     setTasks((prev) =>
       prev.map((task) => {
         if (task.id === taskId) {
@@ -314,6 +357,8 @@ export default function AgentPlan({
         return <CircleAlert className="h-4.5 w-4.5 text-yellow-500" />;
       case "failed":
         return <CircleX className="h-4.5 w-4.5 text-red-500" />;
+      case "skipped":
+        return <CircleMinus className="text-muted-foreground h-4.5 w-4.5" />;
       default:
         return <Circle className="text-muted-foreground h-4.5 w-4.5" />;
     }
@@ -344,6 +389,8 @@ export default function AgentPlan({
         return "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400";
       case "failed":
         return "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400";
+      case "skipped":
+        return "bg-muted text-muted-foreground line-through";
       default:
         return "bg-muted text-muted-foreground";
     }
@@ -369,6 +416,10 @@ export default function AgentPlan({
               {tasks.map((task, index) => {
                 const isExpanded = expandedTasks.includes(task.id);
                 const isCompleted = task.status === "completed";
+                const isEditing = reviewMode === "plan";
+                const isAwaiting = reviewMode === "steps" && awaitingTaskIds.includes(task.id);
+                const canRerun = !!onTaskAction && reviewMode !== "plan" &&
+                  (task.status === "completed" || task.status === "failed");
 
                 return (
                   <motion.li
@@ -417,9 +468,29 @@ export default function AgentPlan({
 
                         <div className="flex min-w-0 flex-grow items-center justify-between gap-2">
                           <div className="mr-2 flex-1 min-w-0">
-                            <span className={`${isCompleted ? "text-muted-foreground line-through" : ""} ${compact ? "text-xs sm:text-sm" : "text-sm"} break-words`}>
-                              {task.title}
-                            </span>
+                            {isEditing ? (
+                              <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+                                <input
+                                  className="w-full rounded border border-border bg-background px-1.5 py-0.5 text-xs sm:text-sm"
+                                  value={task.title}
+                                  onChange={(e) => editTask(task.id, { title: e.target.value })}
+                                  disabled={reviewDisabled}
+                                  aria-label="Step title"
+                                />
+                                <textarea
+                                  className="w-full resize-none rounded border border-border bg-background px-1.5 py-0.5 text-xs text-muted-foreground"
+                                  value={task.description}
+                                  rows={2}
+                                  onChange={(e) => editTask(task.id, { description: e.target.value })}
+                                  disabled={reviewDisabled}
+                                  aria-label="Step description"
+                                />
+                              </div>
+                            ) : (
+                              <span className={`${isCompleted ? "text-muted-foreground line-through" : ""} ${compact ? "text-xs sm:text-sm" : "text-sm"} break-words`}>
+                                {task.title}
+                              </span>
+                            )}
                           </div>
 
                           <div className="flex flex-shrink-0 items-center space-x-1 sm:space-x-2 text-xs">
@@ -458,6 +529,64 @@ export default function AgentPlan({
                             >
                               {compact && task.status === 'in-progress' ? 'in-prog' : task.status}
                             </motion.span>
+
+                            {isEditing && tasks.length > 1 && (
+                              <button
+                                className="text-muted-foreground hover:text-destructive p-0.5"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  removeTask(task.id);
+                                }}
+                                disabled={reviewDisabled}
+                                aria-label={`Remove step ${task.title}`}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </button>
+                            )}
+
+                            {isAwaiting && onTaskAction && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  className="h-6 px-2 text-[10px] sm:text-xs"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onTaskAction(task.id, "approve");
+                                  }}
+                                  disabled={reviewDisabled}
+                                >
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="h-6 px-2 text-[10px] sm:text-xs"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onTaskAction(task.id, "skip");
+                                  }}
+                                  disabled={reviewDisabled}
+                                  aria-label={`Skip step ${task.title}`}
+                                >
+                                  <SkipForward className="h-3 w-3" />
+                                </Button>
+                              </>
+                            )}
+
+                            {canRerun && (
+                              <button
+                                className="text-muted-foreground hover:text-foreground p-0.5"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onTaskAction!(task.id, "rerun");
+                                }}
+                                disabled={reviewDisabled}
+                                aria-label={`Re-run step ${task.title}`}
+                                title="Re-run step"
+                              >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                              </button>
+                            )}
                           </div>
                         </div>
                       </motion.div>
@@ -590,6 +719,39 @@ export default function AgentPlan({
                 );
               })}
             </ul>
+
+            {reviewMode && (
+              <div className="mt-3 flex items-center justify-between gap-2 border-t border-border pt-2">
+                <span className="text-muted-foreground text-xs">
+                  {reviewMode === "plan"
+                    ? "Review and edit the plan before it runs."
+                    : "Some steps need your approval before they run."}
+                </span>
+                <div className="flex gap-2">
+                  {onRejectPlan && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={onRejectPlan}
+                      disabled={reviewDisabled}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                  {reviewMode === "plan" && onApprovePlan && (
+                    <Button
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => onApprovePlan(tasks)}
+                      disabled={reviewDisabled || tasks.length === 0}
+                    >
+                      Approve plan
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </LayoutGroup>
       </motion.div>
@@ -10,6 +10,17 @@ import { cn, formatFileSize, formatDuration, formatVideoDuration } from "@/lib/u
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { MCPToolsPopup } from "@/components/mcp/mcp-tools-popup"
+import {
+  MCPMentionPicker,
+  MCPContextChips,
+  useMCPMentionItems,
+  mentionItemToAttachment,
+  type MCPMentionItem
+} from "@/components/mcp/mcp-mention-picker"
+import type { MCPContextAttachment } from "@/lib/mcp/mcp-chat-context"
+import { getModelDefinitions } from "@/lib/models/model-registry"
+import type { ModelDefinition } from "@/lib/models/types"
+import { useModels } from "@/hooks/use-models"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { useToast } from "@/components/ui/use-toast"
 
@@ -163,6 +174,8 @@ interface AIPromptProps {
   onEnhancePrompt?: (originalPrompt: string, enhancedPrompt: string) => void
   onDeepResearch?: () => void
   isDeepResearchMode?: boolean
+  mcpAttachments?: MCPContextAttachment[]
+  onMCPAttachmentsChange?: (attachments: MCPContextAttachment[]) => void
 }
 
 export function AI_Prompt({
@@ -189,7 +202,15 @@ export function AI_Prompt({
   onEnhancePrompt,
   onDeepResearch,
   isDeepResearchMode,
+  mcpAttachments = [],
+  onMCPAttachmentsChange,
 }: AIPromptProps) {
+  // @-mention state for attaching MCP resources and prompts
+  const [mention, setMention] = useState<{ query: string, start: number } | null>(null)
+  const [mentionIndex, setMentionIndex] = useState(0)
+  const [pendingPrompt, setPendingPrompt] = useState<MCPMentionItem | null>(null)
+  const mentionItems = useMCPMentionItems(mention ? mention.query : null)
+
   // Drag and drop state
   const [isDragOver, setIsDragOver] = useState(false)
   const [dragDepth, setDragDepth] = useState(0)
@@ -211,7 +232,12 @@ export function AI_Prompt({
   })
   const { toast } = useToast()
 
-  const AI_MODELS = ["gemini-2.0-flash", "gemini-2.5-pro-preview-06-05", "gemini-2.5-flash-preview-05-20", "Claude Sonnet 4"]
+  // Models whose provider is configured; the built-in list until the server answers
+  const { models, findModel } = useModels()
+  const AI_MODELS: ModelDefinition[] = models.length > 0
+    ? models.filter(model => model.available)
+    : getModelDefinitions()
+  const selectedModelInfo = findModel(selectedModel)
 
   const MODEL_ICONS: Record<string, React.ReactNode> = {
     "Claude Opus 4": (
@@ -299,6 +325,9 @@ export function AI_Prompt({
     "GPT-4o Mini": OPENAI_ICON,
   }
 
+  const getModelIcon = (model: ModelDefinition) =>
+    MODEL_ICONS[model.id] || MODEL_ICONS[model.label] || <Bot className="w-4 h-4 opacity-50" />
+
   // Add to history
   const addToHistory = useCallback((text: string) => {
     console.log('[Prompt Enhancer] Adding to history:', {
@@ -783,7 +812,60 @@ export function AI_Prompt({
     }
   }, [])
 
+  const updateMention = useCallback((text: string, cursor: number) => {
+    if (!onMCPAttachmentsChange) return
+
+    const match = text.slice(0, cursor).match(/(?:^|\s)@([\w\-./:]*)$/)
+    if (match) {
+      setMention({ query: match[1], start: cursor - match[1].length - 1 })
+      setMentionIndex(0)
+    } else {
+      setMention(null)
+    }
+  }, [onMCPAttachmentsChange])
+
+  const addMCPAttachment = useCallback((attachment: MCPContextAttachment) => {
+    onMCPAttachmentsChange?.([...mcpAttachments, attachment])
+    setPendingPrompt(null)
+  }, [mcpAttachments, onMCPAttachmentsChange])
+
+  const handleMentionSelect = useCallback((item: MCPMentionItem) => {
+    // Remove the "@query" text that opened the picker
+    if (mention) {
+      onChange(value.slice(0, mention.start) + value.slice(mention.start + mention.query.length + 1))
+    }
+    setMention(null)
+
+    if (item.type === 'prompt' && item.arguments && item.arguments.length > 0) {
+      setPendingPrompt(item)
+    } else {
+      addMCPAttachment(mentionItemToAttachment(item))
+    }
+  }, [mention, value, onChange, addMCPAttachment])
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keyboard navigation for the @-mention picker
+    if (mention) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        if (mentionItems.length > 0) {
+          e.preventDefault()
+          const step = e.key === "ArrowDown" ? 1 : -1
+          setMentionIndex(prev => (prev + step + mentionItems.length) % mentionItems.length)
+        }
+        return
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && mentionItems[mentionIndex]) {
+        e.preventDefault()
+        handleMentionSelect(mentionItems[mentionIndex])
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setMention(null)
+        return
+      }
+    }
+
     // Enter to submit
     if (e.key === "Enter" && !e.shiftKey && value.trim()) {
       e.preventDefault()
@@ -809,7 +891,7 @@ export function AI_Prompt({
       e.preventDefault()
       handleRegenerate()
     }
-  }, [value, onSubmit, adjustHeight, handleEnhancePrompt, isEnhancing, disabled, handleUndo, handleRegenerate, hasEnhanced])
+  }, [value, onSubmit, adjustHeight, handleEnhancePrompt, isEnhancing, disabled, handleUndo, handleRegenerate, hasEnhanced, mention, mentionItems, mentionIndex, handleMentionSelect])
 
   const handleRevertPrompt = useCallback(() => {
     if (originalPrompt) {
@@ -1171,7 +1253,22 @@ export function AI_Prompt({
             )}
           </div>
         )}
+        {/* Attached MCP resources and prompts */}
+        <MCPContextChips
+          attachments={mcpAttachments}
+          onRemove={(index) => onMCPAttachmentsChange?.(mcpAttachments.filter((_, i) => i !== index))}
+        />
         <div className="relative">
+          {(mention || pendingPrompt) && (
+            <MCPMentionPicker
+              items={mentionItems}
+              activeIndex={mentionIndex}
+              pendingPrompt={pendingPrompt}
+              onSelect={handleMentionSelect}
+              onPromptSubmit={(item, args) => addMCPAttachment(mentionItemToAttachment(item, args))}
+              onCancelPrompt={() => setPendingPrompt(null)}
+            />
+          )}
           <div className="relative flex flex-col">
             <div className={cn(
               "overflow-y-auto transition-all duration-300 ease-out",
@@ -1192,6 +1289,7 @@ export function AI_Prompt({
                 onPaste={handlePaste}
                 onChange={(e) => {
                   onChange(e.target.value)
+                  updateMention(e.target.value, e.target.selectionStart ?? e.target.value.length)
 
                   // Only adjust height for user typing, not programmatic updates
                   if (!isProgrammaticUpdate) {
@@ -1242,8 +1340,8 @@ export function AI_Prompt({
                             }}
                             className="flex items-center gap-1"
                           >
-                            {MODEL_ICONS[selectedModel]}
-                            {selectedModel}
+                            {selectedModelInfo ? getModelIcon(selectedModelInfo) : MODEL_ICONS[selectedModel]}
+                            {selectedModelInfo?.label || selectedModel}
                             <ChevronDown className="w-3 h-3 opacity-50" />
                           </motion.div>
                         </AnimatePresence>
@@ -1252,15 +1350,15 @@ export function AI_Prompt({
                     <DropdownMenuContent className={cn("min-w-[10rem]", "border-[#333333]", "bg-[#2B2B2B]")}>
                       {AI_MODELS.map((model) => (
                         <DropdownMenuItem
-                          key={model}
-                          onSelect={() => onModelChange?.(model)}
+                          key={model.id}
+                          onSelect={() => onModelChange?.(model.id)}
                           className="flex items-center justify-between gap-2 hover:bg-[#3C3C3C]"
                         >
                           <div className="flex items-center gap-2">
-                            {MODEL_ICONS[model] || <Bot className="w-4 h-4 opacity-50" />}
-                            <span className="text-white">{model}</span>
+                            {getModelIcon(model)}
+                            <span className="text-white">{model.label}</span>
                           </div>
-                          {selectedModel === model && <Check className="w-4 h-4 text-white" />}
+                          {(selectedModel === model.id || model.aliases?.includes(selectedModel)) && <Check className="w-4 h-4 text-white" />}
                         </DropdownMenuItem>
                       ))}
                     </DropdownMenuContent>
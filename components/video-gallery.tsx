@@ -8,6 +8,7 @@ import { cn } from "@/lib/utils"
 import { VideoPlayerModal } from "./video-player-modal"
 import { VideoLoadingCard } from "./video-loading-card"
 import { isValidVideoUrl, getInvalidVideoMessage } from "@/lib/video-utils"
+import { CollectionFilter } from "./collection-filter"
 
 interface VideoGalleryProps {
   videos: GeneratedVideo[]
@@ -21,6 +22,7 @@ export function VideoGallery({ videos, onVideoClick, onVideoDelete, onCancelVide
   const [hoveredVideo, setHoveredVideo] = useState<string | null>(null)
   const [selectedVideo, setSelectedVideo] = useState<GeneratedVideo | null>(null)
   const [loadingVideos, setLoadingVideos] = useState<Set<string>>(new Set())
+  const [collectionItemIds, setCollectionItemIds] = useState<Set<string> | null>(null)
   const loadingTimeouts = useRef<Map<string, NodeJS.Timeout>>(new Map())
 
   // Clean up timeouts on unmount
@@ -48,12 +50,15 @@ export function VideoGallery({ videos, onVideoClick, onVideoDelete, onCancelVide
     // Then deduplicate videos to prevent key errors
     const uniqueVideos = Array.from(new Map(validVideos.map(v => [v.id, v])).values())
 
+    // Videos still generating can't be in a collection yet, so they always show
+    const inCollection = (v: GeneratedVideo) => !collectionItemIds || collectionItemIds.has(v.id)
+
     const generating = uniqueVideos.filter(v => v.status === 'generating')
-    const completed = uniqueVideos.filter(v => v.status === 'completed')
-    const failed = uniqueVideos.filter(v => v.status === 'failed')
+    const completed = uniqueVideos.filter(v => v.status === 'completed' && inCollection(v))
+    const failed = uniqueVideos.filter(v => v.status === 'failed' && inCollection(v))
 
     return { generating, completed, failed }
-  }, [videos])
+  }, [videos, collectionItemIds])
 
   const handleDownload = async (video: GeneratedVideo, e: React.MouseEvent) => {
     e.stopPropagation()
@@ -392,6 +397,8 @@ export function VideoGallery({ videos, onVideoClick, onVideoDelete, onCancelVide
 
   return (
     <div className={cn("p-6 space-y-8", className)} data-testid="video-gallery">
+      <CollectionFilter itemType="video" onFilterChange={setCollectionItemIds} className="flex justify-end" />
+
       {/* Generating Videos Section */}
       {organizedVideos.generating.length > 0 && (
         <div>
@@ -0,0 +1,119 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from "react"
+import { Loader2 } from "lucide-react"
+import AgentPlan, { Task, TaskReviewAction } from "@/components/ui/agent-plan"
+import { useWorkflowReview } from "@/hooks/use-workflow-review"
+import type { PlannedStep, StepReviewAction, TaskPlan } from "@/lib/langgraph/workflow-engine"
+
+interface WorkflowPlanReviewProps {
+  workflowId: string
+  compact?: boolean
+  className?: string
+}
+
+// AgentPlan has no "running" status; awaiting steps show as needing help
+function toTaskStatus(step: PlannedStep, awaiting: boolean): string {
+  if (awaiting) return "need-help"
+  if (step.status === "running") return "in-progress"
+  return step.status
+}
+
+function planToTasks(plan: TaskPlan, awaitingStepIds: string[]): Task[] {
+  return plan.steps.map((step, index) => ({
+    id: step.id,
+    title: step.name,
+    description: step.description,
+    status: toTaskStatus(step, awaitingStepIds.includes(step.id)),
+    priority: index === 0 ? "high" : "medium",
+    level: 0,
+    dependencies: step.dependencies,
+    subtasks: [],
+  }))
+}
+
+// Apply edits made in AgentPlan back onto the workflow's plan
+function tasksToPlan(plan: TaskPlan, tasks: Task[]): TaskPlan {
+  const steps = tasks
+    .map(task => {
+      const step = plan.steps.find(s => s.id === task.id)
+      return step && {
+        ...step,
+        name: task.title,
+        description: task.description,
+        dependencies: task.dependencies,
+      }
+    })
+    .filter((step): step is PlannedStep => !!step)
+
+  return { ...plan, steps, totalSteps: steps.length }
+}
+
+export function WorkflowPlanReview({ workflowId, compact = true, className }: WorkflowPlanReviewProps) {
+  const { workflow, submitting, error, approvePlan, reject, reviewSteps } = useWorkflowReview(workflowId)
+  // Answers for awaiting steps; sent once every awaiting step has one
+  const [stepActions, setStepActions] = useState<Record<string, StepReviewAction>>({})
+
+  const pendingReview = workflow?.pendingReview ?? null
+  const plan = pendingReview?.plan ?? workflow?.plan ?? null
+
+  // Stable identities so AgentPlan doesn't drop in-progress edits on re-render
+  const awaitingStepIds = useMemo(
+    () => (pendingReview?.kind === "steps" ? pendingReview.stepIds : []),
+    [pendingReview]
+  )
+  const unansweredStepIds = useMemo(
+    () => awaitingStepIds.filter(id => !stepActions[id]),
+    [awaitingStepIds, stepActions]
+  )
+
+  useEffect(() => {
+    setStepActions({})
+  }, [pendingReview])
+
+  const tasks = useMemo(
+    () => (plan ? planToTasks(plan, unansweredStepIds) : []),
+    [plan, unansweredStepIds]
+  )
+
+  if (!plan) {
+    return workflow?.run.active ? (
+      <div className="text-muted-foreground flex items-center gap-2 text-xs">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Planning workflow...
+      </div>
+    ) : null
+  }
+
+  const handleTaskAction = (taskId: string, action: TaskReviewAction) => {
+    if (!awaitingStepIds.includes(taskId)) {
+      reviewSteps({ [taskId]: action })
+      return
+    }
+
+    const next = { ...stepActions, [taskId]: action }
+    if (awaitingStepIds.every(id => next[id])) {
+      reviewSteps(next)
+    }
+    setStepActions(next)
+  }
+
+  return (
+    <div className={className}>
+      <AgentPlan
+        tasks={tasks}
+        compact={compact}
+        className="max-w-full"
+        reviewMode={pendingReview ? (pendingReview.kind === "plan" ? "plan" : "steps") : undefined}
+        awaitingTaskIds={unansweredStepIds}
+        reviewDisabled={submitting}
+        onApprovePlan={(edited) => approvePlan(tasksToPlan(plan, edited))}
+        onRejectPlan={reject}
+        onTaskAction={workflow?.run.active || submitting ? undefined : handleTaskAction}
+      />
+      {error && (
+        <p className="mt-1 text-xs text-red-500">{error.message}</p>
+      )}
+    </div>
+  )
+}
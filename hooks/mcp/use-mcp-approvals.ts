@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { PendingToolApproval } from '@/lib/mcp/mcp-tool-policy';
+
+interface MCPApprovalsStore {
+  // Tool calls waiting for the user to approve or deny
+  pending: PendingToolApproval[]
+  
+  // Actions
+  addPending: (approval: PendingToolApproval) => void
+  respond: (approvalId: string, approved: boolean) => Promise<void>
+  refresh: () => Promise<void>
+}
+
+export const useMCPApprovals = create<MCPApprovalsStore>()((set) => ({
+  pending: [],
+  
+  addPending: (approval) => set((state) => (
+    state.pending.some(p => p.id === approval.id)
+      ? state
+      : { pending: [...state.pending, approval] }
+  )),
+  
+  respond: async (approvalId, approved) => {
+    try {
+      const response = await fetch('/api/mcp/approvals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approvalId, approved }),
+      });
+      
+      // 404 means it already timed out or was resolved elsewhere
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to resolve approval');
+      }
+    } finally {
+      set((state) => ({ pending: state.pending.filter(p => p.id !== approvalId) }));
+    }
+  },
+  
+  refresh: async () => {
+    try {
+      const response = await fetch('/api/mcp/approvals');
+      if (!response.ok) {
+        throw new Error('Failed to fetch approvals');
+      }
+      
+      const data = await response.json();
+      set({ pending: data.approvals || [] });
+    } catch (error) {
+      console.error('[useMCPApprovals] Failed to refresh approvals:', error);
+    }
+  },
+}));
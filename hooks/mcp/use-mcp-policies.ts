@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  MCPToolPolicies,
+  MCPToolPolicy,
+  DEFAULT_TOOL_POLICIES,
+  resolveToolPolicy
+} from '@/lib/mcp/mcp-tool-policy';
+
+export function useMCPPolicies() {
+  const [policies, setPolicies] = useState<MCPToolPolicies>(DEFAULT_TOOL_POLICIES);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch current policies
+  const fetchPolicies = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/mcp/policies');
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch policies');
+      }
+      
+      const data = await response.json();
+      setPolicies(data.policies);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Persist a full policy set
+  const savePolicies = useCallback(async (next: MCPToolPolicies) => {
+    const previous = policies;
+    setPolicies(next);
+    
+    try {
+      const response = await fetch('/api/mcp/policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policies: next }),
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save policies');
+      }
+      
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch (err) {
+      // Revert on error
+      setPolicies(previous);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      throw err;
+    }
+  }, [policies]);
+
+  // Set the policy for a single tool
+  const setToolPolicy = useCallback(async (serverName: string, toolName: string, policy: MCPToolPolicy) => {
+    const serverPolicy = policies.servers[serverName] || {};
+    await savePolicies({
+      ...policies,
+      servers: {
+        ...policies.servers,
+        [serverName]: {
+          ...serverPolicy,
+          tools: {
+            ...serverPolicy.tools,
+            [toolName]: policy
+          }
+        }
+      }
+    });
+  }, [policies, savePolicies]);
+
+  // Set the policy for every tool on a server without its own override
+  const setServerPolicy = useCallback(async (serverName: string, policy: MCPToolPolicy) => {
+    await savePolicies({
+      ...policies,
+      servers: {
+        ...policies.servers,
+        [serverName]: {
+          ...policies.servers[serverName],
+          policy
+        }
+      }
+    });
+  }, [policies, savePolicies]);
+
+  const getToolPolicy = useCallback((serverName: string, toolName: string): MCPToolPolicy => {
+    return resolveToolPolicy(policies, serverName, toolName);
+  }, [policies]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  return {
+    policies,
+    loading,
+    error,
+    getToolPolicy,
+    setToolPolicy,
+    setServerPolicy,
+    refreshPolicies: fetchPolicies,
+  };
+}
@@ -1,12 +1,20 @@
 import { useState, useEffect, useCallback } from 'react';
-import { MCPServerConfig } from '@/lib/mcp/mcp-client';
+import { MCPServerConfig, MCPPrompt, MCPTransportType } from '@/lib/mcp/mcp-client';
+import type { MCPServerHealth } from '@/lib/mcp/mcp-server-supervisor';
+
+const HEALTH_POLL_INTERVAL_MS = 3000;
+const OAUTH_POPUP_FEATURES = 'width=600,height=700';
 
 export interface MCPServerInfo extends MCPServerConfig {
   status: 'disconnected' | 'connecting' | 'connected' | 'error';
   tools?: any[];
   resources?: any[];
+  prompts?: MCPPrompt[];
   lastError?: string;
   error?: string;
+  authorizationUrl?: string;
+  activeTransport?: MCPTransportType | null;
+  health?: MCPServerHealth;
 }
 
 export interface MCPTool {
@@ -21,9 +29,9 @@ export function useMCPServers() {
   const [error, setError] = useState<string | null>(null);
 
   // Fetch all servers
-  const fetchServers = useCallback(async () => {
+  const fetchServers = useCallback(async (silent: boolean = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       const response = await fetch('/api/mcp/servers');
       
       if (!response.ok) {
@@ -86,6 +94,43 @@ export function useMCPServers() {
     }
   }, [fetchServers]);
 
+  // Open the server's sign-in page and wait for the OAuth callback to report back
+  const authorizeServer = useCallback((serverId: string, authorizationUrl: string) => {
+    return new Promise<void>((resolve, reject) => {
+      const popup = window.open(authorizationUrl, `mcp-oauth-${serverId}`, OAUTH_POPUP_FEATURES);
+      if (!popup) {
+        reject(new Error('Allow pop-ups to sign in to this server'));
+        return;
+      }
+      
+      const cleanup = () => {
+        window.removeEventListener('message', handleMessage);
+        clearInterval(closedCheck);
+      };
+      
+      const handleMessage = (event: MessageEvent) => {
+        if (event.origin !== window.location.origin) return;
+        if (event.data?.type !== 'mcp-oauth-complete' || event.data.serverId !== serverId) return;
+        
+        cleanup();
+        if (event.data.success) {
+          resolve();
+        } else {
+          reject(new Error(event.data.error || 'Sign-in failed'));
+        }
+      };
+      
+      const closedCheck = setInterval(() => {
+        if (popup.closed) {
+          cleanup();
+          reject(new Error('Sign-in window was closed'));
+        }
+      }, 500);
+      
+      window.addEventListener('message', handleMessage);
+    });
+  }, []);
+
   // Connect to a server
   const connectServer = useCallback(async (serverId: string) => {
     try {
@@ -102,6 +147,14 @@ export function useMCPServers() {
       
       if (!response.ok) {
         const data = await response.json();
+        
+        // The callback connects the server once sign-in completes
+        if (data.requiresAuth && data.authorizationUrl) {
+          await authorizeServer(serverId, data.authorizationUrl);
+          await fetchServers();
+          return;
+        }
+        
         throw new Error(data.error || 'Failed to connect to server');
       }
       
@@ -115,7 +168,7 @@ export function useMCPServers() {
       ));
       throw err;
     }
-  }, [fetchServers]);
+  }, [fetchServers, authorizeServer]);
 
   // Disconnect from a server
   const disconnectServer = useCallback(async (serverId: string) => {
@@ -135,6 +188,20 @@ export function useMCPServers() {
     }
   }, [fetchServers]);
 
+  // Sign out of an OAuth server and forget its tokens
+  const signOutServer = useCallback(async (serverId: string) => {
+    const response = await fetch(`/api/mcp/servers/${serverId}/oauth`, {
+      method: 'DELETE',
+    });
+    
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to sign out of server');
+    }
+    
+    await fetchServers();
+  }, [fetchServers]);
+
   // Get tools for a specific server
   const getServerTools = useCallback((serverId: string): MCPTool[] => {
     const server = servers.find(s => s.id === serverId);
@@ -152,6 +219,17 @@ export function useMCPServers() {
     fetchServers();
   }, []); // Empty array instead of [fetchServers] to prevent circular dependency
 
+  // Poll quietly while the supervisor is recovering a crashed server
+  const isRecovering = servers.some(server =>
+    server.health?.state === 'crashed' || server.health?.state === 'restarting'
+  );
+  useEffect(() => {
+    if (!isRecovering) return;
+    
+    const interval = setInterval(() => fetchServers(true), HEALTH_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRecovering, fetchServers]);
+
   return {
     servers,
     loading,
@@ -160,7 +238,8 @@ export function useMCPServers() {
     removeServer,
     connectServer,
     disconnectServer,
-    refreshServers: fetchServers,
+    signOutServer,
+    refreshServers: () => fetchServers(),
     getServerTools,
   };
 }
\ No newline at end of file
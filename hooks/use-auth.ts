@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { AuthProviderId, AuthUser, OAuthProviderId } from '@/lib/auth/types'
+
+let fragmentSession: Promise<void> | null = null
+
+// Supabase's implicit flow returns the session in the URL fragment after a
+// magic link or OAuth sign-in; hand it to the server to keep in cookies.
+// Shared so every component using the hook waits on the same request.
+function storeSessionFromFragment() {
+  fragmentSession ??= postFragmentSession()
+  return fragmentSession
+}
+
+async function postFragmentSession() {
+  const params = new URLSearchParams(window.location.hash.slice(1))
+  const accessToken = params.get('access_token')
+  const refreshToken = params.get('refresh_token')
+  if (!accessToken || !refreshToken) return
+
+  try {
+    await fetch('/api/auth/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accessToken, refreshToken, expiresAt: Number(params.get('expires_at')) || undefined }),
+    })
+  } finally {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+  }
+}
+
+export function useAuth() {
+  // False when AUTH_PROVIDER is unset and the app runs without accounts
+  const [isEnabled, setIsEnabled] = useState(false)
+  const [provider, setProvider] = useState<AuthProviderId | null>(null)
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session')
+      if (!response.ok) throw new Error('Failed to load session')
+
+      const data = await response.json()
+      setIsEnabled(!!data.enabled)
+      setProvider(data.provider)
+      setUser(data.user)
+    } catch (error) {
+      console.error('Error loading session:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    storeSessionFromFragment()
+      .catch(error => console.error('Error storing session:', error))
+      .finally(refresh)
+  }, [refresh])
+
+  // The local provider sends no email; its links are in the server log
+  const signInWithEmail = useCallback(async (email: string) => {
+    const response = await fetch('/api/auth/magic-link', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, redirectTo: window.location.href }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to send sign-in link')
+
+    return data as { sent: boolean }
+  }, [])
+
+  const signInWithOAuth = useCallback((oauthProvider: OAuthProviderId) => {
+    const params = new URLSearchParams({ provider: oauthProvider, redirect_to: window.location.href })
+    window.location.href = `/api/auth/oauth?${params}`
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    window.location.reload()
+  }, [])
+
+  return {
+    isEnabled,
+    provider,
+    user,
+    isLoading,
+    refresh,
+    signInWithEmail,
+    signInWithOAuth,
+    signOut,
+  }
+}
@@ -1,31 +1,88 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { ChatSummary, Chat, Message as DBMessage } from '@/lib/database/supabase'
+import { ChatSummary, Chat, Message as DBMessage, MessageBranchInfo } from '@/lib/database/supabase'
 import { GeneratedImage } from '@/lib/image-utils'
 import { GeneratedVideo } from '@/lib/video-generation-types'
+import type { GeneratedAudio } from '@/components/audio-gallery'
 import { Message } from 'ai'
 import { generateChatTitle } from '@/lib/chat-naming'
+import { toMessageMetadata, type MessageMetadata } from '@/lib/message-metadata'
 import { hasValidPermanentUrl } from '@/lib/video-validation'
+import { SyncEngine, isLocalId } from '@/lib/sync/sync-engine'
+import {
+  createLocalStorageChat,
+  deleteLocalStorageChat,
+  getLocalStorageChats,
+  getLocalStorageMessages,
+  saveLocalStorageMessages,
+  updateLocalStorageChatTitle
+} from '@/lib/localStorage-persistence'
+
+// fetch rejects (rather than returning an error response) when the network is down
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError
+}
 
 export function useChatPersistence(initialChatId?: string) {
   const [currentChatId, setCurrentChatId] = useState<string | null>(initialChatId || null)
   const [chats, setChats] = useState<ChatSummary[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Sibling branches for messages on the active path, keyed by database id
+  const [messageBranches, setMessageBranches] = useState<Record<string, MessageBranchInfo>>({})
+
+  // Database ids of messages already saved, keyed by chat interface id
+  // (loaded messages use their database id in the interface)
+  const persistedIdsRef = useRef<Map<string, string>>(new Map())
+  // Last saved message of the branch being extended; a new message with a
+  // different parent forks the conversation
+  const activeLeafRef = useRef<string | null>(null)
+
+  // Remember the messages of a loaded branch so they aren't saved again
+  const trackLoadedBranch = useCallback((messages: DBMessage[], branches?: Record<string, MessageBranchInfo>) => {
+    for (const message of messages) {
+      persistedIdsRef.current.set(message.id, message.id)
+    }
+    activeLeafRef.current = messages.length > 0 ? messages[messages.length - 1].id : null
+    setMessageBranches(branches || {})
+  }, [])
 
   // Fetch all chats for sidebar
   const fetchChats = useCallback(async () => {
+    // Chats created offline that haven't reached the database yet
+    const sync = SyncEngine.getInstance()
+    const localChats = getLocalStorageChats().filter(chat => !sync.getRemoteId(chat.id))
+
     try {
       const response = await fetch('/api/chats')
       if (!response.ok) throw new Error('Failed to fetch chats')
       const data = await response.json()
-      setChats(data.chats)
-      console.log('[PERSISTENCE] Fetched chats:', data.chats.length)
+      const localIds = new Set(localChats.map(chat => chat.id))
+      const merged = [...localChats, ...data.chats.filter((chat: ChatSummary) => !localIds.has(chat.id))]
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+      setChats(merged)
+      console.log('[PERSISTENCE] Fetched chats:', data.chats.length, 'local:', localChats.length)
     } catch (error) {
       console.error('Error fetching chats:', error)
-      setError('Failed to load chat history')
+      if (isNetworkError(error)) {
+        setChats(localChats)
+      } else {
+        setError('Failed to load chat history')
+      }
     }
   }, [])
 
+  // Create a chat in the browser and queue it for the database
+  const createOfflineChat = useCallback((title: string, model: string): Chat => {
+    const chat = createLocalStorageChat(title, model)
+    SyncEngine.getInstance().enqueue({
+      type: 'chat.upsert',
+      clientId: chat.id,
+      fields: { title, model },
+      createdAt: chat.created_at
+    })
+    return chat
+  }, [])
+
   // Create a new chat
   const createNewChat = useCallback(async (title: string, model: string) => {
     setIsLoading(true)
@@ -40,34 +97,45 @@ export function useChatPersistence(initialChatId?: string) {
       if (!response.ok) throw new Error('Failed to create chat')
 
       const data = await response.json()
-      setCurrentChatId(data.chat.id)
-      
+
+      // Without a database the chat lives in the browser until it can sync
+      const chat: Chat = isLocalId(data.chat.id) ? createOfflineChat(title, model) : data.chat
+      setCurrentChatId(chat.id)
+
       // Immediately refresh chat list to show new chat
       console.log('[PERSISTENCE] New chat created, refreshing chat list immediately...')
       fetchChats() // Don't await - let it update in background
-      
-      return data.chat
+
+      return chat
     } catch (error) {
+      if (isNetworkError(error)) {
+        const chat = createOfflineChat(title, model)
+        setCurrentChatId(chat.id)
+        fetchChats()
+        return chat
+      }
       console.error('Error creating chat:', error)
       setError('Failed to create new chat')
       return null
     } finally {
       setIsLoading(false)
     }
-  }, [fetchChats])
+  }, [fetchChats, createOfflineChat])
 
   // Save a message
   const saveMessage = useCallback(async (
     chatId: string,
     role: 'user' | 'assistant' | 'system',
     content: string,
-    attachments?: any[]
+    attachments?: any[],
+    metadata?: MessageMetadata,
+    parentId?: string | null
   ) => {
     try {
       const response = await fetch(`/api/chats/${chatId}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role, content, attachments }),
+        body: JSON.stringify({ role, content, attachments, metadata, parentId }),
       })
 
       if (!response.ok) {
@@ -123,37 +191,80 @@ export function useChatPersistence(initialChatId?: string) {
           return { chatId: null, success: false }
         }
         chatId = chat.id
+        activeLeafRef.current = null
+        setMessageBranches({})
         
         // Don't need to refresh here since createNewChat already does it
       }
 
-      // Save all messages with their attachments
+      // Save messages not yet stored, each as a reply to the one before it
       let messageCount = 0
+      let branched = false
+      let parentId: string | null = null
       for (const message of messages) {
         // Skip welcome message
         if (message.id === 'welcome-message') continue
 
+        const persistedId = persistedIdsRef.current.get(message.id)
+        if (persistedId) {
+          parentId = persistedId
+          continue
+        }
+
         // Get attachments for this message
         const messageAttachments = attachments?.[message.id] || []
-
-        const savedMessage = await saveMessage(
-          chatId,
-          message.role as 'user' | 'assistant' | 'system',
-          message.content,
-          messageAttachments
-        )
+        const role = message.role as 'user' | 'assistant' | 'system'
+        const metadata = toMessageMetadata(message)
+
+        let savedMessage: { id: string } | null = isLocalId(chatId)
+          ? null
+          : await saveMessage(chatId, role, message.content, messageAttachments, metadata, parentId)
+
+        // Offline (or a chat created offline): queue it under the interface id
+        if (!savedMessage && (isLocalId(chatId) || !navigator.onLine)) {
+          await SyncEngine.getInstance().enqueue({
+            type: 'message.add',
+            clientId: message.id,
+            chatClientId: chatId,
+            parentClientId: parentId,
+            role,
+            content: message.content,
+            attachments: messageAttachments,
+            metadata,
+            createdAt: (message.createdAt ? new Date(message.createdAt) : new Date()).toISOString()
+          })
+          savedMessage = { id: message.id }
+        }
 
         // If any message fails to save, log but continue
         // This allows video generation to proceed even if persistence fails
         if (!savedMessage) {
           console.log('Failed to save message, but continuing...')
         } else {
+          // An edited or regenerated turn replies to an earlier message
+          if (parentId !== activeLeafRef.current) branched = true
+          persistedIdsRef.current.set(message.id, savedMessage.id)
+          activeLeafRef.current = savedMessage.id
+          parentId = savedMessage.id
           messageCount++
         }
       }
 
       console.log(`[PERSISTENCE] Saved ${messageCount} messages to chat ${chatId}`)
 
+      if (isLocalId(chatId)) {
+        saveLocalStorageMessages(chatId, messages)
+      }
+
+      // Pick up the new sibling so the branch switcher appears
+      if (branched && !isLocalId(chatId)) {
+        const response = await fetch(`/api/chats/${chatId}`)
+        if (response.ok) {
+          const data = await response.json()
+          setMessageBranches(data.branches || {})
+        }
+      }
+
       // Refresh chats immediately to update sidebar
       if (messageCount > 0 || !currentChatId) {
         fetchChats() // Don't await - let it update in background
@@ -197,6 +308,10 @@ export function useChatPersistence(initialChatId?: string) {
       }
 
       const data = await response.json()
+      // Not saved without a database; queue it for when one is configured
+      if (isLocalId(data.image?.id)) {
+        SyncEngine.getInstance().enqueue({ type: 'image.save', chatClientId: currentChatId || undefined, image })
+      }
       return data.image
     } catch (error: any) {
       // Re-throw image validation errors
@@ -205,6 +320,9 @@ export function useChatPersistence(initialChatId?: string) {
           error.message?.includes('Failed to fetch image:')) {
         throw error
       }
+      if (isNetworkError(error)) {
+        SyncEngine.getInstance().enqueue({ type: 'image.save', chatClientId: currentChatId || undefined, image })
+      }
       // Silently fail for other persistence errors
       return null
     }
@@ -213,11 +331,20 @@ export function useChatPersistence(initialChatId?: string) {
   // Delete a chat
   const deleteChat = useCallback(async (chatId: string) => {
     try {
-      const response = await fetch(`/api/chats/${chatId}`, {
-        method: 'DELETE',
-      })
+      if (isLocalId(chatId)) {
+        deleteLocalStorageChat(chatId)
+      } else {
+        const response = await fetch(`/api/chats/${chatId}`, {
+          method: 'DELETE',
+        })
+
+        if (!response.ok) throw new Error('Failed to delete chat')
+      }
 
-      if (!response.ok) throw new Error('Failed to delete chat')
+      // A chat created offline may already be partly synced
+      if (isLocalId(chatId)) {
+        SyncEngine.getInstance().enqueue({ type: 'chat.delete', clientId: chatId })
+      }
 
       if (currentChatId === chatId) {
         setCurrentChatId(null)
@@ -226,6 +353,14 @@ export function useChatPersistence(initialChatId?: string) {
       await fetchChats() // Refresh chat list
       return true
     } catch (error) {
+      if (isNetworkError(error)) {
+        SyncEngine.getInstance().enqueue({ type: 'chat.delete', clientId: chatId })
+        setChats(prev => prev.filter(chat => chat.id !== chatId))
+        if (currentChatId === chatId) {
+          setCurrentChatId(null)
+        }
+        return true
+      }
       console.error('Error deleting chat:', error)
       setError('Failed to delete chat')
       return false
@@ -234,6 +369,25 @@ export function useChatPersistence(initialChatId?: string) {
 
   // Update chat title
   const updateChatTitle = useCallback(async (chatId: string, title: string) => {
+    const queueRename = (base?: ChatSummary) => {
+      const now = new Date().toISOString()
+      SyncEngine.getInstance().enqueue({
+        type: 'chat.upsert',
+        clientId: chatId,
+        fields: { title },
+        baseFields: base && { title: base.title },
+        baseUpdatedAt: base?.updated_at,
+        createdAt: now
+      })
+      setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, title, updated_at: now } : chat))
+    }
+
+    if (isLocalId(chatId)) {
+      updateLocalStorageChatTitle(chatId, title)
+      queueRename()
+      return true
+    }
+
     try {
       const response = await fetch(`/api/chats/${chatId}`, {
         method: 'PATCH',
@@ -246,21 +400,39 @@ export function useChatPersistence(initialChatId?: string) {
       await fetchChats() // Refresh chat list
       return true
     } catch (error) {
+      if (isNetworkError(error)) {
+        // Merged per field with any newer remote edit when it syncs
+        queueRename(chats.find(chat => chat.id === chatId))
+        return true
+      }
       console.error('Error updating chat:', error)
       return false
     }
-  }, [fetchChats])
+  }, [fetchChats, chats])
 
   // Load a specific chat
-  const loadChat = useCallback(async (chatId: string) => {
+  const loadChat = useCallback(async (requestedChatId: string) => {
     setIsLoading(true)
     setError(null)
+
+    // Chats created offline open from the database once they have synced
+    const chatId = SyncEngine.getInstance().getRemoteId(requestedChatId) || requestedChatId
+    if (isLocalId(chatId)) {
+      const chat = getLocalStorageChats().find(c => c.id === chatId)
+      const messages = getLocalStorageMessages(chatId)
+      setCurrentChatId(chatId)
+      trackLoadedBranch(messages)
+      setIsLoading(false)
+      return chat ? { chat, messages, images: [], videos: [], canvasState: null, branches: {} } : null
+    }
+
     try {
       const response = await fetch(`/api/chats/${chatId}`)
       if (!response.ok) throw new Error('Failed to load chat')
 
       const data = await response.json()
       setCurrentChatId(chatId)
+      trackLoadedBranch(data.messages || [], data.branches)
       return data
     } catch (error) {
       console.error('Error loading chat:', error)
@@ -269,7 +441,32 @@ export function useChatPersistence(initialChatId?: string) {
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [trackLoadedBranch])
+
+  // Show another branch of a chat; returns the chat data for that branch
+  const switchBranch = useCallback(async (chatId: string, messageId: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId }),
+      })
+      if (!response.ok) throw new Error('Failed to switch branch')
+
+      const data = await response.json()
+      trackLoadedBranch(data.messages || [], data.branches)
+      return data
+    } catch (error) {
+      console.error('Error switching branch:', error)
+      setError('Failed to switch branch')
+      return null
+    }
+  }, [trackLoadedBranch])
+
+  // Branch info for a message in the chat interface, if it has siblings
+  const getMessageBranch = useCallback((messageId: string): MessageBranchInfo | undefined => {
+    return messageBranches[persistedIdsRef.current.get(messageId) || messageId]
+  }, [messageBranches])
 
   // Search chats
   const searchChats = useCallback(async (query: string) => {
@@ -373,13 +570,26 @@ export function useChatPersistence(initialChatId?: string) {
       }
 
       const data = await response.json()
+      // Not saved without a database; queue it for when one is configured
+      if (isLocalId(data.video?.id) && video.status === 'completed') {
+        SyncEngine.getInstance().enqueue({ type: 'video.save', chatClientId: currentChatId || undefined, video })
+      }
       return data.video
     } catch (error) {
+      if (isNetworkError(error) && video.status === 'completed') {
+        SyncEngine.getInstance().enqueue({ type: 'video.save', chatClientId: currentChatId || undefined, video })
+      }
       // Silently fail for persistence errors
       return null
     }
   }, [currentChatId])
 
+  // Save generated speech. Audio has no REST endpoint; it reaches the database
+  // (and durable storage) through the sync queue
+  const saveAudio = useCallback((audio: GeneratedAudio) => {
+    return SyncEngine.getInstance().enqueue({ type: 'audio.save', chatClientId: currentChatId || undefined, audio })
+  }, [currentChatId])
+
   // Load all videos from database - memoized with empty deps to prevent recreation
   const loadAllVideos = useCallback(async () => {
     try {
@@ -432,6 +642,28 @@ export function useChatPersistence(initialChatId?: string) {
     fetchChats()
   }, [fetchChats])
 
+  // Switch to database ids once offline chats and messages have synced
+  const lastSyncedAtRef = useRef<string | undefined>(undefined)
+  useEffect(() => {
+    const sync = SyncEngine.getInstance()
+    sync.start()
+
+    return sync.subscribe(status => {
+      if (!status.lastSyncedAt || status.lastSyncedAt === lastSyncedAtRef.current) return
+      lastSyncedAtRef.current = status.lastSyncedAt
+
+      persistedIdsRef.current.forEach((persistedId, interfaceId) => {
+        const remoteId = sync.getRemoteId(persistedId)
+        if (remoteId) persistedIdsRef.current.set(interfaceId, remoteId)
+      })
+      if (activeLeafRef.current) {
+        activeLeafRef.current = sync.getRemoteId(activeLeafRef.current) || activeLeafRef.current
+      }
+      setCurrentChatId(prev => (prev && sync.getRemoteId(prev)) || prev)
+      fetchChats()
+    })
+  }, [fetchChats])
+
   return {
     currentChatId,
     setCurrentChatId,
@@ -443,10 +675,13 @@ export function useChatPersistence(initialChatId?: string) {
     saveMessages,
     saveImage,
     saveVideo,
+    saveAudio,
     deleteVideo,
     deleteChat,
     updateChatTitle,
     loadChat,
+    switchBranch,
+    getMessageBranch,
     searchChats,
     refreshChats: fetchChats,
     loadAllImages,
@@ -1,5 +1,6 @@
 import { useChat as useAiChat, type UseChatOptions, type Message } from "ai/react"
 import { useCallback, useEffect, useRef, useState, useMemo } from "react"
+import { useMCPApprovals } from "@/hooks/mcp/use-mcp-approvals"
 
 interface MCPToolCall {
   id: string
@@ -24,7 +25,10 @@ function processMessagesWithTools(messages: Message[]): MessageWithTools[] {
     return []
   }
   return messages.map(msg => {
-    const toolCalls = parseToolCallsFromContent(msg.content)
+    const toolCalls = [
+      ...parseToolCallsFromInvocations(msg.toolInvocations),
+      ...parseToolCallsFromContent(msg.content)
+    ]
     
     // Log tool call processing for debugging
     if (toolCalls.length > 0) {
@@ -50,6 +54,37 @@ function processMessagesWithTools(messages: Message[]): MessageWithTools[] {
   })
 }
 
+// Convert native function-call stream events (AI SDK tool invocations) to tool calls
+function parseToolCallsFromInvocations(invocations: Message['toolInvocations']): MCPToolCall[] {
+  if (!invocations || invocations.length === 0) return []
+
+  return invocations.map(invocation => {
+    // Gemini function names are "<server>__<tool>"; results carry the exact names
+    const [serverPart, ...toolParts] = invocation.toolName.split('__')
+    const base = {
+      id: invocation.toolCallId,
+      tool: toolParts.length > 0 ? toolParts.join('__') : invocation.toolName,
+      server: toolParts.length > 0 ? serverPart : 'MCP',
+      isExpanded: false,
+      timestamp: Date.now()
+    }
+
+    if (invocation.state !== 'result') {
+      return { ...base, status: 'executing' as const }
+    }
+
+    const result = invocation.result as { server?: string, tool?: string, isError?: boolean, content?: string }
+    return {
+      ...base,
+      tool: result?.tool || base.tool,
+      server: result?.server || base.server,
+      status: result?.isError ? 'failed' as const : 'completed' as const,
+      result: result?.isError ? undefined : result?.content,
+      error: result?.isError ? result.content : undefined
+    }
+  })
+}
+
 // Helper function to extract and clean JSON object from text
 function extractJsonObject(text: string): string | null {
   // First, try to find a clean JSON object between curly braces
@@ -395,6 +430,19 @@ export function useChatWithTools(options: UseChatOptions & {
     [chatResult.messages]
   )
   
+  // Surface tool calls that are waiting for approval (streamed as data parts)
+  const addPendingApproval = useMCPApprovals(state => state.addPending)
+  const seenApprovalIds = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    if (!chatResult.data) return
+    for (const item of chatResult.data as any[]) {
+      if (item?.type === 'mcp_approval_required' && item.approval && !seenApprovalIds.current.has(item.approval.id)) {
+        seenApprovalIds.current.add(item.approval.id)
+        addPendingApproval(item.approval)
+      }
+    }
+  }, [chatResult.data, addPendingApproval])
+  
   // Detect currently executing tool
   useEffect(() => {
     if (!messagesWithTools || messagesWithTools.length === 0) return
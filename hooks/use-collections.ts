@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { CollectionItemType } from '@/lib/database/supabase'
+import type { CollectionItemRef, CollectionSummary, CollectionWithItems } from '@/lib/services/collections'
+
+export function useCollections() {
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // False when the server has no database to keep collections in
+  const [isAvailable, setIsAvailable] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/collections')
+      if (response.status === 503) {
+        setIsAvailable(false)
+        setCollections([])
+        return
+      }
+      if (!response.ok) throw new Error('Failed to load collections')
+
+      const data = await response.json()
+      setIsAvailable(true)
+      setCollections(data.collections || [])
+    } catch (error) {
+      console.error('Error loading collections:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createCollection = useCallback(async (name: string, items: CollectionItemRef[] = []) => {
+    const response = await fetch('/api/collections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, items }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to create collection')
+
+    await refresh()
+    return data as { collection: CollectionWithItems; unresolved: CollectionItemRef[] }
+  }, [refresh])
+
+  const addToCollection = useCallback(async (collectionId: string, items: CollectionItemRef[]) => {
+    const response = await fetch(`/api/collections/${collectionId}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to add to collection')
+
+    await refresh()
+    return data as { added: number; unresolved: CollectionItemRef[] }
+  }, [refresh])
+
+  const removeFromCollection = useCallback(async (collectionId: string, items: CollectionItemRef[]) => {
+    const response = await fetch(`/api/collections/${collectionId}/items`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to remove from collection')
+
+    await refresh()
+    return data.removed as number
+  }, [refresh])
+
+  // Ids of a collection's items of one type, both database ids and the ids galleries use
+  const getCollectionItemIds = useCallback(async (collectionId: string, type: CollectionItemType) => {
+    const response = await fetch(`/api/collections/${collectionId}`)
+    if (!response.ok) throw new Error('Failed to load collection')
+
+    const { collection } = await response.json() as { collection: CollectionWithItems }
+    const ids = new Set<string>()
+    for (const item of collection.items) {
+      if (item.item_type !== type) continue
+      ids.add(item.item_id)
+      if (item.local_id) ids.add(item.local_id)
+    }
+    return ids
+  }, [])
+
+  return {
+    collections,
+    isLoading,
+    isAvailable,
+    refresh,
+    createCollection,
+    addToCollection,
+    removeFromCollection,
+    getCollectionItemIds,
+  }
+}
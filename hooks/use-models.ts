@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { ModelListing } from '@/lib/models/model-router';
+
+// Shared across components; the list only changes when the server restarts
+let modelsRequest: Promise<ModelListing[]> | null = null;
+
+function fetchModels(): Promise<ModelListing[]> {
+  if (!modelsRequest) {
+    modelsRequest = fetch('/api/models')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load models');
+        }
+        const data = await response.json();
+        return data.models as ModelListing[];
+      })
+      .catch((error) => {
+        // Allow a retry on the next mount
+        modelsRequest = null;
+        throw error;
+      });
+  }
+  return modelsRequest;
+}
+
+export interface UseModelsReturn {
+  models: ModelListing[];
+  loading: boolean;
+  error: Error | null;
+  // Look up a model by id or legacy alias (e.g. "Claude Sonnet 4")
+  findModel: (id: string) => ModelListing | undefined;
+}
+
+/**
+ * Chat models from the server's model registry, with availability per provider
+ */
+export function useModels(): UseModelsReturn {
+  const [models, setModels] = useState<ModelListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchModels()
+      .then((result) => {
+        if (!cancelled) setModels(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error('Failed to load models'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const findModel = (id: string) =>
+    models.find(model => model.id === id || model.aliases?.includes(id));
+
+  return { models, loading, error, findModel };
+}
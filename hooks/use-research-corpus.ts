@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { CorpusDocument } from '@/lib/research-corpus'
+
+// Documents deep research can run over (/api/research/corpus)
+export function useResearchCorpus() {
+  const [documents, setDocuments] = useState<CorpusDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // False when the server has no Gemini key to embed documents with
+  const [isAvailable, setIsAvailable] = useState(true)
+  const [backend, setBackend] = useState<'supabase' | 'file' | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/research/corpus')
+      if (!response.ok) throw new Error('Failed to load research documents')
+
+      const data = await response.json()
+      setDocuments(data.documents || [])
+      setIsAvailable(data.available !== false)
+      setBackend(data.backend || null)
+    } catch (error) {
+      console.error('Error loading research documents:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Files go through the upload route, which chunks and embeds them
+  const uploadDocument = useCallback(async (file: File) => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('target', 'research-corpus')
+
+    const response = await fetch('/api/upload', { method: 'POST', body: formData })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || `Failed to add ${file.name}`)
+
+    await refresh()
+    return data as { document: CorpusDocument; duplicate: boolean }
+  }, [refresh])
+
+  const addText = useCallback(async (name: string, text: string) => {
+    const response = await fetch('/api/research/corpus', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, text }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to add text')
+
+    await refresh()
+    return data as { document: CorpusDocument; duplicate: boolean }
+  }, [refresh])
+
+  const deleteDocument = useCallback(async (documentId: string) => {
+    const response = await fetch(`/api/research/corpus/${documentId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to delete document')
+    }
+    setDocuments(current => current.filter(document => document.id !== documentId))
+  }, [])
+
+  return {
+    documents,
+    isLoading,
+    isAvailable,
+    backend,
+    refresh,
+    uploadDocument,
+    addText,
+    deleteDocument
+  }
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ResearchMonitorRecord, ResearchSessionRecord } from '@/lib/database/supabase'
+import type { DeepResearchRequestOptions } from '@/lib/services/deep-research-service'
+
+export interface ResearchMonitorInput {
+  name?: string
+  query?: string
+  schedule?: string
+  timezone?: string
+  options?: DeepResearchRequestOptions
+  chatId?: string | null
+  webhookUrl?: string | null
+  enabled?: boolean
+}
+
+// Scheduled research monitors (/api/research/monitors)
+export function useResearchMonitors() {
+  const [monitors, setMonitors] = useState<ResearchMonitorRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // False when the server has no database to keep monitors in
+  const [isAvailable, setIsAvailable] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/research/monitors')
+      if (response.status === 503) {
+        setIsAvailable(false)
+        setMonitors([])
+        return
+      }
+      if (!response.ok) throw new Error('Failed to load research monitors')
+
+      const data = await response.json()
+      setIsAvailable(true)
+      setMonitors(data.monitors || [])
+    } catch (error) {
+      console.error('Error loading research monitors:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createMonitor = useCallback(async (input: ResearchMonitorInput) => {
+    const response = await fetch('/api/research/monitors', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to create research monitor')
+
+    await refresh()
+    return data.monitor as ResearchMonitorRecord
+  }, [refresh])
+
+  const updateMonitor = useCallback(async (monitorId: string, input: ResearchMonitorInput) => {
+    const response = await fetch(`/api/research/monitors/${monitorId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to update research monitor')
+
+    const monitor = data.monitor as ResearchMonitorRecord
+    setMonitors(current => current.map(item => (item.id === monitor.id ? monitor : item)))
+    return monitor
+  }, [])
+
+  // Start a run now; its summary is sent once it finishes, like scheduled runs
+  const runMonitor = useCallback(async (monitorId: string) => {
+    const response = await fetch(`/api/research/monitors/${monitorId}/run`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to run research monitor')
+
+    await refresh()
+    return data.session as ResearchSessionRecord
+  }, [refresh])
+
+  const deleteMonitor = useCallback(async (monitorId: string) => {
+    const response = await fetch(`/api/research/monitors/${monitorId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to delete research monitor')
+    }
+    setMonitors(current => current.filter(monitor => monitor.id !== monitorId))
+  }, [])
+
+  return {
+    monitors,
+    isLoading,
+    isAvailable,
+    refresh,
+    createMonitor,
+    updateMonitor,
+    runMonitor,
+    deleteMonitor
+  }
+}
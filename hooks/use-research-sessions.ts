@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ResearchSessionRecord } from '@/lib/database/supabase'
+import type { DeepResearchRequestOptions } from '@/lib/services/deep-research-service'
+import type { ResearchSessionDetail, ResearchSessionDiff } from '@/lib/services/research-sessions'
+import { sessionFromRecord, useDeepResearchStore } from '@/lib/stores/deep-research-store'
+
+// Deep research sessions saved on the server (/api/research), optionally of one chat
+export function useResearchSessions(chatId?: string) {
+  const [sessions, setSessions] = useState<ResearchSessionRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // False when the server has no database to keep sessions in
+  const [isAvailable, setIsAvailable] = useState(true)
+  const loadSession = useDeepResearchStore(state => state.loadSession)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(chatId ? `/api/research?chatId=${encodeURIComponent(chatId)}` : '/api/research')
+      if (response.status === 503) {
+        setIsAvailable(false)
+        setSessions([])
+        return
+      }
+      if (!response.ok) throw new Error('Failed to load research sessions')
+
+      const data = await response.json()
+      setIsAvailable(true)
+      setSessions(data.sessions || [])
+    } catch (error) {
+      console.error('Error loading research sessions:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [chatId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Load a session with its findings and sources into the deep research panel
+  const openSession = useCallback(async (sessionId: string) => {
+    const response = await fetch(`/api/research/${sessionId}`)
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to load research session')
+
+    const session = data.session as ResearchSessionDetail
+    loadSession(sessionFromRecord(session))
+    return session
+  }, [loadSession])
+
+  const showStarted = useCallback(async (session: ResearchSessionRecord) => {
+    loadSession(sessionFromRecord({ ...session, findings: [], sources: [] }))
+    await refresh()
+    return session
+  }, [loadSession, refresh])
+
+  const startResearch = useCallback(async (query: string, options: DeepResearchRequestOptions = {}) => {
+    const response = await fetch('/api/research', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, chatId, options }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to start research')
+
+    return showStarted(data.session)
+  }, [chatId, showStarted])
+
+  const rerunSession = useCallback(async (sessionId: string) => {
+    const response = await fetch(`/api/research/${sessionId}/rerun`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to re-run research')
+
+    return showStarted(data.session)
+  }, [showStarted])
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    const response = await fetch(`/api/research/${sessionId}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to delete research session')
+
+    setSessions(prev => prev.filter(session => session.id !== sessionId))
+  }, [])
+
+  // Compare with another run; the newest later run of the same query by default
+  const diffSession = useCallback(async (sessionId: string, againstId?: string) => {
+    const query = againstId ? `?against=${encodeURIComponent(againstId)}` : ''
+    const response = await fetch(`/api/research/${sessionId}/diff${query}`)
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to compare research sessions')
+
+    return data.diff as ResearchSessionDiff
+  }, [])
+
+  return {
+    sessions,
+    isLoading,
+    isAvailable,
+    refresh,
+    openSession,
+    startResearch,
+    rerunSession,
+    deleteSession,
+    diffSession,
+  }
+}
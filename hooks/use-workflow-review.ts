@@ -0,0 +1,157 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { WorkflowDetails } from '@/lib/langgraph/integration/chat-integration';
+import type { StepReviewAction, TaskPlan, WorkflowReviewDecision } from '@/lib/langgraph/workflow-engine';
+
+// How often to refresh a workflow that is still running
+const POLL_INTERVAL_MS = 3000;
+
+export interface UseWorkflowReviewReturn {
+  workflow: WorkflowDetails | null;
+  loading: boolean;
+  submitting: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  approvePlan: (plan?: TaskPlan) => Promise<void>;
+  reject: () => Promise<void>;
+  reviewSteps: (actions: Record<string, StepReviewAction>) => Promise<void>;
+}
+
+// Read a server-sent event stream until the server closes it
+async function drainEventStream(response: Response, onEvent: (event: any) => void) {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split('\n\n');
+    buffer = chunks.pop() || '';
+
+    for (const chunk of chunks) {
+      if (chunk.startsWith('data: ')) {
+        onEvent(JSON.parse(chunk.slice(6)));
+      }
+    }
+  }
+}
+
+/**
+ * Load a LangGraph workflow run and answer its human-in-the-loop reviews
+ */
+export function useWorkflowReview(workflowId: string | null): UseWorkflowReviewReturn {
+  const [workflow, setWorkflow] = useState<WorkflowDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!workflowId) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/workflows/${workflowId}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load workflow');
+      }
+
+      const details: WorkflowDetails = await response.json();
+      if (mountedRef.current) {
+        setWorkflow(details);
+        setError(null);
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to load workflow'));
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Keep polling while the run is in flight elsewhere (e.g. started from chat)
+  useEffect(() => {
+    if (!workflow?.run.active || submitting) return;
+
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [workflow?.run.active, submitting, refresh]);
+
+  const submit = useCallback(async (decision: WorkflowReviewDecision) => {
+    if (!workflowId) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const response = await fetch(`/api/workflows/${workflowId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to submit review');
+      }
+
+      // Refresh on every state change and step event so concurrent steps update live
+      await drainEventStream(response, (event) => {
+        if (event.type === 'state_update' || event.type === 'workflow_paused' || event.type.startsWith('workflow_step_')) {
+          refresh();
+        }
+      });
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to submit review'));
+      }
+    } finally {
+      if (mountedRef.current) {
+        setSubmitting(false);
+      }
+      await refresh();
+    }
+  }, [workflowId, refresh]);
+
+  const approvePlan = useCallback(
+    (plan?: TaskPlan) => submit({ action: 'approve', plan }),
+    [submit]
+  );
+
+  const reject = useCallback(() => submit({ action: 'reject' }), [submit]);
+
+  const reviewSteps = useCallback(
+    (actions: Record<string, StepReviewAction>) => submit({ action: 'approve', steps: actions }),
+    [submit]
+  );
+
+  return {
+    workflow,
+    loading,
+    submitting,
+    error,
+    refresh,
+    approvePlan,
+    reject,
+    reviewSteps,
+  };
+}
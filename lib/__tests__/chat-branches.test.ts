@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { findBranchLeaf, getActivePath, getBranchInfo, type BranchNode } from '@/lib/chat-branches'
+
+function node(id: string, parent_id: string | null, minute: number): BranchNode {
+  return { id, parent_id, created_at: `2026-01-01T00:${String(minute).padStart(2, '0')}:00.000Z` }
+}
+
+// u1 -> a1 -> u2 -> a2, with a2 regenerated as a2b and u2 edited as u2b -> a3
+const messages = [
+  node('u1', null, 0),
+  node('a1', 'u1', 1),
+  node('u2', 'a1', 2),
+  node('a2', 'u2', 3),
+  node('a2b', 'u2', 4),
+  node('u2b', 'a1', 5),
+  node('a3', 'u2b', 6),
+]
+
+const ids = (path: BranchNode[]) => path.map(message => message.id)
+
+describe('getActivePath', () => {
+  it('follows the newest branch without a stored leaf', () => {
+    expect(ids(getActivePath(messages))).toEqual(['u1', 'a1', 'u2b', 'a3'])
+  })
+
+  it('ends at the stored leaf', () => {
+    expect(ids(getActivePath(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('continues past a stored leaf that has gained replies', () => {
+    expect(ids(getActivePath(messages, 'u2'))).toEqual(['u1', 'a1', 'u2', 'a2b'])
+  })
+
+  it('treats orphans as roots and ignores unknown leaves', () => {
+    const orphaned = [node('x', 'deleted', 0), node('y', 'x', 1)]
+    expect(ids(getActivePath(orphaned, 'missing'))).toEqual(['x', 'y'])
+    expect(getActivePath([])).toEqual([])
+  })
+})
+
+describe('findBranchLeaf', () => {
+  it('descends through the newest replies', () => {
+    expect(findBranchLeaf(messages, 'u2')?.id).toBe('a2b')
+    expect(findBranchLeaf(messages, 'u1')?.id).toBe('a3')
+    expect(findBranchLeaf(messages, 'missing')).toBeUndefined()
+  })
+})
+
+describe('getBranchInfo', () => {
+  it('lists siblings for messages with alternatives', () => {
+    const path = getActivePath(messages, 'a2')
+    expect(getBranchInfo(messages, path)).toEqual({
+      u2: { siblingIds: ['u2', 'u2b'], index: 0 },
+      a2: { siblingIds: ['a2', 'a2b'], index: 0 },
+    })
+  })
+})
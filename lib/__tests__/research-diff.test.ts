@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { diffReports, diffSources } from '@/lib/research-diff'
+
+describe('diffReports', () => {
+  it('marks added and removed lines in reading order', () => {
+    const diff = diffReports('# Report\nA\nB\nC', '# Report\nA\nB2\nC\nD')
+    expect(diff).toEqual([
+      { op: 'same', text: '# Report' },
+      { op: 'same', text: 'A' },
+      { op: 'removed', text: 'B' },
+      { op: 'added', text: 'B2' },
+      { op: 'same', text: 'C' },
+      { op: 'added', text: 'D' },
+    ])
+  })
+
+  it('ignores line endings and trailing whitespace', () => {
+    expect(diffReports('A  \r\nB', 'A\nB').every(line => line.op === 'same')).toBe(true)
+  })
+})
+
+describe('diffSources', () => {
+  it('splits sources into added, removed and unchanged', () => {
+    expect(diffSources(['a', 'b'], ['b', 'c'])).toEqual({ added: ['c'], removed: ['a'], unchanged: ['b'] })
+  })
+})
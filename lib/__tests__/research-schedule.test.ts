@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { describeSchedule, isValidTimeZone, nextScheduledRun, parseSchedule, ScheduleError } from '@/lib/research-schedule'
+
+describe('parseSchedule', () => {
+  it('expands aliases, names, ranges and steps', () => {
+    const schedule = parseSchedule('@weekly')
+    expect([...schedule.minutes]).toEqual([0])
+    expect([...schedule.daysOfWeek]).toEqual([0])
+
+    const workdays = parseSchedule('30 */6 * jan-mar mon-fri')
+    expect([...workdays.hours]).toEqual([0, 6, 12, 18])
+    expect([...workdays.months]).toEqual([1, 2, 3])
+    expect([...workdays.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseSchedule('0 9 * * 7').daysOfWeek]).toEqual([0])
+  })
+
+  it('rejects expressions that run more than once an hour or are malformed', () => {
+    expect(() => parseSchedule('* * * * *')).toThrow(ScheduleError)
+    expect(() => parseSchedule('0 9 * *')).toThrow(ScheduleError)
+    expect(() => parseSchedule('0 25 * * *')).toThrow(ScheduleError)
+  })
+})
+
+describe('nextScheduledRun', () => {
+  it('finds the next wall-clock match in the time zone', () => {
+    const next = nextScheduledRun('0 9 * * 1', new Date('2026-10-18T10:17:30Z'), 'America/New_York')
+    expect(next?.toISOString()).toBe('2026-10-19T13:00:00.000Z')
+  })
+
+  it('is strictly after the given time', () => {
+    const next = nextScheduledRun('@daily', new Date('2026-01-01T00:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-01-02T00:00:00.000Z')
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th or any Monday; 2026-06-15 is a Monday, 2026-06-08 too
+    const next = nextScheduledRun('0 0 15 * 1', new Date('2026-06-02T12:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-06-08T00:00:00.000Z')
+  })
+
+  it('returns null for dates that never occur', () => {
+    expect(nextScheduledRun('0 0 30 2 *', new Date('2026-01-01T00:00:00Z'))).toBeNull()
+  })
+})
+
+describe('describeSchedule', () => {
+  it('describes common schedules and returns others as written', () => {
+    expect(describeSchedule('0 9 * * 1')).toBe('Mondays at 09:00')
+    expect(describeSchedule('@daily')).toBe('Daily at 00:00')
+    expect(describeSchedule('15 * * * *')).toBe('Hourly at :15')
+    expect(describeSchedule('0 9 1 * *')).toBe('Day 1 of each month at 09:00')
+    expect(describeSchedule('0 9 * * 1-5')).toBe('0 9 * * 1-5')
+  })
+})
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
@@ -0,0 +1,47 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { assertPublicUrl, fetchPublicUrl, isPrivateAddress, UnsafeUrlError } from '@/lib/safe-fetch'
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and reserved addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+})
+
+describe('assertPublicUrl', () => {
+  it('rejects other protocols and private hosts', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(UnsafeUrlError)
+    await expect(assertPublicUrl('http://127.0.0.1:3000/')).rejects.toThrow('not a public address')
+    await expect(assertPublicUrl('http://[::1]/')).rejects.toThrow('not a public address')
+    await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow(UnsafeUrlError)
+    await expect(assertPublicUrl('http://localhost/')).rejects.toThrow(UnsafeUrlError)
+  })
+
+  it('accepts public addresses', async () => {
+    expect((await assertPublicUrl('https://8.8.8.8/hook')).href).toBe('https://8.8.8.8/hook')
+  })
+})
+
+describe('fetchPublicUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('checks every redirect', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/admin' } }))
+    vi.stubGlobal('fetch', fetch)
+
+    await expect(fetchPublicUrl('https://8.8.8.8/image.png')).rejects.toThrow('not a public address')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,64 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { LocalAuth } from '@/lib/auth/providers/local-auth'
+
+// The provider prints the link instead of emailing it; tests read it from the log
+async function signIn(auth: LocalAuth, email: string) {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+  await auth.sendMagicLink(email, 'http://localhost:3000/')
+  const link = new URL(String(log.mock.calls[0][0]).split(': ').pop()!)
+  log.mockRestore()
+  return link.searchParams.get('token')!
+}
+
+describe('LocalAuth', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('prints the sign-in link instead of returning it', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const result = await new LocalAuth('secret').sendMagicLink('a@example.com', 'http://localhost:3000/chat')
+    expect(result).toBeUndefined()
+    expect(log.mock.calls[0][0]).toContain('http://localhost:3000/api/auth/verify?token=')
+    log.mockRestore()
+  })
+
+  it('signs in once per link with a stable user id', async () => {
+    const auth = new LocalAuth('secret')
+    const token = await signIn(auth, 'Someone@Example.com')
+
+    const session = await auth.verifyMagicLink(token)
+    expect(session?.user).toEqual({ id: LocalAuth.userIdFor('someone@example.com'), email: 'someone@example.com' })
+    expect(session?.user.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    expect(await auth.verifyMagicLink(token)).toBeNull()
+  })
+
+  it('verifies access tokens and renews sessions with refresh tokens', async () => {
+    const auth = new LocalAuth('secret')
+    const session = (await auth.verifyMagicLink(await signIn(auth, 'a@example.com')))!
+
+    expect(await auth.verifyAccessToken(session.accessToken)).toEqual(session.user)
+    // Each token only works for its own use
+    expect(await auth.verifyAccessToken(session.refreshToken)).toBeNull()
+    expect(await auth.refreshSession(session.accessToken)).toBeNull()
+
+    const refreshed = await auth.refreshSession(session.refreshToken)
+    expect(refreshed?.user).toEqual(session.user)
+    expect(await auth.verifyAccessToken(refreshed!.accessToken)).toEqual(session.user)
+  })
+
+  it('rejects expired tokens and tokens signed with another secret', async () => {
+    vi.useFakeTimers()
+    const auth = new LocalAuth('secret')
+    const session = (await auth.verifyMagicLink(await signIn(auth, 'a@example.com')))!
+
+    expect(await new LocalAuth('other').verifyAccessToken(session.accessToken)).toBeNull()
+    const [header, , signature] = session.accessToken.split('.')
+    const forged = Buffer.from(JSON.stringify({ sub: 'x', token_use: 'access', exp: 9999999999 })).toString('base64url')
+    expect(await auth.verifyAccessToken(`${header}.${forged}.${signature}`)).toBeNull()
+
+    vi.advanceTimersByTime(60 * 60 * 1000)
+    expect(await auth.verifyAccessToken(session.accessToken)).toBeNull()
+    expect(await auth.refreshSession(session.refreshToken)).not.toBeNull()
+  })
+})
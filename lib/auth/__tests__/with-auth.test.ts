@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/auth/cookies'
+
+// lib/auth caches the provider per process, so each test loads it afresh
+async function loadAuth() {
+  vi.resetModules()
+  const auth = await import('@/lib/auth')
+  const { LocalAuth } = await import('@/lib/auth/providers/local-auth')
+  return { ...auth, LocalAuth }
+}
+
+async function accessTokenFor(email: string) {
+  const { LocalAuth } = await loadAuth()
+  const auth = new LocalAuth()
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+  await auth.sendMagicLink(email, 'http://localhost:3000/')
+  const token = new URL(String(log.mock.calls[0][0]).split(': ').pop()!).searchParams.get('token')!
+  log.mockRestore()
+  return (await auth.verifyMagicLink(token))!
+}
+
+describe('withAuth', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_PROVIDER', 'local')
+    vi.stubEnv('AUTH_SECRET', 'test-secret')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('answers anonymous requests with 401 without running the handler', async () => {
+    const { withAuth } = await loadAuth()
+    const handler = vi.fn(async () => new Response('ok'))
+
+    const response = await withAuth(handler)(new Request('http://localhost/api/chats'), {})
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Authentication required' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid bearer tokens', async () => {
+    const { withAuth } = await loadAuth()
+    const request = new Request('http://localhost/api/chats', { headers: { Authorization: 'Bearer not-a-token' } })
+    expect((await withAuth(async () => new Response('ok'))(request, {})).status).toBe(401)
+  })
+
+  it('runs the handler as the bearer token\'s user', async () => {
+    const session = await accessTokenFor('a@example.com')
+    const { withAuth, getCurrentUser } = await loadAuth()
+    const request = new Request('http://localhost/api/chats', { headers: { Authorization: `Bearer ${session.accessToken}` } })
+
+    const response = await withAuth(async () => Response.json(getCurrentUser()))(request, {})
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(session.user)
+  })
+
+  it('renews an expired session from the refresh cookie', async () => {
+    const session = await accessTokenFor('a@example.com')
+    const { withAuth, getCurrentUser } = await loadAuth()
+    const request = new Request('http://localhost/api/chats', {
+      headers: { Cookie: `${REFRESH_TOKEN_COOKIE}=${session.refreshToken}` },
+    })
+
+    const response = await withAuth(async () => Response.json(getCurrentUser()))(request, {})
+    expect(await response.json()).toEqual(session.user)
+    expect(response.headers.get('set-cookie')).toContain(`${ACCESS_TOKEN_COOKIE}=`)
+  })
+
+  it('lets anonymous requests through when optional', async () => {
+    const { withAuth, getCurrentUser } = await loadAuth()
+    const response = await withAuth(async () => Response.json({ user: getCurrentUser() }), { optional: true })(
+      new Request('http://localhost/api/shared'),
+      {}
+    )
+    expect(await response.json()).toEqual({ user: null })
+  })
+
+  it('refuses the local provider in production unless allowed', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    const { withAuth, getAuthProvider } = await loadAuth()
+    expect(getAuthProvider()).toBeNull()
+    expect((await withAuth(async () => new Response('ok'))(new Request('http://localhost/api/chats'), {})).status).toBe(503)
+
+    vi.stubEnv('AUTH_ALLOW_LOCAL_IN_PRODUCTION', 'true')
+    expect((await loadAuth()).getAuthProvider()?.id).toBe('local')
+  })
+
+  it('runs handlers anonymously when auth is disabled', async () => {
+    vi.stubEnv('AUTH_PROVIDER', '')
+    const { withAuth, getCurrentUser } = await loadAuth()
+    const response = await withAuth(async () => Response.json({ user: getCurrentUser() }))(new Request('http://localhost/api/chats'), {})
+    expect(await response.json()).toEqual({ user: null })
+  })
+})
+
+describe('checkSchedulerSecret', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  const request = (authorization?: string) =>
+    new Request('http://localhost/api/research/monitors/tick', {
+      method: 'POST',
+      headers: authorization ? { authorization } : {},
+    })
+
+  it('requires the bearer secret when it is set', async () => {
+    vi.stubEnv('TEST_SCHEDULER_SECRET', 's3cret')
+    const { checkSchedulerSecret } = await loadAuth()
+
+    expect(checkSchedulerSecret(request('Bearer s3cret'), 'TEST_SCHEDULER_SECRET')).toBeNull()
+    expect(checkSchedulerSecret(request('Bearer wrong!'), 'TEST_SCHEDULER_SECRET')?.status).toBe(401)
+    expect(checkSchedulerSecret(request(), 'TEST_SCHEDULER_SECRET')?.status).toBe(401)
+  })
+
+  it('refuses every request on signed-in installs without a secret', async () => {
+    vi.stubEnv('TEST_SCHEDULER_SECRET', '')
+    vi.stubEnv('AUTH_PROVIDER', 'local')
+    const { checkSchedulerSecret } = await loadAuth()
+
+    expect(checkSchedulerSecret(request('Bearer '), 'TEST_SCHEDULER_SECRET')?.status).toBe(503)
+  })
+
+  it('lets requests through without sign-in or a secret', async () => {
+    vi.stubEnv('TEST_SCHEDULER_SECRET', '')
+    vi.stubEnv('AUTH_PROVIDER', '')
+    const { checkSchedulerSecret } = await loadAuth()
+
+    expect(checkSchedulerSecret(request(), 'TEST_SCHEDULER_SECRET')).toBeNull()
+  })
+})
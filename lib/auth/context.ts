@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuthUser } from './types'
+
+// Who the current request is made by; set by withAuth for the duration of a route handler
+export interface RequestAuth {
+  user: AuthUser | null
+  accessToken: string | null
+  // Database client carrying accessToken, created on first use (see
+  // getSupabase); background work on a user's behalf passes its own
+  client?: SupabaseClient | null
+}
+
+const requestAuth = new AsyncLocalStorage<RequestAuth>()
+
+export function runWithAuth<T>(auth: RequestAuth, fn: () => T): T {
+  return requestAuth.run(auth, fn)
+}
+
+export function getRequestAuth(): RequestAuth | undefined {
+  return requestAuth.getStore()
+}
+
+// The signed-in user, or null for anonymous requests and work outside a request
+export function getCurrentUser(): AuthUser | null {
+  return requestAuth.getStore()?.user ?? null
+}
@@ -0,0 +1,47 @@
+import type { AuthSession } from './types'
+
+export const ACCESS_TOKEN_COOKIE = 'auth-access-token'
+export const REFRESH_TOKEN_COOKIE = 'auth-refresh-token'
+
+// Refresh tokens outlive access tokens; the cookie keeps them for up to 30 days
+const REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60
+
+function serializeCookie(name: string, value: string, maxAge: number): string {
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.max(0, Math.floor(maxAge))}`,
+  ]
+  if (process.env.NODE_ENV === 'production') parts.push('Secure')
+  return parts.join('; ')
+}
+
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie')
+  if (!header) return null
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join('='))
+      } catch {
+        return null
+      }
+    }
+  }
+  return null
+}
+
+export function setSessionCookies(response: Response, session: AuthSession) {
+  const accessMaxAge = session.expiresAt - Date.now() / 1000
+  response.headers.append('Set-Cookie', serializeCookie(ACCESS_TOKEN_COOKIE, session.accessToken, accessMaxAge))
+  response.headers.append('Set-Cookie', serializeCookie(REFRESH_TOKEN_COOKIE, session.refreshToken, REFRESH_TOKEN_MAX_AGE))
+}
+
+export function clearSessionCookies(response: Response) {
+  response.headers.append('Set-Cookie', serializeCookie(ACCESS_TOKEN_COOKIE, '', 0))
+  response.headers.append('Set-Cookie', serializeCookie(REFRESH_TOKEN_COOKIE, '', 0))
+}
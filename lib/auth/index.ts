@@ -0,0 +1,144 @@
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { runWithAuth } from './context'
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, clearSessionCookies, readCookie, setSessionCookies } from './cookies'
+import { LocalAuth } from './providers/local-auth'
+import { SupabaseAuth } from './providers/supabase-auth'
+import type { AuthProvider, AuthProviderId, AuthSession, AuthUser } from './types'
+
+export type { AuthProvider, AuthProviderId, AuthSession, AuthUser, OAuthProviderId } from './types'
+export { getCurrentUser } from './context'
+export { setSessionCookies, clearSessionCookies } from './cookies'
+
+const PROVIDER_IDS: AuthProviderId[] = ['supabase', 'local']
+
+let cachedProvider: AuthProvider | null | undefined
+
+function createProvider(id: AuthProviderId): AuthProvider | null {
+  switch (id) {
+    case 'supabase':
+      if (!isPersistenceConfigured()) {
+        console.warn('[AUTH] AUTH_PROVIDER=supabase but Supabase is not configured')
+        return null
+      }
+      return new SupabaseAuth()
+
+    case 'local':
+      // Sign-in links only go to the server log, which is no check of who owns an address
+      if (process.env.NODE_ENV === 'production' && process.env.AUTH_ALLOW_LOCAL_IN_PRODUCTION !== 'true') {
+        console.warn('[AUTH] AUTH_PROVIDER=local is for development and tests; set AUTH_ALLOW_LOCAL_IN_PRODUCTION=true to use it in production')
+        return null
+      }
+      return new LocalAuth()
+  }
+}
+
+// True when AUTH_PROVIDER is set; every user-data route then requires sign-in
+export function isAuthEnabled(): boolean {
+  return !!process.env.AUTH_PROVIDER
+}
+
+/**
+ * The sign-in backend chosen by AUTH_PROVIDER ("supabase" or "local"). Null
+ * when auth is disabled, and also when it is misconfigured, in which case
+ * withAuth refuses requests rather than serving every user's data.
+ */
+export function getAuthProvider(): AuthProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider
+
+  const requested = process.env.AUTH_PROVIDER as AuthProviderId | undefined
+  if (requested && !PROVIDER_IDS.includes(requested)) {
+    console.warn(`[AUTH] Unknown AUTH_PROVIDER "${requested}"; expected one of ${PROVIDER_IDS.join(', ')}`)
+    cachedProvider = null
+  } else {
+    cachedProvider = requested ? createProvider(requested) : null
+  }
+
+  return cachedProvider
+}
+
+export interface ResolvedSession {
+  user: AuthUser | null
+  accessToken: string | null
+  // Set when the access token had expired and was renewed with the refresh token
+  refreshed?: AuthSession
+}
+
+// Who made the request: a bearer token, else the session cookies
+export async function resolveSession(request: Request): Promise<ResolvedSession> {
+  const provider = getAuthProvider()
+  if (!provider) return { user: null, accessToken: null }
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const accessToken = bearer || readCookie(request, ACCESS_TOKEN_COOKIE)
+  if (accessToken) {
+    const user = await provider.verifyAccessToken(accessToken)
+    if (user) return { user, accessToken }
+  }
+
+  const refreshToken = readCookie(request, REFRESH_TOKEN_COOKIE)
+  if (!bearer && refreshToken) {
+    const session = await provider.refreshSession(refreshToken)
+    if (session) return { user: session.user, accessToken: session.accessToken, refreshed: session }
+  }
+
+  return { user: null, accessToken: null }
+}
+
+/**
+ * Wrap a route handler so it runs as the signed-in user: lib/services queries
+ * made during it go through getSupabase() with the user's token and are
+ * scoped with getCurrentUser(). With auth enabled, anonymous requests get a
+ * 401 unless `optional` is set; with it disabled, handlers run as before.
+ */
+export function withAuth<R extends Request, C>(
+  handler: (request: R, context: C) => Promise<Response>,
+  options: { optional?: boolean } = {}
+) {
+  return async (request: R, context: C): Promise<Response> => {
+    if (isAuthEnabled() && !getAuthProvider()) {
+      return NextResponse.json({ error: 'Authentication is not configured correctly' }, { status: 503 })
+    }
+
+    const { user, accessToken, refreshed } = await resolveSession(request)
+    if (isAuthEnabled() && !user && !options.optional) {
+      const response = NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+      if (readCookie(request, REFRESH_TOKEN_COOKIE)) clearSessionCookies(response)
+      return response
+    }
+
+    const response = await runWithAuth({ user, accessToken }, () => handler(request, context))
+    if (refreshed) {
+      try {
+        setSessionCookies(response, refreshed)
+      } catch {
+        // Responses built with Response.redirect() have immutable headers;
+        // the next request refreshes the session again
+      }
+    }
+    return response
+  }
+}
+
+/**
+ * Guard for scheduled endpoints that act on every user's data (backups,
+ * research monitor ticks). With the secret in `secretEnv` set, requests need
+ * "Authorization: Bearer <secret>"; signed-in installs must set it. Returns
+ * the response to send instead, or null when the request may proceed.
+ */
+export function checkSchedulerSecret(request: Request, secretEnv: string): NextResponse | null {
+  const secret = process.env[secretEnv]
+  if (!secret) {
+    return isAuthEnabled()
+      ? NextResponse.json({ error: `${secretEnv} is not configured` }, { status: 503 })
+      : null
+  }
+
+  const given = Buffer.from(request.headers.get('authorization') || '')
+  const expected = Buffer.from(`Bearer ${secret}`)
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ error: 'Invalid scheduler secret' }, { status: 401 })
+  }
+  return null
+}
@@ -0,0 +1,139 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import type { AuthProvider, AuthSession, AuthUser, OAuthProviderId } from '../types'
+
+const ACCESS_TOKEN_SECONDS = 60 * 60
+const REFRESH_TOKEN_SECONDS = 30 * 24 * 60 * 60
+const MAGIC_LINK_SECONDS = 15 * 60
+
+type TokenUse = 'access' | 'refresh' | 'magic-link'
+
+interface LocalClaims {
+  sub: string
+  email: string
+  role: 'authenticated'
+  aud: 'authenticated'
+  token_use: TokenUse
+  jti: string
+  iat: number
+  exp: number
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+/**
+ * Stand-in for Supabase Auth in tests and local setups: accounts are email
+ * addresses, sign-in links are printed to the server log instead of emailed,
+ * and sessions are HS256 JWTs signed with AUTH_SECRET. The claims match
+ * Supabase's, so with AUTH_SECRET set to a development project's JWT secret
+ * the database accepts these tokens and row-level security applies as it
+ * does for real accounts. Anyone who can read the server log can sign in as
+ * anyone, so lib/auth refuses this provider in production unless
+ * AUTH_ALLOW_LOCAL_IN_PRODUCTION is set.
+ */
+export class LocalAuth implements AuthProvider {
+  id = 'local' as const
+  private secret: string
+  // Magic links work once; ids of spent links, kept until they would expire anyway
+  private usedLinks = new Map<string, number>()
+
+  constructor(secret = process.env.AUTH_SECRET) {
+    if (!secret) {
+      console.warn('[AUTH] AUTH_SECRET is not set; local sessions will not survive a restart')
+    }
+    this.secret = secret || randomBytes(32).toString('hex')
+  }
+
+  // Stable UUID per address, so a user keeps their data across sign-ins
+  static userIdFor(email: string): string {
+    const hex = createHash('sha1').update(`local-auth:${email.toLowerCase()}`).digest('hex')
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+  }
+
+  private sign(email: string, use: TokenUse, lifetimeSeconds: number): string {
+    const now = Math.floor(Date.now() / 1000)
+    const claims: LocalClaims = {
+      sub: LocalAuth.userIdFor(email),
+      email: email.toLowerCase(),
+      role: 'authenticated',
+      aud: 'authenticated',
+      token_use: use,
+      jti: randomUUID(),
+      iat: now,
+      exp: now + lifetimeSeconds,
+    }
+    const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`
+    const signature = createHmac('sha256', this.secret).update(unsigned).digest('base64url')
+    return `${unsigned}.${signature}`
+  }
+
+  private verify(token: string, use: TokenUse): LocalClaims | null {
+    const [header, payload, signature] = token.split('.')
+    if (!header || !payload || !signature) return null
+
+    const expected = createHmac('sha256', this.secret).update(`${header}.${payload}`).digest()
+    const actual = Buffer.from(signature, 'base64url')
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as LocalClaims
+      if (claims.token_use !== use || claims.exp <= Date.now() / 1000) return null
+      return claims
+    } catch {
+      return null
+    }
+  }
+
+  private userFrom(claims: LocalClaims): AuthUser {
+    return { id: claims.sub, email: claims.email }
+  }
+
+  private createSession(email: string): AuthSession {
+    return {
+      user: { id: LocalAuth.userIdFor(email), email: email.toLowerCase() },
+      accessToken: this.sign(email, 'access', ACCESS_TOKEN_SECONDS),
+      refreshToken: this.sign(email, 'refresh', REFRESH_TOKEN_SECONDS),
+      expiresAt: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_SECONDS,
+    }
+  }
+
+  async sendMagicLink(email: string, redirectTo: string): Promise<void> {
+    const url = new URL('/api/auth/verify', redirectTo)
+    url.searchParams.set('token', this.sign(email, 'magic-link', MAGIC_LINK_SECONDS))
+    url.searchParams.set('redirect_to', redirectTo)
+
+    console.log(`[AUTH] Sign-in link for ${email}: ${url}`)
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthSession | null> {
+    const claims = this.verify(token, 'magic-link')
+    if (!claims || this.usedLinks.has(claims.jti)) return null
+
+    const now = Date.now() / 1000
+    for (const [jti, exp] of this.usedLinks) {
+      if (exp <= now) this.usedLinks.delete(jti)
+    }
+    this.usedLinks.set(claims.jti, claims.exp)
+
+    return this.createSession(claims.email)
+  }
+
+  async getOAuthUrl(_provider: OAuthProviderId, _redirectTo: string): Promise<string> {
+    throw new Error('OAuth sign-in needs AUTH_PROVIDER=supabase')
+  }
+
+  async verifyAccessToken(accessToken: string): Promise<AuthUser | null> {
+    const claims = this.verify(accessToken, 'access')
+    return claims ? this.userFrom(claims) : null
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthSession | null> {
+    const claims = this.verify(refreshToken, 'refresh')
+    return claims ? this.createSession(claims.email) : null
+  }
+
+  // Tokens are stateless; signing out only clears the cookies
+  async signOut(): Promise<void> {}
+}
@@ -0,0 +1,99 @@
+import type { Session, User } from '@supabase/supabase-js'
+import { createSupabaseClient } from '@/lib/database/supabase'
+import type { AuthProvider, AuthSession, AuthUser, OAuthProviderId } from '../types'
+
+// Verified tokens are trusted for this long before Supabase is asked again
+const VERIFY_CACHE_MS = 60 * 1000
+
+function toUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.user_metadata?.full_name || user.user_metadata?.name,
+    avatarUrl: user.user_metadata?.avatar_url,
+  }
+}
+
+function toSession(session: Session): AuthSession {
+  return {
+    user: toUser(session.user),
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at || Math.floor(Date.now() / 1000) + session.expires_in,
+  }
+}
+
+/**
+ * Supabase Auth: email magic links and the OAuth providers enabled in the
+ * project's dashboard. Supabase's default email template and OAuth both
+ * return to the app with the session in the URL fragment, which the browser
+ * hands to POST /api/auth/session; a template linking to
+ * /api/auth/verify?token={{ .TokenHash }} is exchanged on the server instead.
+ */
+export class SupabaseAuth implements AuthProvider {
+  id = 'supabase' as const
+  private verified = new Map<string, { user: AuthUser; until: number }>()
+
+  // A fresh client per call, so no session is shared between requests
+  private get client() {
+    const client = createSupabaseClient()
+    if (!client) {
+      throw new Error('Supabase auth requires SUPABASE_URL and SUPABASE_ANON_KEY')
+    }
+    return client
+  }
+
+  async sendMagicLink(email: string, redirectTo: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    })
+    if (error) throw error
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthSession | null> {
+    const { data, error } = await this.client.auth.verifyOtp({ token_hash: token, type: 'email' })
+    if (error || !data.session) return null
+    return toSession(data.session)
+  }
+
+  async getOAuthUrl(provider: OAuthProviderId, redirectTo: string): Promise<string> {
+    const { data, error } = await this.client.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo, skipBrowserRedirect: true },
+    })
+    if (error) throw error
+    return data.url
+  }
+
+  async verifyAccessToken(accessToken: string): Promise<AuthUser | null> {
+    const now = Date.now()
+    const cached = this.verified.get(accessToken)
+    if (cached && cached.until > now) return cached.user
+
+    const { data, error } = await this.client.auth.getUser(accessToken)
+    if (error || !data.user) {
+      this.verified.delete(accessToken)
+      return null
+    }
+
+    for (const [token, entry] of this.verified) {
+      if (entry.until <= now) this.verified.delete(token)
+    }
+    const user = toUser(data.user)
+    this.verified.set(accessToken, { user, until: now + VERIFY_CACHE_MS })
+    return user
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthSession | null> {
+    const { data, error } = await this.client.auth.refreshSession({ refresh_token: refreshToken })
+    if (error || !data.session) return null
+    return toSession(data.session)
+  }
+
+  async signOut(accessToken: string): Promise<void> {
+    this.verified.delete(accessToken)
+    const { error } = await this.client.auth.admin.signOut(accessToken)
+    if (error) throw error
+  }
+}
@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server'
+
+// Where to send the browser after sign-in: the requested path on this site,
+// or its home page; never another origin
+export function safeRedirectUrl(request: NextRequest, target?: string | null): string {
+  const origin = request.nextUrl.origin
+  if (!target) return `${origin}/`
+
+  try {
+    const url = new URL(target, origin)
+    return url.origin === origin ? url.toString() : `${origin}/`
+  } catch {
+    return `${origin}/`
+  }
+}
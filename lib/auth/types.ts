@@ -0,0 +1,41 @@
+/**
+ * Sign-in for multi-user deployments. The backend is selected by
+ * AUTH_PROVIDER (see lib/auth/index.ts); without it the app runs anonymously
+ * as a single-user install, the way it always has.
+ */
+
+export type AuthProviderId = 'supabase' | 'local'
+
+export type OAuthProviderId = 'github' | 'google' | 'discord' | 'gitlab' | 'azure'
+
+export interface AuthUser {
+  // UUID; stored in the user_id column of the user's rows
+  id: string
+  email?: string
+  name?: string
+  avatarUrl?: string
+}
+
+export interface AuthSession {
+  user: AuthUser
+  accessToken: string
+  refreshToken: string
+  // Unix time in seconds
+  expiresAt: number
+}
+
+export interface AuthProvider {
+  id: AuthProviderId
+  // Sends a sign-in link to the address. Providers that can't send email
+  // print it to the server log; it is never returned to the caller.
+  sendMagicLink(email: string, redirectTo: string): Promise<void>
+  // Exchanges the token from a sign-in link that points at /api/auth/verify;
+  // null when it is invalid, expired or already used
+  verifyMagicLink(token: string): Promise<AuthSession | null>
+  // URL of the OAuth provider's consent page
+  getOAuthUrl(provider: OAuthProviderId, redirectTo: string): Promise<string>
+  // Returns null for invalid or expired tokens
+  verifyAccessToken(accessToken: string): Promise<AuthUser | null>
+  refreshSession(refreshToken: string): Promise<AuthSession | null>
+  signOut(accessToken: string): Promise<void>
+}
@@ -0,0 +1,103 @@
+import type { MessageBranchInfo } from '@/lib/database/supabase'
+
+/**
+ * Message tree helpers for conversation branching. Messages form a tree via
+ * parent_id: editing or regenerating a turn adds a sibling, and a chat shows
+ * one root-to-leaf path at a time.
+ */
+
+export interface BranchNode {
+  id: string
+  parent_id?: string | null
+  created_at: string
+}
+
+const ROOT = ''
+
+function byCreatedAt(a: BranchNode, b: BranchNode): number {
+  return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)
+}
+
+// Orphans (parent deleted or outside this chat) count as roots
+function parentKey(message: BranchNode, ids: Set<string>): string {
+  return message.parent_id && ids.has(message.parent_id) ? message.parent_id : ROOT
+}
+
+function groupChildren<T extends BranchNode>(messages: T[]): Map<string, T[]> {
+  const children = new Map<string, T[]>()
+  const ids = new Set(messages.map(message => message.id))
+
+  for (const message of [...messages].sort(byCreatedAt)) {
+    const parent = parentKey(message, ids)
+    const siblings = children.get(parent)
+    if (siblings) {
+      siblings.push(message)
+    } else {
+      children.set(parent, [message])
+    }
+  }
+
+  return children
+}
+
+function descendToLeaf<T extends BranchNode>(start: T, children: Map<string, T[]>): T {
+  let current = start
+  for (;;) {
+    const next = children.get(current.id)
+    if (!next || next.length === 0) return current
+    // Follow the newest reply, i.e. the most recent edit or regeneration
+    current = next[next.length - 1]
+  }
+}
+
+/**
+ * Leaf reached from a message by following its newest replies; switching to a
+ * branch shows that branch's latest continuation
+ */
+export function findBranchLeaf<T extends BranchNode>(messages: T[], messageId: string): T | undefined {
+  const start = messages.find(message => message.id === messageId)
+  return start && descendToLeaf(start, groupChildren(messages))
+}
+
+/**
+ * Messages from the root to the active leaf, oldest first. Without a known
+ * leaf the newest branch is shown.
+ */
+export function getActivePath<T extends BranchNode>(messages: T[], activeLeafId?: string | null): T[] {
+  if (messages.length === 0) return []
+
+  const children = groupChildren(messages)
+  const byId = new Map(messages.map(message => [message.id, message]))
+
+  const roots = children.get(ROOT) || []
+  const activeLeaf = activeLeafId ? byId.get(activeLeafId) : undefined
+  const start = activeLeaf || roots[roots.length - 1]
+  if (!start) return []
+
+  // The stored leaf may have gained replies since it was set
+  const path: T[] = []
+  for (let current: T | undefined = descendToLeaf(start, children); current; ) {
+    path.unshift(current)
+    current = current.parent_id ? byId.get(current.parent_id) : undefined
+  }
+  return path
+}
+
+/**
+ * Sibling info for each message on the path that has alternatives
+ */
+export function getBranchInfo<T extends BranchNode>(messages: T[], path: T[]): Record<string, MessageBranchInfo> {
+  const children = groupChildren(messages)
+  const ids = new Set(messages.map(message => message.id))
+  const branches: Record<string, MessageBranchInfo> = {}
+
+  for (const message of path) {
+    const siblings = children.get(parentKey(message, ids)) || []
+    if (siblings.length > 1) {
+      const siblingIds = siblings.map(sibling => sibling.id)
+      branches[message.id] = { siblingIds, index: siblingIds.indexOf(message.id) }
+    }
+  }
+
+  return branches
+}
@@ -1,4 +1,5 @@
 import { Message } from 'ai'
+import { cleanMessageContent } from '@/lib/message-metadata'
 
 // Generate intelligent chat title based on message content
 export function generateChatTitle(messages: Message[], maxLength: number = 50): string {
@@ -20,12 +21,12 @@ export function generateChatTitle(messages: Message[], maxLength: number = 50):
     // Fallback to any user message
     const anyUserMessage = messages.find(msg => msg.role === 'user' && msg.content.trim().length > 5)
     if (anyUserMessage) {
-      return truncateWithEllipsis(anyUserMessage.content.trim(), maxLength)
+      return truncateWithEllipsis(cleanMessageContent(anyUserMessage.content), maxLength)
     }
     return generateTimeBasedTitle()
   }
 
-  let content = firstUserMessage.content.trim()
+  let content = cleanMessageContent(firstUserMessage.content)
 
   // Clean up common patterns
   content = content
@@ -0,0 +1,179 @@
+/**
+ * Typed events sent alongside the chat text stream.
+ *
+ * Results that the UI renders as cards (generated media, search results,
+ * tool activity, workflow plans) travel as message annotations (`8:` parts in the AI SDK
+ * data stream protocol) instead of markers embedded in the `0:` text, so the
+ * assistant's text stays clean for copying, exports and chat titles. The same
+ * events are persisted in `messages.metadata`.
+ */
+
+import type { GeneratedVideo } from '@/lib/video-generation-types'
+
+// Bump when an event payload changes shape incompatibly
+export const CHAT_STREAM_EVENT_VERSION = 1
+
+export interface GeneratedImageInfo {
+  id?: string
+  url?: string
+  revisedPrompt?: string
+  [key: string]: any
+}
+
+export type ImageGeneratedData =
+  | {
+      success: true
+      prompt: string
+      images: GeneratedImageInfo[]
+      // As returned by /api/generate-image (model, quality, style, size, ...)
+      metadata?: Record<string, any>
+    }
+  | {
+      success: false
+      prompt: string
+      error: string
+      model?: string
+    }
+
+export interface VideoStartedData {
+  id: string
+  url: string
+  status: 'generating' | 'succeeded'
+  prompt: string
+  duration: GeneratedVideo['duration']
+  aspectRatio: GeneratedVideo['aspectRatio']
+  model: GeneratedVideo['model']
+  sourceImage?: string
+}
+
+export interface SearchResultItem {
+  title: string
+  url: string
+  date?: string
+  thumbnail?: string
+  description?: string
+}
+
+export interface SearchResultsData {
+  status: 'searching' | 'completed' | 'failed'
+  query?: string
+  error?: string
+  citations: string[]
+  searchResults: SearchResultItem[]
+  images: any[]
+  relatedQuestions: string[]
+}
+
+export interface TTSReadyData {
+  success: boolean
+  audio?: string
+  mimeType?: string
+  script?: string
+  error?: string
+  originalText?: string
+  metadata?: {
+    isMultiSpeaker?: boolean
+    speakers?: string[]
+    provider?: string
+    [key: string]: any
+  }
+}
+
+export interface ToolCallData {
+  toolCallId: string
+  toolName: string
+  args: Record<string, unknown>
+  status: 'started' | 'completed'
+  result?: string
+  isError?: boolean
+}
+
+// A workflow started from the chat; the UI follows it through /api/workflows
+export interface WorkflowStartedData {
+  workflowId: string
+  objective: string
+}
+
+export interface StreamErrorData {
+  message: string
+}
+
+export interface ChatStreamEventDataMap {
+  image_generated: ImageGeneratedData
+  video_started: VideoStartedData
+  search_results: SearchResultsData
+  tts_ready: TTSReadyData
+  tool_call: ToolCallData
+  workflow_started: WorkflowStartedData
+  error: StreamErrorData
+}
+
+export type ChatStreamEventType = keyof ChatStreamEventDataMap
+
+export type ChatStreamEvent = {
+  [T in ChatStreamEventType]: {
+    v: number
+    type: T
+    data: ChatStreamEventDataMap[T]
+  }
+}[ChatStreamEventType]
+
+export type ChatStreamEventOf<T extends ChatStreamEventType> = Extract<ChatStreamEvent, { type: T }>
+
+const EVENT_TYPES: ChatStreamEventType[] = [
+  'image_generated',
+  'video_started',
+  'search_results',
+  'tts_ready',
+  'tool_call',
+  'workflow_started',
+  'error'
+]
+
+export function createChatStreamEvent<T extends ChatStreamEventType>(
+  type: T,
+  data: ChatStreamEventDataMap[T]
+): ChatStreamEventOf<T> {
+  return { v: CHAT_STREAM_EVENT_VERSION, type, data } as ChatStreamEventOf<T>
+}
+
+/**
+ * Encode an event as a message annotation part of the data stream
+ */
+export function encodeChatStreamEvent<T extends ChatStreamEventType>(
+  type: T,
+  data: ChatStreamEventDataMap[T]
+): string {
+  return `8:${JSON.stringify([createChatStreamEvent(type, data)])}\n`
+}
+
+export function isChatStreamEvent(value: unknown): value is ChatStreamEvent {
+  if (!value || typeof value !== 'object') return false
+  const event = value as Record<string, unknown>
+  return typeof event.v === 'number' &&
+    event.v <= CHAT_STREAM_EVENT_VERSION &&
+    EVENT_TYPES.includes(event.type as ChatStreamEventType) &&
+    !!event.data && typeof event.data === 'object'
+}
+
+/**
+ * Events of one type, in stream order
+ */
+export function filterEvents<T extends ChatStreamEventType>(
+  events: ChatStreamEvent[],
+  type: T
+): ChatStreamEventOf<T>[] {
+  return events.filter((event): event is ChatStreamEventOf<T> => event.type === type)
+}
+
+/**
+ * Latest event of a type; later events supersede earlier ones
+ * (e.g. a search_results 'completed' after 'searching')
+ */
+export function findLatestEvent<T extends ChatStreamEventType>(
+  events: ChatStreamEvent[],
+  type: T
+): ChatStreamEventOf<T> | undefined {
+  const matching = filterEvents(events, type)
+  return matching[matching.length - 1]
+}
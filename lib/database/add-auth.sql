@@ -0,0 +1,154 @@
+-- Add per-user data isolation for multi-user accounts (AUTH_PROVIDER=supabase or local)
+--
+-- Every chat, image, video, audio and collection gets an owner, and row-level
+-- security limits signed-in users to their own rows. Rows without an owner
+-- (created before auth was enabled, or by installs running without it) stay
+-- visible to anonymous requests only, so single-user setups keep working.
+-- To hand existing data to an account:
+--   UPDATE chats SET user_id = '<user id>' WHERE user_id IS NULL;  -- likewise images, videos, audios, collections
+--
+-- Background media archival rewrites every user's rows and needs
+-- SUPABASE_SERVICE_ROLE_KEY once this is applied.
+
+-- Owner columns; rows inserted by a signed-in user default to that user
+ALTER TABLE chats ALTER COLUMN user_id SET DEFAULT auth.uid()::text;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS user_id TEXT DEFAULT auth.uid()::text;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS user_id TEXT DEFAULT auth.uid()::text;
+ALTER TABLE audios ADD COLUMN IF NOT EXISTS user_id TEXT DEFAULT auth.uid()::text;
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS user_id TEXT DEFAULT auth.uid()::text;
+
+CREATE INDEX IF NOT EXISTS idx_images_user_id ON images(user_id);
+CREATE INDEX IF NOT EXISTS idx_videos_user_id ON videos(user_id);
+CREATE INDEX IF NOT EXISTS idx_audios_user_id ON audios(user_id);
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id);
+
+-- A row is visible to its owner; unowned rows only to anonymous requests
+CREATE OR REPLACE FUNCTION owns_row(row_user_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN row_user_id IS NULL
+    ELSE row_user_id = auth.uid()::text
+  END
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their chats" ON chats;
+CREATE POLICY "Owners manage their chats" ON chats
+  FOR ALL USING (owns_row(user_id)) WITH CHECK (owns_row(user_id));
+
+-- Messages belong to whoever owns their chat
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their messages" ON messages;
+CREATE POLICY "Owners manage their messages" ON messages
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM chats WHERE chats.id = messages.chat_id AND owns_row(chats.user_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM chats WHERE chats.id = messages.chat_id AND owns_row(chats.user_id)));
+
+ALTER TABLE images ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their images" ON images;
+CREATE POLICY "Owners manage their images" ON images
+  FOR ALL USING (owns_row(user_id)) WITH CHECK (owns_row(user_id));
+
+ALTER TABLE videos ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their videos" ON videos;
+CREATE POLICY "Owners manage their videos" ON videos
+  FOR ALL USING (owns_row(user_id)) WITH CHECK (owns_row(user_id));
+
+ALTER TABLE audios ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their audios" ON audios;
+CREATE POLICY "Owners manage their audios" ON audios
+  FOR ALL USING (owns_row(user_id)) WITH CHECK (owns_row(user_id));
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their collections" ON collections;
+CREATE POLICY "Owners manage their collections" ON collections
+  FOR ALL USING (owns_row(user_id)) WITH CHECK (owns_row(user_id));
+
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their collection items" ON collection_items;
+CREATE POLICY "Owners manage their collection items" ON collection_items
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM collections WHERE collections.id = collection_items.collection_id AND owns_row(collections.user_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM collections WHERE collections.id = collection_items.collection_id AND owns_row(collections.user_id)));
+
+-- Views run with the caller's permissions so the policies above apply to them
+ALTER VIEW chat_summaries SET (security_invoker = true);
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_views WHERE viewname = 'library_items') THEN
+    ALTER VIEW library_items SET (security_invoker = true);
+  END IF;
+END $$;
+
+-- Storage quotas (scripts/database/add-canvas-state.sql): users may read their
+-- own usage; only track_file_usage changes it
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_tables WHERE tablename = 'user_storage_quotas') THEN
+    DROP POLICY IF EXISTS "Allow all operations on user_storage_quotas" ON user_storage_quotas;
+    DROP POLICY IF EXISTS "Users read their storage quota" ON user_storage_quotas;
+    CREATE POLICY "Users read their storage quota" ON user_storage_quotas
+      FOR SELECT USING (owns_row(user_id::text));
+
+    DROP POLICY IF EXISTS "Allow all operations on file_references" ON file_references;
+    DROP POLICY IF EXISTS "Owners manage their file references" ON file_references;
+    CREATE POLICY "Owners manage their file references" ON file_references
+      FOR ALL USING (owns_row(user_id::text)) WITH CHECK (owns_row(user_id::text));
+  END IF;
+END $$;
+
+-- Runs as its owner to update quotas past the read-only policy, and always
+-- charges the signed-in caller rather than whatever user id was passed
+CREATE OR REPLACE FUNCTION track_file_usage(
+  p_file_url TEXT,
+  p_file_type TEXT,
+  p_chat_id UUID DEFAULT NULL,
+  p_message_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_file_size BIGINT DEFAULT NULL,
+  p_content_type TEXT DEFAULT NULL,
+  p_original_name TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_file_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    p_user_id := auth.uid();
+  END IF;
+
+  SELECT id INTO v_file_id
+  FROM public.file_references
+  WHERE file_url = p_file_url
+    AND user_id IS NOT DISTINCT FROM p_user_id
+  LIMIT 1;
+
+  IF v_file_id IS NOT NULL THEN
+    UPDATE public.file_references
+    SET
+      reference_count = reference_count + 1,
+      last_accessed_at = NOW(),
+      updated_at = NOW()
+    WHERE id = v_file_id;
+  ELSE
+    INSERT INTO public.file_references (
+      file_url, file_type, chat_id, message_id, user_id, file_size, content_type, original_name
+    ) VALUES (
+      p_file_url, p_file_type, p_chat_id, p_message_id, p_user_id, p_file_size, p_content_type, p_original_name
+    )
+    RETURNING id INTO v_file_id;
+  END IF;
+
+  IF p_user_id IS NOT NULL AND p_file_size IS NOT NULL THEN
+    INSERT INTO public.user_storage_quotas (user_id, storage_used, file_count)
+    VALUES (p_user_id, p_file_size, 1)
+    ON CONFLICT (user_id) DO UPDATE
+    SET
+      storage_used = user_storage_quotas.storage_used + p_file_size,
+      file_count = user_storage_quotas.file_count + 1,
+      updated_at = NOW();
+  END IF;
+
+  RETURN v_file_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
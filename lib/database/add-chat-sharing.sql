@@ -0,0 +1,66 @@
+-- Add read-only share links for chats (/api/chats/<id>/share, pages at /share/<token>)
+--
+-- Publishing stores an immutable snapshot of the chat (messages of the active
+-- branch, generated media and search citations) under an unguessable token.
+-- Later edits to the chat don't change published snapshots; revoking a link,
+-- letting it expire or deleting the chat takes it down.
+
+CREATE TABLE IF NOT EXISTS chat_shares (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id TEXT, -- Owner's auth user id (see add-auth.sql); NULL without auth
+  title TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  redact_tool_results BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL: never expires
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_shares_chat_id ON chat_shares(chat_id, created_at DESC);
+
+-- Owners list and revoke their own links. Viewers never read the table
+-- directly: get_shared_chat below looks up a single token.
+ALTER TABLE chat_shares ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their chat shares" ON chat_shares;
+CREATE POLICY "Owners manage their chat shares" ON chat_shares
+  FOR ALL
+  USING (user_id IS NOT DISTINCT FROM auth.uid()::text)
+  WITH CHECK (user_id IS NOT DISTINCT FROM auth.uid()::text);
+
+-- The snapshot behind a live link, counting the view; no rows for unknown,
+-- revoked or expired tokens
+CREATE OR REPLACE FUNCTION get_shared_chat(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  snapshot JSONB,
+  redact_tool_results BOOLEAN,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  UPDATE public.chat_shares s
+  SET view_count = s.view_count + 1
+  WHERE s.token = p_token
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  RETURNING s.id, s.title, s.snapshot, s.redact_tool_results, s.expires_at, s.created_at
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_shared_chat(TEXT) TO anon, authenticated;
+
+-- Whether a link is live, without counting a view; /api/storage serves the
+-- media copied under shares/<token>/ only while it is
+CREATE OR REPLACE FUNCTION is_share_active(p_token TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_shares s
+    WHERE s.token = p_token
+      AND s.revoked_at IS NULL
+      AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_share_active(TEXT) TO anon, authenticated;
@@ -0,0 +1,69 @@
+-- Add collections: named, ordered groups of images, videos, audio and chats (/api/collections)
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  cover_url TEXT, -- Explicit cover image; defaults to the first image or video in the collection
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  metadata JSONB DEFAULT '{}'
+);
+
+-- Databases set up through /api/setup-database have an older collections table
+ALTER TABLE collections ADD COLUMN IF NOT EXISTS cover_url TEXT;
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('image', 'video', 'audio', 'chat')),
+  item_id UUID NOT NULL, -- Row in images, videos, audios or chats
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (collection_id, item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_item ON collection_items(item_type, item_id);
+
+DROP TRIGGER IF EXISTS update_collections_updated_at ON collections;
+CREATE TRIGGER update_collections_updated_at BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Items outlive deleted media otherwise (item_id spans four tables, so no foreign key)
+CREATE OR REPLACE FUNCTION delete_collection_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM collection_items WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS delete_image_collection_items ON images;
+CREATE TRIGGER delete_image_collection_items AFTER DELETE ON images
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('image');
+
+DROP TRIGGER IF EXISTS delete_video_collection_items ON videos;
+CREATE TRIGGER delete_video_collection_items AFTER DELETE ON videos
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('video');
+
+DROP TRIGGER IF EXISTS delete_audio_collection_items ON audios;
+CREATE TRIGGER delete_audio_collection_items AFTER DELETE ON audios
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('audio');
+
+DROP TRIGGER IF EXISTS delete_chat_collection_items ON chats;
+CREATE TRIGGER delete_chat_collection_items AFTER DELETE ON chats
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('chat');
+
+-- Carry over images from the old collection_images table
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'collection_images') THEN
+    INSERT INTO collection_items (collection_id, item_type, item_id, position, added_at)
+    SELECT ci.collection_id, 'image', i.id,
+      ROW_NUMBER() OVER (PARTITION BY ci.collection_id ORDER BY ci.added_at) - 1, ci.added_at
+    FROM collection_images ci
+    JOIN images i ON i.id::text = ci.image_id OR i.metadata->>'localId' = ci.image_id
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
@@ -0,0 +1,215 @@
+-- Add full-text and semantic search over messages, images and videos (/api/search/library)
+
+-- Full-text search vectors, kept up to date by Postgres
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE images ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(prompt, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(metadata->>'tags', '')), 'A') || -- JSON array of tags
+    setweight(to_tsvector('english', coalesce(revised_prompt, '')), 'B')
+  ) STORED;
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(prompt, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_images_search_vector ON images USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_videos_search_vector ON videos USING GIN (search_vector);
+
+-- Gemini embeddings for semantic ranking (optional, needs the pgvector extension)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS library_embeddings (
+  item_type TEXT NOT NULL CHECK (item_type IN ('message', 'image', 'video')),
+  item_id UUID NOT NULL, -- Row in messages, images or videos
+  embedding vector(768) NOT NULL,
+  model TEXT NOT NULL, -- Embedding model, e.g. 'text-embedding-004'
+  content_hash TEXT NOT NULL, -- Hash of the embedded text, to skip unchanged items
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_embeddings_vector ON library_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Searchable items from all three tables, with the filter columns the route supports
+CREATE OR REPLACE VIEW library_items AS
+SELECT
+  'message'::TEXT AS item_type,
+  m.id AS item_id,
+  m.chat_id,
+  c.title AS chat_title,
+  m.role,
+  m.content,
+  NULL::TEXT AS url,
+  NULL::TEXT AS thumbnail_url,
+  c.model,
+  m.created_at,
+  m.search_vector
+FROM messages m
+JOIN chats c ON c.id = m.chat_id
+UNION ALL
+SELECT
+  'image'::TEXT,
+  i.id,
+  i.chat_id,
+  c.title,
+  NULL,
+  concat_ws(E'\n', i.prompt, i.revised_prompt),
+  i.url,
+  NULL,
+  i.model,
+  i.created_at,
+  i.search_vector
+FROM images i
+LEFT JOIN chats c ON c.id = i.chat_id
+UNION ALL
+SELECT
+  'video'::TEXT,
+  v.id,
+  v.chat_id,
+  c.title,
+  NULL,
+  v.prompt,
+  v.url,
+  v.thumbnail_url,
+  v.model,
+  v.created_at,
+  v.search_vector
+FROM videos v
+LEFT JOIN chats c ON c.id = v.chat_id
+WHERE v.status = 'completed';
+
+-- Full-text search; snippets mark matches with \x02 ... \x03 for the server to turn into ranges
+CREATE OR REPLACE FUNCTION search_library(
+  search_query TEXT,
+  item_types TEXT[] DEFAULT ARRAY['message', 'image', 'video'],
+  filter_chat_id UUID DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL,
+  date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  chat_id UUID,
+  chat_title TEXT,
+  role TEXT,
+  content TEXT,
+  url TEXT,
+  thumbnail_url TEXT,
+  model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    li.item_type,
+    li.item_id,
+    li.chat_id,
+    li.chat_title,
+    li.role,
+    li.content,
+    li.url,
+    li.thumbnail_url,
+    li.model,
+    li.created_at,
+    ts_headline('english', li.content, query.q,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    ts_rank_cd(li.search_vector, query.q, 32) AS rank -- Normalized to 0..1
+  FROM library_items li, query
+  WHERE li.search_vector @@ query.q
+    AND li.item_type = ANY(item_types)
+    AND (filter_chat_id IS NULL OR li.chat_id = filter_chat_id)
+    AND (filter_model IS NULL OR li.model = filter_model)
+    AND (date_from IS NULL OR li.created_at >= date_from)
+    AND (date_to IS NULL OR li.created_at <= date_to)
+  ORDER BY rank DESC, li.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Nearest items by embedding, with the same filters as search_library
+CREATE OR REPLACE FUNCTION match_library_embeddings(
+  query_embedding vector(768),
+  item_types TEXT[] DEFAULT ARRAY['message', 'image', 'video'],
+  filter_chat_id UUID DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL,
+  date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  chat_id UUID,
+  chat_title TEXT,
+  role TEXT,
+  content TEXT,
+  url TEXT,
+  thumbnail_url TEXT,
+  model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  similarity REAL
+) AS $$
+  SELECT
+    li.item_type,
+    li.item_id,
+    li.chat_id,
+    li.chat_title,
+    li.role,
+    li.content,
+    li.url,
+    li.thumbnail_url,
+    li.model,
+    li.created_at,
+    (1 - (e.embedding <=> query_embedding))::REAL AS similarity
+  FROM library_embeddings e
+  JOIN library_items li ON li.item_type = e.item_type AND li.item_id = e.item_id
+  WHERE e.item_type = ANY(item_types)
+    AND (filter_chat_id IS NULL OR li.chat_id = filter_chat_id)
+    AND (filter_model IS NULL OR li.model = filter_model)
+    AND (date_from IS NULL OR li.created_at >= date_from)
+    AND (date_to IS NULL OR li.created_at <= date_to)
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Items without an up-to-date embedding, for backfilling existing chats and media
+CREATE OR REPLACE FUNCTION library_items_missing_embeddings(max_items INTEGER DEFAULT 100)
+RETURNS TABLE (item_type TEXT, item_id UUID, content TEXT) AS $$
+  SELECT li.item_type, li.item_id, li.content
+  FROM library_items li
+  LEFT JOIN library_embeddings e ON e.item_type = li.item_type AND e.item_id = li.item_id
+  WHERE e.item_id IS NULL AND length(trim(li.content)) > 0
+  ORDER BY li.created_at DESC
+  LIMIT max_items;
+$$ LANGUAGE sql STABLE;
+
+-- Embeddings outlive deleted items otherwise (item_id spans three tables, so no foreign key)
+CREATE OR REPLACE FUNCTION delete_library_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM library_embeddings WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS delete_message_embedding ON messages;
+CREATE TRIGGER delete_message_embedding AFTER DELETE ON messages
+  FOR EACH ROW EXECUTE FUNCTION delete_library_embedding('message');
+
+DROP TRIGGER IF EXISTS delete_image_embedding ON images;
+CREATE TRIGGER delete_image_embedding AFTER DELETE ON images
+  FOR EACH ROW EXECUTE FUNCTION delete_library_embedding('image');
+
+DROP TRIGGER IF EXISTS delete_video_embedding ON videos;
+CREATE TRIGGER delete_video_embedding AFTER DELETE ON videos
+  FOR EACH ROW EXECUTE FUNCTION delete_library_embedding('video');
@@ -0,0 +1,25 @@
+-- Add background archival of generated media to durable storage (/api/media-archive)
+-- Provider URLs (replicate.delivery, HuggingFace, ...) expire; each job copies one
+-- URL column into storage and rewrites it.
+
+CREATE TABLE IF NOT EXISTS media_archive_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video', 'audio')),
+  media_id UUID NOT NULL,
+  field TEXT NOT NULL DEFAULT 'url' CHECK (field IN ('url', 'thumbnail_url')),
+  source_url TEXT NOT NULL,
+  -- 'dead': gave up after repeated failures (the dead-letter list)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  archived_url TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (media_type, media_id, field)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_archive_jobs_due ON media_archive_jobs(status, next_attempt_at);
+
+CREATE TRIGGER update_media_archive_jobs_updated_at BEFORE UPDATE ON media_archive_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Add message branching so editing or regenerating an earlier turn forks the
+-- conversation instead of overwriting it
+
+-- Each message points at the message it replies to; siblings share a parent
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+
+-- Last message of the branch currently shown for a chat
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+
+-- Existing chats are linear: link each message to the one before it
+UPDATE messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+) ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
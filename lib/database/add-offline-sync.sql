@@ -0,0 +1,27 @@
+-- Add support for syncing chats and media created offline (/api/sync)
+
+-- Create audios table (generated speech, previously only kept in the browser's IndexedDB)
+CREATE TABLE IF NOT EXISTS audios (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  url TEXT NOT NULL, -- Blob storage URL (or data URL without blob storage)
+  text TEXT NOT NULL, -- Text the audio was generated from
+  script TEXT, -- Formatted script for multi-speaker audio
+  mime_type TEXT NOT NULL DEFAULT 'audio/wav',
+  duration REAL, -- Duration in seconds
+  voice TEXT,
+  provider TEXT, -- 'gemini', 'wavespeed', ...
+  is_multi_speaker BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  metadata JSONB DEFAULT '{}' -- localId: id the browser created the audio with
+);
+
+CREATE INDEX IF NOT EXISTS idx_audios_chat_id ON audios(chat_id);
+CREATE INDEX IF NOT EXISTS idx_audios_created_at ON audios(created_at DESC);
+
+-- Look up rows by the id the browser created them with, so retried syncs don't duplicate them
+CREATE INDEX IF NOT EXISTS idx_chats_client_id ON chats((metadata->>'clientId'));
+CREATE INDEX IF NOT EXISTS idx_messages_client_id ON messages(chat_id, (metadata->>'clientId'));
+CREATE INDEX IF NOT EXISTS idx_images_local_id ON images((metadata->>'localId'));
+CREATE INDEX IF NOT EXISTS idx_videos_local_id ON videos((metadata->>'localId'));
+CREATE INDEX IF NOT EXISTS idx_audios_local_id ON audios((metadata->>'localId'));
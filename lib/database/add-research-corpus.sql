@@ -0,0 +1,80 @@
+-- Add document corpora for deep research (/api/research/corpus)
+--
+-- Uploaded files, pasted text and MCP resources are split into chunks and
+-- embedded with Gemini, so a research session can retrieve from them instead
+-- of (or as well as) searching the web. Without a database the same index is
+-- kept in local JSON files (see lib/research-corpus/file-index.ts).
+
+-- Needs the pgvector extension, like add-library-search.sql
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS research_documents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT DEFAULT auth.uid()::text, -- Owner's auth user id (see add-auth.sql); NULL without auth
+  name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  origin TEXT NOT NULL CHECK (origin IN ('upload', 'mcp', 'text')),
+  source_uri TEXT, -- MCP resource URI or stored file URL
+  content_hash TEXT NOT NULL, -- SHA-256 of the extracted text, to skip re-adding the same document
+  char_count INTEGER NOT NULL DEFAULT 0,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS research_chunks (
+  document_id UUID NOT NULL REFERENCES research_documents(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL, -- Order within the document; corpus://<document id>/<position> in citations
+  heading TEXT, -- Nearest Markdown heading above the chunk
+  content TEXT NOT NULL,
+  embedding vector(768) NOT NULL,
+  model TEXT NOT NULL, -- Embedding model, e.g. 'text-embedding-004'
+  PRIMARY KEY (document_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_documents_user_id ON research_documents(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_documents_hash ON research_documents(user_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_research_chunks_vector ON research_chunks
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Nearest chunks of the given documents; row-level security limits them to the caller's
+CREATE OR REPLACE FUNCTION match_research_chunks(
+  query_embedding vector(768),
+  document_ids UUID[],
+  match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_name TEXT,
+  "position" INTEGER,
+  heading TEXT,
+  content TEXT,
+  similarity REAL
+) AS $$
+  SELECT
+    c.document_id,
+    d.name,
+    c.position,
+    c.heading,
+    c.content,
+    (1 - (c.embedding <=> query_embedding))::REAL AS similarity
+  FROM research_chunks c
+  JOIN research_documents d ON d.id = c.document_id
+  WHERE c.document_id = ANY(document_ids)
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Documents belong to their owner; chunks to whoever owns their document
+ALTER TABLE research_documents ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research documents" ON research_documents;
+CREATE POLICY "Owners manage their research documents" ON research_documents
+  FOR ALL
+  USING (user_id IS NOT DISTINCT FROM auth.uid()::text)
+  WITH CHECK (user_id IS NOT DISTINCT FROM auth.uid()::text);
+
+ALTER TABLE research_chunks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research chunks" ON research_chunks;
+CREATE POLICY "Owners manage their research chunks" ON research_chunks
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM research_documents d WHERE d.id = research_chunks.document_id AND d.user_id IS NOT DISTINCT FROM auth.uid()::text))
+  WITH CHECK (EXISTS (SELECT 1 FROM research_documents d WHERE d.id = research_chunks.document_id AND d.user_id IS NOT DISTINCT FROM auth.uid()::text));
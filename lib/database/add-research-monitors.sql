@@ -0,0 +1,46 @@
+-- Add scheduled research monitors (/api/research/monitors)
+--
+-- A monitor is a saved research query with a cron schedule. Each due run is
+-- a research session linked back to the monitor; when it finishes, its report
+-- and sources are diffed against the monitor's previous run and a summary is
+-- posted to the monitor's chat and webhook. Runs are started by calls to
+-- /api/research/monitors/tick, e.g. from cron every few minutes.
+-- Run add-research-sessions.sql first.
+
+CREATE TABLE IF NOT EXISTS research_monitors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT DEFAULT auth.uid()::text, -- Owner's auth user id (see add-auth.sql); NULL without auth
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}', -- DeepResearchRequestOptions every run starts with
+  schedule TEXT NOT NULL, -- Cron expression (see lib/research-schedule.ts)
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL, -- Chat run summaries are posted to
+  webhook_url TEXT, -- Also receives each run summary as JSON
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_session_id UUID REFERENCES research_sessions(id) ON DELETE SET NULL, -- Latest run
+  reported_session_id UUID REFERENCES research_sessions(id) ON DELETE SET NULL, -- Latest run summarized
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE research_sessions ADD COLUMN IF NOT EXISTS monitor_id UUID REFERENCES research_monitors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_research_monitors_user_id ON research_monitors(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_monitors_due ON research_monitors(next_run_at) WHERE enabled;
+CREATE INDEX IF NOT EXISTS idx_research_sessions_monitor_id ON research_sessions(monitor_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_research_monitors_updated_at ON research_monitors;
+CREATE TRIGGER update_research_monitors_updated_at BEFORE UPDATE ON research_monitors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Monitors belong to their owner; scheduled runs use the service role
+ALTER TABLE research_monitors ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research monitors" ON research_monitors;
+CREATE POLICY "Owners manage their research monitors" ON research_monitors
+  FOR ALL
+  USING (user_id IS NOT DISTINCT FROM auth.uid()::text)
+  WITH CHECK (user_id IS NOT DISTINCT FROM auth.uid()::text);
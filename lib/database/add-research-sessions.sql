@@ -0,0 +1,80 @@
+-- Add persisted deep research sessions (/api/research)
+--
+-- A session is one run of DeepResearchService: the query and options it ran
+-- with, its latest phase and progress, and the final report. Findings are
+-- kept per phase and sources per URL, so a reopened session shows what the
+-- run found along the way. Re-runs point at the session they repeat, which is
+-- what the history view diffs against.
+
+CREATE TABLE IF NOT EXISTS research_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL, -- Chat the research was started from
+  rerun_of UUID REFERENCES research_sessions(id) ON DELETE SET NULL,
+  user_id TEXT DEFAULT auth.uid()::text, -- Owner's auth user id (see add-auth.sql); NULL without auth
+  query TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}', -- DeepResearchRequestOptions the run was started with
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  phase TEXT NOT NULL DEFAULT 'initializing',
+  progress INTEGER NOT NULL DEFAULT 0,
+  report TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS research_findings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES research_sessions(id) ON DELETE CASCADE,
+  phase TEXT NOT NULL,
+  content TEXT NOT NULL,
+  confidence REAL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, phase)
+);
+
+CREATE TABLE IF NOT EXISTS research_sources (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES research_sessions(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  phase TEXT, -- Phase the source was first cited in
+  position INTEGER NOT NULL DEFAULT 0,
+  citation_number INTEGER, -- n of the report's [n] citations; NULL for URLs only found in the text
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, url)
+);
+
+-- Databases set up before citation-grounded reports
+ALTER TABLE research_sources ADD COLUMN IF NOT EXISTS citation_number INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_research_sessions_user_id ON research_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_sessions_chat_id ON research_sessions(chat_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_sessions_rerun_of ON research_sessions(rerun_of);
+CREATE INDEX IF NOT EXISTS idx_research_sources_session ON research_sources(session_id, position);
+
+DROP TRIGGER IF EXISTS update_research_sessions_updated_at ON research_sessions;
+CREATE TRIGGER update_research_sessions_updated_at BEFORE UPDATE ON research_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Sessions belong to their owner; findings and sources to whoever owns their session
+ALTER TABLE research_sessions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research sessions" ON research_sessions;
+CREATE POLICY "Owners manage their research sessions" ON research_sessions
+  FOR ALL
+  USING (user_id IS NOT DISTINCT FROM auth.uid()::text)
+  WITH CHECK (user_id IS NOT DISTINCT FROM auth.uid()::text);
+
+ALTER TABLE research_findings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research findings" ON research_findings;
+CREATE POLICY "Owners manage their research findings" ON research_findings
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = research_findings.session_id AND s.user_id IS NOT DISTINCT FROM auth.uid()::text))
+  WITH CHECK (EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = research_findings.session_id AND s.user_id IS NOT DISTINCT FROM auth.uid()::text));
+
+ALTER TABLE research_sources ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Owners manage their research sources" ON research_sources;
+CREATE POLICY "Owners manage their research sources" ON research_sources
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = research_sources.session_id AND s.user_id IS NOT DISTINCT FROM auth.uid()::text))
+  WITH CHECK (EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = research_sources.session_id AND s.user_id IS NOT DISTINCT FROM auth.uid()::text));
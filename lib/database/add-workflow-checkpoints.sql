@@ -0,0 +1,45 @@
+-- Add LangGraph workflow checkpoint tables so workflow runs survive restarts
+
+-- Create workflow runs table (one row per workflow, id is the LangGraph thread_id)
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id TEXT PRIMARY KEY,
+  chat_id TEXT NOT NULL, -- Chat the workflow was started from
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL, -- 'research', 'deep-research', 'code', ...
+  objective TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'planning', -- 'planning', 'executing', 'reviewing', 'completed', 'failed', 'paused'
+  current_step INTEGER NOT NULL DEFAULT 0,
+  total_steps INTEGER NOT NULL DEFAULT 0,
+  last_completed_step_id TEXT, -- Last PlannedStep that finished successfully
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create checkpoints table (serialized graph state after each super-step)
+CREATE TABLE IF NOT EXISTS workflow_checkpoints (
+  thread_id TEXT NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL, -- Time-ordered, so the latest sorts last
+  parent_checkpoint_id TEXT,
+  checkpoint JSONB NOT NULL, -- { type, data } from the LangGraph serializer
+  metadata JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+-- Create pending writes table (node outputs not yet folded into a checkpoint)
+CREATE TABLE IF NOT EXISTS workflow_checkpoint_writes (
+  thread_id TEXT NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  value JSONB NOT NULL,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_chat_id ON workflow_runs(chat_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_checkpoints_thread ON workflow_checkpoints(thread_id, checkpoint_id DESC);
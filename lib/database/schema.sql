@@ -7,7 +7,7 @@ CREATE TABLE IF NOT EXISTS chats (
   model TEXT NOT NULL DEFAULT 'gemini-2.0-flash-exp',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  user_id TEXT, -- For future auth implementation
+  user_id TEXT, -- Owner's auth user id (see add-auth.sql); NULL without auth
   metadata JSONB DEFAULT '{}'
 );
 
@@ -19,9 +19,13 @@ CREATE TABLE IF NOT EXISTS messages (
   content TEXT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   attachments JSONB DEFAULT '[]', -- Store file attachments metadata
-  metadata JSONB DEFAULT '{}' -- Store additional metadata like tool results
+  metadata JSONB DEFAULT '{}', -- Store additional metadata like tool results
+  parent_id UUID REFERENCES messages(id) ON DELETE CASCADE -- Message this one replies to; siblings are branches
 );
 
+-- Last message of the branch currently shown for each chat
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
 -- Create images table
 CREATE TABLE IF NOT EXISTS images (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -36,6 +40,7 @@ CREATE TABLE IF NOT EXISTS images (
   model TEXT NOT NULL,
   is_uploaded BOOLEAN DEFAULT FALSE,
   original_image_id TEXT, -- Changed from UUID to TEXT to support local image IDs
+  user_id TEXT, -- Owner's auth user id
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   metadata JSONB DEFAULT '{}'
 );
@@ -55,21 +60,182 @@ CREATE TABLE IF NOT EXISTS videos (
   status TEXT NOT NULL DEFAULT 'completed', -- 'generating', 'completed', 'failed'
   final_elapsed_time INTEGER, -- Final generation time in seconds
   error_message TEXT, -- Error message if failed
+  user_id TEXT, -- Owner's auth user id
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   completed_at TIMESTAMP WITH TIME ZONE,
   metadata JSONB DEFAULT '{}'
 );
 
+-- Create audios table
+CREATE TABLE IF NOT EXISTS audios (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  url TEXT NOT NULL, -- Blob storage URL
+  text TEXT NOT NULL, -- Text the audio was generated from
+  script TEXT, -- Formatted script for multi-speaker audio
+  mime_type TEXT NOT NULL DEFAULT 'audio/wav',
+  duration REAL, -- Duration in seconds
+  voice TEXT,
+  provider TEXT,
+  is_multi_speaker BOOLEAN DEFAULT FALSE,
+  user_id TEXT, -- Owner's auth user id
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  metadata JSONB DEFAULT '{}'
+);
+
+-- Create collections tables (named, ordered groups of images, videos, audio and chats)
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  cover_url TEXT,
+  user_id TEXT, -- Owner's auth user id
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  metadata JSONB DEFAULT '{}'
+);
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('image', 'video', 'audio', 'chat')),
+  item_id UUID NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (collection_id, item_type, item_id)
+);
+
+-- Create media archive jobs table (copies expiring provider URLs to durable storage)
+CREATE TABLE IF NOT EXISTS media_archive_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video', 'audio')),
+  media_id UUID NOT NULL,
+  field TEXT NOT NULL DEFAULT 'url' CHECK (field IN ('url', 'thumbnail_url')),
+  source_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  archived_url TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (media_type, media_id, field)
+);
+
+-- Create chat shares table (read-only snapshots behind share links; the
+-- get_shared_chat() and is_share_active() functions viewers go through are in
+-- add-chat-sharing.sql)
+CREATE TABLE IF NOT EXISTS chat_shares (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id TEXT, -- Owner's auth user id
+  title TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  redact_tool_results BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create deep research tables (persisted DeepResearchService runs; their row-level
+-- security policies are in add-research-sessions.sql)
+CREATE TABLE IF NOT EXISTS research_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  rerun_of UUID REFERENCES research_sessions(id) ON DELETE SET NULL,
+  user_id TEXT, -- Owner's auth user id
+  query TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  phase TEXT NOT NULL DEFAULT 'initializing',
+  progress INTEGER NOT NULL DEFAULT 0,
+  report TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS research_findings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES research_sessions(id) ON DELETE CASCADE,
+  phase TEXT NOT NULL,
+  content TEXT NOT NULL,
+  confidence REAL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, phase)
+);
+
+CREATE TABLE IF NOT EXISTS research_sources (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES research_sessions(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  title TEXT,
+  phase TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  citation_number INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, url)
+);
+
+-- Scheduled research queries; each run is a research session (policies in
+-- add-research-monitors.sql)
+CREATE TABLE IF NOT EXISTS research_monitors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT, -- Owner's auth user id
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}',
+  schedule TEXT NOT NULL, -- Cron expression
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  webhook_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_session_id UUID REFERENCES research_sessions(id) ON DELETE SET NULL,
+  reported_session_id UUID REFERENCES research_sessions(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE research_sessions ADD COLUMN IF NOT EXISTS monitor_id UUID REFERENCES research_monitors(id) ON DELETE SET NULL;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_chats_user_id ON chats(user_id);
+CREATE INDEX IF NOT EXISTS idx_images_user_id ON images(user_id);
+CREATE INDEX IF NOT EXISTS idx_videos_user_id ON videos(user_id);
+CREATE INDEX IF NOT EXISTS idx_audios_user_id ON audios(user_id);
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id);
 CREATE INDEX IF NOT EXISTS idx_chats_created_at ON chats(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
 CREATE INDEX IF NOT EXISTS idx_images_chat_id ON images(chat_id);
 CREATE INDEX IF NOT EXISTS idx_images_created_at ON images(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_videos_chat_id ON videos(chat_id);
 CREATE INDEX IF NOT EXISTS idx_videos_created_at ON videos(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_videos_status ON videos(status);
+CREATE INDEX IF NOT EXISTS idx_audios_chat_id ON audios(chat_id);
+CREATE INDEX IF NOT EXISTS idx_chats_client_id ON chats((metadata->>'clientId'));
+CREATE INDEX IF NOT EXISTS idx_messages_client_id ON messages(chat_id, (metadata->>'clientId'));
+CREATE INDEX IF NOT EXISTS idx_images_local_id ON images((metadata->>'localId'));
+CREATE INDEX IF NOT EXISTS idx_videos_local_id ON videos((metadata->>'localId'));
+CREATE INDEX IF NOT EXISTS idx_audios_local_id ON audios((metadata->>'localId'));
+CREATE INDEX IF NOT EXISTS idx_media_archive_jobs_due ON media_archive_jobs(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_item ON collection_items(item_type, item_id);
+CREATE INDEX IF NOT EXISTS idx_chat_shares_chat_id ON chat_shares(chat_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_sessions_user_id ON research_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_sessions_chat_id ON research_sessions(chat_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_sessions_rerun_of ON research_sessions(rerun_of);
+CREATE INDEX IF NOT EXISTS idx_research_sources_session ON research_sources(session_id, position);
+CREATE INDEX IF NOT EXISTS idx_research_monitors_user_id ON research_monitors(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_research_monitors_due ON research_monitors(next_run_at) WHERE enabled;
+CREATE INDEX IF NOT EXISTS idx_research_sessions_monitor_id ON research_sessions(monitor_id, created_at DESC);
 
 -- Create updated_at trigger for chats table
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -83,6 +249,36 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_chats_updated_at BEFORE UPDATE ON chats
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_media_archive_jobs_updated_at BEFORE UPDATE ON media_archive_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_collections_updated_at BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_research_sessions_updated_at BEFORE UPDATE ON research_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_research_monitors_updated_at BEFORE UPDATE ON research_monitors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Remove collection items when the media or chat they point at is deleted
+CREATE OR REPLACE FUNCTION delete_collection_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM collection_items WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER delete_image_collection_items AFTER DELETE ON images
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('image');
+CREATE TRIGGER delete_video_collection_items AFTER DELETE ON videos
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('video');
+CREATE TRIGGER delete_audio_collection_items AFTER DELETE ON audios
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('audio');
+CREATE TRIGGER delete_chat_collection_items AFTER DELETE ON chats
+  FOR EACH ROW EXECUTE FUNCTION delete_collection_items('chat');
+
 -- Create views for easier querying
 CREATE OR REPLACE VIEW chat_summaries AS
 SELECT 
@@ -100,7 +296,4 @@ LEFT JOIN messages m ON c.id = m.chat_id
 LEFT JOIN images i ON c.id = i.chat_id
 GROUP BY c.id;
 
--- Row Level Security (RLS) - Enable when auth is implemented
--- ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE images ENABLE ROW LEVEL SECURITY;
\ No newline at end of file
+-- Row Level Security (RLS): run add-auth.sql when enabling multi-user accounts (AUTH_PROVIDER)
\ No newline at end of file
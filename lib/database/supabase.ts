@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getRequestAuth } from '@/lib/auth/context'
 
 const supabaseUrl = process.env.SUPABASE_URL || ''
 const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || ''
@@ -40,6 +41,56 @@ export const isPersistenceConfigured = () => {
   return supabase !== null
 }
 
+// A client with no shared session state. With an access token, queries run as
+// that user, so the row-level security policies in add-auth.sql apply.
+export function createSupabaseClient(accessToken?: string): SupabaseClient | null {
+  if (!supabase) return null
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    ...(accessToken ? { global: { headers: { Authorization: `Bearer ${accessToken}` } } } : {}),
+  })
+}
+
+// Client for work done on nobody's behalf (background jobs), which needs to
+// see every user's rows; null without SUPABASE_SERVICE_ROLE_KEY
+export const supabaseAdmin: SupabaseClient | null = (() => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabase || !serviceRoleKey) return null
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+})()
+
+/**
+ * Client for the current request: inside a route wrapped with withAuth and
+ * signed in, one that queries as that user; otherwise the shared anonymous
+ * client. Work run with runWithAuth and a client of its own gets that client.
+ * Null when persistence isn't configured.
+ */
+export function getSupabase(): SupabaseClient | null {
+  const auth = getRequestAuth()
+  if (auth?.client !== undefined) return auth.client
+  if (!auth?.accessToken) return supabase
+
+  auth.client = createSupabaseClient(auth.accessToken)
+  return auth.client
+}
+
+// For .match(): limits a query to the signed-in user's rows. Row-level
+// security does the same in the database; this keeps queries scoped when it
+// isn't enabled. Empty for anonymous requests, which see everything as before.
+export function ownerFilter(): { user_id?: string } {
+  const user = getRequestAuth()?.user
+  return user ? { user_id: user.id } : {}
+}
+
+// Record the signed-in user as the owner of a new row
+export function withUserId<Row extends object>(row: Row): Row & { user_id?: string } {
+  return { ...row, ...ownerFilter() }
+}
+
 // Database types
 export interface Chat {
   id: string
@@ -49,6 +100,7 @@ export interface Chat {
   updated_at: string
   user_id?: string
   metadata?: Record<string, any>
+  active_leaf_id?: string | null // Last message of the branch currently shown
 }
 
 export interface Message {
@@ -59,6 +111,13 @@ export interface Message {
   created_at: string
   attachments?: any[]
   metadata?: Record<string, any>
+  parent_id?: string | null // Message this one replies to; null for the first turn
+}
+
+// Alternatives at one point in a conversation: messages sharing a parent
+export interface MessageBranchInfo {
+  siblingIds: string[] // Oldest first
+  index: number // Position of this message in siblingIds
 }
 
 export interface StoredImage {
@@ -74,6 +133,7 @@ export interface StoredImage {
   model: string
   is_uploaded: boolean
   original_image_id?: string
+  user_id?: string
   created_at: string
   metadata?: Record<string, any>
 }
@@ -92,11 +152,50 @@ export interface StoredVideo {
   status: string
   final_elapsed_time?: number
   error_message?: string
+  user_id?: string
   created_at: string
   completed_at?: string
   metadata?: Record<string, any>
 }
 
+export interface StoredAudio {
+  id: string
+  chat_id?: string
+  url: string
+  text: string
+  script?: string
+  mime_type: string
+  duration?: number
+  voice?: string
+  provider?: string
+  is_multi_speaker: boolean
+  user_id?: string
+  created_at: string
+  metadata?: Record<string, any>
+}
+
+export type CollectionItemType = 'image' | 'video' | 'audio' | 'chat'
+
+export interface Collection {
+  id: string
+  name: string
+  description?: string | null
+  cover_url?: string | null // Explicit cover; otherwise the first image or video is used
+  user_id?: string
+  created_at: string
+  updated_at: string
+  metadata?: Record<string, any>
+}
+
+export interface CollectionItem {
+  id: string
+  collection_id: string
+  item_type: CollectionItemType
+  item_id: string // Row in images, videos, audios or chats
+  position: number
+  added_at: string
+}
+
 export interface ChatSummary {
   id: string
   title: string
@@ -108,3 +207,79 @@ export interface ChatSummary {
   image_count: number
   last_message_at?: string
 }
+
+// Read-only snapshot of a chat published under a share link
+export interface ChatShare {
+  id: string
+  token: string
+  chat_id: string
+  user_id?: string
+  title: string
+  redact_tool_results: boolean
+  expires_at?: string | null // Never expires when null
+  revoked_at?: string | null
+  view_count: number
+  created_at: string
+}
+
+export type ResearchSessionStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+// One persisted run of the deep research service
+export interface ResearchSessionRecord {
+  id: string
+  chat_id?: string | null
+  rerun_of?: string | null // Session this run repeats with the same query and options
+  monitor_id?: string | null // Research monitor that started this run
+  user_id?: string
+  query: string
+  options: Record<string, any> // DeepResearchRequestOptions
+  status: ResearchSessionStatus
+  phase: string
+  progress: number
+  report?: string | null
+  error?: string | null
+  created_at: string
+  updated_at: string
+  completed_at?: string | null
+}
+
+// A research query re-run on a cron schedule
+export interface ResearchMonitorRecord {
+  id: string
+  user_id?: string
+  name: string
+  query: string
+  options: Record<string, any> // DeepResearchRequestOptions
+  schedule: string // Cron expression (see lib/research-schedule.ts)
+  timezone: string
+  chat_id?: string | null // Chat run summaries are posted to
+  webhook_url?: string | null
+  enabled: boolean
+  next_run_at?: string | null
+  last_run_at?: string | null
+  last_session_id?: string | null
+  reported_session_id?: string | null // Latest run whose summary was sent
+  last_error?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ResearchFinding {
+  id: string
+  session_id: string
+  phase: string
+  content: string
+  confidence?: number | null
+  created_at: string
+}
+
+export interface ResearchSource {
+  id: string
+  session_id: string
+  url: string
+  title?: string | null
+  phase?: string | null
+  position: number
+  citation_number?: number | null // n of the report's [n] citations
+  created_at: string
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInitialState,
+  getNextExecutableSteps,
+  PlannedStep,
+  StepDependency,
+  StepResult,
+} from "@/lib/langgraph/workflow-engine";
+
+function step(id: string, dependencies: string[] = [], status: PlannedStep["status"] = "pending"): PlannedStep {
+  return { id, name: id, description: id, agent: "research", dependencies, status };
+}
+
+function result(stepId: string, outcome: "done" | "failed" | "skipped" = "done"): StepResult {
+  return {
+    stepId,
+    output: outcome === "done" ? "ok" : null,
+    duration: 0,
+    startedAt: new Date(),
+    error: outcome === "failed" ? "boom" : undefined,
+    skipped: outcome === "skipped" || undefined,
+  };
+}
+
+function stateWith(steps: PlannedStep[], results: StepResult[] = [], dependencies: StepDependency[] = []) {
+  return {
+    ...createInitialState("objective", "user-1", "chat-1", "custom"),
+    status: "executing" as const,
+    plan: { steps, totalSteps: steps.length, estimatedDuration: 0, dependencies },
+    results,
+  };
+}
+
+const ids = (steps: PlannedStep[]) => steps.map(s => s.id);
+
+describe("getNextExecutableSteps", () => {
+  it("starts with the steps that have no dependencies", () => {
+    const state = stateWith([step("a"), step("b", ["a"]), step("c")]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["a", "c"]);
+  });
+
+  it("unblocks dependents once their dependencies succeed", () => {
+    const state = stateWith([step("a"), step("b", ["a"]), step("c", ["b"])], [result("a")]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["b"]);
+  });
+
+  it("treats skipped steps as satisfied", () => {
+    const state = stateWith([step("a"), step("b", ["a"])], [result("a", "skipped")]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["b"]);
+  });
+
+  it("keeps dependents of failed steps blocked", () => {
+    const state = stateWith([step("a"), step("b", ["a"]), step("c")], [result("a", "failed")]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["c"]);
+  });
+
+  it("leaves out running steps", () => {
+    const state = stateWith([step("a", [], "running"), step("b")]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["b"]);
+  });
+
+  it("orders steps by sequential plan edges but not parallel ones", () => {
+    const state = stateWith([step("a"), step("b"), step("c")], [], [
+      { from: "a", to: "b", type: "sequential" },
+      { from: "a", to: "c", type: "parallel" },
+    ]);
+    expect(ids(getNextExecutableSteps(state))).toEqual(["a", "c"]);
+  });
+
+  it("returns nothing once the workflow has finished", () => {
+    const state = { ...stateWith([step("a")]), status: "failed" as const };
+    expect(getNextExecutableSteps(state)).toEqual([]);
+  });
+});
@@ -1,16 +1,18 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { DynamicStructuredTool } from "@langchain/core/tools";
-import { GeminiChatModel } from "../utils/gemini-adapter";
+import { RouterChatModel } from "../utils/router-chat-model";
+import { ModelRouter } from "@/lib/models/model-router";
+import type { ModelProviderId } from "@/lib/models/types";
 import { convertMCPToolToLangChain } from "../utils/tool-converter";
 import { TaskPlan, PlannedStep } from "../workflow-engine";
 import { BaseMessage } from "@langchain/core/messages";
+import type { PendingToolApproval } from "@/lib/mcp/mcp-tool-policy";
 
 export interface AgentConfig {
   name: string;
   description?: string;
-  modelProvider: "openai" | "anthropic" | "gemini";
+  modelProvider: ModelProviderId;
+  // Provider model name; the provider's default when omitted (AGENT_MODEL overrides both)
   modelName?: string;
   temperature?: number;
   mcpTools?: any[];
@@ -37,31 +39,10 @@ export abstract class BaseAgent {
   }
 
   private initializeModel(config: AgentConfig): BaseChatModel {
-    switch (config.modelProvider) {
-      case "openai":
-        return new ChatOpenAI({
-          modelName: config.modelName || "gpt-4-turbo-preview",
-          temperature: config.temperature || 0.7,
-          openAIApiKey: process.env.OPENAI_API_KEY,
-        });
-      
-      case "anthropic":
-        return new ChatAnthropic({
-          modelName: config.modelName || "claude-3-opus-20240229",
-          temperature: config.temperature || 0.7,
-          anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-        });
-      
-      case "gemini":
-        return new GeminiChatModel({
-          apiKey: process.env.GEMINI_API_KEY!,
-          modelName: config.modelName || "gemini-2.0-flash",
-          temperature: config.temperature || 0.7,
-        });
-      
-      default:
-        throw new Error(`Unsupported model provider: ${config.modelProvider}`);
-    }
+    return new RouterChatModel({
+      model: ModelRouter.getInstance().resolveAgentModel(config.modelProvider, config.modelName),
+      temperature: config.temperature || 0.7,
+    });
   }
 
   private initializeTools(config: AgentConfig): DynamicStructuredTool[] {
@@ -89,10 +70,17 @@ Always be helpful, accurate, and efficient in your responses.`;
   }
 
   // Abstract methods that each agent must implement
+  // signal aborts when the workflow cancels this step (e.g. a sibling step failed)
   abstract async execute(input: {
     task: string;
+    input?: any;
     context?: any;
     previousResults?: any[];
+    signal?: AbortSignal;
+    // The user approved this step in review
+    approved?: boolean;
+    // Asks the user to approve a tool call the step makes
+    onApprovalRequired?: (approval: PendingToolApproval) => void;
   }): Promise<any>;
   
   abstract async plan(objective: string, context?: any): Promise<TaskPlan>;
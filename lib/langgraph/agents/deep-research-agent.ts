@@ -4,6 +4,22 @@ import { z } from "zod";
 import { TaskPlan, PlannedStep } from "../workflow-engine";
 import { HumanMessage, SystemMessage, AIMessage } from "@langchain/core/messages";
 import { PerplexityClient } from "@/lib/perplexity-client";
+import {
+  buildCitedReport,
+  createSourceReference,
+  dedupeSources,
+  type CitedReport,
+  type SourceReference
+} from "@/lib/research-report";
+
+import {
+  corpusMatchTitle,
+  corpusSourceUrl,
+  searchCorpus,
+  type CorpusScope
+} from "@/lib/research-corpus";
+
+export type { SourceReference } from "@/lib/research-report";
 
 export interface ResearchPhase {
   name: string;
@@ -16,16 +32,6 @@ export interface ResearchPhase {
   completedAt?: Date;
 }
 
-export interface SourceReference {
-  title: string;
-  url: string;
-  credibilityScore: number;
-  relevanceScore: number;
-  date?: string;
-  author?: string;
-  type: 'academic' | 'news' | 'blog' | 'official' | 'social' | 'unknown';
-}
-
 export interface DeepResearchState {
   topic: string;
   researchQuestion: string;
@@ -60,6 +66,8 @@ export interface ResearchSubtopic {
 export class DeepResearchAgent extends BaseAgent {
   private perplexityClient: PerplexityClient;
   private researchState: DeepResearchState | null = null;
+  // Documents to research instead of, or as well as, the web
+  private corpus: CorpusScope | null = null;
 
   constructor(config?: Partial<AgentConfig>) {
     const deepResearchTools = [
@@ -82,6 +90,17 @@ export class DeepResearchAgent extends BaseAgent {
           });
         },
       }),
+      new DynamicStructuredTool({
+        name: "search_documents",
+        description: "Search the user's own documents selected for this research (uploaded files, pasted text, MCP resources)",
+        schema: z.object({
+          query: z.string().describe("What to look for in the documents"),
+          limit: z.number().min(1).max(20).optional().describe("Number of passages to return"),
+        }),
+        func: async ({ query, limit }) => {
+          return this.searchDocuments(query, limit);
+        },
+      }),
       new DynamicStructuredTool({
         name: "analyze_sources",
         description: "Analyze and synthesize information from multiple sources with fact-checking",
@@ -165,13 +184,23 @@ Always maintain academic rigor while keeping explanations accessible.`,
 
   async execute(input: {
     task: string;
+    input?: { subtopic?: ResearchSubtopic };
     context?: any;
     previousResults?: any[];
     researchDepth?: 'surface' | 'moderate' | 'deep';
+    corpus?: CorpusScope | null;
   }): Promise<any> {
     const depth = input.researchDepth || 'deep';
+    const corpus = input.corpus !== undefined ? input.corpus : input.context?.corpus;
+    if (corpus !== undefined) this.corpus = corpus;
     
     try {
+      // Subtopic steps run in parallel and don't advance the shared phases
+      if (input.input?.subtopic) {
+        return await this.researchSubtopic(input.input.subtopic);
+      }
+
+
       // Initialize research state if not exists
       if (!this.researchState) {
         this.researchState = await this.initializeResearchState(input.task, depth);
@@ -229,6 +258,27 @@ Always maintain academic rigor while keeping explanations accessible.`,
       context?.timeLimit
     );
 
+    // One step per subtopic so they can be researched concurrently
+    const subtopics = researchOutline.subtopics.filter(subtopic => subtopic.priority !== 'low');
+    const deepDiveSteps: PlannedStep[] = subtopics.length > 0
+      ? subtopics.map(subtopic => ({
+          ...this.createStep(
+            `deep-dive-${subtopic.id}`,
+            `Deep Dive: ${subtopic.title}`,
+            `Investigate ${subtopic.title} in detail`,
+            ["initial-exploration"]
+          ),
+          input: { subtopic },
+        }))
+      : [
+          this.createStep(
+            "deep-dive",
+            "Deep Dive Research",
+            "Investigate specific subtopics in detail",
+            ["initial-exploration"]
+          ),
+        ];
+
     const steps: PlannedStep[] = [
       this.createStep(
         "outline",
@@ -241,17 +291,12 @@ Always maintain academic rigor while keeping explanations accessible.`,
         "Broad search to understand topic landscape",
         ["outline"]
       ),
-      this.createStep(
-        "deep-dive",
-        "Deep Dive Research",
-        "Investigate specific subtopics in detail",
-        ["initial-exploration"]
-      ),
+      ...deepDiveSteps,
       this.createStep(
         "cross-validation",
         "Cross-Validate Findings",
         "Verify facts across multiple sources",
-        ["deep-dive"]
+        deepDiveSteps.map(step => step.id)
       ),
       this.createStep(
         "identify-gaps",
@@ -378,6 +423,13 @@ Always maintain academic rigor while keeping explanations accessible.`,
       minCredibilityScore?: number;
     }
   ): Promise<any> {
+    // Document-only research never reaches the search API
+    if (this.corpus?.mode === 'corpus') {
+      const results = await this.searchDocuments(query);
+      this.countSources(results.sources);
+      return results;
+    }
+
     try {
       const searchOptions: any = {
         search_mode: options.searchMode || 'web',
@@ -409,15 +461,15 @@ Always maintain academic rigor while keeping explanations accessible.`,
 
       // Process and score sources
       const processedResults = this.processSearchResults(response, options.minCredibilityScore);
-      
-      // Update research state
-      if (this.researchState) {
-        this.researchState.totalSources += processedResults.sources.length;
-        this.researchState.highQualitySources += processedResults.sources.filter(
-          s => s.credibilityScore >= 0.7
-        ).length;
+
+      // Mixed runs cite matching document passages next to the web results
+      if (this.corpus?.mode === 'mixed') {
+        const documents = await this.searchDocuments(query);
+        processedResults.content = [processedResults.content, documents.content].filter(Boolean).join('\n\n');
+        processedResults.sources = [...processedResults.sources, ...documents.sources];
       }
 
+      this.countSources(processedResults.sources);
       return processedResults;
     } catch (error) {
       console.error("Deep search error:", error);
@@ -425,23 +477,48 @@ Always maintain academic rigor while keeping explanations accessible.`,
     }
   }
 
+  /**
+   * Passages of the selected documents closest to the query, as search
+   * results whose sources have corpus:// URLs
+   */
+  private async searchDocuments(query: string, limit: number = 8): Promise<any> {
+    if (!this.corpus) {
+      return { content: '', sources: [], relatedQuestions: [] };
+    }
+
+    const matches = await searchCorpus(query, this.corpus.documentIds, limit);
+    return {
+      content: matches.map(match => `${corpusMatchTitle(match)}:\n${match.content}`).join('\n\n'),
+      sources: matches.map(match => createSourceReference({
+        url: corpusSourceUrl(match.documentId, match.position),
+        title: corpusMatchTitle(match),
+        relevanceScore: match.similarity
+      })),
+      relatedQuestions: []
+    };
+  }
+
+  private countSources(sources: SourceReference[]): void {
+    if (!this.researchState) return;
+    this.researchState.totalSources += sources.length;
+    this.researchState.highQualitySources += sources.filter(s => s.credibilityScore >= 0.7).length;
+  }
+
   private processSearchResults(response: any, minCredibilityScore?: number): any {
     const sources: SourceReference[] = [];
     
     if (response.search_results) {
       response.search_results.forEach((result: any) => {
-        const credibilityScore = this.calculateCredibilityScore(result);
-        const relevanceScore = this.calculateRelevanceScore(result, response.choices?.[0]?.message?.content);
-        
-        if (!minCredibilityScore || credibilityScore >= minCredibilityScore) {
-          sources.push({
-            title: result.title,
-            url: result.url,
-            credibilityScore,
-            relevanceScore,
-            date: result.date,
-            type: this.classifySourceType(result.url)
-          });
+        const source = createSourceReference({
+          url: result.url,
+          title: result.title,
+          date: result.date,
+          author: result.author,
+          relevanceScore: this.calculateRelevanceScore(result, response.choices?.[0]?.message?.content || '')
+        });
+
+        if (!minCredibilityScore || source.credibilityScore >= minCredibilityScore) {
+          sources.push(source);
         }
       });
     }
@@ -453,28 +530,6 @@ Always maintain academic rigor while keeping explanations accessible.`,
     };
   }
 
-  private calculateCredibilityScore(source: any): number {
-    let score = 0.5; // Base score
-    
-    // Domain authority
-    const trustedDomains = ['.edu', '.gov', '.org', 'nature.com', 'science.org', 'ieee.org'];
-    if (trustedDomains.some(domain => source.url.includes(domain))) {
-      score += 0.3;
-    }
-    
-    // Recency (if date available)
-    if (source.date) {
-      const daysOld = (Date.now() - new Date(source.date).getTime()) / (1000 * 60 * 60 * 24);
-      if (daysOld < 30) score += 0.1;
-      else if (daysOld < 365) score += 0.05;
-    }
-    
-    // Has author information
-    if (source.author) score += 0.1;
-    
-    return Math.min(score, 1);
-  }
-
   private calculateRelevanceScore(source: any, content: string): number {
     // Simple relevance scoring based on title/content overlap
     const titleWords = source.title.toLowerCase().split(' ');
@@ -487,14 +542,6 @@ Always maintain academic rigor while keeping explanations accessible.`,
     return Math.min(overlap / titleWords.length, 1);
   }
 
-  private classifySourceType(url: string): SourceReference['type'] {
-    if (url.includes('.edu') || url.includes('scholar')) return 'academic';
-    if (url.includes('.gov') || url.includes('.org')) return 'official';
-    if (url.includes('twitter.com') || url.includes('facebook.com')) return 'social';
-    if (url.includes('medium.com') || url.includes('blog')) return 'blog';
-    if (url.includes('news') || url.includes('times.com') || url.includes('post.com')) return 'news';
-    return 'unknown';
-  }
 
   private async analyzeSourcesWithFactChecking(
     sources: any[],
@@ -646,6 +693,22 @@ Identify:
     return { findings, sources, confidence: 0.75 };
   }
 
+  private async researchSubtopic(subtopic: ResearchSubtopic): Promise<any> {
+    const results = await Promise.all(
+      subtopic.questions.map(question => this.performDeepSearch(question, {
+        searchMode: 'web',
+        minCredibilityScore: 0.6
+      }))
+    );
+
+    return {
+      subtopic: subtopic.title,
+      findings: results.flatMap(result => this.extractKeyPoints(result.content)),
+      sources: results.flatMap(result => result.sources),
+      confidence: 0.75
+    };
+  }
+
   private async performCrossValidation(): Promise<any> {
     if (!this.researchState) throw new Error("Research state not initialized");
 
@@ -754,12 +817,13 @@ Identify:
     return this.parseCriticalEvaluation(response.content);
   }
 
-  private finalizeResearch(): any {
+  private async finalizeResearch(): Promise<any> {
     if (!this.researchState) throw new Error("Research state not initialized");
 
     const completedPhases = this.researchState.phases.filter(p => p.status === 'completed');
     const allSources = completedPhases.flatMap(p => p.sources);
-    const uniqueSources = this.deduplicateSources(allSources);
+    const uniqueSources = dedupeSources(allSources);
+    const report = await this.synthesizeCitedReport(uniqueSources);
 
     return {
       status: 'completed',
@@ -775,12 +839,64 @@ Identify:
           .sort((a, b) => b.credibilityScore - a.credibilityScore)
           .slice(0, 10)
       },
+      report,
       confidence: this.calculateOverallConfidence(),
       researchDuration: this.calculateResearchDuration(),
       timestamp: new Date().toISOString()
     };
   }
 
+  /**
+   * Write the final report with every claim anchored to the sources behind
+   * it, then verify the anchors. Falls back to the key findings, which the
+   * verification pass then flags as uncited, when the model call fails.
+   */
+  private async synthesizeCitedReport(sources: SourceReference[]): Promise<CitedReport> {
+    if (!this.researchState) throw new Error("Research state not initialized");
+
+    const citable = [...sources]
+      .sort((a, b) => b.credibilityScore - a.credibilityScore)
+      .slice(0, 30);
+    const findings = this.researchState.phases
+      .filter(p => p.status === 'completed')
+      .flatMap(p => p.findings);
+
+    const prompt = `Write the final research report answering: "${this.researchState.researchQuestion}"
+
+Findings gathered so far:
+${findings.map(f => `- ${f}`).join('\n')}
+
+Sources you may cite (anchor, title, URL):
+${citable.map(s => `[@${s.id}] ${s.title} (${s.url}) - ${s.origin === 'corpus' ? 'provided document' : s.type}, credibility ${s.credibilityScore.toFixed(2)}`).join('\n')}
+
+Rules:
+1. Use Markdown headings for sections and plain paragraphs below them
+2. End every sentence that states a fact with the anchor of each source supporting it, e.g. [@${citable[0]?.id || 'src-0000000'}]
+3. Use only the anchors listed above; leave a claim out rather than cite a source that doesn't support it
+4. Don't add a references or sources section`;
+
+    let text: string;
+    try {
+      const response = await this.invokeModel([
+        new SystemMessage("You are a research writer who grounds every claim in a cited source."),
+        new HumanMessage(prompt)
+      ]);
+      text = typeof response.content === 'string'
+        ? response.content
+        : (response.content || []).map((part: any) => part.text || '').join('');
+    } catch (error) {
+      console.error("Cited report synthesis failed, falling back to key findings:", error);
+      text = (this.researchState.keyFindings.length > 0 ? this.researchState.keyFindings : findings).join('\n\n');
+    }
+
+    return buildCitedReport({
+      title: this.researchState.topic,
+      question: this.researchState.researchQuestion,
+      text,
+      sources: citable
+    });
+  }
+
   // Utility methods
   private updateOverallProgress(): void {
     if (!this.researchState) return;
@@ -841,15 +957,6 @@ Identify:
     return subtopics;
   }
 
-  private deduplicateSources(sources: SourceReference[]): SourceReference[] {
-    const seen = new Set<string>();
-    return sources.filter(source => {
-      if (seen.has(source.url)) return false;
-      seen.add(source.url);
-      return true;
-    });
-  }
-
   private calculateOverallConfidence(): number {
     if (!this.researchState) return 0;
 
@@ -0,0 +1,68 @@
+import { BaseAgent, AgentConfig } from "./base-agent";
+import { TaskPlan } from "../workflow-engine";
+import { MCP_TOOL_AGENT } from "../templates/workflow-templates";
+import { MCPServerManager } from "@/lib/mcp/mcp-server-manager";
+import { PendingToolApproval } from "@/lib/mcp/mcp-tool-policy";
+
+/**
+ * Runs workflow template steps that call an MCP tool directly. The step's
+ * input names the server (by name or id), the tool and its arguments.
+ */
+export class MCPToolAgent extends BaseAgent {
+  constructor(config?: Partial<AgentConfig>) {
+    super({
+      name: MCP_TOOL_AGENT,
+      description: "Calls tools on configured MCP servers for workflow template steps",
+      modelProvider: "gemini",
+      ...config,
+    });
+  }
+
+  async execute(input: {
+    task: string;
+    input?: { tool?: { server: string; name: string; arguments?: Record<string, any> } };
+    context?: any;
+    previousResults?: any[];
+    signal?: AbortSignal;
+    approved?: boolean;
+    onApprovalRequired?: (approval: PendingToolApproval) => void;
+  }): Promise<any> {
+    const tool = input.input?.tool;
+    if (!tool) {
+      throw new Error(`Step "${input.task}" has no MCP tool to call`);
+    }
+
+    const serverManager = MCPServerManager.getInstance();
+    let server = this.findServer(serverManager, tool.server);
+    if (!server) {
+      // Servers may not have been loaded in this process yet
+      await serverManager.loadFromConfig();
+      server = this.findServer(serverManager, tool.server);
+    }
+    if (!server) {
+      throw new Error(`MCP server '${tool.server}' is not configured`);
+    }
+
+    if (server.status !== "connected") {
+      await serverManager.connectServer(server.config.id);
+    }
+
+    // A step approved in review needs no second approval for its tool call;
+    // otherwise "ask" tools wait for the user through the approval gate
+    return serverManager.executeTool(server.config.id, tool.name, tool.arguments || {}, {
+      approved: input.approved,
+      onApprovalRequired: input.onApprovalRequired,
+      signal: input.signal,
+      // The run's owner answers approvals for its steps
+      userId: input.context?.metadata?.userId,
+    });
+  }
+
+  async plan(objective: string): Promise<TaskPlan> {
+    throw new Error(`${MCP_TOOL_AGENT} only runs steps from workflow templates`);
+  }
+
+  private findServer(serverManager: MCPServerManager, nameOrId: string) {
+    return serverManager.getAllServers().find(s => s.config.name === nameOrId || s.config.id === nameOrId);
+  }
+}
@@ -9,13 +9,12 @@ export class ResearchAgent extends BaseAgent {
     const researchTools = [
       new DynamicStructuredTool({
         name: "web_search",
-        description: "Search the web for information using Perplexity",
+        description: "Search the web for information with the configured search providers",
         schema: z.object({
           query: z.string().describe("The search query"),
           limit: z.number().optional().default(5).describe("Number of results"),
         }),
         func: async ({ query, limit }) => {
-          // Use existing Perplexity integration
           const response = await fetch("/api/search", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
@@ -0,0 +1,62 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { WorkflowRunRecord } from "@/lib/langgraph/persistence/checkpoint-store";
+import { ChatWorkflowIntegration } from "@/lib/langgraph/integration/chat-integration";
+
+const store = vi.hoisted(() => ({
+  getRun: vi.fn(),
+  saveRun: vi.fn(async () => {}),
+}));
+
+const prepareResume = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/langgraph/persistence/checkpoint-store", () => ({
+  getCheckpointStore: async () => store,
+}));
+
+vi.mock("@/lib/langgraph/orchestrator", () => ({
+  WorkflowOrchestrator: class {
+    prepareResume = prepareResume;
+  },
+}));
+
+const run: WorkflowRunRecord = {
+  id: "wf_1",
+  chatId: "chat-1",
+  userId: "user-1",
+  type: "deep-research",
+  objective: "Deep Research: tides",
+  status: "failed",
+  currentStep: 1,
+  totalSteps: 3,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("ChatWorkflowIntegration.resumeWorkflow", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects a second resume that arrives while the first is still loading the run", async () => {
+    let releaseRun: (value: WorkflowRunRecord) => void = () => {};
+    store.getRun.mockReturnValueOnce(new Promise(resolve => { releaseRun = resolve; }));
+    prepareResume.mockResolvedValue(null);
+
+    const integration = new ChatWorkflowIntegration();
+    const first = integration.resumeWorkflow(run.id, () => {});
+    const second = integration.resumeWorkflow(run.id, () => {});
+
+    await expect(second).rejects.toThrow("already running");
+    releaseRun(run);
+    await expect(first).resolves.toBe(false);
+    expect(integration.getActiveWorkflows()).toEqual([]);
+  });
+
+  it("releases the run when starting it fails", async () => {
+    store.getRun.mockResolvedValue(undefined);
+
+    const integration = new ChatWorkflowIntegration();
+    await expect(integration.resumeWorkflow(run.id, () => {})).rejects.toThrow("not found");
+    expect(integration.getActiveWorkflows()).toEqual([]);
+  });
+});
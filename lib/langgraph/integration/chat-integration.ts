@@ -1,11 +1,29 @@
+import { Command } from "@langchain/langgraph/web";
 import { WorkflowOrchestrator, WorkflowType } from "../orchestrator";
-import { createInitialState } from "../workflow-engine";
+import {
+  createInitialState,
+  StepResult,
+  TaskPlan,
+  WorkflowConfig,
+  WorkflowEvent,
+  WorkflowReviewDecision,
+  WorkflowReviewRequest,
+} from "../workflow-engine";
+import { getCheckpointStore, WorkflowRunRecord } from "../persistence/checkpoint-store";
+import {
+  bindTemplateInputs,
+  getWorkflowTemplate,
+  WorkflowTemplateRun,
+} from "../templates/workflow-templates";
 import { BaseMessage, HumanMessage, AIMessage } from "@langchain/core/messages";
+import { getCurrentUser } from "@/lib/auth";
 
 export interface WorkflowTrigger {
   pattern: RegExp;
   type: WorkflowType;
   extractObjective: (match: RegExpMatchArray, message: string) => string;
+  // Names the workflow template to run and the raw text for its inputs
+  extractTemplate?: (match: RegExpMatchArray) => { name: string; args: string };
 }
 
 // Workflow triggers based on chat patterns
@@ -36,9 +54,10 @@ export const WORKFLOW_TRIGGERS: WorkflowTrigger[] = [
     extractObjective: (match) => `Analysis: ${match[1]}`,
   },
   {
-    pattern: /^workflow:\s*(\w+)\s+(.+)/i,
+    pattern: /^workflow:\s*([\w-]+)(?:\s+([\s\S]+))?/i,
     type: "custom",
-    extractObjective: (match) => match[2],
+    extractObjective: (match) => match[2] ? `${match[1]}: ${match[2].trim()}` : match[1],
+    extractTemplate: (match) => ({ name: match[1], args: match[2] || "" }),
   },
 ];
 
@@ -47,6 +66,7 @@ export function detectWorkflowTrigger(message: string): {
   shouldTrigger: boolean;
   type?: WorkflowType;
   objective?: string;
+  template?: { name: string; args: string };
 } {
   for (const trigger of WORKFLOW_TRIGGERS) {
     const match = message.match(trigger.pattern);
@@ -55,6 +75,7 @@ export function detectWorkflowTrigger(message: string): {
         shouldTrigger: true,
         type: trigger.type,
         objective: trigger.extractObjective(match, message),
+        template: trigger.extractTemplate?.(match),
       };
     }
   }
@@ -88,6 +109,7 @@ export function formatWorkflowEventForChat(event: any): string {
         case "reviewing": statusEmoji = "🔍"; break;
         case "completed": statusEmoji = "✅"; break;
         case "failed": statusEmoji = "❌"; break;
+        case "paused": statusEmoji = "⏸️"; break;
       }
       
       let update = `${statusEmoji} **Status**: ${status}`;
@@ -108,6 +130,29 @@ export function formatWorkflowEventForChat(event: any): string {
     
     case "workflow_failed":
       return `❌ **Workflow Failed**\n\n${event.error || "An error occurred during execution."}`;
+
+    case "workflow_step_started":
+      return `▶️ ${event.data?.step}`;
+
+    case "workflow_step_completed":
+      return `✔️ ${event.data?.step}`;
+
+    case "workflow_step_failed":
+      return `⚠️ ${event.data?.step}: ${event.data?.error}`;
+
+    case "workflow_step_cancelled":
+      return `⏹️ ${event.data?.step} (cancelled)`;
+
+    case "workflow_step_approval_required":
+      return `✋ ${event.data?.step}: waiting for approval to run ${event.data?.approval?.toolName}`;
+
+    case "workflow_paused":
+      return event.review?.kind === "plan"
+        ? "⏸️ **Waiting for plan approval**"
+        : "⏸️ **Waiting for step approval**";
+
+    case "workflow_cancelled":
+      return "🚫 **Workflow Cancelled**";
     
     default:
       return `📌 ${event.type}: ${JSON.stringify(event.data || {})}`;
@@ -161,16 +206,55 @@ export function createWorkflowStatusData(workflowId: string, state: any) {
   };
 }
 
+export interface WorkflowRunSummary extends WorkflowRunRecord {
+  active: boolean;
+  resumable: boolean;
+}
+
+export interface WorkflowDetails {
+  run: WorkflowRunSummary;
+  plan: TaskPlan | null;
+  results: StepResult[];
+  // Set while the graph waits on the user
+  pendingReview: WorkflowReviewRequest | null;
+}
+
+// The first interrupt value of a paused graph, if any
+function getPendingReview(snapshot: any): WorkflowReviewRequest | null {
+  for (const task of snapshot?.tasks || []) {
+    const pending = task.interrupts?.[0];
+    if (pending) return pending.value as WorkflowReviewRequest;
+  }
+  return null;
+}
+
+// With sign-in enabled a run belongs to the user who started it; without it every run is shared
+function isVisibleRun(run: WorkflowRunRecord | undefined): run is WorkflowRunRecord {
+  const user = getCurrentUser();
+  return !!run && (!user || run.userId === user.id);
+}
+
 // Integration helper for chat components
 export class ChatWorkflowIntegration {
   private orchestrator: WorkflowOrchestrator;
   private activeWorkflows: Map<string, any>;
+  private static instance: ChatWorkflowIntegration | null = null;
+
+  // Shared instance so API routes see the same active workflows
+  static getInstance(): ChatWorkflowIntegration {
+    if (!ChatWorkflowIntegration.instance) {
+      ChatWorkflowIntegration.instance = new ChatWorkflowIntegration();
+    }
+    return ChatWorkflowIntegration.instance;
+  }
 
   constructor() {
     this.orchestrator = new WorkflowOrchestrator({
       maxConcurrentSteps: 3,
-      enableHumanInLoop: false,
+      // Runs can also opt in with WorkflowConfig.requireHumanApproval
+      enableHumanInLoop: process.env.WORKFLOW_HUMAN_IN_LOOP === "true",
       persistenceEnabled: true,
+      eventCallback: this.handleStepEvent.bind(this),
     });
     this.activeWorkflows = new Map();
   }
@@ -187,12 +271,24 @@ export class ChatWorkflowIntegration {
       return null;
     }
 
+    // Throws WorkflowTemplateError for unknown templates or missing inputs
+    let template: WorkflowTemplateRun | undefined;
+    if (trigger.template) {
+      const definition = await getWorkflowTemplate(trigger.template.name);
+      template = {
+        name: definition.name,
+        inputs: bindTemplateInputs(definition, trigger.template.args),
+      };
+    }
+
     const workflowId = await this.startWorkflow(
       trigger.type,
       trigger.objective,
       chatId,
       userId,
-      onEvent
+      onEvent,
+      undefined,
+      template
     );
 
     return workflowId;
@@ -203,7 +299,9 @@ export class ChatWorkflowIntegration {
     objective: string,
     chatId: string,
     userId: string,
-    onEvent: (event: any) => void
+    onEvent: (event: any) => void,
+    config?: WorkflowConfig,
+    template?: WorkflowTemplateRun
   ): Promise<string> {
     const workflow = this.orchestrator.createWorkflow(type);
     const workflowId = `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -212,7 +310,10 @@ export class ChatWorkflowIntegration {
       objective,
       userId,
       chatId,
-      type
+      type,
+      config,
+      workflowId,
+      template
     );
 
     // Store active workflow
@@ -224,37 +325,257 @@ export class ChatWorkflowIntegration {
       userId,
     });
 
+    const now = new Date().toISOString();
+    await this.saveRun({
+      id: workflowId,
+      chatId,
+      userId,
+      type,
+      objective,
+      status: "planning",
+      currentStep: 0,
+      totalSteps: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Send start event
+    onEvent({
+      type: "workflow_started",
+      workflowId,
+      objective,
+      timestamp: now,
+    });
+
     // Execute workflow asynchronously
     this.executeWorkflow(workflowId, workflow, initialState, onEvent);
 
     return workflowId;
   }
 
+  /**
+   * Continue a paused, interrupted or failed run from its last completed step.
+   * Returns false if the run has nothing left to do.
+   */
+  async resumeWorkflow(
+    workflowId: string,
+    onEvent: (event: any) => void
+  ): Promise<boolean> {
+    this.reserveWorkflow(workflowId);
+    try {
+      const resumed = await this.beginResume(workflowId, onEvent);
+      if (!resumed) this.activeWorkflows.delete(workflowId);
+      return resumed;
+    } catch (error) {
+      this.activeWorkflows.delete(workflowId);
+      throw error;
+    }
+  }
+
+  private async beginResume(
+    workflowId: string,
+    onEvent: (event: any) => void
+  ): Promise<boolean> {
+    const store = await getCheckpointStore();
+    const run = await store.getRun(workflowId);
+    if (!isVisibleRun(run)) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const resume = await this.orchestrator.prepareResume(run.type as WorkflowType, workflowId);
+    if (!resume) {
+      await this.saveRun({ ...run, status: "completed", updatedAt: new Date().toISOString() });
+      return false;
+    }
+
+    this.activeWorkflows.set(workflowId, {
+      workflow: resume.workflow,
+      type: run.type,
+      objective: run.objective,
+      chatId: run.chatId,
+      userId: run.userId,
+    });
+
+    await this.saveRun({ ...run, status: "executing", error: undefined, updatedAt: new Date().toISOString() });
+
+    onEvent({
+      type: "workflow_resumed",
+      workflowId,
+      objective: run.objective,
+      fromStepId: run.lastCompletedStepId,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.executeWorkflow(workflowId, resume.workflow, resume.input, onEvent);
+    return true;
+  }
+
+  /**
+   * Answer a paused workflow's review and continue the same thread. Re-run
+   * requests are also accepted once a run has finished.
+   */
+  async submitReview(
+    workflowId: string,
+    decision: WorkflowReviewDecision,
+    onEvent: (event: any) => void
+  ): Promise<void> {
+    this.reserveWorkflow(workflowId);
+    try {
+      await this.beginReview(workflowId, decision, onEvent);
+    } catch (error) {
+      this.activeWorkflows.delete(workflowId);
+      throw error;
+    }
+  }
+
+  private async beginReview(
+    workflowId: string,
+    decision: WorkflowReviewDecision,
+    onEvent: (event: any) => void
+  ): Promise<void> {
+    const store = await getCheckpointStore();
+    const run = await store.getRun(workflowId);
+    if (!isVisibleRun(run)) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const type = run.type as WorkflowType;
+    let workflow = this.orchestrator.createWorkflow(type);
+    const snapshot = await workflow.getState({ configurable: { thread_id: workflowId } });
+    let input: any = null;
+
+    if (getPendingReview(snapshot)) {
+      input = new Command({ resume: decision });
+    } else {
+      const rerunIds = Object.entries(decision.steps || {})
+        .filter(([, action]) => action === "rerun")
+        .map(([stepId]) => stepId);
+
+      if (decision.action !== "approve" || rerunIds.length === 0) {
+        throw new Error(`Workflow ${workflowId} is not awaiting review`);
+      }
+      workflow = await this.orchestrator.rerunSteps(type, workflowId, rerunIds);
+    }
+
+    this.activeWorkflows.set(workflowId, {
+      workflow,
+      type: run.type,
+      objective: run.objective,
+      chatId: run.chatId,
+      userId: run.userId,
+    });
+
+    await this.saveRun({ ...run, status: "executing", error: undefined, updatedAt: new Date().toISOString() });
+
+    onEvent({
+      type: "workflow_resumed",
+      workflowId,
+      objective: run.objective,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.executeWorkflow(workflowId, workflow, input, onEvent);
+  }
+
+  // Claim a run before the first await so two concurrent requests can't both
+  // start it; callers release the claim if starting fails
+  private reserveWorkflow(workflowId: string) {
+    if (this.activeWorkflows.has(workflowId)) {
+      throw new Error(`Workflow ${workflowId} is already running`);
+    }
+    this.activeWorkflows.set(workflowId, {});
+  }
+
+  // Past and running workflows for a chat, newest first
+  async listRuns(chatId: string): Promise<WorkflowRunSummary[]> {
+    const store = await getCheckpointStore();
+    const runs = await store.listRuns(chatId);
+    return runs.filter(isVisibleRun).map(run => this.toSummary(run));
+  }
+
+  // Run record plus the current plan, results and any pending review
+  async getWorkflow(workflowId: string): Promise<WorkflowDetails | null> {
+    const store = await getCheckpointStore();
+    const run = await store.getRun(workflowId);
+    if (!isVisibleRun(run)) return null;
+
+    const workflow = this.orchestrator.createWorkflow(run.type as WorkflowType);
+    const snapshot = await workflow.getState({ configurable: { thread_id: workflowId } });
+    const state = snapshot.values as any;
+
+    // Steps only reach the checkpoint once their batch finishes, so overlay live ones
+    const runningStepIds: Set<string> | undefined = this.activeWorkflows.get(workflowId)?.runningStepIds;
+    const plan: TaskPlan | null = state?.plan && runningStepIds?.size
+      ? {
+          ...state.plan,
+          steps: state.plan.steps.map((step: any) =>
+            runningStepIds.has(step.id) ? { ...step, status: "running" } : step
+          ),
+        }
+      : state?.plan ?? null;
+
+    return {
+      run: this.toSummary(run),
+      plan,
+      results: state?.results ?? [],
+      pendingReview: this.activeWorkflows.has(workflowId) ? null : getPendingReview(snapshot),
+    };
+  }
+
+  private toSummary(run: WorkflowRunRecord): WorkflowRunSummary {
+    const active = this.activeWorkflows.has(run.id);
+    return {
+      ...run,
+      active,
+      // Runs left mid-flight by a restart are resumable too
+      resumable: !active && run.status !== "completed",
+    };
+  }
+
+  // Per-step events from the orchestrator go to the run's listener as they happen
+  private handleStepEvent(event: WorkflowEvent) {
+    if (!event.type.startsWith("workflow_step_")) return;
+
+    const active = this.activeWorkflows.get(event.workflowId);
+    if (!active) return;
+
+    const stepId = event.data?.stepId;
+    if (event.type === "workflow_step_started") {
+      active.runningStepIds.add(stepId);
+    } else if (event.type !== "workflow_step_approval_required") {
+      active.runningStepIds.delete(stepId);
+    }
+
+    active.onEvent?.({ ...event, timestamp: event.timestamp.toISOString() });
+  }
+
   private async executeWorkflow(
     workflowId: string,
     workflow: any,
-    initialState: any,
+    input: any,
     onEvent: (event: any) => void
   ) {
-    try {
-      // Send start event
-      onEvent({
-        type: "workflow_started",
-        workflowId,
-        objective: initialState.objective,
-        timestamp: new Date().toISOString(),
-      });
+    let lastState: any = null;
+
+    const active = this.activeWorkflows.get(workflowId);
+    if (active) {
+      active.onEvent = onEvent;
+      active.runningStepIds = new Set<string>();
+    }
 
+    try {
       const config = {
         configurable: { 
           thread_id: workflowId,
-          checkpoint_ns: initialState.metadata.chatId,
         },
         streamMode: "values" as const,
       };
 
-      // Stream execution
-      for await (const state of await workflow.stream(initialState, config)) {
+      // Stream execution; a null input continues from the latest checkpoint
+      for await (const state of await workflow.stream(input, config)) {
+        lastState = state;
+        await this.recordProgress(workflowId, state);
+
         onEvent({
           type: "state_update",
           workflowId,
@@ -263,26 +584,88 @@ export class ChatWorkflowIntegration {
         });
       }
 
-      // Send completion event
-      onEvent({
-        type: "workflow_completed",
-        workflowId,
-        timestamp: new Date().toISOString(),
-      });
+      const snapshot = await workflow.getState({ configurable: { thread_id: workflowId } });
+      const review = getPendingReview(snapshot);
+
+      if (review) {
+        await this.recordProgress(workflowId, { ...lastState, status: "paused" });
+        onEvent({
+          type: "workflow_paused",
+          workflowId,
+          timestamp: new Date().toISOString(),
+          review,
+        });
+      } else if (lastState?.metadata?.cancelledAt) {
+        onEvent({
+          type: "workflow_cancelled",
+          workflowId,
+          timestamp: new Date().toISOString(),
+        });
+      } else if (lastState?.status === "failed") {
+        onEvent({
+          type: "workflow_failed",
+          workflowId,
+          timestamp: new Date().toISOString(),
+        });
+      } else {
+        // Send completion event
+        onEvent({
+          type: "workflow_completed",
+          workflowId,
+          timestamp: new Date().toISOString(),
+        });
+      }
     } catch (error) {
       console.error("Workflow execution error:", error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      
+      await this.recordProgress(workflowId, lastState, message);
       
       onEvent({
         type: "workflow_failed",
         workflowId,
         timestamp: new Date().toISOString(),
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: message,
       });
     } finally {
       this.activeWorkflows.delete(workflowId);
     }
   }
 
+  // Mirror the latest graph state into the run record
+  private async recordProgress(workflowId: string, state: any, error?: string) {
+    try {
+      const store = await getCheckpointStore();
+      const run = await store.getRun(workflowId);
+      if (!run) return;
+
+      const completedResults = (state?.results || []).filter((r: any) => !r.error);
+      await this.saveRun({
+        ...run,
+        status: error ? "failed" : state?.status || run.status,
+        currentStep: state?.currentStep ?? run.currentStep,
+        totalSteps: state?.plan?.totalSteps ?? run.totalSteps,
+        lastCompletedStepId: completedResults.length > 0
+          ? completedResults[completedResults.length - 1].stepId
+          : run.lastCompletedStepId,
+        error,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (storeError) {
+      console.error("Failed to record workflow progress:", storeError);
+    }
+  }
+
+  private async saveRun(run: WorkflowRunRecord) {
+    try {
+      const store = await getCheckpointStore();
+      await store.saveRun(run);
+    } catch (error) {
+      // Persistence problems shouldn't stop the workflow itself
+      console.error("Failed to save workflow run:", error);
+    }
+  }
+
   cancelWorkflow(workflowId: string): boolean {
     const workflow = this.activeWorkflows.get(workflowId);
     if (workflow) {
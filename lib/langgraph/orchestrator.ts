@@ -1,13 +1,27 @@
-import { StateGraph, END, START, Annotation, MemorySaver } from "@langchain/langgraph/web";
+import { StateGraph, END, START, Annotation, BaseCheckpointSaver } from "@langchain/langgraph/web";
+import { interrupt } from "@langchain/langgraph";
 import { BaseAgent } from "./agents/base-agent";
 import { ResearchAgent } from "./agents/research-agent";
 import { DeepResearchAgent } from "./agents/deep-research-agent";
 import { CodeAgent } from "./agents/code-agent";
+import { MCPToolAgent } from "./agents/mcp-tool-agent";
+import { PersistentCheckpointSaver } from "./persistence/persistent-checkpoint-saver";
+import {
+  getWorkflowTemplate,
+  isTemplateStep,
+  MCP_TOOL_AGENT,
+  renderTemplateStep,
+  templateToPlan,
+} from "./templates/workflow-templates";
 import { 
   WorkflowState, 
   WorkflowEvent,
   TaskPlan,
+  PlannedStep,
   StepResult,
+  WorkflowReviewDecision,
+  WorkflowReviewRequest,
+  StepReviewAction,
   isWorkflowComplete,
   getNextExecutableSteps,
   updateStepStatus
@@ -17,6 +31,12 @@ import { RunnableConfig } from "@langchain/core/runnables";
 
 export type WorkflowType = "research" | "deep-research" | "code" | "analysis" | "creative" | "custom";
 
+// Agents with side effects; their steps wait for approval when human-in-the-loop is on
+const RISKY_AGENTS = new Set(["code-agent", MCP_TOOL_AGENT]);
+
+// Retries per failed step when retryOnFailure is set without retryAttempts
+const DEFAULT_RETRY_ATTEMPTS = 2;
+
 export interface OrchestratorConfig {
   maxConcurrentSteps?: number;
   enableHumanInLoop?: boolean;
@@ -26,7 +46,7 @@ export interface OrchestratorConfig {
 
 export class WorkflowOrchestrator {
   private agents: Map<string, BaseAgent>;
-  private checkpointer: MemorySaver;
+  private checkpointer: BaseCheckpointSaver;
   private config: OrchestratorConfig;
 
   constructor(config: OrchestratorConfig = {}) {
@@ -41,31 +61,43 @@ export class WorkflowOrchestrator {
       ["research-agent", new ResearchAgent()],
       ["deep-research-agent", new DeepResearchAgent()],
       ["code-agent", new CodeAgent()],
+      ["mcp-tool-agent", new MCPToolAgent()],
     ]);
     
-    this.checkpointer = new MemorySaver();
+    // Supabase-backed when configured, local files otherwise
+    this.checkpointer = new PersistentCheckpointSaver();
   }
 
   createWorkflow(type: WorkflowType) {
     const workflow = new StateGraph(WorkflowState)
       .addNode("planner", this.plannerNode.bind(this))
+      .addNode("plan_review", this.planReviewNode.bind(this))
+      .addNode("step_review", this.stepReviewNode.bind(this))
       .addNode("executor", this.executorNode.bind(this))
       .addNode("reviewer", this.reviewerNode.bind(this))
       .addNode("error_handler", this.errorHandlerNode.bind(this))
       .addEdge(START, "planner")
       .addConditionalEdges("planner", this.shouldExecute.bind(this), {
-        execute: "executor",
+        execute: "plan_review",
         error: "error_handler",
         end: END,
       })
+      .addConditionalEdges("plan_review", this.afterReview.bind(this), {
+        execute: "step_review",
+        cancelled: END,
+      })
+      .addConditionalEdges("step_review", this.afterReview.bind(this), {
+        execute: "executor",
+        cancelled: END,
+      })
       .addConditionalEdges("executor", this.checkExecutionResult.bind(this), {
         review: "reviewer",
-        continue: "executor",
+        continue: "step_review",
         error: "error_handler",
         end: END,
       })
       .addConditionalEdges("reviewer", this.shouldComplete.bind(this), {
-        continue: "executor",
+        continue: "step_review",
         complete: END,
         error: "error_handler",
       })
@@ -76,6 +108,85 @@ export class WorkflowOrchestrator {
     });
   }
 
+  /**
+   * Prepare a stored run to continue from its last completed step.
+   * Interrupted runs pick up at the pending node; failed runs get their failed
+   * steps reset to pending. Returns the input to stream with, or null when
+   * the run already completed.
+   */
+  async prepareResume(type: WorkflowType, threadId: string) {
+    const workflow = this.createWorkflow(type);
+    const config = { configurable: { thread_id: threadId } };
+    const snapshot = await workflow.getState(config);
+    const state = snapshot.values as typeof WorkflowState.State;
+
+    if (!state?.metadata) {
+      throw new Error(`No checkpoint found for workflow ${threadId}`);
+    }
+    if (state.status === "completed") {
+      return null;
+    }
+
+    // Stopped between nodes (e.g. server restart) - just run the pending node
+    if (snapshot.next.length > 0 && state.status !== "failed") {
+      return { workflow, input: null };
+    }
+
+    // Failed before a plan existed - plan again on the same thread
+    if (!state.plan) {
+      return {
+        workflow,
+        input: { objective: state.objective, status: "planning" as const, metadata: { ...state.metadata, completedAt: undefined, cancelledAt: undefined } },
+      };
+    }
+
+    const plan: TaskPlan = {
+      ...state.plan,
+      steps: state.plan.steps.map(step =>
+        step.status === "completed" ? step : { ...step, status: "pending" as const }
+      ),
+    };
+
+    // As plan_review so an already reviewed plan isn't put up for review again
+    await workflow.updateState(config, {
+      plan,
+      results: state.results.filter(result => !result.error),
+      status: "executing",
+      metadata: { ...state.metadata, completedAt: undefined, cancelledAt: undefined },
+    }, "plan_review");
+
+    return { workflow, input: null };
+  }
+
+  /**
+   * Reset finished steps so a completed or failed run executes them again.
+   * The steps count as approved since the user asked for the re-run.
+   */
+  async rerunSteps(type: WorkflowType, threadId: string, stepIds: string[]) {
+    const workflow = this.createWorkflow(type);
+    const config = { configurable: { thread_id: threadId } };
+    const state = (await workflow.getState(config)).values as typeof WorkflowState.State;
+
+    if (!state?.plan) {
+      throw new Error(`No plan found for workflow ${threadId}`);
+    }
+
+    const rerun = new Set(stepIds);
+    await workflow.updateState(config, {
+      plan: {
+        ...state.plan,
+        steps: state.plan.steps.map(step =>
+          rerun.has(step.id) ? { ...step, status: "pending" as const, approved: true } : step
+        ),
+      },
+      results: state.results.filter(result => !rerun.has(result.stepId)),
+      status: "executing",
+      metadata: { ...state.metadata, completedAt: undefined, cancelledAt: undefined },
+    }, "plan_review");
+
+    return workflow;
+  }
+
   private async plannerNode(
     state: typeof WorkflowState.State,
     config?: RunnableConfig
@@ -87,23 +198,21 @@ export class WorkflowOrchestrator {
         timestamp: new Date(),
       });
 
-      const agent = this.getAgentForWorkflow(state.metadata.type);
-      if (!agent) {
-        throw new Error(`No agent found for workflow type: ${state.metadata.type}`);
-      }
-
-      const plan = await agent.plan(state.objective, state.metadata);
+      const plan = await this.createPlan(state);
+      const needsReview = this.isHumanReviewEnabled(state);
       
-      this.emitEvent({
-        type: "workflow_executing",
-        workflowId: state.metadata.id,
-        timestamp: new Date(),
-        data: { totalSteps: plan.totalSteps },
-      });
+      if (!needsReview) {
+        this.emitEvent({
+          type: "workflow_executing",
+          workflowId: state.metadata.id,
+          timestamp: new Date(),
+          data: { totalSteps: plan.totalSteps },
+        });
+      }
 
       return {
         plan,
-        status: "executing" as const,
+        status: needsReview ? "paused" as const : "executing" as const,
         messages: [
           ...state.messages,
           new AIMessage({
@@ -129,6 +238,97 @@ export class WorkflowOrchestrator {
     }
   }
 
+  // Template runs take their steps from the template; everything else asks the agent
+  private async createPlan(state: typeof WorkflowState.State): Promise<TaskPlan> {
+    const template = state.metadata.template;
+    if (template) {
+      const plan = templateToPlan(await getWorkflowTemplate(template.name), template.inputs);
+      const unknownAgents = plan.steps.filter(step => !this.agents.has(step.agent)).map(step => step.agent);
+      if (unknownAgents.length > 0) {
+        throw new Error(`Workflow template "${template.name}" uses unknown agents: ${Array.from(new Set(unknownAgents)).join(", ")}`);
+      }
+      return plan;
+    }
+
+    const agent = this.getAgentForWorkflow(state.metadata.type);
+    if (!agent) {
+      throw new Error(`No agent found for workflow type: ${state.metadata.type}`);
+    }
+    return agent.plan(state.objective, state.metadata);
+  }
+
+  // Interrupts after planning so the user can edit, approve or reject the plan
+  private async planReviewNode(state: typeof WorkflowState.State) {
+    if (!state.plan || !this.isHumanReviewEnabled(state)) {
+      return {};
+    }
+
+    // Nodes re-run from the top on resume, so nothing with side effects goes before this
+    const decision = interrupt<WorkflowReviewRequest, WorkflowReviewDecision>({
+      kind: "plan",
+      plan: state.plan,
+      stepIds: [],
+    });
+
+    if (decision?.action === "reject") {
+      return this.cancelWorkflow(state, "Plan rejected");
+    }
+
+    const plan = decision?.plan ? this.mergeEditedPlan(state.plan, decision.plan) : state.plan;
+    const update = this.applyStepActions({ ...state, plan }, decision?.steps || {});
+
+    this.emitEvent({
+      type: "workflow_executing",
+      workflowId: state.metadata.id,
+      timestamp: new Date(),
+      data: { totalSteps: update.plan.totalSteps },
+    });
+
+    return {
+      ...update,
+      status: "executing" as const,
+      messages: [
+        new AIMessage(`Plan approved with ${update.plan.totalSteps} steps.`),
+      ],
+    };
+  }
+
+  // Interrupts before risky steps that haven't been approved yet
+  private async stepReviewNode(state: typeof WorkflowState.State) {
+    if (!state.plan || !this.isHumanReviewEnabled(state)) {
+      return {};
+    }
+
+    const awaiting = getNextExecutableSteps(state)
+      .slice(0, this.config.maxConcurrentSteps)
+      .filter(step => this.isAwaitingApproval(state, step));
+
+    if (awaiting.length === 0) {
+      return {};
+    }
+
+    const decision = interrupt<WorkflowReviewRequest, WorkflowReviewDecision>({
+      kind: "steps",
+      plan: state.plan,
+      stepIds: awaiting.map(step => step.id),
+    });
+
+    if (decision?.action === "reject") {
+      return this.cancelWorkflow(state, "Workflow cancelled during step review");
+    }
+
+    // Steps the user didn't answer for are approved
+    const actions: Record<string, StepReviewAction> = {
+      ...Object.fromEntries(awaiting.map(step => [step.id, "approve" as const])),
+      ...decision?.steps,
+    };
+
+    return {
+      ...this.applyStepActions(state, actions),
+      status: "executing" as const,
+    };
+  }
+
   private async executorNode(
     state: typeof WorkflowState.State,
     config?: RunnableConfig
@@ -138,109 +338,69 @@ export class WorkflowOrchestrator {
     }
 
     try {
-      // Get next executable steps (handles parallel execution)
-      const executableSteps = getNextExecutableSteps(state);
+      // Steps whose dependencies are satisfied can run side by side
+      const readySteps = getNextExecutableSteps(state);
+      const executableSteps = readySteps.filter(step => !this.isAwaitingApproval(state, step));
+
+      // Everything ready needs approval first - step_review picks it up next
+      if (executableSteps.length === 0 && readySteps.length > 0) {
+        return {};
+      }
       
       if (executableSteps.length === 0) {
         return {
           status: "reviewing" as const,
           messages: [
-            ...state.messages,
             new AIMessage("All steps completed, moving to review."),
           ],
         };
       }
 
       // Execute steps (limit concurrency)
-      const stepsToExecute = executableSteps.slice(0, this.config.maxConcurrentSteps);
-      const results: StepResult[] = [];
+      const stepsToExecute = executableSteps.slice(0, Math.max(1, this.config.maxConcurrentSteps ?? 1));
+      const failFast = !state.metadata.config?.retryOnFailure;
+      const abortController = new AbortController();
       
-      // Execute steps in parallel
-      const executionPromises = stepsToExecute.map(async (step) => {
-        this.emitEvent({
-          type: "workflow_step_started",
-          workflowId: state.metadata.id,
-          timestamp: new Date(),
-          data: { step: step.name, stepId: step.id },
-        });
-
-        const agent = this.agents.get(step.agent);
-        if (!agent) {
-          throw new Error(`Agent ${step.agent} not found`);
-        }
-
-        const startTime = Date.now();
-        
-        try {
-          const result = await agent.execute({
-            task: step.description,
-            context: {
-              objective: state.objective,
-              previousSteps: state.results,
-              metadata: state.metadata,
-            },
-            previousResults: state.results,
-          });
-
-          const stepResult: StepResult = {
-            stepId: step.id,
-            output: result,
-            duration: Date.now() - startTime,
-            startedAt: new Date(startTime),
-            completedAt: new Date(),
-          };
-
-          this.emitEvent({
-            type: "workflow_step_completed",
-            workflowId: state.metadata.id,
-            timestamp: new Date(),
-            data: { step: step.name, stepId: step.id, result },
-          });
-
-          return stepResult;
-        } catch (error) {
-          const stepResult: StepResult = {
-            stepId: step.id,
-            output: null,
-            duration: Date.now() - startTime,
-            startedAt: new Date(startTime),
-            completedAt: new Date(),
-            error: error.message,
-          };
-
-          this.emitEvent({
-            type: "workflow_step_failed",
-            workflowId: state.metadata.id,
-            timestamp: new Date(),
-            data: { step: step.name, stepId: step.id, error: error.message },
-          });
-
-          return stepResult;
+      const outcomes = await Promise.all(stepsToExecute.map(async (step) => {
+        const outcome = await this.executeStep(state, step, abortController.signal);
+        // Without retries a failed step fails the workflow, so stop its siblings
+        if (outcome.result?.error && failFast) {
+          abortController.abort();
         }
-      });
-
-      const stepResults = await Promise.all(executionPromises);
-      results.push(...stepResults);
+        return outcome;
+      }));
 
-      // Update plan with step statuses
+      // Steps cancelled mid-flight go back to pending; results keep plan order
       let updatedPlan = state.plan;
-      for (const result of stepResults) {
-        const status = result.error ? "failed" : "completed";
-        updatedPlan = updateStepStatus(updatedPlan, result.stepId, status);
+      const results: StepResult[] = [];
+      for (const { step, result } of outcomes) {
+        updatedPlan = {
+          ...updatedPlan,
+          steps: updatedPlan.steps.map(s =>
+            s.id === step.id ? { ...s, attempts: (s.attempts ?? 0) + (result ? 1 : 0) } : s
+          ),
+        };
+        if (result) {
+          results.push(result);
+          updatedPlan = updateStepStatus(updatedPlan, step.id, result.error ? "failed" : "completed");
+        } else {
+          updatedPlan = updateStepStatus(updatedPlan, step.id, "pending");
+        }
       }
 
+      const failed = results.filter(result => result.error);
+      const summary = outcomes.map(({ step, result }) =>
+        `- ${step.name}: ${!result ? "Cancelled" : result.error ? "Failed" : "Completed"}`
+      ).join("\n");
+
       return {
         plan: updatedPlan,
         results: [...state.results, ...results],
-        currentStep: state.currentStep + stepsToExecute.length,
+        currentStep: state.currentStep + results.length,
+        ...(failFast && failed.length > 0 ? { status: "failed" as const } : {}),
         messages: [
-          ...state.messages,
           new AIMessage({
-            content: `Executed ${stepsToExecute.length} steps:\n${
-              stepsToExecute.map((s, i) => 
-                `- ${s.name}: ${results[i].error ? "Failed" : "Completed"}`
-              ).join("\n")
-            }`,
+            content: `Executed ${stepsToExecute.length} steps:\n${summary}`,
             additional_kwargs: { results },
           }),
         ],
@@ -250,7 +410,6 @@ export class WorkflowOrchestrator {
       return {
         status: "failed" as const,
         messages: [
-          ...state.messages,
           new AIMessage({
             content: `Execution failed: ${error.message}`,
             additional_kwargs: { error: error.message },
@@ -260,6 +419,111 @@ export class WorkflowOrchestrator {
     }
   }
 
+  /**
+   * Run one step with its agent. Resolves without a result when the signal
+   * aborts first, so a cancelled step can run again later.
+   */
+  private async executeStep(
+    state: typeof WorkflowState.State,
+    step: PlannedStep,
+    signal: AbortSignal
+  ): Promise<{ step: PlannedStep; result?: StepResult }> {
+    const startTime = Date.now();
+
+    this.emitEvent({
+      type: "workflow_step_started",
+      workflowId: state.metadata.id,
+      timestamp: new Date(),
+      data: { step: step.name, stepId: step.id, attempt: (step.attempts ?? 0) + 1 },
+    });
+
+    const cancelled = new Promise<null>(resolve => {
+      if (signal.aborted) resolve(null);
+      signal.addEventListener("abort", () => resolve(null), { once: true });
+    });
+
+    try {
+      const agent = this.agents.get(step.agent);
+      if (!agent) {
+        throw new Error(`Agent ${step.agent} not found`);
+      }
+
+      // Template steps fill in inputs and earlier outputs just before running
+      const { task, input } = isTemplateStep(step)
+        ? renderTemplateStep(step, state.objective, state.results)
+        : { task: step.description, input: step.input };
+
+      const output = await Promise.race([
+        agent.execute({
+          task,
+          input,
+          context: {
+            objective: state.objective,
+            previousSteps: state.results,
+            metadata: state.metadata,
+          },
+          previousResults: state.results,
+          signal,
+          approved: step.approved === true,
+          onApprovalRequired: (approval) => this.emitEvent({
+            type: "workflow_step_approval_required",
+            workflowId: state.metadata.id,
+            timestamp: new Date(),
+            data: { step: step.name, stepId: step.id, approval },
+          }),
+        }).then(result => ({ result })),
+        cancelled,
+      ]);
+
+      if (!output) {
+        this.emitEvent({
+          type: "workflow_step_cancelled",
+          workflowId: state.metadata.id,
+          timestamp: new Date(),
+          data: { step: step.name, stepId: step.id },
+        });
+        return { step };
+      }
+
+      this.emitEvent({
+        type: "workflow_step_completed",
+        workflowId: state.metadata.id,
+        timestamp: new Date(),
+        data: { step: step.name, stepId: step.id, result: output.result },
+      });
+
+      return {
+        step,
+        result: {
+          stepId: step.id,
+          output: output.result,
+          duration: Date.now() - startTime,
+          startedAt: new Date(startTime),
+          completedAt: new Date(),
+        },
+      };
+    } catch (error) {
+      this.emitEvent({
+        type: "workflow_step_failed",
+        workflowId: state.metadata.id,
+        timestamp: new Date(),
+        data: { step: step.name, stepId: step.id, error: error.message },
+      });
+
+      return {
+        step,
+        result: {
+          stepId: step.id,
+          output: null,
+          duration: Date.now() - startTime,
+          startedAt: new Date(startTime),
+          completedAt: new Date(),
+          error: error.message,
+        },
+      };
+    }
+  }
+
   private async reviewerNode(
     state: typeof WorkflowState.State,
     config?: RunnableConfig
@@ -268,7 +532,7 @@ export class WorkflowOrchestrator {
       // Check if all steps are complete
       const allStepsComplete = state.plan && 
         state.plan.steps.every(step => 
-          state.results.some(r => r.stepId === step.id)
+          state.results.some(r => r.stepId === step.id && !r.error)
         );
 
       if (allStepsComplete) {
@@ -303,28 +567,40 @@ export class WorkflowOrchestrator {
 
       // Check for failed steps that need retry
       const failedSteps = state.results.filter(r => r.error);
-      if (failedSteps.length > 0 && state.metadata.config?.retryOnFailure) {
-        // Reset failed steps for retry
-        const updatedPlan = { ...state.plan! };
-        failedSteps.forEach(failed => {
-          const stepIndex = updatedPlan.steps.findIndex(s => s.id === failed.stepId);
-          if (stepIndex >= 0) {
-            updatedPlan.steps[stepIndex].status = "pending";
-          }
-        });
+      const workflowConfig = state.metadata.config;
+      if (failedSteps.length > 0 && workflowConfig?.retryOnFailure) {
+        const maxAttempts = 1 + (workflowConfig.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS);
+        const failedIds = new Set(failedSteps.map(r => r.stepId));
+        const retryable = state.plan!.steps.every(step =>
+          !failedIds.has(step.id) || (step.attempts ?? 1) < maxAttempts
+        );
 
-        return {
-          plan: updatedPlan,
-          status: "executing" as const,
-          messages: [
-            ...state.messages,
-            new AIMessage(`Retrying ${failedSteps.length} failed steps.`),
-          ],
-        };
+        if (retryable) {
+          // Reset failed steps for retry
+          return {
+            plan: {
+              ...state.plan!,
+              steps: state.plan!.steps.map(step =>
+                failedIds.has(step.id) ? { ...step, status: "pending" as const } : step
+              ),
+            },
+            results: state.results.filter(r => !r.error),
+            status: "executing" as const,
+            messages: [
+              new AIMessage(`Retrying ${failedSteps.length} failed steps.`),
+            ],
+          };
+        }
       }
 
+      // Nothing left can run: steps failed for good or wait on ones that did
       return {
-        status: "executing" as const,
+        status: "failed" as const,
+        messages: [
+          new AIMessage(`${failedSteps.length} steps failed; ${
+            state.plan!.steps.filter(step => !state.results.some(r => r.stepId === step.id)).length
+          } steps could not run.`),
+        ],
       };
     } catch (error) {
       console.error("Reviewer error:", error);
@@ -364,7 +640,30 @@ export class WorkflowOrchestrator {
     };
   }
 
+  private cancelWorkflow(state: typeof WorkflowState.State, reason: string) {
+    this.emitEvent({
+      type: "workflow_cancelled",
+      workflowId: state.metadata.id,
+      timestamp: new Date(),
+      data: { reason },
+    });
+
+    return {
+      status: "failed" as const,
+      metadata: {
+        ...state.metadata,
+        completedAt: new Date(),
+        cancelledAt: new Date(),
+      },
+      messages: [new AIMessage(reason)],
+    };
+  }
+
   // Conditional edge functions
+  private afterReview(state: typeof WorkflowState.State) {
+    return state.metadata.cancelledAt ? "cancelled" : "execute";
+  }
+
   private shouldExecute(state: typeof WorkflowState.State) {
     if (state.status === "failed") return "error";
     if (!state.plan) return "error";
@@ -389,6 +688,94 @@ export class WorkflowOrchestrator {
   }
 
   // Helper methods
+  private isHumanReviewEnabled(state: typeof WorkflowState.State): boolean {
+    return !!(this.config.enableHumanInLoop || state.metadata.config?.requireHumanApproval);
+  }
+
+  private isRiskyStep(step: PlannedStep): boolean {
+    return step.requiresApproval ?? RISKY_AGENTS.has(step.agent);
+  }
+
+  private isAwaitingApproval(state: typeof WorkflowState.State, step: PlannedStep): boolean {
+    return this.isHumanReviewEnabled(state) && this.isRiskyStep(step) && !step.approved;
+  }
+
+  /**
+   * Take the user's edits to a plan while keeping what they can't change:
+   * unknown agents fall back to the original step's agent, dependencies on
+   * removed steps are dropped, and execution status stays server-side.
+   */
+  private mergeEditedPlan(original: TaskPlan, edited: TaskPlan): TaskPlan {
+    const stepIds = new Set(edited.steps.map(step => step.id));
+
+    const steps = edited.steps
+      .map((step): PlannedStep | null => {
+        const existing = original.steps.find(s => s.id === step.id);
+        const agent = this.agents.has(step.agent) ? step.agent : existing?.agent;
+        if (!agent) return null;
+
+        return {
+          ...existing,
+          ...step,
+          agent,
+          dependencies: (step.dependencies || []).filter(id => stepIds.has(id) && id !== step.id),
+          status: existing?.status ?? "pending",
+          // Approving the plan doesn't approve its risky steps
+          approved: existing?.approved,
+        };
+      })
+      .filter((step): step is PlannedStep => step !== null);
+
+    const keptIds = new Set(steps.map(step => step.id));
+    return {
+      ...original,
+      steps,
+      totalSteps: steps.length,
+      dependencies: original.dependencies.filter(dep => keptIds.has(dep.from) && keptIds.has(dep.to)),
+    };
+  }
+
+  private applyStepActions(
+    state: typeof WorkflowState.State,
+    actions: Record<string, StepReviewAction>
+  ): { plan: TaskPlan; results: StepResult[] } {
+    let plan = state.plan!;
+    let results = state.results;
+
+    for (const [stepId, action] of Object.entries(actions)) {
+      if (!plan.steps.some(step => step.id === stepId)) continue;
+
+      if (action === "skip") {
+        // A skipped result lets dependent steps go ahead
+        plan = updateStepStatus(plan, stepId, "skipped");
+        results = [...results.filter(result => result.stepId !== stepId), {
+          stepId,
+          output: null,
+          duration: 0,
+          startedAt: new Date(),
+          completedAt: new Date(),
+          skipped: true,
+        }];
+        continue;
+      }
+
+      plan = {
+        ...plan,
+        steps: plan.steps.map(step => {
+          if (step.id !== stepId) return step;
+          return action === "rerun"
+            ? { ...step, status: "pending" as const, approved: true }
+            : { ...step, approved: true };
+        }),
+      };
+      if (action === "rerun") {
+        results = results.filter(result => result.stepId !== stepId);
+      }
+    }
+
+    return { plan, results };
+  }
+
   private getAgentForWorkflow(type: string): BaseAgent | undefined {
     switch (type) {
       case "research":
@@ -411,7 +798,7 @@ export class WorkflowOrchestrator {
 ${state.plan!.steps.map((step, i) => {
   const result = state.results.find(r => r.stepId === step.id);
   return `${i + 1}. **${step.name}**
-   - Status: ${result?.error ? "Failed" : "Completed"}
+   - Status: ${result?.skipped ? "Skipped" : result?.error ? "Failed" : "Completed"}
    - Duration: ${result?.duration ? `${(result.duration / 1000).toFixed(2)}s` : "N/A"}
    ${result?.error ? `- Error: ${result.error}` : ""}`;
 }).join("\n\n")}
@@ -425,7 +812,7 @@ ${state.results
   }).join("\n")}
 
 ### Summary:
-Workflow completed ${state.results.filter(r => !r.error).length}/${state.plan!.totalSteps} steps successfully.`;
+Workflow completed ${state.results.filter(r => !r.error && !r.skipped).length}/${state.plan!.totalSteps} steps successfully.`;
 
     return summary;
   }
@@ -0,0 +1,72 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { Annotation, END, START, StateGraph } from "@langchain/langgraph";
+import { emptyCheckpoint, uuid6 } from "@langchain/langgraph-checkpoint";
+import { FileCheckpointStore } from "@/lib/langgraph/persistence/file-checkpoint-store";
+import { PersistentCheckpointSaver } from "@/lib/langgraph/persistence/persistent-checkpoint-saver";
+
+// Each saver gets its own store on the same directory, as after a server restart
+const newSaver = (directory: string) => new PersistentCheckpointSaver(new FileCheckpointStore(directory));
+
+describe("PersistentCheckpointSaver", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoints-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads back checkpoints, metadata and pending writes from a new saver", async () => {
+    const first = { ...emptyCheckpoint(), id: uuid6(-1), channel_values: { topic: "tides", count: 2 } };
+    const second = { ...emptyCheckpoint(), id: uuid6(-1), channel_values: { topic: "tides", count: 3 } };
+    const thread = { configurable: { thread_id: "wf_1", checkpoint_ns: "" } };
+
+    const writer = newSaver(directory);
+    const firstConfig = await writer.put(thread, first, { source: "input", step: -1, writes: null, parents: {} });
+    const secondConfig = await writer.put(firstConfig, second, { source: "loop", step: 0, writes: null, parents: {} });
+    await writer.putWrites(secondConfig, [["count", 4]], "task-1");
+
+    const reader = newSaver(directory);
+    const latest = await reader.getTuple(thread);
+    expect(latest?.checkpoint.channel_values).toEqual({ topic: "tides", count: 3 });
+    expect(latest?.metadata).toEqual({ source: "loop", step: 0, writes: null, parents: {} });
+    expect(latest?.pendingWrites).toEqual([["task-1", "count", 4]]);
+    expect(latest?.parentConfig?.configurable?.checkpoint_id).toBe(first.id);
+
+    const earlier = await reader.getTuple(firstConfig);
+    expect(earlier?.checkpoint.channel_values).toEqual({ topic: "tides", count: 2 });
+
+    const listed = [];
+    for await (const tuple of reader.list(thread, { limit: 1, filter: { source: "input" } })) {
+      listed.push(tuple.checkpoint.id);
+    }
+    expect(listed).toEqual([first.id]);
+  });
+
+  it("resumes an interrupted graph after a restart", async () => {
+    const State = Annotation.Root({
+      visited: Annotation<string[]>({ reducer: (x, y) => x.concat(y), default: () => [] }),
+    });
+    const buildGraph = (saver: PersistentCheckpointSaver) => new StateGraph(State)
+      .addNode("plan", () => ({ visited: ["plan"] }))
+      .addNode("execute", () => ({ visited: ["execute"] }))
+      .addEdge(START, "plan")
+      .addEdge("plan", "execute")
+      .addEdge("execute", END)
+      .compile({ checkpointer: saver, interruptBefore: ["execute"] });
+    const config = { configurable: { thread_id: "wf_2" } };
+
+    const paused = await buildGraph(newSaver(directory)).invoke({ visited: [] }, config);
+    expect(paused.visited).toEqual(["plan"]);
+
+    const restarted = buildGraph(newSaver(directory));
+    expect((await restarted.getState(config)).next).toEqual(["execute"]);
+    const finished = await restarted.invoke(null, config);
+    expect(finished.visited).toEqual(["plan", "execute"]);
+  });
+});
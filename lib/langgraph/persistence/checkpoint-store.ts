@@ -0,0 +1,86 @@
+import { isPersistenceConfigured } from "@/lib/database/supabase";
+import type { WorkflowStatus } from "../workflow-engine";
+
+// A value produced by the checkpoint serializer: "json" text or base64 "bytes"
+export interface SerializedValue {
+  type: string;
+  data: string;
+}
+
+export interface StoredCheckpoint {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  parentCheckpointId?: string;
+  checkpoint: SerializedValue;
+  metadata: SerializedValue;
+  createdAt: string;
+}
+
+export interface StoredWrite {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  taskId: string;
+  idx: number;
+  channel: string;
+  value: SerializedValue;
+}
+
+// One workflow run; the id doubles as the LangGraph thread_id
+export interface WorkflowRunRecord {
+  id: string;
+  chatId: string;
+  userId: string;
+  type: string;
+  objective: string;
+  status: WorkflowStatus;
+  currentStep: number;
+  totalSteps: number;
+  lastCompletedStepId?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListCheckpointsOptions {
+  before?: string;
+  limit?: number;
+}
+
+/**
+ * Storage backend for workflow checkpoints and run records
+ */
+export interface CheckpointStore {
+  readonly backend: "supabase" | "file";
+  putCheckpoint(checkpoint: StoredCheckpoint): Promise<void>;
+  // Latest checkpoint for the thread when checkpointId is omitted
+  getCheckpoint(threadId: string, checkpointNs: string, checkpointId?: string): Promise<StoredCheckpoint | undefined>;
+  // Newest first; all threads/namespaces when omitted
+  listCheckpoints(threadId?: string, checkpointNs?: string, options?: ListCheckpointsOptions): Promise<StoredCheckpoint[]>;
+  // Existing writes with the same key are kept unless overwrite is set
+  putWrites(writes: StoredWrite[], overwrite: boolean): Promise<void>;
+  getWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]>;
+  saveRun(run: WorkflowRunRecord): Promise<void>;
+  getRun(runId: string): Promise<WorkflowRunRecord | undefined>;
+  listRuns(chatId: string): Promise<WorkflowRunRecord[]>;
+}
+
+let store: CheckpointStore | null = null;
+
+/**
+ * Supabase when persistence is configured, otherwise JSON files on local disk
+ */
+export async function getCheckpointStore(): Promise<CheckpointStore> {
+  if (!store) {
+    if (isPersistenceConfigured()) {
+      const { SupabaseCheckpointStore } = await import("./supabase-checkpoint-store");
+      store = new SupabaseCheckpointStore();
+    } else {
+      const { FileCheckpointStore } = await import("./file-checkpoint-store");
+      store = new FileCheckpointStore();
+    }
+    console.log(`[CheckpointStore] Using ${store.backend} workflow checkpoint storage`);
+  }
+  return store;
+}
@@ -0,0 +1,175 @@
+import fs from "fs/promises";
+import path from "path";
+import type {
+  CheckpointStore,
+  ListCheckpointsOptions,
+  StoredCheckpoint,
+  StoredWrite,
+  WorkflowRunRecord,
+} from "./checkpoint-store";
+
+interface ThreadFile {
+  checkpoints: StoredCheckpoint[];
+  writes: StoredWrite[];
+}
+
+const RUNS_FILE = "runs.json";
+
+/**
+ * Local fallback when Supabase isn't configured: one JSON file per workflow
+ * thread plus a runs index. Writes to the same file are serialized.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  readonly backend = "file" as const;
+  private directory: string;
+  private fileLocks: Map<string, Promise<void>> = new Map();
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.WORKFLOW_CHECKPOINT_DIR || path.join(process.cwd(), ".workflow-checkpoints");
+  }
+
+  async putCheckpoint(checkpoint: StoredCheckpoint): Promise<void> {
+    await this.updateThread(checkpoint.threadId, (thread) => {
+      thread.checkpoints = thread.checkpoints.filter(c =>
+        !(c.checkpointNs === checkpoint.checkpointNs && c.checkpointId === checkpoint.checkpointId)
+      );
+      thread.checkpoints.push(checkpoint);
+    });
+  }
+
+  async getCheckpoint(threadId: string, checkpointNs: string, checkpointId?: string): Promise<StoredCheckpoint | undefined> {
+    const thread = await this.readThread(threadId);
+    return thread.checkpoints
+      .filter(c => c.checkpointNs === checkpointNs && (!checkpointId || c.checkpointId === checkpointId))
+      .sort((a, b) => b.checkpointId.localeCompare(a.checkpointId))[0];
+  }
+
+  async listCheckpoints(threadId?: string, checkpointNs?: string, options: ListCheckpointsOptions = {}): Promise<StoredCheckpoint[]> {
+    const threadIds = threadId ? [threadId] : await this.listThreadIds();
+    const checkpoints: StoredCheckpoint[] = [];
+
+    for (const id of threadIds) {
+      const thread = await this.readThread(id);
+      checkpoints.push(...thread.checkpoints.filter(c =>
+        (checkpointNs === undefined || c.checkpointNs === checkpointNs) &&
+        (!options.before || c.checkpointId < options.before)
+      ));
+    }
+
+    checkpoints.sort((a, b) => b.checkpointId.localeCompare(a.checkpointId));
+    return options.limit !== undefined ? checkpoints.slice(0, options.limit) : checkpoints;
+  }
+
+  async putWrites(writes: StoredWrite[], overwrite: boolean): Promise<void> {
+    if (writes.length === 0) return;
+
+    await this.updateThread(writes[0].threadId, (thread) => {
+      for (const write of writes) {
+        const index = thread.writes.findIndex(w =>
+          w.checkpointNs === write.checkpointNs &&
+          w.checkpointId === write.checkpointId &&
+          w.taskId === write.taskId &&
+          w.idx === write.idx
+        );
+        if (index < 0) {
+          thread.writes.push(write);
+        } else if (overwrite) {
+          thread.writes[index] = write;
+        }
+      }
+    });
+  }
+
+  async getWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]> {
+    const thread = await this.readThread(threadId);
+    return thread.writes.filter(w => w.checkpointNs === checkpointNs && w.checkpointId === checkpointId);
+  }
+
+  async saveRun(run: WorkflowRunRecord): Promise<void> {
+    await this.withLock(RUNS_FILE, async () => {
+      const runs = await this.readJson<WorkflowRunRecord[]>(RUNS_FILE, []);
+      const index = runs.findIndex(r => r.id === run.id);
+      if (index >= 0) {
+        runs[index] = run;
+      } else {
+        runs.push(run);
+      }
+      await this.writeJson(RUNS_FILE, runs);
+    });
+  }
+
+  async getRun(runId: string): Promise<WorkflowRunRecord | undefined> {
+    const runs = await this.readJson<WorkflowRunRecord[]>(RUNS_FILE, []);
+    return runs.find(r => r.id === runId);
+  }
+
+  async listRuns(chatId: string): Promise<WorkflowRunRecord[]> {
+    const runs = await this.readJson<WorkflowRunRecord[]>(RUNS_FILE, []);
+    return runs
+      .filter(r => r.chatId === chatId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private threadFileName(threadId: string): string {
+    return `thread-${threadId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+  }
+
+  private async listThreadIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      const threadIds = new Set<string>();
+      for (const file of files) {
+        if (!file.startsWith("thread-")) continue;
+        const thread = await this.readJson<ThreadFile>(file, { checkpoints: [], writes: [] });
+        thread.checkpoints.forEach(c => threadIds.add(c.threadId));
+      }
+      return Array.from(threadIds);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private readThread(threadId: string): Promise<ThreadFile> {
+    return this.readJson<ThreadFile>(this.threadFileName(threadId), { checkpoints: [], writes: [] });
+  }
+
+  private async updateThread(threadId: string, update: (thread: ThreadFile) => void): Promise<void> {
+    const fileName = this.threadFileName(threadId);
+    await this.withLock(fileName, async () => {
+      const thread = await this.readThread(threadId);
+      update(thread);
+      await this.writeJson(fileName, thread);
+    });
+  }
+
+  private async withLock(fileName: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.fileLocks.get(fileName) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.fileLocks.set(fileName, next);
+    try {
+      await next;
+    } finally {
+      if (this.fileLocks.get(fileName) === next) {
+        this.fileLocks.delete(fileName);
+      }
+    }
+  }
+
+  private async readJson<T>(fileName: string, fallback: T): Promise<T> {
+    try {
+      const data = await fs.readFile(path.join(this.directory, fileName), "utf-8");
+      return JSON.parse(data);
+    } catch (error) {
+      // Missing or unreadable file - start fresh
+      return fallback;
+    }
+  }
+
+  private async writeJson(fileName: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = path.join(this.directory, fileName);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value), "utf-8");
+    await fs.rename(tempPath, filePath);
+  }
+}
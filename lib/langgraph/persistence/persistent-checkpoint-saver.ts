@@ -0,0 +1,191 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  copyCheckpoint,
+  getCheckpointId,
+  TASKS,
+  WRITES_IDX_MAP,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol,
+} from "@langchain/langgraph-checkpoint";
+import {
+  getCheckpointStore,
+  type CheckpointStore,
+  type SerializedValue,
+  type StoredCheckpoint,
+} from "./checkpoint-store";
+
+/**
+ * LangGraph checkpointer backed by a CheckpointStore (Supabase or local files).
+ * Mirrors MemorySaver's semantics so compiled graphs behave the same.
+ */
+export class PersistentCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private storeOverride?: CheckpointStore, serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  private getStore(): Promise<CheckpointStore> {
+    return this.storeOverride ? Promise.resolve(this.storeOverride) : getCheckpointStore();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (!threadId) return undefined;
+
+    const store = await this.getStore();
+    const saved = await store.getCheckpoint(threadId, checkpointNs, getCheckpointId(config) || undefined);
+    return saved ? this.toTuple(store, saved) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const store = await this.getStore();
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    const saved = await store.listCheckpoints(
+      config.configurable?.thread_id,
+      config.configurable?.checkpoint_ns,
+      // Metadata filters are applied after loading, so only push the limit down without one
+      { before: before?.configurable?.checkpoint_id, limit: filter ? undefined : limit }
+    );
+
+    let remaining = limit;
+    for (const row of saved) {
+      if (checkpointId && row.checkpointId !== checkpointId) continue;
+
+      const metadata = await this.deserialize(row.metadata) as CheckpointMetadata;
+      if (filter && !Object.entries(filter).every(([key, value]) => (metadata as any)[key] === value)) {
+        continue;
+      }
+
+      if (remaining !== undefined) {
+        if (remaining <= 0) break;
+        remaining -= 1;
+      }
+
+      yield this.toTuple(store, row, metadata);
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) {
+      throw new Error(`Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.`);
+    }
+
+    const prepared = copyCheckpoint(checkpoint) as Partial<Checkpoint>;
+    delete prepared.pending_sends;
+
+    const store = await this.getStore();
+    await store.putCheckpoint({
+      threadId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId: config.configurable?.checkpoint_id,
+      checkpoint: this.serialize(prepared),
+      metadata: this.serialize(metadata),
+      createdAt: new Date().toISOString(),
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) {
+      throw new Error(`Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property`);
+    }
+    if (checkpointId === undefined) {
+      throw new Error(`Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.`);
+    }
+
+    const rows = writes.map(([channel, value], idx) => ({
+      threadId,
+      checkpointNs,
+      checkpointId,
+      taskId,
+      idx: WRITES_IDX_MAP[channel] || idx,
+      channel,
+      value: this.serialize(value),
+    }));
+
+    // Regular writes are write-once; special channels (errors, interrupts) replace earlier values
+    const store = await this.getStore();
+    await store.putWrites(rows.filter(row => row.idx >= 0), false);
+    await store.putWrites(rows.filter(row => row.idx < 0), true);
+  }
+
+  private async toTuple(store: CheckpointStore, saved: StoredCheckpoint, metadata?: CheckpointMetadata): Promise<CheckpointTuple> {
+    const { threadId, checkpointNs, checkpointId, parentCheckpointId } = saved;
+
+    const writes = await store.getWrites(threadId, checkpointNs, checkpointId);
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async (write) => [write.taskId, write.channel, await this.deserialize(write.value)] as CheckpointPendingWrite)
+    );
+
+    // Sends are recovered from the parent checkpoint's task writes
+    let pendingSends: unknown[] = [];
+    if (parentCheckpointId) {
+      const parentWrites = await store.getWrites(threadId, checkpointNs, parentCheckpointId);
+      pendingSends = await Promise.all(
+        parentWrites.filter(write => write.channel === TASKS).map(write => this.deserialize(write.value))
+      );
+    }
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId,
+        },
+      },
+      checkpoint: {
+        ...(await this.deserialize(saved.checkpoint) as Checkpoint),
+        pending_sends: pendingSends as Checkpoint["pending_sends"],
+      },
+      metadata: metadata ?? await this.deserialize(saved.metadata) as CheckpointMetadata,
+      pendingWrites,
+    };
+
+    if (parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+
+  private serialize(value: unknown): SerializedValue {
+    const [type, data] = this.serde.dumpsTyped(value);
+    return type === "bytes"
+      ? { type, data: Buffer.from(data).toString("base64") }
+      : { type, data: new TextDecoder().decode(data) };
+  }
+
+  private deserialize(value: SerializedValue): Promise<any> {
+    return value.type === "bytes"
+      ? this.serde.loadsTyped(value.type, new Uint8Array(Buffer.from(value.data, "base64")))
+      : this.serde.loadsTyped(value.type, value.data);
+  }
+}
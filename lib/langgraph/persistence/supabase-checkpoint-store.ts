@@ -0,0 +1,201 @@
+import { supabase } from "@/lib/database/supabase";
+import type {
+  CheckpointStore,
+  ListCheckpointsOptions,
+  StoredCheckpoint,
+  StoredWrite,
+  WorkflowRunRecord,
+} from "./checkpoint-store";
+
+// Tables are created by lib/database/add-workflow-checkpoints.sql
+const CHECKPOINTS_TABLE = "workflow_checkpoints";
+const WRITES_TABLE = "workflow_checkpoint_writes";
+const RUNS_TABLE = "workflow_runs";
+
+function toCheckpoint(row: any): StoredCheckpoint {
+  return {
+    threadId: row.thread_id,
+    checkpointNs: row.checkpoint_ns,
+    checkpointId: row.checkpoint_id,
+    parentCheckpointId: row.parent_checkpoint_id || undefined,
+    checkpoint: row.checkpoint,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+  };
+}
+
+function toRun(row: any): WorkflowRunRecord {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    userId: row.user_id,
+    type: row.type,
+    objective: row.objective,
+    status: row.status,
+    currentStep: row.current_step,
+    totalSteps: row.total_steps,
+    lastCompletedStepId: row.last_completed_step_id || undefined,
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Workflow checkpoints and run records in Supabase, so runs survive restarts
+ * and serverless cold starts.
+ */
+export class SupabaseCheckpointStore implements CheckpointStore {
+  readonly backend = "supabase" as const;
+
+  private get client() {
+    if (!supabase) {
+      throw new Error("Supabase is not configured");
+    }
+    return supabase;
+  }
+
+  async putCheckpoint(checkpoint: StoredCheckpoint): Promise<void> {
+    const { error } = await this.client
+      .from(CHECKPOINTS_TABLE)
+      .upsert({
+        thread_id: checkpoint.threadId,
+        checkpoint_ns: checkpoint.checkpointNs,
+        checkpoint_id: checkpoint.checkpointId,
+        parent_checkpoint_id: checkpoint.parentCheckpointId || null,
+        checkpoint: checkpoint.checkpoint,
+        metadata: checkpoint.metadata,
+        created_at: checkpoint.createdAt,
+      });
+
+    if (error) throw error;
+  }
+
+  async getCheckpoint(threadId: string, checkpointNs: string, checkpointId?: string): Promise<StoredCheckpoint | undefined> {
+    let query = this.client
+      .from(CHECKPOINTS_TABLE)
+      .select("*")
+      .eq("thread_id", threadId)
+      .eq("checkpoint_ns", checkpointNs);
+
+    if (checkpointId) {
+      query = query.eq("checkpoint_id", checkpointId);
+    }
+
+    const { data, error } = await query
+      .order("checkpoint_id", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toCheckpoint(data) : undefined;
+  }
+
+  async listCheckpoints(threadId?: string, checkpointNs?: string, options: ListCheckpointsOptions = {}): Promise<StoredCheckpoint[]> {
+    let query = this.client
+      .from(CHECKPOINTS_TABLE)
+      .select("*");
+
+    if (threadId) query = query.eq("thread_id", threadId);
+    if (checkpointNs !== undefined) query = query.eq("checkpoint_ns", checkpointNs);
+    if (options.before) query = query.lt("checkpoint_id", options.before);
+
+    let ordered = query.order("checkpoint_id", { ascending: false });
+    if (options.limit !== undefined) {
+      ordered = ordered.limit(options.limit);
+    }
+
+    const { data, error } = await ordered;
+    if (error) throw error;
+    return (data || []).map(toCheckpoint);
+  }
+
+  async putWrites(writes: StoredWrite[], overwrite: boolean): Promise<void> {
+    if (writes.length === 0) return;
+
+    const { error } = await this.client
+      .from(WRITES_TABLE)
+      .upsert(
+        writes.map(write => ({
+          thread_id: write.threadId,
+          checkpoint_ns: write.checkpointNs,
+          checkpoint_id: write.checkpointId,
+          task_id: write.taskId,
+          idx: write.idx,
+          channel: write.channel,
+          value: write.value,
+        })),
+        {
+          onConflict: "thread_id,checkpoint_ns,checkpoint_id,task_id,idx",
+          ignoreDuplicates: !overwrite,
+        }
+      );
+
+    if (error) throw error;
+  }
+
+  async getWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<StoredWrite[]> {
+    const { data, error } = await this.client
+      .from(WRITES_TABLE)
+      .select("*")
+      .eq("thread_id", threadId)
+      .eq("checkpoint_ns", checkpointNs)
+      .eq("checkpoint_id", checkpointId)
+      .order("task_id", { ascending: true })
+      .order("idx", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      threadId: row.thread_id,
+      checkpointNs: row.checkpoint_ns,
+      checkpointId: row.checkpoint_id,
+      taskId: row.task_id,
+      idx: row.idx,
+      channel: row.channel,
+      value: row.value,
+    }));
+  }
+
+  async saveRun(run: WorkflowRunRecord): Promise<void> {
+    const { error } = await this.client
+      .from(RUNS_TABLE)
+      .upsert({
+        id: run.id,
+        chat_id: run.chatId,
+        user_id: run.userId,
+        type: run.type,
+        objective: run.objective,
+        status: run.status,
+        current_step: run.currentStep,
+        total_steps: run.totalSteps,
+        last_completed_step_id: run.lastCompletedStepId || null,
+        error: run.error || null,
+        created_at: run.createdAt,
+        updated_at: run.updatedAt,
+      });
+
+    if (error) throw error;
+  }
+
+  async getRun(runId: string): Promise<WorkflowRunRecord | undefined> {
+    const { data, error } = await this.client
+      .from(RUNS_TABLE)
+      .select("*")
+      .eq("id", runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRun(data) : undefined;
+  }
+
+  async listRuns(chatId: string): Promise<WorkflowRunRecord[]> {
+    const { data, error } = await this.client
+      .from(RUNS_TABLE)
+      .select("*")
+      .eq("chat_id", chatId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toRun);
+  }
+}
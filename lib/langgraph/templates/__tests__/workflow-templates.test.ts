@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  bindTemplateInputs,
+  parseWorkflowTemplate,
+  renderTemplateStep,
+  templateToPlan,
+  WorkflowTemplateError,
+} from "@/lib/langgraph/templates/workflow-templates";
+
+const triage = parseWorkflowTemplate(JSON.stringify({
+  name: "triage",
+  inputs: [
+    { name: "repo" },
+    { name: "label", required: false, default: "bug" },
+    { name: "question", required: false },
+  ],
+  steps: [
+    {
+      id: "fetch",
+      tool: { server: "github", name: "list_issues", arguments: { repo: "{{inputs.repo}}", labels: ["{{inputs.label}}"] } },
+    },
+    {
+      id: "summarize",
+      agent: "research-agent",
+      task: "Summarize {{steps.fetch.output}} for {{inputs.repo}}",
+      requiresApproval: true,
+    },
+  ],
+}), "triage.json");
+
+describe("parseWorkflowTemplate", () => {
+  it("reports dependency cycles, including ones made by output references", () => {
+    const yaml = [
+      "name: loop",
+      "steps:",
+      "  - id: a",
+      "    agent: research-agent",
+      "    task: Use {{steps.c.output}}",
+      "  - id: b",
+      "    agent: research-agent",
+      "    task: Next",
+      "    dependsOn: [a]",
+      "  - id: c",
+      "    agent: research-agent",
+      "    task: Last",
+      "    dependsOn: [b]",
+    ].join("\n");
+
+    expect(() => parseWorkflowTemplate(yaml, "loop.yaml")).toThrow("Dependency cycle: a -> c -> b -> a");
+  });
+
+  it("rejects unknown steps, unknown inputs and duplicate ids", () => {
+    const template = {
+      name: "broken",
+      steps: [
+        { id: "a", agent: "research-agent", task: "For {{inputs.missing}}", dependsOn: ["ghost"] },
+        { id: "a", agent: "research-agent", task: "Again" },
+      ],
+    };
+
+    let message = "";
+    try {
+      parseWorkflowTemplate(JSON.stringify(template), "broken.json");
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkflowTemplateError);
+      message = (error as Error).message;
+    }
+    expect(message).toContain('Unknown step "ghost"');
+    expect(message).toContain('Unknown input "missing"');
+    expect(message).toContain('Duplicate step id "a"');
+  });
+
+  it("reports syntax errors with the file name", () => {
+    expect(() => parseWorkflowTemplate("{", "bad.json")).toThrow(/^bad\.json: /);
+  });
+});
+
+describe("bindTemplateInputs", () => {
+  it("fills inputs in order and gives the last one the rest of the text", () => {
+    expect(bindTemplateInputs(triage, "acme/app regression why does login fail")).toEqual({
+      repo: "acme/app",
+      label: "regression",
+      question: "why does login fail",
+    });
+  });
+
+  it("falls back to defaults and leaves optional inputs unset", () => {
+    expect(bindTemplateInputs(triage, "acme/app")).toEqual({ repo: "acme/app", label: "bug" });
+  });
+
+  it("lists the inputs when a required one is missing", () => {
+    expect(() => bindTemplateInputs(triage, "  ")).toThrow('Workflow "triage" needs <repo> <label> <question>');
+  });
+});
+
+describe("templateToPlan and renderTemplateStep", () => {
+  const inputs = { repo: "acme/app", label: "bug" };
+  const plan = templateToPlan(triage, inputs);
+
+  it("runs tool steps on the MCP tool agent and orders steps by their references", () => {
+    expect(plan.steps.map(step => [step.id, step.agent, step.dependencies])).toEqual([
+      ["fetch", "mcp-tool-agent", []],
+      ["summarize", "research-agent", ["fetch"]],
+    ]);
+    expect(plan.steps[1].requiresApproval).toBe(true);
+    expect(plan.dependencies).toEqual([{ from: "fetch", to: "summarize", type: "sequential" }]);
+  });
+
+  it("renders inputs and earlier outputs, keeping the type of lone placeholders", () => {
+    const fetch = renderTemplateStep(plan.steps[0], "Triage", []);
+    expect(fetch.input).toEqual({
+      tool: { server: "github", name: "list_issues", arguments: { repo: "acme/app", labels: ["bug"] } },
+    });
+
+    const results = [{ stepId: "fetch", output: [{ number: 1 }], duration: 0, startedAt: new Date() }];
+    const summarize = renderTemplateStep(plan.steps[1], "Triage", results);
+    expect(summarize.task).toBe('Summarize [{"number":1}] for acme/app');
+    expect(summarize.input).toBeUndefined();
+  });
+});
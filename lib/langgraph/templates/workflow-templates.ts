@@ -0,0 +1,325 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { PlannedStep, StepResult, TaskPlan } from "../workflow-engine";
+
+// Agent name for steps that call an MCP tool directly
+export const MCP_TOOL_AGENT = "mcp-tool-agent";
+
+const TEMPLATE_EXTENSIONS = [".json", ".yaml", ".yml"];
+// {{inputs.repo}}, {{objective}}, {{steps.fetch.output}}, {{steps.fetch.output.items.0}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const TemplateInputSchema = z.object({
+  name: z.string().regex(/^\w+$/, "Input names may only contain letters, digits and underscores"),
+  description: z.string().optional(),
+  required: z.boolean().default(true),
+  default: z.string().optional(),
+});
+
+const TemplateStepSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, "Step ids may only contain letters, digits, '-' and '_'"),
+  name: z.string().optional(),
+  // Registered agent such as research-agent or code-agent; implied by `tool`
+  agent: z.string().optional(),
+  // Instructions for the agent; may reference inputs and earlier step outputs
+  task: z.string().optional(),
+  tool: z.object({
+    server: z.string(),
+    name: z.string(),
+    arguments: z.record(z.any()).default({}),
+  }).optional(),
+  dependsOn: z.array(z.string()).default([]),
+  requiresApproval: z.boolean().optional(),
+}).refine(step => step.tool || (step.agent && step.task), {
+  message: "Each step needs either a tool, or an agent and a task",
+}).refine(step => !(step.tool && step.agent && step.agent !== MCP_TOOL_AGENT), {
+  message: `Tool steps run on ${MCP_TOOL_AGENT}`,
+});
+
+export const WorkflowTemplateSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, "Template names may only contain letters, digits, '-' and '_'"),
+  description: z.string().optional(),
+  inputs: z.array(TemplateInputSchema).default([]),
+  steps: z.array(TemplateStepSchema).min(1),
+}).superRefine((template, ctx) => {
+  const stepIds = new Set<string>();
+  const inputNames = new Set(template.inputs.map(input => input.name));
+
+  template.steps.forEach((step, index) => {
+    if (stepIds.has(step.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index, "id"], message: `Duplicate step id "${step.id}"` });
+    }
+    stepIds.add(step.id);
+  });
+
+  template.steps.forEach((step, index) => {
+    for (const dep of getTemplateStepDependencies(step)) {
+      if (!stepIds.has(dep)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index], message: `Unknown step "${dep}"` });
+      }
+    }
+    for (const name of findPlaceholders(step).inputs) {
+      if (!inputNames.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps", index], message: `Unknown input "${name}"` });
+      }
+    }
+  });
+
+  const cycle = findCycle(template.steps);
+  if (cycle) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps"], message: `Dependency cycle: ${cycle.join(" -> ")}` });
+  }
+});
+
+export type WorkflowTemplate = z.infer<typeof WorkflowTemplateSchema>;
+export type WorkflowTemplateStep = z.infer<typeof TemplateStepSchema>;
+
+// A template picked for a run, with its inputs filled in
+export interface WorkflowTemplateRun {
+  name: string;
+  inputs: Record<string, string>;
+}
+
+// Carried in PlannedStep.input and rendered just before the step runs
+export interface TemplateStepInput {
+  template: {
+    task?: string;
+    tool?: WorkflowTemplateStep["tool"];
+    inputs: Record<string, string>;
+  };
+}
+
+export interface WorkflowTemplateListing {
+  file: string;
+  template?: WorkflowTemplate;
+  error?: string;
+}
+
+export class WorkflowTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowTemplateError";
+  }
+}
+
+function getTemplatesDirectory(): string {
+  return process.env.WORKFLOW_TEMPLATES_DIR || path.join(process.cwd(), "workflow-templates");
+}
+
+function findPlaceholders(step: WorkflowTemplateStep): { inputs: string[]; steps: string[] } {
+  const text = [step.task || "", JSON.stringify(step.tool?.arguments || {})].join("\n");
+  const inputs: string[] = [];
+  const steps: string[] = [];
+
+  for (const [, reference] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const [scope, name] = reference.split(".");
+    if (scope === "inputs" && name) inputs.push(name);
+    if (scope === "steps" && name) steps.push(name);
+  }
+
+  return { inputs, steps };
+}
+
+// Explicit dependsOn plus any step whose output is referenced
+function getTemplateStepDependencies(step: WorkflowTemplateStep): string[] {
+  return Array.from(new Set([...step.dependsOn, ...findPlaceholders(step).steps]));
+}
+
+function findCycle(steps: WorkflowTemplateStep[]): string[] | null {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (id: string, trail: string[]): string[] | null => {
+    if (state.get(id) === "done" || !byId.has(id)) return null;
+    if (state.get(id) === "visiting") return [...trail.slice(trail.indexOf(id)), id];
+
+    state.set(id, "visiting");
+    for (const dep of getTemplateStepDependencies(byId.get(id)!)) {
+      const cycle = visit(dep, [...trail, id]);
+      if (cycle) return cycle;
+    }
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+export function parseWorkflowTemplate(content: string, fileName: string): WorkflowTemplate {
+  let raw: unknown;
+  try {
+    raw = fileName.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new WorkflowTemplateError(`${fileName}: ${error instanceof Error ? error.message : "Invalid syntax"}`);
+  }
+
+  const result = WorkflowTemplateSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "template"}: ${issue.message}`);
+    throw new WorkflowTemplateError(`${fileName}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Every template file in the templates directory. Files are read on each
+ * call so edits apply without a restart; invalid files come back with an error.
+ */
+export async function listWorkflowTemplates(): Promise<WorkflowTemplateListing[]> {
+  const directory = getTemplatesDirectory();
+
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch (error) {
+    // No templates directory - no custom workflows
+    return [];
+  }
+
+  const listings = await Promise.all(
+    files
+      .filter(file => TEMPLATE_EXTENSIONS.includes(path.extname(file)))
+      .sort()
+      .map(async (file): Promise<WorkflowTemplateListing> => {
+        try {
+          const content = await fs.readFile(path.join(directory, file), "utf-8");
+          return { file, template: parseWorkflowTemplate(content, file) };
+        } catch (error) {
+          return { file, error: error instanceof Error ? error.message : "Failed to read template" };
+        }
+      })
+  );
+
+  return listings;
+}
+
+export async function getWorkflowTemplate(name: string): Promise<WorkflowTemplate> {
+  const listings = await listWorkflowTemplates();
+  const match = listings.find(listing => listing.template?.name === name);
+  if (match?.template) {
+    return match.template;
+  }
+
+  // Surface the validation error when the file is there but broken
+  const broken = listings.find(listing => listing.error && path.parse(listing.file).name === name);
+  if (broken) {
+    throw new WorkflowTemplateError(broken.error!);
+  }
+
+  const available = listings.flatMap(listing => listing.template ? [listing.template.name] : []);
+  throw new WorkflowTemplateError(
+    `Unknown workflow template "${name}"${available.length ? `. Available: ${available.join(", ")}` : ""}`
+  );
+}
+
+/**
+ * Map the text after `workflow: <name>` onto the template's inputs.
+ * Arguments fill inputs in order and the last input takes the rest.
+ */
+export function bindTemplateInputs(template: WorkflowTemplate, args: string): Record<string, string> {
+  const words = args.trim() ? args.trim().split(/\s+/) : [];
+  const inputs: Record<string, string> = {};
+
+  template.inputs.forEach((input, index) => {
+    const isLast = index === template.inputs.length - 1;
+    const value = isLast ? words.slice(index).join(" ") : words[index];
+
+    if (value) {
+      inputs[input.name] = value;
+    } else if (input.default !== undefined) {
+      inputs[input.name] = input.default;
+    } else if (input.required) {
+      throw new WorkflowTemplateError(
+        `Workflow "${template.name}" needs ${template.inputs.map(i => `<${i.name}>`).join(" ")}`
+      );
+    }
+  });
+
+  return inputs;
+}
+
+// The plan a template run executes; rendering waits until each step runs
+export function templateToPlan(template: WorkflowTemplate, inputs: Record<string, string>): TaskPlan {
+  const steps: PlannedStep[] = template.steps.map(step => ({
+    id: step.id,
+    name: step.name || step.id,
+    description: step.task || `Call ${step.tool!.server}:${step.tool!.name}`,
+    agent: step.tool ? MCP_TOOL_AGENT : step.agent!,
+    dependencies: getTemplateStepDependencies(step),
+    status: "pending",
+    requiresApproval: step.requiresApproval,
+    input: {
+      template: { task: step.task, tool: step.tool, inputs },
+    } satisfies TemplateStepInput,
+  }));
+
+  return {
+    steps,
+    totalSteps: steps.length,
+    estimatedDuration: steps.length * 60000,
+    dependencies: steps.flatMap(step =>
+      step.dependencies.map(dep => ({ from: dep, to: step.id, type: "sequential" as const }))
+    ),
+  };
+}
+
+function resolveReference(reference: string, scope: Record<string, any>): unknown {
+  return reference.split(".").reduce<any>((value, key) => value?.[key], scope);
+}
+
+function renderText(text: string, scope: Record<string, any>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, reference: string) => {
+    const resolved = resolveReference(reference, scope);
+    if (resolved === undefined || resolved === null) return "";
+    return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+  });
+}
+
+function renderValue(value: unknown, scope: Record<string, any>): unknown {
+  if (typeof value === "string") {
+    // A lone placeholder keeps the referenced value's type (e.g. an array output)
+    const whole = value.match(/^\{\{\s*([\w.-]+)\s*\}\}$/);
+    return whole ? resolveReference(whole[1], scope) ?? "" : renderText(value, scope);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderValue(item, scope));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, scope)]));
+  }
+  return value;
+}
+
+/**
+ * Fill a template step's placeholders from the run's inputs and the outputs
+ * of steps that already finished.
+ */
+export function renderTemplateStep(
+  step: PlannedStep,
+  objective: string,
+  results: StepResult[]
+): { task: string; input: any } {
+  const { template } = step.input as TemplateStepInput;
+  const scope = {
+    objective,
+    inputs: template.inputs,
+    steps: Object.fromEntries(results.map(result => [result.stepId, { output: result.output }])),
+  };
+
+  return {
+    task: template.task ? renderText(template.task, scope) : step.description,
+    input: template.tool
+      ? { tool: { ...template.tool, arguments: renderValue(template.tool.arguments, scope) } }
+      : undefined,
+  };
+}
+
+export function isTemplateStep(step: PlannedStep): boolean {
+  return !!step.input?.template;
+}
@@ -0,0 +1,128 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage, AIMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { ModelRouter } from "@/lib/models/model-router";
+import type { ChatContentPart, ChatMessage, ToolDefinition } from "@/lib/models/types";
+
+export interface RouterChatModelConfig {
+  // Registry id or provider model name, resolved by ModelRouter
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+}
+
+function textContent(content: BaseMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map(part => (part.type === "text" ? (part as { text: string }).text : ""))
+    .join("");
+}
+
+function toContentParts(content: BaseMessage["content"]): string | ChatContentPart[] {
+  if (typeof content === "string") return content;
+
+  return content.flatMap((part): ChatContentPart[] => {
+    if (part.type === "text") {
+      return [{ type: "text", text: (part as { text: string }).text }];
+    }
+    if (part.type === "image_url") {
+      const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+      const match = url?.match(/^data:([^;]+);base64,(.+)$/);
+      if (match) return [{ type: "inline", mimeType: match[1], data: match[2] }];
+    }
+    return [];
+  });
+}
+
+/**
+ * LangChain chat model backed by ModelRouter, so agents can run on any
+ * registered provider (including a local OpenAI-compatible server).
+ */
+export class RouterChatModel extends BaseChatModel {
+  private config: RouterChatModelConfig;
+
+  constructor(config: RouterChatModelConfig) {
+    super({});
+    this.config = config;
+  }
+
+  _llmType(): string {
+    return "model-router";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options?: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const system: string[] = [];
+    const chatMessages: ChatMessage[] = [];
+
+    for (const message of messages) {
+      if (message instanceof SystemMessage) {
+        system.push(textContent(message.content));
+      } else if (message instanceof AIMessage) {
+        chatMessages.push({
+          role: "assistant",
+          content: textContent(message.content),
+          toolCalls: message.tool_calls?.map(call => ({ id: call.id || "", name: call.name, args: call.args })),
+        });
+      } else if (message instanceof ToolMessage) {
+        chatMessages.push({
+          role: "tool",
+          toolCallId: message.tool_call_id,
+          name: message.name || "",
+          content: textContent(message.content),
+          isError: message.status === "error",
+        });
+      } else if (message instanceof HumanMessage) {
+        chatMessages.push({ role: "user", content: toContentParts(message.content) });
+      } else {
+        chatMessages.push({ role: "user", content: textContent(message.content) });
+      }
+    }
+
+    const response = await ModelRouter.getInstance().generate({
+      model: this.config.model,
+      system: system.length > 0 ? system.join("\n\n") : undefined,
+      messages: chatMessages,
+      tools: this.config.tools,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      signal: options?.signal,
+    });
+
+    const message = new AIMessage({
+      content: response.text,
+      tool_calls: response.toolCalls.map(call => ({ ...call, type: "tool_call" as const })),
+      usage_metadata: response.usage && {
+        input_tokens: response.usage.inputTokens,
+        output_tokens: response.usage.outputTokens,
+        total_tokens: response.usage.totalTokens,
+      },
+    });
+
+    return {
+      generations: [{ text: response.text, message }],
+      llmOutput: response.usage && {
+        tokenUsage: {
+          promptTokens: response.usage.inputTokens,
+          completionTokens: response.usage.outputTokens,
+          totalTokens: response.usage.totalTokens,
+        },
+      },
+    };
+  }
+
+  bindTools(tools: DynamicStructuredTool[]): RouterChatModel {
+    return new RouterChatModel({
+      ...this.config,
+      tools: tools.map(tool => {
+        const { $schema, ...parameters } = toJsonSchema(tool.schema) as Record<string, any>;
+        return { name: tool.name, description: tool.description, parameters };
+      }),
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { Annotation } from "@langchain/langgraph";
 import { BaseMessage, HumanMessage, AIMessage } from "@langchain/core/messages";
 import { v4 as uuidv4 } from "uuid";
+import type { WorkflowTemplateRun } from "./templates/workflow-templates";
 
 // Define workflow state structure
 export const WorkflowState = Annotation.Root({
@@ -39,9 +40,12 @@ export interface PlannedStep {
   description: string;
   agent: string;
   dependencies: string[];
-  status: "pending" | "running" | "completed" | "failed";
+  status: "pending" | "running" | "completed" | "failed" | "skipped";
   input?: any;
   expectedOutput?: string;
+  requiresApproval?: boolean; // pause for the user before running this step
+  approved?: boolean;
+  attempts?: number;
 }
 
 export interface StepDependency {
@@ -57,6 +61,7 @@ export interface StepResult {
   startedAt: Date;
   completedAt?: Date;
   error?: string;
+  skipped?: boolean;
 }
 
 export interface WorkflowMetadata {
@@ -67,6 +72,9 @@ export interface WorkflowMetadata {
   userId: string;
   chatId: string;
   config?: WorkflowConfig;
+  cancelledAt?: Date;
+  // Set for "custom" runs planned from a workflow template
+  template?: WorkflowTemplateRun;
 }
 
 export interface WorkflowConfig {
@@ -78,6 +86,24 @@ export interface WorkflowConfig {
   retryAttempts?: number;
 }
 
+// Human-in-the-loop review: the value a paused graph hands to the user
+export interface WorkflowReviewRequest {
+  kind: "plan" | "steps";
+  plan: TaskPlan;
+  // Steps waiting for approval before they run (empty for plan review)
+  stepIds: string[];
+}
+
+export type StepReviewAction = "approve" | "skip" | "rerun";
+
+// What the user sends back to continue a paused graph
+export interface WorkflowReviewDecision {
+  action: "approve" | "reject";
+  // Edited plan; only honored for plan review
+  plan?: TaskPlan;
+  steps?: Record<string, StepReviewAction>;
+}
+
 // Workflow events for real-time updates
 export interface WorkflowEvent {
   type: 
@@ -87,6 +113,8 @@ export interface WorkflowEvent {
     | "workflow_step_started"
     | "workflow_step_completed"
     | "workflow_step_failed"
+    | "workflow_step_cancelled"
+    | "workflow_step_approval_required"
     | "workflow_paused"
     | "workflow_resumed"
     | "workflow_completed"
@@ -103,7 +131,9 @@ export function createInitialState(
   userId: string,
   chatId: string,
   type: string,
-  config?: WorkflowConfig
+  config?: WorkflowConfig,
+  id: string = uuidv4(),
+  template?: WorkflowTemplateRun
 ): typeof WorkflowState.State {
   return {
     messages: [new HumanMessage({ content: objective })],
@@ -113,12 +143,13 @@ export function createInitialState(
     results: [],
     status: "planning",
     metadata: {
-      id: uuidv4(),
+      id,
       type,
       startedAt: new Date(),
       userId,
       chatId,
       config,
+      template,
     },
   };
 }
@@ -134,17 +165,28 @@ export function canProceedToNextStep(state: typeof WorkflowState.State): boolean
   if (!currentStep) return false;
   
   // Check if all dependencies are satisfied
-  const dependencyResults = currentStep.dependencies.map(depId => 
+  const dependencyResults = getStepDependencies(state.plan, currentStep).map(depId => 
     state.results.find(r => r.stepId === depId)
   );
   
   return dependencyResults.every(result => result && !result.error);
 }
 
+// A step's own dependencies plus ordering edges from the plan; "parallel" edges don't order steps
+export function getStepDependencies(plan: TaskPlan, step: PlannedStep): string[] {
+  const planDependencies = plan.dependencies
+    .filter(dep => dep.to === step.id && dep.type !== "parallel")
+    .map(dep => dep.from);
+
+  return Array.from(new Set([...step.dependencies, ...planDependencies]));
+}
+
 export function getNextExecutableSteps(state: typeof WorkflowState.State): PlannedStep[] {
   if (!state.plan || isWorkflowComplete(state)) return [];
   
-  const completedStepIds = new Set(state.results.map(r => r.stepId));
+  const finishedStepIds = new Set(state.results.map(r => r.stepId));
+  // Skipped steps count as satisfied; failed ones block their dependents
+  const satisfiedStepIds = new Set(state.results.filter(r => !r.error).map(r => r.stepId));
   const runningStepIds = new Set(
     state.plan.steps
       .filter(s => s.status === "running")
@@ -152,13 +194,13 @@ export function getNextExecutableSteps(state: typeof WorkflowState.State): Plann
   );
   
   return state.plan.steps.filter(step => {
-    // Skip if already completed or running
-    if (completedStepIds.has(step.id) || runningStepIds.has(step.id)) {
+    // Skip if already finished or running
+    if (finishedStepIds.has(step.id) || runningStepIds.has(step.id)) {
       return false;
     }
     
-    // Check if all dependencies are completed
-    return step.dependencies.every(depId => completedStepIds.has(depId));
+    // Check if all dependencies succeeded
+    return getStepDependencies(state.plan!, step).every(depId => satisfiedStepIds.has(depId));
   });
 }
 
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+/**
+ * Local stand-ins for remote MCP servers and their OAuth authorization
+ * servers, listening on 127.0.0.1 for the duration of a test.
+ */
+
+export interface StandInServer {
+  baseUrl: string;
+  // "METHOD /path" of every request received, in order
+  requests: string[];
+  close(): Promise<void>;
+}
+
+// An MCP server with a single "echo" tool
+function createEchoServer(): McpServer {
+  const server = new McpServer({ name: 'stand-in', version: '1.0.0' });
+  server.tool('echo', 'Echo the text back', { text: z.string() }, async ({ text }) => ({
+    content: [{ type: 'text', text }],
+  }));
+  return server;
+}
+
+async function listen(
+  handler: (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void> | void
+): Promise<StandInServer> {
+  const requests: string[] = [];
+  let baseUrl = '';
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', baseUrl);
+    requests.push(`${req.method} ${url.pathname}`);
+    Promise.resolve(handler(req, res, url)).catch((error) => {
+      if (!res.headersSent) res.writeHead(500);
+      res.end(String(error));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    requests,
+    close: () => new Promise<void>((resolve) => {
+      // SSE streams stay open until the server drops them
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * A server that only speaks the legacy HTTP+SSE transport at /sse and answers
+ * Streamable HTTP POSTs to the same URL with `streamableHttpStatus`.
+ */
+export async function startLegacySseServer(streamableHttpStatus = 405): Promise<StandInServer> {
+  const transports = new Map<string, SSEServerTransport>();
+
+  return listen(async (req, res, url) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res);
+      transports.set(transport.sessionId, transport);
+      res.on('close', () => transports.delete(transport.sessionId));
+      await createEchoServer().connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const transport = transports.get(url.searchParams.get('sessionId') || '');
+      if (!transport) {
+        res.writeHead(404).end();
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(streamableHttpStatus).end();
+  });
+}
+
+export interface MockAuthorizationServer extends StandInServer {
+  // URL of the protected Streamable HTTP MCP endpoint
+  mcpUrl: string;
+  // Grant type of every token request, in order
+  grants: string[];
+  // Invalidate every access token issued so far, as if they had expired
+  expireAccessTokens(): void;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+function base64UrlSha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+/**
+ * An OAuth 2.1 authorization server (metadata discovery, dynamic client
+ * registration, authorization code with PKCE S256, refresh token rotation)
+ * in front of an MCP endpoint at /mcp that requires its access tokens.
+ * /authorize signs the user in without asking and redirects straight back.
+ */
+export async function startMockAuthorizationServer(): Promise<MockAuthorizationServer> {
+  const clients = new Set<string>();
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Set<string>();
+  const refreshTokens = new Map<string, string>(); // refresh token -> client id
+  const grants: string[] = [];
+  let baseUrl = '';
+
+  const issueTokens = (clientId: string) => {
+    const tokens = {
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      refresh_token: crypto.randomBytes(16).toString('hex'),
+    };
+    accessTokens.add(tokens.access_token);
+    refreshTokens.set(tokens.refresh_token, clientId);
+    return tokens;
+  };
+
+  const handleToken = (params: URLSearchParams) => {
+    const grantType = params.get('grant_type') || '';
+    const clientId = params.get('client_id') || '';
+    grants.push(grantType);
+
+    if (grantType === 'authorization_code') {
+      const code = params.get('code') || '';
+      const pending = codes.get(code);
+      codes.delete(code);
+      const verifier = params.get('code_verifier') || '';
+      if (!pending ||
+          pending.clientId !== clientId ||
+          pending.redirectUri !== params.get('redirect_uri') ||
+          base64UrlSha256(verifier) !== pending.codeChallenge) {
+        return { status: 400, body: { error: 'invalid_grant' } };
+      }
+      return { status: 200, body: issueTokens(clientId) };
+    }
+
+    if (grantType === 'refresh_token') {
+      const refreshToken = params.get('refresh_token') || '';
+      if (refreshTokens.get(refreshToken) !== clientId) {
+        return { status: 400, body: { error: 'invalid_grant' } };
+      }
+      // Refresh tokens are single use
+      refreshTokens.delete(refreshToken);
+      return { status: 200, body: issueTokens(clientId) };
+    }
+
+    return { status: 400, body: { error: 'unsupported_grant_type' } };
+  };
+
+  const server = await listen(async (req, res, url) => {
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'GET /.well-known/oauth-protected-resource') {
+      sendJson(res, 200, { resource: `${baseUrl}/mcp`, authorization_servers: [baseUrl] });
+      return;
+    }
+
+    if (route === 'GET /.well-known/oauth-authorization-server') {
+      sendJson(res, 200, {
+        issuer: baseUrl,
+        authorization_endpoint: `${baseUrl}/authorize`,
+        token_endpoint: `${baseUrl}/token`,
+        registration_endpoint: `${baseUrl}/register`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256'],
+      });
+      return;
+    }
+
+    if (route === 'POST /register') {
+      const metadata = JSON.parse(await readBody(req));
+      const clientId = `client-${clients.size + 1}`;
+      clients.add(clientId);
+      sendJson(res, 201, { ...metadata, client_id: clientId, client_id_issued_at: Math.floor(Date.now() / 1000) });
+      return;
+    }
+
+    if (route === 'GET /authorize') {
+      const clientId = url.searchParams.get('client_id') || '';
+      const redirectUri = url.searchParams.get('redirect_uri') || '';
+      const codeChallenge = url.searchParams.get('code_challenge') || '';
+      if (!clients.has(clientId) || url.searchParams.get('code_challenge_method') !== 'S256' || !codeChallenge) {
+        sendJson(res, 400, { error: 'invalid_request' });
+        return;
+      }
+
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, { clientId, redirectUri, codeChallenge });
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      const state = url.searchParams.get('state');
+      if (state) location.searchParams.set('state', state);
+      res.writeHead(302, { Location: location.toString() }).end();
+      return;
+    }
+
+    if (route === 'POST /token') {
+      const { status, body } = handleToken(new URLSearchParams(await readBody(req)));
+      sendJson(res, status, body);
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      const token = req.headers.authorization?.replace(/^Bearer /, '');
+      if (!token || !accessTokens.has(token)) {
+        sendJson(res, 401, { error: 'invalid_token' }, {
+          'WWW-Authenticate': `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`,
+        });
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.writeHead(405).end();
+        return;
+      }
+
+      // Stateless: a fresh server and transport for every request
+      const mcpServer = createEchoServer();
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on('close', () => {
+        transport.close();
+        mcpServer.close();
+      });
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+  baseUrl = server.baseUrl;
+
+  return {
+    ...server,
+    mcpUrl: `${baseUrl}/mcp`,
+    grants,
+    expireAccessTokens: () => accessTokens.clear(),
+  };
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { MCPApprovalGate } from '@/lib/mcp/mcp-approval-gate'
+import { PendingToolApproval } from '@/lib/mcp/mcp-tool-policy'
+import { runWithAuth } from '@/lib/auth/context'
+
+const details = { serverId: 'server-1', serverName: 'files', toolName: 'delete_file', args: { path: '/tmp/x' } }
+
+describe('MCPApprovalGate', () => {
+  const gate = MCPApprovalGate.getInstance()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('resolves with the user decision', async () => {
+    let pending: PendingToolApproval | undefined
+    const decision = gate.request(details, (approval) => { pending = approval })
+
+    expect(gate.listPending().map(approval => approval.id)).toContain(pending!.id)
+    expect(gate.respond(pending!.id, true)).toBe(true)
+    await expect(decision).resolves.toBe(true)
+    expect(gate.respond(pending!.id, false)).toBe(false)
+  })
+
+  it('denies requests nobody answers in time', async () => {
+    const decision = gate.request(details, undefined, { timeoutMs: 1000 })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(decision).resolves.toBe(false)
+    expect(gate.listPending()).toEqual([])
+  })
+
+  it('denies pending requests when the signal aborts', async () => {
+    const controller = new AbortController()
+    const decision = gate.request(details, undefined, { signal: controller.signal })
+    controller.abort()
+
+    await expect(decision).resolves.toBe(false)
+    expect(gate.listPending()).toEqual([])
+  })
+
+  it('denies at once when the signal has already aborted', async () => {
+    const onPending = vi.fn()
+    const decision = gate.request(details, onPending, { signal: AbortSignal.abort() })
+
+    await expect(decision).resolves.toBe(false)
+    expect(onPending).not.toHaveBeenCalled()
+  })
+
+  it('shows and answers approvals only for the user whose tool call it is', async () => {
+    const asUser = <T>(id: string, fn: () => T) =>
+      runWithAuth({ user: { id, email: `${id}@example.com` }, accessToken: null }, fn)
+
+    let pending: PendingToolApproval | undefined
+    const decision = gate.request({ ...details, userId: 'alice' }, (approval) => { pending = approval })
+
+    expect(asUser('mallory', () => gate.listPending())).toEqual([])
+    expect(asUser('mallory', () => gate.respond(pending!.id, true))).toBe(false)
+    expect(asUser('alice', () => gate.listPending()).map(approval => approval.id)).toEqual([pending!.id])
+    expect(asUser('alice', () => gate.respond(pending!.id, false))).toBe(true)
+    await expect(decision).resolves.toBe(false)
+  })
+})
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { MCPChatContext } from '@/lib/mcp/mcp-chat-context';
+import { MCPServerManager } from '@/lib/mcp/mcp-server-manager';
+
+const attachment = { type: 'prompt' as const, serverId: 'server-1', serverName: 'docs', name: 'review' };
+
+describe('MCPChatContext prompts', () => {
+  let messages: any[];
+
+  beforeEach(() => {
+    messages = [];
+    const manager = MCPServerManager.getInstance();
+    vi.spyOn(manager, 'loadFromConfig').mockResolvedValue(undefined as any);
+    vi.spyOn(manager, 'getServer').mockReturnValue(undefined);
+    vi.spyOn(manager, 'getPrompt').mockImplementation(async () => ({ messages }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('inlines images and supported embedded blobs', async () => {
+    messages = [
+      { role: 'user', content: { type: 'image', mimeType: 'image/png', data: 'aW1n' } },
+      { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.pdf', mimeType: 'application/pdf', blob: 'cGRm' } } },
+    ];
+
+    expect(await MCPChatContext.resolveAttachments([attachment])).toEqual([
+      { type: 'inline', mimeType: 'image/png', data: 'aW1n' },
+      { type: 'inline', mimeType: 'application/pdf', data: 'cGRm' },
+    ]);
+  });
+
+  it('reports image and blob content it cannot attach', async () => {
+    messages = [
+      { role: 'user', content: { type: 'image', mimeType: 'text/html', data: 'PGh0bWw+' } },
+      { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.zip', mimeType: 'application/zip', blob: 'emlw' } } },
+    ];
+
+    const parts = await MCPChatContext.resolveAttachments([attachment]);
+
+    expect(parts.map(part => part.type)).toEqual(['text', 'text']);
+    expect(parts[0]).toMatchObject({ text: expect.stringContaining('image content of unsupported type text/html') });
+    expect(parts[1]).toMatchObject({ text: expect.stringContaining('file:///a.zip of unsupported type application/zip') });
+  });
+});
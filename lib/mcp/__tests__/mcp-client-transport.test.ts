@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { MCPClientWrapper } from '@/lib/mcp/mcp-client';
+import { startLegacySseServer, StandInServer } from './helpers/stand-in-servers';
+
+describe('MCPClientWrapper remote transports', () => {
+  let server: StandInServer;
+  let client: MCPClientWrapper;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to SSE when the server rejects Streamable HTTP', async () => {
+    server = await startLegacySseServer(405);
+    client = new MCPClientWrapper({ id: 'legacy', name: 'legacy', url: `${server.baseUrl}/sse`, transportType: 'http' });
+
+    await client.connect();
+
+    expect(client.getTransportType()).toBe('sse');
+    expect(server.requests.slice(0, 2)).toEqual(['POST /sse', 'GET /sse']);
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo']);
+    expect(await client.callTool('echo', { text: 'hello' })).toEqual([{ type: 'text', text: 'hello' }]);
+  });
+
+  it('does not fall back when the server fails with a 5xx', async () => {
+    server = await startLegacySseServer(503);
+    client = new MCPClientWrapper({ id: 'broken', name: 'broken', url: `${server.baseUrl}/sse`, transportType: 'http' });
+
+    await expect(client.connect()).rejects.toThrow(/HTTP 503/);
+    expect(server.requests).not.toContain('GET /sse');
+  });
+
+  it('connects over SSE directly when configured for it', async () => {
+    server = await startLegacySseServer();
+    client = new MCPClientWrapper({ id: 'sse', name: 'sse', url: `${server.baseUrl}/sse`, transportType: 'sse' });
+
+    await client.connect();
+
+    expect(client.getTransportType()).toBe('sse');
+    expect(server.requests).not.toContain('POST /sse');
+  });
+});
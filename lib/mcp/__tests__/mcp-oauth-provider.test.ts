@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { MCPAuthorizationRequiredError, MCPClientWrapper } from '@/lib/mcp/mcp-client';
+import { MCPConfigManager } from '@/lib/mcp/mcp-config-manager';
+import { MCPOAuthState, parseOAuthState } from '@/lib/mcp/mcp-oauth-provider';
+import { MockAuthorizationServer, startMockAuthorizationServer } from './helpers/stand-in-servers';
+
+// The user approves the sign-in; returns the code and state sent to the callback
+async function signIn(authorizationUrl: string): Promise<{ code: string; state: string }> {
+  const response = await fetch(authorizationUrl, { redirect: 'manual' });
+  expect(response.status).toBe(302);
+  const callback = new URL(response.headers.get('location')!);
+  return { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state')! };
+}
+
+describe('MCP OAuth sign-in', () => {
+  let server: MockAuthorizationServer;
+  let client: MCPClientWrapper;
+  // mcp.oauth.json, kept in memory
+  let saved: Map<string, MCPOAuthState>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    saved = new Map();
+    vi.spyOn(MCPConfigManager, 'loadOAuthState').mockImplementation(async (name) => saved.get(name) ?? {});
+    vi.spyOn(MCPConfigManager, 'saveOAuthState').mockImplementation(async (name, state) => {
+      saved.set(name, state);
+    });
+
+    server = await startMockAuthorizationServer();
+    client = new MCPClientWrapper({ id: 'server-1', name: 'remote', url: server.mcpUrl, oauth: {}, transportType: 'http' });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  // Connect, sign in through the authorization URL and exchange the code
+  async function authorize(): Promise<void> {
+    const error = await client.connect().catch((e) => e);
+    expect(error).toBeInstanceOf(MCPAuthorizationRequiredError);
+
+    const { code, state } = await signIn(error.authorizationUrl);
+    expect(await client.getOAuthProvider()!.consumeState(state)).toBe(true);
+    await client.finishAuth(code);
+  }
+
+  it('registers a client and asks for sign-in with a PKCE challenge', async () => {
+    const error = await client.connect().catch((e) => e);
+
+    expect(error).toBeInstanceOf(MCPAuthorizationRequiredError);
+    const authorizationUrl = new URL(error.authorizationUrl);
+    expect(authorizationUrl.searchParams.get('client_id')).toBe('client-1');
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(parseOAuthState(authorizationUrl.searchParams.get('state')!)).toBe('server-1');
+    expect(saved.get('remote')).toMatchObject({
+      clientInformation: { client_id: 'client-1' },
+      codeVerifier: expect.any(String),
+    });
+  });
+
+  it('exchanges the code with its verifier and connects with the tokens', async () => {
+    await authorize();
+    expect(server.grants).toEqual(['authorization_code']);
+    expect(saved.get('remote')).toMatchObject({ tokens: { token_type: 'Bearer' } });
+    expect(saved.get('remote')?.codeVerifier).toBeUndefined();
+
+    await client.connect();
+
+    expect(client.getTransportType()).toBe('http');
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo']);
+  });
+
+  it('accepts the state of a callback only once', async () => {
+    const error = await client.connect().catch((e) => e);
+    const { state } = await signIn(error.authorizationUrl);
+    const provider = client.getOAuthProvider()!;
+
+    expect(await provider.consumeState(`server-1:${'0'.repeat(32)}`)).toBe(false);
+    expect(await provider.consumeState(state)).toBe(true);
+    expect(await provider.consumeState(state)).toBe(false);
+  });
+
+  it('rejects a code exchanged without the matching verifier', async () => {
+    const error = await client.connect().catch((e) => e);
+    const { code } = await signIn(error.authorizationUrl);
+    saved.set('remote', { ...saved.get('remote'), codeVerifier: 'not-the-verifier' });
+
+    await expect(client.finishAuth(code)).rejects.toThrow();
+    expect(saved.get('remote')?.tokens).toBeUndefined();
+  });
+
+  it('refreshes expired access tokens without a new sign-in', async () => {
+    await authorize();
+    const firstTokens = saved.get('remote')!.tokens!;
+
+    server.expireAccessTokens();
+    await client.connect();
+
+    expect(server.grants).toEqual(['authorization_code', 'refresh_token']);
+    const refreshed = saved.get('remote')!.tokens!;
+    expect(refreshed.access_token).not.toBe(firstTokens.access_token);
+    expect(refreshed.refresh_token).not.toBe(firstTokens.refresh_token);
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo']);
+  });
+});
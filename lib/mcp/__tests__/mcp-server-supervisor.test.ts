@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { MCPServerSupervisor } from '@/lib/mcp/mcp-server-supervisor';
+
+describe('MCPServerSupervisor', () => {
+  let supervisor: MCPServerSupervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Every restart connects, as a server that crashes right after starting would
+    supervisor = new MCPServerSupervisor(
+      async (serverId) => supervisor.recordConnected(serverId),
+      () => [],
+      { baseDelayMs: 1000, maxDelayMs: 60000, maxRestartAttempts: 3, stableAfterMs: 60000 }
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('backs off and gives up on a server that crashes right after each restart', async () => {
+    supervisor.recordConnected('flaky');
+
+    for (const delay of [1000, 2000, 4000]) {
+      supervisor.handleCrash('flaky', 'transport closed');
+      await vi.advanceTimersByTimeAsync(delay);
+      expect(supervisor.getHealth('flaky')?.state).toBe('connected');
+    }
+    supervisor.handleCrash('flaky', 'transport closed');
+
+    const health = supervisor.getHealth('flaky');
+    expect(health?.state).toBe('failed');
+    expect(health?.consecutiveFailures).toBe(3);
+    expect(health?.restartCount).toBe(3);
+  });
+
+  it('forgives earlier failures once a restarted connection has stayed up', async () => {
+    supervisor.recordConnected('server');
+    supervisor.handleCrash('server', 'transport closed');
+    await vi.advanceTimersByTimeAsync(1000);
+    supervisor.handleCrash('server', 'transport closed');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(supervisor.getHealth('server')?.consecutiveFailures).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    supervisor.handleCrash('server', 'transport closed');
+    expect(supervisor.getHealth('server')?.consecutiveFailures).toBe(0);
+    expect(supervisor.getHealth('server')?.nextRestartAt).toBe(new Date(Date.now() + 1000).toISOString());
+  });
+
+  it('resets failures on a connect that is not a restart', async () => {
+    supervisor.recordConnected('server');
+    supervisor.handleCrash('server', 'transport closed');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(supervisor.getHealth('server')?.consecutiveFailures).toBe(1);
+
+    supervisor.recordDisconnected('server');
+    supervisor.recordConnected('server');
+    expect(supervisor.getHealth('server')?.consecutiveFailures).toBe(0);
+  });
+});
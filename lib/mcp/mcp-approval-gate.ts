@@ -0,0 +1,105 @@
+import { getCurrentUser } from '@/lib/auth'
+import { PendingToolApproval } from './mcp-tool-policy'
+
+interface PendingEntry {
+  approval: PendingToolApproval
+  resolve: (approved: boolean) => void
+  timeout: NodeJS.Timeout
+}
+
+// Unanswered approval requests are denied after this long
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000
+
+// With sign-in enabled only the user whose tool call it is may see or answer an approval
+function isVisibleApproval(approval: PendingToolApproval): boolean {
+  const user = getCurrentUser()
+  return !user || approval.userId === user.id
+}
+
+/**
+ * Holds tool calls that are waiting for a human decision.
+ * The chat stream announces pending approvals; /api/mcp/approvals resolves them.
+ */
+export class MCPApprovalGate {
+  private pending: Map<string, PendingEntry> = new Map()
+  private static instance: MCPApprovalGate | null = null
+
+  private constructor() {}
+
+  static getInstance(): MCPApprovalGate {
+    if (!MCPApprovalGate.instance) {
+      MCPApprovalGate.instance = new MCPApprovalGate()
+    }
+    return MCPApprovalGate.instance
+  }
+
+  /**
+   * Register a pending tool call and wait for it to be approved or denied.
+   * onPending is called synchronously so callers can notify the user.
+   * The request is denied when it times out or `signal` aborts.
+   */
+  request(
+    details: Omit<PendingToolApproval, 'id' | 'createdAt'>,
+    onPending?: (approval: PendingToolApproval) => void,
+    { timeoutMs = APPROVAL_TIMEOUT_MS, signal }: { timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false)
+
+    const approval: PendingToolApproval = {
+      ...details,
+      id: `approval-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date().toISOString()
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => {
+        console.warn(`[MCPApprovalGate] Approval ${approval.id} timed out for ${details.serverName}:${details.toolName}`)
+        this.settle(approval.id, false)
+      }, timeoutMs)
+
+      const onAbort = () => {
+        console.warn(`[MCPApprovalGate] Approval ${approval.id} cancelled for ${details.serverName}:${details.toolName}`)
+        this.settle(approval.id, false)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(approval.id, {
+        approval,
+        resolve: (approved) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(approved)
+        },
+        timeout
+      })
+      console.log(`[MCPApprovalGate] Waiting for approval ${approval.id}: ${details.serverName}:${details.toolName}`)
+      onPending?.(approval)
+    })
+  }
+
+  /**
+   * Approve or deny a pending tool call. Returns false if it is no longer pending
+   * or belongs to another user.
+   */
+  respond(approvalId: string, approved: boolean): boolean {
+    const entry = this.pending.get(approvalId)
+    if (!entry || !isVisibleApproval(entry.approval)) return false
+    return this.settle(approvalId, approved)
+  }
+
+  listPending(): PendingToolApproval[] {
+    return Array.from(this.pending.values())
+      .map(entry => entry.approval)
+      .filter(isVisibleApproval)
+  }
+
+  private settle(approvalId: string, approved: boolean): boolean {
+    const entry = this.pending.get(approvalId)
+    if (!entry) return false
+
+    clearTimeout(entry.timeout)
+    this.pending.delete(approvalId)
+    console.log(`[MCPApprovalGate] Approval ${approvalId} ${approved ? 'granted' : 'denied'}`)
+    entry.resolve(approved)
+    return true
+  }
+}
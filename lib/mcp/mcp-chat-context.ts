@@ -0,0 +1,129 @@
+import type { ChatContentPart } from '@/lib/models/types'
+import { MCPServerManager } from './mcp-server-manager'
+
+/**
+ * Context attached to a chat message with an @-mention:
+ * a resource to inline, or a server prompt template to expand.
+ */
+export type MCPContextAttachment =
+  | {
+      type: 'resource'
+      serverId: string
+      serverName: string
+      uri: string
+      name: string
+      mimeType?: string
+    }
+  | {
+      type: 'prompt'
+      serverId: string
+      serverName: string
+      name: string
+      arguments?: Record<string, string>
+    }
+
+// Inline binary resources only for types models can read directly;
+// the model router swaps them for a note when the selected model can't
+const INLINE_BINARY_MIME_PREFIXES = ['image/', 'audio/', 'video/', 'application/pdf']
+
+function isInlineMimeType(mimeType: unknown): mimeType is string {
+  return typeof mimeType === 'string' && INLINE_BINARY_MIME_PREFIXES.some(prefix => mimeType.startsWith(prefix))
+}
+
+export class MCPChatContext {
+  /**
+   * Resolve @-mentioned resources and prompts into chat content parts.
+   * Failures become text notes so one bad attachment doesn't fail the request.
+   */
+  static async resolveAttachments(attachments: MCPContextAttachment[]): Promise<ChatContentPart[]> {
+    const serverManager = MCPServerManager.getInstance()
+    await serverManager.loadFromConfig()
+
+    const parts: ChatContentPart[] = []
+    for (const attachment of attachments) {
+      try {
+        const server = serverManager.getServer(attachment.serverId)
+        if (server && server.status !== 'connected') {
+          await serverManager.connectServer(attachment.serverId)
+        }
+
+        if (attachment.type === 'resource') {
+          parts.push(...await this.resolveResource(serverManager, attachment))
+        } else {
+          parts.push(...await this.resolvePrompt(serverManager, attachment))
+        }
+      } catch (error) {
+        console.error(`[MCPChatContext] Failed to resolve ${attachment.type} ${attachment.name}:`, error)
+        parts.push({
+          type: 'text',
+          text: `[Attached ${attachment.type} "${attachment.name}" from ${attachment.serverName} could not be loaded: ${error instanceof Error ? error.message : 'Unknown error'}]`
+        })
+      }
+    }
+    return parts
+  }
+
+  private static async resolveResource(
+    serverManager: MCPServerManager,
+    attachment: Extract<MCPContextAttachment, { type: 'resource' }>
+  ): Promise<ChatContentPart[]> {
+    const contents: any[] = await serverManager.readResource(attachment.serverId, attachment.uri) || []
+    const parts: ChatContentPart[] = []
+
+    for (const content of contents) {
+      const mimeType = content.mimeType || attachment.mimeType
+
+      if (typeof content.text === 'string') {
+        parts.push({
+          type: 'text',
+          text: `Attached resource "${attachment.name}" (${content.uri || attachment.uri}) from MCP server ${attachment.serverName}:\n\n${content.text}`
+        })
+      } else if (typeof content.blob === 'string' && isInlineMimeType(mimeType)) {
+        parts.push({ type: 'inline', mimeType, data: content.blob })
+      } else {
+        parts.push({
+          type: 'text',
+          text: `[Attached resource "${attachment.name}" (${content.uri || attachment.uri}) has unsupported type ${mimeType || 'unknown'}]`
+        })
+      }
+    }
+
+    return parts
+  }
+
+  private static async resolvePrompt(
+    serverManager: MCPServerManager,
+    attachment: Extract<MCPContextAttachment, { type: 'prompt' }>
+  ): Promise<ChatContentPart[]> {
+    const prompt = await serverManager.getPrompt(attachment.serverId, attachment.name, attachment.arguments || {})
+    const parts: ChatContentPart[] = []
+
+    for (const message of prompt.messages) {
+      const content = message.content
+      const speaker = message.role === 'assistant' ? 'Assistant' : 'User'
+
+      const resource = content?.type === 'resource' ? content.resource : undefined
+
+      if (content?.type === 'text') {
+        parts.push({ type: 'text', text: `${speaker} (from prompt "${attachment.name}"): ${content.text}` })
+      } else if (content?.type === 'image' && typeof content.data === 'string' &&
+                 isInlineMimeType(content.mimeType) && content.mimeType.startsWith('image/')) {
+        parts.push({ type: 'inline', mimeType: content.mimeType, data: content.data })
+      } else if (typeof resource?.text === 'string') {
+        parts.push({ type: 'text', text: `Embedded resource ${resource.uri}:\n\n${resource.text}` })
+      } else if (typeof resource?.blob === 'string' && isInlineMimeType(resource.mimeType)) {
+        parts.push({ type: 'inline', mimeType: resource.mimeType, data: resource.blob })
+      } else {
+        // Tell the model something was left out rather than dropping it silently
+        const what = resource ? `embedded resource ${resource.uri}` : `${content?.type || 'unknown'} content`
+        const mimeType = resource?.mimeType ?? content?.mimeType
+        parts.push({
+          type: 'text',
+          text: `[Prompt "${attachment.name}" included ${what} of unsupported type ${mimeType || 'unknown'}, which was skipped]`
+        })
+      }
+    }
+
+    return parts
+  }
+}
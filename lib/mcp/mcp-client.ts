@@ -1,7 +1,10 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { auth, UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { MCPOAuthProvider } from './mcp-oauth-provider';
 
 export interface MCPTool {
   name: string;
@@ -13,6 +16,32 @@ export interface MCPResource {
   uri: string;
   name: string;
   description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: any;
+}
+
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
+export interface MCPOAuthSettings {
+  clientId?: string; // Pre-registered client; omit to use dynamic client registration
+  clientSecret?: string;
+  scope?: string;
 }
 
 export interface MCPServerConfig {
@@ -23,15 +52,30 @@ export interface MCPServerConfig {
   env?: Record<string, string>;
   url?: string; // For HTTP-based transports
   apiKey?: string; // For authenticated HTTP transports
-  transportType?: 'stdio' | 'http'; // Transport type
+  oauth?: MCPOAuthSettings; // Sign in with OAuth instead of a static API key
+  transportType?: MCPTransportType; // 'http' falls back to legacy SSE when Streamable HTTP is unsupported
 }
 
+export class MCPAuthorizationRequiredError extends Error {
+  constructor(serverName: string, public authorizationUrl?: string) {
+    super(`Server ${serverName} requires sign-in`);
+    this.name = 'MCPAuthorizationRequiredError';
+  }
+}
+
+// Number of stderr lines kept per server for health reporting
+const STDERR_TAIL_LINES = 50;
+
 export class MCPClientWrapper {
   private client: Client | null = null;
   private transport: Transport | null = null;
   private connected: boolean = false;
   private connectionPromise: Promise<void> | null = null;
   private connectionMonitorInterval: NodeJS.Timeout | null = null;
+  private stderrTail: string[] = [];
+  private connectionLostHandler: ((reason: string) => void) | null = null;
+  private oauthProvider: MCPOAuthProvider | null = null;
+  private activeTransportType: MCPTransportType | null = null;
 
   constructor(
     private config: MCPServerConfig
@@ -75,30 +119,8 @@ export class MCPClientWrapper {
       // Determine transport type
       const transportType = this.config.transportType || (this.config.url ? 'http' : 'stdio');
       
-      if (transportType === 'http' && this.config.url) {
-        // HTTP-based transport (e.g., Smithery CLI)
-        console.log('Creating HTTP transport for:', this.config.name, 'at', this.config.url);
-        
-        try {
-          const url = new URL(this.config.url);
-          
-          // Add API key to URL if provided
-          if (this.config.apiKey) {
-            url.searchParams.set('api_key', this.config.apiKey);
-          }
-          
-          this.transport = new StreamableHTTPClientTransport(url, {
-            requestInit: {
-              headers: {
-                'User-Agent': 'gemini-chatbot-v2/1.0.0',
-                ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
-              }
-            }
-          });
-        } catch (error) {
-          console.error('Failed to create StreamableHTTPClientTransport:', error);
-          throw new Error(`Failed to create HTTP transport: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+      if ((transportType === 'http' || transportType === 'sse') && this.config.url) {
+        await this.connectRemote(transportType);
       } else {
         // Standard stdio transport
         console.log('Starting MCP server:', this.config.command, this.config.args);
@@ -134,6 +156,7 @@ export class MCPClientWrapper {
           stderr.on('data', (data: Buffer) => {
             const stderrText = data.toString();
             console.error(`MCP server stderr (${this.config.name}):`, stderrText);
+            this.appendStderr(stderrText);
             
             // Check for specific error patterns
             if (stderrText.includes('command not found') || stderrText.includes('cannot find module')) {
@@ -141,51 +164,152 @@ export class MCPClientWrapper {
             }
           });
         }
+
+        await this.connectTransport(this.transport);
+        this.activeTransportType = 'stdio';
       }
+    } catch (error) {
+      console.error('Failed to connect to MCP server:', error);
+      await this.disconnect();
+      if (error instanceof UnauthorizedError && this.oauthProvider) {
+        throw new MCPAuthorizationRequiredError(this.config.name, await this.oauthProvider.getAuthorizationUrl());
+      }
+      throw error;
+    }
+  }
 
-      // Create client
-      this.client = new Client(
-        {
-          name: 'gemini-chatbot-v2',
-          version: '1.0.0',
-        },
-        {
-          capabilities: {},
+  /**
+   * Connect to a remote server. Streamable HTTP is tried first and servers that
+   * reject it with a 4xx (legacy HTTP+SSE servers) are retried over SSE.
+   */
+  private async connectRemote(transportType: 'http' | 'sse'): Promise<void> {
+    if (transportType === 'http') {
+      try {
+        await this.connectTransport(this.createRemoteTransport('http'));
+        this.activeTransportType = 'http';
+        return;
+      } catch (error) {
+        const status = this.getHttpStatus(error);
+        if (error instanceof UnauthorizedError || status === undefined || status < 400 || status >= 500) {
+          throw error;
         }
-      );
+        
+        console.log(`[MCPClient] Streamable HTTP rejected with ${status} by ${this.config.name}, falling back to SSE`);
+        await this.disconnect();
+      }
+    }
+    
+    await this.connectTransport(this.createRemoteTransport('sse'));
+    this.activeTransportType = 'sse';
+  }
 
-      // Connect with timeout
-      const connectTimeout = setTimeout(() => {
-        throw new Error('MCP client connection timeout after 30 seconds');
-      }, 30000);
+  // The SDK reports rejected POSTs as plain errors with the status in the message
+  private getHttpStatus(error: unknown): number | undefined {
+    if (error instanceof StreamableHTTPError) {
+      return error.code;
+    }
+    const match = error instanceof Error ? error.message.match(/\(HTTP (\d{3})\)/) : null;
+    return match ? Number(match[1]) : undefined;
+  }
 
-      try {
-        console.log('Connecting client to transport...');
-        this.connectionPromise = this.client.connect(this.transport);
-        await this.connectionPromise;
-        clearTimeout(connectTimeout);
-        this.connected = true;
-        this.connectionPromise = null;
-        console.log('Connected to MCP server:', this.config.name);
-        
-        // Start connection monitoring
-        this.startConnectionMonitor();
-      } catch (connectError) {
-        clearTimeout(connectTimeout);
-        this.connectionPromise = null;
-        console.error('Failed to connect MCP client:', connectError);
-        throw connectError;
+  private createRemoteTransport(transportType: 'http' | 'sse'): Transport {
+    console.log(`Creating ${transportType.toUpperCase()} transport for:`, this.config.name, 'at', this.config.url);
+    
+    try {
+      const url = new URL(this.config.url!);
+      
+      // Add API key to URL if provided
+      if (this.config.apiKey) {
+        url.searchParams.set('api_key', this.config.apiKey);
       }
+      
+      if (this.config.oauth && !this.oauthProvider) {
+        this.oauthProvider = new MCPOAuthProvider(this.config);
+      }
+      
+      const requestInit = {
+        headers: {
+          'User-Agent': 'gemini-chatbot-v2/1.0.0',
+          ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
+        }
+      };
+      const authProvider = this.oauthProvider || undefined;
+      
+      this.transport = transportType === 'sse'
+        ? new SSEClientTransport(url, { requestInit, authProvider })
+        : new StreamableHTTPClientTransport(url, { requestInit, authProvider });
+      return this.transport;
     } catch (error) {
-      console.error('Failed to connect to MCP server:', error);
-      await this.disconnect();
-      throw error;
+      console.error(`Failed to create ${transportType.toUpperCase()} transport:`, error);
+      throw new Error(`Failed to create ${transportType.toUpperCase()} transport: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async connectTransport(transport: Transport): Promise<void> {
+    // Create client
+    this.client = new Client(
+      {
+        name: 'gemini-chatbot-v2',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {},
+      }
+    );
+
+    // Connect with timeout
+    const connectTimeout = setTimeout(() => {
+      throw new Error('MCP client connection timeout after 30 seconds');
+    }, 30000);
+
+    try {
+      console.log('Connecting client to transport...');
+      this.connectionPromise = this.client.connect(transport);
+      await this.connectionPromise;
+      clearTimeout(connectTimeout);
+      this.connected = true;
+      this.connectionPromise = null;
+      console.log('Connected to MCP server:', this.config.name);
+      
+      // Detect transports that close underneath us (e.g. a crashed stdio process)
+      this.client.onclose = () => this.handleConnectionLost('Transport closed unexpectedly');
+      
+      // Start connection monitoring
+      this.startConnectionMonitor();
+    } catch (connectError) {
+      clearTimeout(connectTimeout);
+      this.connectionPromise = null;
+      console.error('Failed to connect MCP client:', connectError);
+      throw connectError;
     }
   }
 
+  /**
+   * Complete an OAuth sign-in with the authorization code from the callback.
+   * Exchanges the code for tokens; call connect() afterwards.
+   */
+  async finishAuth(authorizationCode: string): Promise<void> {
+    if (!this.config.url || !this.config.oauth) {
+      throw new Error(`Server ${this.config.name} is not configured for OAuth`);
+    }
+
+    this.oauthProvider = this.oauthProvider || new MCPOAuthProvider(this.config);
+    await auth(this.oauthProvider, {
+      serverUrl: this.config.url,
+      authorizationCode,
+    });
+  }
+
+  getOAuthProvider(): MCPOAuthProvider | null {
+    if (!this.config.oauth) return null;
+    this.oauthProvider = this.oauthProvider || new MCPOAuthProvider(this.config);
+    return this.oauthProvider;
+  }
+
   async disconnect(): Promise<void> {
     this.connected = false;
     this.connectionPromise = null;
+    this.activeTransportType = null;
     
     // Stop connection monitoring
     if (this.connectionMonitorInterval) {
@@ -290,6 +414,45 @@ export class MCPClientWrapper {
     }
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    if (!this.client || !this.connected) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      console.log(`[MCPClient] Listing prompts for server: ${this.config.name}`);
+      const response = await this.client.listPrompts();
+      const prompts = response.prompts || [];
+      console.log(`[MCPClient] Parsed ${prompts.length} prompts`);
+      return prompts;
+    } catch (error) {
+      console.error(`[MCPClient] Error listing prompts for ${this.config.name}:`, error);
+      // Check if it's a method not found error
+      if (error instanceof Error && error.message.includes('Method not found')) {
+        console.error('[MCPClient] Server does not support prompt listing');
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    if (!this.client || !this.connected) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      const response = await this.client.getPrompt({ name, arguments: args });
+      return {
+        description: response.description,
+        messages: response.messages,
+      };
+    } catch (error) {
+      console.error('Error getting prompt:', error);
+      throw error;
+    }
+  }
+
   isConnected(): boolean {
     return this.connected && this.isClientAlive();
   }
@@ -298,6 +461,45 @@ export class MCPClientWrapper {
     return this.config;
   }
 
+  // The transport actually in use, which may be 'sse' after falling back from 'http'
+  getTransportType(): MCPTransportType | null {
+    return this.activeTransportType;
+  }
+
+  getStderrTail(): string[] {
+    return [...this.stderrTail];
+  }
+
+  /**
+   * Register a callback for connections that drop without disconnect() being called
+   */
+  onConnectionLost(handler: ((reason: string) => void) | null): void {
+    this.connectionLostHandler = handler;
+  }
+
+  private appendStderr(text: string): void {
+    const lines = text.split('\n').map(line => line.trimEnd()).filter(Boolean);
+    this.stderrTail.push(...lines);
+    if (this.stderrTail.length > STDERR_TAIL_LINES) {
+      this.stderrTail = this.stderrTail.slice(-STDERR_TAIL_LINES);
+    }
+  }
+
+  private handleConnectionLost(reason: string): void {
+    // disconnect() clears the connected flag first, so intentional closes are ignored
+    if (!this.connected) return;
+
+    console.warn(`[MCPClient] Connection lost for server: ${this.config.name} (${reason})`);
+    this.connected = false;
+
+    // Clean up dead connection
+    this.disconnect().catch(error => {
+      console.error('Error during connection cleanup:', error);
+    });
+
+    this.connectionLostHandler?.(reason);
+  }
+
   private isClientAlive(): boolean {
     if (!this.client || !this.transport) {
       return false;
@@ -320,13 +522,7 @@ export class MCPClientWrapper {
     // Monitor connection every 5 seconds
     this.connectionMonitorInterval = setInterval(() => {
       if (this.connected && !this.isClientAlive()) {
-        console.warn(`[MCPClient] Connection lost for server: ${this.config.name}`);
-        this.connected = false;
-        
-        // Clean up dead connection
-        this.disconnect().catch(error => {
-          console.error('Error during connection cleanup:', error);
-        });
+        this.handleConnectionLost('Transport is no longer alive');
       }
     }, 5000);
   }
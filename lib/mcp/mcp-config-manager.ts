@@ -1,4 +1,6 @@
 import { MCPServerConfig } from './mcp-client'
+import { MCPToolPolicies, DEFAULT_TOOL_POLICIES, normalizeToolPolicies } from './mcp-tool-policy'
+import type { MCPOAuthState } from './mcp-oauth-provider'
 import fs from 'fs/promises'
 import path from 'path'
 
@@ -10,6 +12,8 @@ export interface MCPConfig {
 
 export class MCPConfigManager {
   private static configPath = path.join(process.cwd(), 'mcp.config.json')
+  private static policiesPath = path.join(process.cwd(), 'mcp.policies.json')
+  private static oauthPath = path.join(process.cwd(), 'mcp.oauth.json')
   
   static async loadConfig(): Promise<MCPConfig | null> {
     try {
@@ -104,6 +108,68 @@ export class MCPConfigManager {
     await this.saveConfig(config.servers)
   }
   
+  static async loadPolicies(): Promise<MCPToolPolicies> {
+    try {
+      const data = await fs.readFile(this.policiesPath, 'utf-8')
+      return normalizeToolPolicies(JSON.parse(data))
+    } catch (error) {
+      // No policies file yet - fall back to defaults
+      return { ...DEFAULT_TOOL_POLICIES, servers: {} }
+    }
+  }
+  
+  static async savePolicies(policies: MCPToolPolicies): Promise<MCPToolPolicies> {
+    const normalized = {
+      ...normalizeToolPolicies(policies),
+      lastModified: new Date().toISOString()
+    }
+    
+    await fs.writeFile(
+      this.policiesPath,
+      JSON.stringify(normalized, null, 2),
+      'utf-8'
+    )
+    return normalized
+  }
+  
+  // OAuth tokens and client registrations, keyed by server name so they survive id changes
+  static async loadOAuthState(serverName: string): Promise<MCPOAuthState> {
+    const all = await this.loadAllOAuthState()
+    return all[serverName] || {}
+  }
+  
+  static async saveOAuthState(serverName: string, state: MCPOAuthState): Promise<void> {
+    const all = await this.loadAllOAuthState()
+    all[serverName] = state
+    
+    await fs.writeFile(
+      this.oauthPath,
+      JSON.stringify(all, null, 2),
+      { encoding: 'utf-8', mode: 0o600 }
+    )
+  }
+  
+  static async removeOAuthState(serverName: string): Promise<void> {
+    const all = await this.loadAllOAuthState()
+    if (!(serverName in all)) return
+    
+    delete all[serverName]
+    await fs.writeFile(
+      this.oauthPath,
+      JSON.stringify(all, null, 2),
+      { encoding: 'utf-8', mode: 0o600 }
+    )
+  }
+  
+  private static async loadAllOAuthState(): Promise<Record<string, MCPOAuthState>> {
+    try {
+      const data = await fs.readFile(this.oauthPath, 'utf-8')
+      return JSON.parse(data)
+    } catch (error) {
+      return {}
+    }
+  }
+  
   static async exportConfig(): Promise<string> {
     const config = await this.loadConfig()
     if (!config) {
@@ -125,10 +191,10 @@ export class MCPConfigManager {
       }
       
       // Validate based on transport type
-      if (server.url || server.transportType === 'http') {
+      if (server.url || server.transportType === 'http' || server.transportType === 'sse') {
         // HTTP transport - URL is required
         if (!server.url) {
-          throw new Error('HTTP transport servers must have a URL')
+          throw new Error('Remote transport servers must have a URL')
         }
       } else {
         // Stdio transport - command is required
@@ -210,10 +276,10 @@ export class MCPConfigManagerClient {
       }
       
       // Validate based on transport type
-      if (server.url || server.transportType === 'http') {
+      if (server.url || server.transportType === 'http' || server.transportType === 'sse') {
         // HTTP transport - URL is required
         if (!server.url) {
-          throw new Error('HTTP transport servers must have a URL')
+          throw new Error('Remote transport servers must have a URL')
         }
       } else {
         // Stdio transport - command is required
@@ -0,0 +1,136 @@
+import type { ToolCall, ToolDefinition } from '@/lib/models/types'
+import { MCPServerManager, ExecuteToolOptions } from './mcp-server-manager'
+import { ToolContext } from './mcp-tools-context'
+
+export interface ModelToolBinding {
+  functionName: string
+  serverId: string
+  serverName: string
+  toolName: string
+}
+
+export interface ModelToolResult {
+  server: string
+  tool: string
+  isError: boolean
+  content: string
+}
+
+// Tool names every provider accepts: ^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$
+const MAX_FUNCTION_NAME_LENGTH = 64
+const FUNCTION_NAME_SEPARATOR = '__'
+
+/**
+ * Exposes connected MCP server tools to any model as native tool definitions
+ * and routes the resulting tool calls back through MCPServerManager.
+ */
+export class MCPModelToolset {
+  readonly tools: ToolDefinition[] = []
+  private bindings: Map<string, ModelToolBinding> = new Map()
+
+  constructor(tools: ToolContext['tools']) {
+    for (const tool of tools) {
+      const functionName = this.uniqueFunctionName(tool.serverName, tool.toolName)
+      this.bindings.set(functionName, {
+        functionName,
+        serverId: tool.serverId,
+        serverName: tool.serverName,
+        toolName: tool.toolName
+      })
+
+      this.tools.push({
+        name: functionName,
+        description: tool.description || `${tool.toolName} tool from the ${tool.serverName} MCP server`,
+        parameters: tool.parameters
+      })
+    }
+  }
+
+  get size(): number {
+    return this.tools.length
+  }
+
+  resolve(functionName: string): ModelToolBinding | undefined {
+    return this.bindings.get(functionName)
+  }
+
+  /**
+   * Execute a model's tool call against its MCP server.
+   * Failures (including denied approvals) are returned as structured results so the model can recover.
+   */
+  async execute(call: ToolCall, options: ExecuteToolOptions = {}): Promise<ModelToolResult> {
+    const binding = this.resolve(call.name)
+    if (!binding) {
+      return {
+        server: 'unknown',
+        tool: call.name,
+        isError: true,
+        content: `Unknown function: ${call.name}`
+      }
+    }
+
+    console.log(`[MCPModelToolset] Executing ${binding.serverName}:${binding.toolName}`)
+
+    try {
+      const result = await MCPServerManager.getInstance().executeTool(
+        binding.serverId,
+        binding.toolName,
+        call.args || {},
+        options
+      )
+
+      return {
+        server: binding.serverName,
+        tool: binding.toolName,
+        isError: false,
+        content: MCPModelToolset.formatContent(result)
+      }
+    } catch (error) {
+      console.error(`[MCPModelToolset] Tool ${binding.serverName}:${binding.toolName} failed:`, error)
+      return {
+        server: binding.serverName,
+        tool: binding.toolName,
+        isError: true,
+        content: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private uniqueFunctionName(serverName: string, toolName: string): string {
+    const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_')
+
+    let base = `${sanitize(serverName)}${FUNCTION_NAME_SEPARATOR}${sanitize(toolName)}`
+    if (!/^[a-zA-Z_]/.test(base)) {
+      base = `_${base}`
+    }
+    base = base.substring(0, MAX_FUNCTION_NAME_LENGTH)
+
+    let name = base
+    let suffix = 2
+    while (this.bindings.has(name)) {
+      const tail = `_${suffix++}`
+      name = base.substring(0, MAX_FUNCTION_NAME_LENGTH - tail.length) + tail
+    }
+    return name
+  }
+
+  /**
+   * Flatten MCP content blocks into text suitable for a tool result
+   */
+  static formatContent(result: any): string {
+    if (typeof result === 'string') {
+      return result
+    }
+
+    if (Array.isArray(result)) {
+      return result.map(item => {
+        if (item?.type === 'text') return item.text
+        if (item?.type === 'image') return `[image: ${item.mimeType || 'unknown type'}]`
+        if (item?.type === 'resource') return item.resource?.text || `[resource: ${item.resource?.uri}]`
+        return JSON.stringify(item)
+      }).join('\n')
+    }
+
+    return JSON.stringify(result, null, 2)
+  }
+}
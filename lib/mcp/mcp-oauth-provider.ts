@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { MCPConfigManager } from './mcp-config-manager';
+import type { MCPServerConfig } from './mcp-client';
+
+/**
+ * Everything persisted for one server's OAuth session
+ */
+export interface MCPOAuthState {
+  clientInformation?: OAuthClientInformationFull;
+  tokens?: OAuthTokens;
+  tokensSavedAt?: string;
+  codeVerifier?: string;
+  state?: string;
+  authorizationUrl?: string;
+}
+
+export const MCP_OAUTH_CALLBACK_PATH = '/api/mcp/oauth/callback';
+
+// Separates the server id from the random part of the OAuth state parameter
+const STATE_SEPARATOR = ':';
+
+export function getOAuthRedirectUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  return `${baseUrl}${MCP_OAUTH_CALLBACK_PATH}`;
+}
+
+/**
+ * Recover the server id embedded in an OAuth state parameter
+ */
+export function parseOAuthState(state: string): string | null {
+  const index = state.lastIndexOf(STATE_SEPARATOR);
+  return index > 0 ? state.substring(0, index) : null;
+}
+
+/**
+ * OAuth 2.1 authorization-code (PKCE) client for one remote MCP server.
+ * The SDK drives discovery, dynamic registration, token exchange and refresh;
+ * this class persists the results in mcp.oauth.json. Since the flow runs on the
+ * server, the authorization URL is recorded for the UI to open instead of redirecting.
+ */
+export class MCPOAuthProvider implements OAuthClientProvider {
+  constructor(private config: MCPServerConfig) {}
+
+  get redirectUrl(): string {
+    return getOAuthRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'gemini-chatbot-v2',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: this.config.oauth?.clientSecret ? 'client_secret_post' : 'none',
+      ...(this.config.oauth?.scope ? { scope: this.config.oauth.scope } : {}),
+    };
+  }
+
+  async state(): Promise<string> {
+    const state = `${this.config.id}${STATE_SEPARATOR}${crypto.randomBytes(16).toString('hex')}`;
+    await this.update({ state });
+    return state;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformation | undefined> {
+    // Pre-registered clients take precedence over dynamic registration
+    if (this.config.oauth?.clientId) {
+      return {
+        client_id: this.config.oauth.clientId,
+        ...(this.config.oauth.clientSecret ? { client_secret: this.config.oauth.clientSecret } : {}),
+      };
+    }
+    return (await this.load()).clientInformation;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationFull): Promise<void> {
+    await this.update({ clientInformation });
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return (await this.load()).tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    console.log(`[MCPOAuthProvider] Saved tokens for server: ${this.config.name}`);
+    await this.update({
+      tokens,
+      tokensSavedAt: new Date().toISOString(),
+      codeVerifier: undefined,
+      authorizationUrl: undefined,
+    });
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    console.log(`[MCPOAuthProvider] Authorization required for server: ${this.config.name}`);
+    await this.update({ authorizationUrl: authorizationUrl.toString() });
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    await this.update({ codeVerifier });
+  }
+
+  async codeVerifier(): Promise<string> {
+    const { codeVerifier } = await this.load();
+    if (!codeVerifier) {
+      throw new Error(`No pending authorization for server: ${this.config.name}`);
+    }
+    return codeVerifier;
+  }
+
+  async getAuthorizationUrl(): Promise<string | undefined> {
+    return (await this.load()).authorizationUrl;
+  }
+
+  /**
+   * Check a callback's state parameter against the one issued for this server.
+   * A matching state is cleared so the same callback can't be replayed.
+   */
+  async consumeState(state: string): Promise<boolean> {
+    const saved = (await this.load()).state;
+    if (!saved || saved.length !== state.length) return false;
+    if (!crypto.timingSafeEqual(Buffer.from(saved), Buffer.from(state))) return false;
+
+    await this.update({ state: undefined });
+    return true;
+  }
+
+  async hasTokens(): Promise<boolean> {
+    return !!(await this.load()).tokens;
+  }
+
+  // Forget tokens but keep the client registration for the next sign-in
+  async clearTokens(): Promise<void> {
+    await this.update({ tokens: undefined, tokensSavedAt: undefined });
+  }
+
+  private load(): Promise<MCPOAuthState> {
+    return MCPConfigManager.loadOAuthState(this.config.name);
+  }
+
+  private async update(changes: Partial<MCPOAuthState>): Promise<void> {
+    const current = await this.load();
+    await MCPConfigManager.saveOAuthState(this.config.name, { ...current, ...changes });
+  }
+}
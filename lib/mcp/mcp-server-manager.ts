@@ -1,20 +1,53 @@
-import { MCPClientWrapper, MCPServerConfig, MCPTool, MCPResource } from './mcp-client';
+import { MCPClientWrapper, MCPServerConfig, MCPTool, MCPResource, MCPPrompt, MCPPromptMessage, MCPAuthorizationRequiredError } from './mcp-client';
 import { MCPConfigManager, MCPConfigManagerClient } from './mcp-config-manager';
+import { MCPApprovalGate } from './mcp-approval-gate';
+import { PendingToolApproval, resolveToolPolicy } from './mcp-tool-policy';
+import { MCPServerSupervisor, MCPServerHealth } from './mcp-server-supervisor';
 
 export interface MCPServerInstance {
   config: MCPServerConfig;
   client: MCPClientWrapper;
   tools?: MCPTool[];
   resources?: MCPResource[];
+  prompts?: MCPPrompt[];
   lastError?: string;
+  authorizationUrl?: string; // Set while an OAuth server is waiting for the user to sign in
   status: 'disconnected' | 'connecting' | 'connected' | 'error';
 }
 
+export interface ExecuteToolOptions {
+  // Called when the tool's policy requires a human decision before it runs
+  onApprovalRequired?: (approval: PendingToolApproval) => void;
+  // Aborting denies a call that is still waiting for approval
+  signal?: AbortSignal;
+  // User who is asked to approve; only they can see and answer the approval
+  userId?: string;
+  // The user already approved this call (e.g. a reviewed workflow step); "ask" tools run without asking again
+  approved?: boolean;
+}
+
+export class MCPToolDeniedError extends Error {
+  constructor(serverName: string, toolName: string, reason: 'policy' | 'user' | 'approval-required') {
+    super(reason === 'policy'
+      ? `Tool ${serverName}:${toolName} is blocked by policy`
+      : reason === 'approval-required'
+        ? `Tool ${serverName}:${toolName} requires approval, which can't be requested here`
+        : `Tool ${serverName}:${toolName} was not approved by the user`);
+    this.name = 'MCPToolDeniedError';
+  }
+}
+
 export class MCPServerManager {
   private servers: Map<string, MCPServerInstance> = new Map();
   private static instance: MCPServerManager | null = null;
+  private supervisor: MCPServerSupervisor;
 
-  private constructor() {}
+  private constructor() {
+    this.supervisor = new MCPServerSupervisor(
+      (serverId) => this.connectServer(serverId),
+      (serverId) => this.servers.get(serverId)?.client.getStderrTail() || []
+    );
+  }
 
   // Singleton pattern for global server management
   static getInstance(): MCPServerManager {
@@ -54,10 +87,12 @@ export class MCPServerManager {
 
     await this.disconnectServer(serverId);
     this.servers.delete(serverId);
+    this.supervisor.forget(serverId);
     
     // Remove from config
     if (typeof window === 'undefined') {
       await MCPConfigManager.removeServer(serverId);
+      await MCPConfigManager.removeOAuthState(instance.config.name);
     } else {
       MCPConfigManagerClient.removeServer(serverId);
     }
@@ -107,6 +142,10 @@ export class MCPServerManager {
         console.log(`[MCPServerManager] Fetching resources for server: ${serverId}`);
         instance.resources = await instance.client.listResources();
         console.log(`[MCPServerManager] Found ${instance.resources?.length || 0} resources for server: ${serverId}`);
+        
+        console.log(`[MCPServerManager] Fetching prompts for server: ${serverId}`);
+        instance.prompts = await instance.client.listPrompts();
+        console.log(`[MCPServerManager] Found ${instance.prompts?.length || 0} prompts for server: ${serverId}`);
       } catch (error) {
         console.error('[MCPServerManager] Error fetching server capabilities:', error);
         
@@ -121,14 +160,23 @@ export class MCPServerManager {
         // Don't throw here - server is connected even if capabilities fetch fails
         instance.tools = [];
         instance.resources = [];
+        instance.prompts = [];
       }
       
       delete instance.lastError;
+      delete instance.authorizationUrl;
+      this.superviseConnection(instance);
     } catch (error) {
       instance.status = 'error';
       instance.lastError = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[MCPServerManager] Failed to connect to server ${serverId}:`, error);
       
+      // Sign-in can't be retried automatically - surface the authorization URL instead
+      if (error instanceof MCPAuthorizationRequiredError) {
+        instance.authorizationUrl = error.authorizationUrl;
+        throw error;
+      }
+      
       // Retry for certain errors
       if (retryCount < 2) {
         const errorMessage = error instanceof Error ? error.message : '';
@@ -159,6 +207,50 @@ export class MCPServerManager {
     instance.status = 'disconnected';
     instance.tools = undefined;
     instance.resources = undefined;
+    instance.prompts = undefined;
+    this.supervisor.recordDisconnected(serverId);
+  }
+
+  /**
+   * Complete an OAuth sign-in started by connectServer and connect with the new tokens
+   */
+  async finishOAuth(serverId: string, authorizationCode: string): Promise<void> {
+    const instance = this.servers.get(serverId);
+    if (!instance) {
+      throw new Error(`Server ${serverId} not found`);
+    }
+
+    await instance.client.finishAuth(authorizationCode);
+    delete instance.authorizationUrl;
+    await this.connectServer(serverId);
+  }
+
+  // Disconnect and forget a server's OAuth tokens
+  async signOut(serverId: string): Promise<void> {
+    const instance = this.servers.get(serverId);
+    if (!instance) {
+      throw new Error(`Server ${serverId} not found`);
+    }
+
+    await this.disconnectServer(serverId);
+    await instance.client.getOAuthProvider()?.clearTokens();
+  }
+
+  // Hand crashed connections to the supervisor so they are restarted with backoff
+  private superviseConnection(instance: MCPServerInstance): void {
+    instance.client.onConnectionLost((reason) => {
+      console.warn(`[MCPServerManager] Server ${instance.config.name} crashed: ${reason}`);
+      instance.status = 'error';
+      instance.lastError = reason;
+      instance.tools = undefined;
+      instance.resources = undefined;
+      this.supervisor.handleCrash(instance.config.id, reason);
+    });
+    this.supervisor.recordConnected(instance.config.id);
+  }
+
+  getHealth(serverId: string): MCPServerHealth | undefined {
+    return this.supervisor.getHealth(serverId);
   }
 
   async listTools(serverId: string): Promise<MCPTool[]> {
@@ -176,7 +268,7 @@ export class MCPServerManager {
     return tools;
   }
 
-  async executeTool(serverId: string, toolName: string, params: any): Promise<any> {
+  async executeTool(serverId: string, toolName: string, params: any, options: ExecuteToolOptions = {}): Promise<any> {
     const instance = this.servers.get(serverId);
     if (!instance) {
       throw new Error(`Server ${serverId} not found`);
@@ -186,9 +278,52 @@ export class MCPServerManager {
       throw new Error(`Server ${serverId} is not connected`);
     }
 
+    await this.authorizeToolCall(instance, toolName, params, options);
+
     return await instance.client.callTool(toolName, params);
   }
 
+  // Enforce the per-server / per-tool approval policy (server side only)
+  private async authorizeToolCall(
+    instance: MCPServerInstance,
+    toolName: string,
+    params: any,
+    options: ExecuteToolOptions
+  ): Promise<void> {
+    if (typeof window !== 'undefined') return;
+
+    const policies = await MCPConfigManager.loadPolicies();
+    const policy = resolveToolPolicy(policies, instance.config.name, toolName);
+
+    if (policy === 'deny') {
+      console.warn(`[MCPServerManager] Tool ${instance.config.name}:${toolName} denied by policy`);
+      throw new MCPToolDeniedError(instance.config.name, toolName, 'policy');
+    }
+
+    if (policy === 'ask' && !options.approved) {
+      // Without a way to ask anyone the call would only wait for the approval timeout
+      if (!options.onApprovalRequired) {
+        throw new MCPToolDeniedError(instance.config.name, toolName, 'approval-required');
+      }
+
+      const approved = await MCPApprovalGate.getInstance().request(
+        {
+          serverId: instance.config.id,
+          serverName: instance.config.name,
+          toolName,
+          args: params,
+          userId: options.userId
+        },
+        options.onApprovalRequired,
+        { signal: options.signal }
+      );
+
+      if (!approved) {
+        throw new MCPToolDeniedError(instance.config.name, toolName, 'user');
+      }
+    }
+  }
+
   async listResources(serverId: string): Promise<MCPResource[]> {
     const instance = this.servers.get(serverId);
     if (!instance) {
@@ -217,6 +352,38 @@ export class MCPServerManager {
     return await instance.client.readResource(uri);
   }
 
+  async listPrompts(serverId: string): Promise<MCPPrompt[]> {
+    const instance = this.servers.get(serverId);
+    if (!instance) {
+      throw new Error(`Server ${serverId} not found`);
+    }
+
+    if (instance.status !== 'connected') {
+      throw new Error(`Server ${serverId} is not connected`);
+    }
+
+    const prompts = await instance.client.listPrompts();
+    instance.prompts = prompts;
+    return prompts;
+  }
+
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    const instance = this.servers.get(serverId);
+    if (!instance) {
+      throw new Error(`Server ${serverId} not found`);
+    }
+
+    if (instance.status !== 'connected') {
+      throw new Error(`Server ${serverId} is not connected`);
+    }
+
+    return await instance.client.getPrompt(name, args);
+  }
+
   getServer(serverId: string): MCPServerInstance | undefined {
     return this.servers.get(serverId);
   }
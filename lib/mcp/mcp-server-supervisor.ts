@@ -0,0 +1,176 @@
+export type MCPHealthState = 'connected' | 'crashed' | 'restarting' | 'disconnected' | 'failed';
+
+export interface MCPHealthEvent {
+  state: MCPHealthState;
+  timestamp: string;
+  error?: string;
+  attempt?: number;
+}
+
+export interface MCPServerHealth {
+  serverId: string;
+  state: MCPHealthState;
+  restartCount: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastConnectedAt?: string;
+  lastCrashAt?: string;
+  nextRestartAt?: string;
+  stderrTail: string[];
+  history: MCPHealthEvent[];
+}
+
+export interface MCPSupervisorOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRestartAttempts: number;
+  // How long a restarted server must stay up before its failures are forgiven
+  stableAfterMs: number;
+  historyLimit: number;
+}
+
+const DEFAULT_SUPERVISOR_OPTIONS: MCPSupervisorOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  maxRestartAttempts: 8,
+  stableAfterMs: 60000,
+  historyLimit: 50,
+};
+
+/**
+ * Watches MCP server connections, restarts crashed servers with exponential
+ * backoff and keeps a per-server status timeline for the UI.
+ */
+export class MCPServerSupervisor {
+  private health: Map<string, MCPServerHealth> = new Map();
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+  private options: MCPSupervisorOptions;
+
+  constructor(
+    private restart: (serverId: string) => Promise<void>,
+    private getStderrTail: (serverId: string) => string[],
+    options: Partial<MCPSupervisorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_SUPERVISOR_OPTIONS, ...options };
+  }
+
+  recordConnected(serverId: string): void {
+    const health = this.getOrCreate(serverId);
+    // A restart that connects and crashes again right away keeps backing off;
+    // handleCrash resets the count once the connection has proven stable
+    if (health.state !== 'restarting') {
+      health.consecutiveFailures = 0;
+    }
+    health.lastConnectedAt = new Date().toISOString();
+    delete health.nextRestartAt;
+    this.transition(health, { state: 'connected' });
+  }
+
+  // Intentional disconnects stop supervision until the next connect
+  recordDisconnected(serverId: string): void {
+    this.cancelRestart(serverId);
+    const health = this.getOrCreate(serverId);
+    delete health.nextRestartAt;
+    this.transition(health, { state: 'disconnected' });
+  }
+
+  /**
+   * A connected server dropped its transport: record it and schedule a restart
+   */
+  handleCrash(serverId: string, error: string): void {
+    const health = this.getOrCreate(serverId);
+    const connectedAt = health.lastConnectedAt ? new Date(health.lastConnectedAt).getTime() : undefined;
+    if (health.state === 'connected' && connectedAt !== undefined && Date.now() - connectedAt >= this.options.stableAfterMs) {
+      health.consecutiveFailures = 0;
+    }
+    health.lastError = error;
+    health.lastCrashAt = new Date().toISOString();
+    this.transition(health, { state: 'crashed', error });
+    this.scheduleRestart(serverId);
+  }
+
+  getHealth(serverId: string): MCPServerHealth | undefined {
+    const health = this.health.get(serverId);
+    if (!health) return undefined;
+
+    return {
+      ...health,
+      stderrTail: this.getStderrTail(serverId),
+      history: [...health.history],
+    };
+  }
+
+  forget(serverId: string): void {
+    this.cancelRestart(serverId);
+    this.health.delete(serverId);
+  }
+
+  private scheduleRestart(serverId: string): void {
+    const health = this.getOrCreate(serverId);
+    this.cancelRestart(serverId);
+
+    if (health.consecutiveFailures >= this.options.maxRestartAttempts) {
+      console.error(`[MCPServerSupervisor] Giving up on ${serverId} after ${health.consecutiveFailures} restart attempts`);
+      delete health.nextRestartAt;
+      this.transition(health, { state: 'failed', error: health.lastError });
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.baseDelayMs * Math.pow(2, health.consecutiveFailures),
+      this.options.maxDelayMs
+    );
+    health.nextRestartAt = new Date(Date.now() + delay).toISOString();
+    console.log(`[MCPServerSupervisor] Restarting ${serverId} in ${delay}ms`);
+
+    const timer = setTimeout(async () => {
+      this.restartTimers.delete(serverId);
+      health.consecutiveFailures++;
+      health.restartCount++;
+      delete health.nextRestartAt;
+      this.transition(health, { state: 'restarting', attempt: health.consecutiveFailures });
+
+      try {
+        await this.restart(serverId);
+      } catch (error) {
+        health.lastError = error instanceof Error ? error.message : 'Unknown error';
+        this.transition(health, { state: 'crashed', error: health.lastError, attempt: health.consecutiveFailures });
+        this.scheduleRestart(serverId);
+      }
+    }, delay);
+
+    this.restartTimers.set(serverId, timer);
+  }
+
+  private cancelRestart(serverId: string): void {
+    const timer = this.restartTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(serverId);
+    }
+  }
+
+  private transition(health: MCPServerHealth, event: Omit<MCPHealthEvent, 'timestamp'>): void {
+    health.state = event.state;
+    health.history.push({ ...event, timestamp: new Date().toISOString() });
+    if (health.history.length > this.options.historyLimit) {
+      health.history = health.history.slice(-this.options.historyLimit);
+    }
+  }
+
+  private getOrCreate(serverId: string): MCPServerHealth {
+    let health = this.health.get(serverId);
+    if (!health) {
+      health = {
+        serverId,
+        state: 'disconnected',
+        restartCount: 0,
+        consecutiveFailures: 0,
+        stderrTail: [],
+        history: [],
+      };
+      this.health.set(serverId, health);
+    }
+    return health;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Tool approval policies for MCP tool execution.
+ * Shared by the server (enforcement) and the client (policy editing UI).
+ */
+
+export type MCPToolPolicy = 'allow' | 'ask' | 'deny'
+
+export interface MCPServerPolicy {
+  policy?: MCPToolPolicy
+  tools?: Record<string, MCPToolPolicy>
+}
+
+export interface MCPToolPolicies {
+  // Applied when neither the server nor the tool has an explicit policy
+  defaultPolicy: MCPToolPolicy
+  // Applied instead of defaultPolicy to tools that look destructive
+  destructivePolicy: MCPToolPolicy
+  // Keyed by server name, which stays stable across config reloads
+  servers: Record<string, MCPServerPolicy>
+  lastModified?: string
+}
+
+export interface PendingToolApproval {
+  id: string
+  serverId: string
+  serverName: string
+  toolName: string
+  args: any
+  createdAt: string
+  // Signed-in user who may answer it; unset without sign-in
+  userId?: string
+}
+
+export const MCP_TOOL_POLICIES: MCPToolPolicy[] = ['allow', 'ask', 'deny']
+
+export const DEFAULT_TOOL_POLICIES: MCPToolPolicies = {
+  defaultPolicy: 'allow',
+  destructivePolicy: 'ask',
+  servers: {}
+}
+
+// Verbs that indicate a tool changes state outside the conversation
+const DESTRUCTIVE_TOOL_PATTERN = /(^|[_\-.])(write|edit|create|delete|remove|rm|move|rename|update|push|merge|fork|execute|exec|run|kill|install|commit|close|set)([_\-.]|$)/i
+
+export function isLikelyDestructiveTool(toolName: string): boolean {
+  const normalized = toolName.replace(/([a-z])([A-Z])/g, '$1_$2')
+  return DESTRUCTIVE_TOOL_PATTERN.test(normalized)
+}
+
+/**
+ * Resolve the effective policy for a tool: tool override, then server policy,
+ * then the destructive/default fallback.
+ */
+export function resolveToolPolicy(
+  policies: MCPToolPolicies | null | undefined,
+  serverName: string,
+  toolName: string
+): MCPToolPolicy {
+  const effective = policies || DEFAULT_TOOL_POLICIES
+  const serverPolicy = effective.servers?.[serverName]
+
+  if (serverPolicy?.tools?.[toolName]) {
+    return serverPolicy.tools[toolName]
+  }
+  if (serverPolicy?.policy) {
+    return serverPolicy.policy
+  }
+  return isLikelyDestructiveTool(toolName)
+    ? effective.destructivePolicy
+    : effective.defaultPolicy
+}
+
+export function normalizeToolPolicies(input: any): MCPToolPolicies {
+  const isPolicy = (value: any): value is MCPToolPolicy => MCP_TOOL_POLICIES.includes(value)
+
+  const servers: Record<string, MCPServerPolicy> = {}
+  for (const [serverName, serverPolicy] of Object.entries<any>(input?.servers || {})) {
+    const tools: Record<string, MCPToolPolicy> = {}
+    for (const [toolName, policy] of Object.entries<any>(serverPolicy?.tools || {})) {
+      if (isPolicy(policy)) tools[toolName] = policy
+    }
+    servers[serverName] = {
+      ...(isPolicy(serverPolicy?.policy) ? { policy: serverPolicy.policy } : {}),
+      ...(Object.keys(tools).length > 0 ? { tools } : {})
+    }
+  }
+
+  return {
+    defaultPolicy: isPolicy(input?.defaultPolicy) ? input.defaultPolicy : DEFAULT_TOOL_POLICIES.defaultPolicy,
+    destructivePolicy: isPolicy(input?.destructivePolicy) ? input.destructivePolicy : DEFAULT_TOOL_POLICIES.destructivePolicy,
+    servers,
+    lastModified: input?.lastModified
+  }
+}
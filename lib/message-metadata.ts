@@ -1,152 +1,142 @@
 import { Message } from 'ai'
-import { FileUpload } from '@/components/chat-interface'
+import {
+  CHAT_STREAM_EVENT_VERSION,
+  createChatStreamEvent,
+  isChatStreamEvent,
+  type ChatStreamEvent
+} from '@/lib/chat-stream-events'
+
+/**
+ * Shape of `messages.metadata` for persisted chat messages
+ */
+export interface MessageMetadata {
+  streamEventVersion?: number
+  events?: ChatStreamEvent[]
+}
 
 export interface EnhancedMessage extends Message {
-  attachments?: FileUpload[]
-  metadata?: {
-    searchResults?: {
-      sources?: Array<{
-        name: string
-        url: string
-        snippet?: string
-      }>
-      images?: Array<{
-        url: string
-        title?: string
-        source?: string
-      }>
-      relatedQuestions?: string[]
-    }
-    videoGeneration?: {
-      videoId: string
-      prompt: string
-      status: string
-    }
-    imageGeneration?: {
-      imageIds: string[]
-      prompt: string
-    }
-    audioGeneration?: {
-      audioId: string
-      prompt: string
-    }
-    socialMediaDownload?: {
-      url: string
-      platform: string
-      content: any
-    }
+  attachments?: any[]
+  metadata?: MessageMetadata
+}
+
+// Markers older assistant messages carry inside their content
+const LEGACY_MARKERS = [
+  'WEB_SEARCH_STARTED',
+  'WEB_SEARCH_COMPLETED',
+  'SEARCH_METADATA',
+  'IMAGE_GENERATION_COMPLETED',
+  'IMAGE_EDITING_COMPLETED',
+  'VIDEO_GENERATION_STARTED',
+  'TTS_GENERATION_STARTED',
+  'TTS_GENERATION_COMPLETED',
+  'IMAGE_OPTIONS',
+  'VIDEO_OPTIONS'
+]
+
+function parseLegacyBlock(content: string, marker: string): any | null {
+  const match = content.match(new RegExp(`\\[${marker}\\]([\\s\\S]*?)\\[\\/${marker}\\]`))
+  if (!match) return null
+
+  let json = match[1].trim()
+  // Some saved messages were double-escaped by the old SSE path
+  if (json.startsWith('{\\"')) {
+    json = json
+      .replace(/\\"/g, '"')
+      .replace(/\\n/g, '\n')
+      .replace(/\\t/g, '\t')
+      .replace(/\\\\/g, '\\')
+  }
+
+  try {
+    return JSON.parse(json)
+  } catch (e) {
+    console.error(`Failed to parse ${marker} data:`, e)
+    return null
   }
 }
 
 /**
- * Extract metadata from message content
- * This includes search results, video/image/audio generation data, etc.
+ * Rebuild stream events from the in-text markers of messages saved before
+ * events were persisted as metadata
  */
-export function extractMessageMetadata(message: Message): EnhancedMessage['metadata'] {
-  const metadata: EnhancedMessage['metadata'] = {}
-  
-  // Extract search results metadata
-  const searchMetadataMatch = message.content.match(/\[SEARCH_METADATA\]([\s\S]*?)\[\/SEARCH_METADATA\]/)
-  if (searchMetadataMatch) {
-    try {
-      const searchData = JSON.parse(searchMetadataMatch[1])
-      metadata.searchResults = searchData
-    } catch (e) {
-      console.error('Failed to parse search metadata:', e)
-    }
-  }
-  
-  // Extract video generation data
-  const videoMatch = message.content.match(/\[VIDEO_GENERATION_STARTED\]([\s\S]*?)\[\/VIDEO_GENERATION_STARTED\]/)
-  if (videoMatch) {
-    try {
-      metadata.videoGeneration = JSON.parse(videoMatch[1])
-    } catch (e) {
-      console.error('Failed to parse video generation data:', e)
+export function legacyEventsFromContent(content: string): ChatStreamEvent[] {
+  const events: ChatStreamEvent[] = []
+
+  const search = parseLegacyBlock(content, 'WEB_SEARCH_COMPLETED')
+  if (search) {
+    events.push(createChatStreamEvent('search_results', {
+      status: search.hasError ? 'failed' : 'completed',
+      error: search.error || undefined,
+      citations: search.citations || [],
+      searchResults: search.searchResults || [],
+      images: search.images || [],
+      relatedQuestions: search.relatedQuestions || []
+    }))
+  } else {
+    const oldSearch = parseLegacyBlock(content, 'SEARCH_METADATA')
+    if (oldSearch) {
+      events.push(createChatStreamEvent('search_results', {
+        status: 'completed',
+        citations: oldSearch.citations || [],
+        searchResults: oldSearch.searchResults || [],
+        images: oldSearch.images || [],
+        relatedQuestions: oldSearch.followUpQuestions || oldSearch.relatedQuestions || []
+      }))
     }
   }
-  
-  // Extract image generation data
-  const imageMatch = message.content.match(/\[IMAGE_GENERATION\]([\s\S]*?)\[\/IMAGE_GENERATION\]/)
-  if (imageMatch) {
-    try {
-      metadata.imageGeneration = JSON.parse(imageMatch[1])
-    } catch (e) {
-      console.error('Failed to parse image generation data:', e)
-    }
+
+  const image = parseLegacyBlock(content, 'IMAGE_GENERATION_COMPLETED')
+  if (image) {
+    events.push(createChatStreamEvent('image_generated', image))
   }
-  
-  // Extract audio generation data
-  const audioMatch = message.content.match(/\[AUDIO_GENERATION\]([\s\S]*?)\[\/AUDIO_GENERATION\]/)
-  if (audioMatch) {
-    try {
-      metadata.audioGeneration = JSON.parse(audioMatch[1])
-    } catch (e) {
-      console.error('Failed to parse audio generation data:', e)
-    }
+
+  const video = parseLegacyBlock(content, 'VIDEO_GENERATION_STARTED')
+  if (video) {
+    events.push(createChatStreamEvent('video_started', video))
   }
-  
-  // Extract social media download data
-  const socialMatch = message.content.match(/\[SOCIAL_MEDIA_DOWNLOAD\]([\s\S]*?)\[\/SOCIAL_MEDIA_DOWNLOAD\]/)
-  if (socialMatch) {
-    try {
-      metadata.socialMediaDownload = JSON.parse(socialMatch[1])
-    } catch (e) {
-      console.error('Failed to parse social media download data:', e)
-    }
+
+  const tts = parseLegacyBlock(content, 'TTS_GENERATION_COMPLETED')
+  if (tts) {
+    events.push(createChatStreamEvent('tts_ready', tts))
   }
-  
-  return Object.keys(metadata).length > 0 ? metadata : undefined
+
+  return events
 }
 
 /**
- * Clean message content for display (remove metadata markers)
+ * Typed stream events for a message: annotations while streaming, persisted
+ * metadata once loaded, or legacy markers for older saved chats
  */
-export function cleanMessageContent(content: string): string {
-  return content
-    .replace(/\[SEARCH_METADATA\][\s\S]*?\[\/SEARCH_METADATA\]/g, '')
-    .replace(/\[VIDEO_GENERATION_STARTED\][\s\S]*?\[\/VIDEO_GENERATION_STARTED\]/g, '')
-    .replace(/\[IMAGE_GENERATION\][\s\S]*?\[\/IMAGE_GENERATION\]/g, '')
-    .replace(/\[AUDIO_GENERATION\][\s\S]*?\[\/AUDIO_GENERATION\]/g, '')
-    .replace(/\[SOCIAL_MEDIA_DOWNLOAD\][\s\S]*?\[\/SOCIAL_MEDIA_DOWNLOAD\]/g, '')
-    .replace(/\[IMAGE_OPTIONS\][\s\S]*?\[\/IMAGE_OPTIONS\]/g, '')
-    .replace(/\[VIDEO_OPTIONS\][\s\S]*?\[\/VIDEO_OPTIONS\]/g, '')
-    .replace(/\[FORCE_WEB_SEARCH\]/g, '')
-    .trim()
+export function getMessageEvents(message: Pick<EnhancedMessage, 'content' | 'annotations' | 'metadata'>): ChatStreamEvent[] {
+  const annotated = ((message.annotations || []) as unknown[]).filter(isChatStreamEvent)
+  if (annotated.length > 0) return annotated
+
+  const persisted = ((message.metadata?.events || []) as unknown[]).filter(isChatStreamEvent)
+  if (persisted.length > 0) return persisted
+
+  return message.content ? legacyEventsFromContent(message.content) : []
 }
 
 /**
- * Reconstruct message with metadata for display
+ * Metadata to persist for a message, or undefined when it has no events
  */
-export function reconstructMessageWithMetadata(
-  message: Message, 
-  metadata?: EnhancedMessage['metadata']
-): Message {
-  let content = cleanMessageContent(message.content)
-  
-  // Add metadata back as markers if needed
-  if (metadata?.searchResults) {
-    content += `\n[SEARCH_METADATA]${JSON.stringify(metadata.searchResults)}[/SEARCH_METADATA]`
-  }
-  
-  if (metadata?.videoGeneration) {
-    content += `\n[VIDEO_GENERATION_STARTED]${JSON.stringify(metadata.videoGeneration)}[/VIDEO_GENERATION_STARTED]`
-  }
-  
-  if (metadata?.imageGeneration) {
-    content += `\n[IMAGE_GENERATION]${JSON.stringify(metadata.imageGeneration)}[/IMAGE_GENERATION]`
-  }
-  
-  if (metadata?.audioGeneration) {
-    content += `\n[AUDIO_GENERATION]${JSON.stringify(metadata.audioGeneration)}[/AUDIO_GENERATION]`
-  }
-  
-  if (metadata?.socialMediaDownload) {
-    content += `\n[SOCIAL_MEDIA_DOWNLOAD]${JSON.stringify(metadata.socialMediaDownload)}[/SOCIAL_MEDIA_DOWNLOAD]`
-  }
-  
-  return {
-    ...message,
-    content
+export function toMessageMetadata(message: Message): MessageMetadata | undefined {
+  const events = ((message.annotations || []) as unknown[]).filter(isChatStreamEvent)
+  if (events.length === 0) return undefined
+  return { streamEventVersion: CHAT_STREAM_EVENT_VERSION, events }
+}
+
+/**
+ * Clean message content for display, copying and titles (remove legacy
+ * metadata markers)
+ */
+export function cleanMessageContent(content: string): string {
+  let cleaned = content
+  for (const marker of LEGACY_MARKERS) {
+    cleaned = cleaned.replace(new RegExp(`\\[${marker}\\][\\s\\S]*?\\[\\/${marker}\\]`, 'g'), '')
   }
+  return cleaned
+    .replace(/\[SEARCHING_WEB\]/g, '')
+    .replace(/\[FORCE_WEB_SEARCH\]/g, '')
+    .trim()
 }
@@ -0,0 +1,63 @@
+import type { ChatContentPart, ChatMessage, ModelCapabilities } from "./types";
+
+export function toContentParts(content: string | ChatContentPart[]): ChatContentPart[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+// Stand-in text for an attachment the model can't read
+export function attachmentPlaceholder(part: Exclude<ChatContentPart, { type: "text" }>): { type: "text"; text: string } {
+  return {
+    type: "text",
+    text: `[Attached ${part.mimeType || "file"} could not be sent to this model]`,
+  };
+}
+
+export function createToolCallId(): string {
+  return `call-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function parseToolArguments(json: string): Record<string, any> {
+  if (!json.trim()) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    console.warn("[ModelRouter] Could not parse tool arguments:", json);
+    return {};
+  }
+}
+
+/**
+ * Fit a conversation to what a model supports: unreadable attachments become
+ * placeholders, and tool calls without results (or results without calls) are
+ * dropped since every provider rejects unpaired ones.
+ */
+export function prepareMessages(messages: ChatMessage[], capabilities: ModelCapabilities): ChatMessage[] {
+  const answeredIds = new Set(messages.flatMap(m => (m.role === "tool" ? [m.toolCallId] : [])));
+  const calledIds = new Set<string>();
+
+  return messages.flatMap((message): ChatMessage[] => {
+    switch (message.role) {
+      case "user": {
+        const content = toContentParts(message.content).map(part => {
+          if (part.type === "inline" && !capabilities.vision) return attachmentPlaceholder(part);
+          if (part.type === "file" && !capabilities.fileUris) return attachmentPlaceholder(part);
+          return part;
+        });
+        return [{ role: "user", content }];
+      }
+      case "assistant": {
+        const toolCalls = capabilities.tools
+          ? message.toolCalls?.filter(call => answeredIds.has(call.id))
+          : undefined;
+        toolCalls?.forEach(call => calledIds.add(call.id));
+        if (!message.content && !toolCalls?.length) return [];
+        return [{ role: "assistant", content: message.content, ...(toolCalls?.length ? { toolCalls } : {}) }];
+      }
+      case "tool":
+        if (calledIds.has(message.toolCallId)) return [message];
+        // Keep the information even when the call itself can't be replayed
+        return [{ role: "user", content: `Tool ${message.name} returned: ${message.content}` }];
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import type { ModelCapabilities, ModelDefinition, ModelProviderId } from "./types";
+
+const GEMINI: ModelCapabilities = { tools: true, vision: true, fileUris: true };
+const ANTHROPIC: ModelCapabilities = { tools: true, vision: true, fileUris: false };
+const OPENAI: ModelCapabilities = { tools: true, vision: true, fileUris: false };
+
+// Prefix for models served by OPENAI_COMPATIBLE_BASE_URL, e.g. "local/llama3.1"
+export const OPENAI_COMPATIBLE_PREFIX = "local/";
+
+const BUILT_IN_MODELS: ModelDefinition[] = [
+  {
+    id: "gemini-2.0-flash",
+    label: "Gemini 2.0 Flash",
+    provider: "gemini",
+    providerModel: "gemini-2.0-flash",
+    capabilities: GEMINI,
+    contextWindow: 1048576,
+  },
+  {
+    id: "gemini-2.5-pro-preview-06-05",
+    label: "Gemini 2.5 Pro",
+    provider: "gemini",
+    providerModel: "gemini-2.5-pro-preview-06-05",
+    capabilities: GEMINI,
+    contextWindow: 1048576,
+  },
+  {
+    id: "gemini-2.5-flash-preview-05-20",
+    label: "Gemini 2.5 Flash",
+    provider: "gemini",
+    providerModel: "gemini-2.5-flash-preview-05-20",
+    capabilities: GEMINI,
+    contextWindow: 1048576,
+  },
+  {
+    id: "claude-sonnet-4",
+    label: "Claude Sonnet 4",
+    provider: "anthropic",
+    providerModel: "claude-sonnet-4-20250514",
+    capabilities: ANTHROPIC,
+    contextWindow: 200000,
+    aliases: ["Claude Sonnet 4"],
+  },
+  {
+    id: "claude-opus-4",
+    label: "Claude Opus 4",
+    provider: "anthropic",
+    providerModel: "claude-opus-4-20250514",
+    capabilities: ANTHROPIC,
+    contextWindow: 200000,
+    aliases: ["Claude Opus 4"],
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    provider: "openai",
+    providerModel: "gpt-4o",
+    capabilities: OPENAI,
+    contextWindow: 128000,
+    aliases: ["GPT-4o"],
+  },
+  {
+    id: "gpt-4o-mini",
+    label: "GPT-4o Mini",
+    provider: "openai",
+    providerModel: "gpt-4o-mini",
+    capabilities: OPENAI,
+    contextWindow: 128000,
+    aliases: ["GPT-4o Mini"],
+  },
+];
+
+// Model each provider falls back to when an agent only names the provider
+export const DEFAULT_PROVIDER_MODELS: Record<Exclude<ModelProviderId, "openai-compatible">, string> = {
+  "gemini": "gemini-2.0-flash",
+  "anthropic": "claude-sonnet-4",
+  "openai": "gpt-4o",
+};
+
+function getOpenAICompatibleCapabilities(): ModelCapabilities {
+  return {
+    tools: process.env.OPENAI_COMPATIBLE_SUPPORTS_TOOLS !== "false",
+    vision: process.env.OPENAI_COMPATIBLE_SUPPORTS_VISION === "true",
+    fileUris: false,
+  };
+}
+
+/**
+ * Models served by a local OpenAI-compatible server (Ollama, LM Studio, vLLM...),
+ * listed in OPENAI_COMPATIBLE_MODELS.
+ */
+function getOpenAICompatibleModels(): ModelDefinition[] {
+  if (!process.env.OPENAI_COMPATIBLE_BASE_URL) return [];
+
+  const names = (process.env.OPENAI_COMPATIBLE_MODELS || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map(name => ({
+    id: `${OPENAI_COMPATIBLE_PREFIX}${name}`,
+    label: `${name} (local)`,
+    provider: "openai-compatible" as const,
+    providerModel: name,
+    capabilities: getOpenAICompatibleCapabilities(),
+  }));
+}
+
+export function getModelDefinitions(): ModelDefinition[] {
+  return [...BUILT_IN_MODELS, ...getOpenAICompatibleModels()];
+}
+
+export function findModelDefinition(id: string): ModelDefinition | undefined {
+  return getModelDefinitions().find(model => model.id === id || model.aliases?.includes(id));
+}
+
+// Fallback for a model id the registry doesn't know but a provider may still serve
+export function createAdHocModel(provider: ModelProviderId, providerModel: string): ModelDefinition {
+  const known = getModelDefinitions().find(
+    model => model.provider === provider && model.providerModel === providerModel
+  );
+  if (known) return known;
+
+  return {
+    id: provider === "openai-compatible" ? `${OPENAI_COMPATIBLE_PREFIX}${providerModel}` : providerModel,
+    label: providerModel,
+    provider,
+    providerModel,
+    capabilities: provider === "gemini" ? GEMINI
+      : provider === "anthropic" ? ANTHROPIC
+      : provider === "openai" ? OPENAI
+      : getOpenAICompatibleCapabilities(),
+  };
+}
@@ -0,0 +1,171 @@
+import { prepareMessages } from "./messages";
+import {
+  createAdHocModel,
+  DEFAULT_PROVIDER_MODELS,
+  findModelDefinition,
+  getModelDefinitions,
+  OPENAI_COMPATIBLE_PREFIX,
+} from "./model-registry";
+import { AnthropicProvider } from "./providers/anthropic-provider";
+import { GeminiProvider } from "./providers/gemini-provider";
+import { OpenAIProvider } from "./providers/openai-provider";
+import type {
+  ModelDefinition,
+  ModelProvider,
+  ModelProviderId,
+  ModelRequest,
+  ModelResponse,
+  ModelStreamEvent,
+  ToolCall,
+} from "./types";
+
+// What to set to enable each provider, for error messages
+const PROVIDER_SETTINGS: Record<ModelProviderId, string> = {
+  "gemini": "GEMINI_API_KEY",
+  "anthropic": "ANTHROPIC_API_KEY",
+  "openai": "OPENAI_API_KEY",
+  "openai-compatible": "OPENAI_COMPATIBLE_BASE_URL",
+};
+
+// Provider-native model names that aren't in the registry are routed by prefix
+const PROVIDER_PREFIXES: Array<[RegExp, ModelProviderId]> = [
+  [/^gemini-/, "gemini"],
+  [/^claude-/, "anthropic"],
+  [/^(gpt-|o\d)/, "openai"],
+];
+
+export class ModelNotFoundError extends Error {
+  constructor(modelId: string) {
+    super(`Unsupported model: ${modelId}`);
+    this.name = "ModelNotFoundError";
+  }
+}
+
+export class ModelUnavailableError extends Error {
+  constructor(model: ModelDefinition) {
+    super(`${model.label} is not available. Set ${PROVIDER_SETTINGS[model.provider]} in your .env.local file.`);
+    this.name = "ModelUnavailableError";
+  }
+}
+
+export interface ModelListing extends ModelDefinition {
+  available: boolean;
+}
+
+/**
+ * Single entry point for chat completions. Resolves a model id through the
+ * registry and hands the request to that provider's adapter, so callers
+ * (the chat route, LangGraph agents) never talk to a provider SDK directly.
+ */
+export class ModelRouter {
+  private static instance: ModelRouter;
+  private providers: Map<ModelProviderId, ModelProvider>;
+
+  private constructor() {
+    this.providers = new Map<ModelProviderId, ModelProvider>([
+      ["gemini", new GeminiProvider()],
+      ["anthropic", new AnthropicProvider()],
+      ["openai", new OpenAIProvider({ id: "openai", apiKeyEnv: "OPENAI_API_KEY" })],
+      ["openai-compatible", new OpenAIProvider({
+        id: "openai-compatible",
+        apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY",
+        baseURLEnv: "OPENAI_COMPATIBLE_BASE_URL",
+      })],
+    ]);
+  }
+
+  static getInstance(): ModelRouter {
+    if (!ModelRouter.instance) {
+      ModelRouter.instance = new ModelRouter();
+    }
+    return ModelRouter.instance;
+  }
+
+  listModels(): ModelListing[] {
+    return getModelDefinitions().map(model => ({
+      ...model,
+      available: this.getProvider(model.provider).isConfigured(),
+    }));
+  }
+
+  resolveModel(modelId: string): ModelDefinition {
+    const known = findModelDefinition(modelId);
+    if (known) return known;
+
+    if (modelId.startsWith(OPENAI_COMPATIBLE_PREFIX)) {
+      return createAdHocModel("openai-compatible", modelId.slice(OPENAI_COMPATIBLE_PREFIX.length));
+    }
+    const match = PROVIDER_PREFIXES.find(([pattern]) => pattern.test(modelId));
+    if (match) {
+      return createAdHocModel(match[1], modelId);
+    }
+
+    throw new ModelNotFoundError(modelId);
+  }
+
+  /**
+   * Model id for a LangGraph agent. AGENT_MODEL overrides every agent (e.g. to
+   * run workflows against a local server); otherwise the agent's own choice
+   * or its provider's default is used.
+   */
+  resolveAgentModel(provider: ModelProviderId, modelName?: string): string {
+    if (process.env.AGENT_MODEL) return process.env.AGENT_MODEL;
+    if (modelName) {
+      return provider === "openai-compatible" ? `${OPENAI_COMPATIBLE_PREFIX}${modelName}` : modelName;
+    }
+    if (provider === "openai-compatible") {
+      const local = getModelDefinitions().find(model => model.provider === "openai-compatible");
+      if (!local) {
+        throw new Error("No local models configured. Set OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODELS.");
+      }
+      return local.id;
+    }
+    return DEFAULT_PROVIDER_MODELS[provider];
+  }
+
+  // Resolve a model and check its provider is configured
+  requireModel(modelId: string): ModelDefinition {
+    const model = this.resolveModel(modelId);
+    if (!this.getProvider(model.provider).isConfigured()) {
+      throw new ModelUnavailableError(model);
+    }
+    return model;
+  }
+
+  async *stream(request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const model = this.requireModel(request.model);
+
+    yield* this.getProvider(model.provider).stream(model, {
+      ...request,
+      messages: prepareMessages(request.messages, model.capabilities),
+      tools: model.capabilities.tools ? request.tools : undefined,
+    });
+  }
+
+  // Non-streaming convenience for callers that only need the final message
+  async generate(request: ModelRequest): Promise<ModelResponse> {
+    let text = "";
+    const toolCalls: ToolCall[] = [];
+    let response: ModelResponse = { text, toolCalls, finishReason: "stop" };
+
+    for await (const event of this.stream(request)) {
+      if (event.type === "text") {
+        text += event.text;
+      } else if (event.type === "tool_call") {
+        toolCalls.push(event.call);
+      } else {
+        response = { text, toolCalls, finishReason: event.finishReason, usage: event.usage };
+      }
+    }
+
+    return { ...response, text };
+  }
+
+  private getProvider(id: ModelProviderId): ModelProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`No adapter registered for provider ${id}`);
+    }
+    return provider;
+  }
+}
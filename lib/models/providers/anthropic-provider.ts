@@ -0,0 +1,158 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { attachmentPlaceholder, parseToolArguments, toContentParts } from "../messages";
+import type {
+  ChatMessage,
+  FinishReason,
+  ModelDefinition,
+  ModelProvider,
+  ModelRequest,
+  ModelStreamEvent,
+} from "../types";
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 8192;
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+function toMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      const content = toContentParts(message.content).map((part): Anthropic.ContentBlockParam => {
+        if (part.type === "inline" && IMAGE_MIME_TYPES.includes(part.mimeType)) {
+          return {
+            type: "image",
+            source: { type: "base64", media_type: part.mimeType as Anthropic.Base64ImageSource["media_type"], data: part.data },
+          };
+        }
+        if (part.type === "inline" && part.mimeType === "application/pdf") {
+          return { type: "document", source: { type: "base64", media_type: "application/pdf", data: part.data } };
+        }
+        return part.type === "text" ? part : attachmentPlaceholder(part);
+      });
+      result.push({ role: "user", content });
+    } else if (message.role === "assistant") {
+      const content: Anthropic.ContentBlockParam[] = [
+        ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+        ...(message.toolCalls || []).map(call => ({
+          type: "tool_use" as const,
+          id: call.id,
+          name: call.name,
+          input: call.args,
+        })),
+      ];
+      if (content.length > 0) result.push({ role: "assistant", content });
+    } else {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+        is_error: message.isError,
+      };
+      // Results for parallel tool calls share one user turn
+      const previous = result[result.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content) && previous.content.every(b => b.type === "tool_result")) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    }
+  }
+
+  return result;
+}
+
+function toFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "tool_use":
+      return "tool-calls";
+    case "max_tokens":
+      return "length";
+    case "refusal":
+      return "content-filter";
+    default:
+      return "other";
+  }
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly id = "anthropic" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  async *stream(model: ModelDefinition, request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+    const stream = await client.messages.create(
+      {
+        model: model.providerModel,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.system ? { system: request.system } : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: (tool.parameters as Anthropic.Tool.InputSchema) || { type: "object", properties: {} },
+              })),
+            }
+          : {}),
+        messages: toMessages(request.messages),
+        stream: true,
+      },
+      { signal: request.signal }
+    );
+
+    // Tool input arrives as JSON fragments per content block
+    const pendingTools = new Map<number, { id: string; name: string; json: string }>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let stopReason: string | null = null;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          inputTokens = event.message.usage.input_tokens;
+          outputTokens = event.message.usage.output_tokens;
+          break;
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            pendingTools.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            yield { type: "text", text: event.delta.text };
+          } else if (event.delta.type === "input_json_delta") {
+            const tool = pendingTools.get(event.index);
+            if (tool) tool.json += event.delta.partial_json;
+          }
+          break;
+        case "content_block_stop": {
+          const tool = pendingTools.get(event.index);
+          if (tool) {
+            pendingTools.delete(event.index);
+            yield { type: "tool_call", call: { id: tool.id, name: tool.name, args: parseToolArguments(tool.json) } };
+          }
+          break;
+        }
+        case "message_delta":
+          stopReason = event.delta.stop_reason;
+          outputTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    yield {
+      type: "finish",
+      finishReason: toFinishReason(stopReason),
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  }
+}
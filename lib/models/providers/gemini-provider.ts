@@ -0,0 +1,208 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type FunctionDeclarationSchema,
+  type Part,
+} from "@google/generative-ai";
+import { createToolCallId, toContentParts } from "../messages";
+import type {
+  ChatMessage,
+  FinishReason,
+  ModelDefinition,
+  ModelProvider,
+  ModelRequest,
+  ModelStreamEvent,
+  ToolDefinition,
+} from "../types";
+
+// JSON Schema keywords Gemini's OpenAPI subset understands; everything else is dropped
+const SUPPORTED_STRING_FORMATS = ["enum", "date-time"];
+const SUPPORTED_NUMBER_FORMATS = ["int32", "int64", "float", "double"];
+
+/**
+ * Convert a JSON Schema (e.g. an MCP tool inputSchema) into the subset Gemini accepts
+ */
+export function toGeminiSchema(schema: any): any {
+  if (!schema || typeof schema !== "object") {
+    return undefined;
+  }
+
+  // Collapse unions to their first concrete option
+  if (!schema.type && Array.isArray(schema.anyOf || schema.oneOf)) {
+    const options = (schema.anyOf || schema.oneOf).filter((option: any) => option?.type !== "null");
+    const nullable = options.length < (schema.anyOf || schema.oneOf).length;
+    const converted = toGeminiSchema({ description: schema.description, ...options[0] });
+    return nullable && converted ? { ...converted, nullable: true } : converted;
+  }
+
+  let type = schema.type;
+  let nullable = schema.nullable === true;
+  if (Array.isArray(type)) {
+    nullable = nullable || type.includes("null");
+    type = type.find((t: string) => t !== "null");
+  }
+  if (!type) {
+    type = schema.properties ? "object" : schema.items ? "array" : "string";
+  }
+
+  const result: any = { type };
+  if (schema.description) result.description = schema.description;
+  if (nullable) result.nullable = true;
+
+  switch (type) {
+    case "string":
+      if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        result.enum = schema.enum.map(String);
+        result.format = "enum";
+      } else if (SUPPORTED_STRING_FORMATS.includes(schema.format)) {
+        result.format = schema.format;
+      }
+      break;
+    case "number":
+    case "integer":
+      if (SUPPORTED_NUMBER_FORMATS.includes(schema.format)) {
+        result.format = schema.format;
+      }
+      break;
+    case "array":
+      result.items = toGeminiSchema(schema.items) || { type: "string" };
+      break;
+    case "object": {
+      const properties: Record<string, any> = {};
+      for (const [key, value] of Object.entries(schema.properties || {})) {
+        const converted = toGeminiSchema(value);
+        if (converted) properties[key] = converted;
+      }
+      result.properties = properties;
+      if (Array.isArray(schema.required)) {
+        const required = schema.required.filter((key: string) => key in properties);
+        if (required.length > 0) result.required = required;
+      }
+      break;
+    }
+  }
+
+  return result;
+}
+
+function toFunctionDeclaration(tool: ToolDefinition): FunctionDeclaration {
+  const declaration: FunctionDeclaration = {
+    name: tool.name,
+    description: tool.description,
+  };
+
+  const parameters = toGeminiSchema(tool.parameters);
+  if (parameters?.properties && Object.keys(parameters.properties).length > 0) {
+    declaration.parameters = parameters as FunctionDeclarationSchema;
+  }
+  return declaration;
+}
+
+function toContents(messages: ChatMessage[]): Content[] {
+  const contents: Content[] = [];
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      const parts: Part[] = toContentParts(message.content).map(part => {
+        if (part.type === "inline") return { inlineData: { mimeType: part.mimeType, data: part.data } };
+        if (part.type === "file") return { fileData: { mimeType: part.mimeType, fileUri: part.uri } };
+        return { text: part.text };
+      });
+      contents.push({ role: "user", parts });
+    } else if (message.role === "assistant") {
+      const parts: Part[] = [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.args } })),
+      ];
+      if (parts.length > 0) contents.push({ role: "model", parts });
+    } else {
+      const part: Part = {
+        functionResponse: {
+          name: message.name,
+          response: { content: message.content, isError: !!message.isError },
+        },
+      };
+      // Answers to parallel calls go back in a single turn
+      const previous = contents[contents.length - 1];
+      if (previous?.role === "function") {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: "function", parts: [part] });
+      }
+    }
+  }
+
+  return contents;
+}
+
+function toFinishReason(reason: string | undefined, hasToolCalls: boolean): FinishReason {
+  if (hasToolCalls) return "tool-calls";
+  switch (reason) {
+    case "STOP":
+    case undefined:
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+      return "content-filter";
+    default:
+      return "other";
+  }
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly id = "gemini" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async *stream(model: ModelDefinition, request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+    const generativeModel = client.getGenerativeModel({
+      model: model.providerModel,
+      ...(request.system ? { systemInstruction: request.system } : {}),
+      ...(request.tools?.length ? { tools: [{ functionDeclarations: request.tools.map(toFunctionDeclaration) }] } : {}),
+      generationConfig: {
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+      },
+    });
+
+    const result = await generativeModel.generateContentStream(
+      { contents: toContents(request.messages) },
+      { signal: request.signal }
+    );
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield { type: "text", text };
+      }
+    }
+
+    const response = await result.response;
+    const functionCalls = response.functionCalls() || [];
+    for (const call of functionCalls) {
+      yield {
+        type: "tool_call",
+        call: { id: createToolCallId(), name: call.name, args: (call.args as Record<string, any>) || {} },
+      };
+    }
+
+    const usage = response.usageMetadata;
+    yield {
+      type: "finish",
+      finishReason: toFinishReason(response.candidates?.[0]?.finishReason, functionCalls.length > 0),
+      usage: usage && {
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: usage.candidatesTokenCount || 0,
+        totalTokens: usage.totalTokenCount || 0,
+      },
+    };
+  }
+}
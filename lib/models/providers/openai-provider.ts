@@ -0,0 +1,171 @@
+import OpenAI from "openai";
+import { attachmentPlaceholder, parseToolArguments, toContentParts } from "../messages";
+import type {
+  ChatMessage,
+  FinishReason,
+  ModelDefinition,
+  ModelProvider,
+  ModelRequest,
+  ModelStreamEvent,
+} from "../types";
+
+type ChatCompletionMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+type ChatCompletionContentPart = OpenAI.Chat.Completions.ChatCompletionContentPart;
+
+function toMessages(messages: ChatMessage[], system?: string): ChatCompletionMessage[] {
+  const result: ChatCompletionMessage[] = system ? [{ role: "system", content: system }] : [];
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      const content = toContentParts(message.content).map((part): ChatCompletionContentPart => {
+        if (part.type === "inline" && part.mimeType.startsWith("image/")) {
+          return { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+        }
+        return part.type === "text" ? part : attachmentPlaceholder(part);
+      });
+      // Plain strings for text-only turns; some compatible servers reject part arrays
+      const textOnly = content.every(part => part.type === "text");
+      result.push({
+        role: "user",
+        content: textOnly ? content.map(part => (part as { text: string }).text).join("\n\n") : content,
+      });
+    } else if (message.role === "assistant") {
+      result.push({
+        role: "assistant",
+        content: message.content || null,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: "function" as const,
+                function: { name: call.name, arguments: JSON.stringify(call.args) },
+              })),
+            }
+          : {}),
+      });
+    } else {
+      result.push({ role: "tool", tool_call_id: message.toolCallId, content: message.content });
+    }
+  }
+
+  return result;
+}
+
+function toFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case "stop":
+      return "stop";
+    case "tool_calls":
+    case "function_call":
+      return "tool-calls";
+    case "length":
+      return "length";
+    case "content_filter":
+      return "content-filter";
+    default:
+      return "other";
+  }
+}
+
+interface OpenAIProviderOptions {
+  id: "openai" | "openai-compatible";
+  apiKeyEnv: string;
+  // Env var holding a custom base URL; required for openai-compatible
+  baseURLEnv?: string;
+}
+
+/**
+ * OpenAI Chat Completions. The same adapter serves any OpenAI-compatible
+ * server (Ollama, LM Studio, vLLM, llama.cpp) via a custom base URL.
+ */
+export class OpenAIProvider implements ModelProvider {
+  readonly id: "openai" | "openai-compatible";
+
+  constructor(private options: OpenAIProviderOptions) {
+    this.id = options.id;
+  }
+
+  isConfigured(): boolean {
+    if (this.options.id === "openai-compatible") {
+      return !!this.getBaseURL();
+    }
+    return !!process.env[this.options.apiKeyEnv];
+  }
+
+  private getBaseURL(): string | undefined {
+    return this.options.baseURLEnv ? process.env[this.options.baseURLEnv] : undefined;
+  }
+
+  async *stream(model: ModelDefinition, request: ModelRequest): AsyncIterable<ModelStreamEvent> {
+    const client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env[this.options.apiKeyEnv] || "not-needed",
+      baseURL: this.getBaseURL(),
+    });
+
+    const stream = await client.chat.completions.create(
+      {
+        model: model.providerModel,
+        messages: toMessages(request.messages, request.system),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map(tool => ({
+                type: "function" as const,
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.parameters || { type: "object", properties: {} },
+                },
+              })),
+            }
+          : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    // Tool calls stream as fragments keyed by index
+    const pendingTools = new Map<number, { id: string; name: string; json: string }>();
+    let finishReason: string | null = null;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = chunk.usage;
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      if (choice.delta.content) {
+        yield { type: "text", text: choice.delta.content };
+      }
+      for (const delta of choice.delta.tool_calls || []) {
+        const tool = pendingTools.get(delta.index) || { id: "", name: "", json: "" };
+        if (delta.id) tool.id = delta.id;
+        if (delta.function?.name) tool.name += delta.function.name;
+        if (delta.function?.arguments) tool.json += delta.function.arguments;
+        pendingTools.set(delta.index, tool);
+      }
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    for (const [index, tool] of Array.from(pendingTools.entries()).sort(([a], [b]) => a - b)) {
+      yield {
+        type: "tool_call",
+        call: { id: tool.id || `call-${index}`, name: tool.name, args: parseToolArguments(tool.json) },
+      };
+    }
+
+    yield {
+      type: "finish",
+      finishReason: pendingTools.size > 0 ? "tool-calls" : toFinishReason(finishReason),
+      usage: usage && {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+    };
+  }
+}
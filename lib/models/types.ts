@@ -0,0 +1,87 @@
+export type ModelProviderId = "gemini" | "anthropic" | "openai" | "openai-compatible";
+
+export interface ModelCapabilities {
+  // Native function/tool calling
+  tools: boolean;
+  // Inline images and other binary parts
+  vision: boolean;
+  // Files uploaded through the Gemini Files API (referenced by URI)
+  fileUris: boolean;
+}
+
+export interface ModelDefinition {
+  // Id the client sends as `model`
+  id: string;
+  label: string;
+  provider: ModelProviderId;
+  // Name the provider's API expects
+  providerModel: string;
+  capabilities: ModelCapabilities;
+  contextWindow?: number;
+  // Older ids that still resolve to this model (e.g. saved chat settings)
+  aliases?: string[];
+}
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  // Base64 data such as a pasted image or an MCP resource blob
+  | { type: "inline"; mimeType: string; data: string }
+  | { type: "file"; mimeType: string; uri: string };
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments
+  parameters?: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export type ChatMessage =
+  | { role: "user"; content: string | ChatContentPart[] }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string; isError?: boolean };
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type FinishReason = "stop" | "tool-calls" | "length" | "content-filter" | "other";
+
+export type ModelStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: ToolCall }
+  | { type: "finish"; finishReason: FinishReason; usage?: TokenUsage };
+
+export interface ModelRequest {
+  model: string;
+  messages: ChatMessage[];
+  system?: string;
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ModelResponse {
+  text: string;
+  toolCalls: ToolCall[];
+  finishReason: FinishReason;
+  usage?: TokenUsage;
+}
+
+/**
+ * Adapter for one provider API. Adapters translate ChatMessages and tools into
+ * the provider's wire format and stream back provider-neutral events.
+ */
+export interface ModelProvider {
+  readonly id: ModelProviderId;
+  isConfigured(): boolean;
+  stream(model: ModelDefinition, request: ModelRequest): AsyncIterable<ModelStreamEvent>;
+}
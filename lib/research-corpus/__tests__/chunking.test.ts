@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { chunkText } from '@/lib/research-corpus/chunking'
+
+describe('chunkText', () => {
+  it('keeps chunks under the Markdown heading they belong to', () => {
+    const text = [
+      'Intro line.',
+      '',
+      '# Setup *guide*',
+      '',
+      'First paragraph.',
+      '',
+      '```',
+      '# not a heading',
+      '',
+      'still code',
+      '```',
+      '',
+      '## Usage',
+      '',
+      'Alpha beta gamma delta.',
+    ].join('\r\n')
+
+    expect(chunkText(text)).toEqual([
+      { position: 0, heading: undefined, content: 'Intro line.' },
+      { position: 1, heading: 'Setup guide', content: 'First paragraph.\n\n```\n# not a heading\n\nstill code\n```' },
+      { position: 2, heading: 'Usage', content: 'Alpha beta gamma delta.' },
+    ])
+  })
+
+  it('breaks long text at sentence ends and overlaps consecutive chunks', () => {
+    const text = 'One two three four five. Six seven eight nine ten. Eleven twelve thirteen.'
+    const chunks = chunkText(text, { size: 40, overlap: 12 })
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'One two three four five.',
+      'four five.\n\nSix seven eight nine ten.',
+      'nine ten.\n\nEleven twelve thirteen.',
+    ])
+    expect(chunks.every(chunk => chunk.content.length <= 40)).toBe(true)
+  })
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n \n')).toEqual([])
+  })
+})
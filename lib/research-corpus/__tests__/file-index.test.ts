@@ -0,0 +1,69 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it, expect } from 'vitest'
+import { runWithAuth } from '@/lib/auth/context'
+import { FileCorpusIndex } from '@/lib/research-corpus/file-index'
+import type { CorpusDocument } from '@/lib/research-corpus/types'
+
+function document(name: string, userId?: string): Omit<CorpusDocument, 'id' | 'createdAt'> {
+  return { name, userId, mimeType: 'text/markdown', origin: 'text', contentHash: `hash-${name}`, charCount: 10, chunkCount: 2 }
+}
+
+const asUser = <T>(id: string, fn: () => Promise<T>) =>
+  runWithAuth({ user: { id, email: `${id}@example.com` }, accessToken: null }, fn)
+
+describe('FileCorpusIndex', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'corpus-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('ranks chunks of the requested documents by similarity', async () => {
+    const index = new FileCorpusIndex(directory)
+    const specs = await index.addDocument(document('specs'), [
+      { position: 0, content: 'Pumps', embedding: [1, 0] },
+      { position: 1, heading: 'Valves', content: 'Valves', embedding: [0.6, 0.8] },
+    ])
+    const notes = await index.addDocument(document('notes'), [
+      { position: 0, content: 'Notes', embedding: [1, 0] },
+    ])
+
+    const matches = await index.search([0, 1], [specs.id], 5)
+    expect(matches.map(match => [match.documentName, match.content, match.similarity])).toEqual([
+      ['specs', 'Valves', 0.8],
+      ['specs', 'Pumps', 0],
+    ])
+    expect(matches.some(match => match.documentId === notes.id)).toBe(false)
+    expect(await index.findByHash('hash-notes')).toEqual(notes)
+  })
+
+  it('keeps each user to their own documents', async () => {
+    const index = new FileCorpusIndex(directory)
+    const saved = await asUser('alice', () => index.addDocument(document('alice-doc', 'alice'), [
+      { position: 0, content: 'Secret', embedding: [1] },
+    ]))
+
+    await asUser('bob', async () => {
+      expect(await index.listDocuments()).toEqual([])
+      expect(await index.search([1], [saved.id], 5)).toEqual([])
+      expect(await index.deleteDocument(saved.id)).toBe(false)
+    })
+
+    await asUser('alice', async () => {
+      expect((await index.listDocuments()).map(doc => doc.name)).toEqual(['alice-doc'])
+      expect(await index.deleteDocument(saved.id)).toBe(true)
+      expect(await index.listDocuments()).toEqual([])
+    })
+  })
+
+  it('refuses to read a corrupt documents index as empty', async () => {
+    await fs.writeFile(path.join(directory, 'documents.json'), '{not json')
+    await expect(new FileCorpusIndex(directory).listDocuments()).rejects.toThrow()
+  })
+})
@@ -0,0 +1,98 @@
+import type { TextChunk } from './types'
+
+// About a page of text: enough context for a citation, small enough to embed precisely
+export const CHUNK_SIZE = 1500
+// Carried over from the previous chunk so a sentence split between chunks is found in both
+export const CHUNK_OVERLAP = 200
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/
+
+// Paragraphs with the Markdown heading they fall under
+function splitSections(text: string): { heading?: string; paragraphs: string[] }[] {
+  const sections: { heading?: string; paragraphs: string[] }[] = [{ paragraphs: [] }]
+  let paragraph: string[] = []
+  let inCodeBlock = false
+
+  const flush = () => {
+    if (paragraph.length > 0) sections[sections.length - 1].paragraphs.push(paragraph.join('\n').trim())
+    paragraph = []
+  }
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trimStart().startsWith('```')) inCodeBlock = !inCodeBlock
+    const heading = !inCodeBlock && line.match(HEADING_PATTERN)
+
+    if (heading) {
+      flush()
+      sections.push({ heading: heading[2].replace(/[*_`]/g, '').trim(), paragraphs: [] })
+    } else if (!line.trim() && !inCodeBlock) {
+      flush()
+    } else {
+      paragraph.push(line)
+    }
+  }
+  flush()
+
+  return sections.filter(section => section.paragraphs.length > 0)
+}
+
+// Pieces of at most `size` characters, broken at sentence ends where possible
+function splitLong(paragraph: string, size: number): string[] {
+  if (paragraph.length <= size) return [paragraph]
+
+  const pieces: string[] = []
+  let current = ''
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > size) {
+      pieces.push(current)
+      current = ''
+    }
+    if (sentence.length > size) {
+      for (let i = 0; i < sentence.length; i += size) pieces.push(sentence.slice(i, i + size))
+    } else {
+      current = current ? `${current} ${sentence}` : sentence
+    }
+  }
+  if (current) pieces.push(current)
+  return pieces
+}
+
+// The end of a chunk, from a word boundary, to start the next one with
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap <= 0 || chunk.length <= overlap) return ''
+  const tail = chunk.slice(-overlap)
+  const boundary = tail.search(/\s/)
+  return boundary === -1 ? tail : tail.slice(boundary + 1)
+}
+
+/**
+ * Split extracted document text into chunks for embedding. Paragraphs are
+ * packed into chunks of up to `size` characters without crossing Markdown
+ * headings; each chunk records its heading, and consecutive chunks of a
+ * section overlap by about `overlap` characters.
+ */
+export function chunkText(text: string, options: { size?: number; overlap?: number } = {}): TextChunk[] {
+  const size = options.size ?? CHUNK_SIZE
+  const overlap = Math.min(options.overlap ?? CHUNK_OVERLAP, Math.floor(size / 2))
+  const chunks: TextChunk[] = []
+
+  for (const section of splitSections(text)) {
+    let current = ''
+    // Whether current has text past the previous chunk's overlap
+    let hasNewText = false
+    const push = () => {
+      chunks.push({ position: chunks.length, heading: section.heading, content: current.trim() })
+      current = overlapTail(current, overlap)
+      hasNewText = false
+    }
+
+    for (const piece of section.paragraphs.flatMap(paragraph => splitLong(paragraph, size - overlap))) {
+      if (hasNewText && current.length + piece.length + 2 > size) push()
+      current = current ? `${current}\n\n${piece}` : piece
+      hasNewText = true
+    }
+    if (hasNewText) push()
+  }
+
+  return chunks
+}
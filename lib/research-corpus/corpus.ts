@@ -0,0 +1,173 @@
+import { createHash } from 'crypto'
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { embedText, embedTexts, isEmbeddingConfigured } from '@/lib/services/embeddings'
+import { chunkText } from './chunking'
+import { CorpusDocumentError, extractDocumentText } from './extract'
+import type { CorpusDocument, CorpusIndex, CorpusMatch, CorpusOrigin, CorpusScope } from './types'
+
+// Keeps one document from costing thousands of embedding calls
+const MAX_CHUNKS_PER_DOCUMENT = 2000
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+const DEFAULT_MATCH_COUNT = 8
+
+let index: CorpusIndex | null = null
+
+/**
+ * Supabase (pgvector) when persistence is configured, otherwise JSON files on
+ * local disk
+ */
+export async function getCorpusIndex(): Promise<CorpusIndex> {
+  if (!index) {
+    if (isPersistenceConfigured()) {
+      const { SupabaseCorpusIndex } = await import('./supabase-index')
+      index = new SupabaseCorpusIndex()
+    } else {
+      const { FileCorpusIndex } = await import('./file-index')
+      index = new FileCorpusIndex()
+    }
+  }
+  return index
+}
+
+// Chunks are embedded with Gemini
+export function isCorpusConfigured(): boolean {
+  return isEmbeddingConfigured()
+}
+
+// Citation URL of a chunk; only resolvable inside this app
+export function corpusSourceUrl(documentId: string, position: number): string {
+  return `corpus://${documentId}/${position}`
+}
+
+export function corpusMatchTitle(match: Pick<CorpusMatch, 'documentName' | 'heading'>): string {
+  return match.heading ? `${match.documentName} › ${match.heading}` : match.documentName
+}
+
+/**
+ * Extract, chunk and embed a document and add it to the user's corpus. The
+ * same text added twice returns the existing document. Throws
+ * CorpusDocumentError for unsupported, empty or oversized documents.
+ */
+export async function addCorpusDocument(input: {
+  name: string
+  mimeType?: string
+  data: Buffer
+  origin: CorpusOrigin
+  sourceUri?: string
+}): Promise<{ document: CorpusDocument; duplicate: boolean }> {
+  if (!isCorpusConfigured()) {
+    throw new Error('GEMINI_API_KEY is not configured')
+  }
+  if (input.data.length > MAX_DOCUMENT_BYTES) {
+    throw new CorpusDocumentError('Documents larger than 20 MB are not supported')
+  }
+
+  const { text, mimeType } = await extractDocumentText(input)
+  const corpus = await getCorpusIndex()
+  const contentHash = createHash('sha256').update(text).digest('hex')
+
+  const existing = await corpus.findByHash(contentHash)
+  if (existing) return { document: existing, duplicate: true }
+
+  const chunks = chunkText(text)
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    throw new CorpusDocumentError(`${input.name} is too long; split it into smaller documents`)
+  }
+  // The heading gives a chunk from the middle of a section its context
+  const embeddings = await embedTexts(
+    chunks.map(chunk => (chunk.heading ? `${chunk.heading}\n\n${chunk.content}` : chunk.content)),
+    'document'
+  )
+
+  const document = await corpus.addDocument({
+    name: input.name,
+    mimeType,
+    origin: input.origin,
+    sourceUri: input.sourceUri,
+    contentHash,
+    charCount: text.length,
+    chunkCount: chunks.length,
+  }, chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })))
+
+  return { document, duplicate: false }
+}
+
+/**
+ * Add a resource of a connected MCP server to the corpus. Text contents are
+ * joined; a PDF blob is transcribed like an uploaded PDF.
+ */
+export async function addMcpResourceToCorpus(input: {
+  serverId: string
+  uri: string
+  name?: string
+}): Promise<{ document: CorpusDocument; duplicate: boolean }> {
+  const { MCPServerManager } = await import('@/lib/mcp/mcp-server-manager')
+  const serverManager = MCPServerManager.getInstance()
+  await serverManager.loadFromConfig()
+
+  const server = serverManager.getServer(input.serverId)
+  if (!server) throw new CorpusDocumentError(`MCP server ${input.serverId} not found`)
+  if (server.status !== 'connected') {
+    await serverManager.connectServer(input.serverId)
+  }
+
+  const contents: any[] = await serverManager.readResource(input.serverId, input.uri) || []
+  const name = input.name || input.uri.split('/').filter(Boolean).pop() || input.uri
+  const texts = contents.filter(content => typeof content.text === 'string').map(content => content.text as string)
+
+  if (texts.length > 0) {
+    const mimeType = contents.find(content => typeof content.text === 'string')?.mimeType
+    return addCorpusDocument({
+      name,
+      mimeType: mimeType && mimeType !== 'text/plain' ? mimeType : 'text/markdown',
+      data: Buffer.from(texts.join('\n\n'), 'utf-8'),
+      origin: 'mcp',
+      sourceUri: input.uri,
+    })
+  }
+
+  const pdf = contents.find(content => typeof content.blob === 'string' && content.mimeType === 'application/pdf')
+  if (pdf) {
+    return addCorpusDocument({
+      name,
+      mimeType: 'application/pdf',
+      data: Buffer.from(pdf.blob, 'base64'),
+      origin: 'mcp',
+      sourceUri: input.uri,
+    })
+  }
+
+  throw new CorpusDocumentError(`Resource ${input.uri} has no text or PDF content`)
+}
+
+export async function listCorpusDocuments(): Promise<CorpusDocument[]> {
+  return (await getCorpusIndex()).listDocuments()
+}
+
+export async function deleteCorpusDocument(documentId: string): Promise<boolean> {
+  return (await getCorpusIndex()).deleteDocument(documentId)
+}
+
+/**
+ * Check the documents of a research scope are the current user's. Throws
+ * CorpusDocumentError naming what's missing; returns the documents.
+ */
+export async function resolveCorpusScope(scope: CorpusScope): Promise<CorpusDocument[]> {
+  if (scope.documentIds.length === 0) {
+    throw new CorpusDocumentError('Select at least one document to research')
+  }
+
+  const documents = await listCorpusDocuments()
+  const selected = documents.filter(document => scope.documentIds.includes(document.id))
+  if (selected.length < new Set(scope.documentIds).size) {
+    throw new CorpusDocumentError('Some selected documents no longer exist')
+  }
+  return selected
+}
+
+// Chunks of the given documents closest to the query, best first
+export async function searchCorpus(query: string, documentIds: string[], limit = DEFAULT_MATCH_COUNT): Promise<CorpusMatch[]> {
+  if (documentIds.length === 0) return []
+  const embedding = await embedText(query, 'query')
+  return (await getCorpusIndex()).search(embedding, documentIds, limit)
+}
@@ -0,0 +1,104 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+
+export class CorpusDocumentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CorpusDocumentError'
+  }
+}
+
+// Read as UTF-8 text; PDFs are transcribed by Gemini
+export const CORPUS_TEXT_MIME_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/x-markdown',
+  'text/csv',
+  'text/html',
+  'application/json',
+  'application/x-yaml',
+  'text/yaml',
+]
+export const CORPUS_MIME_TYPES = [...CORPUS_TEXT_MIME_TYPES, 'application/pdf']
+
+// Browsers often send an empty or generic type for Markdown and plain text
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  yaml: 'text/yaml',
+  yml: 'text/yaml',
+  html: 'text/html',
+  pdf: 'application/pdf',
+}
+
+// Gemini's limit on inline request data
+const MAX_PDF_BYTES = 20 * 1024 * 1024
+const PDF_MODEL = 'gemini-2.0-flash'
+
+export function resolveCorpusMimeType(name: string, mimeType?: string): string | null {
+  const type = mimeType?.split(';')[0].trim().toLowerCase()
+  if (type && CORPUS_MIME_TYPES.includes(type)) return type
+  const extension = name.split('.').pop()?.toLowerCase() || ''
+  return EXTENSION_MIME_TYPES[extension] || null
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<\/(p|div|li|tr|section|article)>|<br\s*\/?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+async function transcribePdf(data: Buffer): Promise<string> {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new CorpusDocumentError('Reading PDFs needs GEMINI_API_KEY')
+  }
+  if (data.length > MAX_PDF_BYTES) {
+    throw new CorpusDocumentError('PDFs larger than 20 MB are not supported')
+  }
+
+  const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model: PDF_MODEL })
+  const result = await model.generateContent([
+    { inlineData: { mimeType: 'application/pdf', data: data.toString('base64') } },
+    {
+      text: 'Transcribe the full text of this document as Markdown. Keep its headings, lists and tables; ' +
+        'describe figures in one sentence each. Output only the transcription.'
+    },
+  ])
+  return result.response.text()
+}
+
+/**
+ * Plain text of a document for chunking. Markdown keeps its headings, which
+ * chunks are labeled with; HTML headings are turned into Markdown ones.
+ * Throws CorpusDocumentError for unsupported or empty documents.
+ */
+export async function extractDocumentText(input: { name: string; mimeType?: string; data: Buffer }): Promise<{ text: string; mimeType: string }> {
+  const mimeType = resolveCorpusMimeType(input.name, input.mimeType)
+  if (!mimeType) {
+    throw new CorpusDocumentError('Unsupported document type. Add PDF, Markdown, text, CSV, JSON, YAML or HTML files.')
+  }
+
+  let text: string
+  if (mimeType === 'application/pdf') {
+    text = await transcribePdf(input.data)
+  } else {
+    text = input.data.toString('utf-8')
+    if (mimeType === 'text/html') text = htmlToText(text)
+  }
+
+  text = text.replace(/\u0000/g, '').replace(/\n{3,}/g, '\n\n').trim()
+  if (!text) {
+    throw new CorpusDocumentError(`No text could be read from ${input.name}`)
+  }
+  return { text, mimeType }
+}
@@ -0,0 +1,128 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { getCurrentUser } from '@/lib/auth'
+import type { CorpusDocument, CorpusIndex, CorpusMatch, EmbeddedChunk } from './types'
+
+const DOCUMENTS_FILE = 'documents.json'
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Local fallback when Supabase isn't configured: a documents index plus one
+ * JSON file of embedded chunks per document, searched by brute force. Fine
+ * for the few hundred chunks of a handful of specs.
+ */
+export class FileCorpusIndex implements CorpusIndex {
+  readonly backend = 'file' as const
+  private directory: string
+  // Serializes read-modify-write of the documents index
+  private indexWrites: Promise<void> = Promise.resolve()
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.RESEARCH_CORPUS_DIR || path.join(process.cwd(), '.research-corpus')
+  }
+
+  async addDocument(document: Omit<CorpusDocument, 'id' | 'createdAt'>, chunks: EmbeddedChunk[]): Promise<CorpusDocument> {
+    const saved: CorpusDocument = { ...document, id: randomUUID(), createdAt: new Date().toISOString() }
+    await this.writeJson(this.chunksFileName(saved.id), chunks)
+    await this.updateDocuments(documents => [...documents, saved])
+    return saved
+  }
+
+  async listDocuments(): Promise<CorpusDocument[]> {
+    const documents = await this.readJson<CorpusDocument[]>(DOCUMENTS_FILE, [])
+    return documents
+      .filter(document => this.isOwned(document))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async findByHash(contentHash: string): Promise<CorpusDocument | undefined> {
+    const documents = await this.listDocuments()
+    return documents.find(document => document.contentHash === contentHash)
+  }
+
+  async deleteDocument(documentId: string): Promise<boolean> {
+    let deleted = false
+    await this.updateDocuments(documents => documents.filter(document => {
+      const matches = document.id === documentId && this.isOwned(document)
+      if (matches) deleted = true
+      return !matches
+    }))
+    if (deleted) {
+      await fs.rm(path.join(this.directory, this.chunksFileName(documentId)), { force: true })
+    }
+    return deleted
+  }
+
+  async search(embedding: number[], documentIds: string[], limit: number): Promise<CorpusMatch[]> {
+    const owned = new Map((await this.listDocuments()).map(document => [document.id, document]))
+    const matches: CorpusMatch[] = []
+
+    for (const documentId of documentIds) {
+      const document = owned.get(documentId)
+      if (!document) continue
+      const chunks = await this.readJson<EmbeddedChunk[]>(this.chunksFileName(documentId), [])
+      for (const chunk of chunks) {
+        matches.push({
+          documentId,
+          documentName: document.name,
+          position: chunk.position,
+          heading: chunk.heading,
+          content: chunk.content,
+          similarity: cosineSimilarity(embedding, chunk.embedding),
+        })
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit)
+  }
+
+  // Local accounts see their own documents; without sign-in everything is shared
+  private isOwned(document: CorpusDocument): boolean {
+    return (document.userId || null) === (getCurrentUser()?.id || null)
+  }
+
+  private chunksFileName(documentId: string): string {
+    return `chunks-${documentId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`
+  }
+
+  private async updateDocuments(update: (documents: CorpusDocument[]) => CorpusDocument[]): Promise<void> {
+    const next = this.indexWrites.catch(() => undefined).then(async () => {
+      const documents = await this.readJson<CorpusDocument[]>(DOCUMENTS_FILE, [])
+      await this.writeJson(DOCUMENTS_FILE, update(documents))
+    })
+    this.indexWrites = next
+    await next
+  }
+
+  private async readJson<T>(fileName: string, fallback: T): Promise<T> {
+    try {
+      const data = await fs.readFile(path.join(this.directory, fileName), 'utf-8')
+      return JSON.parse(data)
+    } catch (error: any) {
+      // Nothing written yet. Anything else (e.g. corrupt JSON) must not be
+      // read as empty, or the next write would drop the whole index
+      if (error.code === 'ENOENT') return fallback
+      throw error
+    }
+  }
+
+  private async writeJson(fileName: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const filePath = path.join(this.directory, fileName)
+    const tempPath = `${filePath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(value), 'utf-8')
+    await fs.rename(tempPath, filePath)
+  }
+}
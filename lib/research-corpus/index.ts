@@ -0,0 +1,36 @@
+/**
+ * Research over user-provided documents. Uploaded files, pasted text and MCP
+ * resources are chunked and embedded into a vector index (pgvector, or local
+ * JSON files without a database) that deep research retrieves from instead
+ * of, or alongside, web search.
+ */
+
+export type {
+  CorpusDocument,
+  CorpusIndex,
+  CorpusMatch,
+  CorpusOrigin,
+  CorpusScope,
+  EmbeddedChunk,
+  ResearchSourceMode,
+  TextChunk
+} from './types'
+export { CHUNK_OVERLAP, CHUNK_SIZE, chunkText } from './chunking'
+export {
+  CORPUS_MIME_TYPES,
+  CorpusDocumentError,
+  extractDocumentText,
+  resolveCorpusMimeType
+} from './extract'
+export {
+  addCorpusDocument,
+  addMcpResourceToCorpus,
+  corpusMatchTitle,
+  corpusSourceUrl,
+  deleteCorpusDocument,
+  getCorpusIndex,
+  isCorpusConfigured,
+  listCorpusDocuments,
+  resolveCorpusScope,
+  searchCorpus
+} from './corpus'
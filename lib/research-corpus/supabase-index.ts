@@ -0,0 +1,140 @@
+import { getSupabase, ownerFilter, withUserId } from '@/lib/database/supabase'
+import { EMBEDDING_MODEL } from '@/lib/services/embeddings'
+import type { CorpusDocument, CorpusIndex, CorpusMatch, EmbeddedChunk } from './types'
+
+interface DocumentRow {
+  id: string
+  user_id: string | null
+  name: string
+  mime_type: string
+  origin: CorpusDocument['origin']
+  source_uri: string | null
+  content_hash: string
+  char_count: number
+  chunk_count: number
+  created_at: string
+}
+
+// Rows per insert; each carries a 768-dimension vector
+const INSERT_BATCH_SIZE = 50
+
+function toDocument(row: DocumentRow): CorpusDocument {
+  return {
+    id: row.id,
+    userId: row.user_id || undefined,
+    name: row.name,
+    mimeType: row.mime_type,
+    origin: row.origin,
+    sourceUri: row.source_uri || undefined,
+    contentHash: row.content_hash,
+    charCount: row.char_count,
+    chunkCount: row.chunk_count,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * research_documents and research_chunks with pgvector similarity search
+ * (see add-research-corpus.sql). Rows are scoped to the current user.
+ */
+export class SupabaseCorpusIndex implements CorpusIndex {
+  readonly backend = 'supabase' as const
+
+  private get db() {
+    const supabase = getSupabase()
+    if (!supabase) throw new Error('Persistence not configured')
+    return supabase
+  }
+
+  async addDocument(document: Omit<CorpusDocument, 'id' | 'createdAt'>, chunks: EmbeddedChunk[]): Promise<CorpusDocument> {
+    const { data, error } = await this.db
+      .from('research_documents')
+      .insert(withUserId({
+        name: document.name,
+        mime_type: document.mimeType,
+        origin: document.origin,
+        source_uri: document.sourceUri || null,
+        content_hash: document.contentHash,
+        char_count: document.charCount,
+        chunk_count: document.chunkCount,
+      }))
+      .select('*')
+      .single()
+    if (error) throw error
+
+    try {
+      for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
+        const { error: chunksError } = await this.db
+          .from('research_chunks')
+          .insert(chunks.slice(i, i + INSERT_BATCH_SIZE).map(chunk => ({
+            document_id: data.id,
+            position: chunk.position,
+            heading: chunk.heading || null,
+            content: chunk.content,
+            embedding: JSON.stringify(chunk.embedding),
+            model: EMBEDDING_MODEL,
+          })))
+        if (chunksError) throw chunksError
+      }
+    } catch (chunksError) {
+      // A document without all its chunks would silently miss matches
+      await this.db.from('research_documents').delete().eq('id', data.id)
+      throw chunksError
+    }
+
+    return toDocument(data as DocumentRow)
+  }
+
+  async listDocuments(): Promise<CorpusDocument[]> {
+    const { data, error } = await this.db
+      .from('research_documents')
+      .select('*')
+      .match(ownerFilter())
+      .order('created_at', { ascending: false })
+    if (error) throw error
+    return (data || []).map(row => toDocument(row as DocumentRow))
+  }
+
+  async findByHash(contentHash: string): Promise<CorpusDocument | undefined> {
+    const { data, error } = await this.db
+      .from('research_documents')
+      .select('*')
+      .match(ownerFilter())
+      .eq('content_hash', contentHash)
+      .limit(1)
+      .maybeSingle()
+    if (error) throw error
+    return data ? toDocument(data as DocumentRow) : undefined
+  }
+
+  async deleteDocument(documentId: string): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('research_documents')
+      .delete()
+      .match(ownerFilter())
+      .eq('id', documentId)
+      .select('id')
+    if (error) throw error
+    return (data?.length || 0) > 0
+  }
+
+  async search(embedding: number[], documentIds: string[], limit: number): Promise<CorpusMatch[]> {
+    if (documentIds.length === 0) return []
+
+    const { data, error } = await this.db.rpc('match_research_chunks', {
+      query_embedding: JSON.stringify(embedding),
+      document_ids: documentIds,
+      match_count: limit,
+    })
+    if (error) throw error
+
+    return (data || []).map((row: any) => ({
+      documentId: row.document_id,
+      documentName: row.document_name,
+      position: row.position,
+      heading: row.heading || undefined,
+      content: row.content,
+      similarity: row.similarity,
+    }))
+  }
+}
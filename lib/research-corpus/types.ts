@@ -0,0 +1,57 @@
+// How a document got into the corpus
+export type CorpusOrigin = 'upload' | 'mcp' | 'text'
+
+// What a research session searches: the web, the user's documents or both
+export type ResearchSourceMode = 'web' | 'corpus' | 'mixed'
+
+export interface CorpusScope {
+  mode: Exclude<ResearchSourceMode, 'web'>
+  documentIds: string[]
+}
+
+export interface CorpusDocument {
+  id: string
+  userId?: string
+  name: string
+  mimeType: string
+  origin: CorpusOrigin
+  sourceUri?: string // MCP resource URI or stored file URL
+  contentHash: string
+  charCount: number
+  chunkCount: number
+  createdAt: string
+}
+
+export interface TextChunk {
+  position: number
+  heading?: string // Nearest Markdown heading above the chunk
+  content: string
+}
+
+export interface EmbeddedChunk extends TextChunk {
+  embedding: number[]
+}
+
+export interface CorpusMatch {
+  documentId: string
+  documentName: string
+  position: number
+  heading?: string
+  content: string
+  similarity: number
+}
+
+/**
+ * Storage backend for corpus documents and their embedded chunks
+ */
+export interface CorpusIndex {
+  readonly backend: 'supabase' | 'file'
+  // The document with its id and createdAt filled in
+  addDocument(document: Omit<CorpusDocument, 'id' | 'createdAt'>, chunks: EmbeddedChunk[]): Promise<CorpusDocument>
+  // The current user's documents, newest first
+  listDocuments(): Promise<CorpusDocument[]>
+  findByHash(contentHash: string): Promise<CorpusDocument | undefined>
+  deleteDocument(documentId: string): Promise<boolean>
+  // Most similar chunks of the given documents, best first
+  search(embedding: number[], documentIds: string[], limit: number): Promise<CorpusMatch[]>
+}
@@ -0,0 +1,97 @@
+/**
+ * Line diff between two research reports, used to compare a session with a
+ * newer run of the same query. Works on the server and in the browser.
+ */
+
+export type ReportDiffOp = 'same' | 'added' | 'removed'
+
+export interface ReportDiffLine {
+  op: ReportDiffOp
+  text: string
+}
+
+// Past this many line pairs the changed middle is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000
+
+function splitLines(report: string): string[] {
+  return report.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd())
+}
+
+/**
+ * Lines of `compare` against `base`: unchanged, added in `compare` or removed
+ * from `base`, in reading order.
+ */
+export function diffReports(base: string, compare: string): ReportDiffLine[] {
+  const a = splitLines(base)
+  const b = splitLines(compare)
+
+  // Common head and tail need no table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const head = a.slice(0, start).map(text => ({ op: 'same' as const, text }))
+  const tail = a.slice(endA).map(text => ({ op: 'same' as const, text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ op: 'removed' as const, text })),
+      ...midB.map(text => ({ op: 'added' as const, text })),
+      ...tail,
+    ]
+  }
+
+  // lengths[i][j]: longest common subsequence of midA[i:] and midB[j:]
+  const width = midB.length + 1
+  const lengths = new Uint32Array((midA.length + 1) * width)
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const middle: ReportDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ op: 'same', text: midA[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ op: 'removed', text: midA[i++] })
+    } else {
+      middle.push({ op: 'added', text: midB[j++] })
+    }
+  }
+  while (i < midA.length) middle.push({ op: 'removed', text: midA[i++] })
+  while (j < midB.length) middle.push({ op: 'added', text: midB[j++] })
+
+  return [...head, ...middle, ...tail]
+}
+
+export interface SourceDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+}
+
+export function diffSources(base: string[], compare: string[]): SourceDiff {
+  const baseSet = new Set(base)
+  const compareSet = new Set(compare)
+  return {
+    added: compare.filter(url => !baseSet.has(url)),
+    removed: base.filter(url => !compareSet.has(url)),
+    unchanged: compare.filter(url => baseSet.has(url)),
+  }
+}
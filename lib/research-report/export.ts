@@ -0,0 +1,258 @@
+import { citedSources } from './report'
+import { ANCHOR_PATTERN } from './verify'
+import type { CitedReport, ReportExportFormat, SourceReference } from './types'
+
+/**
+ * Report exports: Markdown with footnotes, a BibTeX or CSL-JSON bibliography
+ * of the cited sources, and a standalone HTML page. Citation numbers follow
+ * the order sources are first cited in.
+ */
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['json', 'markdown', 'bibtex', 'csl', 'html']
+
+const CSL_TYPES: Record<SourceReference['type'], string> = {
+  academic: 'article-journal',
+  news: 'article-newspaper',
+  blog: 'post-weblog',
+  official: 'webpage',
+  social: 'post',
+  document: 'document',
+  unknown: 'webpage',
+}
+
+function citationNumbers(report: CitedReport): Map<string, number> {
+  return new Map(citedSources(report).map((source, i) => [source.id, i + 1]))
+}
+
+function accessedDate(report: CitedReport): string {
+  return report.generatedAt.slice(0, 10)
+}
+
+function sourceYear(source: SourceReference): number | null {
+  if (!source.date) return null
+  const year = new Date(source.date).getUTCFullYear()
+  return Number.isNaN(year) ? null : year
+}
+
+// YYYY-MM-DD, or null when the date doesn't parse
+function sourceDay(source: SourceReference): string | null {
+  if (!source.date) return null
+  const date = new Date(source.date)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+function plainCitation(source: SourceReference, accessed: string): string {
+  return [
+    source.author,
+    source.title,
+    sourceDay(source),
+    source.origin === 'corpus' ? 'Provided document' : `<${source.url}>`,
+    source.origin === 'corpus' ? null : `(accessed ${accessed})`,
+  ].filter(Boolean).join('. ')
+}
+
+function verificationLines(report: CitedReport): string[] {
+  const { verification } = report
+  if (verification.issues.length === 0) return []
+
+  return [
+    '## Citation check',
+    '',
+    `${verification.citedParagraphs} of ${verification.paragraphs} paragraphs cite sources (${Math.round(verification.coverage * 100)}%).`,
+    '',
+    ...verification.issues.map(issue => `- ${issue.message}: "${issue.excerpt}"`),
+    '',
+  ]
+}
+
+export function reportToMarkdown(report: CitedReport): string {
+  const numbers = citationNumbers(report)
+  const lines = [`# ${report.title}`, '']
+  if (report.question) lines.push(`> ${report.question}`, '')
+
+  for (const paragraph of report.paragraphs) {
+    if (paragraph.kind === 'heading') {
+      lines.push(`${'#'.repeat(Math.min((paragraph.level || 2) + 1, 6))} ${paragraph.text}`, '')
+    } else {
+      // Footnote markers attach to the preceding word
+      lines.push(paragraph.text.replace(/\s*\[@([\w:.-]+)\]/g, (match, id: string) =>
+        numbers.has(id) ? `[^${numbers.get(id)}]` : ''), '')
+    }
+  }
+
+  lines.push(...verificationLines(report))
+
+  const accessed = accessedDate(report)
+  const sources = citedSources(report)
+  if (sources.length > 0) {
+    lines.push(...sources.map((source, i) => `[^${i + 1}]: ${plainCitation(source, accessed)}`), '')
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n'
+}
+
+function escapeBibTeX(value: string): string {
+  return value.replace(/([&%$#_{}])/g, '\\$1').replace(/~/g, '\\textasciitilde{}').replace(/\^/g, '\\textasciicircum{}')
+}
+
+export function reportToBibTeX(report: CitedReport): string {
+  const accessed = accessedDate(report)
+
+  return citedSources(report).map(source => {
+    const fields: [string, string][] = [
+      ['title', `{${escapeBibTeX(source.title)}}`],
+      ...(source.author ? [['author', `{${escapeBibTeX(source.author)}}`] as [string, string]] : []),
+      ...(sourceYear(source) ? [['year', `{${sourceYear(source)}}`] as [string, string]] : []),
+      // corpus:// URLs only resolve inside this app
+      ...(source.origin === 'corpus'
+        ? [['howpublished', '{Provided document}'] as [string, string]]
+        : [
+            ['howpublished', `{\\url{${source.url}}}`],
+            ['url', `{${source.url}}`],
+            ['urldate', `{${accessed}}`],
+          ] as [string, string][]),
+      ['note', `{Source type: ${source.type}}`],
+    ]
+    const body = fields.map(([name, value]) => `  ${name} = ${value}`).join(',\n')
+    return `@misc{${source.id},\n${body}\n}`
+  }).join('\n\n') + '\n'
+}
+
+export function reportToCslJson(report: CitedReport): string {
+  const [year, month, day] = accessedDate(report).split('-').map(Number)
+
+  const items = citedSources(report).map(source => {
+    const issued = source.date ? new Date(source.date) : null
+    return {
+      id: source.id,
+      type: CSL_TYPES[source.type],
+      title: source.title,
+      ...(source.origin === 'corpus' ? {} : { URL: source.url }),
+      ...(source.author ? { author: [{ literal: source.author }] } : {}),
+      ...(issued && !Number.isNaN(issued.getTime())
+        ? { issued: { 'date-parts': [[issued.getUTCFullYear(), issued.getUTCMonth() + 1, issued.getUTCDate()]] } }
+        : {}),
+      accessed: { 'date-parts': [[year, month, day]] },
+    }
+  })
+
+  return JSON.stringify(items, null, 2)
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Bold, italics, code and links of an escaped line; anything else stays text
+function inlineHtml(escaped: string): string {
+  return escaped
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      `<a href="${url}" rel="noopener noreferrer">${label}</a>`)
+}
+
+function paragraphHtml(text: string, numbers: Map<string, number>): string {
+  const cite = (line: string) => inlineHtml(escapeHtml(line)).replace(ANCHOR_PATTERN, (_, id: string) => {
+    const n = numbers.get(id)
+    return n ? `<sup class="cite"><a href="#ref-${n}">[${n}]</a></sup>` : ''
+  })
+
+  const lines = text.split('\n')
+  if (lines.every(line => /^\s*([-*+]|\d+[.)])\s/.test(line))) {
+    const ordered = /^\s*\d/.test(lines[0])
+    const items = lines.map(line => `<li>${cite(line.replace(/^\s*([-*+]|\d+[.)])\s+/, ''))}</li>`).join('')
+    return ordered ? `<ol>${items}</ol>` : `<ul>${items}</ul>`
+  }
+  return `<p>${lines.map(cite).join('<br>')}</p>`
+}
+
+export function reportToHtml(report: CitedReport): string {
+  const numbers = citationNumbers(report)
+  const accessed = accessedDate(report)
+  const flagged = new Map<number, string[]>()
+  for (const issue of report.verification.issues) {
+    flagged.set(issue.paragraph, [...(flagged.get(issue.paragraph) || []), issue.message])
+  }
+
+  const body = report.paragraphs.map((paragraph, index) => {
+    if (paragraph.kind === 'heading') {
+      const level = Math.min((paragraph.level || 2) + 1, 6)
+      return `<h${level}>${inlineHtml(escapeHtml(paragraph.text))}</h${level}>`
+    }
+    const html = paragraphHtml(paragraph.text, numbers)
+    const messages = flagged.get(index)
+    return messages
+      ? `<div class="flagged" title="${escapeHtml(messages.join('; '))}">${html}<p class="flag">${escapeHtml(messages.join(' · '))}</p></div>`
+      : html
+  }).join('\n')
+
+  const references = citedSources(report).map((source, i) => {
+    const details = [source.author, sourceDay(source)]
+      .filter(Boolean)
+      .map(value => escapeHtml(String(value)))
+      .join(', ')
+    const title = source.origin === 'corpus'
+      ? escapeHtml(source.title)
+      : `<a href="${escapeHtml(source.url)}" rel="noopener noreferrer">${escapeHtml(source.title)}</a>`
+    const meta = source.origin === 'corpus' ? 'provided document' : `${source.type}; accessed ${accessed}`
+    return `<li id="ref-${i + 1}">${title}${details ? `, ${details}` : ''} <span class="meta">(${meta})</span></li>`
+  }).join('\n')
+
+  const { verification } = report
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  body { font: 16px/1.6 system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1 { line-height: 1.2; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #d0d7de; color: #57606a; }
+  sup.cite a { text-decoration: none; }
+  .summary { font-size: 0.875rem; color: #57606a; }
+  .flagged { border-left: 3px solid #d4a72c; padding-left: 0.75rem; }
+  .flag { font-size: 0.8rem; color: #9a6700; margin-top: -0.5rem; }
+  .meta { color: #57606a; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+${report.question ? `<blockquote>${escapeHtml(report.question)}</blockquote>\n` : ''}<p class="summary">Generated ${escapeHtml(report.generatedAt.slice(0, 10))} · ${verification.citedParagraphs} of ${verification.paragraphs} paragraphs cited · ${verification.issues.length} flagged</p>
+${body}
+${references ? `<h2>References</h2>\n<ol class="references">\n${references}\n</ol>` : ''}
+</body>
+</html>
+`
+}
+
+const EXPORT_FILES: Record<ReportExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  bibtex: { contentType: 'application/x-bibtex; charset=utf-8', extension: 'bib' },
+  csl: { contentType: 'application/vnd.citationstyles.csl+json', extension: 'csl.json' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+}
+
+// File contents of a report in the given format, for download responses
+export function renderReport(report: CitedReport, format: ReportExportFormat) {
+  const body = format === 'markdown'
+    ? reportToMarkdown(report)
+    : format === 'bibtex'
+      ? reportToBibTeX(report)
+      : format === 'csl'
+        ? reportToCslJson(report)
+        : format === 'html'
+          ? reportToHtml(report)
+          : JSON.stringify(report, null, 2)
+
+  return { body, ...EXPORT_FILES[format] }
+}
@@ -0,0 +1,35 @@
+/**
+ * Citation-grounded research reports. Synthesized text is split into
+ * paragraphs whose citations are anchors to SourceReference ids, checked for
+ * uncited claims, and exported with footnotes or a bibliography.
+ */
+
+export type {
+  CitedParagraph,
+  CitedReport,
+  ReportExportFormat,
+  ReportIssue,
+  ReportIssueKind,
+  ReportVerification,
+  SourceOrigin,
+  SourceReference,
+  SourceType
+} from './types'
+export { buildCitedReport, citedSources } from './report'
+export { verifyReport } from './verify'
+export {
+  classifySourceType,
+  createSourceReference,
+  dedupeSources,
+  scoreSourceCredibility,
+  sourceIdForUrl,
+  sourceOrigin
+} from './sources'
+export {
+  REPORT_EXPORT_FORMATS,
+  renderReport,
+  reportToBibTeX,
+  reportToCslJson,
+  reportToHtml,
+  reportToMarkdown
+} from './export'
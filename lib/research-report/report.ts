@@ -0,0 +1,124 @@
+import { dedupeSources, sourceIdForUrl } from './sources'
+import { ANCHOR_PATTERN, verifyReport } from './verify'
+import type { CitedParagraph, CitedReport, SourceReference } from './types'
+
+// Reference lists the model appends itself; exports add their own bibliography
+const REFERENCE_HEADING = /^(sources|references|bibliography|citations|works cited)\s*:?$/i
+
+// Pandoc groups: [@a; @b] or [@a, @b]
+const ANCHOR_GROUP_PATTERN = /\[(@[\w:.-]+(?:\s*[;,]\s*@[\w:.-]+)+)\]/g
+// Numbered citations as search APIs return them: [1], [1, 2], [1-3]; not link text
+const NUMBERED_PATTERN = /\[(\d+(?:\s*[,–-]\s*\d+)*)\](?!\()/g
+const LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g
+
+function expandNumbers(list: string): number[] {
+  return list.split(/\s*,\s*/).flatMap(part => {
+    const [start, end] = part.split(/\s*[–-]\s*/).map(Number)
+    if (!end || end < start || end - start > 50) return [start]
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+  })
+}
+
+/**
+ * Rewrite the citations of one block as `[@id]` anchors: Pandoc groups are
+ * split, [n] maps to the nth of the `numbered` sources, and Markdown links to
+ * a known source get an anchor after them.
+ */
+function anchorCitations(text: string, known: Set<string>, numbered: (SourceReference | undefined)[]): string {
+  let result = text.replace(ANCHOR_GROUP_PATTERN, (_, group: string) =>
+    group.split(/\s*[;,]\s*/).map(key => `[${key}]`).join(''))
+
+  if (numbered.length > 0) {
+    result = result.replace(NUMBERED_PATTERN, (match, list: string) => {
+      const ids = expandNumbers(list).map(n => numbered[n - 1]?.id)
+      return ids.every(Boolean) ? ids.map(id => `[@${id}]`).join('') : match
+    })
+  }
+
+  return result.replace(LINK_PATTERN, (match, _label: string, url: string) => {
+    const id = sourceIdForUrl(url)
+    return known.has(id) && !result.includes(`[@${id}]`) ? `${match}[@${id}]` : match
+  })
+}
+
+function blockSourceIds(text: string, known: Set<string>): string[] {
+  const ids: string[] = []
+  for (const match of text.matchAll(ANCHOR_PATTERN)) {
+    if (known.has(match[1]) && !ids.includes(match[1])) ids.push(match[1])
+  }
+  return ids
+}
+
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = []
+  let current: string[] = []
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join('\n').trim())
+    current = []
+  }
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      flush()
+    } else if (/^#{1,6}\s/.test(line)) {
+      flush()
+      blocks.push(line.trim())
+    } else {
+      current.push(line)
+    }
+  }
+  flush()
+  return blocks.filter(Boolean)
+}
+
+/**
+ * Turn synthesized text into a report whose paragraphs carry source anchors
+ * resolved against `sources`, and run the verification pass over it.
+ * `numbered` lists the sources [n] citations refer to, in order; that's how
+ * Perplexity cites its search results.
+ */
+export function buildCitedReport(input: {
+  title: string
+  question?: string
+  text: string
+  sources: SourceReference[]
+  numbered?: (SourceReference | undefined)[] // Gaps for numbers with no known source
+}): CitedReport {
+  const numbered = input.numbered || []
+  const sources = dedupeSources([
+    ...numbered.filter((source): source is SourceReference => !!source),
+    ...input.sources,
+  ])
+  const known = new Set(sources.map(source => source.id))
+  const paragraphs: CitedParagraph[] = []
+
+  for (const block of splitBlocks(input.text)) {
+    const heading = block.match(/^(#{1,6})\s+(.*)$/)
+    if (heading) {
+      // A trailing reference list is replaced by the exported bibliography
+      if (REFERENCE_HEADING.test(heading[2].replace(/[*_]/g, '').trim())) break
+      paragraphs.push({ kind: 'heading', level: heading[1].length, text: heading[2].trim(), sourceIds: [] })
+      continue
+    }
+    if (REFERENCE_HEADING.test(block.split('\n')[0].replace(/[*_]/g, '').trim())) break
+
+    const text = anchorCitations(block, known, numbered)
+    paragraphs.push({ kind: 'paragraph', text, sourceIds: blockSourceIds(text, known) })
+  }
+
+  return {
+    title: input.title,
+    question: input.question,
+    generatedAt: new Date().toISOString(),
+    paragraphs,
+    sources,
+    verification: verifyReport(paragraphs, sources),
+  }
+}
+
+// Sources in the order the report first cites them
+export function citedSources(report: CitedReport): SourceReference[] {
+  const byId = new Map(report.sources.map(source => [source.id, source]))
+  const ids = new Set(report.paragraphs.flatMap(paragraph => paragraph.sourceIds))
+  return Array.from(ids, id => byId.get(id)).filter((source): source is SourceReference => !!source)
+}
@@ -0,0 +1,97 @@
+import { normalizeUrl } from '@/lib/search/fusion'
+import type { SourceOrigin, SourceReference, SourceType } from './types'
+
+const TRUSTED_DOMAINS = ['.edu', '.gov', '.org', 'nature.com', 'science.org', 'ieee.org']
+
+// FNV-1a; ids only need to be stable and short, and this runs in the browser too
+function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0')
+}
+
+/**
+ * Id of the source at a URL. The same page gets the same id in every phase
+ * and every run (see normalizeUrl), so anchors survive deduplication.
+ */
+export function sourceIdForUrl(url: string): string {
+  return `src-${hashString(normalizeUrl(url))}`
+}
+
+export function sourceOrigin(url: string): SourceOrigin {
+  return url.startsWith('corpus://') ? 'corpus' : 'web'
+}
+
+export function classifySourceType(url: string): SourceType {
+  if (sourceOrigin(url) === 'corpus') return 'document'
+  if (url.includes('.edu') || url.includes('scholar')) return 'academic'
+  if (url.includes('.gov') || url.includes('.org')) return 'official'
+  if (url.includes('twitter.com') || url.includes('facebook.com')) return 'social'
+  if (url.includes('medium.com') || url.includes('blog')) return 'blog'
+  if (url.includes('news') || url.includes('times.com') || url.includes('post.com')) return 'news'
+  return 'unknown'
+}
+
+// 0-1 from domain authority, recency and whether an author is known
+export function scoreSourceCredibility(source: { url: string; date?: string; author?: string }): number {
+  let score = 0.5
+
+  // Documents the user chose to research are taken as authoritative
+  if (sourceOrigin(source.url) === 'corpus') return 0.9
+
+  if (TRUSTED_DOMAINS.some(domain => source.url.includes(domain))) {
+    score += 0.3
+  }
+
+  if (source.date) {
+    const daysOld = (Date.now() - new Date(source.date).getTime()) / (1000 * 60 * 60 * 24)
+    if (daysOld < 30) score += 0.1
+    else if (daysOld < 365) score += 0.05
+  }
+
+  if (source.author) score += 0.1
+
+  return Math.min(score, 1)
+}
+
+export function createSourceReference(source: {
+  url: string
+  title?: string | null
+  date?: string
+  author?: string
+  relevanceScore?: number
+}): SourceReference {
+  let title = source.title?.trim()
+  if (!title) {
+    try {
+      title = new URL(source.url).hostname.replace(/^www\./, '')
+    } catch {
+      title = source.url
+    }
+  }
+
+  return {
+    id: sourceIdForUrl(source.url),
+    title,
+    url: source.url,
+    credibilityScore: scoreSourceCredibility(source),
+    relevanceScore: source.relevanceScore ?? 0,
+    date: source.date,
+    author: source.author,
+    type: classifySourceType(source.url),
+    origin: sourceOrigin(source.url),
+  }
+}
+
+// First occurrence of each source id wins
+export function dedupeSources(sources: SourceReference[]): SourceReference[] {
+  const seen = new Set<string>()
+  return sources.filter(source => {
+    if (seen.has(source.id)) return false
+    seen.add(source.id)
+    return true
+  })
+}
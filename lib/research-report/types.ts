@@ -0,0 +1,55 @@
+export type SourceType = 'academic' | 'news' | 'blog' | 'official' | 'social' | 'document' | 'unknown'
+
+// Where a source was found: a web search, or the user's own documents (corpus:// URLs)
+export type SourceOrigin = 'web' | 'corpus'
+
+export interface SourceReference {
+  id: string // Stable per URL (see sourceIdForUrl); what report anchors point at
+  title: string
+  url: string
+  credibilityScore: number
+  relevanceScore: number
+  date?: string
+  author?: string
+  type: SourceType
+  origin: SourceOrigin
+}
+
+/**
+ * One block of a report. Citations stay in the text as Pandoc-style anchors,
+ * `[@<source id>]`, at the point they support; sourceIds lists them in order
+ * of first use.
+ */
+export interface CitedParagraph {
+  kind: 'heading' | 'paragraph'
+  level?: number // Headings only
+  text: string
+  sourceIds: string[]
+}
+
+export type ReportIssueKind = 'uncited_paragraph' | 'uncited_claim' | 'unresolved_anchor' | 'weak_sources'
+
+export interface ReportIssue {
+  kind: ReportIssueKind
+  paragraph: number // Index into CitedReport.paragraphs
+  message: string
+  excerpt: string
+}
+
+export interface ReportVerification {
+  issues: ReportIssue[]
+  paragraphs: number // Paragraphs that need citations (headings excluded)
+  citedParagraphs: number
+  coverage: number // citedParagraphs / paragraphs, 0-1
+}
+
+export interface CitedReport {
+  title: string
+  question?: string
+  generatedAt: string
+  paragraphs: CitedParagraph[]
+  sources: SourceReference[]
+  verification: ReportVerification
+}
+
+export type ReportExportFormat = 'json' | 'markdown' | 'bibtex' | 'csl' | 'html'
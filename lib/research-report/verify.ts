@@ -0,0 +1,88 @@
+import type { CitedParagraph, ReportIssue, ReportVerification, SourceReference } from './types'
+
+export const ANCHOR_PATTERN = /\[@([\w:.-]+)\]/g
+
+// Shorter blocks are lead-ins ("In summary:") rather than claims
+const MIN_CLAIM_LENGTH = 40
+// Figures, percentages, years and amounts are what readers check first
+const FIGURE_PATTERN = /\d[\d,.]*\s*(%|percent|million|billion|trillion)|\b(1[5-9]|20)\d{2}\b|[$€£¥]\s?\d|\b\d{2,}[\d,.]*\b/i
+const WEAK_SOURCE_TYPES = new Set<SourceReference['type']>(['social', 'blog'])
+
+function excerpt(text: string, length = 120): string {
+  const plain = text.replace(/\s*\[@[\w:.-]+\]/g, '').replace(/\s+/g, ' ').trim()
+  return plain.length > length ? `${plain.slice(0, length - 1)}…` : plain
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9"'(])/)
+}
+
+/**
+ * Check that the report's claims are grounded: every paragraph cites at
+ * least one source, sentences stating figures carry their own anchor, every
+ * anchor resolves to a known source, and no paragraph rests only on blogs or
+ * social media.
+ */
+export function verifyReport(paragraphs: CitedParagraph[], sources: SourceReference[]): ReportVerification {
+  const byId = new Map(sources.map(source => [source.id, source]))
+  const issues: ReportIssue[] = []
+  let claimParagraphs = 0
+  let citedParagraphs = 0
+
+  paragraphs.forEach((paragraph, index) => {
+    if (paragraph.kind !== 'paragraph') return
+
+    for (const match of paragraph.text.matchAll(ANCHOR_PATTERN)) {
+      if (!byId.has(match[1])) {
+        issues.push({
+          kind: 'unresolved_anchor',
+          paragraph: index,
+          message: `Citation @${match[1]} doesn't match any collected source`,
+          excerpt: excerpt(paragraph.text),
+        })
+      }
+    }
+
+    if (excerpt(paragraph.text, Infinity).length < MIN_CLAIM_LENGTH) return
+    claimParagraphs++
+
+    if (paragraph.sourceIds.length === 0) {
+      issues.push({
+        kind: 'uncited_paragraph',
+        paragraph: index,
+        message: 'Paragraph cites no sources',
+        excerpt: excerpt(paragraph.text),
+      })
+      return
+    }
+    citedParagraphs++
+
+    for (const sentence of splitSentences(paragraph.text)) {
+      if (FIGURE_PATTERN.test(sentence.replace(ANCHOR_PATTERN, '')) && !/\[@[\w:.-]+\]/.test(sentence)) {
+        issues.push({
+          kind: 'uncited_claim',
+          paragraph: index,
+          message: 'Figure stated without a citation in the same sentence',
+          excerpt: excerpt(sentence),
+        })
+      }
+    }
+
+    const cited = paragraph.sourceIds.map(id => byId.get(id)).filter((source): source is SourceReference => !!source)
+    if (cited.length > 0 && cited.every(source => WEAK_SOURCE_TYPES.has(source.type))) {
+      issues.push({
+        kind: 'weak_sources',
+        paragraph: index,
+        message: 'Only supported by blogs or social media',
+        excerpt: excerpt(paragraph.text),
+      })
+    }
+  })
+
+  return {
+    issues,
+    paragraphs: claimParagraphs,
+    citedParagraphs,
+    coverage: claimParagraphs === 0 ? 1 : citedParagraphs / claimParagraphs,
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Cron schedules of research monitors: five fields (minute, hour, day of
+ * month, month, day of week) with lists, ranges, steps and month and weekday
+ * names, or @hourly, @daily, @weekly and @monthly. Times are wall-clock times
+ * in the monitor's IANA time zone.
+ */
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScheduleError'
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number> // 0 is Sunday
+  // Cron matches either day field when both are restricted
+  anyDay: boolean
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, offset: 0 },
+]
+
+// A schedule that never matches (e.g. 30 February) gives up after this many years
+const MAX_SEARCH_YEARS = 5
+
+function parseValue(value: string, field: typeof FIELDS[number]): number {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1
+  const number = index >= 0 ? index + (field.offset ?? 0) : /^\d+$/.test(value) ? Number(value) : NaN
+  if (Number.isNaN(number) || number < field.min || number > field.max) {
+    throw new ScheduleError(`Invalid ${field.name} "${value}"`)
+  }
+  return number
+}
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new ScheduleError(`Invalid step "${stepText}" in ${field.name}`)
+    }
+
+    let start = field.min
+    let end = field.max
+    if (range !== '*') {
+      const [first, last] = range.split('-')
+      start = parseValue(first, field)
+      // "5/15" runs from 5 to the end of the range
+      end = last !== undefined ? parseValue(last, field) : stepText !== undefined ? field.max : start
+      if (end < start) throw new ScheduleError(`Invalid range "${range}" in ${field.name}`)
+    }
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression. Throws ScheduleError naming the invalid field.
+ * Monitors run at most once an hour, so the minute field must be a single
+ * minute.
+ */
+export function parseSchedule(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim()
+  const parts = normalized.split(/\s+/)
+  if (parts.length !== 5) {
+    throw new ScheduleError('Schedules have five fields: minute, hour, day of month, month and day of week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]))
+  if (minutes.size !== 1) {
+    throw new ScheduleError('Monitors run at most once an hour; use a single minute, e.g. "0 9 * * 1"')
+  }
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: parts[2] !== '*' && parts[4] !== '*',
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock fields of a moment in a time zone
+function wallClock(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+    formatters.set(timeZone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]))
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  }
+}
+
+function matchesDay(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(day)
+  const dayOfWeek = schedule.daysOfWeek.has(weekday)
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek
+}
+
+/**
+ * The first time after `after` the schedule matches in the time zone, or
+ * null when it never does. Throws ScheduleError for invalid expressions.
+ */
+export function nextScheduledRun(expression: string, after: Date, timeZone = 'UTC'): Date | null {
+  const schedule = parseSchedule(expression)
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000
+
+  // Start at the next whole minute, then skip ahead a day, an hour or a
+  // minute at a time depending on which field doesn't match
+  let time = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000
+  while (time < limit) {
+    const clock = wallClock(new Date(time), timeZone)
+
+    if (!schedule.months.has(clock.month) || !matchesDay(schedule, clock.day, clock.weekday)) {
+      time += ((23 - clock.hour) * 60 + 60 - clock.minute) * 60_000
+    } else if (!schedule.hours.has(clock.hour)) {
+      time += (60 - clock.minute) * 60_000
+    } else if (!schedule.minutes.has(clock.minute)) {
+      time += 60_000
+    } else {
+      return new Date(time)
+    }
+  }
+
+  return null
+}
+
+// "0 9 * * 1" -> "Mondays at 09:00"; other expressions are returned as written
+export function describeSchedule(expression: string): string {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim()
+  const match = normalized.match(/^(\d+) (\*|\d+) (\*|\d+) \* (\*|\d)$/)
+  if (!match) return expression
+
+  const [, minute, hour, day, weekday] = match
+  const at = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
+  if (hour === '*') return day === '*' && weekday === '*' ? `Hourly at :${minute.padStart(2, '0')}` : expression
+  if (day === '*' && weekday === '*') return `Daily at ${at}`
+  if (day === '*') {
+    const name = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays', 'Sundays'][Number(weekday)]
+    return name ? `${name} at ${at}` : expression
+  }
+  if (weekday === '*') return `Day ${day} of each month at ${at}`
+  return expression
+}
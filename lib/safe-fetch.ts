@@ -0,0 +1,99 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+
+/**
+ * Fetching URLs that come from users (webhooks, media to copy) without
+ * letting them reach the server's own network: the host must resolve to
+ * public addresses only, and every redirect is checked the same way.
+ */
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+const MAX_REDIRECTS = 5
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number)
+  return a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast, reserved and broadcast
+}
+
+// Loopback, private, link-local and other addresses that aren't on the public internet
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+  if (isIP(address) !== 6) return true
+
+  const normalized = address.toLowerCase()
+  // IPv4-mapped and -compatible addresses, e.g. ::ffff:127.0.0.1
+  const embedded = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/)?.[1]
+  if (embedded) return isPrivateIPv4(embedded)
+
+  return normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) || // unique local
+    /^fe[89ab]/.test(normalized) || // link-local
+    /^ff/.test(normalized) // multicast
+}
+
+/**
+ * Parse an http(s) URL and check that its host only resolves to public
+ * addresses. Throws UnsafeUrlError otherwise.
+ */
+export async function assertPublicUrl(url: string | URL): Promise<URL> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new UnsafeUrlError('Invalid URL')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError('Only http and https URLs are allowed')
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    throw new UnsafeUrlError(`Could not resolve ${host}`)
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new UnsafeUrlError(`${host} is not a public address`)
+  }
+
+  return parsed
+}
+
+/**
+ * fetch() for URLs from users: the URL and every redirect it leads to must
+ * pass assertPublicUrl.
+ */
+export async function fetchPublicUrl(url: string | URL, init: RequestInit = {}): Promise<Response> {
+  let current = await assertPublicUrl(url)
+  let request = init
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(current, { ...request, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new UnsafeUrlError('Too many redirects')
+    }
+    current = await assertPublicUrl(new URL(location, current))
+    // "See other" continues with a plain GET
+    if (response.status === 303) request = { ...request, method: 'GET', body: undefined }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { fuseResults, mergeResponses, normalizeUrl } from '@/lib/search/fusion'
+import type { SearchResponse, SearchResult } from '@/lib/search/types'
+
+function result(url: string, provider: SearchResult['providers'][number], extra: Partial<SearchResult> = {}): SearchResult {
+  return { title: url, url, providers: [provider], ...extra }
+}
+
+describe('normalizeUrl', () => {
+  it('ignores scheme, www, fragments, tracking parameters and trailing slashes', () => {
+    expect(normalizeUrl('https://www.Example.com/a/?utm_source=x&b=2&a=1#top')).toBe('example.com/a?a=1&b=2')
+    expect(normalizeUrl('http://example.com/a')).toBe('example.com/a')
+  })
+
+  it('keeps non-default ports and returns invalid URLs trimmed', () => {
+    expect(normalizeUrl('https://example.com:8443/')).toBe('example.com:8443')
+    expect(normalizeUrl(' not a url ')).toBe('not a url')
+  })
+})
+
+describe('fuseResults', () => {
+  it('ranks pages several providers return above single-provider pages', () => {
+    const fused = fuseResults([
+      [result('https://a.com', 'tavily'), result('https://b.com', 'tavily')],
+      [result('https://www.b.com/', 'brave', { snippet: 'a longer snippet' }), result('https://c.com', 'brave')],
+    ])
+
+    expect(fused.map(item => item.url)).toEqual(['https://b.com', 'https://a.com', 'https://c.com'])
+    expect(fused[0].providers).toEqual(['tavily', 'brave'])
+    expect(fused[0].snippet).toBe('a longer snippet')
+  })
+
+  it('counts a page repeated by one provider once', () => {
+    const fused = fuseResults([[result('https://a.com', 'tavily'), result('https://a.com/', 'tavily')]])
+    expect(fused).toHaveLength(1)
+    expect(fused[0].score).toBeCloseTo(1 / 61)
+  })
+})
+
+describe('mergeResponses', () => {
+  it('keeps the first answer and de-duplicates images and questions', () => {
+    const responses: SearchResponse[] = [
+      {
+        query: 'q',
+        results: [result('https://a.com', 'tavily')],
+        images: [{ url: 'https://img.com/1.png' }],
+        relatedQuestions: ['What is it?'],
+        providers: ['tavily'],
+      },
+      {
+        query: 'q',
+        results: [result('https://a.com', 'brave')],
+        answer: 'An answer',
+        images: [{ url: 'https://www.img.com/1.png' }],
+        relatedQuestions: ['what is it? '],
+        providers: ['brave'],
+      },
+    ]
+
+    const merged = mergeResponses('q', responses)
+    expect(merged.answer).toBe('An answer')
+    expect(merged.images).toHaveLength(1)
+    expect(merged.relatedQuestions).toEqual(['What is it?'])
+    expect(merged.providers).toEqual(['tavily', 'brave'])
+    expect(merged.results).toHaveLength(1)
+  })
+})
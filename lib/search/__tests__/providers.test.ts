@@ -0,0 +1,29 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+
+// Providers are cached per process, so each test loads the module afresh
+async function loadSearch() {
+  vi.resetModules()
+  return import('@/lib/search')
+}
+
+describe('mock search provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('is available in tests', async () => {
+    const { getSearchProvider } = await loadSearch()
+    expect(getSearchProvider('mock')).not.toBeNull()
+  })
+
+  it('is not configured in production unless enabled', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    const search = await loadSearch()
+    expect(search.getSearchProvider('mock')).toBeNull()
+    expect(search.resolveSearchProviders(['mock'])).not.toContain('mock')
+
+    vi.stubEnv('SEARCH_MOCK_ENABLED', 'true')
+    const enabled = await loadSearch()
+    expect(enabled.getSearchProvider('mock')).not.toBeNull()
+  })
+})
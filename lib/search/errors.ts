@@ -0,0 +1,13 @@
+import type { SearchProviderId } from './types'
+
+// A provider request failed; status is the HTTP status when there was a response
+export class SearchProviderError extends Error {
+  constructor(
+    public provider: SearchProviderId | null,
+    message: string,
+    public status?: number
+  ) {
+    super(message)
+    this.name = 'SearchProviderError'
+  }
+}
@@ -0,0 +1,97 @@
+import type { SearchImage, SearchProviderId, SearchResponse, SearchResult } from './types'
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+const RRF_K = 60
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i
+
+/**
+ * Key under which two URLs count as the same page: scheme, "www.", default
+ * ports, fragments, tracking parameters and trailing slashes are ignored.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+    const params = [...parsed.searchParams]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+    const query = params.length > 0 ? `?${new URLSearchParams(params)}` : ''
+    const path = parsed.pathname.replace(/\/+$/, '')
+    return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`
+  } catch {
+    return url.trim()
+  }
+}
+
+function mergeResult(into: SearchResult, result: SearchResult) {
+  for (const provider of result.providers) {
+    if (!into.providers.includes(provider)) into.providers.push(provider)
+  }
+  if ((result.snippet?.length || 0) > (into.snippet?.length || 0)) into.snippet = result.snippet
+  into.date ??= result.date
+  into.thumbnail ??= result.thumbnail
+  if (!into.title || into.title === into.url) into.title = result.title
+}
+
+/**
+ * Reciprocal-rank fusion: each result scores the sum of 1 / (k + rank) over
+ * the lists it appears in, so pages several providers rank well come first.
+ * Duplicates (by normalizeUrl) within and across lists are merged.
+ */
+export function fuseResults(lists: SearchResult[][]): SearchResult[] {
+  const fused = new Map<string, SearchResult & { score: number }>()
+
+  for (const list of lists) {
+    const seen = new Set<string>()
+    list.forEach((result, rank) => {
+      const key = normalizeUrl(result.url)
+      const existing = fused.get(key)
+      // A provider repeating a page only counts its best rank
+      const score = seen.has(key) ? 0 : 1 / (RRF_K + rank + 1)
+      seen.add(key)
+
+      if (existing) {
+        existing.score += score
+        mergeResult(existing, result)
+      } else {
+        fused.set(key, { ...result, providers: [...result.providers], score })
+      }
+    })
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score)
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>()
+  return items.filter(item => {
+    const value = key(item)
+    if (seen.has(value)) return false
+    seen.add(value)
+    return true
+  })
+}
+
+/**
+ * One response from several providers' responses, in order of preference:
+ * results are fused, the first written answer is kept, and images and
+ * related questions are de-duplicated.
+ */
+export function mergeResponses(query: string, responses: SearchResponse[]): SearchResponse {
+  const images: SearchImage[] = uniqueBy(responses.flatMap(response => response.images), image => normalizeUrl(image.url))
+  const relatedQuestions = uniqueBy(
+    responses.flatMap(response => response.relatedQuestions),
+    question => question.toLowerCase().trim()
+  )
+  const providers: SearchProviderId[] = responses.flatMap(response => response.providers)
+
+  return {
+    query,
+    results: fuseResults(responses.map(response => response.results)),
+    answer: responses.find(response => response.answer)?.answer,
+    images,
+    relatedQuestions,
+    providers,
+  }
+}
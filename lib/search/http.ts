@@ -0,0 +1,40 @@
+import { SearchProviderError } from './errors'
+import type { SearchProviderId } from './types'
+
+const SEARCH_TIMEOUT = 30 * 1000
+
+// JSON from a provider API; failures become SearchProviderErrors with the status
+export async function fetchSearchJson<T>(
+  provider: SearchProviderId,
+  url: string,
+  init: RequestInit & { signal?: AbortSignal } = {}
+): Promise<T> {
+  const timeout = AbortSignal.timeout(SEARCH_TIMEOUT)
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout
+
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal })
+  } catch (error) {
+    const reason = timeout.aborted ? 'timed out' : error instanceof Error ? error.message : String(error)
+    throw new SearchProviderError(provider, `${provider} search failed: ${reason}`)
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    const reason = response.status === 401 || response.status === 403
+      ? 'the API key was rejected'
+      : response.status === 429
+        ? 'rate limit exceeded'
+        : `${response.status} ${body.slice(0, 200)}`.trim()
+    throw new SearchProviderError(provider, `${provider} search failed: ${reason}`, response.status)
+  }
+
+  return response.json() as Promise<T>
+}
+
+// Providers without a domain filter get site: operators in the query instead
+export function withSiteFilter(query: string, domains?: string[]): string {
+  if (!domains?.length) return query
+  return `${query} (${domains.map(domain => `site:${domain}`).join(' OR ')})`
+}
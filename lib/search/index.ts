@@ -0,0 +1,145 @@
+import { SearchProviderError } from './errors'
+import { mergeResponses } from './fusion'
+import { BraveSearch } from './providers/brave-search'
+import { MockSearch } from './providers/mock-search'
+import { PerplexitySearch } from './providers/perplexity-search'
+import { SearxngSearch } from './providers/searxng-search'
+import { TavilySearch } from './providers/tavily-search'
+import type { SearchProvider, SearchProviderId, SearchProviderInfo, SearchQuery, SearchResponse } from './types'
+
+export type {
+  SearchImage,
+  SearchProvider,
+  SearchProviderId,
+  SearchProviderInfo,
+  SearchQuery,
+  SearchRecency,
+  SearchResponse,
+  SearchResult
+} from './types'
+export { SearchProviderError } from './errors'
+export { fuseResults, mergeResponses, normalizeUrl } from './fusion'
+
+export const SEARCH_PROVIDER_IDS: SearchProviderId[] = ['perplexity', 'tavily', 'brave', 'searxng', 'mock']
+
+const PROVIDER_NAMES: Record<SearchProviderId, string> = {
+  perplexity: 'Perplexity',
+  tavily: 'Tavily',
+  brave: 'Brave Search',
+  searxng: 'SearXNG',
+  mock: 'Mock (fixtures)',
+}
+
+// Used when SEARCH_PROVIDERS is unset: the first of these that is configured
+const DEFAULT_PREFERENCE: SearchProviderId[] = ['perplexity', 'tavily', 'brave', 'searxng']
+
+const cachedProviders = new Map<SearchProviderId, SearchProvider | null>()
+
+function createProvider(id: SearchProviderId): SearchProvider | null {
+  switch (id) {
+    case 'perplexity':
+      return process.env.PERPLEXITY_API_KEY ? new PerplexitySearch() : null
+    case 'tavily':
+      return process.env.TAVILY_API_KEY ? new TavilySearch(process.env.TAVILY_API_KEY) : null
+    case 'brave':
+      return process.env.BRAVE_SEARCH_API_KEY ? new BraveSearch(process.env.BRAVE_SEARCH_API_KEY) : null
+    case 'searxng':
+      return process.env.SEARXNG_URL ? new SearxngSearch(process.env.SEARXNG_URL) : null
+    case 'mock':
+      // Canned results must never pass for web search, so only in tests or when asked for
+      return process.env.NODE_ENV === 'test' || process.env.SEARCH_MOCK_ENABLED === 'true'
+        ? new MockSearch(process.env.SEARCH_MOCK_FIXTURES)
+        : null
+  }
+}
+
+export function isSearchProviderId(value: unknown): value is SearchProviderId {
+  return SEARCH_PROVIDER_IDS.includes(value as SearchProviderId)
+}
+
+// A provider, or null when its API key or URL isn't set
+export function getSearchProvider(id: SearchProviderId): SearchProvider | null {
+  if (!cachedProviders.has(id)) {
+    cachedProviders.set(id, createProvider(id))
+  }
+  return cachedProviders.get(id)!
+}
+
+export function listSearchProviders(): SearchProviderInfo[] {
+  return SEARCH_PROVIDER_IDS.map(id => ({
+    id,
+    name: PROVIDER_NAMES[id],
+    configured: getSearchProvider(id) !== null,
+  }))
+}
+
+/**
+ * Providers for chats that haven't picked their own: SEARCH_PROVIDERS
+ * (comma-separated ids, e.g. "tavily,brave") or else the first configured of
+ * Perplexity, Tavily, Brave and SearXNG. Unconfigured ids are dropped.
+ */
+export function getDefaultSearchProviders(): SearchProviderId[] {
+  const requested = process.env.SEARCH_PROVIDERS?.split(',').map(id => id.trim()).filter(Boolean)
+  if (requested?.length) {
+    const unknown = requested.filter(id => !isSearchProviderId(id))
+    if (unknown.length > 0) {
+      console.warn(`[SEARCH] Unknown SEARCH_PROVIDERS ${unknown.join(', ')}; expected some of ${SEARCH_PROVIDER_IDS.join(', ')}`)
+    }
+    return requested.filter(isSearchProviderId).filter(id => getSearchProvider(id))
+  }
+
+  const first = DEFAULT_PREFERENCE.find(id => getSearchProvider(id))
+  return first ? [first] : []
+}
+
+// The configured subset of a selection, or the defaults when it is empty or unset
+export function resolveSearchProviders(selection?: unknown): SearchProviderId[] {
+  const ids = Array.isArray(selection)
+    ? selection.filter(isSearchProviderId).filter(id => getSearchProvider(id))
+    : []
+  return ids.length > 0 ? ids : getDefaultSearchProviders()
+}
+
+/**
+ * Search with one or more providers at once and merge their results (see
+ * mergeResponses). Providers that fail are listed in `errors` as long as one
+ * succeeds; if all fail, the first failure is thrown.
+ */
+export async function searchWeb(query: SearchQuery, providerIds?: SearchProviderId[]): Promise<SearchResponse> {
+  const providers = (providerIds?.length ? providerIds : getDefaultSearchProviders())
+    .map(id => getSearchProvider(id))
+    .filter((provider): provider is SearchProvider => provider !== null)
+
+  if (providers.length === 0) {
+    throw new SearchProviderError(
+      null,
+      'No web search provider is configured. Set PERPLEXITY_API_KEY, TAVILY_API_KEY, BRAVE_SEARCH_API_KEY or SEARXNG_URL.'
+    )
+  }
+
+  const settled = await Promise.allSettled(providers.map(provider => provider.search(query)))
+  const responses: SearchResponse[] = []
+  const errors: NonNullable<SearchResponse['errors']> = []
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      responses.push(outcome.value)
+    } else {
+      console.error(`[SEARCH] ${providers[i].name} search failed:`, outcome.reason)
+      errors.push({
+        provider: providers[i].id,
+        message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+      })
+    }
+  })
+
+  if (responses.length === 0) {
+    const reason = (settled[0] as PromiseRejectedResult).reason
+    throw reason instanceof SearchProviderError
+      ? reason
+      : new SearchProviderError(providers[0].id, errors[0].message)
+  }
+
+  const response = mergeResponses(query.query, responses)
+  return errors.length > 0 ? { ...response, errors } : response
+}
@@ -0,0 +1,69 @@
+import { fetchSearchJson, withSiteFilter } from '../http'
+import type { SearchProvider, SearchQuery, SearchRecency, SearchResponse } from '../types'
+
+interface BraveResponse {
+  web?: {
+    results: {
+      title: string
+      url: string
+      description?: string
+      page_age?: string
+      age?: string
+      thumbnail?: { src: string }
+    }[]
+  }
+  query?: { altered?: string }
+}
+
+const FRESHNESS: Record<SearchRecency, string> = {
+  day: 'pd',
+  week: 'pw',
+  month: 'pm',
+  year: 'py',
+}
+
+// Brave's API returns at most 20 results per request
+const MAX_COUNT = 20
+
+/**
+ * Brave Search API, an independent web index. Results only, no written
+ * answer. Needs BRAVE_SEARCH_API_KEY.
+ */
+export class BraveSearch implements SearchProvider {
+  readonly id = 'brave' as const
+  readonly name = 'Brave Search'
+
+  constructor(private apiKey: string) {}
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const params = new URLSearchParams({
+      q: withSiteFilter(query.query, query.domains),
+      count: String(Math.min(query.maxResults || 10, MAX_COUNT)),
+    })
+    if (query.recency) params.set('freshness', FRESHNESS[query.recency])
+
+    const data = await fetchSearchJson<BraveResponse>(this.id, `https://api.search.brave.com/res/v1/web/search?${params}`, {
+      headers: {
+        'Accept': 'application/json',
+        'X-Subscription-Token': this.apiKey,
+      },
+      signal: query.signal,
+    })
+
+    return {
+      query: query.query,
+      results: (data.web?.results || []).map(result => ({
+        title: result.title,
+        url: result.url,
+        // Descriptions highlight matches with <strong>
+        snippet: result.description?.replace(/<\/?strong>/g, ''),
+        date: result.page_age || result.age,
+        thumbnail: result.thumbnail?.src,
+        providers: [this.id],
+      })),
+      images: [],
+      relatedQuestions: [],
+      providers: [this.id],
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs'
+import defaultFixtures from '../fixtures/mock-search.json'
+import type { SearchProvider, SearchQuery, SearchResponse, SearchResult } from '../types'
+
+interface MockFixture {
+  answer?: string
+  results: Omit<SearchResult, 'providers'>[]
+  relatedQuestions?: string[]
+}
+
+interface MockFixtures {
+  // Keyed by lower-cased, trimmed query
+  queries?: Record<string, MockFixture>
+  // For any other query; "{query}" is replaced with the query
+  default?: MockFixture
+}
+
+/**
+ * Canned results for tests and offline development. Reads the JSON file at
+ * SEARCH_MOCK_FIXTURES when set, otherwise lib/search/fixtures/mock-search.json.
+ */
+export class MockSearch implements SearchProvider {
+  readonly id = 'mock' as const
+  readonly name = 'Mock (fixtures)'
+  private fixtures: MockFixtures
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = fixturesPath
+      ? JSON.parse(readFileSync(fixturesPath, 'utf8'))
+      : defaultFixtures
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const key = query.query.toLowerCase().trim()
+    const fixture = this.fixtures.queries?.[key] || this.fixtures.default || { results: [] }
+    const fill = (text: string) => text.split('{query}').join(query.query)
+
+    const results = fixture.results
+      .map(result => ({
+        ...result,
+        title: fill(result.title),
+        url: result.url.split('{query}').join(encodeURIComponent(query.query)),
+        snippet: result.snippet && fill(result.snippet),
+        providers: [this.id],
+      }))
+      .filter(result => !query.domains?.length || query.domains.some(domain => new URL(result.url).hostname.endsWith(domain)))
+
+    return {
+      query: query.query,
+      results: results.slice(0, query.maxResults),
+      answer: fixture.answer && fill(fixture.answer),
+      images: [],
+      relatedQuestions: fixture.relatedQuestions || [],
+      providers: [this.id],
+    }
+  }
+}
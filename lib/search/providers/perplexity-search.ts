@@ -0,0 +1,63 @@
+import { PerplexityClient, type PerplexitySearchOptions } from '@/lib/perplexity-client'
+import { SearchProviderError } from '../errors'
+import type { SearchProvider, SearchQuery, SearchResponse } from '../types'
+
+/**
+ * Perplexity's Sonar models search the web and write an answer with
+ * citations. Uses the existing PerplexityClient, so requests share its queue
+ * and cache. Needs PERPLEXITY_API_KEY.
+ */
+export class PerplexitySearch implements SearchProvider {
+  readonly id = 'perplexity' as const
+  readonly name = 'Perplexity'
+  private client = new PerplexityClient()
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const options: PerplexitySearchOptions = {
+      search_mode: query.mode || 'web',
+      return_images: query.includeImages ?? true,
+      return_related_questions: true,
+    }
+    if (query.recency) options.search_recency_filter = query.recency
+    if (query.domains?.length) options.search_domain_filter = query.domains
+
+    const systemMessage = `You are a helpful AI assistant with access to real-time web search.
+Today's date is ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.
+Always provide the most current and up-to-date information based on search results.
+Always cite your sources when using searched information.
+Format citations as [Source Name](URL) when referencing search results.`
+
+    let response
+    try {
+      response = await this.client.search(
+        [
+          { role: 'system', content: systemMessage },
+          { role: 'user', content: query.query },
+        ],
+        options
+      )
+    } catch (error: any) {
+      throw new SearchProviderError(this.id, error?.message || 'Perplexity search failed', error?.response?.status)
+    }
+
+    // Older responses only carry citation URLs
+    const results = response.search_results?.length
+      ? response.search_results.map(result => ({
+        title: result.title || result.url,
+        url: result.url,
+        snippet: result.snippet,
+        date: result.date,
+        providers: [this.id],
+      }))
+      : (response.citations || []).map(url => ({ title: url, url, providers: [this.id] }))
+
+    return {
+      query: query.query,
+      results: results.slice(0, query.maxResults),
+      answer: response.choices?.[0]?.message?.content || undefined,
+      images: (response.images || []).map(image => ({ url: image.url, title: image.title, source: image.source })),
+      relatedQuestions: response.related_questions || [],
+      providers: [this.id],
+    }
+  }
+}
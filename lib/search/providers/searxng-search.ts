@@ -0,0 +1,60 @@
+import { fetchSearchJson, withSiteFilter } from '../http'
+import type { SearchProvider, SearchQuery, SearchResponse } from '../types'
+
+interface SearxngResponse {
+  results: {
+    title: string
+    url: string
+    content?: string
+    publishedDate?: string | null
+    thumbnail?: string
+    img_src?: string
+  }[]
+  answers?: (string | { answer: string })[]
+  suggestions?: string[]
+}
+
+/**
+ * A SearXNG metasearch instance at SEARXNG_URL, e.g. a local container, so
+ * search works without any API key. The instance must allow the JSON format
+ * (`search.formats: [html, json]` in its settings.yml).
+ */
+export class SearxngSearch implements SearchProvider {
+  readonly id = 'searxng' as const
+  readonly name = 'SearXNG'
+
+  constructor(private baseUrl: string) {}
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const params = new URLSearchParams({
+      q: withSiteFilter(query.query, query.domains),
+      format: 'json',
+      categories: query.mode === 'academic' ? 'science' : 'general',
+    })
+    if (query.recency) params.set('time_range', query.recency)
+
+    const data = await fetchSearchJson<SearxngResponse>(
+      this.id,
+      `${this.baseUrl.replace(/\/+$/, '')}/search?${params}`,
+      { headers: { 'Accept': 'application/json' }, signal: query.signal }
+    )
+
+    const answer = data.answers?.map(item => typeof item === 'string' ? item : item.answer).find(Boolean)
+
+    return {
+      query: query.query,
+      results: data.results.slice(0, query.maxResults || 10).map(result => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content,
+        date: result.publishedDate || undefined,
+        thumbnail: result.thumbnail || result.img_src,
+        providers: [this.id],
+      })),
+      answer,
+      images: [],
+      relatedQuestions: data.suggestions || [],
+      providers: [this.id],
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { fetchSearchJson } from '../http'
+import type { SearchProvider, SearchQuery, SearchResponse } from '../types'
+
+interface TavilyResponse {
+  answer?: string | null
+  results: { title: string; url: string; content?: string; published_date?: string }[]
+  images?: (string | { url: string; description?: string })[]
+}
+
+/**
+ * Tavily's search API, built for LLM grounding: ranked results with page
+ * extracts and a short answer. Needs TAVILY_API_KEY.
+ */
+export class TavilySearch implements SearchProvider {
+  readonly id = 'tavily' as const
+  readonly name = 'Tavily'
+
+  constructor(private apiKey: string) {}
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const data = await fetchSearchJson<TavilyResponse>(this.id, 'https://api.tavily.com/search', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: query.query,
+        search_depth: query.mode === 'academic' ? 'advanced' : 'basic',
+        max_results: query.maxResults || 10,
+        include_answer: true,
+        include_images: query.includeImages ?? true,
+        include_image_descriptions: true,
+        ...(query.recency ? { time_range: query.recency } : {}),
+        ...(query.domains?.length ? { include_domains: query.domains } : {}),
+      }),
+      signal: query.signal,
+    })
+
+    return {
+      query: query.query,
+      results: data.results.map(result => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content,
+        date: result.published_date,
+        providers: [this.id],
+      })),
+      answer: data.answer || undefined,
+      images: (data.images || []).map(image => typeof image === 'string'
+        ? { url: image }
+        : { url: image.url, title: image.description }),
+      relatedQuestions: [],
+      providers: [this.id],
+    }
+  }
+}
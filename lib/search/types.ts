@@ -0,0 +1,63 @@
+/**
+ * Web search behind one interface. Providers are picked per chat (see
+ * lib/search/index.ts); when several are enabled their results are merged
+ * with reciprocal-rank fusion (lib/search/fusion.ts).
+ */
+
+export type SearchProviderId = 'perplexity' | 'tavily' | 'brave' | 'searxng' | 'mock'
+
+export type SearchRecency = 'day' | 'week' | 'month' | 'year'
+
+export interface SearchQuery {
+  query: string
+  mode?: 'web' | 'academic'
+  recency?: SearchRecency
+  // Only return results from these domains
+  domains?: string[]
+  maxResults?: number
+  includeImages?: boolean
+  signal?: AbortSignal
+}
+
+export interface SearchResult {
+  title: string
+  url: string
+  snippet?: string
+  date?: string
+  thumbnail?: string
+  // Every provider that returned the result, best-ranked first
+  providers: SearchProviderId[]
+  // Fused score; only set on merged responses
+  score?: number
+}
+
+export interface SearchImage {
+  url: string
+  title?: string
+  source?: string
+}
+
+export interface SearchResponse {
+  query: string
+  // Best first
+  results: SearchResult[]
+  // Written answer from providers that synthesise one (Perplexity, Tavily)
+  answer?: string
+  images: SearchImage[]
+  relatedQuestions: string[]
+  providers: SearchProviderId[]
+  // Providers that failed while others answered
+  errors?: { provider: SearchProviderId; message: string }[]
+}
+
+export interface SearchProvider {
+  id: SearchProviderId
+  name: string
+  search(query: SearchQuery): Promise<SearchResponse>
+}
+
+export interface SearchProviderInfo {
+  id: SearchProviderId
+  name: string
+  configured: boolean
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { ChatImportError, parseImportFile } from '@/lib/services/chat-import'
+
+const toBuffer = (json: unknown) => Buffer.from(JSON.stringify(json))
+
+function chatGPTNode(id: string, parent: string | null, children: string[], role?: string, text?: string) {
+  return {
+    id,
+    parent,
+    children,
+    message: role ? { author: { role }, create_time: 1767225600, content: { content_type: 'text', parts: [text] } } : null,
+  }
+}
+
+describe('parseImportFile', () => {
+  it('keeps visible ChatGPT turns and attaches them to their nearest kept ancestor', async () => {
+    const conversation = {
+      id: 'conv',
+      title: 'Trip',
+      create_time: 1767225600,
+      current_node: 'a2',
+      mapping: {
+        root: chatGPTNode('root', null, ['sys']),
+        sys: chatGPTNode('sys', 'root', ['u1'], 'system', 'You are helpful'),
+        u1: chatGPTNode('u1', 'sys', ['a1', 'a2'], 'user', 'Hello'),
+        a1: chatGPTNode('a1', 'u1', [], 'assistant', 'Hi'),
+        a2: chatGPTNode('a2', 'u1', [], 'assistant', 'Hi again'),
+      },
+    }
+
+    const { source, bundle } = await parseImportFile(toBuffer([conversation]))
+    const [chat] = bundle.chats
+
+    expect(source).toBe('chatgpt')
+    expect(chat.chat.title).toBe('Trip')
+    expect(chat.chat.active_leaf_id).toBe('a2')
+    expect(chat.messages.map(message => [message.id, message.parent_id])).toEqual([
+      ['u1', null],
+      ['a1', 'u1'],
+      ['a2', 'u1'],
+    ])
+  })
+
+  it('stops at cycles in a ChatGPT mapping', async () => {
+    const conversation = {
+      id: 'loop',
+      // x and y are each other's parent
+      current_node: 'x',
+      mapping: {
+        root: chatGPTNode('root', null, ['u1']),
+        u1: chatGPTNode('u1', 'root', ['a1'], 'user', 'Question'),
+        a1: chatGPTNode('a1', 'u1', ['u1'], 'assistant', 'Answer'),
+        x: chatGPTNode('x', 'y', [], 'tool', 'Output'),
+        y: chatGPTNode('y', 'x', ['x'], 'tool', 'Output'),
+      },
+    }
+
+    const { bundle } = await parseImportFile(toBuffer(conversation))
+    const [chat] = bundle.chats
+
+    expect(chat.messages.map(message => [message.id, message.parent_id])).toEqual([
+      ['u1', null],
+      ['a1', 'u1'],
+    ])
+    expect(chat.chat.active_leaf_id).toBeNull()
+  })
+
+  it('reads linear and branched Claude exports from a ZIP', async () => {
+    const zip = new JSZip()
+    zip.file('conversations.json', JSON.stringify([{
+      uuid: 'claude-chat',
+      name: 'Notes',
+      created_at: '2026-01-01T00:00:00Z',
+      chat_messages: [
+        { uuid: 'h1', sender: 'human', text: 'Summarise', created_at: '2026-01-01T00:00:01Z' },
+        { uuid: 'b1', sender: 'assistant', text: 'Summary', created_at: '2026-01-01T00:00:02Z' },
+        { uuid: 'h2', sender: 'human', text: 'Shorter', parent_message_uuid: 'b1', created_at: '2026-01-01T00:00:03Z',
+          attachments: [{ file_name: 'notes.txt', extracted_content: 'text' }] },
+        { uuid: 'h2b', sender: 'human', content: [{ type: 'text', text: 'Longer' }], parent_message_uuid: 'b1' },
+      ],
+    }]))
+
+    const { source, bundle } = await parseImportFile(await zip.generateAsync({ type: 'nodebuffer' }))
+    const [chat] = bundle.chats
+
+    expect(source).toBe('claude')
+    expect(chat.chat.active_leaf_id).toBe('h2b')
+    expect(chat.messages.map(message => message.parent_id)).toEqual([null, 'h1', 'b1', 'b1'])
+    expect(chat.messages[2].content).toContain('**notes.txt**')
+    // Without a date a message takes its predecessor's
+    expect(chat.messages[3].created_at).toBe(chat.messages[2].created_at)
+  })
+
+  it('accepts this app\'s exports and rejects newer versions and unknown files', async () => {
+    const bundle = { format: 'geminichatbot-chats', version: 1, exported_at: '2026-01-01T00:00:00Z', chats: [] }
+    await expect(parseImportFile(toBuffer(bundle))).resolves.toMatchObject({ source: 'geminichatbot' })
+    await expect(parseImportFile(toBuffer({ ...bundle, version: 99 }))).rejects.toThrow(ChatImportError)
+    await expect(parseImportFile(toBuffer({ hello: 'world' }))).rejects.toThrow(ChatImportError)
+    await expect(parseImportFile(Buffer.from('not json'))).rejects.toThrow('The file is not valid JSON')
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { parseItemRefs } from '@/lib/services/collections'
+
+describe('parseItemRefs', () => {
+  it('keeps only the type and id of each ref', () => {
+    expect(parseItemRefs([
+      { type: 'image', id: 'img-1', position: 3 },
+      { type: 'chat', id: 'chat-1' },
+    ])).toEqual([
+      { type: 'image', id: 'img-1' },
+      { type: 'chat', id: 'chat-1' },
+    ])
+    expect(parseItemRefs([])).toEqual([])
+  })
+
+  it('rejects the whole list when any ref is invalid', () => {
+    expect(parseItemRefs({ type: 'image', id: 'img-1' })).toBeNull()
+    expect(parseItemRefs([{ type: 'image', id: 'img-1' }, { type: 'document', id: 'doc-1' }])).toBeNull()
+    expect(parseItemRefs([{ type: 'video', id: 42 }])).toBeNull()
+    expect(parseItemRefs([null])).toBeNull()
+  })
+})
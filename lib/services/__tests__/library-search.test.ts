@@ -0,0 +1,83 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import { searchLibrary } from '@/lib/services/library-search'
+
+const rpc = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/database/supabase', () => ({
+  getSupabase: () => ({ rpc }),
+  isPersistenceConfigured: () => true,
+  ownerFilter: () => ({}),
+}))
+vi.mock('@/lib/services/embeddings', () => ({
+  EMBEDDING_MODEL: 'test-embedding',
+  embedText: async () => [0.1, 0.2],
+  embedTexts: async () => [],
+  hashEmbeddingInput: () => 'hash',
+  isEmbeddingConfigured: () => true,
+}))
+
+function row(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    item_type: 'message',
+    item_id: id,
+    chat_id: 'chat-1',
+    chat_title: 'Garden',
+    role: 'user',
+    content: `Content of ${id}`,
+    url: null,
+    thumbnail_url: null,
+    model: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...fields,
+  }
+}
+
+// search_library answers full-text queries, match_library_embeddings semantic ones
+function serve(textRows: unknown[], semanticRows: unknown[] = []) {
+  rpc.mockImplementation(async (name: string) => ({
+    data: name === 'search_library' ? textRows : semanticRows,
+    error: null,
+  }))
+}
+
+describe('searchLibrary', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  it('turns ts_headline markers into highlight ranges', async () => {
+    serve([row('m1', { snippet: 'water the \u0002tomatoes\u0003 daily', rank: 0.3 })])
+
+    const { results, semantic } = await searchLibrary({ query: 'tomatoes' })
+    expect(semantic).toBe(false)
+    expect(results[0]).toMatchObject({ id: 'm1', snippet: 'water the tomatoes daily', highlights: [[10, 18]], score: 0.3 })
+  })
+
+  it('highlights query terms in rows without a headline', async () => {
+    serve([row('m1', { content: 'Tomatoes   need\nsun' })])
+
+    const { results } = await searchLibrary({ query: 'tomatoes sun' })
+    expect(results[0]).toMatchObject({ snippet: 'Tomatoes need sun', highlights: [[0, 8], [14, 17]] })
+  })
+
+  it('blends text rank with similarity and adds close semantic-only matches', async () => {
+    serve(
+      [row('text-best', { rank: 0.4 }), row('text-weak', { rank: 0.1 })],
+      [
+        row('text-weak', { similarity: 0.9 }),
+        row('semantic-close', { similarity: 0.7 }),
+        row('semantic-far', { similarity: 0.3 }),
+      ]
+    )
+
+    const { results, semantic } = await searchLibrary({ query: 'tomatoes', semantic: true })
+    expect(semantic).toBe(true)
+    // 0.5 * rank / best rank + 0.5 * similarity
+    expect(results.map(result => result.id)).toEqual(['text-weak', 'text-best', 'semantic-close'])
+    expect(results.map(result => result.score)).toEqual([
+      expect.closeTo(0.575),
+      expect.closeTo(0.5),
+      expect.closeTo(0.35),
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { processMediaArchiveJobs, type MediaArchiveJob } from '@/lib/services/media-archival'
+import { storeMediaFromUrl } from '@/lib/storage/media-storage'
+
+interface Query {
+  table: string
+  update?: Record<string, unknown>
+  filters: [string, unknown][]
+}
+
+// Records every query; `respond` decides what each one resolves to
+const db = vi.hoisted(() => ({
+  queries: [] as Query[],
+  respond: (_query: Query): { data: unknown; error: unknown } => ({ data: null, error: null }),
+}))
+
+vi.mock('@/lib/database/supabase', () => {
+  const from = (table: string) => {
+    const query: Query = { table, filters: [] }
+    db.queries.push(query)
+    const builder: any = {
+      select: () => builder,
+      or: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      update: (values: Record<string, unknown>) => { query.update = values; return builder },
+      eq: (column: string, value: unknown) => { query.filters.push([column, value]); return builder },
+      then: (resolve: any, reject: any) => Promise.resolve(db.respond(query)).then(resolve, reject),
+    }
+    return builder
+  }
+  return { supabase: { from }, supabaseAdmin: null, isPersistenceConfigured: () => true }
+})
+vi.mock('@/lib/storage', () => ({ isStorageConfigured: () => true }))
+vi.mock('@/lib/storage/media-storage', () => ({
+  isStoredUrl: () => false,
+  mediaFileExtension: () => 'png',
+  storeMediaFromUrl: vi.fn(),
+}))
+
+function job(overrides: Partial<MediaArchiveJob> = {}): MediaArchiveJob {
+  return {
+    id: 'job-1',
+    media_type: 'image',
+    media_id: 'img-1',
+    field: 'url',
+    source_url: 'https://replicate.delivery/img-1.png',
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2026-01-01T00:00:00.000Z',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// Due jobs are returned by the first query; claims succeed unless `claimable` says otherwise
+function serveJobs(jobs: MediaArchiveJob[], claimable = (_id: unknown) => true) {
+  db.respond = (query) => {
+    if (query.table === 'media_archive_jobs' && !query.update) return { data: jobs, error: null }
+    if (query.update?.status === 'processing') {
+      const id = query.filters.find(([column]) => column === 'id')?.[1]
+      return { data: claimable(id) ? [{ id }] : [], error: null }
+    }
+    return { data: null, error: null }
+  }
+}
+
+const jobUpdates = () => db.queries
+  .filter(query => query.table === 'media_archive_jobs' && query.update && query.update.status !== 'processing')
+  .map(query => query.update)
+
+describe('processMediaArchiveJobs', () => {
+  beforeEach(() => {
+    db.queries = []
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T12:00:00.000Z'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('copies the file and rewrites rows that still point at the provider URL', async () => {
+    serveJobs([job()])
+    vi.mocked(storeMediaFromUrl).mockResolvedValue({ key: 'images/img-1.png', url: '/api/storage/images/img-1.png' })
+
+    await expect(processMediaArchiveJobs()).resolves.toEqual({ processed: 1, archived: 1, retrying: 0, dead: 0 })
+    expect(storeMediaFromUrl).toHaveBeenCalledWith('https://replicate.delivery/img-1.png', 'image', 'images/img-1.png')
+
+    const rewrite = db.queries.find(query => query.table === 'images')!
+    expect(rewrite.update).toEqual({ url: '/api/storage/images/img-1.png' })
+    expect(rewrite.filters).toEqual([['id', 'img-1'], ['url', 'https://replicate.delivery/img-1.png']])
+    expect(jobUpdates()).toEqual([
+      { status: 'done', attempts: 1, archived_url: '/api/storage/images/img-1.png', last_error: null },
+    ])
+  })
+
+  it('backs off failed jobs and moves them to the dead-letter list after the last attempt', async () => {
+    serveJobs([job(), job({ id: 'job-2', media_id: 'img-2', attempts: 5 })])
+    vi.mocked(storeMediaFromUrl).mockRejectedValue(new Error('410 Gone'))
+
+    await expect(processMediaArchiveJobs()).resolves.toEqual({ processed: 2, archived: 0, retrying: 1, dead: 1 })
+    expect(jobUpdates()).toEqual([
+      { status: 'pending', attempts: 1, last_error: '410 Gone', next_attempt_at: '2026-01-01T12:01:00.000Z' },
+      { status: 'dead', attempts: 6, last_error: '410 Gone', next_attempt_at: '2026-01-01T12:32:00.000Z' },
+    ])
+  })
+
+  it('leaves jobs another run claimed first', async () => {
+    serveJobs([job(), job({ id: 'job-2', media_id: 'img-2', source_url: 'https://replicate.delivery/img-2.png' })], id => id === 'job-2')
+    vi.mocked(storeMediaFromUrl).mockResolvedValue({ key: 'images/img-2.png', url: '/api/storage/images/img-2.png' })
+
+    await expect(processMediaArchiveJobs()).resolves.toMatchObject({ processed: 1, archived: 1 })
+    expect(storeMediaFromUrl).toHaveBeenCalledTimes(1)
+    expect(storeMediaFromUrl).toHaveBeenCalledWith('https://replicate.delivery/img-2.png', 'image', 'images/img-2.png')
+  })
+})
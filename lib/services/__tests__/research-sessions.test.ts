@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parseResearchOptions, ResearchSessionError } from '@/lib/services/research-sessions'
+
+describe('parseResearchOptions', () => {
+  it('keeps known options and drops everything else', () => {
+    expect(parseResearchOptions({
+      depth: 'deep',
+      reasoningEffort: 40,
+      timeLimit: 5,
+      focusAreas: ['pricing'],
+      excludeDomains: ['example.com'],
+      language: 'de',
+      apiKey: 'secret',
+    })).toEqual({
+      depth: 'deep',
+      reasoningEffort: 40,
+      timeLimit: 5,
+      focusAreas: ['pricing'],
+      excludeDomains: ['example.com'],
+      language: 'de',
+    })
+    expect(parseResearchOptions(undefined)).toEqual({})
+  })
+
+  it('removes duplicate corpus documents', () => {
+    expect(parseResearchOptions({ corpus: { mode: 'mixed', documentIds: ['a', 'b', 'a'] } })).toEqual({
+      corpus: { mode: 'mixed', documentIds: ['a', 'b'] },
+    })
+  })
+
+  it('rejects invalid values', () => {
+    for (const options of [
+      [],
+      { depth: 'bottomless' },
+      { reasoningEffort: 0 },
+      { timeLimit: -1 },
+      { focusAreas: 'pricing' },
+      { corpus: { mode: 'web', documentIds: ['a'] } },
+      { corpus: { mode: 'corpus', documentIds: [] } },
+    ]) {
+      expect(() => parseResearchOptions(options), JSON.stringify(options)).toThrow(ResearchSessionError)
+    }
+  })
+})
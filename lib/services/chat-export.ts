@@ -0,0 +1,349 @@
+import JSZip from 'jszip'
+import {
+  getSupabase,
+  isPersistenceConfigured,
+  ownerFilter,
+  Chat,
+  Message,
+  StoredAudio,
+  StoredImage,
+  StoredVideo
+} from '@/lib/database/supabase'
+import { getActivePath } from '@/lib/chat-branches'
+import { findLatestEvent } from '@/lib/chat-stream-events'
+import { cleanMessageContent, getMessageEvents } from '@/lib/message-metadata'
+import { getStorageAccess } from '@/lib/services/storage-access'
+import { getStorageProvider } from '@/lib/storage'
+import { mediaFileExtension, type MediaKind } from '@/lib/storage/media-storage'
+import { fetchPublicUrl } from '@/lib/safe-fetch'
+
+/**
+ * Chat exports. JSON is lossless (every branch, message metadata, media rows)
+ * and is what the importer reads back; Markdown is the readable current
+ * branch; a ZIP holds both plus the media files themselves.
+ */
+
+export const CHAT_EXPORT_FORMAT = 'geminichatbot-chats'
+export const CHAT_EXPORT_VERSION = 1
+
+export type ChatExportFormat = 'json' | 'markdown' | 'zip'
+export const CHAT_EXPORT_FORMATS: ChatExportFormat[] = ['json', 'markdown', 'zip']
+
+export interface ExportedChat {
+  chat: Chat
+  messages: Message[] // Every branch, oldest first; parent_id links each reply to its turn
+  images: StoredImage[]
+  videos: StoredVideo[]
+  audios: StoredAudio[]
+}
+
+export interface ChatExportBundle {
+  format: typeof CHAT_EXPORT_FORMAT
+  version: number
+  exported_at: string
+  chats: ExportedChat[]
+  // ZIP bundles only: media URL -> path of its file inside the archive
+  files?: Record<string, string>
+}
+
+interface MediaRef {
+  url: string
+  kind: MediaKind
+}
+
+// Ids per query; longer in() lists overflow the request URL
+const QUERY_BATCH_SIZE = 100
+const PAGE_SIZE = 1000
+const MEDIA_FETCH_TIMEOUT = 60 * 1000
+
+function requireDatabase() {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+  return supabase
+}
+
+function batches<T>(items: T[], size = QUERY_BATCH_SIZE): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size))
+  }
+  return result
+}
+
+async function getOwnedChats(chatIds?: string[]): Promise<Chat[]> {
+  const db = requireDatabase()
+
+  if (chatIds) {
+    const chats: Chat[] = []
+    for (const ids of batches(chatIds)) {
+      const { data, error } = await db
+        .from('chats')
+        .select('*')
+        .match(ownerFilter())
+        .in('id', ids)
+      if (error) throw error
+      chats.push(...(data || []))
+    }
+    return chats.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  const chats: Chat[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('chats')
+      .select('*')
+      .match(ownerFilter())
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    chats.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return chats
+  }
+}
+
+async function selectByChat<T extends { chat_id?: string }>(table: string, chatIds: string[]): Promise<Map<string, T[]>> {
+  const db = requireDatabase()
+  const byChat = new Map<string, T[]>()
+
+  for (const ids of batches(chatIds)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await db
+        .from(table)
+        .select('*')
+        .in('chat_id', ids)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+      if (error) throw error
+
+      for (const row of (data || []) as T[]) {
+        const rows = byChat.get(row.chat_id!)
+        if (rows) {
+          rows.push(row)
+        } else {
+          byChat.set(row.chat_id!, [row])
+        }
+      }
+      if (!data || data.length < PAGE_SIZE) break
+    }
+  }
+
+  return byChat
+}
+
+/**
+ * Lossless export of the given chats, or of every chat without ids. Chats
+ * that don't exist or belong to someone else are left out.
+ */
+export async function exportChats(chatIds?: string[]): Promise<ChatExportBundle> {
+  const chats = await getOwnedChats(chatIds)
+  const ids = chats.map(chat => chat.id)
+
+  const [messages, images, videos, audios] = await Promise.all([
+    selectByChat<Message>('messages', ids),
+    selectByChat<StoredImage>('images', ids),
+    selectByChat<StoredVideo>('videos', ids),
+    selectByChat<StoredAudio>('audios', ids),
+  ])
+
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    chats: chats.map(chat => ({
+      chat,
+      messages: messages.get(chat.id) || [],
+      images: images.get(chat.id) || [],
+      videos: videos.get(chat.id) || [],
+      audios: audios.get(chat.id) || [],
+    })),
+  }
+}
+
+function formatDate(date: string): string {
+  return `${new Date(date).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function mediaKindOf(contentType: string | undefined): MediaKind | null {
+  const kind = contentType?.split('/')[0]
+  return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : null
+}
+
+// Media of one message, or with messageId null, media of no message on the shown branch
+function mediaMarkdown(
+  exported: ExportedChat,
+  messageId: string | null,
+  shownIds: Set<string>,
+  link: (url: string) => string
+): string[] {
+  const belongs = (row: { message_id?: string | null }) => messageId === null
+    ? !row.message_id || !shownIds.has(row.message_id)
+    : row.message_id === messageId
+
+  return [
+    ...exported.images.filter(belongs).map(image => `![${image.prompt.replace(/[[\]\n]/g, ' ')}](${link(image.url)})`),
+    ...exported.videos.filter(belongs).filter(video => video.url).map(video => `[Video: ${video.prompt.replace(/[[\]\n]/g, ' ')}](${link(video.url)})`),
+    ...exported.audios
+      .filter(audio => messageId === null && !audio.url.startsWith('data:'))
+      .map(audio => `[Audio: ${audio.text.slice(0, 80).replace(/[[\]\n]/g, ' ')}](${link(audio.url)})`),
+  ]
+}
+
+/**
+ * Readable Markdown of the branch the chat currently shows. `link` maps media
+ * URLs, e.g. to files next to the document in a ZIP export.
+ */
+export function chatToMarkdown(exported: ExportedChat, link: (url: string) => string = url => url): string {
+  const { chat, messages } = exported
+  const isBranched = messages.some(message => 'parent_id' in message)
+  const path = isBranched ? getActivePath(messages, chat.active_leaf_id) : messages
+  const shownIds = new Set(path.map(message => message.id))
+
+  const lines = [
+    `# ${chat.title}`,
+    '',
+    `- Model: ${chat.model}`,
+    `- Created: ${formatDate(chat.created_at)}`,
+  ]
+  if (path.length < messages.length) {
+    lines.push(`- Showing the current branch (${path.length} of ${messages.length} messages); the JSON export has every branch`)
+  }
+  lines.push('')
+
+  for (const message of path) {
+    const role = message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'System'
+    lines.push(`## ${role} · ${formatDate(message.created_at)}`, '', cleanMessageContent(message.content), '')
+
+    const attachments = (message.attachments || []).filter(attachment => attachment?.url && !attachment.url.startsWith('blob:'))
+    for (const attachment of attachments) {
+      const name = attachment.name || 'attachment'
+      lines.push(mediaKindOf(attachment.contentType) === 'image'
+        ? `![${name}](${link(attachment.url)})`
+        : `[${name}](${link(attachment.url)})`)
+    }
+
+    const media = mediaMarkdown(exported, message.id, shownIds, link)
+    lines.push(...media)
+    if (attachments.length > 0 || media.length > 0) lines.push('')
+
+    const search = findLatestEvent(getMessageEvents(message), 'search_results')
+    if (search && search.data.citations.length > 0) {
+      lines.push('**Sources**', '', ...search.data.citations.map((url, i) => `${i + 1}. <${url}>`), '')
+    }
+  }
+
+  const unattached = mediaMarkdown(exported, null, shownIds, link)
+  if (unattached.length > 0) {
+    lines.push('## Media', '', ...unattached, '')
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n'
+}
+
+export function bundleToMarkdown(bundle: ChatExportBundle): string {
+  return bundle.chats.map(exported => chatToMarkdown(exported)).join('\n---\n\n')
+}
+
+// File name for a chat in downloads and inside ZIPs
+export function exportFileName(chat: Pick<Chat, 'id' | 'title'>): string {
+  const slug = chat.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${slug || 'chat'}-${chat.id.slice(0, 8)}`
+}
+
+function collectMedia(exported: ExportedChat): MediaRef[] {
+  const refs: MediaRef[] = []
+  const add = (url: string | null | undefined, kind: MediaKind) => {
+    if (url) refs.push({ url, kind })
+  }
+
+  exported.images.forEach(image => add(image.url, 'image'))
+  exported.videos.forEach(video => {
+    add(video.url, 'video')
+    add(video.thumbnail_url, 'image')
+  })
+  exported.audios.forEach(audio => add(audio.url, 'audio'))
+  for (const message of exported.messages) {
+    for (const attachment of message.attachments || []) {
+      const kind = mediaKindOf(attachment?.contentType)
+      if (kind) add(attachment.url, kind)
+    }
+  }
+
+  return refs
+}
+
+// Bytes of a media URL, or null when they can't be fetched (expired provider URLs, blob: URLs).
+// Attachment URLs come from the client, so stored objects must be the exporter's own and
+// anything else must be on a public address
+async function readMedia(url: string): Promise<Buffer | null> {
+  try {
+    const storage = getStorageProvider()
+    const key = storage?.keyFromUrl(url)
+    if (storage && key) {
+      if (await getStorageAccess(key, url) === 'denied') return null
+      return (await storage.get(key))?.data ?? null
+    }
+    if (url.startsWith('data:')) {
+      return url.includes(';base64,') ? Buffer.from(url.split(',')[1], 'base64') : null
+    }
+    if (!/^https?:/.test(url)) return null
+
+    const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT) })
+    if (!response.ok) return null
+    return Buffer.from(await response.arrayBuffer())
+  } catch (error) {
+    console.warn('[EXPORT] Could not download media for the archive:', error)
+    return null
+  }
+}
+
+/**
+ * ZIP with chats.json (the lossless bundle, plus where each media file is),
+ * a Markdown file per chat under chats/, and the media under media/<chat id>/.
+ * Media that can't be downloaded keeps only its URL.
+ */
+export async function buildChatExportZip(bundle: ChatExportBundle): Promise<Buffer> {
+  const zip = new JSZip()
+  const files: Record<string, string> = {}
+
+  for (const exported of bundle.chats) {
+    let index = 0
+    for (const { url, kind } of collectMedia(exported)) {
+      if (files[url]) continue
+      const data = await readMedia(url)
+      if (!data) continue
+
+      const path = `media/${exported.chat.id}/${index++}.${mediaFileExtension(url, kind)}`
+      zip.file(path, data, { compression: 'STORE' })
+      files[url] = path
+    }
+
+    const link = (url: string) => files[url] ? `../${files[url]}` : url
+    zip.file(`chats/${exportFileName(exported.chat)}.md`, chatToMarkdown(exported, link))
+  }
+
+  zip.file('chats.json', JSON.stringify({ ...bundle, files }, null, 2))
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+const EXPORT_FILES: Record<ChatExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  zip: { contentType: 'application/zip', extension: 'zip' },
+}
+
+// File contents of a bundle in the given format, for download responses
+export async function renderChatExport(bundle: ChatExportBundle, format: ChatExportFormat) {
+  const body = format === 'zip'
+    ? await buildChatExportZip(bundle)
+    : format === 'markdown'
+      ? bundleToMarkdown(bundle)
+      : JSON.stringify(bundle, null, 2)
+
+  return { body, ...EXPORT_FILES[format] }
+}
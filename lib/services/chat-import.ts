@@ -0,0 +1,489 @@
+import JSZip from 'jszip'
+import { randomUUID } from 'crypto'
+import { getSupabase, withUserId, Message } from '@/lib/database/supabase'
+import { addMessage, createChat, saveImage, saveVideo, switchBranch } from '@/lib/services/chat-persistence'
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  type ChatExportBundle,
+  type ExportedChat
+} from '@/lib/services/chat-export'
+import { queueMediaArchival } from '@/lib/services/media-archival'
+import { getStorageProvider } from '@/lib/storage'
+import { mediaFileExtension, replaceMediaUrls, type MediaKind } from '@/lib/storage/media-storage'
+import type { GeneratedImage } from '@/lib/image-utils'
+import type { GeneratedVideo } from '@/lib/video-generation-types'
+
+/**
+ * Recreates chats from an export: this app's JSON or ZIP (see chat-export.ts),
+ * or the conversations.json of a ChatGPT or Claude data export (the ZIP or
+ * the file itself). Everything is written through chat-persistence, so
+ * imported chats belong to the signed-in user like any other.
+ */
+
+export type ChatImportSource = 'geminichatbot' | 'chatgpt' | 'claude'
+
+export interface ChatImportResult {
+  source: ChatImportSource
+  chats: { id: string; title: string; messages: number }[]
+  errors: string[]
+}
+
+// The file isn't an export this importer understands
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChatImportError'
+  }
+}
+
+export interface ParsedImport {
+  source: ChatImportSource
+  bundle: ChatExportBundle
+  zip?: JSZip
+}
+
+type ImportRole = 'user' | 'assistant' | 'system'
+
+const ROLES: ImportRole[] = ['user', 'assistant', 'system']
+
+const CONTENT_SUBTYPES: Record<string, string> = {
+  jpg: 'jpeg',
+  mp3: 'mpeg',
+}
+
+function toIsoDate(value: unknown, fallback: string): string {
+  if (typeof value === 'number') return new Date(value * 1000).toISOString()
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return new Date(value).toISOString()
+  return fallback
+}
+
+function importedChat(id: string, title: string, model: string, createdAt: string, messages: Message[], activeLeafId: string | null): ExportedChat {
+  return {
+    chat: {
+      id,
+      title: title.trim() || 'Imported chat',
+      model,
+      created_at: createdAt,
+      updated_at: messages[messages.length - 1]?.created_at || createdAt,
+      active_leaf_id: activeLeafId,
+    },
+    messages,
+    images: [],
+    videos: [],
+    audios: [],
+  }
+}
+
+function chatGPTText(message: any): string {
+  const content = message?.content
+  if (!content) return ''
+
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      // Non-string parts are image and file pointers, whose files aren't in conversations.json
+      return (content.parts || []).filter((part: unknown) => typeof part === 'string').join('\n').trim()
+    case 'code':
+      return content.text ? `\`\`\`\n${content.text}\n\`\`\`` : ''
+    default:
+      return typeof content.text === 'string' ? content.text.trim() : ''
+  }
+}
+
+/**
+ * ChatGPT stores a conversation as a tree (`mapping`) whose nodes include
+ * system prompts and tool traffic; only visible user and assistant turns are
+ * kept, each attached to its nearest kept ancestor so edits stay branches.
+ */
+function fromChatGPT(conversation: any): ExportedChat {
+  const mapping: Record<string, any> = conversation.mapping || {}
+  const chatId = conversation.conversation_id || conversation.id || randomUUID()
+  const createdAt = toIsoDate(conversation.create_time, new Date().toISOString())
+  const kept = new Map<string, Message>()
+
+  // Both walks track what they've seen: a malformed file's parent and
+  // children links can form a loop
+  const keptAncestor = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>()
+    for (let id = nodeId; id && !seen.has(id); id = mapping[id]?.parent) {
+      if (kept.has(id)) return id
+      seen.add(id)
+    }
+    return null
+  }
+
+  // Breadth-first from the roots, so parents are always seen before their children
+  const queue = Object.keys(mapping).filter(id => !mapping[id].parent || !mapping[mapping[id].parent])
+  const visited = new Set<string>()
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (visited.has(id)) continue
+    visited.add(id)
+    const node = mapping[id]
+    const message = node?.message
+    const role = message?.author?.role
+    const text = chatGPTText(message)
+    const isHidden = message?.metadata?.is_visually_hidden_from_conversation ||
+      (message?.recipient && message.recipient !== 'all')
+
+    if ((role === 'user' || role === 'assistant') && text && !isHidden) {
+      const parentId = keptAncestor(node.parent)
+      kept.set(id, {
+        id,
+        chat_id: chatId,
+        role,
+        content: text,
+        created_at: toIsoDate(message.create_time, parentId ? kept.get(parentId)!.created_at : createdAt),
+        parent_id: parentId,
+        metadata: message.metadata?.model_slug ? { model: message.metadata.model_slug } : {},
+      })
+    }
+    queue.push(...(node?.children || []))
+  }
+
+  return importedChat(
+    chatId,
+    conversation.title || '',
+    conversation.default_model_slug || 'chatgpt',
+    createdAt,
+    [...kept.values()],
+    keptAncestor(conversation.current_node)
+  )
+}
+
+// Claude exports are linear, with `parent_message_uuid` on newer ones
+function fromClaude(conversation: any): ExportedChat {
+  const chatId = conversation.uuid || randomUUID()
+  const createdAt = toIsoDate(conversation.created_at, new Date().toISOString())
+  const messages: Message[] = []
+  const ids = new Set<string>()
+
+  for (const message of conversation.chat_messages || []) {
+    const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null
+    if (!role) continue
+
+    let text = typeof message.text === 'string' && message.text
+      ? message.text
+      : (message.content || [])
+        .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+        .map((part: any) => part.text)
+        .join('\n\n')
+    // Attached documents come with their extracted text; the files themselves aren't exported
+    for (const attachment of message.attachments || []) {
+      if (attachment?.extracted_content) {
+        text += `\n\n**${attachment.file_name || 'Attachment'}**\n\n\`\`\`\n${attachment.extracted_content}\n\`\`\``
+      }
+    }
+    if (!text.trim()) continue
+
+    const id = message.uuid || randomUUID()
+    const previous = messages[messages.length - 1]
+    messages.push({
+      id,
+      chat_id: chatId,
+      role,
+      content: text.trim(),
+      created_at: toIsoDate(message.created_at, previous?.created_at || createdAt),
+      parent_id: ids.has(message.parent_message_uuid) ? message.parent_message_uuid : previous?.id ?? null,
+    })
+    ids.add(id)
+  }
+
+  const leafId = ids.has(conversation.current_leaf_message_uuid)
+    ? conversation.current_leaf_message_uuid
+    : messages[messages.length - 1]?.id ?? null
+
+  return importedChat(chatId, conversation.name || '', conversation.model || 'claude', createdAt, messages, leafId)
+}
+
+function toBundle(source: ChatImportSource, json: any): ChatExportBundle {
+  if (source === 'geminichatbot') return json
+
+  const conversations: any[] = Array.isArray(json) ? json : [json]
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    chats: conversations.map(source === 'chatgpt' ? fromChatGPT : fromClaude),
+  }
+}
+
+function detectSource(json: any): ChatImportSource {
+  if (json?.format === CHAT_EXPORT_FORMAT) {
+    if (typeof json.version !== 'number' || json.version > CHAT_EXPORT_VERSION) {
+      throw new ChatImportError(`Export version ${json.version} is newer than this app supports (${CHAT_EXPORT_VERSION})`)
+    }
+    if (!Array.isArray(json.chats)) throw new ChatImportError('Export has no chats')
+    return 'geminichatbot'
+  }
+
+  const conversations: any[] = Array.isArray(json) ? json : [json]
+  if (conversations.length > 0 && conversations.every(item => item && typeof item.mapping === 'object')) {
+    return 'chatgpt'
+  }
+  if (conversations.length > 0 && conversations.every(item => Array.isArray(item?.chat_messages))) {
+    return 'claude'
+  }
+  throw new ChatImportError('Unrecognised file: expected a chat export from this app, ChatGPT or Claude')
+}
+
+/**
+ * Read an export file into chats without saving anything. Throws
+ * ChatImportError for files it doesn't recognise.
+ */
+export async function parseImportFile(data: Buffer): Promise<ParsedImport> {
+  let text: string
+  let zip: JSZip | undefined
+
+  // ZIP files start with "PK"
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    zip = await JSZip.loadAsync(data)
+    const entry = zip.file('chats.json') || zip.file(/(^|\/)conversations\.json$/)[0]
+    if (!entry) {
+      throw new ChatImportError('The ZIP has neither chats.json nor conversations.json')
+    }
+    text = await entry.async('string')
+  } else {
+    text = data.toString('utf8')
+  }
+
+  let json: any
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new ChatImportError('The file is not valid JSON')
+  }
+
+  const source = detectSource(json)
+  return { source, bundle: toBundle(source, json), zip }
+}
+
+// Parents before children, oldest first
+function parentFirst(messages: Message[]): Message[] {
+  const ids = new Set(messages.map(message => message.id))
+  const added = new Set<string>()
+  const ordered: Message[] = []
+  let pending = [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  while (pending.length > 0) {
+    const waiting: Message[] = []
+    for (const message of pending) {
+      if (!message.parent_id || !ids.has(message.parent_id) || added.has(message.parent_id)) {
+        ordered.push(message)
+        added.add(message.id)
+      } else {
+        waiting.push(message)
+      }
+    }
+    // Cycles can't be placed; keep their messages rather than looping forever
+    if (waiting.length === pending.length) {
+      ordered.push(...waiting)
+      break
+    }
+    pending = waiting
+  }
+
+  return ordered
+}
+
+// Media files bundled in a ZIP export, put back into storage on demand
+class MediaRestorer {
+  private restored = new Map<string, string>()
+
+  constructor(private files: Record<string, string> = {}, private zip?: JSZip) {}
+
+  // New URL of a bundled file, or undefined to keep the original URL
+  async restore(url: string | null | undefined, kind: MediaKind): Promise<string | undefined> {
+    if (!url || !this.zip || !this.files[url]) return undefined
+    if (this.restored.has(url)) return this.restored.get(url)
+
+    const file = this.zip.file(this.files[url])
+    if (!file) return undefined
+
+    const data = await file.async('nodebuffer')
+    const extension = mediaFileExtension(this.files[url], kind)
+    const contentType = `${kind}/${CONTENT_SUBTYPES[extension] || extension}`
+    const storage = getStorageProvider()
+
+    let restoredUrl: string | undefined
+    if (storage) {
+      const stored = await storage.put(`imports/${randomUUID()}.${extension}`, data, { contentType })
+      restoredUrl = stored.url
+    } else if (kind !== 'video') {
+      // Without storage, images and audio are kept inline as they are when generated
+      restoredUrl = `data:${contentType};base64,${data.toString('base64')}`
+    }
+
+    if (restoredUrl) this.restored.set(url, restoredUrl)
+    return restoredUrl
+  }
+
+  // Restore every bundled media URL of a chat; returns old URL -> new URL
+  async restoreChat(exported: ExportedChat): Promise<Map<string, string>> {
+    const refs: [string | undefined, MediaKind][] = [
+      ...exported.images.map(image => [image.url, 'image'] as [string, MediaKind]),
+      ...exported.videos.flatMap(video => [[video.url, 'video'], [video.thumbnail_url, 'image']] as [string, MediaKind][]),
+      ...exported.audios.map(audio => [audio.url, 'audio'] as [string, MediaKind]),
+      ...exported.messages.flatMap(message => (message.attachments || [])
+        .map((attachment: any) => [attachment?.url, attachment?.contentType?.split('/')[0]] as [string, MediaKind])
+        .filter(([, kind]) => kind === 'image' || kind === 'video' || kind === 'audio')),
+    ]
+
+    const urls = new Map<string, string>()
+    for (const [url, kind] of refs) {
+      try {
+        const restored = await this.restore(url, kind)
+        if (url && restored) urls.set(url, restored)
+      } catch (error) {
+        console.warn('[IMPORT] Could not restore a media file; keeping its original URL:', error)
+      }
+    }
+    return urls
+  }
+}
+
+async function importChat(exported: ExportedChat, media: MediaRestorer, errors: string[]) {
+  const { chat } = exported
+  const urls = await media.restoreChat(exported)
+  const url = <T>(value: T) => replaceMediaUrls(value, urls)
+
+  const created = await createChat(chat.title, chat.model, chat.created_at)
+  if (!created) {
+    errors.push(`"${chat.title}": could not create the chat`)
+    return null
+  }
+
+  // Old message id -> new message id
+  const messageIds = new Map<string, string>()
+  let failed = 0
+  for (const message of parentFirst(exported.messages)) {
+    if (!ROLES.includes(message.role)) continue
+
+    // Sync matches messages by clientId; an imported copy is a different message
+    const { clientId: _clientId, ...metadata } = message.metadata || {}
+    const parentId = 'parent_id' in message
+      ? (message.parent_id && messageIds.get(message.parent_id)) || null
+      : undefined
+
+    const added = await addMessage(
+      created.id,
+      message.role,
+      message.content,
+      url(message.attachments),
+      url(metadata),
+      parentId,
+      message.created_at
+    )
+    if (added) {
+      messageIds.set(message.id, added.id)
+    } else {
+      failed++
+    }
+  }
+  if (failed > 0) {
+    errors.push(`"${chat.title}": ${failed} of ${exported.messages.length} messages could not be saved`)
+  }
+
+  const activeLeaf = chat.active_leaf_id && messageIds.get(chat.active_leaf_id)
+  if (activeLeaf) await switchBranch(created.id, activeLeaf)
+
+  const messageId = (id?: string | null) => (id && messageIds.get(id)) || undefined
+
+  for (const image of exported.images) {
+    const generated: GeneratedImage = {
+      id: image.metadata?.localId || image.id,
+      url: url(image.url),
+      prompt: image.prompt,
+      revisedPrompt: image.revised_prompt,
+      timestamp: new Date(image.created_at),
+      quality: image.quality as GeneratedImage['quality'],
+      style: image.style as GeneratedImage['style'],
+      size: image.size,
+      model: image.model,
+      isUploaded: image.is_uploaded,
+      geminiUri: image.metadata?.geminiUri,
+    }
+    if (!(await saveImage(generated, created.id, messageId(image.message_id)))) {
+      errors.push(`"${chat.title}": could not save image "${image.prompt.slice(0, 40)}"`)
+    }
+  }
+
+  for (const video of exported.videos) {
+    const generated = {
+      id: video.metadata?.localId || video.id,
+      prompt: video.prompt,
+      url: url(video.url),
+      thumbnailUrl: video.thumbnail_url ? url(video.thumbnail_url) : undefined,
+      duration: video.duration,
+      aspectRatio: video.aspect_ratio,
+      model: video.model,
+      sourceImage: video.source_image_url,
+      status: video.status,
+      createdAt: new Date(video.created_at),
+      completedAt: video.completed_at ? new Date(video.completed_at) : undefined,
+      finalElapsedTime: video.final_elapsed_time,
+      error: video.error_message,
+    } as GeneratedVideo
+    if (!(await saveVideo(generated, created.id, messageId(video.message_id)))) {
+      errors.push(`"${chat.title}": could not save video "${video.prompt.slice(0, 40)}"`)
+    }
+  }
+
+  const db = getSupabase()
+  for (const audio of exported.audios) {
+    const { data, error } = await db!
+      .from('audios')
+      .insert(withUserId({
+        chat_id: created.id,
+        url: url(audio.url),
+        text: audio.text,
+        script: audio.script,
+        mime_type: audio.mime_type,
+        duration: audio.duration,
+        voice: audio.voice,
+        provider: audio.provider,
+        is_multi_speaker: audio.is_multi_speaker || false,
+        created_at: audio.created_at,
+        metadata: audio.metadata || {},
+      }))
+      .select('id, url')
+      .single()
+
+    if (error) {
+      errors.push(`"${chat.title}": could not save audio "${audio.text.slice(0, 40)}"`)
+    } else {
+      queueMediaArchival('audio', data.id, 'url', data.url)
+    }
+  }
+
+  return { id: created.id, title: created.title, messages: messageIds.size }
+}
+
+/**
+ * Import every chat in an export file (JSON or ZIP). Throws ChatImportError
+ * for files it doesn't recognise; problems with single chats or messages are
+ * reported in `errors` and the rest is still imported.
+ */
+export async function importChats(data: Buffer): Promise<ChatImportResult> {
+  const { source, bundle, zip } = await parseImportFile(data)
+  const media = new MediaRestorer(bundle.files, zip)
+  const result: ChatImportResult = { source, chats: [], errors: [] }
+
+  for (const exported of bundle.chats) {
+    if (!exported?.chat || !Array.isArray(exported.messages)) {
+      result.errors.push('Skipped an entry that is not a chat')
+      continue
+    }
+
+    const imported = await importChat({
+      ...exported,
+      images: exported.images || [],
+      videos: exported.videos || [],
+      audios: exported.audios || [],
+    }, media, result.errors)
+    if (imported) result.chats.push(imported)
+  }
+
+  return result
+}
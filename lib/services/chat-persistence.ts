@@ -1,10 +1,14 @@
-import { supabase, isPersistenceConfigured, Chat, Message, StoredImage, StoredVideo, ChatSummary } from '@/lib/database/supabase'
-import { uploadImageToBlob } from '@/lib/storage/blob-storage'
+import { getSupabase, isPersistenceConfigured, ownerFilter, withUserId, Chat, Message, MessageBranchInfo, StoredImage, StoredVideo, ChatSummary } from '@/lib/database/supabase'
+import { findBranchLeaf, getActivePath, getBranchInfo } from '@/lib/chat-branches'
+import { uploadImageToStorage } from '@/lib/storage/media-storage'
+import { queueMediaArchival } from '@/lib/services/media-archival'
 import { GeneratedImage } from '@/lib/image-utils'
 import { GeneratedVideo } from '@/lib/video-generation-types'
+import { indexLibraryItem, libraryItemText } from '@/lib/services/library-search'
 
-// Create a new chat
-export async function createChat(title: string, model: string): Promise<Chat | null> {
+// Create a new chat; createdAt keeps the original date of imported chats
+export async function createChat(title: string, model: string, createdAt?: string): Promise<Chat | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     console.log('Persistence not configured - chat creation skipped')
     return null
@@ -13,10 +17,11 @@ export async function createChat(title: string, model: string): Promise<Chat | n
   try {
     const { data, error } = await supabase
       .from('chats')
-      .insert({
+      .insert(withUserId({
         title,
         model,
-      })
+        ...(createdAt ? { created_at: createdAt } : {}),
+      }))
       .select()
       .single()
 
@@ -33,6 +38,7 @@ export async function createChat(title: string, model: string): Promise<Chat | n
 
 // Get all chats (for sidebar)
 export async function getChats(limit = 50): Promise<ChatSummary[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -41,6 +47,7 @@ export async function getChats(limit = 50): Promise<ChatSummary[]> {
     const { data, error } = await supabase
       .from('chat_summaries')
       .select('*')
+      .match(ownerFilter())
       .order('updated_at', { ascending: false })
       .limit(limit)
 
@@ -55,14 +62,16 @@ export async function getChats(limit = 50): Promise<ChatSummary[]> {
   }
 }
 
-// Get a single chat with messages, images, videos, and canvas state
+// Get a single chat with the messages of its active branch, images, videos, and canvas state
 export async function getChat(chatId: string): Promise<{ 
   chat: Chat; 
   messages: Message[]; 
+  branches: Record<string, MessageBranchInfo>;
   images?: StoredImage[];
   videos?: StoredVideo[];
   canvasState?: any;
 } | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return null
   }
@@ -72,6 +81,7 @@ export async function getChat(chatId: string): Promise<{
     const { data: chat, error: chatError } = await supabase
       .from('chats')
       .select('*')
+      .match(ownerFilter())
       .eq('id', chatId)
       .single()
 
@@ -86,6 +96,12 @@ export async function getChat(chatId: string): Promise<{
 
     if (messagesError) throw messagesError
 
+    // Databases without the branching migration have no parent_id column;
+    // their chats are a single linear thread
+    const allMessages: Message[] = messages || []
+    const isBranched = allMessages.some(message => 'parent_id' in message)
+    const activePath = isBranched ? getActivePath(allMessages, chat.active_leaf_id) : allMessages
+
     // Get images
     const { data: images, error: imagesError } = await supabase
       .from('images')
@@ -110,7 +126,8 @@ export async function getChat(chatId: string): Promise<{
 
     return { 
       chat, 
-      messages: messages || [], 
+      messages: activePath, 
+      branches: isBranched ? getBranchInfo(allMessages, activePath) : {},
       images: images || [],
       videos: videos || [],
       canvasState: (chat as any).canvas_state || {}
@@ -124,18 +141,36 @@ export async function getChat(chatId: string): Promise<{
   }
 }
 
-// Add a message to a chat
+// Add a message to a chat. parentId is the message it replies to; adding a
+// second reply to the same parent starts a new branch.
 export async function addMessage(
   chatId: string,
   role: 'user' | 'assistant' | 'system',
   content: string,
-  attachments?: any[]
+  attachments?: any[],
+  metadata?: Record<string, any>,
+  parentId?: string | null,
+  createdAt?: string
 ): Promise<Message | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return null
   }
 
   try {
+    // Messages have no owner of their own; they belong to whoever owns the chat
+    if (ownerFilter().user_id) {
+      const { data: chat, error: chatError } = await supabase
+        .from('chats')
+        .select('id')
+        .match(ownerFilter())
+        .eq('id', chatId)
+        .maybeSingle()
+
+      if (chatError) throw chatError
+      if (!chat) throw new Error(`Chat ${chatId} not found`)
+    }
+
     const { data, error } = await supabase
       .from('messages')
       .insert({
@@ -143,18 +178,28 @@ export async function addMessage(
         role,
         content,
         attachments: attachments || [],
+        metadata: metadata || {},
+        ...(parentId !== undefined ? { parent_id: parentId } : {}),
+        ...(createdAt ? { created_at: createdAt } : {}),
       })
       .select()
       .single()
 
     if (error) throw error
 
-    // Update chat's updated_at
+    // Update chat's updated_at; the newest message becomes the active branch
     await supabase
       .from('chats')
-      .update({ updated_at: new Date().toISOString() })
+      .update({
+        updated_at: new Date().toISOString(),
+        ...(parentId !== undefined ? { active_leaf_id: data.id } : {}),
+      })
+      .match(ownerFilter())
       .eq('id', chatId)
 
+    // Embed for library search in the background
+    indexLibraryItem('message', data.id, libraryItemText('message', { content }))
+
     return data
   } catch (error: any) {
     // Only log if it's not a connection error
@@ -165,8 +210,44 @@ export async function addMessage(
   }
 }
 
+// Show another branch of a chat, continuing to that branch's latest message
+export async function switchBranch(chatId: string, messageId: string): Promise<boolean> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    return false
+  }
+
+  try {
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select('id, parent_id, created_at')
+      .eq('chat_id', chatId)
+
+    if (messagesError) throw messagesError
+
+    const leaf = findBranchLeaf(messages || [], messageId)
+    if (!leaf) return false
+
+    const { error } = await supabase
+      .from('chats')
+      .update({ active_leaf_id: leaf.id })
+      .match(ownerFilter())
+      .eq('id', chatId)
+
+    if (error) throw error
+    return true
+  } catch (error: any) {
+    // Only log if it's not a connection error
+    if (!error.message?.includes('fetch failed')) {
+      console.error('Error switching branch:', error)
+    }
+    return false
+  }
+}
+
 // Update chat title
 export async function updateChatTitle(chatId: string, title: string): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return false
   }
@@ -175,6 +256,7 @@ export async function updateChatTitle(chatId: string, title: string): Promise<bo
     const { error } = await supabase
       .from('chats')
       .update({ title })
+      .match(ownerFilter())
       .eq('id', chatId)
 
     if (error) throw error
@@ -188,8 +270,72 @@ export async function updateChatTitle(chatId: string, title: string): Promise<bo
   }
 }
 
+// Search providers picked for a chat (ids from lib/search), or null for the defaults
+export async function getChatSearchProviders(chatId: string): Promise<string[] | null> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    return null
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chats')
+      .select('metadata')
+      .match(ownerFilter())
+      .eq('id', chatId)
+      .maybeSingle()
+
+    if (error) throw error
+    const providers = data?.metadata?.searchProviders
+    return Array.isArray(providers) ? providers : null
+  } catch (error: any) {
+    // Only log if it's not a connection error
+    if (!error.message?.includes('fetch failed')) {
+      console.error('Error loading chat search providers:', error)
+    }
+    return null
+  }
+}
+
+// Save a chat's search providers; null goes back to the defaults
+export async function updateChatSearchProviders(chatId: string, providers: string[] | null): Promise<boolean> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    return false
+  }
+
+  try {
+    const { data: chat, error: chatError } = await supabase
+      .from('chats')
+      .select('metadata')
+      .match(ownerFilter())
+      .eq('id', chatId)
+      .maybeSingle()
+
+    if (chatError) throw chatError
+    if (!chat) return false
+
+    const { searchProviders: _previous, ...metadata } = chat.metadata || {}
+    const { error } = await supabase
+      .from('chats')
+      .update({ metadata: providers ? { ...metadata, searchProviders: providers } : metadata })
+      .match(ownerFilter())
+      .eq('id', chatId)
+
+    if (error) throw error
+    return true
+  } catch (error: any) {
+    // Only log if it's not a connection error
+    if (!error.message?.includes('fetch failed')) {
+      console.error('Error updating chat search providers:', error)
+    }
+    return false
+  }
+}
+
 // Update canvas state for a chat
 export async function updateCanvasState(chatId: string, canvasState: any): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return false
   }
@@ -203,6 +349,7 @@ export async function updateCanvasState(chatId: string, canvasState: any): Promi
         canvas_state: canvasState,
         updated_at: new Date().toISOString()
       })
+      .match(ownerFilter())
       .eq('id', chatId)
 
     if (error) throw error
@@ -217,6 +364,7 @@ export async function updateCanvasState(chatId: string, canvasState: any): Promi
 
 // Get canvas state for a chat
 export async function getCanvasState(chatId: string): Promise<any | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return null
   }
@@ -225,6 +373,7 @@ export async function getCanvasState(chatId: string): Promise<any | null> {
     const { data, error } = await supabase
       .from('chats')
       .select('canvas_state')
+      .match(ownerFilter())
       .eq('id', chatId)
       .single()
 
@@ -239,6 +388,7 @@ export async function getCanvasState(chatId: string): Promise<any | null> {
 
 // Delete a chat
 export async function deleteChat(chatId: string): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return false
   }
@@ -247,6 +397,7 @@ export async function deleteChat(chatId: string): Promise<boolean> {
     const { error } = await supabase
       .from('chats')
       .delete()
+      .match(ownerFilter())
       .eq('id', chatId)
 
     if (error) throw error
@@ -260,12 +411,13 @@ export async function deleteChat(chatId: string): Promise<boolean> {
   }
 }
 
-// Save image to database and blob storage
+// Save image to database and durable storage
 export async function saveImage(
   image: GeneratedImage,
   chatId?: string,
   messageId?: string
 ): Promise<StoredImage | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     console.log('[SAVE IMAGE] Persistence not configured')
     return null
@@ -281,13 +433,13 @@ export async function saveImage(
   })
   
   try {
-    // Upload to blob storage first
+    // Upload to storage first
     const extension = image.isUploaded ? 'png' : 'png' // Keep as PNG for uploaded images
     const filename = `${image.id}-${Date.now()}.${extension}`
-    console.log('[SAVE IMAGE] Uploading to blob storage with filename:', filename)
+    console.log('[SAVE IMAGE] Uploading to storage with filename:', filename)
     console.log('[SAVE IMAGE] Image type:', image.isUploaded ? 'uploaded' : 'generated')
-    const blobUrl = await uploadImageToBlob(image.url, filename)
-    console.log('[SAVE IMAGE] Blob storage upload result:', blobUrl)
+    const blobUrl = await uploadImageToStorage(image.url, filename)
+    console.log('[SAVE IMAGE] Storage upload result:', blobUrl)
 
     // Save to database
     const insertData: any = {
@@ -329,7 +481,7 @@ export async function saveImage(
     
     const { data, error } = await supabase
       .from('images')
-      .insert(insertData)
+      .insert(withUserId(insertData))
       .select()
       .single()
 
@@ -409,7 +561,17 @@ export async function saveImage(
         }
       }
     }
-    
+
+    // The upload fell back to the provider URL; keep retrying in the background
+    queueMediaArchival('image', data.id, 'url', data.url)
+
+    // Embed for library search in the background
+    indexLibraryItem('image', data.id, libraryItemText('image', {
+      prompt: image.prompt,
+      revisedPrompt: image.revisedPrompt,
+      tags: data.metadata?.tags
+    }))
+
     return data
   } catch (error: any) {
     // Log all errors for debugging
@@ -426,6 +588,7 @@ export async function saveImage(
 
 // Get images for a chat
 export async function getChatImages(chatId: string): Promise<StoredImage[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -434,6 +597,7 @@ export async function getChatImages(chatId: string): Promise<StoredImage[]> {
     const { data, error } = await supabase
       .from('images')
       .select('*')
+      .match(ownerFilter())
       .eq('chat_id', chatId)
       .order('created_at', { ascending: false })
 
@@ -450,6 +614,7 @@ export async function getChatImages(chatId: string): Promise<StoredImage[]> {
 
 // Get all images (for gallery)
 export async function getAllImages(limit = 100): Promise<StoredImage[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -458,6 +623,7 @@ export async function getAllImages(limit = 100): Promise<StoredImage[]> {
     const { data, error } = await supabase
       .from('images')
       .select('*')
+      .match(ownerFilter())
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -474,6 +640,7 @@ export async function getAllImages(limit = 100): Promise<StoredImage[]> {
 
 // Get a single image by its local ID (from metadata)
 export async function getImageByLocalId(localId: string): Promise<StoredImage | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return null
   }
@@ -484,6 +651,7 @@ export async function getImageByLocalId(localId: string): Promise<StoredImage |
     const { data, error } = await supabase
       .from('images')
       .select('*')
+      .match(ownerFilter())
       .eq('metadata->>localId', localId)
       .limit(1)
       .single()
@@ -506,6 +674,7 @@ export async function getImageByLocalId(localId: string): Promise<StoredImage |
 
 // Delete an image
 export async function deleteImage(imageId: string): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     console.log('[DELETE IMAGE] Persistence not configured')
     return false
@@ -525,6 +694,7 @@ export async function deleteImage(imageId: string): Promise<boolean> {
       const result = await supabase
         .from('images')
         .select('id, url')
+        .match(ownerFilter())
         .eq('id', imageId)
         .single()
       
@@ -541,6 +711,7 @@ export async function deleteImage(imageId: string): Promise<boolean> {
       const { data: images, error: searchError } = await supabase
         .from('images')
         .select('id, url, metadata')
+        .match(ownerFilter())
         .eq('metadata->>localId', imageId)
         .limit(1)
       
@@ -565,17 +736,18 @@ export async function deleteImage(imageId: string): Promise<boolean> {
     const { error } = await supabase
       .from('images')
       .delete()
+      .match(ownerFilter())
       .eq('id', image.id)
 
     if (error) throw error
 
     console.log('[DELETE IMAGE] Successfully deleted from database:', image.id)
 
-    // Delete from blob storage (fire and forget)
+    // Delete from storage (fire and forget)
     if (image.url) {
-      import('@/lib/storage/blob-storage').then(({ deleteImageFromBlob }) => {
-        deleteImageFromBlob(image.url).catch(err => 
-          console.error('[DELETE IMAGE] Failed to delete from blob storage:', err)
+      import('@/lib/storage/media-storage').then(({ deleteFromStorage }) => {
+        deleteFromStorage(image.url).catch(err => 
+          console.error('[DELETE IMAGE] Failed to delete from storage:', err)
         )
       })
     }
@@ -589,6 +761,7 @@ export async function deleteImage(imageId: string): Promise<boolean> {
 
 // Search chats (searches both titles and message content)
 export async function searchChats(query: string): Promise<ChatSummary[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -599,19 +772,23 @@ export async function searchChats(query: string): Promise<ChatSummary[]> {
       .rpc('search_chats_with_content', { search_query: query })
       
     if (!enhancedError && enhancedResults) {
+      const { user_id: userId } = ownerFilter()
+
       // Convert to ChatSummary format
-      return enhancedResults.map((result: any) => ({
-        id: result.id,
-        title: result.title,
-        model: result.model,
-        created_at: result.created_at,
-        updated_at: result.updated_at,
-        user_id: result.user_id,
-        message_count: result.message_count,
-        image_count: result.image_count,
-        video_count: result.video_count,
-        last_message_at: result.last_message_at
-      }))
+      return enhancedResults
+        .filter((result: any) => !userId || result.user_id === userId)
+        .map((result: any) => ({
+          id: result.id,
+          title: result.title,
+          model: result.model,
+          created_at: result.created_at,
+          updated_at: result.updated_at,
+          user_id: result.user_id,
+          message_count: result.message_count,
+          image_count: result.image_count,
+          video_count: result.video_count,
+          last_message_at: result.last_message_at
+        }))
     }
     
     // Fallback to simple title search if function doesn't exist
@@ -619,6 +796,7 @@ export async function searchChats(query: string): Promise<ChatSummary[]> {
     const { data, error } = await supabase
       .from('chat_summaries')
       .select('*')
+      .match(ownerFilter())
       .or(`title.ilike.%${query}%`)
       .order('updated_at', { ascending: false })
       .limit(20)
@@ -640,6 +818,7 @@ export async function saveVideo(
   chatId?: string,
   messageId?: string
 ): Promise<StoredVideo | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     console.log('[SAVE VIDEO] Persistence not configured')
     return null
@@ -691,7 +870,7 @@ export async function saveVideo(
     
     const { data, error } = await supabase
       .from('videos')
-      .insert(insertData)
+      .insert(withUserId(insertData))
       .select()
       .single()
 
@@ -701,6 +880,16 @@ export async function saveVideo(
     }
     
     console.log('[SAVE VIDEO] Successfully saved to database:', data)
+
+    // Copy finished videos off the provider's host (its URLs expire) in the background
+    if (data.status === 'completed') {
+      queueMediaArchival('video', data.id, 'url', data.url)
+      queueMediaArchival('video', data.id, 'thumbnail_url', data.thumbnail_url)
+    }
+
+    // Embed for library search in the background
+    indexLibraryItem('video', data.id, libraryItemText('video', { prompt: video.prompt }))
+
     return data
   } catch (error: any) {
     // Log all errors for debugging
@@ -717,6 +906,7 @@ export async function saveVideo(
 
 // Get videos for a chat
 export async function getChatVideos(chatId: string): Promise<StoredVideo[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -725,6 +915,7 @@ export async function getChatVideos(chatId: string): Promise<StoredVideo[]> {
     const { data, error } = await supabase
       .from('videos')
       .select('*')
+      .match(ownerFilter())
       .eq('chat_id', chatId)
       .order('created_at', { ascending: false })
 
@@ -741,6 +932,7 @@ export async function getChatVideos(chatId: string): Promise<StoredVideo[]> {
 
 // Get all videos (for gallery)
 export async function getAllVideos(limit = 100): Promise<StoredVideo[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -749,6 +941,7 @@ export async function getAllVideos(limit = 100): Promise<StoredVideo[]> {
     const { data, error } = await supabase
       .from('videos')
       .select('*')
+      .match(ownerFilter())
       .order('created_at', { ascending: false })
       .limit(limit)
 
@@ -765,6 +958,7 @@ export async function getAllVideos(limit = 100): Promise<StoredVideo[]> {
 
 // Delete a video
 export async function deleteVideo(videoId: string): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return false
   }
@@ -773,7 +967,8 @@ export async function deleteVideo(videoId: string): Promise<boolean> {
     // Get video URL first for cleanup
     const { data: video, error: fetchError } = await supabase
       .from('videos')
-      .select('url')
+      .select('url, thumbnail_url')
+      .match(ownerFilter())
       .eq('id', videoId)
       .single()
 
@@ -783,12 +978,21 @@ export async function deleteVideo(videoId: string): Promise<boolean> {
     const { error } = await supabase
       .from('videos')
       .delete()
+      .match(ownerFilter())
       .eq('id', videoId)
 
     if (error) throw error
 
-    // Note: Videos are typically hosted on external services (like Replicate)
-    // so we don't need to delete from blob storage like we do with images
+    // Delete the stored copy; videos still on the provider's host are left alone
+    if (video) {
+      import('@/lib/storage/media-storage').then(({ deleteFromStorage }) => {
+        for (const url of [video.url, video.thumbnail_url].filter(Boolean)) {
+          deleteFromStorage(url).catch(err =>
+            console.error('[DELETE VIDEO] Failed to delete from storage:', err)
+          )
+        }
+      })
+    }
 
     return true
   } catch (error: any) {
@@ -802,6 +1006,7 @@ export async function deleteVideo(videoId: string): Promise<boolean> {
 
 // Get source images for a multi-image edit
 export async function getSourceImagesForEdit(editedImageId: string): Promise<StoredImage[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -843,6 +1048,7 @@ export async function getSourceImagesForEdit(editedImageId: string): Promise<Sto
     const { data: fullImages, error: fetchError } = await supabase
       .from('images')
       .select('*')
+      .match(ownerFilter())
       .in('id', sourceImageIds)
     
     if (fetchError) {
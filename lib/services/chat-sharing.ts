@@ -0,0 +1,326 @@
+import { randomBytes } from 'crypto'
+import {
+  getSupabase,
+  isPersistenceConfigured,
+  ownerFilter,
+  withUserId,
+  ChatShare,
+  Message
+} from '@/lib/database/supabase'
+import { getChat } from '@/lib/services/chat-persistence'
+import { getStorageAccess } from '@/lib/services/storage-access'
+import { getStorageProvider } from '@/lib/storage'
+import { mediaFileExtension, replaceMediaUrls, storeMediaFromUrl, type MediaKind } from '@/lib/storage/media-storage'
+import { CHAT_STREAM_EVENT_VERSION, type ChatStreamEvent } from '@/lib/chat-stream-events'
+import { cleanMessageContent, getMessageEvents, type MessageMetadata } from '@/lib/message-metadata'
+
+/**
+ * Read-only share links. Publishing copies the chat as it is now (messages of
+ * the active branch, generated media, search citations) into an immutable
+ * snapshot stored with the link, and copies its media into storage under
+ * shares/<token>/ so the page keeps working when the originals are deleted
+ * or their provider URLs expire.
+ */
+
+// Bump when the snapshot shape changes incompatibly
+export const SHARE_SNAPSHOT_VERSION = 1
+
+export interface SharedMessage {
+  id: string
+  role: Message['role']
+  content: string
+  created_at: string
+  attachments?: any[]
+  metadata?: MessageMetadata
+}
+
+export interface SharedImage {
+  id: string
+  url: string
+  prompt: string
+  model: string
+  created_at: string
+}
+
+export interface SharedVideo {
+  id: string
+  url: string
+  thumbnail_url?: string
+  prompt: string
+  duration: number
+  aspect_ratio: string
+  model: string
+  created_at: string
+}
+
+export interface SharedAudio {
+  id: string
+  url: string
+  text: string
+  mime_type: string
+  created_at: string
+}
+
+export interface ChatShareSnapshot {
+  version: number
+  chat: { title: string; model: string; created_at: string }
+  messages: SharedMessage[]
+  images: SharedImage[]
+  videos: SharedVideo[]
+  audios: SharedAudio[]
+}
+
+export interface SharedChat {
+  share: Pick<ChatShare, 'id' | 'title' | 'redact_tool_results' | 'expires_at' | 'created_at'>
+  snapshot: ChatShareSnapshot
+}
+
+export interface PublishOptions {
+  expiresAt?: Date | null
+  // Drop tool call arguments and results, which can include private data the tools returned
+  redactToolResults?: boolean
+}
+
+// Everything except the snapshot, which only the share page needs
+const SHARE_COLUMNS = 'id, token, chat_id, user_id, title, redact_tool_results, expires_at, revoked_at, view_count, created_at'
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/
+
+interface MediaRef {
+  url: string
+  kind: MediaKind
+}
+
+function requireDatabase() {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+  return supabase
+}
+
+export function isShareActive(share: Pick<ChatShare, 'revoked_at' | 'expires_at'>): boolean {
+  if (share.revoked_at) return false
+  return !share.expires_at || new Date(share.expires_at).getTime() > Date.now()
+}
+
+function redactEvents(events: ChatStreamEvent[]): ChatStreamEvent[] {
+  return events.map(event => event.type === 'tool_call'
+    ? { ...event, data: { ...event.data, args: {}, result: undefined } }
+    : event)
+}
+
+function toSharedMessage(message: Message, redactToolResults: boolean): SharedMessage {
+  // Legacy in-text markers become events here, so the snapshot only holds the current format
+  // Workflow runs stay private to their owner, so viewers get no plan to load
+  let events: ChatStreamEvent[] = getMessageEvents(message).filter(event => event.type !== 'workflow_started')
+  let content = cleanMessageContent(message.content)
+  if (redactToolResults) {
+    events = redactEvents(events)
+    content = content.replace(/\[TOOL_CALL\][\s\S]*?\[\/TOOL_CALL\]/g, '').trim()
+  }
+
+  return {
+    id: message.id,
+    role: message.role,
+    content,
+    created_at: message.created_at,
+    attachments: message.attachments?.length ? message.attachments : undefined,
+    metadata: events.length > 0 ? { streamEventVersion: CHAT_STREAM_EVENT_VERSION, events } : undefined,
+  }
+}
+
+function mediaKindOf(contentType: string | undefined): MediaKind | null {
+  const kind = contentType?.split('/')[0]
+  return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : null
+}
+
+// Every media URL the snapshot refers to, in the rows and inside messages
+function collectMedia(snapshot: ChatShareSnapshot): MediaRef[] {
+  const refs: MediaRef[] = []
+  const add = (url: unknown, kind: MediaKind) => {
+    if (typeof url === 'string' && url) refs.push({ url, kind })
+  }
+
+  snapshot.images.forEach(image => add(image.url, 'image'))
+  snapshot.videos.forEach(video => {
+    add(video.url, 'video')
+    add(video.thumbnail_url, 'image')
+  })
+  snapshot.audios.forEach(audio => add(audio.url, 'audio'))
+
+  for (const message of snapshot.messages) {
+    for (const attachment of message.attachments || []) {
+      const kind = mediaKindOf(attachment?.contentType)
+      if (kind) add(attachment.url, kind)
+    }
+    for (const event of message.metadata?.events || []) {
+      if (event.type === 'image_generated' && event.data.success) {
+        event.data.images.forEach(image => add(image.url, 'image'))
+      } else if (event.type === 'video_started') {
+        add(event.data.url, 'video')
+        add(event.data.sourceImage, 'image')
+      } else if (event.type === 'tts_ready') {
+        add(event.data.audio, 'audio')
+      }
+    }
+  }
+
+  return refs
+}
+
+// Copy media into storage under shares/<token>/; returns the new URL of each
+// copied original. Media that can't be copied keeps its original URL, and so
+// do stored objects the sharer can't read themselves.
+async function copyMedia(token: string, refs: MediaRef[]): Promise<Map<string, string>> {
+  const storage = getStorageProvider()
+  const copies = new Map<string, string>()
+  if (!storage) return copies
+
+  let index = 0
+  for (const { url, kind } of refs) {
+    if (copies.has(url)) continue
+    const key = `shares/${token}/${index++}.${mediaFileExtension(url, kind)}`
+
+    try {
+      const storedKey = storage.keyFromUrl(url)
+      if (storedKey) {
+        if (await getStorageAccess(storedKey, url) === 'denied') continue
+        const object = await storage.get(storedKey)
+        if (!object) continue
+        const stored = await storage.put(key, object.data, { contentType: object.contentType })
+        copies.set(url, stored.url)
+      } else if (/^(https?:|data:)/.test(url)) {
+        const stored = await storeMediaFromUrl(url, kind, key)
+        copies.set(url, stored.url)
+      }
+    } catch (error) {
+      console.warn('[SHARE] Could not copy media; the snapshot keeps its original URL:', error)
+    }
+  }
+
+  return copies
+}
+
+async function deleteMediaCopies(token: string): Promise<void> {
+  const storage = getStorageProvider()
+  if (!storage) return
+
+  try {
+    const objects = await storage.list(`shares/${token}/`)
+    await Promise.all(objects.map(object => storage.delete(object.key)))
+  } catch (error) {
+    console.warn('[SHARE] Failed to delete media copies of a revoked link:', error)
+  }
+}
+
+// Publish a chat under a new link; null when the chat doesn't exist
+export async function publishChat(chatId: string, options: PublishOptions = {}): Promise<ChatShare | null> {
+  const db = requireDatabase()
+  const chatData = await getChat(chatId)
+  if (!chatData) return null
+
+  const redactToolResults = !!options.redactToolResults
+  const { chat, messages, images = [], videos = [] } = chatData
+
+  const { data: audios, error: audiosError } = await db
+    .from('audios')
+    .select('id, url, text, mime_type, created_at')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true })
+  if (audiosError) {
+    console.warn('[SHARE] Error fetching audio:', audiosError)
+  }
+
+  const token = randomBytes(24).toString('base64url')
+  const snapshot: ChatShareSnapshot = {
+    version: SHARE_SNAPSHOT_VERSION,
+    chat: { title: chat.title, model: chat.model, created_at: chat.created_at },
+    // System prompts stay private
+    messages: messages
+      .filter(message => message.role !== 'system')
+      .map(message => toSharedMessage(message, redactToolResults)),
+    images: images.map(({ id, url, prompt, model, created_at }) => ({ id, url, prompt, model, created_at })),
+    videos: videos
+      .filter(video => video.status === 'completed' && video.url)
+      .map(({ id, url, thumbnail_url, prompt, duration, aspect_ratio, model, created_at }) => ({
+        id, url, thumbnail_url, prompt, duration, aspect_ratio, model, created_at
+      })),
+    audios: audios || [],
+  }
+
+  const copies = await copyMedia(token, collectMedia(snapshot))
+
+  const { data, error } = await db
+    .from('chat_shares')
+    .insert(withUserId({
+      token,
+      chat_id: chatId,
+      title: chat.title,
+      snapshot: replaceMediaUrls(snapshot, copies),
+      redact_tool_results: redactToolResults,
+      expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+    }))
+    .select(SHARE_COLUMNS)
+    .single()
+
+  if (error) {
+    await deleteMediaCopies(token)
+    throw error
+  }
+  return data
+}
+
+// Links of a chat that still work, newest first
+export async function getChatShares(chatId: string): Promise<ChatShare[]> {
+  const db = requireDatabase()
+
+  const { data, error } = await db
+    .from('chat_shares')
+    .select(SHARE_COLUMNS)
+    .match(ownerFilter())
+    .eq('chat_id', chatId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).filter(isShareActive)
+}
+
+// Revoke one link of a chat, or all of them without a token; returns how many were revoked
+export async function revokeChatShares(chatId: string, token?: string): Promise<number> {
+  const db = requireDatabase()
+
+  let query = db
+    .from('chat_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .match(ownerFilter())
+    .eq('chat_id', chatId)
+    .is('revoked_at', null)
+  if (token) query = query.eq('token', token)
+
+  const { data, error } = await query.select('token')
+  if (error) throw error
+
+  const revoked = data || []
+  await Promise.all(revoked.map(share => deleteMediaCopies(share.token)))
+  return revoked.length
+}
+
+/**
+ * The snapshot behind a link, for anyone holding the token. Null for unknown,
+ * revoked and expired links. Counts as a view.
+ */
+export async function getSharedChat(token: string): Promise<SharedChat | null> {
+  if (!TOKEN_PATTERN.test(token)) return null
+  const db = requireDatabase()
+
+  const { data, error } = await db.rpc('get_shared_chat', { p_token: token })
+  if (error) throw error
+
+  const row = data?.[0]
+  if (!row) return null
+
+  const { snapshot, ...share } = row
+  return { share, snapshot }
+}
@@ -0,0 +1,401 @@
+import {
+  getSupabase,
+  isPersistenceConfigured,
+  ownerFilter,
+  withUserId,
+  Collection,
+  CollectionItem,
+  CollectionItemType
+} from '@/lib/database/supabase'
+
+export const COLLECTION_ITEM_TYPES: CollectionItemType[] = ['image', 'video', 'audio', 'chat']
+
+// An item as the client refers to it: by database id or by the id the browser created it with
+export interface CollectionItemRef {
+  type: CollectionItemType
+  id: string
+}
+
+export interface CollectionSummary extends Collection {
+  item_count: number
+  item_counts: Record<CollectionItemType, number>
+}
+
+export interface CollectionItemDetail extends CollectionItem {
+  local_id?: string // Id galleries use for the item (metadata.localId), when it differs
+  title?: string
+  url?: string
+  thumbnail_url?: string
+}
+
+export interface CollectionWithItems extends CollectionSummary {
+  items: CollectionItemDetail[]
+}
+
+const TABLES: Record<CollectionItemType, string> = {
+  image: 'images',
+  video: 'videos',
+  audio: 'audios',
+  chat: 'chats',
+}
+
+// Chats created offline keep their browser id in metadata.clientId; media in metadata.localId
+const CLIENT_ID_FIELDS: Record<CollectionItemType, string> = {
+  image: 'localId',
+  video: 'localId',
+  audio: 'localId',
+  chat: 'clientId',
+}
+
+const DETAIL_COLUMNS: Record<CollectionItemType, string> = {
+  image: 'id, url, prompt, metadata',
+  video: 'id, url, thumbnail_url, prompt, metadata',
+  audio: 'id, url, text, metadata',
+  chat: 'id, title, metadata',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function requireDatabase() {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+  return supabase
+}
+
+function quoteList(values: string[]): string {
+  return `(${values.map(value => `"${value.replace(/"/g, '\\"')}"`).join(',')})`
+}
+
+function emptyCounts(): Record<CollectionItemType, number> {
+  return { image: 0, video: 0, audio: 0, chat: 0 }
+}
+
+// Map client ids to database ids; ids that match nothing are left out
+async function resolveItemIds(type: CollectionItemType, ids: string[]): Promise<Map<string, string>> {
+  const db = requireDatabase()
+  const resolved = new Map<string, string>()
+  if (ids.length === 0) return resolved
+
+  const clientIdField = CLIENT_ID_FIELDS[type]
+  const uuids = ids.filter(id => UUID_PATTERN.test(id))
+  const filters = [`metadata->>${clientIdField}.in.${quoteList(ids)}`]
+  if (uuids.length > 0) filters.push(`id.in.${quoteList(uuids)}`)
+
+  const { data, error } = await db
+    .from(TABLES[type])
+    .select('id, metadata')
+    .match(ownerFilter())
+    .or(filters.join(','))
+  if (error) throw error
+
+  for (const row of data || []) {
+    resolved.set(row.id, row.id)
+    const clientId = row.metadata?.[clientIdField]
+    if (clientId) resolved.set(clientId, row.id)
+  }
+  return resolved
+}
+
+// Fetch the rows items point at, keyed by type and database id
+async function loadItemRecords(items: Pick<CollectionItem, 'item_type' | 'item_id'>[]) {
+  const db = requireDatabase()
+  const records = new Map<string, any>()
+
+  await Promise.all(COLLECTION_ITEM_TYPES.map(async type => {
+    const ids = [...new Set(items.filter(item => item.item_type === type).map(item => item.item_id))]
+    if (ids.length === 0) return
+
+    const { data, error } = await db.from(TABLES[type]).select(DETAIL_COLUMNS[type]).in('id', ids)
+    if (error) throw error
+    for (const row of (data || []) as any[]) {
+      records.set(`${type}:${row.id}`, row)
+    }
+  }))
+
+  return records
+}
+
+function toItemDetail(item: CollectionItem, record: any): CollectionItemDetail {
+  if (!record) return item
+
+  const localId = record.metadata?.[CLIENT_ID_FIELDS[item.item_type]]
+  return {
+    ...item,
+    local_id: localId && localId !== item.item_id ? localId : undefined,
+    title: record.title || record.prompt || record.text,
+    url: record.url,
+    thumbnail_url: record.thumbnail_url,
+  }
+}
+
+// First image or video in the collection, for collections without an explicit cover
+function defaultCoverUrl(items: CollectionItem[], records: Map<string, any>): string | null {
+  for (const item of [...items].sort((a, b) => a.position - b.position)) {
+    const record = records.get(`${item.item_type}:${item.item_id}`)
+    if (item.item_type === 'image' && record?.url) return record.url
+    if (item.item_type === 'video' && (record?.thumbnail_url || record?.url)) {
+      return record.thumbnail_url || record.url
+    }
+  }
+  return null
+}
+
+function summarize(collection: Collection, items: CollectionItem[], records: Map<string, any>): CollectionSummary {
+  const itemCounts = emptyCounts()
+  for (const item of items) itemCounts[item.item_type]++
+
+  return {
+    ...collection,
+    cover_url: collection.cover_url || defaultCoverUrl(items, records),
+    item_count: items.length,
+    item_counts: itemCounts,
+  }
+}
+
+// List collections, newest first
+export async function getCollections(limit = 50, offset = 0): Promise<CollectionSummary[]> {
+  const db = requireDatabase()
+
+  const { data, error } = await db
+    .from('collections')
+    .select('*, collection_items(id, item_type, item_id, position)')
+    .match(ownerFilter())
+    .order('updated_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  if (error) throw error
+
+  const collections = (data || []) as (Collection & { collection_items: CollectionItem[] })[]
+
+  // Only the first visual item of each collection is needed for default covers
+  const coverCandidates = collections
+    .filter(collection => !collection.cover_url)
+    .flatMap(collection =>
+      [...collection.collection_items]
+        .sort((a, b) => a.position - b.position)
+        .filter(item => item.item_type === 'image' || item.item_type === 'video')
+        .slice(0, 1)
+    )
+  const records = await loadItemRecords(coverCandidates)
+
+  return collections.map(({ collection_items, ...collection }) =>
+    summarize(collection, collection_items, records)
+  )
+}
+
+export async function getCollection(collectionId: string): Promise<CollectionWithItems | null> {
+  const db = requireDatabase()
+  if (!UUID_PATTERN.test(collectionId)) return null
+
+  const { data: collection, error } = await db
+    .from('collections')
+    .select('*')
+    .match(ownerFilter())
+    .eq('id', collectionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!collection) return null
+
+  const { data: items, error: itemsError } = await db
+    .from('collection_items')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: true })
+  if (itemsError) throw itemsError
+
+  const records = await loadItemRecords(items || [])
+  return {
+    ...summarize(collection, items || [], records),
+    items: (items || []).map(item => toItemDetail(item, records.get(`${item.item_type}:${item.item_id}`))),
+  }
+}
+
+export async function createCollection(input: {
+  name: string
+  description?: string
+  coverUrl?: string
+  items?: CollectionItemRef[]
+}): Promise<{ collection: CollectionWithItems; unresolved: CollectionItemRef[] }> {
+  const db = requireDatabase()
+
+  const { data, error } = await db
+    .from('collections')
+    .insert(withUserId({
+      name: input.name,
+      description: input.description || null,
+      cover_url: input.coverUrl || null,
+    }))
+    .select('id')
+    .single()
+  if (error) throw error
+
+  const { unresolved } = await addCollectionItems(data.id, input.items || [])
+  return { collection: (await getCollection(data.id))!, unresolved }
+}
+
+// Returns false when the collection doesn't exist
+export async function updateCollection(
+  collectionId: string,
+  updates: { name?: string; description?: string | null; coverUrl?: string | null }
+): Promise<boolean> {
+  const db = requireDatabase()
+
+  const { data, error } = await db
+    .from('collections')
+    .update({
+      ...(updates.name !== undefined ? { name: updates.name } : {}),
+      ...(updates.description !== undefined ? { description: updates.description } : {}),
+      ...(updates.coverUrl !== undefined ? { cover_url: updates.coverUrl } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .match(ownerFilter())
+    .eq('id', collectionId)
+    .select('id')
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+export async function deleteCollection(collectionId: string): Promise<boolean> {
+  const db = requireDatabase()
+
+  const { data, error } = await db
+    .from('collections')
+    .delete()
+    .match(ownerFilter())
+    .eq('id', collectionId)
+    .select('id')
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+async function touchCollection(collectionId: string) {
+  await requireDatabase()
+    .from('collections')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', collectionId)
+}
+
+/**
+ * Append items to the end of a collection. Items already in it are left
+ * where they are; refs that match no row are returned as unresolved.
+ */
+export async function addCollectionItems(
+  collectionId: string,
+  refs: CollectionItemRef[]
+): Promise<{ added: number; unresolved: CollectionItemRef[] }> {
+  const db = requireDatabase()
+  if (refs.length === 0) return { added: 0, unresolved: [] }
+
+  const unresolved: CollectionItemRef[] = []
+  const rows: Pick<CollectionItem, 'item_type' | 'item_id'>[] = []
+
+  for (const type of COLLECTION_ITEM_TYPES) {
+    const ids = refs.filter(ref => ref.type === type).map(ref => ref.id)
+    const resolved = await resolveItemIds(type, ids)
+    for (const id of ids) {
+      const itemId = resolved.get(id)
+      if (itemId) {
+        rows.push({ item_type: type, item_id: itemId })
+      } else {
+        unresolved.push({ type, id })
+      }
+    }
+  }
+  if (rows.length === 0) return { added: 0, unresolved }
+
+  const { data: last, error: positionError } = await db
+    .from('collection_items')
+    .select('position')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (positionError) throw positionError
+
+  const start = last ? last.position + 1 : 0
+  const { data, error } = await db
+    .from('collection_items')
+    .upsert(
+      rows.map((row, index) => ({ ...row, collection_id: collectionId, position: start + index })),
+      { onConflict: 'collection_id,item_type,item_id', ignoreDuplicates: true }
+    )
+    .select('id')
+  if (error) throw error
+
+  await touchCollection(collectionId)
+  return { added: (data || []).length, unresolved }
+}
+
+export async function removeCollectionItems(collectionId: string, refs: CollectionItemRef[]): Promise<number> {
+  const db = requireDatabase()
+  let removed = 0
+
+  for (const type of COLLECTION_ITEM_TYPES) {
+    const ids = refs.filter(ref => ref.type === type).map(ref => ref.id)
+    const itemIds = [...new Set((await resolveItemIds(type, ids)).values())]
+    if (itemIds.length === 0) continue
+
+    const { data, error } = await db
+      .from('collection_items')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('item_type', type)
+      .in('item_id', itemIds)
+      .select('id')
+    if (error) throw error
+    removed += (data || []).length
+  }
+
+  if (removed > 0) await touchCollection(collectionId)
+  return removed
+}
+
+/**
+ * Reorder a collection. `itemIds` are collection item ids in their new order;
+ * items not listed keep their relative order after the listed ones.
+ */
+export async function reorderCollectionItems(collectionId: string, itemIds: string[]): Promise<boolean> {
+  const db = requireDatabase()
+
+  const { data: items, error } = await db
+    .from('collection_items')
+    .select('id, position')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: true })
+  if (error) throw error
+
+  const known = new Set((items || []).map(item => item.id))
+  if (itemIds.some(id => !known.has(id))) return false
+
+  const listed = new Set(itemIds)
+  const order = [...itemIds, ...(items || []).map(item => item.id).filter(id => !listed.has(id))]
+
+  await Promise.all(order.map(async (id, position) => {
+    const { error: updateError } = await db
+      .from('collection_items')
+      .update({ position })
+      .eq('id', id)
+    if (updateError) throw updateError
+  }))
+
+  await touchCollection(collectionId)
+  return true
+}
+
+// Parse and validate item refs from a request body
+export function parseItemRefs(value: unknown): CollectionItemRef[] | null {
+  if (!Array.isArray(value)) return null
+  const refs: CollectionItemRef[] = []
+  for (const entry of value) {
+    if (
+      !entry ||
+      typeof entry.id !== 'string' ||
+      !COLLECTION_ITEM_TYPES.includes(entry.type)
+    ) {
+      return null
+    }
+    refs.push({ type: entry.type, id: entry.id })
+  }
+  return refs
+}
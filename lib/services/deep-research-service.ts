@@ -3,6 +3,8 @@ import { PerplexityClient, PerplexityMessage } from '../perplexity-client';
 import { PerplexityAsyncClient, DeepResearchOptions } from '../perplexity-async-client';
 import { getPerplexityQueue } from '../perplexity-queue';
 import { getPerplexityCache } from '../perplexity-cache';
+import { corpusMatchTitle, corpusSourceUrl, searchCorpus, type CorpusMatch, type CorpusScope } from '../research-corpus';
+import { GoogleGenerativeAI } from '@google/generative-ai';
 import { EventEmitter } from 'events';
 
 // Deep Research Phase Schema
@@ -30,6 +32,7 @@ export const DeepResearchStatusSchema = z.object({
     phase: DeepResearchPhaseSchema,
     content: z.string(),
     sources: z.array(z.string()).optional(),
+    sourceTitles: z.record(z.string()).optional(), // By URL, for sources without a page title (documents)
     confidence: z.number().min(0).max(1).optional()
   })).optional(),
   error: z.string().optional()
@@ -46,6 +49,7 @@ export interface DeepResearchRequestOptions {
   excludeDomains?: string[]; // domains to exclude from search
   language?: string; // response language
   streamProgress?: boolean; // stream intermediate findings
+  corpus?: CorpusScope; // research the user's documents instead of, or as well as, the web
 }
 
 // Map depth to reasoning effort
@@ -55,6 +59,9 @@ const DEPTH_TO_EFFORT: Record<'surface' | 'moderate' | 'deep', number> = {
   deep: 90
 };
 
+// Model that answers from retrieved document passages
+const CORPUS_SYNTHESIS_MODEL = 'gemini-2.0-flash';
+
 // Phase progress weights (total should be 100)
 const PHASE_WEIGHTS: Record<DeepResearchPhase, number> = {
   initializing: 5,
@@ -136,7 +143,8 @@ export class DeepResearchService extends EventEmitter {
   ): Promise<{ taskId: string; isAsync: boolean }> {
     const taskId = `deep_research_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const reasoningEffort = this.calculateReasoningEffort(options);
-    const useAsync = this.shouldUseAsync(query, options);
+    // Document research answers from retrieved passages in one model call
+    const useAsync = !options?.corpus && this.shouldUseAsync(query, options);
     
     // Initialize research status
     const status: DeepResearchStatus = {
@@ -152,12 +160,16 @@ export class DeepResearchService extends EventEmitter {
     this.activeResearch.set(taskId, status);
     this.emit('research:started', { taskId, query, options });
     
-    if (useAsync) {
+    // Failures are reported through the 'failed' status; nothing awaits these
+    const logFailure = (error: unknown) => console.error(`[DeepResearchService] Research ${taskId} failed:`, error);
+    if (options?.corpus) {
+      this.processCorpusResearch(taskId, query, reasoningEffort, options.corpus, options, onProgress).catch(logFailure);
+    } else if (useAsync) {
       // Start async deep research
-      this.processAsyncDeepResearch(taskId, query, reasoningEffort, options, onProgress);
+      this.processAsyncDeepResearch(taskId, query, reasoningEffort, options, onProgress).catch(logFailure);
     } else {
       // Start sync streaming deep research
-      this.processSyncDeepResearch(taskId, query, reasoningEffort, options, onProgress);
+      this.processSyncDeepResearch(taskId, query, reasoningEffort, options, onProgress).catch(logFailure);
     }
     
     return { taskId, isAsync: useAsync };
@@ -322,6 +334,137 @@ export class DeepResearchService extends EventEmitter {
     }
   }
 
+  /**
+   * Research over the user's documents: retrieve the passages closest to the
+   * query (and to each focus area) and have Gemini answer from them with [n]
+   * citations. In 'mixed' mode a web search for the query runs first and its
+   * results are cited alongside; document text is never sent to the search API.
+   */
+  private async processCorpusResearch(
+    taskId: string,
+    query: string,
+    reasoningEffort: number,
+    corpus: CorpusScope,
+    options?: DeepResearchRequestOptions,
+    onProgress?: (status: DeepResearchStatus) => void
+  ): Promise<void> {
+    const status = this.activeResearch.get(taskId);
+    if (!status) return;
+
+    const report = (updates: Partial<DeepResearchStatus>) => {
+      this.updateResearchStatus(taskId, updates);
+      const currentStatus = this.activeResearch.get(taskId);
+      if (onProgress && currentStatus) onProgress(currentStatus);
+    };
+    const isCancelled = () => this.activeResearch.get(taskId)?.status === 'cancelled';
+
+    try {
+      // Numbered in this order: web results first, then document passages
+      const sources: { url: string; title: string; excerpt: string }[] = [];
+      let webAnswer = '';
+
+      if (corpus.mode === 'mixed') {
+        report({ status: 'processing', phase: 'gathering_context', progress: this.calculateProgressFromPhase('gathering_context') });
+        const response = await this.syncClient.search(
+          [
+            { role: 'system', content: 'You are a research assistant providing comprehensive, well-sourced information.' },
+            { role: 'user', content: query }
+          ],
+          { search_mode: 'web', return_related_questions: false, return_images: false }
+        );
+        webAnswer = response.choices?.[0]?.message?.content || '';
+        for (const result of response.search_results || []) {
+          sources.push({ url: result.url, title: result.title, excerpt: result.snippet || '' });
+        }
+        if (isCancelled()) return;
+      }
+
+      report({ status: 'processing', phase: 'deep_analysis', progress: this.calculateProgressFromPhase('deep_analysis') });
+      // More passages for more effort: 4 at the lowest, 10 at the highest
+      const matchCount = Math.max(4, Math.round(reasoningEffort / 10));
+      const queries = [query, ...(options?.focusAreas || []).map(area => `${query} ${area}`)];
+      const matches = new Map<string, CorpusMatch>();
+      for (const corpusQuery of queries) {
+        for (const match of await searchCorpus(corpusQuery, corpus.documentIds, matchCount)) {
+          const url = corpusSourceUrl(match.documentId, match.position);
+          if (!matches.has(url)) matches.set(url, match);
+        }
+      }
+      if (matches.size === 0 && corpus.mode === 'corpus') {
+        throw new Error('The selected documents have no passages to research');
+      }
+      for (const [url, match] of matches) {
+        sources.push({ url, title: corpusMatchTitle(match), excerpt: match.content });
+      }
+      if (isCancelled()) return;
+
+      const sourceUrls = sources.map(source => source.url);
+      const sourceTitles = Object.fromEntries(sources.map(source => [source.url, source.title]));
+      report({
+        phase: 'synthesizing',
+        progress: this.calculateProgressFromPhase('synthesizing'),
+        findings: [{
+          phase: 'deep_analysis',
+          content: sources.map((source, i) => `[${i + 1}] ${source.title}\n${source.excerpt.slice(0, 500)}`).join('\n\n'),
+          sources: sourceUrls,
+          sourceTitles,
+          confidence: 0.8
+        }]
+      });
+
+      const content = await this.synthesizeFromSources(query, sources, webAnswer, reasoningEffort, options);
+      if (isCancelled()) return;
+
+      report({
+        status: 'completed',
+        phase: 'finalizing',
+        progress: 100,
+        findings: [{
+          phase: 'finalizing',
+          content,
+          sources: sourceUrls,
+          sourceTitles,
+          confidence: 0.9
+        }]
+      });
+    } catch (error) {
+      this.updateResearchStatus(taskId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Answer the query from numbered sources only, citing them as [n]
+   */
+  private async synthesizeFromSources(
+    query: string,
+    sources: { url: string; title: string; excerpt: string }[],
+    webAnswer: string,
+    reasoningEffort: number,
+    options?: DeepResearchRequestOptions
+  ): Promise<string> {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+
+    const prompt = `Research question: ${query}
+${options?.focusAreas?.length ? `Focus areas: ${options.focusAreas.join(', ')}\n` : ''}${options?.language ? `Answer in: ${options.language}\n` : ''}
+Sources:
+${sources.map((source, i) => `[${i + 1}] ${source.title}${source.url.startsWith('corpus://') ? ' (provided document)' : ` (${source.url})`}\n${source.excerpt}`).join('\n\n')}
+${webAnswer ? `\nSummary of the web search results:\n${webAnswer}\n` : ''}
+Write a ${reasoningEffort > 70 ? 'thorough, well-structured' : 'concise'} research report in Markdown that answers the question.
+- Use only the sources above; say so when they don't answer part of the question
+- End every sentence that states a fact with the number of each source supporting it, e.g. [1] or [2][3]
+- Don't add a references or sources section`;
+
+    const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY).getGenerativeModel({ model: CORPUS_SYNTHESIS_MODEL });
+    const result = await model.generateContent(prompt);
+    return result.response.text();
+  }
+
   /**
    * Stream deep research results
    */
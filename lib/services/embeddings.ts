@@ -0,0 +1,54 @@
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai'
+import { createHash } from 'crypto'
+
+// Gemini text embeddings; vector columns in the database use the same size
+export const EMBEDDING_MODEL = 'text-embedding-004'
+export const EMBEDDING_DIMENSIONS = 768
+
+// batchEmbedContents accepts at most 100 requests
+const MAX_BATCH_SIZE = 100
+// Longer inputs are truncated by the API anyway; keep requests small
+const MAX_INPUT_CHARS = 8000
+
+export type EmbeddingPurpose = 'document' | 'query'
+
+export function isEmbeddingConfigured(): boolean {
+  return !!process.env.GEMINI_API_KEY
+}
+
+export function hashEmbeddingInput(text: string): string {
+  return createHash('sha256').update(`${EMBEDDING_MODEL}:${text}`).digest('hex')
+}
+
+/**
+ * Embed texts with Gemini, in input order. Documents and queries use
+ * different task types so retrieval ranks them against each other.
+ */
+export async function embedTexts(texts: string[], purpose: EmbeddingPurpose = 'document'): Promise<number[][]> {
+  if (!isEmbeddingConfigured()) {
+    throw new Error('GEMINI_API_KEY is not configured')
+  }
+  if (texts.length === 0) return []
+
+  const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!).getGenerativeModel({ model: EMBEDDING_MODEL })
+  const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT
+
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+    const batch = texts.slice(i, i + MAX_BATCH_SIZE)
+    const response = await model.batchEmbedContents({
+      requests: batch.map(text => ({
+        content: { role: 'user', parts: [{ text: text.slice(0, MAX_INPUT_CHARS) }] },
+        taskType
+      }))
+    })
+    embeddings.push(...response.embeddings.map(embedding => embedding.values))
+  }
+
+  return embeddings
+}
+
+export async function embedText(text: string, purpose: EmbeddingPurpose = 'document'): Promise<number[]> {
+  const [embedding] = await embedTexts([text], purpose)
+  return embedding
+}
@@ -1,5 +1,5 @@
-import { supabase, isPersistenceConfigured } from '@/lib/database/supabase'
-import { uploadImageToBlob, deleteImageFromBlob } from '@/lib/storage/blob-storage'
+import { getSupabase, isPersistenceConfigured } from '@/lib/database/supabase'
+import { deleteFromStorage } from '@/lib/storage/media-storage'
 
 export interface FileReference {
   id: string
@@ -46,6 +46,7 @@ export async function trackFileUsage(
     storageLocation?: 'blob' | 'gemini' | 'external'
   }
 ): Promise<string | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     console.log('[FILE MANAGER] Persistence not configured')
     return null
@@ -78,6 +79,7 @@ export async function trackFileUsage(
 
 // Get files for a specific chat
 export async function getFilesForChat(chatId: string): Promise<FileReference[]> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return []
   }
@@ -99,6 +101,7 @@ export async function getFilesForChat(chatId: string): Promise<FileReference[]>
 
 // Get user storage usage
 export async function getUserStorageUsage(userId?: string): Promise<UserStorageQuota | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase || !userId) {
     return null
   }
@@ -137,6 +140,7 @@ export async function getUserStorageUsage(userId?: string): Promise<UserStorageQ
 
 // Update file access time
 export async function updateFileAccessTime(fileUrl: string): Promise<boolean> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return false
   }
@@ -164,6 +168,7 @@ export async function cleanupOrphanedFiles(dryRun = true): Promise<{
   deletedCount: number
   freedSpace: number
 }> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return { orphanedFiles: [], deletedCount: 0, freedSpace: 0 }
   }
@@ -193,7 +198,7 @@ export async function cleanupOrphanedFiles(dryRun = true): Promise<{
         try {
           // Delete from blob storage if it's stored there
           if (file.storage_location === 'blob' && file.file_url) {
-            await deleteImageFromBlob(file.file_url)
+            await deleteFromStorage(file.file_url)
           }
 
           // Delete from database
@@ -227,6 +232,7 @@ export async function cleanupOldFiles(daysToKeep: number, dryRun = true): Promis
   deletedCount: number
   freedSpace: number
 }> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return { oldFiles: [], deletedCount: 0, freedSpace: 0 }
   }
@@ -259,7 +265,7 @@ export async function cleanupOldFiles(daysToKeep: number, dryRun = true): Promis
         try {
           // Delete from blob storage if it's stored there
           if (file.storage_location === 'blob' && file.file_url) {
-            await deleteImageFromBlob(file.file_url)
+            await deleteFromStorage(file.file_url)
           }
 
           // Delete from database
@@ -351,6 +357,7 @@ export async function getStorageStatistics(): Promise<{
   oldestFile?: FileReference
   largestFile?: FileReference
 } | null> {
+  const supabase = getSupabase()
   if (!isPersistenceConfigured() || !supabase) {
     return null
   }
@@ -0,0 +1,431 @@
+import { getSupabase, isPersistenceConfigured, ownerFilter } from '@/lib/database/supabase'
+import { cleanMessageContent } from '@/lib/message-metadata'
+import {
+  EMBEDDING_MODEL,
+  embedText,
+  embedTexts,
+  hashEmbeddingInput,
+  isEmbeddingConfigured
+} from '@/lib/services/embeddings'
+
+export type LibraryItemType = 'message' | 'image' | 'video'
+
+export const LIBRARY_ITEM_TYPES: LibraryItemType[] = ['message', 'image', 'video']
+
+export interface LibrarySearchOptions {
+  query: string
+  types?: LibraryItemType[]
+  chatId?: string
+  model?: string
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+  // Blend Gemini embedding similarity into the full-text ranking
+  semantic?: boolean
+}
+
+export interface LibrarySearchResult {
+  type: LibraryItemType
+  id: string
+  chatId?: string
+  chatTitle?: string
+  role?: string // Messages only
+  url?: string // Images and videos only
+  thumbnailUrl?: string
+  model?: string
+  createdAt: string
+  snippet: string
+  // [start, end) character ranges of matched terms in snippet
+  highlights: [number, number][]
+  score: number
+  textRank?: number
+  similarity?: number
+}
+
+export interface LibrarySearchResponse {
+  results: LibrarySearchResult[]
+  // False when semantic ranking was requested but is unavailable
+  semantic: boolean
+}
+
+// Semantic hits need a full-text match or this much similarity to be listed
+const MIN_SIMILARITY = 0.55
+const TEXT_WEIGHT = 0.5
+const SEMANTIC_WEIGHT = 0.5
+const SNIPPET_LENGTH = 200
+
+// Markers ts_headline puts around matches (see search_library in add-library-search.sql)
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+
+interface LibraryRow {
+  item_type: LibraryItemType
+  item_id: string
+  chat_id: string | null
+  chat_title: string | null
+  role: string | null
+  content: string
+  url: string | null
+  thumbnail_url: string | null
+  model: string | null
+  created_at: string
+  snippet?: string
+  rank?: number
+  similarity?: number
+}
+
+// Split a ts_headline snippet into plain text and highlight ranges
+function parseHeadline(headline: string): Pick<LibrarySearchResult, 'snippet' | 'highlights'> {
+  let snippet = ''
+  const highlights: [number, number][] = []
+  let start = -1
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length
+    } else if (char === HIGHLIGHT_END) {
+      if (start !== -1) highlights.push([start, snippet.length])
+      start = -1
+    } else {
+      snippet += char
+    }
+  }
+
+  return { snippet, highlights }
+}
+
+// Snippet for rows without a headline: a window around the first query term
+function buildSnippet(content: string, query: string): Pick<LibrarySearchResult, 'snippet' | 'highlights'> {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const terms = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 1)
+  const lower = text.toLowerCase()
+
+  const firstMatch = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1))
+  const windowStart = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - SNIPPET_LENGTH / 4) : 0
+  const prefix = windowStart > 0 ? '… ' : ''
+  const suffix = windowStart + SNIPPET_LENGTH < text.length ? ' …' : ''
+  const snippet = prefix + text.slice(windowStart, windowStart + SNIPPET_LENGTH) + suffix
+
+  const highlights: [number, number][] = []
+  const snippetLower = snippet.toLowerCase()
+  for (const term of terms) {
+    for (let index = snippetLower.indexOf(term); index !== -1; index = snippetLower.indexOf(term, index + term.length)) {
+      highlights.push([index, index + term.length])
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0])
+
+  return { snippet, highlights }
+}
+
+function toResult(row: LibraryRow, query: string): LibrarySearchResult {
+  const { snippet, highlights } = row.snippet
+    ? parseHeadline(row.snippet)
+    : buildSnippet(row.content, query)
+
+  return {
+    type: row.item_type,
+    id: row.item_id,
+    chatId: row.chat_id || undefined,
+    chatTitle: row.chat_title || undefined,
+    role: row.role || undefined,
+    url: row.url || undefined,
+    thumbnailUrl: row.thumbnail_url || undefined,
+    model: row.model || undefined,
+    createdAt: row.created_at,
+    snippet,
+    highlights,
+    score: row.rank ?? 0,
+    textRank: row.rank,
+    similarity: row.similarity
+  }
+}
+
+function filterParams(options: LibrarySearchOptions) {
+  return {
+    item_types: options.types && options.types.length > 0 ? options.types : LIBRARY_ITEM_TYPES,
+    filter_chat_id: options.chatId || null,
+    filter_model: options.model || null,
+    date_from: options.from?.toISOString() || null,
+    date_to: options.to?.toISOString() || null
+  }
+}
+
+// Used when the search migration has not been applied yet
+async function searchWithIlike(options: LibrarySearchOptions, limit: number): Promise<LibraryRow[]> {
+  const supabase = getSupabase()
+  if (!supabase) return []
+
+  // PostgREST filter syntax treats these as separators
+  const pattern = `%${options.query.replace(/[%_,()]/g, ' ').trim()}%`
+  const types = options.types && options.types.length > 0 ? options.types : LIBRARY_ITEM_TYPES
+  const rows: LibraryRow[] = []
+
+  const applyFilters = (query: any) => {
+    if (options.chatId) query = query.eq('chat_id', options.chatId)
+    if (options.from) query = query.gte('created_at', options.from.toISOString())
+    if (options.to) query = query.lte('created_at', options.to.toISOString())
+    return query.order('created_at', { ascending: false }).limit(limit)
+  }
+
+  if (types.includes('message')) {
+    let query = supabase
+      .from('messages')
+      .select('id, chat_id, role, content, created_at, chats!inner(title, model)')
+      .ilike('content', pattern)
+    if (options.model) query = query.eq('chats.model', options.model)
+    // Messages are owned through their chat
+    const { user_id: userId } = ownerFilter()
+    if (userId) query = query.eq('chats.user_id', userId)
+
+    const { data, error } = await applyFilters(query)
+    if (error) throw error
+    rows.push(...(data || []).map((message: any) => ({
+      item_type: 'message' as const,
+      item_id: message.id,
+      chat_id: message.chat_id,
+      chat_title: message.chats?.title ?? null,
+      role: message.role,
+      content: message.content,
+      url: null,
+      thumbnail_url: null,
+      model: message.chats?.model ?? null,
+      created_at: message.created_at
+    })))
+  }
+
+  if (types.includes('image')) {
+    let query = supabase
+      .from('images')
+      .select('id, chat_id, url, prompt, revised_prompt, model, created_at')
+      .match(ownerFilter())
+      .or(`prompt.ilike.${pattern},revised_prompt.ilike.${pattern}`)
+    if (options.model) query = query.eq('model', options.model)
+
+    const { data, error } = await applyFilters(query)
+    if (error) throw error
+    rows.push(...(data || []).map((image: any) => ({
+      item_type: 'image' as const,
+      item_id: image.id,
+      chat_id: image.chat_id,
+      chat_title: null,
+      role: null,
+      content: [image.prompt, image.revised_prompt].filter(Boolean).join('\n'),
+      url: image.url,
+      thumbnail_url: null,
+      model: image.model,
+      created_at: image.created_at
+    })))
+  }
+
+  if (types.includes('video')) {
+    let query = supabase
+      .from('videos')
+      .select('id, chat_id, url, thumbnail_url, prompt, model, created_at')
+      .match(ownerFilter())
+      .eq('status', 'completed')
+      .ilike('prompt', pattern)
+    if (options.model) query = query.eq('model', options.model)
+
+    const { data, error } = await applyFilters(query)
+    if (error) throw error
+    rows.push(...(data || []).map((video: any) => ({
+      item_type: 'video' as const,
+      item_id: video.id,
+      chat_id: video.chat_id,
+      chat_title: null,
+      role: null,
+      content: video.prompt,
+      url: video.url,
+      thumbnail_url: video.thumbnail_url,
+      model: video.model,
+      created_at: video.created_at
+    })))
+  }
+
+  return rows.sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+// Nearest items to the query embedding, or null when semantic search is unavailable
+async function searchSemantic(options: LibrarySearchOptions, count: number): Promise<LibraryRow[] | null> {
+  const supabase = getSupabase()
+  if (!supabase || !isEmbeddingConfigured()) return null
+
+  try {
+    const embedding = await embedText(options.query, 'query')
+    const { data, error } = await supabase.rpc('match_library_embeddings', {
+      query_embedding: JSON.stringify(embedding),
+      ...filterParams(options),
+      match_count: count
+    })
+    if (error) throw error
+    return data || []
+  } catch (error: any) {
+    console.error('[LIBRARY SEARCH] Semantic search unavailable:', error.message || error)
+    return null
+  }
+}
+
+/**
+ * Search message content, image prompts/tags and video prompts. Full-text
+ * matches are ranked with Postgres; with `semantic`, Gemini embedding
+ * similarity is blended in and close semantic matches without shared words
+ * are included.
+ */
+export async function searchLibrary(options: LibrarySearchOptions): Promise<LibrarySearchResponse> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    return { results: [], semantic: false }
+  }
+
+  const limit = options.limit ?? 20
+  const offset = options.offset ?? 0
+  // Blended ranking re-sorts candidates, so page over the merged list instead
+  const candidateCount = options.semantic ? Math.max(50, (offset + limit) * 2) : limit
+
+  let textRows: LibraryRow[]
+  const { data, error } = await supabase.rpc('search_library', {
+    search_query: options.query,
+    ...filterParams(options),
+    result_limit: candidateCount,
+    result_offset: options.semantic ? 0 : offset
+  })
+
+  if (error) {
+    console.log('[LIBRARY SEARCH] search_library not available, using ILIKE search:', error.message)
+    try {
+      textRows = await searchWithIlike(options, offset + limit)
+      return {
+        results: textRows.slice(offset, offset + limit).map(row => toResult(row, options.query)),
+        semantic: false
+      }
+    } catch (fallbackError: any) {
+      if (!fallbackError.message?.includes('fetch failed')) {
+        console.error('[LIBRARY SEARCH] Error searching library:', fallbackError)
+      }
+      return { results: [], semantic: false }
+    }
+  }
+
+  textRows = data || []
+  if (!options.semantic) {
+    return { results: textRows.map(row => toResult(row, options.query)), semantic: false }
+  }
+
+  const semanticRows = await searchSemantic(options, candidateCount)
+  if (!semanticRows) {
+    return {
+      results: textRows.slice(offset, offset + limit).map(row => toResult(row, options.query)),
+      semantic: false
+    }
+  }
+
+  // ts_rank_cd scores are relative; scale them against the best match
+  const maxRank = Math.max(...textRows.map(row => row.rank ?? 0), Number.EPSILON)
+  const merged = new Map<string, LibrarySearchResult>()
+
+  for (const row of textRows) {
+    merged.set(`${row.item_type}:${row.item_id}`, toResult(row, options.query))
+  }
+  for (const row of semanticRows) {
+    const key = `${row.item_type}:${row.item_id}`
+    const existing = merged.get(key)
+    if (existing) {
+      existing.similarity = row.similarity
+    } else if ((row.similarity ?? 0) >= MIN_SIMILARITY) {
+      merged.set(key, toResult(row, options.query))
+    }
+  }
+
+  const results = Array.from(merged.values())
+  for (const result of results) {
+    result.score = TEXT_WEIGHT * ((result.textRank ?? 0) / maxRank) + SEMANTIC_WEIGHT * (result.similarity ?? 0)
+  }
+  results.sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt))
+
+  return { results: results.slice(offset, offset + limit), semantic: true }
+}
+
+// Text embedded for an item when it is saved
+export function libraryItemText(type: LibraryItemType, fields: { content?: string; prompt?: string; revisedPrompt?: string; tags?: string[] }): string {
+  if (type === 'message') {
+    return cleanMessageContent(fields.content || '')
+  }
+  return [fields.prompt, fields.revisedPrompt, fields.tags?.join(', ')].filter(Boolean).join('\n')
+}
+
+/**
+ * Store the embedding of a message, image or video. A no-op without a Gemini
+ * key or when the text is unchanged; failures are logged, never thrown, so
+ * saving the item itself is unaffected.
+ */
+export async function indexLibraryItem(type: LibraryItemType, id: string, text: string): Promise<void> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase || !isEmbeddingConfigured() || !text.trim()) {
+    return
+  }
+
+  try {
+    const contentHash = hashEmbeddingInput(text)
+    const { data: existing } = await supabase
+      .from('library_embeddings')
+      .select('content_hash')
+      .eq('item_type', type)
+      .eq('item_id', id)
+      .maybeSingle()
+
+    if (existing?.content_hash === contentHash) return
+
+    const embedding = await embedText(text, 'document')
+    const { error } = await supabase
+      .from('library_embeddings')
+      .upsert({
+        item_type: type,
+        item_id: id,
+        embedding: JSON.stringify(embedding),
+        model: EMBEDDING_MODEL,
+        content_hash: contentHash,
+      })
+
+    if (error) throw error
+  } catch (error: any) {
+    console.error(`[LIBRARY SEARCH] Failed to index ${type} ${id}:`, error.message || error)
+  }
+}
+
+/**
+ * Embed items saved before semantic search was enabled, newest first.
+ * Returns the number of items indexed.
+ */
+export async function backfillLibraryEmbeddings(maxItems: number = 100): Promise<number> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase || !isEmbeddingConfigured()) {
+    return 0
+  }
+
+  const { data, error } = await supabase.rpc('library_items_missing_embeddings', { max_items: maxItems })
+  if (error) throw error
+
+  // Fall back to the raw content so marker-only messages don't come back on every run
+  const items = ((data || []) as { item_type: LibraryItemType; item_id: string; content: string }[])
+    .map(item => ({
+      ...item,
+      text: (item.item_type === 'message' && cleanMessageContent(item.content)) || item.content
+    }))
+  if (items.length === 0) return 0
+
+  const embeddings = await embedTexts(items.map(item => item.text), 'document')
+  const { error: upsertError } = await supabase
+    .from('library_embeddings')
+    .upsert(items.map((item, index) => ({
+      item_type: item.item_type,
+      item_id: item.item_id,
+      embedding: JSON.stringify(embeddings[index]),
+      model: EMBEDDING_MODEL,
+      content_hash: hashEmbeddingInput(item.text),
+    })))
+
+  if (upsertError) throw upsertError
+  return items.length
+}
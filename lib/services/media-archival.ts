@@ -0,0 +1,287 @@
+import { supabase as anonSupabase, supabaseAdmin, isPersistenceConfigured } from '@/lib/database/supabase'
+import { isStorageConfigured } from '@/lib/storage'
+import { isStoredUrl, mediaFileExtension, storeMediaFromUrl, type MediaKind } from '@/lib/storage/media-storage'
+
+/**
+ * Background archival of generated media. Provider URLs (replicate.delivery,
+ * HuggingFace, ...) expire after a day or so; every saved image, video and
+ * audio whose URL isn't in durable storage yet gets a job that copies the bytes
+ * and rewrites the row's URL. Failed jobs are retried with backoff and moved
+ * to the dead-letter list ('dead') after MAX_ATTEMPTS.
+ */
+
+// Jobs rewrite rows of every user, so with row-level security enabled they
+// need the service role client
+const supabase = supabaseAdmin || anonSupabase
+
+export type ArchiveField = 'url' | 'thumbnail_url'
+export type ArchiveJobStatus = 'pending' | 'processing' | 'done' | 'dead'
+
+export interface MediaArchiveJob {
+  id: string
+  media_type: MediaKind
+  media_id: string
+  field: ArchiveField
+  source_url: string
+  status: ArchiveJobStatus
+  attempts: number
+  last_error?: string
+  archived_url?: string
+  next_attempt_at: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ArchiveRunResult {
+  processed: number
+  archived: number
+  retrying: number
+  dead: number
+}
+
+const TABLES: Record<MediaKind, string> = {
+  image: 'images',
+  video: 'videos',
+  audio: 'audios',
+}
+
+const FOLDERS: Record<MediaKind, string> = {
+  image: 'images',
+  video: 'videos',
+  audio: 'audio',
+}
+
+const MAX_ATTEMPTS = 6
+// 1, 2, 4, 8, 16 minutes between attempts
+const BASE_RETRY_DELAY = 60 * 1000
+// A job stuck in 'processing' this long was interrupted (e.g. the function timed out)
+const STALE_PROCESSING_AGE = 10 * 60 * 1000
+
+let activeRun: Promise<ArchiveRunResult> | null = null
+
+function needsArchival(url: string | null | undefined): url is string {
+  if (!url) return false
+  if (!/^(https?:|data:)/.test(url)) return false
+  return !isStoredUrl(url)
+}
+
+function storageKey(job: MediaArchiveJob): string {
+  // Thumbnails are images regardless of the media they belong to
+  const kind: MediaKind = job.field === 'thumbnail_url' ? 'image' : job.media_type
+  const extension = mediaFileExtension(job.source_url, kind)
+  const suffix = job.field === 'thumbnail_url' ? '-thumbnail' : ''
+  return `${FOLDERS[job.media_type]}/${job.media_id}${suffix}.${extension}`
+}
+
+/**
+ * Queue a media URL for archival and start processing in the background.
+ * Does nothing when the URL is already stored or no storage backend is configured.
+ */
+export async function queueMediaArchival(
+  mediaType: MediaKind,
+  mediaId: string,
+  field: ArchiveField,
+  sourceUrl: string | null | undefined
+): Promise<void> {
+  if (!isPersistenceConfigured() || !supabase || !isStorageConfigured()) return
+  if (!needsArchival(sourceUrl)) return
+
+  const { error } = await supabase
+    .from('media_archive_jobs')
+    .upsert({
+      media_type: mediaType,
+      media_id: mediaId,
+      field,
+      source_url: sourceUrl,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      next_attempt_at: new Date().toISOString(),
+    }, { onConflict: 'media_type,media_id,field' })
+
+  if (error) {
+    console.error('[MEDIA ARCHIVE] Failed to queue archival:', error)
+    return
+  }
+
+  processMediaArchiveJobs().catch(err =>
+    console.error('[MEDIA ARCHIVE] Background run failed:', err)
+  )
+}
+
+async function archiveJob(job: MediaArchiveJob): Promise<string> {
+  const kind: MediaKind = job.field === 'thumbnail_url' ? 'image' : job.media_type
+  const stored = await storeMediaFromUrl(job.source_url, kind, storageKey(job))
+
+  // Only rewrite rows that still point at the source URL
+  const { error } = await supabase!
+    .from(TABLES[job.media_type])
+    .update({ [job.field]: stored.url })
+    .eq('id', job.media_id)
+    .eq(job.field, job.source_url)
+  if (error) throw error
+
+  return stored.url
+}
+
+async function runJobs(limit: number): Promise<ArchiveRunResult> {
+  const result: ArchiveRunResult = { processed: 0, archived: 0, retrying: 0, dead: 0 }
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_AGE).toISOString()
+
+  const { data: jobs, error } = await supabase!
+    .from('media_archive_jobs')
+    .select('*')
+    .or(`and(status.eq.pending,next_attempt_at.lte.${now.toISOString()}),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+  if (error) throw error
+
+  for (const job of (jobs || []) as MediaArchiveJob[]) {
+    // Claim the job; another run may have picked it up in the meantime
+    const { data: claimed } = await supabase!
+      .from('media_archive_jobs')
+      .update({ status: 'processing' })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .eq('updated_at', job.updated_at)
+      .select('id')
+    if (!claimed?.length) continue
+
+    result.processed++
+    const attempts = job.attempts + 1
+
+    try {
+      const archivedUrl = await archiveJob(job)
+      await supabase!
+        .from('media_archive_jobs')
+        .update({ status: 'done', attempts, archived_url: archivedUrl, last_error: null })
+        .eq('id', job.id)
+      result.archived++
+      console.log(`[MEDIA ARCHIVE] Archived ${job.media_type} ${job.media_id} ${job.field}:`, archivedUrl)
+    } catch (error: any) {
+      const dead = attempts >= MAX_ATTEMPTS
+      const retryAt = new Date(Date.now() + BASE_RETRY_DELAY * 2 ** (attempts - 1))
+      await supabase!
+        .from('media_archive_jobs')
+        .update({
+          status: dead ? 'dead' : 'pending',
+          attempts,
+          last_error: error.message || 'Unknown error',
+          next_attempt_at: retryAt.toISOString(),
+        })
+        .eq('id', job.id)
+
+      if (dead) {
+        result.dead++
+        console.error(`[MEDIA ARCHIVE] Giving up on ${job.media_type} ${job.media_id} after ${attempts} attempts:`, error)
+      } else {
+        result.retrying++
+        console.warn(`[MEDIA ARCHIVE] Attempt ${attempts} failed for ${job.media_type} ${job.media_id}:`, error.message)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Process due archival jobs. Runs triggered while another run is in progress
+ * in this process share its result.
+ */
+export function processMediaArchiveJobs(limit = 10): Promise<ArchiveRunResult> {
+  if (!isPersistenceConfigured() || !supabase || !isStorageConfigured()) {
+    return Promise.resolve({ processed: 0, archived: 0, retrying: 0, dead: 0 })
+  }
+
+  if (!activeRun) {
+    activeRun = runJobs(limit).finally(() => {
+      activeRun = null
+    })
+  }
+  return activeRun
+}
+
+/**
+ * Queue archival for saved media that still points at provider URLs, e.g.
+ * rows saved before storage was configured. Existing jobs (including dead
+ * ones) are left alone.
+ */
+export async function queueUnarchivedMedia(limit = 100): Promise<number> {
+  if (!isPersistenceConfigured() || !supabase || !isStorageConfigured()) return 0
+
+  const [images, videos] = await Promise.all([
+    supabase.from('images').select('id, url').like('url', 'http%').order('created_at', { ascending: false }).limit(limit),
+    supabase.from('videos').select('id, url, thumbnail_url').like('url', 'http%').order('created_at', { ascending: false }).limit(limit),
+  ])
+  if (images.error) throw images.error
+  if (videos.error) throw videos.error
+
+  const jobs = [
+    ...(images.data || [])
+      .filter(image => needsArchival(image.url))
+      .map(image => ({ media_type: 'image', media_id: image.id, field: 'url', source_url: image.url })),
+    ...(videos.data || []).flatMap(video => [
+      ...(needsArchival(video.url)
+        ? [{ media_type: 'video', media_id: video.id, field: 'url', source_url: video.url }]
+        : []),
+      ...(needsArchival(video.thumbnail_url)
+        ? [{ media_type: 'video', media_id: video.id, field: 'thumbnail_url', source_url: video.thumbnail_url }]
+        : []),
+    ]),
+  ]
+  if (jobs.length === 0) return 0
+
+  const { data, error } = await supabase
+    .from('media_archive_jobs')
+    .upsert(jobs, { onConflict: 'media_type,media_id,field', ignoreDuplicates: true })
+    .select('id')
+  if (error) throw error
+
+  return data?.length || 0
+}
+
+export async function getMediaArchiveJobs(status?: ArchiveJobStatus, limit = 50): Promise<MediaArchiveJob[]> {
+  if (!isPersistenceConfigured() || !supabase) return []
+
+  let query = supabase
+    .from('media_archive_jobs')
+    .select('*')
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+  if (status) query = query.eq('status', status)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+export async function countMediaArchiveJobs(): Promise<Record<ArchiveJobStatus, number>> {
+  const counts: Record<ArchiveJobStatus, number> = { pending: 0, processing: 0, done: 0, dead: 0 }
+  if (!isPersistenceConfigured() || !supabase) return counts
+
+  await Promise.all((Object.keys(counts) as ArchiveJobStatus[]).map(async status => {
+    const { count, error } = await supabase!
+      .from('media_archive_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status)
+    if (error) throw error
+    counts[status] = count || 0
+  }))
+  return counts
+}
+
+// Move dead-lettered jobs back to the queue (all of them, or the given ids)
+export async function retryDeadMediaArchiveJobs(jobIds?: string[]): Promise<number> {
+  if (!isPersistenceConfigured() || !supabase) return 0
+
+  let query = supabase
+    .from('media_archive_jobs')
+    .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq('status', 'dead')
+  if (jobIds?.length) query = query.in('id', jobIds)
+
+  const { data, error } = await query.select('id')
+  if (error) throw error
+  return data?.length || 0
+}
@@ -0,0 +1,559 @@
+import { runWithAuth } from '@/lib/auth/context'
+import {
+  getSupabase,
+  isPersistenceConfigured,
+  ownerFilter,
+  supabase as anonSupabase,
+  supabaseAdmin,
+  withUserId,
+  ResearchMonitorRecord,
+  ResearchSessionRecord
+} from '@/lib/database/supabase'
+import { addMessage } from '@/lib/services/chat-persistence'
+import { getActivePath } from '@/lib/chat-branches'
+import {
+  diffResearchSessions,
+  getResearchSession,
+  parseResearchOptions,
+  startResearchSession,
+  ResearchSessionError,
+  type ResearchSessionDetail
+} from '@/lib/services/research-sessions'
+import { assertPublicUrl, fetchPublicUrl, UnsafeUrlError } from '@/lib/safe-fetch'
+import { isValidTimeZone, nextScheduledRun, ScheduleError } from '@/lib/research-schedule'
+
+/**
+ * Research monitors: saved research queries re-run on a cron schedule. Each
+ * run is an ordinary research session linked to its monitor. Ticks (POST
+ * /api/research/monitors/tick, called by an external scheduler) start the
+ * monitors that are due and report the runs that have finished since: the
+ * report and sources are diffed against the monitor's previous completed
+ * run, and the summary is posted to the monitor's chat and webhook.
+ */
+
+export class ResearchMonitorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ResearchMonitorError'
+  }
+}
+
+export interface MonitorRunSummary {
+  monitorId: string
+  sessionId: string
+  status: ResearchSessionRecord['status']
+  previousSessionId: string | null
+  addedLines: string[]
+  removedLines: string[]
+  sourcesAdded: string[]
+  sourcesRemoved: string[]
+  markdown: string
+}
+
+export interface MonitorTickResult {
+  reported: number
+  started: number
+  failed: number
+}
+
+// Ticks read and update every user's monitors, so with row-level security
+// enabled they need the service role client
+const scheduler = supabaseAdmin || anonSupabase
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const TERMINAL_STATUSES = new Set<ResearchSessionRecord['status']>(['completed', 'failed', 'cancelled'])
+// Runs started per tick; the rest are picked up by the next one
+const MAX_RUNS_PER_TICK = 5
+// Changed report lines and sources listed in a summary before "and n more"
+const MAX_SUMMARY_ITEMS = 12
+const WEBHOOK_TIMEOUT = 10_000
+
+let activeTick: Promise<MonitorTickResult> | null = null
+
+function requireDatabase() {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+  return supabase
+}
+
+// Run as the monitor's owner, so sessions, documents and chats are scoped to them
+function asOwner<T>(monitor: ResearchMonitorRecord, fn: () => Promise<T>): Promise<T> {
+  return runWithAuth({
+    user: monitor.user_id ? { id: monitor.user_id } : null,
+    accessToken: null,
+    client: supabaseAdmin ?? undefined,
+  }, fn)
+}
+
+function nextRunAt(schedule: string, timezone: string, after = new Date()): string {
+  const next = nextScheduledRun(schedule, after, timezone)
+  if (!next) throw new ResearchMonitorError('This schedule never runs')
+  return next.toISOString()
+}
+
+async function checkOwnedChat(chatId: string): Promise<void> {
+  if (!UUID_PATTERN.test(chatId)) throw new ResearchMonitorError('Chat not found')
+
+  const { data, error } = await requireDatabase()
+    .from('chats')
+    .select('id')
+    .match(ownerFilter())
+    .eq('id', chatId)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new ResearchMonitorError('Chat not found')
+}
+
+/**
+ * Validate a monitor as sent to the API and return the columns to write.
+ * With `existing`, fields left out keep their values. Throws
+ * ResearchMonitorError for invalid values.
+ */
+async function parseMonitorInput(input: unknown, existing?: ResearchMonitorRecord): Promise<Record<string, unknown>> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ResearchMonitorError('Monitor must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const row: Record<string, unknown> = {}
+
+  if (raw.query !== undefined || !existing) {
+    if (typeof raw.query !== 'string' || !raw.query.trim()) {
+      throw new ResearchMonitorError('query is required')
+    }
+    row.query = raw.query.trim()
+  }
+  if (raw.name !== undefined || !existing) {
+    if (raw.name !== undefined && typeof raw.name !== 'string') {
+      throw new ResearchMonitorError('name must be a string')
+    }
+    row.name = (raw.name as string | undefined)?.trim() || (row.query as string).slice(0, 80)
+  }
+  if (raw.options !== undefined || !existing) {
+    try {
+      row.options = parseResearchOptions(raw.options)
+    } catch (optionsError) {
+      if (optionsError instanceof ResearchSessionError) throw new ResearchMonitorError(optionsError.message)
+      throw optionsError
+    }
+  }
+  if (raw.schedule !== undefined || !existing) {
+    if (typeof raw.schedule !== 'string' || !raw.schedule.trim()) {
+      throw new ResearchMonitorError('schedule is required, e.g. "0 9 * * 1" for Mondays at 09:00')
+    }
+    row.schedule = raw.schedule.trim()
+  }
+  if (raw.timezone !== undefined) {
+    if (typeof raw.timezone !== 'string' || !isValidTimeZone(raw.timezone)) {
+      throw new ResearchMonitorError('timezone must be an IANA time zone such as Europe/Berlin')
+    }
+    row.timezone = raw.timezone
+  }
+  if (raw.chatId !== undefined) {
+    if (raw.chatId !== null && typeof raw.chatId !== 'string') {
+      throw new ResearchMonitorError('chatId must be a string')
+    }
+    if (raw.chatId) await checkOwnedChat(raw.chatId)
+    row.chat_id = raw.chatId || null
+  }
+  if (raw.webhookUrl !== undefined) {
+    if (raw.webhookUrl !== null && typeof raw.webhookUrl !== 'string') {
+      throw new ResearchMonitorError('webhookUrl must be a string')
+    }
+    if (raw.webhookUrl) {
+      // Checked again on every send, in case the host has moved since
+      try {
+        await assertPublicUrl(raw.webhookUrl)
+      } catch (urlError) {
+        if (urlError instanceof UnsafeUrlError) {
+          throw new ResearchMonitorError(`webhookUrl must be a public http or https URL: ${urlError.message}`)
+        }
+        throw urlError
+      }
+    }
+    row.webhook_url = raw.webhookUrl || null
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') throw new ResearchMonitorError('enabled must be a boolean')
+    row.enabled = raw.enabled
+  }
+
+  // A new schedule, time zone or re-enabling counts from now
+  if (row.schedule !== undefined || row.timezone !== undefined || row.enabled !== undefined) {
+    const schedule = (row.schedule ?? existing?.schedule) as string
+    const timezone = (row.timezone ?? existing?.timezone ?? 'UTC') as string
+    const enabled = (row.enabled ?? existing?.enabled ?? true) as boolean
+    try {
+      row.next_run_at = nextRunAt(schedule, timezone)
+    } catch (scheduleError) {
+      if (scheduleError instanceof ScheduleError) throw new ResearchMonitorError(scheduleError.message)
+      throw scheduleError
+    }
+    if (!enabled) row.next_run_at = null
+  }
+
+  return row
+}
+
+export async function createResearchMonitor(input: unknown): Promise<ResearchMonitorRecord> {
+  const row = await parseMonitorInput(input)
+
+  const { data, error } = await requireDatabase()
+    .from('research_monitors')
+    .insert(withUserId(row))
+    .select('*')
+    .single()
+  if (error) throw error
+  return data
+}
+
+export async function getResearchMonitors(): Promise<ResearchMonitorRecord[]> {
+  const { data, error } = await requireDatabase()
+    .from('research_monitors')
+    .select('*')
+    .match(ownerFilter())
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return data || []
+}
+
+export async function getResearchMonitor(monitorId: string): Promise<ResearchMonitorRecord | null> {
+  if (!UUID_PATTERN.test(monitorId)) return null
+
+  const { data, error } = await requireDatabase()
+    .from('research_monitors')
+    .select('*')
+    .match(ownerFilter())
+    .eq('id', monitorId)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+// Sessions the monitor started, newest first
+export async function getResearchMonitorRuns(monitorId: string, limit = 20): Promise<ResearchSessionRecord[]> {
+  const { data, error } = await requireDatabase()
+    .from('research_sessions')
+    .select('*')
+    .match(ownerFilter())
+    .eq('monitor_id', monitorId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return data || []
+}
+
+// Null when the monitor isn't the user's
+export async function updateResearchMonitor(monitorId: string, input: unknown): Promise<ResearchMonitorRecord | null> {
+  const existing = await getResearchMonitor(monitorId)
+  if (!existing) return null
+
+  const row = await parseMonitorInput(input, existing)
+  if (Object.keys(row).length === 0) return existing
+
+  const { data, error } = await requireDatabase()
+    .from('research_monitors')
+    .update(row)
+    .match(ownerFilter())
+    .eq('id', monitorId)
+    .select('*')
+    .single()
+  if (error) throw error
+  return data
+}
+
+// Deletes the monitor; its past runs stay in the research history
+export async function deleteResearchMonitor(monitorId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(monitorId)) return false
+
+  const { data, error } = await requireDatabase()
+    .from('research_monitors')
+    .delete()
+    .match(ownerFilter())
+    .eq('id', monitorId)
+    .select('id')
+  if (error) throw error
+  return (data?.length || 0) > 0
+}
+
+// Bullet list of at most MAX_SUMMARY_ITEMS items
+function listItems(items: string[], format: (item: string) => string): string {
+  const lines = items.slice(0, MAX_SUMMARY_ITEMS).map(item => `- ${format(item)}`)
+  if (items.length > MAX_SUMMARY_ITEMS) lines.push(`- …and ${items.length - MAX_SUMMARY_ITEMS} more`)
+  return lines.join('\n')
+}
+
+// The monitor's newest completed run before this one
+async function findPreviousRun(monitor: ResearchMonitorRecord, session: ResearchSessionRecord): Promise<ResearchSessionRecord | null> {
+  const { data, error } = await requireDatabase()
+    .from('research_sessions')
+    .select('*')
+    .match(ownerFilter())
+    .eq('monitor_id', monitor.id)
+    .eq('status', 'completed')
+    .lt('created_at', session.created_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+async function summarizeRun(monitor: ResearchMonitorRecord, session: ResearchSessionDetail): Promise<MonitorRunSummary> {
+  const summary: MonitorRunSummary = {
+    monitorId: monitor.id,
+    sessionId: session.id,
+    status: session.status,
+    previousSessionId: null,
+    addedLines: [],
+    removedLines: [],
+    sourcesAdded: [],
+    sourcesRemoved: [],
+    markdown: '',
+  }
+  const date = new Date(session.completed_at || session.updated_at).toUTCString()
+  const heading = `**Research monitor: ${monitor.name}**\nRun of ${date} for "${monitor.query}"`
+
+  if (session.status !== 'completed' || !session.report) {
+    summary.markdown = `${heading}\n\nThe run ${session.status === 'cancelled' ? 'was cancelled' : 'failed'}${session.error ? `: ${session.error}` : '.'}`
+    return summary
+  }
+
+  const previous = await findPreviousRun(monitor, session)
+  if (!previous) {
+    summary.sourcesAdded = session.sources.map(source => source.url)
+    summary.markdown = `${heading}\n\nFirst run; later runs will report what changed since the previous one.\n\n${session.report}`
+    return summary
+  }
+
+  const diff = await diffResearchSessions(previous.id, session.id)
+  summary.previousSessionId = previous.id
+  if (diff) {
+    summary.addedLines = diff.report.filter(line => line.op === 'added' && line.text.trim()).map(line => line.text.trim())
+    summary.removedLines = diff.report.filter(line => line.op === 'removed' && line.text.trim()).map(line => line.text.trim())
+    summary.sourcesAdded = diff.sources.added
+    summary.sourcesRemoved = diff.sources.removed
+  }
+
+  const sections = [heading]
+  if (!summary.addedLines.length && !summary.removedLines.length && !summary.sourcesAdded.length && !summary.sourcesRemoved.length) {
+    sections.push('No changes since the previous run.')
+  }
+  if (summary.addedLines.length) sections.push(`New findings:\n${listItems(summary.addedLines, line => line)}`)
+  if (summary.removedLines.length) sections.push(`No longer reported:\n${listItems(summary.removedLines, line => `~~${line}~~`)}`)
+  if (summary.sourcesAdded.length) sections.push(`New sources:\n${listItems(summary.sourcesAdded, url => `<${url}>`)}`)
+  if (summary.sourcesRemoved.length) sections.push(`Sources no longer cited:\n${listItems(summary.sourcesRemoved, url => `<${url}>`)}`)
+  sections.push('The full report is in the research history.')
+  summary.markdown = sections.join('\n\n')
+  return summary
+}
+
+// Last message of the branch a chat shows when it has no active leaf recorded
+async function lastMessageOnActivePath(chatId: string): Promise<string | null> {
+  const { data, error } = await requireDatabase()
+    .from('messages')
+    .select('id, parent_id, created_at')
+    .eq('chat_id', chatId)
+  if (error) throw error
+
+  const path = getActivePath(data || [], null)
+  return path[path.length - 1]?.id ?? null
+}
+
+// Post to the end of the branch the chat currently shows
+async function postToChat(chatId: string, summary: MonitorRunSummary): Promise<boolean> {
+  const { data: chat, error } = await requireDatabase()
+    .from('chats')
+    .select('*')
+    .match(ownerFilter())
+    .eq('id', chatId)
+    .maybeSingle()
+  if (error) throw error
+  if (!chat) return false
+
+  // Chats not written to since branching was added have no active leaf; the
+  // summary continues the branch they show instead of starting a new root
+  let parentId: string | null | undefined = 'active_leaf_id' in chat ? chat.active_leaf_id : undefined
+  if (parentId === null) parentId = await lastMessageOnActivePath(chatId)
+
+  const message = await addMessage(
+    chatId,
+    'assistant',
+    summary.markdown,
+    [],
+    { researchMonitor: { monitorId: summary.monitorId, sessionId: summary.sessionId } },
+    parentId
+  )
+  return !!message
+}
+
+async function sendWebhook(monitor: ResearchMonitorRecord, summary: MonitorRunSummary): Promise<void> {
+  const { markdown, ...changes } = summary
+  // Webhook URLs are chosen by users; never post to the server's own network
+  const response = await fetchPublicUrl(monitor.webhook_url!, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      event: 'research_monitor.run',
+      monitor: { id: monitor.id, name: monitor.name, query: monitor.query, schedule: monitor.schedule },
+      ...changes,
+      summary: markdown,
+    }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+  })
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+}
+
+/**
+ * Send the summary of the monitor's latest run once it has finished. Returns
+ * false while it is still running. Delivery failures are recorded in
+ * last_error rather than retried.
+ */
+async function reportLatestRun(monitor: ResearchMonitorRecord): Promise<boolean> {
+  if (!monitor.last_session_id || monitor.last_session_id === monitor.reported_session_id) return false
+
+  const session = await getResearchSession(monitor.last_session_id)
+  if (session && !TERMINAL_STATUSES.has(session.status)) return false
+
+  const problems: string[] = []
+  if (session) {
+    const summary = await summarizeRun(monitor, session)
+    if (monitor.chat_id) {
+      const posted = await postToChat(monitor.chat_id, summary).catch(() => false)
+      if (!posted) problems.push('Could not post the summary to the chat')
+    }
+    if (monitor.webhook_url) {
+      try {
+        await sendWebhook(monitor, summary)
+      } catch (webhookError) {
+        problems.push(`Webhook failed: ${webhookError instanceof Error ? webhookError.message : 'unknown error'}`)
+      }
+    }
+  }
+
+  const { error } = await requireDatabase()
+    .from('research_monitors')
+    .update({ reported_session_id: monitor.last_session_id, last_error: problems.join('; ') || null })
+    .eq('id', monitor.id)
+  if (error) throw error
+  return true
+}
+
+async function startMonitorRun(monitor: ResearchMonitorRecord): Promise<ResearchSessionRecord> {
+  const session = await startResearchSession({
+    query: monitor.query,
+    options: parseResearchOptions(monitor.options),
+    chatId: monitor.chat_id,
+    rerunOf: monitor.last_session_id,
+    monitorId: monitor.id,
+  })
+
+  const { error } = await requireDatabase()
+    .from('research_monitors')
+    .update({ last_session_id: session.id, last_run_at: session.created_at, last_error: null })
+    .eq('id', monitor.id)
+  if (error) throw error
+  return session
+}
+
+/**
+ * Run the monitor now, outside its schedule. Null when the monitor isn't the
+ * user's; throws ResearchMonitorError while its previous run is in progress.
+ */
+export async function runResearchMonitor(monitorId: string): Promise<ResearchSessionRecord | null> {
+  const monitor = await getResearchMonitor(monitorId)
+  if (!monitor) return null
+
+  if (monitor.last_session_id && monitor.last_session_id !== monitor.reported_session_id) {
+    const reported = await reportLatestRun(monitor)
+    if (!reported) throw new ResearchMonitorError('The previous run of this monitor is still in progress')
+  }
+  return startMonitorRun(monitor)
+}
+
+async function tick(): Promise<MonitorTickResult> {
+  const result: MonitorTickResult = { reported: 0, started: 0, failed: 0 }
+  if (!scheduler) return result
+
+  // Summaries of runs that finished since the last tick
+  const { data: unreported, error: unreportedError } = await scheduler
+    .from('research_monitors')
+    .select('*')
+    .not('last_session_id', 'is', null)
+    .limit(500)
+  if (unreportedError) throw unreportedError
+
+  for (const monitor of (unreported || []) as ResearchMonitorRecord[]) {
+    if (monitor.last_session_id === monitor.reported_session_id) continue
+    try {
+      if (await asOwner(monitor, () => reportLatestRun(monitor))) result.reported++
+    } catch (reportError) {
+      console.error(`[RESEARCH MONITOR] Failed to report run of monitor ${monitor.id}:`, reportError)
+    }
+  }
+
+  const now = new Date()
+  const { data: due, error: dueError } = await scheduler
+    .from('research_monitors')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_RUNS_PER_TICK)
+  if (dueError) throw dueError
+
+  for (const monitor of (due || []) as ResearchMonitorRecord[]) {
+    // A run still in progress postpones the next one to a later tick
+    if (monitor.last_session_id && monitor.last_session_id !== monitor.reported_session_id) continue
+
+    let next: string | null = null
+    try {
+      next = nextRunAt(monitor.schedule, monitor.timezone, now)
+    } catch {
+      // Saved before the schedule rules changed; stop scheduling it
+    }
+
+    // Claim the run: a concurrent tick in another process sees next_run_at moved on
+    const { data: claimed, error: claimError } = await scheduler
+      .from('research_monitors')
+      .update({ next_run_at: next, ...(next ? {} : { enabled: false, last_error: 'This schedule is no longer valid' }) })
+      .eq('id', monitor.id)
+      .eq('next_run_at', monitor.next_run_at)
+      .select('id')
+    if (claimError) throw claimError
+    if (!claimed?.length || !next) continue
+
+    try {
+      await asOwner(monitor, () => startMonitorRun(monitor))
+      result.started++
+    } catch (runError) {
+      result.failed++
+      console.error(`[RESEARCH MONITOR] Failed to start monitor ${monitor.id}:`, runError)
+      await scheduler
+        .from('research_monitors')
+        .update({ last_error: runError instanceof Error ? runError.message : 'Failed to start research' })
+        .eq('id', monitor.id)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Report finished runs and start the monitors that are due. Ticks triggered
+ * while another is in progress in this process share its result.
+ */
+export function runDueResearchMonitors(): Promise<MonitorTickResult> {
+  if (!isPersistenceConfigured() || !scheduler) {
+    return Promise.resolve({ reported: 0, started: 0, failed: 0 })
+  }
+
+  if (!activeTick) {
+    activeTick = tick().finally(() => {
+      activeTick = null
+    })
+  }
+  return activeTick
+}
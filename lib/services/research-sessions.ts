@@ -0,0 +1,529 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  getSupabase,
+  isPersistenceConfigured,
+  ownerFilter,
+  supabaseAdmin,
+  withUserId,
+  ResearchFinding,
+  ResearchSessionRecord,
+  ResearchSource
+} from '@/lib/database/supabase'
+import {
+  getDeepResearchService,
+  type DeepResearchRequestOptions,
+  type DeepResearchService,
+  type DeepResearchStatus
+} from '@/lib/services/deep-research-service'
+import { diffReports, diffSources, type ReportDiffLine, type SourceDiff } from '@/lib/research-diff'
+import { buildCitedReport, createSourceReference, type CitedReport } from '@/lib/research-report'
+import { CorpusDocumentError, isCorpusConfigured, resolveCorpusScope } from '@/lib/research-corpus'
+
+/**
+ * Persisted deep research. Starting a session saves a research_sessions row
+ * and hands the query to DeepResearchService; the service's progress events
+ * are written back as they arrive (status and phase on the session, findings
+ * per phase, cited sources per URL), so reports survive reloads and can be
+ * reopened, re-run with the same options or diffed against a newer run.
+ */
+
+export interface ResearchSessionDetail extends ResearchSessionRecord {
+  findings: ResearchFinding[]
+  sources: ResearchSource[]
+}
+
+export interface ResearchSessionDiff {
+  base: ResearchSessionRecord
+  compare: ResearchSessionRecord
+  report: ReportDiffLine[]
+  sources: SourceDiff
+  stats: { added: number; removed: number }
+}
+
+export class ResearchSessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ResearchSessionError'
+  }
+}
+
+// The run needs an API key that isn't configured
+export class ResearchUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ResearchUnavailableError'
+  }
+}
+
+const DEPTHS: NonNullable<DeepResearchRequestOptions['depth']>[] = ['surface', 'moderate', 'deep']
+const CORPUS_MODES: NonNullable<DeepResearchRequestOptions['corpus']>['mode'][] = ['corpus', 'mixed']
+const TERMINAL_STATUSES = new Set<DeepResearchStatus['status']>(['completed', 'failed', 'cancelled'])
+// A running session nothing has written to for this long died with the process that ran it
+const STALE_SESSION_AGE = 60 * 60 * 1000
+const MAX_SOURCES = 200
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface TrackedSession {
+  sessionId: string
+  db: SupabaseClient
+  status?: DeepResearchStatus['status']
+  phase?: string
+  sources: Set<string>
+  // Writes run one after another so a late progress event can't overwrite completion
+  writes: Promise<void>
+}
+
+// Tasks of this process by DeepResearchService task id
+const trackedTasks = new Map<string, TrackedSession>()
+// Session being started; claimed by the 'research:started' event, which the
+// service emits synchronously before any progress event
+let startingSession: TrackedSession | null = null
+const listeningServices = new WeakSet<DeepResearchService>()
+
+function requireDatabase() {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+  return supabase
+}
+
+// Web research needs Perplexity; document research embeds and answers with Gemini
+function checkResearchConfiguration(options: DeepResearchRequestOptions) {
+  if ((!options.corpus || options.corpus.mode === 'mixed') && !process.env.PERPLEXITY_API_KEY) {
+    throw new ResearchUnavailableError('Web research needs PERPLEXITY_API_KEY')
+  }
+  if (options.corpus && !isCorpusConfigured()) {
+    throw new ResearchUnavailableError('Researching documents needs GEMINI_API_KEY')
+  }
+}
+
+/**
+ * Validate request options, keeping only what DeepResearchService reads.
+ * Throws ResearchSessionError for invalid values.
+ */
+export function parseResearchOptions(input: unknown): DeepResearchRequestOptions {
+  if (input === undefined || input === null) return {}
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ResearchSessionError('options must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const options: DeepResearchRequestOptions = {}
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string')
+
+  if (raw.depth !== undefined) {
+    if (!DEPTHS.includes(raw.depth as any)) {
+      throw new ResearchSessionError(`depth must be one of ${DEPTHS.join(', ')}`)
+    }
+    options.depth = raw.depth as DeepResearchRequestOptions['depth']
+  }
+  if (raw.reasoningEffort !== undefined) {
+    if (typeof raw.reasoningEffort !== 'number' || raw.reasoningEffort < 1 || raw.reasoningEffort > 100) {
+      throw new ResearchSessionError('reasoningEffort must be a number from 1 to 100')
+    }
+    options.reasoningEffort = raw.reasoningEffort
+  }
+  if (raw.timeLimit !== undefined) {
+    if (typeof raw.timeLimit !== 'number' || raw.timeLimit <= 0) {
+      throw new ResearchSessionError('timeLimit must be a positive number of minutes')
+    }
+    options.timeLimit = raw.timeLimit
+  }
+  if (raw.focusAreas !== undefined) {
+    if (!isStringList(raw.focusAreas)) throw new ResearchSessionError('focusAreas must be an array of strings')
+    options.focusAreas = raw.focusAreas
+  }
+  if (raw.excludeDomains !== undefined) {
+    if (!isStringList(raw.excludeDomains)) throw new ResearchSessionError('excludeDomains must be an array of strings')
+    options.excludeDomains = raw.excludeDomains
+  }
+  if (raw.language !== undefined) {
+    if (typeof raw.language !== 'string') throw new ResearchSessionError('language must be a string')
+    options.language = raw.language
+  }
+  if (raw.corpus !== undefined && raw.corpus !== null) {
+    const corpus = raw.corpus as Record<string, unknown>
+    if (typeof corpus !== 'object' || !CORPUS_MODES.includes(corpus.mode as any)) {
+      throw new ResearchSessionError(`corpus.mode must be one of ${CORPUS_MODES.join(', ')}`)
+    }
+    if (!isStringList(corpus.documentIds) || corpus.documentIds.length === 0) {
+      throw new ResearchSessionError('corpus.documentIds must be a non-empty array of document ids')
+    }
+    options.corpus = {
+      mode: corpus.mode as NonNullable<DeepResearchRequestOptions['corpus']>['mode'],
+      documentIds: Array.from(new Set(corpus.documentIds)),
+    }
+  }
+
+  return options
+}
+
+// Sources cited in a finding: Markdown links with their titles, then bare URLs
+function extractSources(content: string): { url: string; title?: string }[] {
+  const sources = new Map<string, string | undefined>()
+
+  for (const match of content.matchAll(/\[([^\]\n]{1,200})\]\((https?:\/\/[^\s)]+)\)/g)) {
+    if (!sources.has(match[2])) sources.set(match[2], match[1].trim())
+  }
+  for (const match of content.matchAll(/https?:\/\/[^\s<>"'`)\]]+/g)) {
+    const url = match[0].replace(/[.,;:!?]+$/, '')
+    if (!sources.has(url)) sources.set(url, undefined)
+  }
+
+  return Array.from(sources, ([url, title]) => ({ url, title }))
+}
+
+async function saveProgress(tracked: TrackedSession, status: DeepResearchStatus): Promise<void> {
+  const { db, sessionId } = tracked
+  const findings = status.findings || []
+  const terminal = TERMINAL_STATUSES.has(status.status)
+
+  if (findings.length > 0) {
+    const { error } = await db
+      .from('research_findings')
+      .upsert(findings.map(finding => ({
+        session_id: sessionId,
+        phase: finding.phase,
+        content: finding.content,
+        confidence: finding.confidence ?? null,
+      })), { onConflict: 'session_id,phase' })
+    if (error) throw error
+
+    // Search results come first: the report's [n] citations number them
+    const sources = findings.flatMap(finding => [
+      ...(finding.sources || []).map((url, i) => ({
+        url,
+        title: finding.sourceTitles?.[url],
+        phase: finding.phase,
+        citationNumber: i + 1 as number | null,
+      })),
+      ...extractSources(finding.content).map(source => ({ ...source, phase: finding.phase, citationNumber: null })),
+    ])
+    const rows = []
+    for (const source of sources) {
+      if (tracked.sources.has(source.url) || tracked.sources.size >= MAX_SOURCES) continue
+      rows.push({
+        session_id: sessionId,
+        url: source.url,
+        title: source.title || null,
+        phase: source.phase,
+        position: tracked.sources.size,
+        citation_number: source.citationNumber,
+      })
+      tracked.sources.add(source.url)
+    }
+    if (rows.length > 0) {
+      const { error: sourcesError } = await db
+        .from('research_sources')
+        .upsert(rows, { onConflict: 'session_id,url', ignoreDuplicates: true })
+      if (sourcesError) throw sourcesError
+    }
+  }
+
+  const update: Record<string, unknown> = {
+    status: status.status,
+    phase: status.phase,
+    progress: Math.round(status.progress),
+    error: status.error || null,
+  }
+  if (terminal) update.completed_at = new Date().toISOString()
+  if (status.status === 'completed' && findings.length > 0) {
+    update.report = findings[findings.length - 1].content
+  }
+
+  const { error } = await db
+    .from('research_sessions')
+    .update(update)
+    .eq('id', sessionId)
+  if (error) throw error
+}
+
+function handleProgress(status: DeepResearchStatus) {
+  const tracked = trackedTasks.get(status.taskId)
+  if (!tracked) return
+
+  // Async jobs report progress on every poll; only phase and status changes
+  // and new findings are worth a write
+  const changed = status.status !== tracked.status || status.phase !== tracked.phase
+  if (!changed && !status.findings?.length) return
+  tracked.status = status.status
+  tracked.phase = status.phase
+
+  const snapshot = { ...status, findings: status.findings?.map(finding => ({ ...finding })) }
+  tracked.writes = tracked.writes
+    .then(() => saveProgress(tracked, snapshot))
+    .catch(error => console.error(`[RESEARCH] Failed to save progress of session ${tracked.sessionId}:`, error))
+
+  if (TERMINAL_STATUSES.has(status.status)) {
+    trackedTasks.delete(status.taskId)
+  }
+}
+
+function listenTo(service: DeepResearchService) {
+  if (listeningServices.has(service)) return
+  listeningServices.add(service)
+
+  service.on('research:started', ({ taskId }: { taskId: string }) => {
+    if (!startingSession) return
+    trackedTasks.set(taskId, startingSession)
+    startingSession = null
+  })
+  service.on('research:progress', handleProgress)
+}
+
+function withoutStaleStatus<T extends ResearchSessionRecord>(session: T): T {
+  const running = session.status === 'queued' || session.status === 'processing'
+  if (!running) return session
+
+  const isTracked = Array.from(trackedTasks.values()).some(tracked => tracked.sessionId === session.id)
+  if (isTracked || Date.now() - new Date(session.updated_at).getTime() < STALE_SESSION_AGE) {
+    return session
+  }
+  return { ...session, status: 'failed', error: session.error || 'Research was interrupted before it finished' }
+}
+
+async function findOwnedChatId(chatId: string | null | undefined): Promise<string | null> {
+  if (!chatId || !UUID_PATTERN.test(chatId)) return null
+
+  const { data, error } = await requireDatabase()
+    .from('chats')
+    .select('id')
+    .match(ownerFilter())
+    .eq('id', chatId)
+    .maybeSingle()
+  if (error) throw error
+  return data?.id ?? null
+}
+
+/**
+ * Save a session and start its research in the background. The session is
+ * linked to the chat when it's a saved chat of the current user. Throws
+ * ResearchUnavailableError when a key the run needs is missing and
+ * ResearchSessionError when its documents aren't the user's.
+ */
+export async function startResearchSession(input: {
+  query: string
+  options?: DeepResearchRequestOptions
+  chatId?: string | null
+  rerunOf?: string | null
+  monitorId?: string | null
+}): Promise<ResearchSessionRecord> {
+  const db = requireDatabase()
+  const options = input.options || {}
+  checkResearchConfiguration(options)
+  if (options.corpus) {
+    try {
+      await resolveCorpusScope(options.corpus)
+    } catch (scopeError) {
+      if (scopeError instanceof CorpusDocumentError) throw new ResearchSessionError(scopeError.message)
+      throw scopeError
+    }
+  }
+  const service = getDeepResearchService()
+  listenTo(service)
+
+  const { data: session, error } = await db
+    .from('research_sessions')
+    .insert(withUserId({
+      query: input.query,
+      options,
+      chat_id: await findOwnedChatId(input.chatId),
+      rerun_of: input.rerunOf || null,
+      // Only monitor runs set it, so databases without add-research-monitors.sql keep working
+      ...(input.monitorId ? { monitor_id: input.monitorId } : {}),
+    }))
+    .select('*')
+    .single()
+  if (error) throw error
+
+  // Background writes outlive the request and its user token; the service
+  // role client keeps them going when it's configured
+  startingSession = {
+    sessionId: session.id,
+    db: supabaseAdmin || db,
+    sources: new Set(),
+    writes: Promise.resolve(),
+  }
+  try {
+    await service.startDeepResearch(input.query, options)
+  } catch (startError) {
+    startingSession = null
+    await db
+      .from('research_sessions')
+      .update({
+        status: 'failed',
+        error: startError instanceof Error ? startError.message : 'Failed to start research',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', session.id)
+    throw startError
+  }
+
+  return session
+}
+
+export async function getResearchSessions(filter: {
+  chatId?: string
+  limit?: number
+  offset?: number
+} = {}): Promise<ResearchSessionRecord[]> {
+  const limit = filter.limit ?? 50
+  const offset = filter.offset ?? 0
+
+  let query = requireDatabase()
+    .from('research_sessions')
+    .select('*')
+    .match(ownerFilter())
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  if (filter.chatId) query = query.eq('chat_id', filter.chatId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []).map(withoutStaleStatus)
+}
+
+// A session with its findings (in phase order) and sources, or null when it isn't the user's
+export async function getResearchSession(sessionId: string): Promise<ResearchSessionDetail | null> {
+  if (!UUID_PATTERN.test(sessionId)) return null
+  const db = requireDatabase()
+
+  const { data: session, error } = await db
+    .from('research_sessions')
+    .select('*')
+    .match(ownerFilter())
+    .eq('id', sessionId)
+    .maybeSingle()
+  if (error) throw error
+  if (!session) return null
+
+  const [findings, sources] = await Promise.all([
+    db.from('research_findings').select('*').eq('session_id', sessionId).order('created_at', { ascending: true }),
+    db.from('research_sources').select('*').eq('session_id', sessionId).order('position', { ascending: true }),
+  ])
+  if (findings.error) throw findings.error
+  if (sources.error) throw sources.error
+
+  return {
+    ...withoutStaleStatus(session as ResearchSessionRecord),
+    findings: findings.data || [],
+    sources: sources.data || [],
+  }
+}
+
+// Start a new session with the query, options and chat of an earlier one
+export async function rerunResearchSession(sessionId: string): Promise<ResearchSessionRecord | null> {
+  const session = await getResearchSession(sessionId)
+  if (!session) return null
+
+  return startResearchSession({
+    query: session.query,
+    options: parseResearchOptions(session.options),
+    chatId: session.chat_id,
+    rerunOf: session.id,
+  })
+}
+
+export async function deleteResearchSession(sessionId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(sessionId)) return false
+
+  for (const [taskId, tracked] of trackedTasks) {
+    if (tracked.sessionId !== sessionId) continue
+    trackedTasks.delete(taskId)
+    await getDeepResearchService().cancelResearch(taskId)
+  }
+
+  const { data, error } = await requireDatabase()
+    .from('research_sessions')
+    .delete()
+    .match(ownerFilter())
+    .eq('id', sessionId)
+    .select('id')
+  if (error) throw error
+  return (data?.length || 0) > 0
+}
+
+// The newest later run of the same query, preferring re-runs of this session
+async function findNewerRun(session: ResearchSessionRecord): Promise<ResearchSessionRecord | null> {
+  const { data, error } = await requireDatabase()
+    .from('research_sessions')
+    .select('*')
+    .match(ownerFilter())
+    .eq('query', session.query)
+    .eq('status', 'completed')
+    .gt('created_at', session.created_at)
+    .order('created_at', { ascending: false })
+    .limit(20)
+  if (error) throw error
+
+  const runs = (data || []) as ResearchSessionRecord[]
+  return runs.find(run => run.rerun_of === session.id) || runs[0] || null
+}
+
+/**
+ * Differences between a session's report and sources and those of another
+ * run; without compareId, the newest later completed run of the same query.
+ * Null when either session is missing. Throws ResearchSessionError when there
+ * is nothing to compare against.
+ */
+export async function diffResearchSessions(baseId: string, compareId?: string): Promise<ResearchSessionDiff | null> {
+  const base = await getResearchSession(baseId)
+  if (!base) return null
+
+  let compare: ResearchSessionDetail | null
+  if (compareId) {
+    compare = await getResearchSession(compareId)
+  } else {
+    const newer = await findNewerRun(base)
+    if (!newer) throw new ResearchSessionError('There is no newer completed run of this research to compare with')
+    compare = await getResearchSession(newer.id)
+  }
+  if (!compare) return null
+
+  if (!base.report || !compare.report) {
+    throw new ResearchSessionError('Both sessions need a finished report to compare')
+  }
+
+  const report = diffReports(base.report, compare.report)
+  const { findings: _baseFindings, sources: baseSources, ...baseRecord } = base
+  const { findings: _compareFindings, sources: compareSources, ...compareRecord } = compare
+
+  return {
+    base: baseRecord,
+    compare: compareRecord,
+    report,
+    sources: diffSources(baseSources.map(source => source.url), compareSources.map(source => source.url)),
+    stats: {
+      added: report.filter(line => line.op === 'added').length,
+      removed: report.filter(line => line.op === 'removed').length,
+    },
+  }
+}
+
+/**
+ * The session's report with its citations resolved to the sources the run
+ * collected and checked for uncited claims. Null when the session is missing;
+ * throws ResearchSessionError while there is no report yet.
+ */
+export async function getResearchReport(sessionId: string): Promise<CitedReport | null> {
+  const session = await getResearchSession(sessionId)
+  if (!session) return null
+  if (!session.report) {
+    throw new ResearchSessionError('This research has no report yet')
+  }
+
+  const sources = session.sources.map(source => createSourceReference({ url: source.url, title: source.title }))
+  const numbered: (typeof sources[number] | undefined)[] = []
+  session.sources.forEach((source, i) => {
+    if (source.citation_number) numbered[source.citation_number - 1] = sources[i]
+  })
+
+  return buildCitedReport({
+    title: session.query,
+    text: session.report,
+    sources,
+    numbered: Array.from(numbered),
+  })
+}
@@ -0,0 +1,67 @@
+import { getCurrentUser, isAuthEnabled } from '@/lib/auth'
+import { getSupabase, isPersistenceConfigured, ownerFilter } from '@/lib/database/supabase'
+import { isSafeStorageKey, storageProxyUrl } from '@/lib/storage/proxy'
+
+/**
+ * Who may read an object served through /api/storage. Media copied for a
+ * share link (shares/<token>/) is public while the link is live; anything
+ * else needs the signed-in owner of an image, video, audio or upload that
+ * points at it. Without sign-in every object is readable, as before.
+ */
+
+export type StorageAccess = 'denied' | 'owner' | 'share'
+
+// Rows that reference stored objects, and the columns holding their URLs
+const REFERENCES: { table: string; columns: string[] }[] = [
+  { table: 'images', columns: ['url'] },
+  { table: 'videos', columns: ['url', 'thumbnail_url'] },
+  { table: 'audios', columns: ['url'] },
+  { table: 'file_references', columns: ['file_url'] },
+]
+
+// Whether a share link is live (neither revoked nor expired), without counting a view
+async function isShareTokenActive(token: string): Promise<boolean> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) return false
+
+  const { data, error } = await supabase.rpc('is_share_active', { p_token: token })
+  if (error) throw error
+  return data === true
+}
+
+async function isReferencedByOwner(url: string): Promise<boolean> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) return false
+
+  for (const { table, columns } of REFERENCES) {
+    const { count, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .match(ownerFilter())
+      .or(columns.map(column => `${column}.eq.${JSON.stringify(url)}`).join(','))
+
+    if (error) {
+      // Tables from optional migrations may not exist yet
+      console.warn(`[STORAGE] Could not check ${table} for`, url, error.message)
+      continue
+    }
+    if (count) return true
+  }
+  return false
+}
+
+// `url` is the object's URL as saved in the database; the /api/storage URL of
+// the key unless the backend serves objects itself
+export async function getStorageAccess(key: string, url = storageProxyUrl(key)): Promise<StorageAccess> {
+  // Checked before the share prefix, which "shares/<token>/../.." would otherwise pass
+  if (!isSafeStorageKey(key)) return 'denied'
+
+  const shareToken = key.match(/^shares\/([^/]+)\//)?.[1]
+  if (shareToken) {
+    return await isShareTokenActive(shareToken) ? 'share' : 'denied'
+  }
+
+  if (!isAuthEnabled()) return 'owner'
+  if (!getCurrentUser()) return 'denied'
+  return await isReferencedByOwner(url) ? 'owner' : 'denied'
+}
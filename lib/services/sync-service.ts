@@ -0,0 +1,253 @@
+import { getSupabase, isPersistenceConfigured, ownerFilter, withUserId } from '@/lib/database/supabase'
+import { addMessage, deleteChat, getImageByLocalId, saveImage, saveVideo } from '@/lib/services/chat-persistence'
+import { uploadAudioToStorage } from '@/lib/storage/media-storage'
+import { queueMediaArchival } from '@/lib/services/media-archival'
+import { mergeFields } from '@/lib/sync/merge'
+import type {
+  AudioSaveMutation,
+  ChatUpsertMutation,
+  MessageAddMutation,
+  SyncChatFields,
+  SyncMutation,
+  SyncMutationResult
+} from '@/lib/sync/types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface RemoteChat extends SyncChatFields {
+  id: string
+  updated_at: string
+}
+
+// Chats created offline are found by the client id stored in their metadata
+async function findChat(clientId: string): Promise<RemoteChat | null> {
+  const supabase = getSupabase()
+  if (!supabase) return null
+
+  if (UUID_PATTERN.test(clientId)) {
+    const { data, error } = await supabase
+      .from('chats')
+      .select('id, title, model, updated_at')
+      .match(ownerFilter())
+      .eq('id', clientId)
+      .maybeSingle()
+    if (error) throw error
+    if (data) return data
+  }
+
+  const { data, error } = await supabase
+    .from('chats')
+    .select('id, title, model, updated_at')
+    .match(ownerFilter())
+    .eq('metadata->>clientId', clientId)
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+async function findMessageId(chatId: string, clientId: string): Promise<string | null> {
+  const supabase = getSupabase()
+  if (!supabase) return null
+
+  const query = supabase.from('messages').select('id').eq('chat_id', chatId)
+  const { data, error } = await (UUID_PATTERN.test(clientId)
+    ? query.or(`id.eq.${clientId},metadata->>clientId.eq.${clientId}`)
+    : query.eq('metadata->>clientId', clientId)
+  ).limit(1).maybeSingle()
+  if (error) throw error
+  return data?.id ?? null
+}
+
+async function findByLocalId(table: 'videos' | 'audios', localId: string): Promise<string | null> {
+  const supabase = getSupabase()
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('id')
+    .match(ownerFilter())
+    .eq('metadata->>localId', localId)
+    .limit(1)
+    .maybeSingle()
+  if (error) throw error
+  return data?.id ?? null
+}
+
+async function resolveChatId(chatClientId?: string): Promise<string | undefined> {
+  if (!chatClientId) return undefined
+  return (await findChat(chatClientId))?.id
+}
+
+async function applyChatUpsert(mutation: ChatUpsertMutation): Promise<SyncMutationResult> {
+  const supabase = getSupabase()
+  const remote = await findChat(mutation.clientId)
+
+  if (!remote) {
+    const { data, error } = await supabase!
+      .from('chats')
+      .insert(withUserId({
+        title: mutation.fields.title || 'New Chat',
+        model: mutation.fields.model || 'gemini-2.0-flash',
+        created_at: mutation.createdAt,
+        metadata: { clientId: mutation.clientId },
+      }))
+      .select('id')
+      .single()
+    if (error) throw error
+    return { mutationId: mutation.id, status: 'applied', remoteId: data.id }
+  }
+
+  const { updates, conflictingFields } = mergeFields<SyncChatFields>(
+    remote,
+    mutation.fields,
+    mutation.baseFields,
+    mutation.baseUpdatedAt
+  )
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await supabase!
+      .from('chats')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', remote.id)
+    if (error) throw error
+  }
+
+  return {
+    mutationId: mutation.id,
+    status: conflictingFields.length > 0 ? 'merged' : 'applied',
+    remoteId: remote.id,
+    conflictingFields: conflictingFields.length > 0 ? conflictingFields : undefined,
+  }
+}
+
+async function applyMessageAdd(mutation: MessageAddMutation): Promise<SyncMutationResult> {
+  const chatId = await resolveChatId(mutation.chatClientId)
+  if (!chatId) {
+    // The chat was deleted; nothing to attach the message to
+    return { mutationId: mutation.id, status: 'skipped' }
+  }
+
+  const existingId = await findMessageId(chatId, mutation.clientId)
+  if (existingId) {
+    return { mutationId: mutation.id, status: 'skipped', remoteId: existingId }
+  }
+
+  const parentId = mutation.parentClientId
+    ? await findMessageId(chatId, mutation.parentClientId)
+    : null
+
+  const message = await addMessage(
+    chatId,
+    mutation.role,
+    mutation.content,
+    mutation.attachments,
+    { ...mutation.metadata, clientId: mutation.clientId },
+    parentId,
+    mutation.createdAt
+  )
+  if (!message) throw new Error('Failed to save message')
+
+  return { mutationId: mutation.id, status: 'applied', remoteId: message.id }
+}
+
+async function applyAudioSave(mutation: AudioSaveMutation): Promise<SyncMutationResult> {
+  const supabase = getSupabase()
+  const { audio } = mutation
+  const existingId = await findByLocalId('audios', audio.id)
+  if (existingId) {
+    return { mutationId: mutation.id, status: 'skipped', remoteId: existingId }
+  }
+
+  const extension = audio.mimeType.split('/')[1]?.split(';')[0] || 'wav'
+  const url = await uploadAudioToStorage(audio.audioBase64, audio.mimeType, `${audio.id}.${extension}`)
+
+  const { data, error } = await supabase!
+    .from('audios')
+    .insert(withUserId({
+      chat_id: await resolveChatId(mutation.chatClientId),
+      url,
+      text: audio.text,
+      script: audio.script,
+      mime_type: audio.mimeType,
+      duration: audio.duration,
+      voice: audio.voiceName || audio.voice,
+      provider: audio.provider,
+      is_multi_speaker: audio.isMultiSpeaker || false,
+      created_at: new Date(audio.timestamp).toISOString(),
+      metadata: { localId: audio.id, voiceId: audio.voiceId },
+    }))
+    .select('id')
+    .single()
+  if (error) throw error
+
+  // The upload fell back to a data URL; keep retrying in the background
+  queueMediaArchival('audio', data.id, 'url', url)
+
+  return { mutationId: mutation.id, status: 'applied', remoteId: data.id }
+}
+
+async function applyMutation(mutation: SyncMutation): Promise<SyncMutationResult> {
+  switch (mutation.type) {
+    case 'chat.upsert':
+      return applyChatUpsert(mutation)
+
+    case 'chat.delete': {
+      const remote = await findChat(mutation.clientId)
+      if (!remote) return { mutationId: mutation.id, status: 'skipped' }
+      if (!(await deleteChat(remote.id))) throw new Error('Failed to delete chat')
+      return { mutationId: mutation.id, status: 'applied', remoteId: remote.id }
+    }
+
+    case 'message.add':
+      return applyMessageAdd(mutation)
+
+    case 'image.save': {
+      const existing = await getImageByLocalId(mutation.image.id)
+      if (existing) return { mutationId: mutation.id, status: 'skipped', remoteId: existing.id }
+      const saved = await saveImage(mutation.image, await resolveChatId(mutation.chatClientId))
+      if (!saved) throw new Error('Failed to save image')
+      return { mutationId: mutation.id, status: 'applied', remoteId: saved.id }
+    }
+
+    case 'video.save': {
+      const existingId = await findByLocalId('videos', mutation.video.id)
+      if (existingId) return { mutationId: mutation.id, status: 'skipped', remoteId: existingId }
+      const saved = await saveVideo(mutation.video, await resolveChatId(mutation.chatClientId))
+      if (!saved) throw new Error('Failed to save video')
+      return { mutationId: mutation.id, status: 'applied', remoteId: saved.id }
+    }
+
+    case 'audio.save':
+      return applyAudioSave(mutation)
+  }
+}
+
+/**
+ * Apply queued client mutations in order. Stops at the first failure so
+ * later mutations (e.g. messages of a chat that failed to sync) are retried
+ * together with it; results cover only the mutations that were attempted.
+ */
+export async function applySyncMutations(mutations: SyncMutation[]): Promise<SyncMutationResult[]> {
+  const supabase = getSupabase()
+  if (!isPersistenceConfigured() || !supabase) {
+    throw new Error('Persistence not configured')
+  }
+
+  const results: SyncMutationResult[] = []
+  for (const mutation of mutations) {
+    try {
+      results.push(await applyMutation(mutation))
+    } catch (error: any) {
+      console.error(`[SYNC] Failed to apply ${mutation.type} ${mutation.id}:`, error)
+      results.push({
+        mutationId: mutation.id,
+        status: 'failed',
+        error: error.message || 'Unknown error',
+        retryable: true,
+      })
+      break
+    }
+  }
+  return results
+}
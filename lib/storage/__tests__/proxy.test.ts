@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest'
+import { isSafeStorageKey, keyFromProxyUrl, storageProxyUrl } from '@/lib/storage/proxy'
+import { getStorageAccess } from '@/lib/services/storage-access'
+
+// Every share token is live and nobody is signed in
+vi.mock('@/lib/database/supabase', () => ({
+  isPersistenceConfigured: () => true,
+  getSupabase: () => ({ rpc: async () => ({ data: true, error: null }) }),
+  ownerFilter: () => ({}),
+}))
+vi.mock('@/lib/auth', () => ({
+  isAuthEnabled: () => true,
+  getCurrentUser: () => null,
+}))
+
+describe('storage keys', () => {
+  it('round-trips keys through proxy URLs', () => {
+    const key = 'images/user 1/photo#1.png'
+    expect(keyFromProxyUrl(storageProxyUrl(key))).toBe(key)
+    expect(keyFromProxyUrl('https://example.com/images/x.png')).toBeNull()
+  })
+
+  it('rejects keys with empty, "." or ".." segments', () => {
+    for (const key of ['', 'shares/t/../../images/x.png', 'images/./x.png', 'images//x.png', '/images/x.png', 'images\\..\\x']) {
+      expect(isSafeStorageKey(key), key).toBe(false)
+    }
+    expect(isSafeStorageKey('shares/t/images/x.png')).toBe(true)
+  })
+
+  it('does not decode encoded slashes into traversal', () => {
+    expect(keyFromProxyUrl('/api/storage/shares/t/..%2F..%2Fimages%2Fx.png')).toBeNull()
+    expect(keyFromProxyUrl('/api/storage/images/%E0%A4%A')).toBeNull()
+  })
+
+  it('serves share copies only under their own prefix', async () => {
+    expect(await getStorageAccess('shares/t/images/x.png')).toBe('share')
+    expect(await getStorageAccess('shares/t/../../images/x.png')).toBe('denied')
+    expect(await getStorageAccess('images/x.png')).toBe('denied')
+  })
+})
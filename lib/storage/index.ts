@@ -0,0 +1,72 @@
+import { isPersistenceConfigured } from '@/lib/database/supabase'
+import { LocalFileStorage } from './providers/local-file-storage'
+import { S3Storage, getS3Config } from './providers/s3-storage'
+import { SupabaseStorage } from './providers/supabase-storage'
+import { VercelBlobStorage } from './providers/vercel-blob-storage'
+import type { StorageProvider, StorageProviderId } from './types'
+
+export type { StorageProvider, StorageProviderId, StoredObject, StorageObjectData } from './types'
+
+const PROVIDER_IDS: StorageProviderId[] = ['vercel-blob', 'supabase', 's3', 'local']
+
+let cachedProvider: StorageProvider | null | undefined
+
+function createProvider(id: StorageProviderId): StorageProvider | null {
+  switch (id) {
+    case 'vercel-blob':
+      if (!process.env.BLOB_READ_WRITE_TOKEN) {
+        console.warn('[STORAGE] STORAGE_PROVIDER=vercel-blob but BLOB_READ_WRITE_TOKEN is not set')
+        return null
+      }
+      return new VercelBlobStorage()
+
+    case 'supabase':
+      if (!isPersistenceConfigured()) {
+        console.warn('[STORAGE] STORAGE_PROVIDER=supabase but Supabase is not configured')
+        return null
+      }
+      return new SupabaseStorage()
+
+    case 's3': {
+      const config = getS3Config()
+      if (!config) {
+        console.warn('[STORAGE] STORAGE_PROVIDER=s3 but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set')
+        return null
+      }
+      return new S3Storage(config)
+    }
+
+    case 'local':
+      return new LocalFileStorage()
+  }
+}
+
+/**
+ * The durable storage backend chosen by STORAGE_PROVIDER ("vercel-blob",
+ * "supabase", "s3" or "local"). Without it, Vercel Blob is used when
+ * BLOB_READ_WRITE_TOKEN is set and S3 when its credentials are. Returns null
+ * when no backend is configured; media then keeps its original URLs.
+ */
+export function getStorageProvider(): StorageProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider
+
+  const requested = process.env.STORAGE_PROVIDER as StorageProviderId | undefined
+  if (requested && !PROVIDER_IDS.includes(requested)) {
+    console.warn(`[STORAGE] Unknown STORAGE_PROVIDER "${requested}"; expected one of ${PROVIDER_IDS.join(', ')}`)
+    cachedProvider = null
+  } else if (requested) {
+    cachedProvider = createProvider(requested)
+  } else if (process.env.BLOB_READ_WRITE_TOKEN) {
+    cachedProvider = new VercelBlobStorage()
+  } else if (getS3Config()) {
+    cachedProvider = createProvider('s3')
+  } else {
+    cachedProvider = null
+  }
+
+  return cachedProvider
+}
+
+export function isStorageConfigured(): boolean {
+  return getStorageProvider() !== null
+}
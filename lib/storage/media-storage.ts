@@ -0,0 +1,255 @@
+import { getStorageProvider, type StoredObject } from '@/lib/storage'
+import { fetchPublicUrl, UnsafeUrlError } from '@/lib/safe-fetch'
+
+export type MediaKind = 'image' | 'video' | 'audio'
+
+const DEFAULT_CONTENT_TYPES: Record<MediaKind, string> = {
+  image: 'image/png',
+  video: 'video/mp4',
+  audio: 'audio/wav',
+}
+
+// Hosts (and their subdomains) generation providers serve results from;
+// MEDIA_SOURCE_HOSTS adds more, comma-separated
+const MEDIA_SOURCE_HOSTS = [
+  'replicate.delivery',
+  'replicate.com',
+  'wavespeed.ai',
+  'cloudfront.net',
+  'play.ht',
+  'amazonaws.com',
+  'hf.space',
+  'huggingface.co',
+  'blob.core.windows.net',
+  'googleapis.com',
+  'googleusercontent.com',
+]
+
+function isMediaSourceHost(hostname: string): boolean {
+  const extra = (process.env.MEDIA_SOURCE_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+  const host = hostname.toLowerCase()
+  return [...MEDIA_SOURCE_HOSTS, ...extra].some(allowed => host === allowed || host.endsWith(`.${allowed}`))
+}
+
+// Download a generated file so it can be copied into durable storage. URLs
+// can come from clients, so only known provider hosts on public addresses are fetched.
+async function downloadMedia(
+  url: string,
+  kind: MediaKind
+): Promise<{ buffer: Buffer; contentType: string }> {
+  if (url.startsWith('data:')) {
+    // Extract MIME type from data URL
+    const mimeMatch = url.match(/^data:([^;]+);/)
+    const contentType = mimeMatch ? mimeMatch[1] : DEFAULT_CONTENT_TYPES[kind]
+    console.log('[STORAGE] Detected content type:', contentType)
+    return { buffer: Buffer.from(url.split(',')[1], 'base64'), contentType }
+  }
+
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    throw new UnsafeUrlError(`Invalid ${kind} URL`)
+  }
+  if (!isMediaSourceHost(hostname)) {
+    throw new UnsafeUrlError(`${hostname} is not a known media host; add it to MEDIA_SOURCE_HOSTS to copy media from it`)
+  }
+
+  console.log('[STORAGE] Fetching external URL')
+  const response = await fetchPublicUrl(url)
+
+  // Check if the response is valid
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${kind}: ${response.status} ${response.statusText}`)
+  }
+
+  const buffer = await response.arrayBuffer()
+  console.log('[STORAGE] Downloaded buffer size:', buffer.byteLength)
+
+  // Validate the response content
+  const contentType = response.headers.get('content-type') || ''
+
+  // Check for error responses
+  if (buffer.byteLength < 100) {
+    // Small response, might be an error
+    const text = new TextDecoder().decode(buffer)
+    console.error('[STORAGE] Suspiciously small response:', text)
+
+    // Check if it's a JSON error
+    if (text.includes('"detail"') || text.includes('"error"')) {
+      throw new Error(`${kind[0].toUpperCase()}${kind.slice(1)} generation failed: ${text}`)
+    }
+  }
+
+  // Validate content type; some CDNs serve videos and audio as octet-stream
+  const isExpectedType = contentType.startsWith(`${kind}/`) ||
+    (kind !== 'image' && contentType.startsWith('application/octet-stream'))
+  if (!isExpectedType) {
+    const text = new TextDecoder().decode(buffer.slice(0, 200))
+    console.error('[STORAGE] Invalid content type:', contentType)
+    console.error('[STORAGE] Response preview:', text)
+    throw new Error(`Invalid ${kind} response: expected ${kind}, got ${contentType}`)
+  }
+
+  return {
+    buffer: Buffer.from(buffer),
+    contentType: contentType.startsWith(`${kind}/`) ? contentType : DEFAULT_CONTENT_TYPES[kind]
+  }
+}
+
+/**
+ * Copy a file (data URL or remote URL) into durable storage under `key`.
+ * Unlike the upload helpers below this throws on failure, so callers can retry.
+ */
+export async function storeMediaFromUrl(url: string, kind: MediaKind, key: string): Promise<StoredObject> {
+  const storage = getStorageProvider()
+  if (!storage) {
+    throw new Error('Storage not configured')
+  }
+  const { buffer, contentType } = await downloadMedia(url, kind)
+  return storage.put(key, buffer, { contentType })
+}
+
+const DEFAULT_EXTENSIONS: Record<MediaKind, string> = {
+  image: 'png',
+  video: 'mp4',
+  audio: 'wav',
+}
+
+// File extension for a media URL: from a data URL's MIME type or the URL path, else the kind's default
+export function mediaFileExtension(url: string, kind: MediaKind): string {
+  const dataMime = url.match(/^data:[a-z]+\/([\w.+-]+)[;,]/)
+  const pathExtension = url.startsWith('data:') ? undefined : url.split(/[?#]/)[0].match(/\.([a-z0-9]{2,4})$/i)?.[1]
+  return (dataMime?.[1] || pathExtension || DEFAULT_EXTENSIONS[kind]).toLowerCase().replace('jpeg', 'jpg')
+}
+
+// Deep copy of `value` with every string that is a key of `urls` replaced by its value
+export function replaceMediaUrls<T>(value: T, urls: Map<string, string>): T {
+  if (typeof value === 'string') return (urls.get(value) ?? value) as T
+  if (Array.isArray(value)) return value.map(item => replaceMediaUrls(item, urls)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceMediaUrls(item, urls)])
+    ) as T
+  }
+  return value
+}
+
+// Whether a URL already points at the configured storage backend
+export function isStoredUrl(url: string): boolean {
+  return !!getStorageProvider()?.keyFromUrl(url)
+}
+
+// Helper to upload image to durable storage
+export async function uploadImageToStorage(
+  imageUrl: string,
+  filename: string
+): Promise<string> {
+  const storage = getStorageProvider()
+  if (!storage) {
+    console.log('Storage not configured - returning original URL')
+    return imageUrl
+  }
+
+  try {
+    console.log(`[STORAGE] Starting ${storage.id} upload for:`, filename)
+    console.log('[STORAGE] URL type:', imageUrl.startsWith('data:') ? 'data URL' : 'external URL')
+
+    // If it's already in storage, return it
+    if (storage.keyFromUrl(imageUrl)) {
+      console.log('[STORAGE] Already stored, returning as-is')
+      return imageUrl
+    }
+
+    const { buffer, contentType } = await downloadMedia(imageUrl, 'image')
+    console.log('[STORAGE] Buffer size:', buffer.length)
+
+    const stored = await storage.put(`images/${filename}`, buffer, { contentType })
+
+    console.log('[STORAGE] Upload successful:', stored.url)
+    return stored.url
+  } catch (error) {
+    console.error('[STORAGE] Error uploading image to storage:', error)
+    console.error('[STORAGE] Error details:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    })
+    // Return original URL as fallback
+    return imageUrl
+  }
+}
+
+// Helper to upload base64 audio to storage; returns a data URL when storage is not configured
+export async function uploadAudioToStorage(
+  audioBase64: string,
+  mimeType: string,
+  filename: string
+): Promise<string> {
+  const dataUrl = `data:${mimeType};base64,${audioBase64}`
+  const storage = getStorageProvider()
+  if (!storage) {
+    return dataUrl
+  }
+
+  try {
+    const stored = await storage.put(`audio/${filename}`, Buffer.from(audioBase64, 'base64'), {
+      contentType: mimeType,
+    })
+    console.log('[STORAGE] Audio upload successful:', stored.url)
+    return stored.url
+  } catch (error) {
+    console.error('[STORAGE] Error uploading audio to storage:', error)
+    return dataUrl
+  }
+}
+
+// Helper to keep a durable copy of a user upload; returns null when storage is not configured
+export async function uploadFileToStorage(
+  data: Buffer,
+  contentType: string,
+  filename: string
+): Promise<string | null> {
+  const storage = getStorageProvider()
+  if (!storage) {
+    return null
+  }
+
+  try {
+    const stored = await storage.put(`uploads/${filename}`, data, { contentType })
+    console.log('[STORAGE] File upload successful:', stored.url)
+    return stored.url
+  } catch (error) {
+    console.error('[STORAGE] Error uploading file to storage:', error)
+    return null
+  }
+}
+
+// Helper to delete a stored file by its URL; URLs from other hosts are ignored
+export async function deleteFromStorage(url: string): Promise<void> {
+  const storage = getStorageProvider()
+  const key = storage?.keyFromUrl(url)
+  if (!storage || !key) {
+    return
+  }
+
+  try {
+    await storage.delete(key)
+  } catch (error) {
+    console.error('Error deleting from storage:', error)
+  }
+}
+
+// List all images in storage
+export async function listImagesInStorage() {
+  const storage = getStorageProvider()
+  if (!storage) {
+    return []
+  }
+
+  try {
+    return await storage.list('images/')
+  } catch (error) {
+    console.error('Error listing storage:', error)
+    return []
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { keyFromProxyUrl, storageProxyUrl } from '../proxy'
+import type { StorageObjectData, StoragePutOptions, StorageProvider, StoredObject } from '../types'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.avif': 'image/avif',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+}
+
+function contentTypeFor(key: string): string | undefined {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()]
+}
+
+/**
+ * Files under STORAGE_LOCAL_DIR (default ./.storage), served through
+ * /api/storage. Meant for development and single-server deployments.
+ */
+export class LocalFileStorage implements StorageProvider {
+  id = 'local' as const
+  private root = path.resolve(process.env.STORAGE_LOCAL_DIR || '.storage')
+
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.root, key)
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, data: Buffer, options?: StoragePutOptions): Promise<StoredObject> {
+    const filePath = this.pathFor(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+    return {
+      key,
+      url: storageProxyUrl(key),
+      size: data.length,
+      contentType: options?.contentType || contentTypeFor(key),
+    }
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    try {
+      return { data: await fs.readFile(this.pathFor(key)), contentType: contentTypeFor(key) }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true })
+  }
+
+  async list(prefix = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = []
+
+    const walk = async (dir: string) => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return
+        throw error
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(entryPath)
+          continue
+        }
+        const key = path.relative(this.root, entryPath).split(path.sep).join('/')
+        if (!key.startsWith(prefix)) continue
+        const stats = await fs.stat(entryPath)
+        objects.push({
+          key,
+          url: storageProxyUrl(key),
+          size: stats.size,
+          contentType: contentTypeFor(key),
+          uploadedAt: stats.mtime,
+        })
+      }
+    }
+
+    await walk(this.root)
+    return objects
+  }
+
+  // Files are served by the app itself; there is no separate URL to sign
+  async getSignedUrl(key: string): Promise<string> {
+    return storageProxyUrl(key)
+  }
+
+  keyFromUrl(url: string): string | null {
+    return keyFromProxyUrl(url)
+  }
+}
@@ -0,0 +1,241 @@
+import { createHash, createHmac } from 'node:crypto'
+import { keyFromProxyUrl, storageProxyUrl } from '../proxy'
+import type { StorageObjectData, StoragePutOptions, StorageProvider, StoredObject } from '../types'
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, Cloudflare R2, ...). Requests
+ * are signed with AWS Signature V4 directly, so no SDK is needed.
+ *
+ * S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required. For MinIO
+ * set S3_ENDPOINT (e.g. http://localhost:9000); path-style addressing is used
+ * whenever an endpoint is set unless S3_FORCE_PATH_STYLE=false. Objects are
+ * served through /api/storage unless S3_PUBLIC_URL points at a public bucket or CDN.
+ */
+
+interface S3Config {
+  bucket: string
+  region: string
+  endpoint: string
+  accessKeyId: string
+  secretAccessKey: string
+  pathStyle: boolean
+  publicUrl?: string
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex')
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+// RFC 3986 encoding as required by SigV4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/')
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+export function getS3Config(): S3Config | null {
+  const bucket = process.env.S3_BUCKET
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+  if (!bucket || !accessKeyId || !secretAccessKey) return null
+
+  const region = process.env.S3_REGION || 'us-east-1'
+  const customEndpoint = process.env.S3_ENDPOINT?.replace(/\/$/, '')
+  return {
+    bucket,
+    region,
+    endpoint: customEndpoint || `https://s3.${region}.amazonaws.com`,
+    accessKeyId,
+    secretAccessKey,
+    pathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : !!customEndpoint,
+    publicUrl: process.env.S3_PUBLIC_URL?.replace(/\/$/, ''),
+  }
+}
+
+export class S3Storage implements StorageProvider {
+  id = 's3' as const
+  private config: S3Config
+
+  constructor(config: S3Config) {
+    this.config = config
+  }
+
+  private objectUrl(key = '', query: Record<string, string> = {}): URL {
+    const { bucket, endpoint, pathStyle } = this.config
+    const url = new URL(endpoint)
+    if (pathStyle) {
+      url.pathname = `/${bucket}/${encodeKey(key)}`
+    } else {
+      url.hostname = `${bucket}.${url.hostname}`
+      url.pathname = `/${encodeKey(key)}`
+    }
+    url.search = Object.entries(query)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&')
+    return url
+  }
+
+  private signature(dateStamp: string, stringToSign: string): string {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, dateStamp)
+    const regionKey = hmac(dateKey, this.config.region)
+    const serviceKey = hmac(regionKey, 's3')
+    const signingKey = hmac(serviceKey, 'aws4_request')
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+  }
+
+  private timestamps() {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    return { amzDate, dateStamp: amzDate.slice(0, 8) }
+  }
+
+  private scope(dateStamp: string): string {
+    return `${dateStamp}/${this.config.region}/s3/aws4_request`
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+  ): Promise<Response> {
+    const url = this.objectUrl(key, options.query)
+    const { amzDate, dateStamp } = this.timestamps()
+    const payloadHash = options.body ? sha256(options.body) : EMPTY_PAYLOAD_HASH
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(options.contentType ? { 'content-type': options.contentType } : {}),
+    }
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n')
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(dateStamp), sha256(canonicalRequest)].join('\n')
+
+    const { host, ...requestHeaders } = headers
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(dateStamp)}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${this.signature(dateStamp, stringToSign)}`,
+      },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    })
+  }
+
+  private async assertOk(response: Response, action: string): Promise<void> {
+    if (response.ok) return
+    const body = await response.text().catch(() => '')
+    throw new Error(`S3 ${action} failed: ${response.status} ${xmlValue(body, 'Message') || response.statusText}`)
+  }
+
+  private urlFor(key: string): string {
+    return this.config.publicUrl ? `${this.config.publicUrl}/${encodeKey(key)}` : storageProxyUrl(key)
+  }
+
+  async put(key: string, data: Buffer, options?: StoragePutOptions): Promise<StoredObject> {
+    const response = await this.request('PUT', key, { body: data, contentType: options?.contentType })
+    await this.assertOk(response, `upload of ${key}`)
+    return { key, url: this.urlFor(key), size: data.length, contentType: options?.contentType }
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    const response = await this.request('GET', key)
+    if (response.status === 404) return null
+    await this.assertOk(response, `download of ${key}`)
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || undefined,
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key)
+    await this.assertOk(response, `delete of ${key}`)
+  }
+
+  async list(prefix = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = []
+    let continuationToken: string | undefined
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix }
+      if (continuationToken) query['continuation-token'] = continuationToken
+
+      const response = await this.request('GET', '', { query })
+      await this.assertOk(response, 'list')
+      const xml = await response.text()
+
+      for (const [, entry] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlValue(entry, 'Key')!
+        const lastModified = xmlValue(entry, 'LastModified')
+        objects.push({
+          key,
+          url: this.urlFor(key),
+          size: Number(xmlValue(entry, 'Size')),
+          uploadedAt: lastModified ? new Date(lastModified) : undefined,
+        })
+      }
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined
+    } while (continuationToken)
+
+    return objects
+  }
+
+  // Presigned GET URL (query-string SigV4)
+  async getSignedUrl(key: string, expiresInSeconds = 3600): Promise<string> {
+    const { amzDate, dateStamp } = this.timestamps()
+    const url = this.objectUrl(key, {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(dateStamp)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(expiresInSeconds, 604800)),
+      'X-Amz-SignedHeaders': 'host',
+    })
+    const canonicalRequest = ['GET', url.pathname, url.search.slice(1), `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n')
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(dateStamp), sha256(canonicalRequest)].join('\n')
+
+    return `${url.toString()}&X-Amz-Signature=${this.signature(dateStamp, stringToSign)}`
+  }
+
+  keyFromUrl(url: string): string | null {
+    const { publicUrl } = this.config
+    if (publicUrl && url.startsWith(`${publicUrl}/`)) {
+      return decodeURIComponent(url.slice(publicUrl.length + 1).split('?')[0])
+    }
+    return keyFromProxyUrl(url)
+  }
+}
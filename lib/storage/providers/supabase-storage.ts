@@ -0,0 +1,92 @@
+import { supabase } from '@/lib/database/supabase'
+import { keyFromProxyUrl, storageProxyUrl } from '../proxy'
+import type { StorageObjectData, StoragePutOptions, StorageProvider, StoredObject } from '../types'
+
+/**
+ * Supabase Storage bucket (SUPABASE_STORAGE_BUCKET, default "media") using the
+ * app's Supabase client. Public buckets store public URLs; set
+ * SUPABASE_STORAGE_PUBLIC=false for a private bucket served through /api/storage.
+ */
+export class SupabaseStorage implements StorageProvider {
+  id = 'supabase' as const
+  private bucket = process.env.SUPABASE_STORAGE_BUCKET || 'media'
+  private isPublic = process.env.SUPABASE_STORAGE_PUBLIC !== 'false'
+
+  private get client() {
+    if (!supabase) {
+      throw new Error('Supabase storage requires SUPABASE_URL and SUPABASE_ANON_KEY')
+    }
+    return supabase.storage.from(this.bucket)
+  }
+
+  private urlFor(key: string): string {
+    return this.isPublic ? this.client.getPublicUrl(key).data.publicUrl : storageProxyUrl(key)
+  }
+
+  async put(key: string, data: Buffer, options?: StoragePutOptions): Promise<StoredObject> {
+    const { error } = await this.client.upload(key, data, {
+      contentType: options?.contentType,
+      upsert: true,
+    })
+    if (error) throw error
+    return { key, url: this.urlFor(key), size: data.length, contentType: options?.contentType }
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    const { data, error } = await this.client.download(key)
+    if (error) {
+      if ((error as any).statusCode === '404' || /not found/i.test(error.message)) return null
+      throw error
+    }
+    return { data: Buffer.from(await data.arrayBuffer()), contentType: data.type || undefined }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.client.remove([key])
+    if (error) throw error
+  }
+
+  // Supabase lists one folder at a time; folders come back as entries without an id
+  async list(prefix = ''): Promise<StoredObject[]> {
+    const folder = prefix.replace(/\/$/, '')
+    const objects: StoredObject[] = []
+    const pageSize = 1000
+
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.client.list(folder, { limit: pageSize, offset })
+      if (error) throw error
+
+      for (const entry of data) {
+        const key = folder ? `${folder}/${entry.name}` : entry.name
+        if (!entry.id) {
+          objects.push(...(await this.list(key)))
+          continue
+        }
+        objects.push({
+          key,
+          url: this.urlFor(key),
+          size: entry.metadata?.size,
+          contentType: entry.metadata?.mimetype,
+          uploadedAt: entry.created_at ? new Date(entry.created_at) : undefined,
+        })
+      }
+      if (data.length < pageSize) break
+    }
+    return objects
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = 3600): Promise<string> {
+    const { data, error } = await this.client.createSignedUrl(key, expiresInSeconds)
+    if (error) throw error
+    return data.signedUrl
+  }
+
+  keyFromUrl(url: string): string | null {
+    if (!this.isPublic) return keyFromProxyUrl(url)
+
+    const marker = `/storage/v1/object/public/${this.bucket}/`
+    const index = url.indexOf(marker)
+    if (index === -1) return null
+    return decodeURIComponent(url.slice(index + marker.length).split('?')[0])
+  }
+}
@@ -0,0 +1,66 @@
+import { put, del, head, list } from '@vercel/blob'
+import type { StorageObjectData, StoragePutOptions, StorageProvider, StoredObject } from '../types'
+
+// Public Vercel Blob store; configured with BLOB_READ_WRITE_TOKEN
+export class VercelBlobStorage implements StorageProvider {
+  id = 'vercel-blob' as const
+
+  async put(key: string, data: Buffer, options?: StoragePutOptions): Promise<StoredObject> {
+    const blob = await put(key, data, {
+      access: 'public',
+      contentType: options?.contentType,
+    })
+    return { key: blob.pathname, url: blob.url, size: data.length, contentType: options?.contentType }
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    let url: string
+    try {
+      url = (await head(key)).url
+    } catch (error: any) {
+      if (error?.name === 'BlobNotFoundError') return null
+      throw error
+    }
+
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to download ${key}: ${response.status} ${response.statusText}`)
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || undefined,
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await del(key)
+  }
+
+  async list(prefix?: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = []
+    let cursor: string | undefined
+    do {
+      const result = await list({ prefix, cursor })
+      for (const blob of result.blobs) {
+        objects.push({ key: blob.pathname, url: blob.url, size: blob.size, uploadedAt: blob.uploadedAt })
+      }
+      cursor = result.hasMore ? result.cursor : undefined
+    } while (cursor)
+    return objects
+  }
+
+  // Blob stores are public, so the stored URL never expires
+  async getSignedUrl(key: string): Promise<string> {
+    return (await head(key)).url
+  }
+
+  keyFromUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url)
+      if (!parsed.hostname.endsWith('.blob.vercel-storage.com')) return null
+      return decodeURIComponent(parsed.pathname.slice(1))
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,31 @@
+// Objects in private buckets and on the local filesystem are served through /api/storage/<key>
+export function storageProxyUrl(key: string): string {
+  const base = (process.env.STORAGE_PUBLIC_BASE_URL || '').replace(/\/$/, '')
+  return `${base}/api/storage/${key.split('/').map(encodeURIComponent).join('/')}`
+}
+
+/**
+ * Whether a key names one object as written. Keys with empty, "." or ".."
+ * segments (e.g. shares/<token>/../../images/x, from a URL with encoded
+ * slashes) resolve to a different object in the providers, so access
+ * checks on their literal prefix would not apply to what they read.
+ */
+export function isSafeStorageKey(key: string): boolean {
+  return key.length > 0 && key.split('/').every(segment =>
+    segment !== '' && segment !== '.' && segment !== '..' && !segment.includes('\\')
+  )
+}
+
+// Key of a /api/storage URL (absolute or relative), or null for any other URL
+export function keyFromProxyUrl(url: string): string | null {
+  const match = url.match(/\/api\/storage\/([^?#]+)/)
+  if (!match) return null
+
+  let key: string
+  try {
+    key = match[1].split('/').map(decodeURIComponent).join('/')
+  } catch {
+    return null
+  }
+  return isSafeStorageKey(key) ? key : null
+}
@@ -0,0 +1,38 @@
+/**
+ * Durable storage for generated and uploaded media. Backends are selected by
+ * STORAGE_PROVIDER (see lib/storage/index.ts); objects are addressed by key,
+ * e.g. `images/<id>.png`, and every backend can map its URLs back to keys.
+ */
+
+export type StorageProviderId = 'vercel-blob' | 'supabase' | 's3' | 'local'
+
+export interface StoragePutOptions {
+  contentType?: string
+}
+
+export interface StoredObject {
+  key: string
+  // URL stored in the database and used by the UI to display the object
+  url: string
+  size?: number
+  contentType?: string
+  uploadedAt?: Date
+}
+
+export interface StorageObjectData {
+  data: Buffer
+  contentType?: string
+}
+
+export interface StorageProvider {
+  id: StorageProviderId
+  put(key: string, data: Buffer, options?: StoragePutOptions): Promise<StoredObject>
+  // Returns null when the object does not exist
+  get(key: string): Promise<StorageObjectData | null>
+  delete(key: string): Promise<void>
+  list(prefix?: string): Promise<StoredObject[]>
+  // Time-limited URL for reading the object; public backends return the plain URL
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>
+  // Key of an object stored by this backend, or null for any other URL
+  keyFromUrl(url: string): string | null
+}
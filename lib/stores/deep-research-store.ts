@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { AsyncJob, DeepResearchOptions } from '@/lib/perplexity-async-client';
 import { WebViewSession, WebPageContext } from '@/lib/services/browser-automation';
+import type { ResearchSessionDetail } from '@/lib/services/research-sessions';
+import type { CorpusScope } from '@/lib/research-corpus';
+import { classifySourceType, sourceOrigin } from '@/lib/research-report';
 
 export interface ResearchPhase {
   name: string;
@@ -35,10 +38,64 @@ export interface ResearchSession {
   error?: string;
 }
 
+const RECORD_STATUSES: Record<ResearchSessionDetail['status'], ResearchSession['status']> = {
+  queued: 'planning',
+  processing: 'researching',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'failed'
+};
+
+/**
+ * Store shape of a session persisted through /api/research. Findings become
+ * phases in the order they were recorded; the session's current phase is the
+ * active one while it runs.
+ */
+export function sessionFromRecord(record: ResearchSessionDetail): ResearchSession {
+  const status = RECORD_STATUSES[record.status];
+  const running = status === 'planning' || status === 'researching';
+  const sources = record.sources.map(source => ({
+    url: source.url,
+    title: source.title || source.url,
+    phase: source.phase,
+    type: classifySourceType(source.url),
+    origin: sourceOrigin(source.url)
+  }));
+
+  return {
+    id: record.id,
+    query: record.query,
+    mode: 'async',
+    depth: record.options?.depth || 'deep',
+    status,
+    phases: record.findings.map(finding => ({
+      name: finding.phase,
+      status: running && finding.phase === record.phase ? 'active' : 'completed',
+      findings: [finding.content],
+      sources: sources.filter(source => source.phase === finding.phase),
+      startedAt: new Date(finding.created_at)
+    })),
+    currentPhase: record.phase,
+    asyncJobs: new Map(),
+    webViewSessions: [],
+    findings: record.findings.map(finding => finding.content),
+    sources,
+    insights: [],
+    contradictions: [],
+    knowledgeGaps: [],
+    report: record.report || undefined,
+    startedAt: new Date(record.created_at),
+    completedAt: record.completed_at ? new Date(record.completed_at) : undefined,
+    error: record.status === 'cancelled' ? 'Research was cancelled' : record.error || undefined
+  };
+}
+
 interface DeepResearchStore {
   // State
   sessions: Map<string, ResearchSession>;
   activeSessionId: string | null;
+  // Documents the next research runs over; null researches the web only
+  corpusScope: CorpusScope | null;
   
   // Actions
   createSession: (query: string, options: {
@@ -50,6 +107,11 @@ interface DeepResearchStore {
   updateSession: (sessionId: string, updates: Partial<ResearchSession>) => void;
   
   setActiveSession: (sessionId: string | null) => void;
+
+  setCorpusScope: (scope: CorpusScope | null) => void;
+
+  // Add or replace a session (e.g. one loaded from /api/research) and make it active
+  loadSession: (session: ResearchSession) => void;
   
   addAsyncJob: (sessionId: string, job: AsyncJob) => void;
   
@@ -79,6 +141,7 @@ interface DeepResearchStore {
 export const useDeepResearchStore = create<DeepResearchStore>((set, get) => ({
   sessions: new Map(),
   activeSessionId: null,
+  corpusScope: null,
 
   createSession: (query, options = {}) => {
     const sessionId = `research_${Date.now()}`;
@@ -126,6 +189,21 @@ export const useDeepResearchStore = create<DeepResearchStore>((set, get) => ({
     set({ activeSessionId: sessionId });
   },
 
+  setCorpusScope: (scope) => {
+    set({ corpusScope: scope && scope.documentIds.length > 0 ? scope : null });
+  },
+
+  loadSession: (session) => {
+    set((state) => {
+      const newSessions = new Map(state.sessions);
+      newSessions.set(session.id, session);
+      return {
+        sessions: newSessions,
+        activeSessionId: session.id
+      };
+    });
+  },
+
   addAsyncJob: (sessionId, job) => {
     set((state) => {
       const session = state.sessions.get(sessionId);
@@ -311,11 +389,25 @@ export const useDeepResearchStore = create<DeepResearchStore>((set, get) => ({
 
   exportSession: (sessionId) => {
     const session = get().sessions.get(sessionId);
-    if (!session || !session.report) {
+    if (!session || (!session.report && session.findings.length === 0)) {
       return '# No research data available';
     }
 
-    return session.report;
+    const lines = [
+      `# ${session.query}`,
+      '',
+      `- Depth: ${session.depth}`,
+      `- Started: ${session.startedAt.toISOString()}`
+    ];
+    if (session.completedAt) lines.push(`- Completed: ${session.completedAt.toISOString()}`);
+    lines.push('', session.report || session.findings[session.findings.length - 1], '');
+
+    const urls = Array.from(new Set(session.sources.map(source => source?.url).filter(Boolean)));
+    if (urls.length > 0) {
+      lines.push('## Sources', '', ...urls.map((url, i) => `${i + 1}. <${url}>`), '');
+    }
+
+    return lines.join('\n');
   },
 
   clearSessions: () => {
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { mergeFields } from '@/lib/sync/merge'
+
+interface Chat {
+  title: string
+  model: string
+  updated_at?: string
+}
+
+const remote: Chat = { title: 'Remote title', model: 'remote-model', updated_at: '2026-01-01T10:00:00.000Z' }
+
+describe('mergeFields', () => {
+  it('applies every local change when the remote record is unchanged', () => {
+    const result = mergeFields(remote, { title: 'Local title' }, { title: 'Old title' }, '2026-01-01T10:00:00.000Z')
+    expect(result).toEqual({ updates: { title: 'Local title' }, conflictingFields: [] })
+  })
+
+  it('keeps local fields the remote update did not change', () => {
+    const result = mergeFields(
+      remote,
+      { title: 'Local title', model: 'local-model' },
+      { title: 'Remote title', model: 'old-model' },
+      '2026-01-01T08:00:00.000Z'
+    )
+    expect(result.updates).toEqual({ title: 'Local title' })
+    expect(result.conflictingFields).toEqual(['model'])
+  })
+
+  it('applies a rename when only new messages bumped the remote updated_at', () => {
+    const result = mergeFields(
+      { ...remote, title: 'Old title', updated_at: '2026-01-01T12:00:00.000Z' },
+      { title: 'Local title' },
+      { title: 'Old title' },
+      '2026-01-01T08:00:00.000Z'
+    )
+    expect(result).toEqual({ updates: { title: 'Local title' }, conflictingFields: [] })
+  })
+
+  it('treats changed fields without a base value as conflicting', () => {
+    const result = mergeFields(remote, { model: 'local-model' }, {}, '2026-01-01T08:00:00.000Z')
+    expect(result).toEqual({ updates: {}, conflictingFields: ['model'] })
+  })
+
+  it('skips fields that already match or are unset', () => {
+    const result = mergeFields(remote, { title: 'Remote title', model: undefined }, {}, '2026-01-01T08:00:00.000Z')
+    expect(result).toEqual({ updates: {}, conflictingFields: [] })
+  })
+
+  it('applies local changes when there is no base timestamp', () => {
+    const result = mergeFields(remote, { model: 'local-model' })
+    expect(result.updates).toEqual({ model: 'local-model' })
+  })
+})
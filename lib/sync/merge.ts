@@ -0,0 +1,47 @@
+/**
+ * Conflict resolution for offline edits: a change made while offline wins
+ * unless the remote record was updated after the client last saw it and that
+ * update changed the same field. Fields are compared one by one against the
+ * values the client started from, so renaming a chat offline doesn't undo a
+ * model change made elsewhere, and new messages (which bump updated_at) don't
+ * count as conflicting edits.
+ */
+
+export interface FieldMergeResult<T> {
+  // Fields to write to the remote record
+  updates: Partial<T>
+  // Local changes dropped because the remote value changed since the client's base
+  conflictingFields: (keyof T)[]
+}
+
+function isAfter(a: string | undefined, b: string | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  return new Date(a).getTime() > new Date(b).getTime()
+}
+
+export function mergeFields<T extends object>(
+  remote: T & { updated_at?: string },
+  local: Partial<T>,
+  baseFields: Partial<T> = {},
+  baseUpdatedAt?: string
+): FieldMergeResult<T> {
+  const updates: Partial<T> = {}
+  const conflictingFields: (keyof T)[] = []
+
+  // No remote edits since the client last saw the record: all local changes apply
+  const remoteChanged = !!baseUpdatedAt && isAfter(remote.updated_at, baseUpdatedAt)
+
+  for (const field of Object.keys(local) as (keyof T)[]) {
+    const value = local[field]
+    if (value === undefined || value === remote[field]) continue
+
+    if (!remoteChanged || (field in baseFields && baseFields[field] === remote[field])) {
+      updates[field] = value
+    } else {
+      conflictingFields.push(field)
+    }
+  }
+
+  return { updates, conflictingFields }
+}
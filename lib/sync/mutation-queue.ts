@@ -0,0 +1,114 @@
+// Outbound sync mutations, persisted in IndexedDB so queued changes survive reloads
+import type { SyncMutation } from '@/lib/sync/types'
+
+const DB_NAME = 'SyncQueueDB'
+const DB_VERSION = 1
+const STORE_NAME = 'mutations'
+
+interface QueuedMutation {
+  seq?: number // Auto-increment key; preserves enqueue order
+  mutation: SyncMutation
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+// Used when IndexedDB is unavailable (private browsing, old browsers)
+let memoryQueue: QueuedMutation[] = []
+let memorySeq = 0
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = () => {
+      console.error('[SyncQueue] Failed to open IndexedDB:', request.error)
+      dbPromise = null
+      reject(request.error)
+    }
+
+    request.onsuccess = () => resolve(request.result)
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true })
+      }
+    }
+  })
+  return dbPromise
+}
+
+function hasIndexedDB(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB()
+  const store = db.transaction([STORE_NAME], mode).objectStore(STORE_NAME)
+  return requestToPromise(run(store))
+}
+
+export async function enqueueMutation(mutation: SyncMutation): Promise<void> {
+  if (!hasIndexedDB()) {
+    memoryQueue.push({ seq: ++memorySeq, mutation })
+    return
+  }
+  await withStore('readwrite', store => store.add({ mutation }))
+}
+
+// Queued mutations, oldest first
+export async function listMutations(limit?: number): Promise<SyncMutation[]> {
+  if (!hasIndexedDB()) {
+    return memoryQueue.slice(0, limit).map(entry => entry.mutation)
+  }
+  const entries = await withStore<QueuedMutation[]>('readonly', store => store.getAll(undefined, limit))
+  return entries.map(entry => entry.mutation)
+}
+
+export async function countMutations(): Promise<number> {
+  if (!hasIndexedDB()) return memoryQueue.length
+  return withStore('readonly', store => store.count())
+}
+
+async function findSeq(mutationId: string): Promise<number | undefined> {
+  const entries = await withStore<QueuedMutation[]>('readonly', store => store.getAll())
+  return entries.find(entry => entry.mutation.id === mutationId)?.seq
+}
+
+export async function removeMutations(mutationIds: string[]): Promise<void> {
+  if (mutationIds.length === 0) return
+  if (!hasIndexedDB()) {
+    memoryQueue = memoryQueue.filter(entry => !mutationIds.includes(entry.mutation.id))
+    return
+  }
+
+  const ids = new Set(mutationIds)
+  const entries = await withStore<QueuedMutation[]>('readonly', store => store.getAll())
+  for (const entry of entries) {
+    if (ids.has(entry.mutation.id) && entry.seq !== undefined) {
+      await withStore('readwrite', store => store.delete(entry.seq!))
+    }
+  }
+}
+
+// Replace a queued mutation in place, keeping its position
+export async function updateMutation(mutation: SyncMutation): Promise<void> {
+  if (!hasIndexedDB()) {
+    const entry = memoryQueue.find(queued => queued.mutation.id === mutation.id)
+    if (entry) entry.mutation = mutation
+    return
+  }
+
+  const seq = await findSeq(mutation.id)
+  if (seq !== undefined) {
+    await withStore('readwrite', store => store.put({ seq, mutation }))
+  }
+}
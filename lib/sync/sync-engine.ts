@@ -0,0 +1,332 @@
+/**
+ * Client-side sync engine: changes are written to the browser first and
+ * recorded in an outbound queue, which is flushed to /api/sync whenever the
+ * app is online and the database is configured.
+ */
+
+import {
+  countMutations,
+  enqueueMutation,
+  listMutations,
+  removeMutations,
+  updateMutation
+} from '@/lib/sync/mutation-queue'
+import type { NewSyncMutation, SyncMutation, SyncMutationResult, SyncStatus } from '@/lib/sync/types'
+import {
+  deleteLocalStorageChat,
+  getLocalStorageChats,
+  getLocalStorageMessages
+} from '@/lib/localStorage-persistence'
+import { loadGeneratedImages } from '@/lib/image-utils'
+import { loadVideosFromLocalStorage } from '@/lib/video-storage'
+import { loadAudios } from '@/lib/audio-persistence'
+
+type SyncStatusListener = (status: SyncStatus) => void
+
+const ID_MAP_KEY = 'sync-id-map'
+const MIGRATION_KEY = 'sync-local-migration-v1'
+const BATCH_SIZE = 25
+// A mutation that keeps failing is dropped so it can't block the queue
+const MAX_ATTEMPTS = 5
+const MIN_RETRY_DELAY = 5000
+const MAX_RETRY_DELAY = 5 * 60 * 1000
+
+function createMutationId(): string {
+  return `mut-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+export function isLocalId(id: string | null | undefined): boolean {
+  return !!id && id.startsWith('local-')
+}
+
+export class SyncEngine {
+  private static instance: SyncEngine | null = null
+
+  private status: SyncStatus = { state: 'idle', pending: 0 }
+  private listeners = new Set<SyncStatusListener>()
+  private started = false
+  private configured: boolean | null = null
+  private flushing: Promise<void> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryDelay = MIN_RETRY_DELAY
+  // Remote ids of chats and messages created offline, keyed by client id
+  private idMap: Record<string, string> = {}
+
+  static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine()
+    }
+    return SyncEngine.instance
+  }
+
+  private constructor() {
+    if (typeof window === 'undefined') return
+    try {
+      this.idMap = JSON.parse(localStorage.getItem(ID_MAP_KEY) || '{}')
+    } catch {
+      this.idMap = {}
+    }
+  }
+
+  subscribe(listener: SyncStatusListener): () => void {
+    this.listeners.add(listener)
+    listener(this.status)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatus(): SyncStatus {
+    return this.status
+  }
+
+  private setStatus(update: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...update }
+    this.listeners.forEach(listener => listener(this.status))
+  }
+
+  /**
+   * Start syncing: check whether the database is configured, migrate data
+   * saved before sync existed, and flush whenever the browser comes online.
+   * Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    window.addEventListener('online', () => {
+      this.retryDelay = MIN_RETRY_DELAY
+      this.flush()
+    })
+    window.addEventListener('offline', () => this.setStatus({ state: 'offline' }))
+
+    this.setStatus({ pending: await countMutations() })
+    await this.flush()
+  }
+
+  private async checkConfigured(): Promise<boolean> {
+    if (this.configured !== null) return this.configured
+    try {
+      const response = await fetch('/api/check-persistence')
+      const data = await response.json()
+      this.configured = !!data.configured
+    } catch {
+      // Unknown while offline; check again on the next flush
+      return false
+    }
+    if (!this.configured) {
+      this.setStatus({ state: 'disabled' })
+    }
+    return this.configured
+  }
+
+  /**
+   * Record a local change. It is sent the next time the app is online and
+   * the database is configured.
+   */
+  async enqueue(mutation: NewSyncMutation): Promise<void> {
+    await enqueueMutation({
+      ...mutation,
+      id: createMutationId(),
+      queuedAt: new Date().toISOString()
+    } as SyncMutation)
+    this.setStatus({ pending: this.status.pending + 1 })
+    this.flush()
+  }
+
+  // Remote id of a chat or message created offline, once it has synced
+  getRemoteId(clientId: string): string | undefined {
+    return this.idMap[clientId]
+  }
+
+  /**
+   * Send queued mutations in order until the queue is empty or a batch
+   * fails; failures are retried with backoff.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  private async runFlush(): Promise<void> {
+    if (typeof window === 'undefined') return
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    if (!navigator.onLine) {
+      this.setStatus({ state: 'offline', pending: await countMutations() })
+      return
+    }
+    if (!(await this.checkConfigured())) {
+      this.setStatus({ pending: await countMutations() })
+      return
+    }
+    await this.migrateLocalData()
+
+    for (;;) {
+      const batch = await listMutations(BATCH_SIZE)
+      if (batch.length === 0) break
+
+      this.setStatus({ state: 'syncing' })
+
+      let results: SyncMutationResult[]
+      try {
+        const response = await fetch('/api/sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ mutations: batch }),
+        })
+        if (!response.ok) {
+          const data = await response.json().catch(() => null)
+          throw new Error(data?.error || `Sync failed with status ${response.status}`)
+        }
+        results = (await response.json()).results
+      } catch (error: any) {
+        this.scheduleRetry(error.message || 'Sync failed')
+        return
+      }
+
+      const failed = await this.applyResults(batch, results)
+      if (failed) {
+        this.scheduleRetry(failed)
+        return
+      }
+    }
+
+    this.purgeSyncedLocalChats()
+    this.retryDelay = MIN_RETRY_DELAY
+    this.setStatus({
+      state: 'idle',
+      pending: 0,
+      lastSyncedAt: new Date().toISOString(),
+      lastError: undefined
+    })
+  }
+
+  // Returns the error of a failed mutation, if any
+  private async applyResults(batch: SyncMutation[], results: SyncMutationResult[]): Promise<string | null> {
+    const done: string[] = []
+    const conflicts: string[] = []
+    let failure: string | null = null
+
+    for (const result of results) {
+      const mutation = batch.find(m => m.id === result.mutationId)
+      if (!mutation) continue
+
+      if (result.status === 'failed') {
+        const attempts = (mutation.attempts || 0) + 1
+        if (attempts >= MAX_ATTEMPTS) {
+          console.error(`[SyncEngine] Dropping ${mutation.type} after ${attempts} attempts:`, result.error)
+          done.push(mutation.id)
+        } else {
+          await updateMutation({ ...mutation, attempts, lastError: result.error })
+        }
+        failure = result.error || 'Sync failed'
+        break
+      }
+
+      if ('clientId' in mutation && result.remoteId && mutation.clientId !== result.remoteId) {
+        this.idMap[mutation.clientId] = result.remoteId
+      }
+      if (result.status === 'merged' && 'clientId' in mutation) {
+        conflicts.push(mutation.clientId)
+      }
+      done.push(mutation.id)
+    }
+
+    localStorage.setItem(ID_MAP_KEY, JSON.stringify(this.idMap))
+    await removeMutations(done)
+    this.setStatus({
+      pending: await countMutations(),
+      ...(conflicts.length > 0 ? { lastConflicts: conflicts } : {})
+    })
+
+    return failure
+  }
+
+  private scheduleRetry(error: string) {
+    console.warn('[SyncEngine] Sync failed, retrying in', this.retryDelay, 'ms:', error)
+    this.setStatus({ state: navigator.onLine ? 'error' : 'offline', lastError: error })
+
+    this.retryTimer = setTimeout(() => this.flush(), this.retryDelay)
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY)
+  }
+
+  // Local copies of chats are no longer needed once everything about them is in the database
+  private purgeSyncedLocalChats() {
+    for (const chat of getLocalStorageChats()) {
+      if (this.idMap[chat.id]) {
+        deleteLocalStorageChat(chat.id)
+      }
+    }
+  }
+
+  /**
+   * Queue chats, images, videos and audio saved in the browser before sync
+   * existed (or while the database was not configured). Runs once.
+   */
+  private async migrateLocalData(): Promise<void> {
+    if (localStorage.getItem(MIGRATION_KEY)) return
+
+    const mutations: NewSyncMutation[] = []
+
+    for (const chat of getLocalStorageChats()) {
+      mutations.push({
+        type: 'chat.upsert',
+        clientId: chat.id,
+        fields: { title: chat.title, model: chat.model },
+        createdAt: chat.created_at
+      })
+
+      let parentClientId: string | null = null
+      for (const message of getLocalStorageMessages(chat.id)) {
+        mutations.push({
+          type: 'message.add',
+          clientId: message.id,
+          chatClientId: chat.id,
+          parentClientId: message.parent_id !== undefined ? message.parent_id : parentClientId,
+          role: message.role,
+          content: message.content,
+          attachments: message.attachments,
+          metadata: message.metadata,
+          createdAt: message.created_at
+        })
+        parentClientId = message.id
+      }
+    }
+
+    for (const image of loadGeneratedImages()) {
+      if (image.isGenerating || !image.url || image.url.startsWith('blob:')) continue
+      mutations.push({ type: 'image.save', image })
+    }
+
+    for (const video of loadVideosFromLocalStorage()) {
+      if (video.status !== 'completed') continue
+      mutations.push({ type: 'video.save', chatClientId: video.chatId, video })
+    }
+
+    for (const audio of await loadAudios()) {
+      if (!audio.audioBase64 || audio.isGenerating || audio.status === 'failed') continue
+      mutations.push({ type: 'audio.save', audio })
+    }
+
+    for (const mutation of mutations) {
+      await enqueueMutation({
+        ...mutation,
+        id: createMutationId(),
+        queuedAt: new Date().toISOString()
+      } as SyncMutation)
+    }
+
+    localStorage.setItem(MIGRATION_KEY, new Date().toISOString())
+    console.log(`[SyncEngine] Queued ${mutations.length} local items for migration`)
+    this.setStatus({ pending: await countMutations() })
+  }
+}
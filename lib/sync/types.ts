@@ -0,0 +1,105 @@
+/**
+ * Offline-first sync between the browser (localStorage/IndexedDB) and
+ * Supabase. The client records changes as mutations in an outbound queue;
+ * /api/sync applies them in order. Entities are addressed by client id (the
+ * id the browser created them with), so retrying a batch never duplicates rows.
+ */
+
+import type { GeneratedImage } from '@/lib/image-utils'
+import type { GeneratedVideo } from '@/lib/video-generation-types'
+import type { GeneratedAudio } from '@/components/audio-gallery'
+
+// Chat fields that can be edited while offline and merged per field
+export interface SyncChatFields {
+  title: string
+  model: string
+}
+
+interface SyncMutationBase {
+  id: string // Mutation id, unique per client
+  queuedAt: string
+  attempts?: number
+  lastError?: string
+}
+
+export interface ChatUpsertMutation extends SyncMutationBase {
+  type: 'chat.upsert'
+  clientId: string
+  fields: Partial<SyncChatFields>
+  // Remote values of the changed fields when the client edited them, and the
+  // remote updated_at it last saw; unset for chats created offline
+  baseFields?: Partial<SyncChatFields>
+  baseUpdatedAt?: string
+  createdAt: string
+}
+
+export interface ChatDeleteMutation extends SyncMutationBase {
+  type: 'chat.delete'
+  clientId: string
+}
+
+export interface MessageAddMutation extends SyncMutationBase {
+  type: 'message.add'
+  clientId: string
+  chatClientId: string
+  parentClientId?: string | null
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  attachments?: any[]
+  metadata?: Record<string, any>
+  createdAt: string
+}
+
+export interface ImageSaveMutation extends SyncMutationBase {
+  type: 'image.save'
+  chatClientId?: string
+  image: GeneratedImage
+}
+
+export interface VideoSaveMutation extends SyncMutationBase {
+  type: 'video.save'
+  chatClientId?: string
+  video: GeneratedVideo
+}
+
+export interface AudioSaveMutation extends SyncMutationBase {
+  type: 'audio.save'
+  chatClientId?: string
+  audio: GeneratedAudio
+}
+
+export type SyncMutation =
+  | ChatUpsertMutation
+  | ChatDeleteMutation
+  | MessageAddMutation
+  | ImageSaveMutation
+  | VideoSaveMutation
+  | AudioSaveMutation
+
+// Mutation as passed to SyncEngine.enqueue; the queue fills in the rest
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+export type NewSyncMutation = DistributiveOmit<SyncMutation, keyof SyncMutationBase>
+
+export interface SyncMutationResult {
+  mutationId: string
+  // 'merged': applied with some fields kept from a newer remote version
+  // 'skipped': already applied (or the target no longer exists)
+  status: 'applied' | 'merged' | 'skipped' | 'failed'
+  remoteId?: string
+  conflictingFields?: string[]
+  error?: string
+  // Failed for a transient reason; the mutation stays queued
+  retryable?: boolean
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  pending: number
+  lastSyncedAt?: string
+  lastError?: string
+  // Chats whose offline changes were merged with newer remote edits
+  lastConflicts?: string[]
+}
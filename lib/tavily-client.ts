@@ -1,30 +0,0 @@
-// Tavily Search Client - Stub implementation
-export class TavilyClient {
-  private static instance: TavilyClient;
-  
-  static getInstance(): TavilyClient {
-    if (!this.instance) {
-      this.instance = new TavilyClient();
-    }
-    return this.instance;
-  }
-  
-  async search(params: any): Promise<any> {
-    // Stub implementation
-    return {
-      query: params.query,
-      results: [],
-      answer: 'Search functionality not implemented'
-    };
-  }
-}
-
-export class WebSearchContextDetector {
-  static getSearchParams(query: string): any {
-    return {};
-  }
-  
-  static extractDomains(query: string): any {
-    return {};
-  }
-}
\ No newline at end of file
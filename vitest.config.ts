@@ -0,0 +1,13 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests of lib/ modules; the browser tests in tests/ run with Playwright
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    include: ['lib/**/__tests__/**/*.test.ts'],
+    environment: 'node',
+  },
+})